@@ -3,20 +3,25 @@ import { BlurView } from 'expo-blur';
 import { Tabs } from 'expo-router';
 import { Platform, StyleSheet, View } from 'react-native';
 import { COLORS_V2, ELEVATION } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme } from '../../contexts/ThemeContext';
 
 export default function TabLayout() {
+  const { colors } = useTheme();
+  const { t } = useTranslation();
+
   return (
     <Tabs
       screenOptions={{
         headerShown: false,
-        tabBarActiveTintColor: COLORS_V2.primary[600],
-        tabBarInactiveTintColor: COLORS_V2.text.tertiary,
+        tabBarActiveTintColor: colors.primary,
+        tabBarInactiveTintColor: colors.textMuted,
         tabBarStyle: {
           position: 'absolute',
           bottom: 0,
           left: 0,
           right: 0,
-          backgroundColor: Platform.OS === 'ios' ? 'transparent' : COLORS_V2.surface.base,
+          backgroundColor: Platform.OS === 'ios' ? 'transparent' : colors.card,
           borderTopWidth: 0,
           height: Platform.OS === 'ios' ? 88 : 65,
           paddingBottom: Platform.OS === 'ios' ? 28 : 8,
@@ -27,7 +32,7 @@ export default function TabLayout() {
           Platform.OS === 'ios' ? (
             <BlurView
               intensity={95}
-              tint="light"
+              tint={colors.blurTint}
               style={StyleSheet.absoluteFill}
             />
           ) : null
@@ -46,7 +51,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="home"
         options={{
-          title: 'Home',
+          title: t('tabs.home'),
           tabBarIcon: ({ color, focused }) => (
             <View style={[styles.iconContainer, focused && styles.iconContainerActive]}>
               <Ionicons
@@ -63,7 +68,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="tasks/index"
         options={{
-          title: 'Tasks',
+          title: t('tabs.tasks'),
           href: '/tasks',
           tabBarIcon: ({ color, focused }) => (
             <View style={[styles.iconContainer, focused && styles.iconContainerActive]}>
@@ -81,7 +86,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="courses/index"
         options={{
-          title: 'Courses',
+          title: t('tabs.courses'),
           href: '/courses',
           tabBarIcon: ({ color, focused }) => (
             <View style={[styles.iconContainer, focused && styles.iconContainerActive]}>
@@ -99,7 +104,7 @@ export default function TabLayout() {
       <Tabs.Screen
         name="chat"
         options={{
-          title: 'AI Chat',
+          title: t('tabs.chat'),
           tabBarStyle: { display: 'none' },
           tabBarIcon: ({ color, focused }) => (
             <View style={[styles.iconContainer, focused && styles.iconContainerActive]}>
@@ -27,23 +27,39 @@ import {
 import {
   ChatBubble,
   ChatInput,
+  ChatSessionList,
   EmptyState,
   QuickActions,
   ScrollToBottomButton,
 } from '../../components/chat';
-import { COLORS } from '../../constants/config';
+import { ThemeColors } from '../../constants/designSystem';
 import { ILLUSTRATIONS } from '../../constants/illustrations';
-import { indexAllUserData } from '../../services/ai/ragIndexer';
-import { answerWithContext } from '../../services/ai/ragService';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
+import { useReindexProgress } from '../../hooks/useReindexProgress';
+import { indexAllUserData, resumeReindexJob } from '../../services/ai/ragReindexJob';
+import { answerWithContext, getSourceLabel } from '../../services/ai/ragService';
 import {
   answerQuestion,
   explainConcept,
   generateAIResponse,
   getStudyTips,
+  resetConversation,
+  restoreConversation,
   summarizeText,
   testConnection
 } from '../../services/aiServiceEnhanced';
 import { getCurrentUser } from '../../services/authService';
+import {
+  addChatMessage,
+  createChatSession,
+  deleteChatSession,
+  getChatMessagesPaginated,
+  getChatSessions,
+  renameChatSession,
+} from '../../services/chatServiceFirestore';
+import { getWeakTopics, WeakTopic } from '../../services/quizServiceFirestore';
+import { ChatMessage, ChatSession } from '../../types';
 
 // Enable LayoutAnimation on Android (only for old architecture)
 if (
@@ -60,10 +76,31 @@ export interface Message {
   isUser: boolean;
   timestamp: Date;
   isTyping?: boolean;
+  isStreaming?: boolean;
+  isCancelled?: boolean;
   avatar?: string;
   isError?: boolean;
 }
 
+type ChatMode = ChatSession['mode'];
+
+const MESSAGE_PAGE_SIZE = 30;
+
+/**
+ * Convert a persisted chat message into a UI message
+ */
+function toUiMessage(message: ChatMessage): Message {
+  return {
+    id: message.id,
+    text: message.text,
+    isUser: message.isUserMessage,
+    timestamp: message.timestamp,
+    avatar: message.isUserMessage ? undefined : '🤖',
+    isError: !!message.metadata?.isError,
+    isCancelled: !!message.metadata?.isCancelled,
+  };
+}
+
 /**
  * Detect user intent from message
  */
@@ -101,6 +138,9 @@ function detectIntent(message: string): {
 }
 
 export default function AIChatScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const flatListRef = useRef<FlatList>(null);
 
@@ -110,12 +150,26 @@ export default function AIChatScreen() {
   const [loading, setLoading] = useState(true);
   const [typing, setTyping] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
-  const [userName, setUserName] = useState('Student');
+  const [userName, setUserName] = useState('');
   const [showScrollButton, setShowScrollButton] = useState(false);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [aiConnected, setAiConnected] = useState<boolean | null>(null);
   const [useRAG, setUseRAG] = useState(false); // Toggle between normal AI and RAG
   const [isIndexing, setIsIndexing] = useState(false);
+  const [weakTopic, setWeakTopic] = useState<WeakTopic | null>(null); // weakest practice-quiz topic, for suggestions
+  const reindexProgress = useReindexProgress();
+
+  // Persisted conversations (one active session per mode)
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [showSessionList, setShowSessionList] = useState(false);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const activeSessionsRef = useRef<Record<ChatMode, ChatSession | null>>({ normal: null, rag: null });
+  const paginationRef = useRef<Record<ChatMode, { hasMore: boolean; lastDoc: any }>>({
+    normal: { hasMore: false, lastDoc: null },
+    rag: { hasMore: false, lastDoc: null },
+  });
+  const welcomeRef = useRef<Record<ChatMode, Message | null>>({ normal: null, rag: null });
 
   // Animated values for loading dots
   const dot1Opacity = useRef(new Animated.Value(0.4)).current;
@@ -125,9 +179,12 @@ export default function AIChatScreen() {
   // Get current messages based on mode
   const messages = useRAG ? ragMessages : normalMessages;
   const setMessages = useRAG ? setRagMessages : setNormalMessages;
+  const chatMode: ChatMode = useRAG ? 'rag' : 'normal';
 
   // ✅ PERFORMANCE: Prevent setState on unmounted component
   const mountedRef = React.useRef(true);
+  // Aborts the reply currently streaming in
+  const replyAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     mountedRef.current = true;
@@ -136,6 +193,7 @@ export default function AIChatScreen() {
 
     return () => {
       mountedRef.current = false;
+      replyAbortRef.current?.abort();
       Keyboard.removeAllListeners('keyboardWillShow');
       Keyboard.removeAllListeners('keyboardWillHide');
     };
@@ -156,9 +214,18 @@ export default function AIChatScreen() {
       
       if (mountedRef.current) {
         setUserId(user.id);
-        setUserName(user.name || 'Student');
+        setUserName(user.name || '');
       }
 
+      // Finish a reindex cut short last time
+      resumeReindexJob(user.id);
+
+      getWeakTopics(user.id, { limit: 1 })
+        .then(([weakest]) => {
+          if (mountedRef.current) setWeakTopic(weakest || null);
+        })
+        .catch(error => console.error('[Chat] Failed to load weak topics:', error));
+
       // Test AI connection
       const connected = await testConnection();
       
@@ -170,8 +237,8 @@ export default function AIChatScreen() {
       const normalWelcomeMessage: Message = {
         id: 'normal_welcome',
         text: connected
-          ? `Hi ${user.name}! 👋\n\nI'm your AI study assistant powered by advanced language models! 🤖\n\n✨ **I can help you with:**\n\n📚 Explaining complex concepts\n💡 Creating study plans\n📝 Summarizing notes\n⏰ Time management tips\n🎯 Exam preparation\n💪 Motivation & support\n\n💭 **Ask me anything like:**\n• "Explain quantum mechanics simply"\n• "Study tips for calculus"\n• "Summarize this text: [paste text]"\n• "Create a study plan for my exam"\n\n🧠 **Tip:** Toggle RAG mode (top right) for context-aware answers using your tasks, courses, and study data!\n\nHow can I help you today?`
-          : `Hi ${user.name}! 👋\n\n⚠️ **AI Service Unavailable**\n\nI'm currently running in offline mode with built-in knowledge. To enable full AI capabilities:\n\n1. Get a free API key from huggingface.co/settings/tokens\n2. Add it to your .env file as EXPO_PUBLIC_HF_API_KEY\n3. Restart the app\n\nI can still help with general study advice!`,
+          ? t('chat.welcome.normal', { name: user.name })
+          : t('chat.welcome.normalOffline', { name: user.name }),
         isUser: false,
         timestamp: new Date(),
         avatar: '🤖',
@@ -181,13 +248,15 @@ export default function AIChatScreen() {
       const ragWelcomeMessage: Message = {
         id: 'rag_welcome',
         text: connected
-          ? `Hi ${user.name}! 👋\n\nWelcome to **RAG Mode**! 🧠\n\nI'm now using semantic search across your personal data to provide context-aware answers.\n\n✨ **What makes RAG special:**\n\n🔍 Searches your tasks, courses & study sessions\n📊 Finds relevant context using AI embeddings\n🎯 Provides personalized answers with sources\n✅ Shows confidence scores for each source\n\n💭 **Try asking:**\n• "What are my pending high-priority tasks?"\n• "When is my next exam?"\n• "Create a study plan based on my courses"\n• "What should I focus on this week?"\n\n💡 **First time using RAG?**\nTap the 🔄 button (top right) to index your data!\n\nHow can I help you today?`
-          : `Hi ${user.name}! 👋\n\n⚠️ **AI Service Unavailable**\n\nRAG mode requires an active AI connection. Please configure your Hugging Face API key to use this feature.`,
+          ? t('chat.welcome.rag', { name: user.name })
+          : t('chat.welcome.ragOffline', { name: user.name }),
         isUser: false,
         timestamp: new Date(),
         avatar: '🧠',
       };
       
+      welcomeRef.current = { normal: normalWelcomeMessage, rag: ragWelcomeMessage };
+
       if (mountedRef.current) {
         setNormalMessages([normalWelcomeMessage]);
         setRagMessages([ragWelcomeMessage]);
@@ -195,7 +264,7 @@ export default function AIChatScreen() {
     } catch (error) {
       console.error('Initialization error:', error);
       if (mountedRef.current) {
-        Alert.alert('Error', 'Failed to initialize chat');
+        Alert.alert(t('common.error'), t('chat.initFailed'));
       }
     } finally {
       if (mountedRef.current) {
@@ -240,6 +309,53 @@ export default function AIChatScreen() {
     setShowScrollButton(offsetY > 200);
   }, []);
 
+  /**
+   * Get the active session for a mode, creating one from the first message
+   */
+  const ensureSession = useCallback(async (mode: ChatMode, firstMessage: string): Promise<ChatSession | null> => {
+    if (!userId) return null;
+
+    const existing = activeSessionsRef.current[mode];
+    if (existing) return existing;
+
+    try {
+      const session = await createChatSession(userId, firstMessage, mode);
+      activeSessionsRef.current[mode] = session;
+      paginationRef.current[mode] = { hasMore: false, lastDoc: null };
+      return session;
+    } catch (error) {
+      console.error('[Chat] Failed to create chat session:', error);
+      return null;
+    }
+  }, [userId]);
+
+  /**
+   * Save a message to its session (failures never block the chat)
+   */
+  const persistMessage = useCallback(async (
+    session: ChatSession,
+    text: string,
+    isUserMessage: boolean,
+    extra: Pick<ChatMessage, 'aiModel' | 'metadata'> = {}
+  ): Promise<void> => {
+    if (!userId || !text) return;
+
+    try {
+      await addChatMessage({
+        userId,
+        sessionId: session.id,
+        text,
+        isUserMessage,
+        ...extra,
+      });
+      session.messageCount += 1;
+      session.lastMessage = text.substring(0, 120);
+      session.updatedAt = new Date();
+    } catch (error) {
+      console.error('[Chat] Failed to persist message:', error);
+    }
+  }, [userId]);
+
   /**
    * Enhanced send message handler with AI integration
    */
@@ -256,6 +372,16 @@ export default function AIChatScreen() {
       };
 
       if (!mountedRef.current) return;
+
+      // Persist the user message (creates the session on first message)
+      const mode = chatMode;
+      const savedSession = ensureSession(mode, userMessage.text).then(async (session) => {
+        if (session) {
+          await persistMessage(session, userMessage.text, true);
+        }
+        return session;
+      });
+      let aiModel: ChatMessage['aiModel'] = mode === 'rag' ? 'qa' : 'chat';
       
       setMessages((prev) => [userMessage, ...prev]);
       LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
@@ -276,8 +402,23 @@ export default function AIChatScreen() {
         setMessages((prev) => [typingMessage, ...prev]);
       }
 
+      // Stream partial text into the typing bubble until the reply completes or is stopped
+      const abortController = new AbortController();
+      replyAbortRef.current = abortController;
+      const stream = {
+        signal: abortController.signal,
+        onToken: (partialText: string) => {
+          if (!mountedRef.current) return;
+          setMessages((prev) =>
+            prev.map((m) =>
+              m.id === 'typing' ? { ...m, text: partialText, isTyping: false, isStreaming: true } : m
+            )
+          );
+        },
+      };
+
       try {
-        let response: { text: string; success: boolean; error?: string; sources?: any[] };
+        let response: { text: string; success: boolean; error?: string; sources?: any[]; cancelled?: boolean };
 
         // Route to RAG or normal AI based on toggle
         if (useRAG) {
@@ -285,44 +426,46 @@ export default function AIChatScreen() {
           if (!userId) {
             throw new Error('User ID is required for RAG mode');
           }
-          const ragResponse = await answerWithContext(text, userId);
+          const ragResponse = await answerWithContext(text, userId, stream);
           response = {
             text: ragResponse.answer,
             success: true,
             sources: ragResponse.sources,
+            cancelled: ragResponse.cancelled,
           };
 
           // Add source citations to response if available
-          if (ragResponse.sources && ragResponse.sources.length > 0) {
+          if (!ragResponse.cancelled && ragResponse.sources && ragResponse.sources.length > 0) {
             const citations = ragResponse.sources
               .map((src, idx) => {
                 // Format type label
-                const typeLabel = {
-                  'task': '📋 Task',
-                  'course_material': '📚 Course',
-                  'study_session': '📖 Study Session',
-                  'note': '📝 Note',
-                  'chat_history': '💬 Chat'
-                }[src.type] || '📄 Item';
+                const typeLabel = src.metadata.materialId ? t('chat.sources.type.material') : {
+                  'task': t('chat.sources.type.task'),
+                  'course_material': t('chat.sources.type.course_material'),
+                  'study_session': t('chat.sources.type.study_session'),
+                  'note': t('chat.sources.type.note'),
+                  'chat_history': t('chat.sources.type.chat_history')
+                }[src.type] || t('chat.sources.type.other');
                 
                 // Get title with better fallback
-                const title = src.metadata.title || 
-                  (src.type === 'task' ? 'Untitled Task' :
-                   src.type === 'course_material' ? 'Course Info' :
-                   src.type === 'study_session' ? 'Study Session' :
-                   'Untitled');
+                const title = src.metadata.title ? getSourceLabel(src) :
+                  (src.type === 'task' ? t('chat.sources.untitled.task') :
+                   src.type === 'course_material' ? t('chat.sources.untitled.course_material') :
+                   src.type === 'study_session' ? t('chat.sources.untitled.study_session') :
+                   t('chat.sources.untitled.other'));
                 
                 // Format similarity score (0-100%)
                 const relevance = ((src.similarity || 0) * 100).toFixed(0);
                 
-                return `\n[${idx + 1}] ${typeLabel}: ${title} (${relevance}% match)`;
+                return `\n${t('chat.sources.item', { index: idx + 1, type: typeLabel, title, relevance })}`;
               })
               .join('');
-            response.text += `\n\n📚 **Sources:**${citations}`;
+            response.text += `\n\n${t('chat.sources.title')}${citations}`;
           }
         } else {
           // Normal mode: intent-based routing
           const intent = detectIntent(text);
+          aiModel = intent.type === 'summarize' ? 'summarization' : intent.type === 'question' ? 'qa' : 'chat';
 
           // Route to appropriate AI function
           switch (intent.type) {
@@ -331,27 +474,27 @@ export default function AIChatScreen() {
                 response = await summarizeText(intent.content);
               } else {
                 response = {
-                  text: "Please provide the text you'd like me to summarize after the word 'summarize'.",
+                  text: t('chat.summarizeMissing'),
                   success: true,
                 };
               }
               break;
 
             case 'explain':
-              response = await explainConcept(intent.content || text);
+              response = await explainConcept(intent.content || text, 'simple', stream);
               break;
 
             case 'study_tips':
-              response = await getStudyTips(intent.content || text);
+              response = await getStudyTips(intent.content || text, stream);
               break;
 
             case 'question':
-              response = await answerQuestion(text);
+              response = await answerQuestion(text, stream);
               break;
 
             case 'general':
             default:
-              response = await generateAIResponse(text, { userId });
+              response = await generateAIResponse(text, { userId, ...stream });
               break;
           }
         }
@@ -359,6 +502,9 @@ export default function AIChatScreen() {
         // Remove typing indicator
         setMessages((prev) => prev.filter((m) => m.id !== 'typing'));
 
+        // Stopped before anything arrived - nothing to keep
+        if (response.cancelled && !response.text) return;
+
         // Add AI response
         const aiMessage: Message = {
           id: (Date.now() + 1).toString(),
@@ -367,12 +513,26 @@ export default function AIChatScreen() {
           timestamp: new Date(),
           avatar: '🤖',
           isError: !response.success,
+          isCancelled: response.cancelled,
         };
 
         setMessages((prev) => [aiMessage, ...prev]);
         LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut);
         setTimeout(() => scrollToBottom(true), 100);
 
+        savedSession.then((session) => {
+          if (session) {
+            persistMessage(session, aiMessage.text, false, {
+              aiModel,
+              metadata: {
+                isError: !!aiMessage.isError,
+                isCancelled: !!aiMessage.isCancelled,
+                sourceCount: response.sources?.length || 0,
+              },
+            });
+          }
+        });
+
       } catch (error: any) {
         console.error('AI response error:', error);
 
@@ -382,7 +542,7 @@ export default function AIChatScreen() {
         // Add error message
         const errorMessage: Message = {
           id: (Date.now() + 1).toString(),
-          text: "⚠️ I encountered an error. Please check:\n\n• Your internet connection\n• API key is configured\n• Try rephrasing your question\n\nI'm still learning and improving!",
+          text: t('chat.replyError'),
           isUser: false,
           timestamp: new Date(),
           avatar: '🤖',
@@ -390,12 +550,148 @@ export default function AIChatScreen() {
         };
         setMessages((prev) => [errorMessage, ...prev]);
       } finally {
+        if (replyAbortRef.current === abortController) {
+          replyAbortRef.current = null;
+        }
         setTyping(false);
       }
     },
-    [messages, userId]
+    [messages, userId, chatMode, ensureSession, persistMessage, t]
   );
 
+  const handleStopReply = useCallback(() => {
+    replyAbortRef.current?.abort();
+  }, []);
+
+  /**
+   * Load older messages of the active session (inverted list end)
+   */
+  const loadOlderMessages = async () => {
+    const session = activeSessionsRef.current[chatMode];
+    const page = paginationRef.current[chatMode];
+    if (!userId || !session || !page.hasMore || loadingMore) return;
+
+    const mode = chatMode;
+    const setModeMessages = mode === 'rag' ? setRagMessages : setNormalMessages;
+
+    setLoadingMore(true);
+    try {
+      const result = await getChatMessagesPaginated(session.id, userId, MESSAGE_PAGE_SIZE, page.lastDoc);
+      paginationRef.current[mode] = { hasMore: result.hasMore, lastDoc: result.lastDoc };
+      if (mountedRef.current) {
+        setModeMessages((prev) => [...prev, ...result.messages.map(toUiMessage)]);
+      }
+    } catch (error) {
+      console.error('[Chat] Failed to load older messages:', error);
+    } finally {
+      if (mountedRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const openSessionList = async () => {
+    if (!userId) return;
+
+    setShowSessionList(true);
+    setSessionsLoading(true);
+    try {
+      const fetched = await getChatSessions(userId);
+      if (mountedRef.current) {
+        setSessions(fetched);
+      }
+    } catch (error) {
+      console.error('[Chat] Failed to load chat sessions:', error);
+      Alert.alert(t('common.error'), t('chat.loadSessionsFailed'));
+    } finally {
+      if (mountedRef.current) {
+        setSessionsLoading(false);
+      }
+    }
+  };
+
+  /**
+   * Start a fresh conversation in the given mode
+   */
+  const startNewChat = (mode: ChatMode) => {
+    activeSessionsRef.current[mode] = null;
+    paginationRef.current[mode] = { hasMore: false, lastDoc: null };
+
+    const welcome = welcomeRef.current[mode];
+    const setModeMessages = mode === 'rag' ? setRagMessages : setNormalMessages;
+    setModeMessages(welcome ? [welcome] : []);
+
+    if (mode === 'normal') {
+      resetConversation();
+    }
+  };
+
+  const handleNewChat = () => {
+    setShowSessionList(false);
+    startNewChat(chatMode);
+  };
+
+  /**
+   * Resume a saved conversation and restore the AI context
+   */
+  const handleSelectSession = async (session: ChatSession) => {
+    if (!userId) return;
+
+    setShowSessionList(false);
+    setUseRAG(session.mode === 'rag');
+
+    try {
+      const result = await getChatMessagesPaginated(session.id, userId, MESSAGE_PAGE_SIZE);
+      activeSessionsRef.current[session.mode] = session;
+      paginationRef.current[session.mode] = { hasMore: result.hasMore, lastDoc: result.lastDoc };
+
+      if (!mountedRef.current) return;
+
+      const setModeMessages = session.mode === 'rag' ? setRagMessages : setNormalMessages;
+      setModeMessages(result.messages.map(toUiMessage));
+
+      // Messages arrive newest first; the AI context wants chronological order
+      if (session.mode === 'normal') {
+        restoreConversation([...result.messages].reverse());
+      }
+      setTimeout(() => scrollToBottom(false), 100);
+    } catch (error) {
+      console.error('[Chat] Failed to resume chat session:', error);
+      Alert.alert(t('common.error'), t('chat.openSessionFailed'));
+    }
+  };
+
+  const handleRenameSession = async (session: ChatSession, title: string) => {
+    try {
+      const savedTitle = await renameChatSession(session.id, title);
+      setSessions((prev) => prev.map((s) => (s.id === session.id ? { ...s, title: savedTitle } : s)));
+
+      const active = activeSessionsRef.current[session.mode];
+      if (active && active.id === session.id) {
+        active.title = savedTitle;
+      }
+    } catch (error) {
+      console.error('[Chat] Failed to rename chat session:', error);
+      Alert.alert(t('common.error'), t('chat.renameFailed'));
+    }
+  };
+
+  const handleDeleteSession = async (session: ChatSession) => {
+    if (!userId) return;
+
+    try {
+      await deleteChatSession(session.id, userId);
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+
+      if (activeSessionsRef.current[session.mode]?.id === session.id) {
+        startNewChat(session.mode);
+      }
+    } catch (error) {
+      console.error('[Chat] Failed to delete chat session:', error);
+      Alert.alert(t('common.error'), t('chat.deleteFailed'));
+    }
+  };
+
   const handleQuickAction = (prompt: string) => {
     handleSend(prompt);
   };
@@ -405,60 +701,69 @@ export default function AIChatScreen() {
 
     return (
       <View style={styles.quickActionsContainer}>
-        <Text style={styles.quickActionsHint}>💡 Tap to try</Text>
+        <Text style={styles.quickActionsHint}>{t('chat.tapToTry')}</Text>
         <QuickActions
           actions={
             useRAG
               ? [
                   {
                     id: '1',
-                    label: 'My Tasks',
+                    label: t('chat.quickActions.myTasks.label'),
                     icon: 'list-outline',
-                    prompt: 'What are my high-priority pending tasks?',
+                    prompt: t('chat.quickActions.myTasks.prompt'),
                   },
                   {
                     id: '2',
-                    label: 'Next Exam',
+                    label: t('chat.quickActions.nextExam.label'),
                     icon: 'school-outline',
-                    prompt: 'When is my next exam and what should I focus on?',
+                    prompt: t('chat.quickActions.nextExam.prompt'),
                   },
                   {
                     id: '3',
-                    label: 'Study Plan',
+                    label: t('chat.quickActions.studyPlan.label'),
                     icon: 'calendar-outline',
-                    prompt: 'Create a personalized study plan based on my courses',
-                  },
-                  {
-                    id: '4',
-                    label: 'Weekly Focus',
-                    icon: 'trophy-outline',
-                    prompt: 'What should I prioritize this week?',
+                    prompt: t('chat.quickActions.studyPlan.prompt'),
                   },
+                  weakTopic
+                    ? {
+                        id: '4',
+                        label: t('chat.quickActions.weakSpot.label'),
+                        icon: 'fitness-outline',
+                        prompt: t('chat.quickActions.weakSpot.notesPrompt', { topic: weakTopic.topic }),
+                      }
+                    : {
+                        id: '4',
+                        label: t('chat.quickActions.weeklyFocus.label'),
+                        icon: 'trophy-outline',
+                        prompt: t('chat.quickActions.weeklyFocus.prompt'),
+                      },
                 ]
               : [
                   {
                     id: '1',
-                    label: 'Explain Topic',
+                    label: weakTopic ? t('chat.quickActions.weakSpot.label') : t('chat.quickActions.explainTopic.label'),
                     icon: 'bulb-outline',
-                    prompt: 'Explain quantum mechanics in simple terms',
+                    prompt: weakTopic
+                      ? t('chat.quickActions.weakSpot.explainPrompt', { topic: weakTopic.topic })
+                      : t('chat.quickActions.explainTopic.prompt'),
                   },
                   {
                     id: '2',
-                    label: 'Study Tips',
+                    label: t('chat.quickActions.studyTips.label'),
                     icon: 'star-outline',
-                    prompt: 'What are the best study techniques for memorization?',
+                    prompt: t('chat.quickActions.studyTips.prompt'),
                   },
                   {
                     id: '3',
-                    label: 'Summarize',
+                    label: t('chat.quickActions.summarize.label'),
                     icon: 'document-text-outline',
-                    prompt: 'Summarize this text: [paste your text here]',
+                    prompt: t('chat.quickActions.summarize.prompt'),
                   },
                   {
                     id: '4',
-                    label: 'Motivation',
+                    label: t('chat.quickActions.motivation.label'),
                     icon: 'heart-outline',
-                    prompt: "I'm feeling overwhelmed with studying, can you help?",
+                    prompt: t('chat.quickActions.motivation.prompt'),
                   },
                 ]
           }
@@ -477,10 +782,8 @@ export default function AIChatScreen() {
 
     // Show detailed alert
     Alert.alert(
-      newRAGState ? '🧠 RAG Mode Enabled' : '🤖 Normal AI Mode',
-      newRAGState
-        ? 'Switched to RAG chat! 🎯\n\nYou now have a separate chat using semantic search across your tasks, courses, and study data.\n\n💡 Tip: Tap the 🔄 button to index your data if you haven\'t already!'
-        : 'Switched to Normal AI chat! 🤖\n\nYou\'re now in the standard chat with general AI knowledge and intent-based routing.\n\nYour RAG chat history is preserved and available when you switch back.'
+      newRAGState ? t('chat.modeSwitch.ragTitle') : t('chat.modeSwitch.normalTitle'),
+      newRAGState ? t('chat.modeSwitch.rag') : t('chat.modeSwitch.normal')
     );
   };
 
@@ -522,16 +825,16 @@ export default function AIChatScreen() {
     
     try {
       const result = await indexAllUserData(userId);
+      if (!result.success) {
+        throw new Error(result.errors.join(', '));
+      }
       
-      Alert.alert(
-        '✅ Indexing Complete',
-        `Successfully indexed:\n\n📋 ${result.indexed.tasks} tasks\n📚 ${result.indexed.courses} courses\n📖 ${result.indexed.sessions} study sessions\n\nYour RAG system is now up to date!`
-      );
+      Alert.alert(t('chat.indexing.doneTitle'), t('chat.indexing.done', result.indexed));
 
       // Add system message to RAG chat only
       const systemMessage: Message = {
         id: `system_${Date.now()}`,
-        text: `✅ **Data Indexed Successfully**\n\n📋 ${result.indexed.tasks} tasks\n📚 ${result.indexed.courses} courses\n📖 ${result.indexed.sessions} study sessions\n\nRAG is now ready to answer questions about your data!`,
+        text: t('chat.indexing.doneMessage', result.indexed),
         isUser: false,
         timestamp: new Date(),
         avatar: '✅',
@@ -539,10 +842,7 @@ export default function AIChatScreen() {
       setRagMessages((prev) => [systemMessage, ...prev]);
     } catch (error) {
       console.error('Indexing error:', error);
-      Alert.alert(
-        '❌ Indexing Failed',
-        'Failed to index your data. Please try again or check the console for errors.'
-      );
+      Alert.alert(t('chat.indexing.failedTitle'), t('chat.indexing.failed'));
     } finally {
       setIsIndexing(false);
       // Reset dot opacities
@@ -553,17 +853,11 @@ export default function AIChatScreen() {
   };
 
   const handleImagePick = async () => {
-    Alert.alert(
-      'Coming Soon! 📸',
-      'Image analysis with AI will be available soon!\n\nFor now, you can:\n• Describe what you need help with\n• Type or paste text directly'
-    );
+    Alert.alert(t('chat.comingSoon.imageTitle'), t('chat.comingSoon.image'));
   };
 
   const handleDocumentPick = async () => {
-    Alert.alert(
-      'Coming Soon! 📄',
-      'PDF analysis will be available in the next update!\n\nFor now:\n• Copy text from your PDFs\n• Paste it here\n• Ask me to summarize or explain!'
-    );
+    Alert.alert(t('chat.comingSoon.documentTitle'), t('chat.comingSoon.document'));
   };
 
   const renderMessage = ({ item }: { item: Message }) => (
@@ -572,6 +866,8 @@ export default function AIChatScreen() {
       isUser={item.isUser}
       timestamp={item.timestamp}
       isTyping={item.isTyping}
+      isStreaming={item.isStreaming}
+      isCancelled={item.isCancelled}
       avatar={item.avatar}
       onLongPress={() => {
         // Future: Add copy, share functionality
@@ -582,42 +878,68 @@ export default function AIChatScreen() {
   const renderHeader = () => (
     <View style={styles.headerWrapper}>
       <Image source={ILLUSTRATIONS.heroStudy5} style={styles.headerBackgroundImage} contentFit="cover" />
-      <LinearGradient colors={['rgba(88,86,214,0.95)', 'rgba(108,99,255,0.95)']} style={styles.header}>
+      <LinearGradient colors={colors.headerGradient} style={styles.header}>
         <View style={styles.headerContent}>
           <TouchableOpacity
             onPress={() => router.back()}
             style={styles.backButton}
             accessible={true}
-            accessibilityLabel="Go back"
+            accessibilityLabel={t('common.goBack')}
             accessibilityRole="button"
           >
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
           <View style={styles.headerTitle}>
             <View style={styles.headerTitleRow}>
-              <Text style={styles.headerText}>AI Study Assistant</Text>
+              <Text style={styles.headerText}>{t('chat.header.title')}</Text>
               {aiConnected !== null && (
-                <View style={[styles.statusIndicator, { backgroundColor: aiConnected ? '#4ade80' : '#fbbf24' }]} />
+                <View style={[styles.statusIndicator, { backgroundColor: aiConnected ? colors.success : colors.warning }]} />
               )}
             </View>
             <Text style={styles.headerSubtext}>
-              {typing ? 'AI is thinking...' : useRAG ? 'RAG Chat (Context-Aware) 🧠' : aiConnected ? 'Normal Chat (General AI) 🤖' : 'Offline mode'}
+              {typing
+                ? t('chat.header.thinking')
+                : useRAG
+                  ? t('chat.header.rag')
+                  : aiConnected
+                    ? t('chat.header.normal')
+                    : t('chat.header.offline')}
             </Text>
           </View>
           <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={openSessionList}
+              style={styles.indexButton}
+              accessible={true}
+              accessibilityLabel={t('chat.header.sessions')}
+              accessibilityRole="button"
+            >
+              <Ionicons name="chatbubbles-outline" size={20} color={colors.onPrimary} />
+            </TouchableOpacity>
+            {useRAG && (
+              <TouchableOpacity
+                onPress={() => router.push('/course-materials' as any)}
+                style={styles.indexButton}
+                accessible={true}
+                accessibilityLabel={t('chat.header.materials')}
+                accessibilityRole="button"
+              >
+                <Ionicons name="document-attach-outline" size={20} color={colors.onPrimary} />
+              </TouchableOpacity>
+            )}
             {useRAG && (
               <TouchableOpacity
                 onPress={handleIndexData}
                 style={styles.indexButton}
                 disabled={isIndexing}
                 accessible={true}
-                accessibilityLabel="Index my data"
+                accessibilityLabel={t('chat.header.index')}
                 accessibilityRole="button"
               >
                 {isIndexing ? (
-                  <ActivityIndicator size="small" color="#fff" />
+                  <ActivityIndicator size="small" color={colors.onPrimary} />
                 ) : (
-                  <Ionicons name="refresh" size={20} color="#fff" />
+                  <Ionicons name="refresh" size={20} color={colors.onPrimary} />
                 )}
               </TouchableOpacity>
             )}
@@ -625,10 +947,10 @@ export default function AIChatScreen() {
               onPress={handleToggleRAG}
               style={styles.ragToggleButton}
               accessible={true}
-              accessibilityLabel={useRAG ? 'Disable RAG mode' : 'Enable RAG mode'}
+              accessibilityLabel={useRAG ? t('chat.header.disableRag') : t('chat.header.enableRag')}
               accessibilityRole="button"
             >
-              <Ionicons name={useRAG ? 'analytics' : 'analytics-outline'} size={24} color="#fff" />
+              <Ionicons name={useRAG ? 'analytics' : 'analytics-outline'} size={24} color={colors.onPrimary} />
               {useRAG && <View style={styles.ragActiveIndicator} />}
             </TouchableOpacity>
           </View>
@@ -640,8 +962,8 @@ export default function AIChatScreen() {
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
-        <Text style={styles.loadingText}>Initializing AI...</Text>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('chat.initializing')}</Text>
       </View>
     );
   }
@@ -678,6 +1000,11 @@ export default function AIChatScreen() {
             initialNumToRender={15}
             ListHeaderComponent={renderQuickActions}
             ListHeaderComponentStyle={styles.listHeader}
+            onEndReached={loadOlderMessages}
+            onEndReachedThreshold={0.3}
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator style={styles.loadMoreIndicator} color={colors.primary} /> : null
+            }
           />
         )}
 
@@ -689,19 +1016,34 @@ export default function AIChatScreen() {
           onAttachDocument={handleDocumentPick}
           disabled={typing}
           isLoading={typing}
+          onStop={handleStopReply}
         />
       </KeyboardAvoidingView>
 
+      <ChatSessionList
+        visible={showSessionList}
+        sessions={sessions}
+        activeSessionId={activeSessionsRef.current[chatMode]?.id ?? null}
+        loading={sessionsLoading}
+        onClose={() => setShowSessionList(false)}
+        onSelect={handleSelectSession}
+        onNewChat={handleNewChat}
+        onRename={handleRenameSession}
+        onDelete={handleDeleteSession}
+      />
+
       {/* Modern Indexing Loading Overlay */}
       {isIndexing && (
         <View style={styles.loadingOverlay}>
           <View style={styles.loadingCard}>
             <View style={styles.spinnerContainer}>
-              <ActivityIndicator size="large" color={COLORS.primary} />
+              <ActivityIndicator size="large" color={colors.primary} />
             </View>
-            <Text style={styles.loadingTitle}>Indexing Your Data</Text>
+            <Text style={styles.loadingTitle}>{t('chat.indexing.title')}</Text>
             <Text style={styles.loadingSubtitle}>
-              Analyzing tasks, courses & study sessions...
+              {reindexProgress.status === 'running' && reindexProgress.total > 0
+                ? t('chat.indexing.progress', { processed: reindexProgress.processed, total: reindexProgress.total })
+                : t('chat.indexing.analyzing')}
             </Text>
             <View style={styles.loadingDots}>
               <Animated.View style={[styles.dot, { opacity: dot1Opacity }]} />
@@ -715,21 +1057,21 @@ export default function AIChatScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingText: {
     marginTop: 12,
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   headerWrapper: {
     position: 'relative',
@@ -768,7 +1110,7 @@ const styles = StyleSheet.create({
   headerText: {
     fontSize: 20,
     fontWeight: '700',
-    color: '#fff',
+    color: colors.onPrimary,
     letterSpacing: 0.2,
   },
   statusIndicator: {
@@ -822,9 +1164,9 @@ const styles = StyleSheet.create({
     width: 10,
     height: 10,
     borderRadius: 5,
-    backgroundColor: '#4ade80',
+    backgroundColor: colors.success,
     borderWidth: 2,
-    borderColor: '#fff',
+    borderColor: colors.card,
   },
   chatContainer: {
     flex: 1,
@@ -840,6 +1182,9 @@ const styles = StyleSheet.create({
     paddingTop: 16,
     paddingBottom: 8,
   },
+  loadMoreIndicator: {
+    paddingVertical: 12,
+  },
   quickActionsContainer: {
     paddingVertical: 0,
     paddingHorizontal: 0,
@@ -848,7 +1193,7 @@ const styles = StyleSheet.create({
   },
   quickActionsHint: {
     fontSize: 11,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 12,
     marginTop: 0,
@@ -869,7 +1214,7 @@ const styles = StyleSheet.create({
     zIndex: 1000,
   },
   loadingCard: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.card,
     borderRadius: 24,
     padding: 32,
     alignItems: 'center',
@@ -878,7 +1223,7 @@ const styles = StyleSheet.create({
     maxWidth: '85%',
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: 8 },
         shadowOpacity: 0.25,
         shadowRadius: 16,
@@ -900,13 +1245,13 @@ const styles = StyleSheet.create({
   loadingTitle: {
     fontSize: 20,
     fontWeight: '700',
-    color: '#1F2937',
+    color: colors.text,
     marginBottom: 8,
     textAlign: 'center',
   },
   loadingSubtitle: {
     fontSize: 14,
-    color: '#6B7280',
+    color: colors.textSecondary,
     textAlign: 'center',
     lineHeight: 20,
     paddingHorizontal: 8,
@@ -922,6 +1267,6 @@ const styles = StyleSheet.create({
     width: 8,
     height: 8,
     borderRadius: 4,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
   },
 });
\ No newline at end of file
@@ -16,17 +16,16 @@ import {
     View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS } from '../../../constants/config';
-import { indexCourse } from '../../../services/ai/ragIndexer';
+import { COURSE_COLORS, ThemeColors } from '../../../constants/designSystem';
+import { useTranslation } from '../../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../../contexts/ThemeContext';
 import { getCurrentUser } from '../../../services/authService';
 import { createCourse } from '../../../services/courseServiceFirestore';
 
-const PRESET_COLORS = [
-  '#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A',
-  '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E2',
-];
-
 export default function AddCourseScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -37,7 +36,7 @@ export default function AddCourseScreen() {
   const [name, setName] = useState('');
   const [credits, setCredits] = useState('');
   const [instructor, setInstructor] = useState('');
-  const [color, setColor] = useState(PRESET_COLORS[0]);
+  const [color, setColor] = useState(COURSE_COLORS[0]);
   const [difficulty, setDifficulty] = useState<1 | 2 | 3 | 4 | 5>(3);
 
   useEffect(() => {
@@ -57,7 +56,7 @@ export default function AddCourseScreen() {
     setName('');
     setCredits('');
     setInstructor('');
-    setColor(PRESET_COLORS[0]);
+    setColor(COURSE_COLORS[0]);
     setDifficulty(3);
   };
 
@@ -71,7 +70,7 @@ export default function AddCourseScreen() {
       setUserId(user.id);
     } catch (error) {
       console.error('Initialization error:', error);
-      Alert.alert('Error', 'Failed to initialize');
+      Alert.alert(t('common.error'), t('courses.add.initFailed'));
     } finally {
       setLoading(false);
     }
@@ -82,18 +81,18 @@ export default function AddCourseScreen() {
 
     // Validation
     if (!code.trim()) {
-      Alert.alert('Error', 'Please enter a course code');
+      Alert.alert(t('common.error'), t('courses.add.codeRequired'));
       return;
     }
 
     if (!name.trim()) {
-      Alert.alert('Error', 'Please enter a course name');
+      Alert.alert(t('common.error'), t('courses.add.nameRequired'));
       return;
     }
 
     setSaving(true);
     try {
-      const newCourse = await createCourse({
+      await createCourse({
         userId,
         code: code.trim().toUpperCase(),
         name: name.trim(),
@@ -103,24 +102,15 @@ export default function AddCourseScreen() {
         difficulty,
       });
 
-      // Auto-index for RAG
-      try {
-        await indexCourse(newCourse);
-        console.log('✅ Course indexed for RAG:', newCourse.name);
-      } catch (indexError) {
-        console.warn('⚠️ Failed to index course for RAG:', indexError);
-        // Don't fail the entire operation if indexing fails
-      }
-
-      Alert.alert('Success', 'Course added successfully', [
+      Alert.alert(t('common.success'), t('courses.add.added'), [
         {
-          text: 'OK',
+          text: t('common.ok'),
           onPress: () => router.back(),
         },
       ]);
     } catch (error) {
       console.error('Create course error:', error);
-      Alert.alert('Error', 'Failed to create course');
+      Alert.alert(t('common.error'), t('courses.add.createFailed'));
     } finally {
       setSaving(false);
     }
@@ -129,7 +119,7 @@ export default function AddCourseScreen() {
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
+        <ActivityIndicator size="large" color={colors.primary} />
       </View>
     );
   }
@@ -143,12 +133,12 @@ export default function AddCourseScreen() {
       >
         <StatusBar style="light" />
         
-        <LinearGradient colors={[COLORS.primary, COLORS.secondary]} style={styles.header}>
+        <LinearGradient colors={[colors.primary, colors.secondary]} style={styles.header}>
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Add Course</Text>
+          <Text style={styles.headerTitle}>{t('courses.add.title')}</Text>
           <View style={{ width: 40 }} />
         </View>
       </LinearGradient>
@@ -161,12 +151,12 @@ export default function AddCourseScreen() {
       >
         {/* Course Code */}
         <View style={styles.section}>
-          <Text style={styles.label}>Course Code *</Text>
+          <Text style={styles.label}>{t('courses.add.code')}</Text>
           <View style={styles.inputWrapper}>
-            <Ionicons name="code-slash-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="code-slash-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <TextInput
               style={styles.input}
-              placeholder="e.g., CS101"
+              placeholder={t('courses.add.codePlaceholder')}
               value={code}
               onChangeText={setCode}
               autoCapitalize="characters"
@@ -177,12 +167,12 @@ export default function AddCourseScreen() {
 
         {/* Course Name */}
         <View style={styles.section}>
-          <Text style={styles.label}>Course Name *</Text>
+          <Text style={styles.label}>{t('courses.add.name')}</Text>
           <View style={styles.inputWrapper}>
-            <Ionicons name="book-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="book-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <TextInput
               style={styles.input}
-              placeholder="e.g., Introduction to Computer Science"
+              placeholder={t('courses.add.namePlaceholder')}
               value={name}
               onChangeText={setName}
               editable={!saving}
@@ -192,12 +182,12 @@ export default function AddCourseScreen() {
 
         {/* Instructor */}
         <View style={styles.section}>
-          <Text style={styles.label}>Instructor (Optional)</Text>
+          <Text style={styles.label}>{t('courses.add.instructor')}</Text>
           <View style={styles.inputWrapper}>
-            <Ionicons name="person-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="person-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <TextInput
               style={styles.input}
-              placeholder="e.g., Dr. Smith"
+              placeholder={t('courses.add.instructorPlaceholder')}
               value={instructor}
               onChangeText={setInstructor}
               editable={!saving}
@@ -207,12 +197,12 @@ export default function AddCourseScreen() {
 
         {/* Credits */}
         <View style={styles.section}>
-          <Text style={styles.label}>Credits (Optional)</Text>
+          <Text style={styles.label}>{t('courses.add.credits')}</Text>
           <View style={styles.inputWrapper}>
-            <Ionicons name="star-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="star-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <TextInput
               style={styles.input}
-              placeholder="e.g., 3"
+              placeholder={t('courses.add.creditsPlaceholder')}
               value={credits}
               onChangeText={setCredits}
               keyboardType="numeric"
@@ -223,9 +213,9 @@ export default function AddCourseScreen() {
 
         {/* Color */}
         <View style={styles.section}>
-          <Text style={styles.label}>Course Color</Text>
+          <Text style={styles.label}>{t('courses.add.color')}</Text>
           <View style={styles.colorGrid}>
-            {PRESET_COLORS.map((c) => (
+            {COURSE_COLORS.map((c) => (
               <TouchableOpacity
                 key={c}
                 style={[
@@ -237,7 +227,7 @@ export default function AddCourseScreen() {
                 disabled={saving}
               >
                 {color === c && (
-                  <Ionicons name="checkmark" size={20} color="#fff" />
+                  <Ionicons name="checkmark" size={20} color={colors.onPrimary} />
                 )}
               </TouchableOpacity>
             ))}
@@ -246,7 +236,7 @@ export default function AddCourseScreen() {
 
         {/* Difficulty */}
         <View style={styles.section}>
-          <Text style={styles.label}>Difficulty Level</Text>
+          <Text style={styles.label}>{t('courses.add.difficulty')}</Text>
           <View style={styles.difficultyContainer}>
             {[1, 2, 3, 4, 5].map((level) => (
               <TouchableOpacity
@@ -269,7 +259,7 @@ export default function AddCourseScreen() {
               </TouchableOpacity>
             ))}
           </View>
-          <Text style={styles.difficultyHint}>1 = Easy, 5 = Very Hard</Text>
+          <Text style={styles.difficultyHint}>{t('courses.add.difficultyHint')}</Text>
         </View>
 
         {/* Save Button */}
@@ -279,15 +269,15 @@ export default function AddCourseScreen() {
           disabled={saving}
         >
           <LinearGradient
-            colors={saving ? [COLORS.textSecondary, COLORS.textSecondary] : [COLORS.primary, COLORS.secondary]}
+            colors={saving ? [colors.textSecondary, colors.textSecondary] : [colors.primary, colors.secondary]}
             style={styles.saveButtonGradient}
           >
             {saving ? (
-              <ActivityIndicator color="#fff" />
+              <ActivityIndicator color={colors.onPrimary} />
             ) : (
               <>
-                <Ionicons name="checkmark-circle-outline" size={24} color="#fff" />
-                <Text style={styles.saveButtonText}>Add Course</Text>
+                <Ionicons name="checkmark-circle-outline" size={24} color={colors.onPrimary} />
+                <Text style={styles.saveButtonText}>{t('courses.add.title')}</Text>
               </>
             )}
           </LinearGradient>
@@ -298,14 +288,14 @@ export default function AddCourseScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   safeArea: {
     flex: 1,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
   },
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -331,7 +321,7 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   content: {
     flex: 1,
@@ -343,19 +333,19 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 15,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
     letterSpacing: 0.2,
   },
   inputWrapper: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     borderWidth: 1.5,
-    borderColor: '#e8e8e8',
+    borderColor: colors.border,
     paddingHorizontal: 14,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.06,
     shadowRadius: 4,
@@ -370,7 +360,7 @@ const styles = StyleSheet.create({
     paddingVertical: 14,
     paddingHorizontal: 0,
     fontSize: 15,
-    color: COLORS.text,
+    color: colors.text,
     fontWeight: '500',
   },
   colorGrid: {
@@ -388,8 +378,8 @@ const styles = StyleSheet.create({
     borderColor: 'transparent',
   },
   colorOptionSelected: {
-    borderColor: '#fff',
-    shadowColor: '#000',
+    borderColor: colors.card,
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.3,
     shadowRadius: 4,
@@ -404,30 +394,30 @@ const styles = StyleSheet.create({
     paddingVertical: 11,
     borderRadius: 10,
     borderWidth: 1.5,
-    borderColor: '#e8e8e8',
+    borderColor: colors.border,
     alignItems: 'center',
-    backgroundColor: '#fff',
-    shadowColor: '#000',
+    backgroundColor: colors.card,
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 1 },
     shadowOpacity: 0.05,
     shadowRadius: 2,
     elevation: 1,
   },
   difficultyButtonActive: {
-    backgroundColor: COLORS.primary,
-    borderColor: COLORS.primary,
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
   },
   difficultyText: {
     fontSize: 15,
     fontWeight: '700',
-    color: COLORS.text,
+    color: colors.text,
   },
   difficultyTextActive: {
-    color: '#fff',
+    color: colors.onPrimary,
   },
   difficultyHint: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginTop: 8,
   },
   saveButton: {
@@ -435,7 +425,7 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: COLORS.primary,
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 8,
@@ -453,7 +443,7 @@ const styles = StyleSheet.create({
     minHeight: 52,
   },
   saveButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 17,
     fontWeight: 'bold',
     marginLeft: 8,
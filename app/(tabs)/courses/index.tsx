@@ -13,19 +13,27 @@ import {
   View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS_V2, ELEVATION, RADIUS, SPACING, TYPOGRAPHY } from '../../../constants/designSystem';
+import { COLORS_V2, ELEVATION, RADIUS, SPACING, ThemeColors, TYPOGRAPHY } from '../../../constants/designSystem';
 import { ILLUSTRATIONS } from '../../../constants/illustrations';
+import { useTranslation } from '../../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../../contexts/ThemeContext';
 import { getCurrentUser } from '../../../services/authService';
 import { deleteCourse, getCourses } from '../../../services/courseServiceFirestore';
+import { calculateCourseGrade } from '../../../services/gradeCalculator';
+import { getGradeScale } from '../../../services/gradeServiceFirestore';
 import { getTasks } from '../../../services/taskServiceFirestore';
-import { Course, Task, TaskStatus } from '../../../types';
+import { Course, GradeBand, Task, TaskStatus } from '../../../types';
 
 export default function AllCoursesScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [courses, setCourses] = useState<Course[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [gradeScale, setGradeScale] = useState<GradeBand[] | undefined>(undefined);
   
   // ✅ PERFORMANCE: Prevent setState on unmounted component
   const mountedRef = React.useRef(true);
@@ -60,14 +68,16 @@ export default function AllCoursesScreen() {
         return;
       }
 
-      const [coursesData, tasksData] = await Promise.all([
+      const [coursesData, tasksData, scaleData] = await Promise.all([
         getCourses(user.id),
         getTasks(user.id),
+        getGradeScale(user.id),
       ]);
 
       if (mountedRef.current) {
         setCourses(coursesData);
         setTasks(tasksData);
+        setGradeScale(scaleData);
       }
     } catch (error) {
       console.error('Error loading courses:', error);
@@ -87,15 +97,15 @@ export default function AllCoursesScreen() {
 
   const handleDeleteCourse = (course: Course) => {
     Alert.alert(
-      'Delete Course',
-      `Are you sure you want to delete "${course.name}"? This action cannot be undone.`,
+      t('courses.deleteTitle'),
+      t('courses.deleteConfirm', { name: course.name }),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
@@ -104,7 +114,7 @@ export default function AllCoursesScreen() {
               loadData();
             } catch (error) {
               console.error('Error deleting course:', error);
-              Alert.alert('Error', 'Failed to delete course');
+              Alert.alert(t('common.error'), t('courses.deleteFailed'));
             }
           },
         },
@@ -114,12 +124,13 @@ export default function AllCoursesScreen() {
 
   // ✅ PERFORMANCE: Memoize renderCourseCard with useCallback
   const renderCourseCard = useCallback(({ item: course }: { item: Course }) => {
-    const courseTasks = tasks.filter(t => t.courseId === course.id);
-    const completedTasks = courseTasks.filter(t => t.status === TaskStatus.COMPLETED).length;
+    const courseTasks = tasks.filter(task => task.courseId === course.id);
+    const completedTasks = courseTasks.filter(task => task.status === TaskStatus.COMPLETED).length;
     const pendingTasks = courseTasks.length - completedTasks;
     const completionRate = courseTasks.length > 0 
       ? Math.round((completedTasks / courseTasks.length) * 100) 
       : 0;
+    const grade = calculateCourseGrade(course, tasks, gradeScale);
 
     return (
       <TouchableOpacity
@@ -138,7 +149,12 @@ export default function AllCoursesScreen() {
               <Text style={styles.courseCode}>{course.code}</Text>
               {course.credits && (
                 <View style={[styles.creditsBadge, { backgroundColor: course.color || COLORS_V2.primary[500] }]}>
-                  <Text style={styles.creditsText}>{course.credits} CR</Text>
+                  <Text style={styles.creditsText}>{t('courses.credits', { count: course.credits })}</Text>
+                </View>
+              )}
+              {grade.letter && (
+                <View style={styles.gradeBadge}>
+                  <Text style={styles.gradeText}>{grade.letter} · {grade.percentage}%</Text>
                 </View>
               )}
             </View>
@@ -183,25 +199,25 @@ export default function AllCoursesScreen() {
           <View style={styles.courseStats}>
             <View style={styles.statBox}>
               <Text style={styles.statValue}>{courseTasks.length}</Text>
-              <Text style={styles.statLabel}>Tasks</Text>
+              <Text style={styles.statLabel}>{t('courses.stats.tasks')}</Text>
             </View>
             <View style={styles.statBox}>
               <Text style={[styles.statValue, { color: COLORS_V2.success[500] }]}>
                 {completedTasks}
               </Text>
-              <Text style={styles.statLabel}>Done</Text>
+              <Text style={styles.statLabel}>{t('courses.stats.done')}</Text>
             </View>
             <View style={styles.statBox}>
               <Text style={[styles.statValue, { color: COLORS_V2.warning[500] }]}>
                 {pendingTasks}
               </Text>
-              <Text style={styles.statLabel}>Pending</Text>
+              <Text style={styles.statLabel}>{t('courses.stats.pending')}</Text>
             </View>
             <View style={styles.statBox}>
               <Text style={[styles.statValue, { color: COLORS_V2.primary[500] }]}>
                 {completionRate}%
               </Text>
-              <Text style={styles.statLabel}>Rate</Text>
+              <Text style={styles.statLabel}>{t('courses.stats.rate')}</Text>
             </View>
           </View>
 
@@ -214,7 +230,7 @@ export default function AllCoursesScreen() {
                 router.push(`/tasks/add?courseId=${course.id}` as any);
               }}
             >
-              <Text style={styles.actionText}>+ Add Task</Text>
+              <Text style={styles.actionText}>{t('courses.addTask')}</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={[styles.actionButton, styles.actionButtonSecondary]}
@@ -225,14 +241,38 @@ export default function AllCoursesScreen() {
               }}
             >
               <Text style={[styles.actionText, { color: COLORS_V2.primary[500] }]}>
-                View Tasks
+                {t('courses.viewTasks')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSecondary]}
+              onPress={(e) => {
+                e.stopPropagation();
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push(`/course-materials?courseId=${course.id}` as any);
+              }}
+            >
+              <Text style={[styles.actionText, { color: COLORS_V2.primary[500] }]}>
+                {t('courses.materials')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.actionButtonSecondary]}
+              onPress={(e) => {
+                e.stopPropagation();
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push(`/flashcards?courseId=${course.id}` as any);
+              }}
+            >
+              <Text style={[styles.actionText, { color: COLORS_V2.primary[500] }]}>
+                {t('courses.flashcards')}
               </Text>
             </TouchableOpacity>
           </View>
         </View>
       </TouchableOpacity>
     );
-  }, [tasks, router]);
+  }, [tasks, gradeScale, router, styles, t]);
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -242,15 +282,31 @@ export default function AllCoursesScreen() {
           onPress={() => router.back()}
           style={styles.backButton}
         >
-          <Ionicons name="arrow-back" size={24} color={COLORS_V2.text.primary} />
-        </TouchableOpacity>
-        <Text style={styles.headerTitle}>All Courses</Text>
-        <TouchableOpacity
-          onPress={() => router.push('/courses/add' as any)}
-          style={styles.addButton}
-        >
-          <Ionicons name="add" size={24} color={COLORS_V2.primary[600]} />
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('courses.title')}</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={() => router.push('/grades' as any)}
+            style={styles.addButton}
+            accessibilityLabel={t('courses.gradesLabel')}
+          >
+            <Ionicons name="school-outline" size={22} color={COLORS_V2.primary[600]} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/quiz' as any)}
+            style={styles.addButton}
+            accessibilityLabel={t('courses.quizLabel')}
+          >
+            <Ionicons name="help-circle-outline" size={22} color={COLORS_V2.primary[600]} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/courses/add' as any)}
+            style={styles.addButton}
+          >
+            <Ionicons name="add" size={24} color={COLORS_V2.primary[600]} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <FlatList
@@ -279,15 +335,15 @@ export default function AllCoursesScreen() {
               style={styles.emptyImage}
               contentFit="contain"
             />
-            <Text style={styles.emptyTitle}>No courses yet</Text>
+            <Text style={styles.emptyTitle}>{t('courses.empty')}</Text>
             <Text style={styles.emptySubtitle}>
-              Add your first course to get started
+              {t('courses.emptyHint')}
             </Text>
             <TouchableOpacity
               style={styles.emptyButton}
               onPress={() => router.push('/courses/add' as any)}
             >
-              <Text style={styles.emptyButtonText}>+ Add Course</Text>
+              <Text style={styles.emptyButtonText}>{t('courses.addCourseButton')}</Text>
             </TouchableOpacity>
           </View>
         }
@@ -296,10 +352,10 @@ export default function AllCoursesScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS_V2.background.primary,
+    backgroundColor: colors.background,
   },
   header: {
     flexDirection: 'row',
@@ -307,9 +363,9 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     paddingHorizontal: SPACING.lg,
     paddingVertical: SPACING.md,
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderBottomWidth: 1,
-    borderBottomColor: COLORS_V2.border.light,
+    borderBottomColor: colors.border,
     ...ELEVATION.sm,
   },
   backButton: {
@@ -320,9 +376,13 @@ const styles = StyleSheet.create({
   },
   headerTitle: {
     ...TYPOGRAPHY.headlineSmall,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     width: 40,
     height: 40,
@@ -333,7 +393,7 @@ const styles = StyleSheet.create({
     padding: SPACING.lg,
   },
   courseCard: {
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     marginBottom: SPACING.lg,
     overflow: 'hidden',
@@ -365,13 +425,13 @@ const styles = StyleSheet.create({
     width: 36,
     height: 36,
     borderRadius: RADIUS.md,
-    backgroundColor: COLORS_V2.error[50],
+    backgroundColor: colors.errorLight,
     justifyContent: 'center',
     alignItems: 'center',
   },
   courseCode: {
     ...TYPOGRAPHY.titleSmall,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
     letterSpacing: 0.5,
     marginRight: SPACING.sm,
@@ -383,7 +443,19 @@ const styles = StyleSheet.create({
   },
   creditsText: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
+    fontWeight: '700',
+  },
+  gradeBadge: {
+    marginLeft: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.sm,
+    backgroundColor: colors.primaryLight,
+  },
+  gradeText: {
+    ...TYPOGRAPHY.labelSmall,
+    color: COLORS_V2.primary[700],
     fontWeight: '700',
   },
   difficultyContainer: {
@@ -395,18 +467,18 @@ const styles = StyleSheet.create({
   },
   courseName: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     marginBottom: SPACING.xs,
     lineHeight: 22,
   },
   courseInstructor: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     marginBottom: SPACING.md,
   },
   courseStats: {
     flexDirection: 'row',
-    backgroundColor: COLORS_V2.background.tertiary,
+    backgroundColor: colors.surface,
     borderRadius: RADIUS.md,
     padding: SPACING.md,
     marginBottom: SPACING.md,
@@ -417,13 +489,13 @@ const styles = StyleSheet.create({
   },
   statValue: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
     marginBottom: SPACING.xs / 2,
   },
   statLabel: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     textTransform: 'uppercase',
     fontWeight: '600',
   },
@@ -438,11 +510,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   actionButtonSecondary: {
-    backgroundColor: COLORS_V2.background.tertiary,
+    backgroundColor: colors.surface,
   },
   actionText: {
     ...TYPOGRAPHY.labelLarge,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '600',
   },
   emptyState: {
@@ -457,12 +529,12 @@ const styles = StyleSheet.create({
   },
   emptyTitle: {
     ...TYPOGRAPHY.headlineSmall,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     marginBottom: SPACING.sm,
   },
   emptySubtitle: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: SPACING.xl,
   },
@@ -475,7 +547,7 @@ const styles = StyleSheet.create({
   },
   emptyButtonText: {
     ...TYPOGRAPHY.labelLarge,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '700',
   },
 });
@@ -14,11 +14,25 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Dashboard from '../../components/Dashboard.premium';
+import { ThemeColors } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
 import { getCurrentUser, signOutUser } from '../../services/authService';
+import { SUPPORTED_LANGUAGES, TranslationKey } from '../../services/i18n/i18nService';
+import { ThemePreference } from '../../services/userSettingsService';
 
 const { width } = Dimensions.get('window');
 
+const THEME_OPTIONS: { value: ThemePreference; labelKey: TranslationKey; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'light', labelKey: 'home.appearance.light', icon: 'sunny-outline' },
+  { value: 'dark', labelKey: 'home.appearance.dark', icon: 'moon-outline' },
+  { value: 'auto', labelKey: 'home.appearance.system', icon: 'contrast-outline' },
+];
+
 export default function HomeScreen() {
+  const { colors, preference, setPreference } = useTheme();
+  const { t, language, setLanguage } = useTranslation();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [userId, setUserId] = useState<string | null>(null);
@@ -60,7 +74,7 @@ export default function HomeScreen() {
     } catch (error) {
       console.error('Initialization error:', error);
       if (mountedRef.current) {
-        Alert.alert('Error', 'Failed to initialize the app');
+        Alert.alert(t('common.error'), t('home.initFailed'));
         setLoading(false);
       }
     }
@@ -68,12 +82,12 @@ export default function HomeScreen() {
 
   const handleSignOut = () => {
     Alert.alert(
-      'Sign Out',
-      'Are you sure you want to sign out?',
+      t('home.signOut'),
+      t('home.signOutConfirm'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Sign Out',
+          text: t('home.signOut'),
           style: 'destructive',
           onPress: async () => {
             try {
@@ -81,7 +95,7 @@ export default function HomeScreen() {
               router.replace('/');
             } catch (error) {
               console.error('Sign out error:', error);
-              Alert.alert('Error', 'Failed to sign out');
+              Alert.alert(t('common.error'), t('home.signOutFailed'));
             }
           }
         },
@@ -89,11 +103,51 @@ export default function HomeScreen() {
     );
   };
 
+  const handleChangeTheme = () => {
+    Alert.alert(
+      t('home.appearance.title'),
+      t('home.appearance.hint'),
+      [
+        ...THEME_OPTIONS.map((option) => ({
+          text: option.value === preference ? `${t(option.labelKey)} ✓` : t(option.labelKey),
+          onPress: () => {
+            setPreference(option.value).catch((error) => {
+              console.error('Theme save error:', error);
+              Alert.alert(t('common.error'), t('home.appearance.saveFailed'));
+            });
+          },
+        })),
+        { text: t('common.cancel'), style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleChangeLanguage = () => {
+    Alert.alert(
+      t('home.language.title'),
+      t('home.language.hint'),
+      [
+        ...SUPPORTED_LANGUAGES.map((option) => ({
+          text: option.code === language ? `${option.nativeName} ✓` : option.nativeName,
+          onPress: () => {
+            setLanguage(option.code).catch((error) => {
+              console.error('Language save error:', error);
+              Alert.alert(t('common.error'), t('home.language.saveFailed'));
+            });
+          },
+        })),
+        { text: t('common.cancel'), style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const themeIcon = THEME_OPTIONS.find((option) => option.value === preference)?.icon || 'contrast-outline';
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#6366F1" />
-        <Text style={styles.loadingText}>Loading your dashboard...</Text>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('home.loading')}</Text>
       </View>
     );
   }
@@ -101,12 +155,12 @@ export default function HomeScreen() {
   if (!userId) {
     return (
       <View style={styles.loadingContainer}>
-        <Text style={styles.errorText}>Please sign in to continue</Text>
+        <Text style={styles.errorText}>{t('home.signInPrompt')}</Text>
         <TouchableOpacity 
           style={styles.signInButton}
           onPress={() => router.replace('/')}
         >
-          <Text style={styles.signInButtonText}>Go to Sign In</Text>
+          <Text style={styles.signInButtonText}>{t('home.goToSignIn')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -115,7 +169,7 @@ export default function HomeScreen() {
   return (
     <SafeAreaView style={styles.safeArea} edges={['top']}>
       <View style={styles.container}>
-        <StatusBar style="dark" />
+        <StatusBar style={colors.statusBar} />
         
         <View style={styles.header}>
         <Text style={styles.headerTitle}>UniMate</Text>
@@ -124,16 +178,38 @@ export default function HomeScreen() {
             onPress={() => router.push('/study-session')} 
             style={styles.notificationButton}
           >
-            <Ionicons name="book-outline" size={24} color="#6366F1" />
+            <Ionicons name="book-outline" size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            onPress={() => router.push('/reports')} 
+            style={styles.notificationButton}
+          >
+            <Ionicons name="stats-chart-outline" size={24} color={colors.primary} />
           </TouchableOpacity>
           <TouchableOpacity 
             onPress={() => router.push('/notification-settings')} 
             style={styles.notificationButton}
           >
-            <Ionicons name="notifications-outline" size={24} color="#6366F1" />
+            <Ionicons name="notifications-outline" size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleChangeTheme}
+            style={styles.notificationButton}
+            accessibilityLabel={t('home.appearance.button')}
+            accessibilityRole="button"
+          >
+            <Ionicons name={themeIcon} size={24} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleChangeLanguage}
+            style={styles.notificationButton}
+            accessibilityLabel={t('home.language.button')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="language-outline" size={24} color={colors.primary} />
           </TouchableOpacity>
           <TouchableOpacity onPress={handleSignOut} style={styles.signOutButton}>
-            <Text style={styles.signOutButtonText}>Sign Out</Text>
+            <Text style={styles.signOutButtonText}>{t('home.signOut')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -144,39 +220,39 @@ export default function HomeScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   safeArea: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
   },
   container: {
     flex: 1,
-    backgroundColor: '#f5f5f5',
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#f5f5f5',
+    backgroundColor: colors.background,
   },
   loadingText: {
     marginTop: 16,
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
   },
   errorText: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     marginBottom: 16,
   },
   signInButton: {
-    backgroundColor: '#6366F1',
+    backgroundColor: colors.primary,
     paddingHorizontal: 24,
     paddingVertical: 12,
     borderRadius: 8,
   },
   signInButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -187,14 +263,14 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingTop: Platform.OS === 'android' ? 20 : 10,
     paddingBottom: 16,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderBottomWidth: 1,
-    borderBottomColor: '#e0e0e0',
+    borderBottomColor: colors.border,
   },
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#333',
+    color: colors.text,
   },
   headerActions: {
     flexDirection: 'row',
@@ -205,7 +281,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#F3F4F6',
+    backgroundColor: colors.surface,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -213,10 +289,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingVertical: 8,
     borderRadius: 8,
-    backgroundColor: '#f0f0f0',
+    backgroundColor: colors.surface,
   },
   signOutButtonText: {
-    color: '#666',
+    color: colors.textSecondary,
     fontSize: 14,
     fontWeight: '600',
   },
@@ -14,12 +14,23 @@ import {
     View,
 } from 'react-native';
 import { Calendar, DateData } from 'react-native-calendars';
-import { COLORS } from '../../constants/config';
+import { STUDY_CONFIG } from '../../constants/config';
+import { ThemeColors } from '../../constants/designSystem';
 import { ILLUSTRATIONS } from '../../constants/illustrations';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
 import { getCurrentUser } from '../../services/authService';
 import { getCourses } from '../../services/courseServiceFirestore';
+import {
+    generateStudyPlan,
+    getActiveStudyPlan,
+    getStudyPlanEntries,
+    setStudyPlanEntryCompleted,
+    toDateKey,
+} from '../../services/studyPlanService';
 import { getTasks } from '../../services/taskServiceFirestore';
-import { Course, Task } from '../../types';
+import { getUserSettings } from '../../services/userSettingsService';
+import { Course, StudyPlan, StudyPlanEntry, Task } from '../../types';
 
 interface StudySession {
   id: string;
@@ -34,27 +45,41 @@ interface DayStudyPlan {
   tasks: Task[];
   recommendedHours: number;
   courses: string[];
+  blocks: StudyPlanEntry[];
 }
 
+const addMinutes = (time: string, minutes: number): string => {
+  const [h, m] = time.split(':').map(Number);
+  const total = h * 60 + m + minutes;
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
 export default function PlannerScreen() {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState(toDateKey(new Date()));
+  const [userId, setUserId] = useState<string | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
   const [markedDates, setMarkedDates] = useState<any>({});
   const [dayPlan, setDayPlan] = useState<DayStudyPlan | null>(null);
+  const [studyPlan, setStudyPlan] = useState<StudyPlan | null>(null);
+  const [planEntries, setPlanEntries] = useState<StudyPlanEntry[]>([]);
+  const [generating, setGenerating] = useState(false);
 
   useEffect(() => {
     loadData();
   }, []);
 
   useEffect(() => {
-    if (tasks.length > 0 && courses.length > 0) {
+    if ((tasks.length > 0 && courses.length > 0) || planEntries.length > 0) {
       generateMarkedDates();
       generateDayPlan(selectedDate);
     }
-  }, [tasks, courses, selectedDate]);
+  }, [tasks, courses, planEntries, selectedDate]);
 
   const loadData = async () => {
     try {
@@ -64,16 +89,24 @@ export default function PlannerScreen() {
         return;
       }
 
-      const [fetchedTasks, fetchedCourses] = await Promise.all([
+      setUserId(user.id);
+
+      const [fetchedTasks, fetchedCourses, activePlan] = await Promise.all([
         getTasks(user.id),
         getCourses(user.id),
+        getActiveStudyPlan(user.id),
       ]);
 
       setTasks(fetchedTasks);
       setCourses(fetchedCourses);
+      setStudyPlan(activePlan);
+
+      if (activePlan) {
+        setPlanEntries(await getStudyPlanEntries(activePlan.id, user.id));
+      }
     } catch (error) {
       console.error('Load data error:', error);
-      Alert.alert('Error', 'Failed to load planner data');
+      Alert.alert(t('common.error'), t('planner.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -84,7 +117,7 @@ export default function PlannerScreen() {
 
     // Mark task due dates
     tasks.forEach(task => {
-      const dateStr = task.dueDate.toISOString().split('T')[0];
+      const dateStr = toDateKey(task.dueDate);
       const course = courses.find(c => c.id === task.courseId);
       
       if (!marked[dateStr]) {
@@ -92,19 +125,32 @@ export default function PlannerScreen() {
       }
       
       marked[dateStr].dots.push({
-        color: course?.color || COLORS.primary,
-        selectedDotColor: '#fff',
+        color: course?.color || colors.primary,
+        selectedDotColor: colors.onPrimary,
+      });
+    });
+
+    // Mark days that have planned study blocks
+    new Set(planEntries.map(entry => toDateKey(entry.date))).forEach(dateStr => {
+      if (!marked[dateStr]) {
+        marked[dateStr] = { dots: [] };
+      }
+
+      marked[dateStr].dots.push({
+        key: 'plan',
+        color: colors.success,
+        selectedDotColor: colors.onPrimary,
       });
     });
 
     // Highlight selected date
     if (marked[selectedDate]) {
       marked[selectedDate].selected = true;
-      marked[selectedDate].selectedColor = COLORS.primary;
+      marked[selectedDate].selectedColor = colors.primary;
     } else {
       marked[selectedDate] = {
         selected: true,
-        selectedColor: COLORS.primary,
+        selectedColor: colors.primary,
         dots: [],
       };
     }
@@ -117,7 +163,7 @@ export default function PlannerScreen() {
     
     // Get tasks for this date and upcoming days
     const dayTasks = tasks.filter(task => {
-      const taskDate = task.dueDate.toISOString().split('T')[0];
+      const taskDate = toDateKey(task.dueDate);
       return taskDate === dateStr || (task.dueDate >= selectedDateObj && task.status !== 'completed');
     });
 
@@ -127,13 +173,17 @@ export default function PlannerScreen() {
       return daysUntil <= 7;
     });
 
-    const recommendedHours = Math.min(urgentTasks.length * 1.5, 8);
+    // Prefer the stored study plan; fall back to a deadline heuristic without one
+    const blocks = planEntries.filter(entry => toDateKey(entry.date) === dateStr);
+    const recommendedHours = studyPlan
+      ? blocks.reduce((sum, entry) => sum + entry.duration, 0) / 60
+      : Math.min(urgentTasks.length * 1.5, 8);
 
     // Get unique courses for this day
     const coursesForDay = Array.from(new Set(
       dayTasks.map(task => {
         const course = courses.find(c => c.id === task.courseId);
-        return course?.name || 'Unknown';
+        return course?.name || t('tasks.list.unknownCourse');
       })
     ));
 
@@ -141,24 +191,75 @@ export default function PlannerScreen() {
       tasks: dayTasks.slice(0, 5), // Show top 5 tasks
       recommendedHours,
       courses: coursesForDay,
+      blocks,
     });
   };
 
+  const handleGeneratePlan = async () => {
+    if (!userId) return;
+
+    setGenerating(true);
+    try {
+      const settings = await getUserSettings(userId);
+      const result = await generateStudyPlan(userId, {
+        weeks: STUDY_CONFIG.planHorizonWeeks,
+        dailyStudyGoal: settings.studyPreferences.dailyStudyGoal,
+      });
+      setStudyPlan(result.plan);
+      setPlanEntries(result.entries);
+
+      const unscheduledHours = result.unscheduled.reduce((sum, item) => sum + item.minutes, 0) / 60;
+      const revisionBlocks = result.entries.filter(entry => !entry.taskId).length;
+      const summary = [
+        t('planner.planReady.scheduled', { count: result.entries.length, weeks: STUDY_CONFIG.planHorizonWeeks }),
+      ];
+      if (revisionBlocks > 0) {
+        summary.push(t('planner.planReady.revision', { count: revisionBlocks }));
+      }
+      if (result.unscheduled.length > 0) {
+        summary.push(t('planner.planReady.unscheduled', {
+          count: result.unscheduled.length,
+          hours: unscheduledHours.toFixed(1),
+        }));
+      }
+      Alert.alert(t('planner.planReady.title'), summary.join('\n\n'));
+    } catch (error) {
+      console.error('Generate plan error:', error);
+      Alert.alert(t('common.error'), t('planner.generateFailed'));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const toggleBlockCompleted = async (entry: StudyPlanEntry) => {
+    const completed = !entry.completed;
+    setPlanEntries(prev => prev.map(e => (e.id === entry.id ? { ...e, completed } : e)));
+
+    try {
+      await setStudyPlanEntryCompleted(entry.id, completed);
+    } catch (error) {
+      console.error('Update plan block error:', error);
+      setPlanEntries(prev => prev.map(e => (e.id === entry.id ? { ...e, completed: !completed } : e)));
+      Alert.alert(t('common.error'), t('planner.blockFailed'));
+    }
+  };
+
   const onDayPress = (day: DateData) => {
     setSelectedDate(day.dateString);
   };
 
   const getDayInfo = () => {
-    const today = new Date().toISOString().split('T')[0];
+    const today = toDateKey(new Date());
     const selected = new Date(selectedDate);
-    const todayDate = new Date(today);
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
 
     if (selectedDate === today) {
-      return 'Today';
-    } else if (selectedDate === new Date(todayDate.getTime() + 86400000).toISOString().split('T')[0]) {
-      return 'Tomorrow';
+      return t('common.today');
+    } else if (selectedDate === toDateKey(tomorrow)) {
+      return t('common.tomorrow');
     } else {
-      return selected.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+      return formatDate(selected, { weekday: 'long', month: 'short', day: 'numeric' });
     }
   };
 
@@ -167,22 +268,22 @@ export default function PlannerScreen() {
     
     const hours = dayPlan.recommendedHours;
     if (hours === 0) {
-      return '🎉 Free day! Take a break or review previous material.';
+      return t('planner.motivation.free');
     } else if (hours <= 2) {
-      return '✨ Light study day ahead. Perfect for review!';
+      return t('planner.motivation.light');
     } else if (hours <= 4) {
-      return '💪 Moderate workload. You can handle this!';
+      return t('planner.motivation.moderate');
     } else if (hours <= 6) {
-      return '🔥 Busy day ahead. Stay focused and take breaks!';
+      return t('planner.motivation.busy');
     } else {
-      return '⚡ Heavy workload. Break it into chunks and pace yourself!';
+      return t('planner.motivation.heavy');
     }
   };
 
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
+        <ActivityIndicator size="large" color={colors.primary} />
       </View>
     );
   }
@@ -199,19 +300,19 @@ export default function PlannerScreen() {
           contentFit="cover"
         />
         <LinearGradient 
-          colors={['rgba(88,86,214,0.88)', 'rgba(108,99,255,0.88)']} 
+          colors={colors.headerGradient} 
           style={styles.header}
         >
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
           <View style={styles.headerTitle}>
-            <Text style={styles.headerText}>Study Planner</Text>
-            <Text style={styles.headerSubtext}>AI-Powered Schedule</Text>
+            <Text style={styles.headerText}>{t('planner.title')}</Text>
+            <Text style={styles.headerSubtext}>{t('planner.subtitle')}</Text>
           </View>
           <TouchableOpacity style={styles.aiButton} onPress={() => router.push('/chat' as any)}>
-            <Ionicons name="chatbubble-ellipses" size={24} color="#fff" />
+            <Ionicons name="chatbubble-ellipses" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
         </View>
         </LinearGradient>
@@ -221,22 +322,24 @@ export default function PlannerScreen() {
         {/* Calendar */}
         <View style={styles.calendarCard}>
           <Calendar
+            // The calendar reads its theme once, so remount it when the theme changes
+            key={isDark ? 'dark' : 'light'}
             current={selectedDate}
             onDayPress={onDayPress}
             markedDates={markedDates}
             markingType={'multi-dot'}
             theme={{
-              backgroundColor: '#fff',
-              calendarBackground: '#fff',
-              textSectionTitleColor: COLORS.textSecondary,
-              selectedDayBackgroundColor: COLORS.primary,
-              selectedDayTextColor: '#fff',
-              todayTextColor: COLORS.primary,
-              dayTextColor: COLORS.text,
-              textDisabledColor: '#d9d9d9',
-              dotColor: COLORS.primary,
-              selectedDotColor: '#fff',
-              monthTextColor: COLORS.text,
+              backgroundColor: colors.card,
+              calendarBackground: colors.card,
+              textSectionTitleColor: colors.textSecondary,
+              selectedDayBackgroundColor: colors.primary,
+              selectedDayTextColor: colors.onPrimary,
+              todayTextColor: colors.primary,
+              dayTextColor: colors.text,
+              textDisabledColor: colors.textMuted,
+              dotColor: colors.primary,
+              selectedDotColor: colors.onPrimary,
+              monthTextColor: colors.text,
               textMonthFontWeight: 'bold',
               textDayFontSize: 16,
               textMonthFontSize: 18,
@@ -259,26 +362,87 @@ export default function PlannerScreen() {
               {/* Study Hours Recommendation */}
               <View style={styles.statsRow}>
                 <View style={styles.statCard}>
-                  <Ionicons name="time-outline" size={32} color={COLORS.primary} />
+                  <Ionicons name="time-outline" size={32} color={colors.primary} />
                   <Text style={styles.statValue}>{dayPlan.recommendedHours.toFixed(1)}h</Text>
-                  <Text style={styles.statLabel}>Recommended Study</Text>
+                  <Text style={styles.statLabel}>{t('planner.stats.recommended')}</Text>
                 </View>
                 <View style={styles.statCard}>
-                  <Ionicons name="list-outline" size={32} color={COLORS.secondary} />
+                  <Ionicons name="list-outline" size={32} color={colors.secondary} />
                   <Text style={styles.statValue}>{dayPlan.tasks.length}</Text>
-                  <Text style={styles.statLabel}>Tasks to Focus On</Text>
+                  <Text style={styles.statLabel}>{t('planner.stats.tasks')}</Text>
                 </View>
                 <View style={styles.statCard}>
-                  <Ionicons name="book-outline" size={32} color={COLORS.accent} />
+                  <Ionicons name="book-outline" size={32} color={colors.accent} />
                   <Text style={styles.statValue}>{dayPlan.courses.length}</Text>
-                  <Text style={styles.statLabel}>Courses</Text>
+                  <Text style={styles.statLabel}>{t('planner.stats.courses')}</Text>
                 </View>
               </View>
 
+              {/* Study Plan Blocks */}
+              <View style={styles.card}>
+                <View style={styles.cardHeaderRow}>
+                  <Text style={[styles.cardTitle, styles.cardTitleInline]}>{t('planner.blocks.title')}</Text>
+                  <TouchableOpacity
+                    style={styles.generateButton}
+                    onPress={handleGeneratePlan}
+                    disabled={generating}
+                    accessibilityLabel={studyPlan ? t('planner.blocks.regenerateLabel') : t('planner.blocks.generateLabel')}
+                    accessibilityRole="button"
+                  >
+                    {generating ? (
+                      <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                      <>
+                        <Ionicons name="sparkles-outline" size={16} color={colors.primary} />
+                        <Text style={styles.generateButtonText}>{studyPlan ? t('planner.blocks.regenerate') : t('planner.blocks.generate')}</Text>
+                      </>
+                    )}
+                  </TouchableOpacity>
+                </View>
+                {!studyPlan ? (
+                  <Text style={styles.blockEmptyText}>
+                    {t('planner.blocks.intro', { weeks: STUDY_CONFIG.planHorizonWeeks })}
+                  </Text>
+                ) : dayPlan.blocks.length === 0 ? (
+                  <Text style={styles.blockEmptyText}>{t('planner.blocks.emptyDay')}</Text>
+                ) : (
+                  dayPlan.blocks.map(block => {
+                    const course = courses.find(c => c.id === block.courseId);
+                    return (
+                      <TouchableOpacity
+                        key={block.id}
+                        style={styles.blockItem}
+                        onPress={() => toggleBlockCompleted(block)}
+                        accessibilityRole="checkbox"
+                        accessibilityState={{ checked: block.completed }}
+                        accessibilityLabel={block.topic}
+                      >
+                        <Ionicons
+                          name={block.completed ? 'checkbox' : 'square-outline'}
+                          size={22}
+                          color={block.completed ? colors.success : colors.textSecondary}
+                        />
+                        <View style={[styles.taskIndicator, styles.blockIndicator, { backgroundColor: course?.color || colors.primary }]} />
+                        <View style={styles.taskContent}>
+                          <Text style={[styles.blockTopic, block.completed && styles.blockTopicDone]}>{block.topic}</Text>
+                          <Text style={styles.taskMeta}>
+                            {t('planner.blocks.time', {
+                              start: block.startTime,
+                              end: addMinutes(block.startTime, block.duration),
+                              minutes: block.duration,
+                            })}
+                          </Text>
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </View>
+
               {/* Course Focus */}
               {dayPlan.courses.length > 0 && (
                 <View style={styles.card}>
-                  <Text style={styles.cardTitle}>📚 Courses to Focus On</Text>
+                  <Text style={styles.cardTitle}>{t('planner.focusCourses')}</Text>
                   <View style={styles.courseChips}>
                     {dayPlan.courses.map((courseName, index) => (
                       <View key={index} style={styles.courseChip}>
@@ -292,7 +456,7 @@ export default function PlannerScreen() {
               {/* Tasks for the Day */}
               {dayPlan.tasks.length > 0 ? (
                 <View style={styles.card}>
-                  <Text style={styles.cardTitle}>✅ Priority Tasks</Text>
+                  <Text style={styles.cardTitle}>{t('planner.priorityTasks')}</Text>
                   {dayPlan.tasks.map((task, index) => {
                     const course = courses.find(c => c.id === task.courseId);
                     const daysUntil = Math.ceil((task.dueDate.getTime() - new Date(selectedDate).getTime()) / (1000 * 60 * 60 * 24));
@@ -301,21 +465,21 @@ export default function PlannerScreen() {
 
                     return (
                       <View key={index} style={styles.taskItem}>
-                        <View style={[styles.taskIndicator, { backgroundColor: course?.color || COLORS.primary }]} />
+                        <View style={[styles.taskIndicator, { backgroundColor: course?.color || colors.primary }]} />
                         <View style={styles.taskContent}>
                           <Text style={styles.taskTitle}>{task.title}</Text>
                           <Text style={styles.taskMeta}>
-                            {course?.name} • {task.priority} priority
+                            {t('planner.taskMeta', { course: course?.name ?? '', priority: t(`tasks.priority.${task.priority}`) })}
                           </Text>
                           <Text style={[
                             styles.taskDue,
                             isOverdue && styles.taskOverdue,
                             isDueToday && styles.taskDueToday,
                           ]}>
-                            {isOverdue ? `⚠️ Overdue by ${Math.abs(daysUntil)} days` :
-                             isDueToday ? '🔴 Due today' :
-                             daysUntil === 1 ? '📍 Due tomorrow' :
-                             `📅 Due in ${daysUntil} days`}
+                            {isOverdue ? t('planner.due.overdue', { count: Math.abs(daysUntil) }) :
+                             isDueToday ? t('planner.due.today') :
+                             daysUntil === 1 ? t('planner.due.tomorrow') :
+                             t('planner.due.inDays', { count: daysUntil })}
                           </Text>
                         </View>
                       </View>
@@ -329,36 +493,36 @@ export default function PlannerScreen() {
                     style={styles.emptyStateImage}
                     contentFit="contain"
                   />
-                  <Text style={styles.emptyStateText}>No tasks scheduled for this day!</Text>
-                  <Text style={styles.emptyStateSubtext}>Enjoy your free time or review previous material</Text>
+                  <Text style={styles.emptyStateText}>{t('planner.emptyDay')}</Text>
+                  <Text style={styles.emptyStateSubtext}>{t('planner.emptyDayHint')}</Text>
                 </View>
               )}
 
               {/* AI Study Recommendations */}
               <View style={styles.recommendationsCard}>
-                <Text style={styles.cardTitle}>💡 AI Study Tips</Text>
+                <Text style={styles.cardTitle}>{t('planner.tips.title')}</Text>
                 <View style={styles.tipItem}>
-                  <Ionicons name="checkmark-circle" size={20} color={COLORS.success} />
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
                   <Text style={styles.tipText}>
-                    Start with the highest priority tasks first
+                    {t('planner.tips.priority')}
                   </Text>
                 </View>
                 <View style={styles.tipItem}>
-                  <Ionicons name="checkmark-circle" size={20} color={COLORS.success} />
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
                   <Text style={styles.tipText}>
-                    Take a 5-10 minute break every hour
+                    {t('planner.tips.breaks')}
                   </Text>
                 </View>
                 <View style={styles.tipItem}>
-                  <Ionicons name="checkmark-circle" size={20} color={COLORS.success} />
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
                   <Text style={styles.tipText}>
-                    Use the Pomodoro technique for focused work
+                    {t('planner.tips.pomodoro')}
                   </Text>
                 </View>
                 <View style={styles.tipItem}>
-                  <Ionicons name="checkmark-circle" size={20} color={COLORS.success} />
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
                   <Text style={styles.tipText}>
-                    Review material before starting new topics
+                    {t('planner.tips.review')}
                   </Text>
                 </View>
               </View>
@@ -368,18 +532,18 @@ export default function PlannerScreen() {
 
         {/* Quick Actions */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>⚡ Quick Actions</Text>
+          <Text style={styles.sectionTitle}>{t('planner.quickActions')}</Text>
           <View style={styles.quickActions}>
             <TouchableOpacity
               style={styles.actionButton}
               onPress={() => router.push('/tasks/add' as any)}
             >
               <LinearGradient
-                colors={[COLORS.primary, COLORS.secondary]}
+                colors={[colors.primary, colors.secondary]}
                 style={styles.actionGradient}
               >
-                <Ionicons name="add" size={24} color="#fff" />
-                <Text style={styles.actionText}>Add Task</Text>
+                <Ionicons name="add" size={24} color={colors.onPrimary} />
+                <Text style={styles.actionText}>{t('dashboard.quickActions.addTask')}</Text>
               </LinearGradient>
             </TouchableOpacity>
             
@@ -388,11 +552,11 @@ export default function PlannerScreen() {
               onPress={() => router.push('/chat' as any)}
             >
               <LinearGradient
-                colors={[COLORS.secondary, COLORS.accent]}
+                colors={[colors.secondary, colors.accent]}
                 style={styles.actionGradient}
               >
-                <Ionicons name="chatbubble-ellipses" size={24} color="#fff" />
-                <Text style={styles.actionText}>Ask AI</Text>
+                <Ionicons name="chatbubble-ellipses" size={24} color={colors.onPrimary} />
+                <Text style={styles.actionText}>{t('planner.askAi')}</Text>
               </LinearGradient>
             </TouchableOpacity>
           </View>
@@ -402,10 +566,10 @@ export default function PlannerScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -445,7 +609,7 @@ const styles = StyleSheet.create({
   headerText: {
     fontSize: 20,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   headerSubtext: {
     fontSize: 12,
@@ -462,12 +626,12 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   calendarCard: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     marginHorizontal: 16,
     marginTop: 16,
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -479,20 +643,20 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: 20,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 16,
   },
   motivationCard: {
-    backgroundColor: '#FFF9E6',
+    backgroundColor: colors.warningLight,
     padding: 16,
     borderRadius: 12,
     marginBottom: 16,
     borderLeftWidth: 4,
-    borderLeftColor: COLORS.warning,
+    borderLeftColor: colors.warning,
   },
   motivationText: {
     fontSize: 16,
-    color: COLORS.text,
+    color: colors.text,
     fontWeight: '600',
   },
   statsRow: {
@@ -503,11 +667,11 @@ const styles = StyleSheet.create({
   },
   statCard: {
     flex: 1,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     padding: 16,
     borderRadius: 12,
     alignItems: 'center',
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -516,21 +680,21 @@ const styles = StyleSheet.create({
   statValue: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginTop: 8,
   },
   statLabel: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     textAlign: 'center',
     marginTop: 4,
   },
   card: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     padding: 16,
     borderRadius: 12,
     marginBottom: 16,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -539,25 +703,73 @@ const styles = StyleSheet.create({
   cardTitle: {
     fontSize: 16,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  cardHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     marginBottom: 12,
   },
+  cardTitleInline: {
+    marginBottom: 0,
+  },
+  generateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(99, 102, 241, 0.1)',
+  },
+  generateButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  blockEmptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  blockItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  blockIndicator: {
+    alignSelf: 'stretch',
+    marginLeft: 10,
+  },
+  blockTopic: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  blockTopicDone: {
+    textDecorationLine: 'line-through',
+    color: colors.textSecondary,
+  },
   courseChips: {
     flexDirection: 'row',
     flexWrap: 'wrap',
     gap: 8,
   },
   courseChip: {
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
     paddingHorizontal: 12,
     paddingVertical: 6,
     borderRadius: 16,
     borderWidth: 1,
-    borderColor: COLORS.primary,
+    borderColor: colors.primary,
   },
   courseChipText: {
     fontSize: 14,
-    color: COLORS.primary,
+    color: colors.primary,
     fontWeight: '600',
   },
   taskItem: {
@@ -565,7 +777,7 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     paddingBottom: 12,
     borderBottomWidth: 1,
-    borderBottomColor: '#f0f0f0',
+    borderBottomColor: colors.border,
   },
   taskIndicator: {
     width: 4,
@@ -578,28 +790,28 @@ const styles = StyleSheet.create({
   taskTitle: {
     fontSize: 16,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 4,
   },
   taskMeta: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginBottom: 4,
   },
   taskDue: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   taskOverdue: {
-    color: COLORS.error,
+    color: colors.error,
     fontWeight: '600',
   },
   taskDueToday: {
-    color: COLORS.warning,
+    color: colors.warning,
     fontWeight: '600',
   },
   emptyState: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     padding: 32,
     borderRadius: 12,
     alignItems: 'center',
@@ -617,16 +829,16 @@ const styles = StyleSheet.create({
   emptyStateText: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
   },
   emptyStateSubtext: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   recommendationsCard: {
-    backgroundColor: '#E8F5E9',
+    backgroundColor: colors.successLight,
     padding: 16,
     borderRadius: 12,
     marginBottom: 16,
@@ -640,7 +852,7 @@ const styles = StyleSheet.create({
   tipText: {
     flex: 1,
     fontSize: 14,
-    color: COLORS.text,
+    color: colors.text,
     lineHeight: 20,
   },
   quickActions: {
@@ -651,7 +863,7 @@ const styles = StyleSheet.create({
     flex: 1,
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -667,6 +879,6 @@ const styles = StyleSheet.create({
   actionText: {
     fontSize: 16,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
 });
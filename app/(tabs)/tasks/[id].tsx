@@ -18,13 +18,53 @@ import {
     View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS } from '../../../constants/config';
+import SubtaskChecklist from '../../../components/SubtaskChecklist';
+import TaskReminderPicker from '../../../components/TaskReminderPicker';
+import { ThemeColors } from '../../../constants/designSystem';
+import { useTranslation } from '../../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../../contexts/ThemeContext';
 import { getCurrentUser } from '../../../services/authService';
 import { getCourses } from '../../../services/courseServiceFirestore';
-import { deleteTask, getTaskById, updateTask } from '../../../services/taskServiceFirestore';
-import { Course, Task, TaskPriority, TaskStatus, TaskType } from '../../../types';
+import { isGradedType } from '../../../services/gradeCalculator';
+import { t as translate } from '../../../services/i18n/i18nService';
+import { describeRecurrence } from '../../../services/recurrence';
+import { rollUpSubtasks } from '../../../services/subtaskProgress';
+import {
+    deleteTask,
+    deleteTaskSeries,
+    getTaskById,
+    updateTask,
+    updateTaskSeries,
+} from '../../../services/taskServiceFirestore';
+import { Course, SeriesEditScope, Subtask, Task, TaskPriority, TaskStatus, TaskType } from '../../../types';
+
+/**
+ * Ask which occurrences of a recurring task an edit or delete applies to.
+ * Android alerts hold at most three buttons, so cancelling there is a tap outside.
+ */
+const askSeriesScope = (action: 'edit' | 'delete'): Promise<SeriesEditScope | null> =>
+  new Promise(resolve => {
+    Alert.alert(
+      translate(action === 'delete' ? 'tasks.detail.seriesDeleteTitle' : 'tasks.detail.seriesEditTitle'),
+      translate(action === 'delete' ? 'tasks.detail.seriesDeleteMessage' : 'tasks.detail.seriesEditMessage'),
+      [
+        { text: translate('tasks.detail.seriesThis'), onPress: () => resolve('this') },
+        { text: translate('tasks.detail.seriesFollowing'), onPress: () => resolve('following') },
+        {
+          text: translate('tasks.detail.seriesAll'),
+          style: action === 'delete' ? 'destructive' : 'default',
+          onPress: () => resolve('all'),
+        },
+        ...(Platform.OS === 'ios' ? [{ text: translate('common.cancel'), style: 'cancel' as const, onPress: () => resolve(null) }] : []),
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
 
 export default function TaskDetailScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
   const [loading, setLoading] = useState(true);
@@ -43,6 +83,12 @@ export default function TaskDetailScreen() {
   const [dueDate, setDueDate] = useState(new Date());
   const [estimatedHours, setEstimatedHours] = useState('');
   const [completedHours, setCompletedHours] = useState('');
+  const [score, setScore] = useState('');
+  const [maxScore, setMaxScore] = useState('');
+  const [weight, setWeight] = useState('');
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
+  const [reminderDate, setReminderDate] = useState<Date | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
 
   useEffect(() => {
@@ -53,7 +99,7 @@ export default function TaskDetailScreen() {
     try {
       // Validate task ID
       if (!id || typeof id !== 'string') {
-        Alert.alert('Error', 'Invalid task ID');
+        Alert.alert(t('common.error'), t('tasks.detail.invalidId'));
         router.back();
         return;
       }
@@ -71,7 +117,7 @@ export default function TaskDetailScreen() {
       ]);
 
       if (!taskData) {
-        Alert.alert('Error', 'Task not found');
+        Alert.alert(t('common.error'), t('tasks.detail.notFound'));
         router.back();
         return;
       }
@@ -89,9 +135,15 @@ export default function TaskDetailScreen() {
       setDueDate(taskData.dueDate);
       setEstimatedHours(taskData.estimatedHours?.toString() || '');
       setCompletedHours(taskData.completedHours?.toString() || '');
+      setScore(taskData.score?.toString() || '');
+      setMaxScore(taskData.maxScore?.toString() || '');
+      setWeight(taskData.weight?.toString() || '');
+      setSubtasks(taskData.subtasks || []);
+      setReminderOffsets(taskData.reminderOffsets || []);
+      setReminderDate(taskData.reminderDate || null);
     } catch (error) {
       console.error('Initialization error:', error);
-      Alert.alert('Error', 'Failed to load task');
+      Alert.alert(t('common.error'), t('tasks.detail.loadFailed'));
       router.back();
     } finally {
       setLoading(false);
@@ -102,15 +154,40 @@ export default function TaskDetailScreen() {
     if (!userId || !task) return;
 
     if (!title.trim()) {
-      Alert.alert('Error', 'Please enter a task title');
+      Alert.alert(t('common.error'), t('tasks.form.titleRequired'));
       return;
     }
 
     if (!courseId) {
-      Alert.alert('Error', 'Please select a course');
+      Alert.alert(t('common.error'), t('tasks.form.courseRequired'));
       return;
     }
 
+    const parsedScore = score ? parseFloat(score) : undefined;
+    const parsedMaxScore = maxScore ? parseFloat(maxScore) : undefined;
+    const parsedWeight = weight ? parseFloat(weight) : undefined;
+
+    if (isGradedType(type)) {
+      if ((parsedScore === undefined) !== (parsedMaxScore === undefined)) {
+        Alert.alert(t('common.error'), t('tasks.detail.marksRequired'));
+        return;
+      }
+      if (
+        (parsedScore !== undefined && (isNaN(parsedScore) || parsedScore < 0)) ||
+        (parsedMaxScore !== undefined && (isNaN(parsedMaxScore) || parsedMaxScore <= 0))
+      ) {
+        Alert.alert(t('common.error'), t('tasks.detail.invalidMarks'));
+        return;
+      }
+      if (parsedWeight !== undefined && (isNaN(parsedWeight) || parsedWeight < 0 || parsedWeight > 100)) {
+        Alert.alert(t('common.error'), t('tasks.detail.invalidWeight'));
+        return;
+      }
+    }
+
+    const scope = task.seriesId ? await askSeriesScope('edit') : 'this';
+    if (!scope) return;
+
     setSaving(true);
     try {
       const updates: any = {
@@ -120,6 +197,8 @@ export default function TaskDetailScreen() {
         priority,
         status,
         dueDate,
+        reminderOffsets,
+        reminderDate: reminderDate || undefined,
       };
 
       // Only add optional fields if they have values
@@ -133,41 +212,74 @@ export default function TaskDetailScreen() {
         updates.completedHours = parseFloat(completedHours);
       }
 
-      await updateTask(task.id, updates);
+      // Subtasks drive the hours; an emptied checklist is cleared too
+      const checklist = subtasks.filter(subtask => subtask.title.trim());
+      if (checklist.length > 0) {
+        Object.assign(updates, rollUpSubtasks(checklist, estimatedHours ? parseFloat(estimatedHours) : undefined));
+      } else if (task.subtasks?.length) {
+        updates.subtasks = [];
+      }
 
-      Alert.alert('Success', 'Task updated successfully', [
+      // Marks only count for graded task types; undefined clears a previous mark
+      if (isGradedType(type)) {
+        if (parsedScore !== undefined || task.score !== undefined) updates.score = parsedScore;
+        if (parsedMaxScore !== undefined || task.maxScore !== undefined) updates.maxScore = parsedMaxScore;
+        if (parsedWeight !== undefined || task.weight !== undefined) updates.weight = parsedWeight;
+      }
+
+      if (task.seriesId) {
+        await updateTaskSeries(task, updates, scope);
+      } else {
+        await updateTask(task.id, updates);
+      }
+
+      Alert.alert(t('common.success'), t('tasks.detail.saved'), [
         {
-          text: 'OK',
+          text: t('common.ok'),
           onPress: () => router.back(),
         },
       ]);
     } catch (error) {
       console.error('Update task error:', error);
-      Alert.alert('Error', 'Failed to update task');
+      Alert.alert(t('common.error'), t('tasks.detail.updateFailed'));
     } finally {
       setSaving(false);
     }
   };
 
-  const handleDelete = () => {
+  const handleDelete = async () => {
     if (!task) return;
 
+    if (task.seriesId) {
+      const scope = await askSeriesScope('delete');
+      if (!scope) return;
+
+      try {
+        await deleteTaskSeries(task, scope);
+        router.back();
+      } catch (error) {
+        console.error('Delete task series error:', error);
+        Alert.alert(t('common.error'), t('tasks.detail.deleteFailed'));
+      }
+      return;
+    }
+
     Alert.alert(
-      'Delete Task',
-      'Are you sure you want to delete this task?',
+      t('tasks.detail.deleteTitle'),
+      t('tasks.detail.deleteConfirm'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Delete',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
               await deleteTask(task.id);
-              Alert.alert('Success', 'Task deleted successfully');
+              Alert.alert(t('common.success'), t('tasks.detail.deleted'));
               router.back();
             } catch (error) {
               console.error('Delete task error:', error);
-              Alert.alert('Error', 'Failed to delete task');
+              Alert.alert(t('common.error'), t('tasks.detail.deleteFailed'));
             }
           },
         },
@@ -175,6 +287,24 @@ export default function TaskDetailScreen() {
     );
   };
 
+  // Ticking a subtask is saved straight away, like the completion toggle
+  const handleToggleSubtask = async (next: Subtask[]) => {
+    if (!task) return;
+
+    const previous = subtasks;
+    const rollUp = rollUpSubtasks(next, estimatedHours ? parseFloat(estimatedHours) : undefined);
+    setSubtasks(next);
+
+    try {
+      await updateTask(task.id, { userId: task.userId, ...rollUp });
+      setCompletedHours(rollUp.completedHours ? rollUp.completedHours.toString() : '');
+    } catch (error) {
+      console.error('Toggle subtask error:', error);
+      setSubtasks(previous); // Revert on error
+      Alert.alert(t('common.error'), t('tasks.detail.subtaskFailed'));
+    }
+  };
+
   const handleToggleComplete = async () => {
     if (!task) return;
 
@@ -197,14 +327,14 @@ export default function TaskDetailScreen() {
     } catch (error) {
       console.error('Toggle complete error:', error);
       setStatus(status); // Revert on error
-      Alert.alert('Error', 'Failed to update task status');
+      Alert.alert(t('common.error'), t('tasks.detail.statusFailed'));
     }
   };
 
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
+        <ActivityIndicator size="large" color={colors.primary} />
       </View>
     );
   }
@@ -224,14 +354,14 @@ export default function TaskDetailScreen() {
       >
         <StatusBar style="light" />
         
-        <LinearGradient colors={[COLORS.primary, COLORS.secondary]} style={styles.header}>
+        <LinearGradient colors={[colors.primary, colors.secondary]} style={styles.header}>
           <View style={styles.headerContent}>
             <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-              <Ionicons name="arrow-back" size={24} color="#fff" />
+              <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Task Details</Text>
+            <Text style={styles.headerTitle}>{t('tasks.detail.title')}</Text>
             <TouchableOpacity onPress={handleDelete} style={styles.deleteButton}>
-              <Ionicons name="trash-outline" size={24} color="#fff" />
+              <Ionicons name="trash-outline" size={24} color={colors.onPrimary} />
             </TouchableOpacity>
           </View>
         </LinearGradient>
@@ -252,14 +382,14 @@ export default function TaskDetailScreen() {
               <Ionicons 
                 name={status === TaskStatus.COMPLETED ? "checkmark-circle" : "ellipse-outline"} 
                 size={32} 
-                color={status === TaskStatus.COMPLETED ? COLORS.success : COLORS.textSecondary} 
+                color={status === TaskStatus.COMPLETED ? colors.success : colors.textSecondary} 
               />
               <View style={styles.statusTextContainer}>
                 <Text style={styles.statusTitle}>
-                  {status === TaskStatus.COMPLETED ? 'Completed' : 'Mark as Complete'}
+                  {status === TaskStatus.COMPLETED ? t('tasks.detail.completed') : t('tasks.detail.markComplete')}
                 </Text>
                 <Text style={styles.statusSubtitle}>
-                  {status === TaskStatus.COMPLETED ? 'Tap to mark incomplete' : 'Tap to mark as done'}
+                  {status === TaskStatus.COMPLETED ? t('tasks.detail.tapIncomplete') : t('tasks.detail.tapDone')}
                 </Text>
               </View>
             </View>
@@ -267,11 +397,11 @@ export default function TaskDetailScreen() {
 
           {/* Title */}
           <View style={styles.section}>
-            <Text style={styles.label}>Title *</Text>
+            <Text style={styles.label}>{t('tasks.form.title')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="e.g., Math Assignment 1"
-              placeholderTextColor="#999"
+              placeholder={t('tasks.form.titlePlaceholder')}
+              placeholderTextColor={colors.textMuted}
               value={title}
               onChangeText={setTitle}
               editable={!saving}
@@ -281,7 +411,7 @@ export default function TaskDetailScreen() {
 
           {/* Course */}
           <View style={styles.section}>
-            <Text style={styles.label}>Course *</Text>
+            <Text style={styles.label}>{t('tasks.form.course')}</Text>
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={courseId}
@@ -304,7 +434,7 @@ export default function TaskDetailScreen() {
 
           {/* Type */}
           <View style={styles.section}>
-            <Text style={styles.label}>Type</Text>
+            <Text style={styles.label}>{t('tasks.form.type')}</Text>
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={type}
@@ -314,19 +444,19 @@ export default function TaskDetailScreen() {
                 itemStyle={Platform.OS === 'ios' ? { height: 120 } : undefined}
                 mode="dropdown"
               >
-                <Picker.Item label="Assignment" value={TaskType.ASSIGNMENT} />
-                <Picker.Item label="Exam" value={TaskType.EXAM} />
-                <Picker.Item label="Quiz" value={TaskType.QUIZ} />
-                <Picker.Item label="Project" value={TaskType.PROJECT} />
-                <Picker.Item label="Study" value={TaskType.STUDY} />
-                <Picker.Item label="Other" value={TaskType.OTHER} />
+                <Picker.Item label={t('tasks.type.assignment')} value={TaskType.ASSIGNMENT} />
+                <Picker.Item label={t('tasks.type.exam')} value={TaskType.EXAM} />
+                <Picker.Item label={t('tasks.type.quiz')} value={TaskType.QUIZ} />
+                <Picker.Item label={t('tasks.type.project')} value={TaskType.PROJECT} />
+                <Picker.Item label={t('tasks.type.study')} value={TaskType.STUDY} />
+                <Picker.Item label={t('tasks.type.other')} value={TaskType.OTHER} />
               </Picker>
             </View>
           </View>
 
           {/* Priority */}
           <View style={styles.section}>
-            <Text style={styles.label}>Priority</Text>
+            <Text style={styles.label}>{t('tasks.form.priority')}</Text>
             <View style={styles.priorityButtons}>
               {[TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH].map(p => (
                 <TouchableOpacity
@@ -334,7 +464,7 @@ export default function TaskDetailScreen() {
                   style={[
                     styles.priorityButton,
                     priority === p && styles.priorityButtonActive,
-                    { borderColor: p === TaskPriority.HIGH ? COLORS.error : p === TaskPriority.MEDIUM ? COLORS.warning : COLORS.success }
+                    { borderColor: p === TaskPriority.HIGH ? colors.error : p === TaskPriority.MEDIUM ? colors.warning : colors.success }
                   ]}
                   onPress={() => setPriority(p)}
                   disabled={saving}
@@ -344,7 +474,7 @@ export default function TaskDetailScreen() {
                     styles.priorityButtonText,
                     priority === p && styles.priorityButtonTextActive
                   ]}>
-                    {p}
+                    {t(`tasks.priority.${p}`)}
                   </Text>
                 </TouchableOpacity>
               ))}
@@ -353,16 +483,16 @@ export default function TaskDetailScreen() {
 
           {/* Due Date */}
           <View style={styles.section}>
-            <Text style={styles.label}>Due Date</Text>
+            <Text style={styles.label}>{t('tasks.form.dueDate')}</Text>
             <TouchableOpacity
               style={styles.dateButton}
               onPress={() => setShowDatePicker(true)}
               disabled={saving}
               activeOpacity={0.7}
             >
-              <Ionicons name="calendar-outline" size={20} color={COLORS.primary} />
+              <Ionicons name="calendar-outline" size={20} color={colors.primary} />
               <Text style={styles.dateText}>
-                {dueDate.toLocaleDateString('en-US', {
+                {formatDate(dueDate, {
                   weekday: 'short',
                   year: 'numeric',
                   month: 'short',
@@ -385,12 +515,25 @@ export default function TaskDetailScreen() {
             )}
           </View>
 
+          {/* Reminders */}
+          <View style={styles.section}>
+            <Text style={styles.label}>{t('tasks.form.reminders')}</Text>
+            <TaskReminderPicker
+              offsets={reminderOffsets}
+              customDate={reminderDate}
+              onChangeOffsets={setReminderOffsets}
+              onChangeCustomDate={setReminderDate}
+              dueDate={dueDate}
+              editable={!saving}
+            />
+          </View>
+
           {/* Estimated Hours */}
           <View style={styles.section}>
-            <Text style={styles.label}>Estimated Hours</Text>
+            <Text style={styles.label}>{t('tasks.form.estimatedHours')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="e.g., 5"
+              placeholder={t('tasks.form.hoursPlaceholder')}
               value={estimatedHours}
               onChangeText={setEstimatedHours}
               keyboardType="numeric"
@@ -398,13 +541,13 @@ export default function TaskDetailScreen() {
             />
           </View>
 
-          {/* Completed Hours (if completed) */}
-          {status === TaskStatus.COMPLETED && (
+          {/* Completed Hours (if completed and not tracked by subtasks) */}
+          {status === TaskStatus.COMPLETED && subtasks.length === 0 && (
             <View style={styles.section}>
-              <Text style={styles.label}>Completed Hours</Text>
+              <Text style={styles.label}>{t('tasks.detail.completedHours')}</Text>
               <TextInput
                 style={styles.input}
-                placeholder="e.g., 4.5"
+                placeholder={t('tasks.detail.completedHoursPlaceholder')}
                 value={completedHours}
                 onChangeText={setCompletedHours}
                 keyboardType="numeric"
@@ -413,13 +556,70 @@ export default function TaskDetailScreen() {
             </View>
           )}
 
+          {/* Subtasks */}
+          <View style={styles.section}>
+            <Text style={styles.label}>{t('tasks.form.subtasks')}</Text>
+            <SubtaskChecklist
+              subtasks={subtasks}
+              onChange={setSubtasks}
+              onToggle={handleToggleSubtask}
+              taskEstimate={estimatedHours ? parseFloat(estimatedHours) || 0 : undefined}
+              editable={!saving}
+            />
+          </View>
+
+          {/* Grade (graded task types only) */}
+          {isGradedType(type) && (
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('tasks.detail.grade')}</Text>
+              <View style={styles.gradeRow}>
+                <TextInput
+                  style={[styles.input, styles.gradeInput]}
+                  placeholder={t('tasks.detail.marks')}
+                  placeholderTextColor={colors.textMuted}
+                  value={score}
+                  onChangeText={setScore}
+                  keyboardType="decimal-pad"
+                  editable={!saving}
+                />
+                <Text style={styles.gradeSeparator}>/</Text>
+                <TextInput
+                  style={[styles.input, styles.gradeInput]}
+                  placeholder={t('tasks.detail.total')}
+                  placeholderTextColor={colors.textMuted}
+                  value={maxScore}
+                  onChangeText={setMaxScore}
+                  keyboardType="decimal-pad"
+                  editable={!saving}
+                />
+                {!!score && !!maxScore && parseFloat(maxScore) > 0 && (
+                  <Text style={styles.gradePercentage}>
+                    {Math.round((parseFloat(score) / parseFloat(maxScore)) * 1000) / 10}%
+                  </Text>
+                )}
+              </View>
+              <TextInput
+                style={[styles.input, styles.weightInput]}
+                placeholder={t('tasks.detail.weightPlaceholder')}
+                placeholderTextColor={colors.textMuted}
+                value={weight}
+                onChangeText={setWeight}
+                keyboardType="decimal-pad"
+                editable={!saving}
+              />
+              <Text style={styles.hint}>
+                {t('tasks.detail.weightHint', { type: t(`tasks.type.${type}`) })}
+              </Text>
+            </View>
+          )}
+
           {/* Description */}
           <View style={styles.section}>
-            <Text style={styles.label}>Description</Text>
+            <Text style={styles.label}>{t('tasks.form.description')}</Text>
             <TextInput
               style={[styles.input, styles.textArea]}
-              placeholder="Add notes or details about this task..."
-              placeholderTextColor="#999"
+              placeholder={t('tasks.form.descriptionPlaceholder')}
+              placeholderTextColor={colors.textMuted}
               value={description}
               onChangeText={setDescription}
               multiline
@@ -432,11 +632,11 @@ export default function TaskDetailScreen() {
 
           {/* Task Info */}
           <View style={styles.infoCard}>
-            <Text style={styles.infoLabel}>Task Information</Text>
+            <Text style={styles.infoLabel}>{t('tasks.detail.info')}</Text>
             <View style={styles.infoRow}>
-              <Text style={styles.infoKey}>Created:</Text>
+              <Text style={styles.infoKey}>{t('tasks.detail.createdAt')}</Text>
               <Text style={styles.infoValue}>
-                {task.createdAt.toLocaleDateString('en-US', { 
+                {formatDate(task.createdAt, { 
                   month: 'short', 
                   day: 'numeric', 
                   year: 'numeric' 
@@ -444,18 +644,27 @@ export default function TaskDetailScreen() {
               </Text>
             </View>
             <View style={styles.infoRow}>
-              <Text style={styles.infoKey}>Updated:</Text>
+              <Text style={styles.infoKey}>{t('tasks.detail.updatedAt')}</Text>
               <Text style={styles.infoValue}>
-                {task.updatedAt.toLocaleDateString('en-US', { 
+                {formatDate(task.updatedAt, { 
                   month: 'short', 
                   day: 'numeric', 
                   year: 'numeric' 
                 })}
               </Text>
             </View>
+            {task.recurrence && (
+              <View style={styles.infoRow}>
+                <Text style={styles.infoKey}>{t('tasks.detail.repeats')}</Text>
+                <Text style={[styles.infoValue, styles.infoValueWrap]}>
+                  {describeRecurrence(task.recurrence, task.dueDate)}
+                  {task.occurrenceIndex !== undefined ? ` (#${task.occurrenceIndex + 1})` : ''}
+                </Text>
+              </View>
+            )}
             {course && (
               <View style={styles.infoRow}>
-                <Text style={styles.infoKey}>Course:</Text>
+                <Text style={styles.infoKey}>{t('tasks.detail.course')}</Text>
                 <View style={[styles.courseBadge, { backgroundColor: course.color }]}>
                   <Text style={styles.courseBadgeText}>{course.code}</Text>
                 </View>
@@ -471,15 +680,15 @@ export default function TaskDetailScreen() {
             activeOpacity={0.7}
           >
             <LinearGradient
-              colors={saving ? [COLORS.textSecondary, COLORS.textSecondary] : [COLORS.primary, COLORS.secondary]}
+              colors={saving ? [colors.textSecondary, colors.textSecondary] : [colors.primary, colors.secondary]}
               style={styles.saveButtonGradient}
             >
               {saving ? (
-                <ActivityIndicator color="#fff" />
+                <ActivityIndicator color={colors.onPrimary} />
               ) : (
                 <>
-                  <Ionicons name="checkmark-circle-outline" size={24} color="#fff" />
-                  <Text style={styles.saveButtonText}>Save Changes</Text>
+                  <Ionicons name="checkmark-circle-outline" size={24} color={colors.onPrimary} />
+                  <Text style={styles.saveButtonText}>{t('tasks.detail.save')}</Text>
                 </>
               )}
             </LinearGradient>
@@ -490,14 +699,14 @@ export default function TaskDetailScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   safeArea: {
     flex: 1,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
   },
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -529,28 +738,28 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   content: {
     flex: 1,
     padding: 20,
   },
   statusCard: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 16,
     padding: 20,
     marginBottom: 24,
     borderWidth: 2,
-    borderColor: '#e0e0e0',
-    shadowColor: '#000',
+    borderColor: colors.border,
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
     elevation: 3,
   },
   statusCardCompleted: {
-    borderColor: COLORS.success,
-    backgroundColor: '#f0fdf4',
+    borderColor: colors.success,
+    backgroundColor: colors.successLight,
   },
   statusContent: {
     flexDirection: 'row',
@@ -563,12 +772,12 @@ const styles = StyleSheet.create({
   statusTitle: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 4,
   },
   statusSubtitle: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   section: {
     marginBottom: 24,
@@ -576,33 +785,33 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 16,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
   },
   input: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: 16,
     fontSize: 16,
     borderWidth: 1,
-    borderColor: '#e0e0e0',
-    color: COLORS.text,
+    borderColor: colors.border,
+    color: colors.text,
   },
   textArea: {
     height: 120,
     paddingTop: 16,
   },
   pickerContainer: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     overflow: Platform.OS === 'android' ? 'visible' : 'hidden',
   },
   picker: {
     height: Platform.OS === 'ios' ? 180 : 50,
     width: '100%',
-    color: COLORS.text,
+    color: colors.text,
   },
   priorityButtons: {
     flexDirection: 'row',
@@ -616,43 +825,71 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   priorityButtonActive: {
-    backgroundColor: COLORS.primary,
-    borderColor: COLORS.primary,
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
   },
   priorityButtonText: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
   },
   priorityButtonTextActive: {
-    color: '#fff',
+    color: colors.onPrimary,
   },
   dateButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: 16,
     borderWidth: 1,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     gap: 12,
   },
   dateText: {
     fontSize: 16,
-    color: COLORS.text,
+    color: colors.text,
+  },
+  gradeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  gradeInput: {
+    flex: 1,
+  },
+  gradeSeparator: {
+    fontSize: 20,
+    color: colors.textSecondary,
+    marginHorizontal: 10,
+  },
+  gradePercentage: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.primary,
+    marginLeft: 12,
+    minWidth: 56,
+    textAlign: 'right',
+  },
+  weightInput: {
+    marginTop: 10,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 6,
   },
   infoCard: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: 20,
     marginBottom: 24,
     borderWidth: 1,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
   },
   infoLabel: {
     fontSize: 16,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 16,
   },
   infoRow: {
@@ -663,12 +900,17 @@ const styles = StyleSheet.create({
   },
   infoKey: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   infoValue: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
+  },
+  infoValueWrap: {
+    flex: 1,
+    textAlign: 'right',
+    marginLeft: 16,
   },
   courseBadge: {
     paddingHorizontal: 12,
@@ -676,7 +918,7 @@ const styles = StyleSheet.create({
     borderRadius: 6,
   },
   courseBadgeText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 12,
     fontWeight: 'bold',
   },
@@ -684,7 +926,7 @@ const styles = StyleSheet.create({
     marginBottom: 40,
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: COLORS.primary,
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 8,
@@ -702,7 +944,7 @@ const styles = StyleSheet.create({
     gap: 8,
   },
   saveButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 18,
     fontWeight: 'bold',
   },
@@ -19,15 +19,32 @@ import {
     View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS } from '../../../constants/config';
+import RecurrencePicker from '../../../components/RecurrencePicker';
+import TaskReminderPicker from '../../../components/TaskReminderPicker';
+import SubtaskChecklist from '../../../components/SubtaskChecklist';
+import { ThemeColors } from '../../../constants/designSystem';
 import { ILLUSTRATIONS } from '../../../constants/illustrations';
-import { indexTask } from '../../../services/ai/ragIndexer';
+import { useTranslation } from '../../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../../contexts/ThemeContext';
 import { getCurrentUser } from '../../../services/authService';
 import { getCourses } from '../../../services/courseServiceFirestore';
-import { createTask } from '../../../services/taskServiceFirestore';
-import { Course, TaskPriority, TaskStatus, TaskType } from '../../../types';
+import { rollUpSubtasks } from '../../../services/subtaskProgress';
+import { createRecurringTask, createTask } from '../../../services/taskServiceFirestore';
+import { getTimetableEntries } from '../../../services/timetableServiceFirestore';
+import {
+    Course,
+    RecurrenceRule,
+    Subtask,
+    TaskPriority,
+    TaskStatus,
+    TaskType,
+    TimetableEntry,
+} from '../../../types';
 
 export default function AddTaskScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
   const router = useRouter();
   const params = useLocalSearchParams();
   const [loading, setLoading] = useState(true);
@@ -43,6 +60,11 @@ export default function AddTaskScreen() {
   const [priority, setPriority] = useState<TaskPriority>(TaskPriority.MEDIUM);
   const [dueDate, setDueDate] = useState(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)); // 1 week from now
   const [estimatedHours, setEstimatedHours] = useState('');
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
+  const [reminderDate, setReminderDate] = useState<Date | null>(null);
+  const [timetable, setTimetable] = useState<TimetableEntry[]>([]);
   const [showDatePicker, setShowDatePicker] = useState(false);
 
   useEffect(() => {
@@ -110,6 +132,11 @@ export default function AddTaskScreen() {
       console.log('[AddTask] Courses loaded:', coursesData.length);
       
       setCourses(coursesData);
+
+      // Class slots are only needed for anchoring repeats, so don't fail without them
+      getTimetableEntries(user.id)
+        .then(setTimetable)
+        .catch(error => console.warn('[AddTask] Failed to load timetable:', error));
       
       // Pre-select course if passed via params
       if (params.courseId && typeof params.courseId === 'string') {
@@ -124,11 +151,11 @@ export default function AddTaskScreen() {
     } catch (error) {
       console.error('[AddTask] Initialization error:', error);
       Alert.alert(
-        'Error Loading Courses',
-        'Failed to load your courses. Please check your connection and try again.',
+        t('tasks.form.coursesLoadFailedTitle'),
+        t('tasks.form.coursesLoadFailed'),
         [
-          { text: 'Go Back', onPress: () => router.back() },
-          { text: 'Retry', onPress: () => initialize() }
+          { text: t('common.goBack'), onPress: () => router.back() },
+          { text: t('common.retry'), onPress: () => initialize() }
         ]
       );
     } finally {
@@ -141,18 +168,24 @@ export default function AddTaskScreen() {
 
     // Validation
     if (!title.trim()) {
-      Alert.alert('Error', 'Please enter a task title');
+      Alert.alert(t('common.error'), t('tasks.form.titleRequired'));
       return;
     }
 
     if (!courseId) {
-      Alert.alert('Error', 'Please select a course');
+      Alert.alert(t('common.error'), t('tasks.form.courseRequired'));
       return;
     }
 
+    const parsedEstimate = estimatedHours ? parseFloat(estimatedHours) : undefined;
+    const checklist = subtasks.filter(subtask => subtask.title.trim());
+
+    const slots = timetable.filter(entry => entry.courseId === courseId);
+    const anchor = slots.find(entry => entry.id === recurrence?.timetableEntryId);
+
     setSaving(true);
     try {
-      const newTask = await createTask({
+      const taskData = {
         userId,
         courseId,
         title: title.trim(),
@@ -161,17 +194,17 @@ export default function AddTaskScreen() {
         priority,
         status: TaskStatus.TODO,
         dueDate,
-        estimatedHours: estimatedHours ? parseFloat(estimatedHours) : undefined,
-      });
-
-      // Auto-index for RAG
-      try {
-        await indexTask(newTask);
-        console.log('✅ Task indexed for RAG:', newTask.title);
-      } catch (indexError) {
-        console.warn('⚠️ Failed to index task for RAG:', indexError);
-        // Don't fail the entire operation if indexing fails
-      }
+        estimatedHours: parsedEstimate,
+        reminderOffsets,
+        reminderDate: reminderDate || undefined,
+        // Subtask estimates roll up into the task's hours
+        ...(checklist.length > 0 && rollUpSubtasks(checklist, parsedEstimate)),
+      };
+
+      // Recurring tasks create every occurrence up front
+      const newTasks = recurrence
+        ? await createRecurringTask(taskData, { ...recurrence, timetableEntryId: undefined }, anchor)
+        : [await createTask(taskData)];
 
       // Clear form fields
       setTitle('');
@@ -180,16 +213,20 @@ export default function AddTaskScreen() {
       setPriority(TaskPriority.MEDIUM);
       setDueDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
       setEstimatedHours('');
+      setSubtasks([]);
+      setRecurrence(null);
+      setReminderOffsets([]);
+      setReminderDate(null);
 
-      Alert.alert('Success', 'Task created successfully', [
+      Alert.alert(t('common.success'), newTasks.length > 1 ? t('tasks.form.createdRecurring', { count: newTasks.length }) : t('tasks.form.created'), [
         {
-          text: 'OK',
+          text: t('common.ok'),
           onPress: () => router.back(),
         },
       ]);
     } catch (error) {
       console.error('Create task error:', error);
-      Alert.alert('Error', 'Failed to create task');
+      Alert.alert(t('common.error'), t('tasks.form.createFailed'));
     } finally {
       setSaving(false);
     }
@@ -198,7 +235,7 @@ export default function AddTaskScreen() {
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
+        <ActivityIndicator size="large" color={colors.primary} />
       </View>
     );
   }
@@ -207,12 +244,12 @@ export default function AddTaskScreen() {
     return (
       <View style={styles.container}>
         <StatusBar style="light" />
-        <LinearGradient colors={[COLORS.primary, COLORS.secondary]} style={styles.header}>
+        <LinearGradient colors={[colors.primary, colors.secondary]} style={styles.header}>
           <View style={styles.headerContent}>
             <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-              <Ionicons name="arrow-back" size={24} color="#fff" />
+              <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Add Task</Text>
+            <Text style={styles.headerTitle}>{t('tasks.form.addTitle')}</Text>
             <View style={{ width: 40 }} />
           </View>
         </LinearGradient>
@@ -223,10 +260,9 @@ export default function AddTaskScreen() {
             style={styles.emptyImage}
             contentFit="contain"
           />
-          <Text style={styles.emptyText}>No Courses Found</Text>
+          <Text style={styles.emptyText}>{t('tasks.form.noCourses')}</Text>
           <Text style={styles.emptySubtext}>
-            Please add at least one course before creating tasks.
-            Tasks help you organize assignments and projects for each course.
+            {t('tasks.form.noCoursesHint')}
           </Text>
           <TouchableOpacity
             style={styles.addCourseButton}
@@ -236,13 +272,13 @@ export default function AddTaskScreen() {
             }}
           >
             <LinearGradient
-              colors={[COLORS.primary, COLORS.secondary]}
+              colors={[colors.primary, colors.secondary]}
               style={styles.addCourseGradient}
               start={{ x: 0, y: 0 }}
               end={{ x: 1, y: 0 }}
             >
-              <Ionicons name="add" size={20} color="#fff" style={{ marginRight: 8 }} />
-              <Text style={styles.addCourseButtonText}>Add Your First Course</Text>
+              <Ionicons name="add" size={20} color={colors.onPrimary} style={{ marginRight: 8 }} />
+              <Text style={styles.addCourseButtonText}>{t('tasks.form.addFirstCourse')}</Text>
             </LinearGradient>
           </TouchableOpacity>
           <TouchableOpacity
@@ -252,7 +288,7 @@ export default function AddTaskScreen() {
               initialize();
             }}
           >
-            <Text style={styles.retryButtonText}>Or Refresh to Check Again</Text>
+            <Text style={styles.retryButtonText}>{t('tasks.form.refresh')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -275,14 +311,14 @@ export default function AddTaskScreen() {
             contentFit="cover"
           />
           <LinearGradient 
-            colors={['rgba(88,86,214,0.9)', 'rgba(108,99,255,0.9)']} 
+            colors={colors.headerGradient} 
             style={styles.header}
           >
             <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Add Task</Text>
+          <Text style={styles.headerTitle}>{t('tasks.form.addTitle')}</Text>
           <View style={{ width: 40 }} />
             </View>
           </LinearGradient>
@@ -296,13 +332,13 @@ export default function AddTaskScreen() {
       >
         {/* Title */}
         <View style={styles.section}>
-          <Text style={styles.label}>Title *</Text>
+          <Text style={styles.label}>{t('tasks.form.title')}</Text>
           <View style={styles.inputWrapper}>
-            <Ionicons name="create-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="create-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <TextInput
               style={styles.input}
-              placeholder="e.g., Math Assignment 1"
-              placeholderTextColor="#999"
+              placeholder={t('tasks.form.titlePlaceholder')}
+              placeholderTextColor={colors.textMuted}
               value={title}
               onChangeText={setTitle}
               editable={!saving}
@@ -316,9 +352,9 @@ export default function AddTaskScreen() {
 
         {/* Course */}
         <View style={styles.section}>
-          <Text style={styles.label}>Course *</Text>
+          <Text style={styles.label}>{t('tasks.form.course')}</Text>
           <View style={styles.pickerWrapper}>
-            <Ionicons name="book-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="book-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={courseId}
@@ -341,9 +377,9 @@ export default function AddTaskScreen() {
 
         {/* Type */}
         <View style={styles.section}>
-          <Text style={styles.label}>Type</Text>
+          <Text style={styles.label}>{t('tasks.form.type')}</Text>
           <View style={styles.pickerWrapper}>
-            <Ionicons name="list-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="list-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={type}
@@ -352,12 +388,12 @@ export default function AddTaskScreen() {
                 style={styles.picker}
                 mode="dropdown"
               >
-                <Picker.Item label="Assignment" value={TaskType.ASSIGNMENT} />
-                <Picker.Item label="Exam" value={TaskType.EXAM} />
-                <Picker.Item label="Quiz" value={TaskType.QUIZ} />
-                <Picker.Item label="Project" value={TaskType.PROJECT} />
-                <Picker.Item label="Study" value={TaskType.STUDY} />
-                <Picker.Item label="Other" value={TaskType.OTHER} />
+                <Picker.Item label={t('tasks.type.assignment')} value={TaskType.ASSIGNMENT} />
+                <Picker.Item label={t('tasks.type.exam')} value={TaskType.EXAM} />
+                <Picker.Item label={t('tasks.type.quiz')} value={TaskType.QUIZ} />
+                <Picker.Item label={t('tasks.type.project')} value={TaskType.PROJECT} />
+                <Picker.Item label={t('tasks.type.study')} value={TaskType.STUDY} />
+                <Picker.Item label={t('tasks.type.other')} value={TaskType.OTHER} />
               </Picker>
             </View>
           </View>
@@ -365,7 +401,7 @@ export default function AddTaskScreen() {
 
         {/* Priority */}
         <View style={styles.section}>
-          <Text style={styles.label}>Priority</Text>
+          <Text style={styles.label}>{t('tasks.form.priority')}</Text>
           <View style={styles.priorityButtons}>
             {[TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH].map(p => (
               <TouchableOpacity
@@ -373,7 +409,7 @@ export default function AddTaskScreen() {
                 style={[
                   styles.priorityButton,
                   priority === p && styles.priorityButtonActive,
-                  { borderColor: p === TaskPriority.HIGH ? COLORS.error : p === TaskPriority.MEDIUM ? COLORS.warning : COLORS.success }
+                  { borderColor: p === TaskPriority.HIGH ? colors.error : p === TaskPriority.MEDIUM ? colors.warning : colors.success }
                 ]}
                 onPress={() => setPriority(p)}
                 disabled={saving}
@@ -382,7 +418,7 @@ export default function AddTaskScreen() {
                   styles.priorityButtonText,
                   priority === p && styles.priorityButtonTextActive
                 ]}>
-                  {p}
+                  {t(`tasks.priority.${p}`)}
                 </Text>
               </TouchableOpacity>
             ))}
@@ -391,15 +427,15 @@ export default function AddTaskScreen() {
 
         {/* Due Date */}
         <View style={styles.section}>
-          <Text style={styles.label}>Due Date</Text>
+          <Text style={styles.label}>{t('tasks.form.dueDate')}</Text>
           <TouchableOpacity
             style={styles.dateButton}
             onPress={() => setShowDatePicker(true)}
             disabled={saving}
           >
-            <Ionicons name="calendar-outline" size={20} color={COLORS.primary} />
+            <Ionicons name="calendar-outline" size={20} color={colors.primary} />
             <Text style={styles.dateText}>
-              {dueDate.toLocaleDateString('en-US', {
+              {formatDate(dueDate, {
                 weekday: 'short',
                 year: 'numeric',
                 month: 'short',
@@ -422,15 +458,40 @@ export default function AddTaskScreen() {
           )}
         </View>
 
+        {/* Repeat */}
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('tasks.form.repeat')}</Text>
+          <RecurrencePicker
+            value={recurrence}
+            onChange={setRecurrence}
+            firstDue={dueDate}
+            slots={timetable.filter(entry => entry.courseId === courseId)}
+            editable={!saving}
+          />
+        </View>
+
+        {/* Reminders */}
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('tasks.form.reminders')}</Text>
+          <TaskReminderPicker
+            offsets={reminderOffsets}
+            customDate={reminderDate}
+            onChangeOffsets={setReminderOffsets}
+            onChangeCustomDate={setReminderDate}
+            dueDate={dueDate}
+            editable={!saving}
+          />
+        </View>
+
         {/* Estimated Hours */}
         <View style={styles.section}>
-          <Text style={styles.label}>Estimated Hours (Optional)</Text>
+          <Text style={styles.label}>{t('tasks.form.estimatedHoursOptional')}</Text>
           <View style={styles.inputWrapper}>
-            <Ionicons name="time-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+            <Ionicons name="time-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
             <TextInput
               style={styles.input}
-              placeholder="e.g., 5"
-              placeholderTextColor="#999"
+              placeholder={t('tasks.form.hoursPlaceholder')}
+              placeholderTextColor={colors.textMuted}
               value={estimatedHours}
               onChangeText={setEstimatedHours}
               keyboardType="numeric"
@@ -440,15 +501,26 @@ export default function AddTaskScreen() {
           </View>
         </View>
 
+        {/* Subtasks */}
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('tasks.form.subtasksOptional')}</Text>
+          <SubtaskChecklist
+            subtasks={subtasks}
+            onChange={setSubtasks}
+            taskEstimate={estimatedHours ? parseFloat(estimatedHours) || 0 : undefined}
+            editable={!saving}
+          />
+        </View>
+
         {/* Description */}
         <View style={styles.section}>
-          <Text style={styles.label}>Description (Optional)</Text>
+          <Text style={styles.label}>{t('tasks.form.descriptionOptional')}</Text>
           <View style={[styles.inputWrapper, styles.textAreaWrapper]}>
-            <Ionicons name="document-text-outline" size={20} color={COLORS.textSecondary} style={[styles.inputIcon, styles.textAreaIcon]} />
+            <Ionicons name="document-text-outline" size={20} color={colors.textSecondary} style={[styles.inputIcon, styles.textAreaIcon]} />
             <TextInput
               style={[styles.input, styles.textArea]}
-              placeholder="Add notes or details about this task..."
-              placeholderTextColor="#999"
+              placeholder={t('tasks.form.descriptionPlaceholder')}
+              placeholderTextColor={colors.textMuted}
               value={description}
               onChangeText={setDescription}
               multiline
@@ -468,15 +540,15 @@ export default function AddTaskScreen() {
           disabled={saving}
         >
           <LinearGradient
-            colors={saving ? [COLORS.textSecondary, COLORS.textSecondary] : [COLORS.primary, COLORS.secondary]}
+            colors={saving ? [colors.textSecondary, colors.textSecondary] : [colors.primary, colors.secondary]}
             style={styles.saveButtonGradient}
           >
             {saving ? (
-              <ActivityIndicator color="#fff" />
+              <ActivityIndicator color={colors.onPrimary} />
             ) : (
               <>
-                <Ionicons name="checkmark-circle-outline" size={24} color="#fff" />
-                <Text style={styles.saveButtonText}>Create Task</Text>
+                <Ionicons name="checkmark-circle-outline" size={24} color={colors.onPrimary} />
+                <Text style={styles.saveButtonText}>{t('tasks.form.create')}</Text>
               </>
             )}
           </LinearGradient>
@@ -487,10 +559,10 @@ export default function AddTaskScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -499,7 +571,7 @@ const styles = StyleSheet.create({
   },
   safeArea: {
     flex: 1,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
   },
   headerWrapper: {
     position: 'relative',
@@ -529,7 +601,7 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   content: {
     flex: 1,
@@ -541,19 +613,19 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 15,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
     letterSpacing: 0.2,
   },
   inputWrapper: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     borderWidth: 1.5,
-    borderColor: '#e8e8e8',
+    borderColor: colors.border,
     paddingHorizontal: 14,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.06,
     shadowRadius: 4,
@@ -568,7 +640,7 @@ const styles = StyleSheet.create({
     paddingVertical: 14,
     paddingHorizontal: 0,
     fontSize: 15,
-    color: COLORS.text,
+    color: colors.text,
     fontWeight: '500',
   },
   textArea: {
@@ -588,12 +660,12 @@ const styles = StyleSheet.create({
   pickerWrapper: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     borderWidth: 1.5,
-    borderColor: '#e8e8e8',
+    borderColor: colors.border,
     paddingLeft: 14,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.06,
     shadowRadius: 4,
@@ -610,7 +682,7 @@ const styles = StyleSheet.create({
   picker: {
     height: Platform.OS === 'ios' ? 44 : 50,
     width: '100%',
-    color: COLORS.text,
+    color: colors.text,
     backgroundColor: 'transparent',
   },
   priorityButtons: {
@@ -623,36 +695,36 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     borderWidth: 1.5,
     alignItems: 'center',
-    backgroundColor: '#fff',
-    shadowColor: '#000',
+    backgroundColor: colors.card,
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 1 },
     shadowOpacity: 0.05,
     shadowRadius: 2,
     elevation: 1,
   },
   priorityButtonActive: {
-    backgroundColor: COLORS.primary,
-    borderColor: COLORS.primary,
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
   },
   priorityButtonText: {
     fontSize: 13,
     fontWeight: '700',
-    color: COLORS.text,
+    color: colors.text,
     letterSpacing: 0.3,
     textTransform: 'uppercase',
   },
   priorityButtonTextActive: {
-    color: '#fff',
+    color: colors.onPrimary,
   },
   dateButton: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: 14,
     borderWidth: 1.5,
-    borderColor: '#e8e8e8',
-    shadowColor: '#000',
+    borderColor: colors.border,
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.06,
     shadowRadius: 4,
@@ -661,7 +733,7 @@ const styles = StyleSheet.create({
   },
   dateText: {
     fontSize: 15,
-    color: COLORS.text,
+    color: colors.text,
     fontWeight: '500',
     marginLeft: 10,
   },
@@ -670,7 +742,7 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: COLORS.primary,
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 8,
@@ -688,7 +760,7 @@ const styles = StyleSheet.create({
     minHeight: 52,
   },
   saveButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 17,
     fontWeight: 'bold',
     marginLeft: 8,
@@ -707,12 +779,12 @@ const styles = StyleSheet.create({
   emptyText: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginTop: 24,
   },
   emptySubtext: {
     fontSize: 16,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     textAlign: 'center',
     marginTop: 8,
     marginBottom: 32,
@@ -720,7 +792,7 @@ const styles = StyleSheet.create({
   addCourseButton: {
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: COLORS.primary,
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 8,
@@ -733,7 +805,7 @@ const styles = StyleSheet.create({
     paddingVertical: 14,
   },
   addCourseButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -743,7 +815,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
   },
   retryButtonText: {
-    color: COLORS.primary,
+    color: colors.primary,
     fontSize: 14,
     fontWeight: '600',
     textDecorationLine: 'underline',
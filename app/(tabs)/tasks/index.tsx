@@ -13,14 +13,19 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS_V2, ELEVATION, RADIUS, SPACING, TYPOGRAPHY } from '../../../constants/designSystem';
+import { COLORS_V2, ELEVATION, RADIUS, SPACING, ThemeColors, TYPOGRAPHY } from '../../../constants/designSystem';
 import { ILLUSTRATIONS } from '../../../constants/illustrations';
+import { useTranslation } from '../../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../../contexts/ThemeContext';
 import { getCurrentUser } from '../../../services/authService';
 import { getCourses } from '../../../services/courseServiceFirestore';
 import { getTasks } from '../../../services/taskServiceFirestore';
 import { Course, Task, TaskStatus } from '../../../types';
 
 export default function TasksScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
   const router = useRouter();
   const params = useLocalSearchParams();
   const [loading, setLoading] = useState(true);
@@ -133,7 +138,7 @@ export default function TasksScreen() {
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={COLORS_V2.primary[600]} />
-          <Text style={styles.loadingText}>Loading tasks...</Text>
+          <Text style={styles.loadingText}>{t('tasks.list.loading')}</Text>
         </View>
       </SafeAreaView>
     );
@@ -154,11 +159,11 @@ export default function TasksScreen() {
               router.back();
             }}
           >
-            <Ionicons name="arrow-back" size={24} color={COLORS_V2.text.primary} />
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
           </TouchableOpacity>
           <View style={styles.headerTitleContainer}>
             <Text style={styles.headerTitle}>
-              {selectedCourse ? selectedCourse.name : 'All Tasks'}
+              {selectedCourse ? selectedCourse.name : t('tasks.list.allTasks')}
             </Text>
             {selectedCourse && (
               <Text style={styles.headerSubtitle}>{selectedCourse.code}</Text>
@@ -169,7 +174,7 @@ export default function TasksScreen() {
           style={styles.addButton}
           onPress={() => router.push(selectedCourseId ? `/tasks/add?courseId=${selectedCourseId}` : '/tasks/add')}
         >
-          <Ionicons name="add" size={24} color="#fff" />
+          <Ionicons name="add" size={24} color={colors.onPrimary} />
         </TouchableOpacity>
       </View>
 
@@ -188,7 +193,7 @@ export default function TasksScreen() {
           }}
         >
           <Text style={[styles.filterText, filter === 'all' && styles.filterTextActive]}>
-            All ({(selectedCourseId ? tasks.filter((t: Task) => t.courseId === selectedCourseId) : tasks).length})
+            {t('tasks.list.filterAll', { count: (selectedCourseId ? tasks.filter((task: Task) => task.courseId === selectedCourseId) : tasks).length })}
           </Text>
         </TouchableOpacity>
         <TouchableOpacity
@@ -199,7 +204,7 @@ export default function TasksScreen() {
           }}
         >
           <Text style={[styles.filterText, filter === 'pending' && styles.filterTextActive]}>
-            Pending ({(selectedCourseId ? tasks.filter((t: Task) => t.courseId === selectedCourseId) : tasks).filter((t: Task) => t.status !== TaskStatus.COMPLETED).length})
+            {t('tasks.list.filterPending', { count: (selectedCourseId ? tasks.filter((task: Task) => task.courseId === selectedCourseId) : tasks).filter((task: Task) => task.status !== TaskStatus.COMPLETED).length })}
           </Text>
         </TouchableOpacity>
         <TouchableOpacity
@@ -210,7 +215,7 @@ export default function TasksScreen() {
           }}
         >
           <Text style={[styles.filterText, filter === 'completed' && styles.filterTextActive]}>
-            Completed ({(selectedCourseId ? tasks.filter((t: Task) => t.courseId === selectedCourseId) : tasks).filter((t: Task) => t.status === TaskStatus.COMPLETED).length})
+            {t('tasks.list.filterCompleted', { count: (selectedCourseId ? tasks.filter((task: Task) => task.courseId === selectedCourseId) : tasks).filter((task: Task) => task.status === TaskStatus.COMPLETED).length })}
           </Text>
         </TouchableOpacity>
         <TouchableOpacity
@@ -221,7 +226,7 @@ export default function TasksScreen() {
           }}
         >
           <Text style={[styles.filterText, filter === 'overdue' && styles.filterTextActive]}>
-            Overdue ({(selectedCourseId ? tasks.filter((t: Task) => t.courseId === selectedCourseId) : tasks).filter((t: Task) => new Date(t.dueDate) < new Date() && t.status !== TaskStatus.COMPLETED).length})
+            {t('tasks.list.filterOverdue', { count: (selectedCourseId ? tasks.filter((task: Task) => task.courseId === selectedCourseId) : tasks).filter((task: Task) => new Date(task.dueDate) < new Date() && task.status !== TaskStatus.COMPLETED).length })}
           </Text>
         </TouchableOpacity>
       </ScrollView>
@@ -234,11 +239,11 @@ export default function TasksScreen() {
             style={styles.emptyImage}
             contentFit="contain"
           />
-          <Text style={styles.emptyTitle}>No tasks found</Text>
+          <Text style={styles.emptyTitle}>{t('tasks.list.noTasksFound')}</Text>
           <Text style={styles.emptySubtitle}>
             {filter === 'completed'
-              ? 'No completed tasks yet'
-              : 'Tap + to add your first task'}
+              ? t('tasks.list.noCompleted')
+              : t('tasks.list.addFirstHint')}
           </Text>
         </View>
       ) : (
@@ -283,13 +288,13 @@ export default function TasksScreen() {
                       {task.priority === 'high' && (
                         <View style={styles.priorityBadge}>
                           <Ionicons name="flag" size={12} color={COLORS_V2.error[600]} />
-                          <Text style={styles.priorityText}>High</Text>
+                          <Text style={styles.priorityText}>{t('tasks.priority.high')}</Text>
                         </View>
                       )}
                       {task.priority === 'medium' && (
                         <View style={[styles.priorityBadge, styles.mediumPriority]}>
                           <Ionicons name="flag" size={12} color={COLORS_V2.warning[600]} />
-                          <Text style={[styles.priorityText, styles.mediumPriorityText]}>Medium</Text>
+                          <Text style={[styles.priorityText, styles.mediumPriorityText]}>{t('tasks.priority.medium')}</Text>
                         </View>
                       )}
                     </View>
@@ -300,7 +305,7 @@ export default function TasksScreen() {
                       </View>
                     ) : (
                       <View style={styles.statusIcon}>
-                        <Ionicons name="ellipse-outline" size={28} color={COLORS_V2.text.tertiary} />
+                        <Ionicons name="ellipse-outline" size={28} color={colors.textMuted} />
                       </View>
                     )}
                   </View>
@@ -333,14 +338,14 @@ export default function TasksScreen() {
                       <Ionicons 
                         name={isOverdue ? 'alert-circle' : task.status === TaskStatus.COMPLETED ? 'checkmark-circle' : 'time-outline'} 
                         size={14} 
-                        color={isOverdue ? COLORS_V2.error[600] : task.status === TaskStatus.COMPLETED ? COLORS_V2.success[600] : COLORS_V2.text.secondary}
+                        color={isOverdue ? COLORS_V2.error[600] : task.status === TaskStatus.COMPLETED ? COLORS_V2.success[600] : colors.textSecondary}
                       />
                       <Text style={[
                         styles.dueDateText,
                         isOverdue && styles.dueDateTextOverdue,
                         task.status === TaskStatus.COMPLETED && styles.dueDateTextCompleted
                       ]}>
-                        {task.dueDate.toLocaleDateString('en-US', {
+                        {formatDate(task.dueDate, {
                           month: 'short',
                           day: 'numeric',
                           year: task.dueDate.getFullYear() !== new Date().getFullYear() ? 'numeric' : undefined,
@@ -352,7 +357,7 @@ export default function TasksScreen() {
 
                 {/* Chevron Icon */}
                 <View style={styles.chevronContainer}>
-                  <Ionicons name="chevron-forward" size={20} color={COLORS_V2.text.tertiary} />
+                  <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
                 </View>
               </TouchableOpacity>
             );
@@ -363,10 +368,10 @@ export default function TasksScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS_V2.background.primary,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -375,7 +380,7 @@ const styles = StyleSheet.create({
   },
   loadingText: {
     ...TYPOGRAPHY.bodyLarge,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     marginTop: SPACING.md,
   },
   header: {
@@ -385,7 +390,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: SPACING.xl,
    paddingVertical: SPACING.lg,
   //  paddingVertical:2,
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
   },
   headerLeft: {
     flex: 1,
@@ -397,7 +402,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: COLORS_V2.background.secondary,
+    backgroundColor: colors.background,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -406,12 +411,12 @@ const styles = StyleSheet.create({
   },
   headerTitle: {
     ...TYPOGRAPHY.headlineMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
   },
   headerSubtitle: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     marginTop: 2,
   },
   addButton: {
@@ -424,7 +429,7 @@ const styles = StyleSheet.create({
     ...ELEVATION.md,
   },
   filterScrollView: {
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
   },
   filterContainer: {
     paddingHorizontal: SPACING.xl,
@@ -435,7 +440,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: SPACING.lg,
     paddingVertical: SPACING.md,
     borderRadius: RADIUS.full,
-    backgroundColor: COLORS_V2.background.secondary,
+    backgroundColor: colors.background,
     height: 44,
     justifyContent: 'center',
     alignItems: 'center',
@@ -446,12 +451,12 @@ const styles = StyleSheet.create({
   },
   filterText: {
     ...TYPOGRAPHY.labelMedium,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     fontWeight: '600',
     textAlign: 'center',
   },
   filterTextActive: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontWeight: '700',
   },
   listContent: {
@@ -459,13 +464,13 @@ const styles = StyleSheet.create({
     paddingBottom: 100,
     paddingBlock: SPACING.lg,},
   taskCard: {
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     marginBottom: SPACING.lg,
     overflow: 'hidden',
     ...ELEVATION.md,
     borderWidth: 1,
-    borderColor: COLORS_V2.background.secondary,
+    borderColor: colors.background,
     flexDirection: 'row',
     alignItems: 'center',
   },
@@ -490,14 +495,14 @@ const styles = StyleSheet.create({
   },
   taskTitle: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
     lineHeight: 22,
   },
   priorityBadge: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS_V2.error[50],
+    backgroundColor: colors.errorLight,
     paddingHorizontal: SPACING.sm,
     paddingVertical: SPACING.xs / 2,
     borderRadius: RADIUS.full,
@@ -505,7 +510,7 @@ const styles = StyleSheet.create({
     gap: 4,
   },
   mediumPriority: {
-    backgroundColor: COLORS_V2.warning[50],
+    backgroundColor: colors.warningLight,
   },
   priorityText: {
     ...TYPOGRAPHY.labelSmall,
@@ -526,7 +531,7 @@ const styles = StyleSheet.create({
   },
   taskDescription: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     lineHeight: 18,
   },
   taskFooter: {
@@ -557,21 +562,21 @@ const styles = StyleSheet.create({
   dueDateBadge: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS_V2.background.secondary,
+    backgroundColor: colors.background,
     paddingHorizontal: SPACING.sm,
     paddingVertical: SPACING.xs / 2,
     borderRadius: RADIUS.sm,
     gap: 4,
   },
   dueDateOverdue: {
-    backgroundColor: COLORS_V2.error[50],
+    backgroundColor: colors.errorLight,
   },
   dueDateCompleted: {
-    backgroundColor: COLORS_V2.success[50],
+    backgroundColor: colors.successLight,
   },
   dueDateText: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     fontWeight: '600',
     fontSize: 11,
   },
@@ -598,12 +603,12 @@ const styles = StyleSheet.create({
   },
   emptyTitle: {
     ...TYPOGRAPHY.titleLarge,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     marginBottom: SPACING.sm,
   },
   emptySubtitle: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     textAlign: 'center',
   },
 });
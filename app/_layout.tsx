@@ -1,7 +1,13 @@
 import { Stack } from "expo-router";
+import { StatusBar } from "expo-status-bar";
 import React, { useEffect } from "react";
 import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { ThemeColors } from "../constants/designSystem";
+import { LanguageProvider, useTranslation } from "../contexts/LanguageContext";
+import { StudySessionProvider } from "../contexts/StudySessionContext";
+import { ThemeProvider, useTheme, useThemedStyles } from "../contexts/ThemeContext";
 import { useNotificationInitialization } from "../hooks/useNotificationInitialization";
+import { startSync } from "../services/sync/syncService";
 import { errorTracker, setupGlobalErrorHandler } from "../utils/errorTracking";
 
 // ✅ CRITICAL FIX: Error Boundary to prevent app crashes
@@ -30,19 +36,10 @@ class ErrorBoundary extends React.Component<
   render() {
     if (this.state.hasError) {
       return (
-        <View style={errorStyles.container}>
-          <Text style={errorStyles.emoji}>😕</Text>
-          <Text style={errorStyles.title}>Oops! Something went wrong</Text>
-          <Text style={errorStyles.message}>
-            {this.state.error?.message || 'Unknown error occurred'}
-          </Text>
-          <TouchableOpacity
-            style={errorStyles.button}
-            onPress={() => this.setState({ hasError: false, error: null })}
-          >
-            <Text style={errorStyles.buttonText}>Try Again</Text>
-          </TouchableOpacity>
-        </View>
+        <ErrorFallback
+          error={this.state.error}
+          onRetry={() => this.setState({ hasError: false, error: null })}
+        />
       );
     }
 
@@ -50,13 +47,30 @@ class ErrorBoundary extends React.Component<
   }
 }
 
-const errorStyles = StyleSheet.create({
+function ErrorFallback({ error, onRetry }: { error: Error | null; onRetry: () => void }) {
+  const errorStyles = useThemedStyles(createErrorStyles);
+  const { t } = useTranslation();
+  return (
+    <View style={errorStyles.container}>
+      <Text style={errorStyles.emoji}>😕</Text>
+      <Text style={errorStyles.title}>{t('errorBoundary.title')}</Text>
+      <Text style={errorStyles.message}>
+        {error?.message || t('errorBoundary.unknown')}
+      </Text>
+      <TouchableOpacity style={errorStyles.button} onPress={onRetry}>
+        <Text style={errorStyles.buttonText}>{t('common.retry')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createErrorStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
-    backgroundColor: '#fff',
+    backgroundColor: colors.background,
   },
   emoji: {
     fontSize: 64,
@@ -66,34 +80,39 @@ const errorStyles = StyleSheet.create({
     fontSize: 20,
     fontWeight: '600',
     marginBottom: 8,
-    color: '#111',
+    color: colors.text,
   },
   message: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 24,
   },
   button: {
-    backgroundColor: '#6366F1',
+    backgroundColor: colors.primary,
     paddingHorizontal: 24,
     paddingVertical: 12,
     borderRadius: 8,
   },
   buttonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: '600',
   },
 });
 
 function RootLayoutContent() {
+  const { colors } = useTheme();
+
   // Initialize error tracking on app start
   useEffect(() => {
     errorTracker.initialize();
     setupGlobalErrorHandler();
   }, []);
 
+  // Replay changes made offline, now and on every reconnect
+  useEffect(() => startSync(), []);
+
   // Initialize notification system
   const { initialized, error } = useNotificationInitialization();
 
@@ -106,57 +125,138 @@ function RootLayoutContent() {
   }, [initialized, error]);
 
   return (
-    <Stack
-      screenOptions={{
-        headerShown: false,
-        gestureEnabled: false,
-        animation: 'fade',
-      }}
-    >
-      <Stack.Screen 
-        name="index" 
-        options={{ 
+    <>
+      {/* Screens with a gradient header set their own */}
+      <StatusBar style={colors.statusBar} />
+      <Stack
+        screenOptions={{
           headerShown: false,
           gestureEnabled: false,
-        }} 
-      />
-      <Stack.Screen 
-        name="(tabs)" 
-        options={{ 
-          headerShown: false,
-          gestureEnabled: false,
-        }} 
-      />
-      <Stack.Screen 
-        name="forgot-password" 
-        options={{ 
-          headerShown: false,
-          gestureEnabled: true,
-        }} 
-      />
-      <Stack.Screen 
-        name="notification-settings" 
-        options={{ 
-          headerShown: false,
-          gestureEnabled: true,
-        }} 
-      />
-      <Stack.Screen 
-        name="study-session" 
-        options={{ 
-          headerShown: false,
-          gestureEnabled: true,
-        }} 
-      />
-    </Stack>
+          animation: 'fade',
+          contentStyle: { backgroundColor: colors.background },
+        }}
+      >
+        <Stack.Screen 
+          name="index" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: false,
+          }} 
+        />
+        <Stack.Screen 
+          name="(tabs)" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: false,
+          }} 
+        />
+        <Stack.Screen 
+          name="forgot-password" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="notification-settings" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="study-session" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="study-log" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="reports" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="achievements" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="timetable-import" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="grades" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="course-materials" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="flashcards" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="flashcard-deck" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+        <Stack.Screen 
+          name="flashcard-review" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: false,
+          }} 
+        />
+        <Stack.Screen 
+          name="quiz" 
+          options={{ 
+            headerShown: false,
+            gestureEnabled: true,
+          }} 
+        />
+      </Stack>
+    </>
   );
 }
 
 // ✅ CRITICAL FIX: Wrap entire app in Error Boundary
 export default function RootLayout() {
   return (
-    <ErrorBoundary>
-      <RootLayoutContent />
-    </ErrorBoundary>
+    <ThemeProvider>
+      <LanguageProvider>
+        <ErrorBoundary>
+          <StudySessionProvider>
+            <RootLayoutContent />
+          </StudySessionProvider>
+        </ErrorBoundary>
+      </LanguageProvider>
+    </ThemeProvider>
   );
 }
@@ -0,0 +1,319 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { AchievementStats, getAchievementProgress } from '../services/achievementService';
+import { getCurrentUser } from '../services/authService';
+import { checkAchievements } from '../services/smartNotificationService';
+import { AchievementCategory, AchievementProgress } from '../types';
+
+const SECTIONS: AchievementCategory[] = ['streak', 'course_hours', 'early_completion', 'burnout_free'];
+
+function Badge({ item }: { item: AchievementProgress }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
+  const { definition, current, unlocked, unlockedAt } = item;
+  return (
+    <View style={[styles.badge, unlocked && styles.badgeUnlocked]}>
+      <Text style={[styles.badgeEmoji, !unlocked && styles.badgeEmojiLocked]}>{definition.emoji}</Text>
+      <Text style={[styles.badgeTitle, !unlocked && styles.badgeTitleLocked]} numberOfLines={2}>
+        {definition.title}
+      </Text>
+      <Text style={styles.badgeDescription} numberOfLines={2}>{definition.description}</Text>
+      {unlocked ? (
+        <View style={styles.unlockedRow}>
+          <Ionicons name="checkmark-circle" size={14} color={colors.success} />
+          <Text style={styles.unlockedText}>{unlockedAt
+              ? formatDate(unlockedAt, { month: 'short', day: 'numeric', year: 'numeric' })
+              : t('achievements.unlocked')}</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressBar, { width: `${(current / definition.target) * 100}%` }]} />
+          </View>
+          <Text style={styles.progressText}>
+            {t(`achievements.progress.${definition.category}`, { current, count: definition.target })}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+export default function AchievementsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [stats, setStats] = useState<AchievementStats | null>(null);
+  const [progress, setProgress] = useState<AchievementProgress[]>([]);
+
+  const loadAchievements = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      // Unlock and announce anything reached since the last check so the gallery agrees with the numbers
+      await checkAchievements(user.id);
+      const result = await getAchievementProgress(user.id);
+      setStats(result.stats);
+      setProgress(result.progress);
+    } catch (error) {
+      console.error('Failed to load achievements:', error);
+      Alert.alert(t('common.error'), t('achievements.loadFailed'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadAchievements();
+  }, [loadAchievements]);
+
+  const unlockedCount = progress.filter((item) => item.unlocked).length;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('achievements.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {loading || !stats ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadAchievements();
+              }}
+              tintColor={colors.primary}
+            />
+          }
+        >
+          {/* Summary */}
+          <View style={styles.summaryRow}>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>🔥 {stats.currentStreak}</Text>
+              <Text style={styles.summaryLabel}>{t('achievements.dayStreak')}</Text>
+              <Text style={styles.summaryHint}>{t('achievements.best', { count: stats.longestStreak })}</Text>
+            </View>
+            <View style={styles.summaryCard}>
+              <Text style={styles.summaryValue}>🏆 {unlockedCount}</Text>
+              <Text style={styles.summaryLabel}>{t('achievements.unlocked')}</Text>
+              <Text style={styles.summaryHint}>{t('achievements.unlockedOf', { count: progress.length })}</Text>
+            </View>
+          </View>
+
+          {SECTIONS.map((category) => {
+            // Unlocked first, then the closest to unlocking
+            const items = progress
+              .filter((item) => item.definition.category === category)
+              .sort((a, b) =>
+                a.unlocked !== b.unlocked
+                  ? (a.unlocked ? -1 : 1)
+                  : b.current / b.definition.target - a.current / a.definition.target
+              );
+
+            return (
+              <View key={category} style={styles.section}>
+                <Text style={styles.sectionTitle}>{t(`achievements.sections.${category}`)}</Text>
+                {items.length === 0 ? (
+                  <Text style={styles.sectionEmpty}>{t('achievements.sectionEmpty')}</Text>
+                ) : (
+                  <View style={styles.badgeGrid}>
+                    {items.map((item) => (
+                      <Badge key={item.definition.id} item={item} />
+                    ))}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  summaryValue: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  summaryHint: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 8,
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  sectionEmpty: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  badgeGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  badge: {
+    width: '48%',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  badgeUnlocked: {
+    borderColor: colors.success,
+  },
+  badgeEmoji: {
+    fontSize: 32,
+  },
+  badgeEmojiLocked: {
+    opacity: 0.3,
+  },
+  badgeTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 8,
+  },
+  badgeTitleLocked: {
+    color: colors.textSecondary,
+  },
+  badgeDescription: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  unlockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 10,
+  },
+  unlockedText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.success,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.border,
+    marginTop: 10,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+  },
+  progressText: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 6,
+  },
+});
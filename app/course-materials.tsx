@@ -0,0 +1,493 @@
+/**
+ * Course Materials Screen
+ * Add lecture PDFs and notes to a course so RAG chat can answer from them
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import {
+    COURSE_MATERIAL_MIME_TYPES,
+    CourseMaterial,
+    deleteCourseMaterial,
+    getCourseMaterials,
+    ingestCourseMaterial,
+    IngestionProgress,
+} from '../services/ai/courseMaterialService';
+import { getCurrentUser } from '../services/authService';
+import { getCourses } from '../services/courseServiceFirestore';
+import { Course } from '../types';
+
+const KIND_ICONS: Record<CourseMaterial['kind'], keyof typeof Ionicons.glyphMap> = {
+  pdf: 'document-text-outline',
+  markdown: 'logo-markdown',
+  text: 'reader-outline',
+};
+
+export default function CourseMaterialsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ courseId?: string }>();
+  const mountedRef = useRef(true);
+
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(params.courseId || null);
+  const [materials, setMaterials] = useState<CourseMaterial[]>([]);
+  const [ingesting, setIngesting] = useState<{ fileName: string; progress: IngestionProgress | null } | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      setUserId(user.id);
+      const [fetchedCourses, fetchedMaterials] = await Promise.all([
+        getCourses(user.id),
+        getCourseMaterials(user.id),
+      ]);
+      if (!mountedRef.current) return;
+      setCourses(fetchedCourses);
+      setMaterials(fetchedMaterials);
+      if (!params.courseId && fetchedCourses.length > 0) {
+        setSelectedCourseId(fetchedCourses[0].id);
+      }
+    } catch (error) {
+      console.error('Load course materials error:', error);
+      Alert.alert(t('common.error'), t('courseMaterials.loadFailed'));
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [router, params.courseId, t]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    loadData();
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [loadData]);
+
+  const selectedCourse = courses.find(c => c.id === selectedCourseId);
+  const courseMaterials = materials.filter(m => m.courseId === selectedCourseId);
+
+  const handleAddMaterial = async () => {
+    if (!userId || !selectedCourseId) return;
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: COURSE_MATERIAL_MIME_TYPES,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      setIngesting({ fileName: asset.name, progress: null });
+      const material = await ingestCourseMaterial(
+        userId,
+        selectedCourseId,
+        { uri: asset.uri, name: asset.name, mimeType: asset.mimeType },
+        {
+          onProgress: (progress) => {
+            if (mountedRef.current) setIngesting({ fileName: asset.name, progress });
+          },
+        }
+      );
+      if (!mountedRef.current) return;
+
+      setMaterials(await getCourseMaterials(userId));
+      const pages = material.pageCount ? t('courseMaterials.fromPages', { count: material.pageCount }) : '';
+      Alert.alert(
+        t('courseMaterials.addedTitle'),
+        t('courseMaterials.addedMessage', { title: material.title, count: material.chunkCount, pages })
+      );
+    } catch (error) {
+      console.error('Course material ingestion error:', error);
+      Alert.alert(
+        t('courseMaterials.addFailedTitle'),
+        error instanceof Error ? error.message : t('courseMaterials.tryAgain')
+      );
+    } finally {
+      if (mountedRef.current) setIngesting(null);
+    }
+  };
+
+  const handleDeleteMaterial = (material: CourseMaterial) => {
+    Alert.alert(t('courseMaterials.removeTitle'), t('courseMaterials.removeMessage', { title: material.title }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('courseMaterials.remove'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteCourseMaterial(material.id);
+            if (mountedRef.current) setMaterials(prev => prev.filter(m => m.id !== material.id));
+          } catch (error) {
+            console.error('Delete course material error:', error);
+            Alert.alert(t('common.error'), t('courseMaterials.removeFailed'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderMaterial = (material: CourseMaterial) => (
+    <View key={material.id} style={styles.card}>
+      <View style={styles.materialIcon}>
+        <Ionicons name={KIND_ICONS[material.kind]} size={22} color={colors.primary} />
+      </View>
+      <View style={styles.materialInfo}>
+        <Text style={styles.materialTitle} numberOfLines={1}>
+          {material.title}
+        </Text>
+        <Text style={styles.materialMeta} numberOfLines={1}>
+          {material.pageCount ? t('courseMaterials.pages', { count: material.pageCount }) : ''}
+          {t('courseMaterials.passages', { count: material.chunkCount, date: formatDate(new Date(material.createdAt)) })}
+        </Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => handleDeleteMaterial(material)}
+        style={styles.deleteButton}
+        disabled={!!ingesting}
+        accessibilityLabel={t('courseMaterials.removeLabel', { title: material.title })}
+        accessibilityRole="button"
+      >
+        <Ionicons name="trash-outline" size={20} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('courseMaterials.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <LinearGradient
+        colors={colors.headerGradient}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            accessibilityLabel={t('common.goBack')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerTitle}>
+            <Text style={styles.headerText}>{t('courseMaterials.title')}</Text>
+            <Text style={styles.headerSubtext} numberOfLines={1}>
+              {t('courseMaterials.subtitle')}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      {courses.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="school-outline" size={48} color={colors.textSecondary} />
+          <Text style={styles.emptyText}>{t('courseMaterials.noCourses')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+        >
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {courses.map(course => (
+              <TouchableOpacity
+                key={course.id}
+                style={[styles.chip, selectedCourseId === course.id && styles.chipActive]}
+                onPress={() => setSelectedCourseId(course.id)}
+                disabled={!!ingesting}
+              >
+                <Text style={[styles.chipText, selectedCourseId === course.id && styles.chipTextActive]}>
+                  {course.code}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {selectedCourse && (
+            <Text style={styles.summaryText}>
+              {t('courseMaterials.files', { name: selectedCourse.name, count: courseMaterials.length })}
+            </Text>
+          )}
+
+          {ingesting && (
+            <View style={styles.progressCard}>
+              <ActivityIndicator size="small" color={colors.primary} />
+              <View style={styles.materialInfo}>
+                <Text style={styles.materialTitle} numberOfLines={1}>
+                  {ingesting.fileName}
+                </Text>
+                <Text style={styles.materialMeta}>
+                  {ingesting.progress
+                    ? t('courseMaterials.indexing', {
+                        indexed: ingesting.progress.indexed,
+                        total: ingesting.progress.total,
+                      })
+                    : t('courseMaterials.reading')}
+                </Text>
+                {ingesting.progress && (
+                  <View style={styles.progressTrack}>
+                    <View
+                      style={[
+                        styles.progressFill,
+                        { width: `${Math.round((ingesting.progress.indexed / ingesting.progress.total) * 100)}%` },
+                      ]}
+                    />
+                  </View>
+                )}
+              </View>
+            </View>
+          )}
+
+          {courseMaterials.length === 0 && !ingesting ? (
+            <View style={styles.emptyCard}>
+              <Text style={styles.emptyText}>
+                {t('courseMaterials.empty')}
+              </Text>
+            </View>
+          ) : (
+            courseMaterials.map(renderMaterial)
+          )}
+        </ScrollView>
+      )}
+
+      {courses.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity onPress={handleAddMaterial} disabled={!!ingesting || !selectedCourseId}>
+            <LinearGradient
+              colors={ingesting || !selectedCourseId ? [colors.borderStrong, colors.textMuted] : [colors.primary, colors.secondary]}
+              style={styles.addButton}
+            >
+              {ingesting ? (
+                <ActivityIndicator color={colors.onPrimary} size="small" />
+              ) : (
+                <Text style={styles.addButtonText}>{t('courseMaterials.add')}</Text>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 50 : 40,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.onPrimary,
+    letterSpacing: 0.2,
+  },
+  headerSubtext: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  chipRow: {
+    gap: 6,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surface,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  progressCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.primary + '10',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: colors.primary,
+  },
+  materialIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  materialInfo: {
+    flex: 1,
+  },
+  materialTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  materialMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  deleteButton: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  emptyCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    backgroundColor: colors.card,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  addButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
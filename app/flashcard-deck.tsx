@@ -0,0 +1,532 @@
+/**
+ * Flashcard Deck Screen
+ * A deck's cards: add them by hand or generate them from session notes and
+ * course materials
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { CourseMaterial, getCourseMaterials } from '../services/ai/courseMaterialService';
+import { getCurrentUser } from '../services/authService';
+import {
+    createFlashcards,
+    deleteFlashcard,
+    generateFromMaterial,
+    generateFromSession,
+    getDecks,
+    getFlashcards,
+} from '../services/flashcardServiceFirestore';
+import { formatInterval, isDue } from '../services/spacedRepetition';
+import { getStudySessions } from '../services/studyServiceFirestore';
+import { Flashcard, FlashcardDeck, StudySession } from '../types';
+
+const MAX_SOURCES = 5;
+
+export default function FlashcardDeckScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ deckId: string }>();
+  const mountedRef = useRef(true);
+
+  const [loading, setLoading] = useState(true);
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [materials, setMaterials] = useState<CourseMaterial[]>([]);
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      const decks = await getDecks(user.id);
+      const found = decks.find(d => d.id === params.deckId);
+      if (!found) {
+        Alert.alert(t('flashcardDeck.notFoundTitle'), t('flashcardDeck.notFound'));
+        router.back();
+        return;
+      }
+
+      const [fetchedCards, fetchedSessions, fetchedMaterials] = await Promise.all([
+        getFlashcards(user.id, found.id),
+        getStudySessions(user.id),
+        getCourseMaterials(user.id, found.courseId),
+      ]);
+      if (!mountedRef.current) return;
+      setDeck(found);
+      setCards(fetchedCards);
+      setSessions(
+        fetchedSessions
+          .filter(s => s.courseId === found.courseId && s.notes?.trim() && !s.topic?.startsWith('Flashcards:'))
+          .slice(0, MAX_SOURCES)
+      );
+      setMaterials(fetchedMaterials.slice(0, MAX_SOURCES));
+    } catch (error) {
+      console.error('Load flashcard deck error:', error);
+      Alert.alert(t('common.error'), t('flashcardDeck.loadFailed'));
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [router, params.deckId, t]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const dueCount = cards.filter(card => isDue(card)).length;
+
+  const handleAddCard = async () => {
+    if (!deck || !front.trim() || !back.trim()) return;
+
+    setSaving(true);
+    try {
+      const created = await createFlashcards(deck, [{ front, back, source: 'manual' }]);
+      if (!mountedRef.current) return;
+      setCards(prev => [...prev, ...created]);
+      setFront('');
+      setBack('');
+    } catch (error) {
+      console.error('Add flashcard error:', error);
+      Alert.alert(t('common.error'), t('flashcardDeck.addFailed'));
+    } finally {
+      if (mountedRef.current) setSaving(false);
+    }
+  };
+
+  const runGeneration = async (
+    sourceId: string,
+    generate: () => Promise<{ cards: Flashcard[]; success: boolean }>
+  ) => {
+    setGeneratingId(sourceId);
+    try {
+      const result = await generate();
+      if (!mountedRef.current) return;
+      setCards(prev => [...prev, ...result.cards]);
+
+      if (result.cards.length === 0) {
+        Alert.alert(t('flashcardDeck.noCardsTitle'), t('flashcardDeck.noCards'));
+      } else {
+        Alert.alert(
+          t('flashcardDeck.cardsAddedTitle'),
+          t('flashcardDeck.cardsAdded', { count: result.cards.length }) +
+            (result.success ? '' : ` ${t('flashcardDeck.fallbackUsed')}`)
+        );
+      }
+    } catch (error) {
+      console.error('Generate flashcards error:', error);
+      Alert.alert(
+        t('flashcardDeck.generateFailedTitle'),
+        error instanceof Error ? error.message : t('flashcardDeck.tryAgain')
+      );
+    } finally {
+      if (mountedRef.current) setGeneratingId(null);
+    }
+  };
+
+  const handleDeleteCard = (card: Flashcard) => {
+    Alert.alert(t('flashcardDeck.deleteTitle'), t('flashcardDeck.deleteMessage', { front: card.front }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteFlashcard(card.id);
+            if (mountedRef.current) setCards(prev => prev.filter(c => c.id !== card.id));
+          } catch (error) {
+            console.error('Delete flashcard error:', error);
+            Alert.alert(t('common.error'), t('flashcardDeck.deleteFailed'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderSource = (
+    id: string,
+    icon: keyof typeof Ionicons.glyphMap,
+    title: string,
+    meta: string,
+    generate: () => Promise<{ cards: Flashcard[]; success: boolean }>
+  ) => (
+    <View key={id} style={styles.sourceRow}>
+      <Ionicons name={icon} size={18} color={colors.primary} />
+      <View style={styles.sourceInfo}>
+        <Text style={styles.sourceTitle} numberOfLines={1}>
+          {title}
+        </Text>
+        <Text style={styles.cardMeta} numberOfLines={1}>
+          {meta}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.generateButton}
+        onPress={() => runGeneration(id, generate)}
+        disabled={!!generatingId}
+        accessibilityLabel={t('flashcardDeck.generateFrom', { title })}
+        accessibilityRole="button"
+      >
+        {generatingId === id ? (
+          <ActivityIndicator color={colors.primary} size="small" />
+        ) : (
+          <Ionicons name="sparkles-outline" size={18} color={generatingId ? colors.textMuted : colors.primary} />
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderCard = (card: Flashcard) => (
+    <TouchableOpacity
+      key={card.id}
+      style={styles.card}
+      onLongPress={() => handleDeleteCard(card)}
+      accessibilityHint={t('flashcards.longPressDelete')}
+    >
+      <Text style={styles.cardFront}>{card.front}</Text>
+      <Text style={styles.cardBack}>{card.back}</Text>
+      <Text style={styles.cardMeta} numberOfLines={1}>
+        {isDue(card) ? t('flashcardDeck.dueNow') : t('flashcardDeck.dueIn', { interval: formatInterval(card) })}
+        {card.sourceLabel ? ` · ${card.sourceLabel}` : ''}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  if (loading || !deck) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('flashcardDeck.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <LinearGradient
+        colors={colors.headerGradient}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            accessibilityLabel={t('common.goBack')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerTitle}>
+            <Text style={styles.headerText} numberOfLines={1}>
+              {deck.name}
+            </Text>
+            <Text style={styles.headerSubtext} numberOfLines={1}>
+              {t('flashcardDeck.headerMeta', { count: cards.length, due: dueCount })}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Manual card */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('flashcardDeck.addCard')}</Text>
+          <TextInput
+            style={styles.input}
+            value={front}
+            onChangeText={setFront}
+            placeholder={t('flashcardDeck.question')}
+            placeholderTextColor={colors.textSecondary}
+            multiline
+          />
+          <TextInput
+            style={[styles.input, styles.answerInput]}
+            value={back}
+            onChangeText={setBack}
+            placeholder={t('flashcardDeck.answer')}
+            placeholderTextColor={colors.textSecondary}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.addButton, (!front.trim() || !back.trim() || saving) && styles.addButtonDisabled]}
+            onPress={handleAddCard}
+            disabled={!front.trim() || !back.trim() || saving}
+          >
+            {saving ? <ActivityIndicator color={colors.onPrimary} size="small" /> : <Text style={styles.addButtonText}>{t('flashcardDeck.addButton')}</Text>}
+          </TouchableOpacity>
+        </View>
+
+        {/* Generation sources */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('flashcardDeck.generateTitle')}</Text>
+          {sessions.length === 0 && materials.length === 0 ? (
+            <Text style={styles.emptyText}>{t('flashcardDeck.noSources')}</Text>
+          ) : (
+            <>
+              {sessions.map(session =>
+                renderSource(
+                  session.id,
+                  'time-outline',
+                  session.topic || t('flashcardDeck.studySession'),
+                  t('flashcardDeck.sessionNotes', { date: formatDate(session.date) }),
+                  () => generateFromSession(deck, session)
+                )
+              )}
+              {materials.map(material =>
+                renderSource(
+                  material.id,
+                  'document-text-outline',
+                  material.title,
+                  t('flashcardDeck.passages', { count: material.chunkCount }),
+                  () => generateFromMaterial(deck, material)
+                )
+              )}
+            </>
+          )}
+        </View>
+
+        <Text style={styles.listTitle}>{t('flashcardDeck.cards')}</Text>
+        {cards.length === 0 ? (
+          <Text style={styles.emptyText}>{t('flashcardDeck.noCardsYet')}</Text>
+        ) : (
+          cards.map(renderCard)
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          onPress={() => router.push(`/flashcard-review?deckId=${deck.id}` as any)}
+          disabled={dueCount === 0}
+        >
+          <LinearGradient
+            colors={dueCount === 0 ? [colors.borderStrong, colors.textMuted] : [colors.primary, colors.secondary]}
+            style={styles.reviewButton}
+          >
+            <Text style={styles.reviewButtonText}>
+              {dueCount === 0 ? t('flashcardDeck.nothingDue') : t('flashcardDeck.review', { count: dueCount })}
+            </Text>
+          </LinearGradient>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 50 : 40,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.onPrimary,
+    letterSpacing: 0.2,
+  },
+  headerSubtext: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  section: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: Platform.OS === 'ios' ? 10 : 8,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.background,
+  },
+  answerInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  addButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+  },
+  addButtonDisabled: {
+    backgroundColor: colors.borderStrong,
+  },
+  addButtonText: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  sourceInfo: {
+    flex: 1,
+  },
+  sourceTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  generateButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardFront: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  cardBack: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    backgroundColor: colors.card,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  reviewButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  reviewButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,451 @@
+/**
+ * Flashcard Review Screen
+ * Works through a deck's due cards; each answer reschedules the card, and
+ * the review is logged as a study session for the deck's course
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getCurrentUser } from '../services/authService';
+import {
+    getDecks,
+    getDueFlashcards,
+    recordReviewSession,
+    reviewFlashcard,
+    ReviewTally,
+} from '../services/flashcardServiceFirestore';
+import { FLASHCARD_RATINGS, previewIntervals } from '../services/spacedRepetition';
+import { Flashcard, FlashcardDeck, FlashcardRating } from '../types';
+
+const RATING_COLORS: Record<FlashcardRating, 'error' | 'warning' | 'success' | 'info'> = {
+  again: 'error',
+  hard: 'warning',
+  good: 'success',
+  easy: 'info',
+};
+
+export default function FlashcardReviewScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ deckId: string }>();
+  const mountedRef = useRef(true);
+  const tallyRef = useRef<ReviewTally>({ reviewed: 0, recalled: 0, startedAt: new Date(), endedAt: new Date() });
+  const recordedRef = useRef(false);
+
+  const [loading, setLoading] = useState(true);
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null);
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [revealed, setRevealed] = useState(false);
+  const [answering, setAnswering] = useState(false);
+  const [finished, setFinished] = useState<{ reviewed: number; recalled: number; minutes: number } | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      const [decks, dueCards] = await Promise.all([
+        getDecks(user.id),
+        getDueFlashcards(user.id, params.deckId),
+      ]);
+      const found = decks.find(d => d.id === params.deckId);
+      if (!found) {
+        Alert.alert(t('flashcardDeck.notFoundTitle'), t('flashcardDeck.notFound'));
+        router.back();
+        return;
+      }
+      if (!mountedRef.current) return;
+      setDeck(found);
+      setQueue(dueCards);
+      tallyRef.current.startedAt = new Date();
+    } catch (error) {
+      console.error('Load flashcard review error:', error);
+      Alert.alert(t('common.error'), t('flashcardReview.loadFailed'));
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [router, params.deckId, t]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    loadData();
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [loadData]);
+
+  /**
+   * Log the review once, however the screen is left
+   */
+  const recordSession = async () => {
+    if (!deck || recordedRef.current || tallyRef.current.reviewed === 0) return;
+    recordedRef.current = true;
+
+    const tally = { ...tallyRef.current, endedAt: new Date() };
+    try {
+      await recordReviewSession(deck, tally);
+    } catch (error) {
+      console.error('Record flashcard review error:', error);
+      recordedRef.current = false;
+      throw error;
+    }
+    if (mountedRef.current) {
+      setFinished({
+        reviewed: tally.reviewed,
+        recalled: tally.recalled,
+        minutes: Math.max(1, Math.round((tally.endedAt.getTime() - tally.startedAt.getTime()) / 60000)),
+      });
+    }
+  };
+
+  const handleAnswer = async (rating: FlashcardRating) => {
+    const card = queue[0];
+    if (!card || answering) return;
+
+    setAnswering(true);
+    try {
+      const updated = await reviewFlashcard(card, rating);
+      tallyRef.current.reviewed += 1;
+      if (rating !== 'again') tallyRef.current.recalled += 1;
+
+      // Forgotten cards come back at the end of this review
+      const rest = queue.slice(1);
+      const next = rating === 'again' ? [...rest, updated] : rest;
+      if (!mountedRef.current) return;
+      setQueue(next);
+      setRevealed(false);
+
+      if (next.length === 0) {
+        recordSession().catch(() =>
+          Alert.alert(t('flashcardReview.notLoggedTitle'), t('flashcardReview.notLogged'))
+        );
+      }
+    } catch (error) {
+      console.error('Flashcard answer error:', error);
+      Alert.alert(t('common.error'), t('flashcardReview.answerFailed'));
+    } finally {
+      if (mountedRef.current) setAnswering(false);
+    }
+  };
+
+  const handleExit = async () => {
+    try {
+      await recordSession();
+    } catch {
+      Alert.alert(t('flashcardReview.notLoggedTitle'), t('flashcardReview.notLogged'));
+    }
+    router.back();
+  };
+
+  if (loading || !deck) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('flashcardReview.loading')}</Text>
+      </View>
+    );
+  }
+
+  const card = queue[0];
+  const previews = card ? previewIntervals(card) : null;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <LinearGradient
+        colors={colors.headerGradient}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <TouchableOpacity
+            onPress={handleExit}
+            style={styles.backButton}
+            accessibilityLabel={t('flashcardReview.endReview')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="close" size={24} color={colors.onPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerTitle}>
+            <Text style={styles.headerText} numberOfLines={1}>
+              {deck.name}
+            </Text>
+            <Text style={styles.headerSubtext} numberOfLines={1}>
+              {card ? t('flashcardReview.left', { count: queue.length }) : t('flashcardReview.complete')}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      {!card ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="checkmark-done-circle-outline" size={56} color={colors.success} />
+          {finished ? (
+            <>
+              <Text style={styles.doneTitle}>{t('flashcardReview.niceWork')}</Text>
+              <Text style={styles.emptyText}>
+                {t('flashcardReview.summary', {
+                  count: finished.reviewed,
+                  percent: Math.round((finished.recalled / finished.reviewed) * 100),
+                  minutes: finished.minutes,
+                })}
+              </Text>
+            </>
+          ) : tallyRef.current.reviewed > 0 ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Text style={styles.emptyText}>{t('flashcardReview.nothingDue')}</Text>
+          )}
+          <TouchableOpacity style={styles.doneButton} onPress={() => router.back()}>
+            <Text style={styles.doneButtonText}>{t('flashcardReview.done')}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+            <TouchableOpacity
+              style={styles.card}
+              activeOpacity={0.9}
+              onPress={() => setRevealed(true)}
+              disabled={revealed}
+              accessibilityHint={t('flashcardReview.tapHint')}
+            >
+              <Text style={styles.cardFront}>{card.front}</Text>
+              {revealed ? (
+                <>
+                  <View style={styles.divider} />
+                  <Text style={styles.cardBack}>{card.back}</Text>
+                  {card.sourceLabel && <Text style={styles.cardSource}>{card.sourceLabel}</Text>}
+                </>
+              ) : (
+                <Text style={styles.tapHint}>{t('flashcardReview.tapToShow')}</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            {revealed && previews ? (
+              <View style={styles.ratingRow}>
+                {FLASHCARD_RATINGS.map(rating => (
+                  <TouchableOpacity
+                    key={rating}
+                    style={[styles.ratingButton, { backgroundColor: colors[RATING_COLORS[rating]] }]}
+                    onPress={() => handleAnswer(rating)}
+                    disabled={answering}
+                    accessibilityLabel={t('flashcardReview.ratingLabel', {
+                      rating: t(`flashcardReview.ratings.${rating}`),
+                      interval: previews[rating],
+                    })}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.ratingLabel}>{t(`flashcardReview.ratings.${rating}`)}</Text>
+                    <Text style={styles.ratingInterval}>{previews[rating]}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <TouchableOpacity onPress={() => setRevealed(true)}>
+                <LinearGradient colors={[colors.primary, colors.secondary]} style={styles.showButton}>
+                  <Text style={styles.showButtonText}>{t('flashcardReview.showAnswer')}</Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 50 : 40,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.onPrimary,
+    letterSpacing: 0.2,
+  },
+  headerSubtext: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 20,
+    padding: 24,
+    minHeight: 240,
+    justifyContent: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.08,
+        shadowRadius: 12,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  cardFront: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'center',
+    lineHeight: 28,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: colors.border,
+    marginVertical: 20,
+  },
+  cardBack: {
+    fontSize: 17,
+    color: colors.text,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  cardSource: {
+    fontSize: 12,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  tapHint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    backgroundColor: colors.card,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  ratingButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  ratingLabel: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  ratingInterval: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  showButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  showButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  doneTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  doneButton: {
+    marginTop: 8,
+    paddingHorizontal: 32,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+  },
+  doneButtonText: {
+    color: colors.onPrimary,
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,457 @@
+/**
+ * Flashcards Screen
+ * A course's flashcard decks with how many cards are due for review
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getCurrentUser } from '../services/authService';
+import { getCourses } from '../services/courseServiceFirestore';
+import { createDeck, deleteDeck, DeckSummary, getDeckSummaries } from '../services/flashcardServiceFirestore';
+import { Course } from '../types';
+
+export default function FlashcardsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ courseId?: string }>();
+  const mountedRef = useRef(true);
+
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(params.courseId || null);
+  const [summaries, setSummaries] = useState<DeckSummary[]>([]);
+  const [deckName, setDeckName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      setUserId(user.id);
+      const [fetchedCourses, fetchedSummaries] = await Promise.all([
+        getCourses(user.id),
+        getDeckSummaries(user.id),
+      ]);
+      if (!mountedRef.current) return;
+      setCourses(fetchedCourses);
+      setSummaries(fetchedSummaries);
+      setSelectedCourseId(prev => prev || fetchedCourses[0]?.id || null);
+    } catch (error) {
+      console.error('Load flashcards error:', error);
+      Alert.alert(t('common.error'), t('flashcards.loadFailed'));
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [router, t]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Due counts change after every review, so refresh whenever we come back
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const selectedCourse = courses.find(c => c.id === selectedCourseId);
+  const courseDecks = summaries.filter(s => s.deck.courseId === selectedCourseId);
+  const totalDue = summaries.reduce((sum, s) => sum + s.due, 0);
+
+  const handleCreateDeck = async () => {
+    if (!userId || !selectedCourseId || !deckName.trim()) return;
+
+    setCreating(true);
+    try {
+      const deck = await createDeck({ userId, courseId: selectedCourseId, name: deckName });
+      if (!mountedRef.current) return;
+      setSummaries(prev => [...prev, { deck, total: 0, due: 0, learned: 0 }]);
+      setDeckName('');
+      router.push(`/flashcard-deck?deckId=${deck.id}` as any);
+    } catch (error) {
+      console.error('Create deck error:', error);
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('flashcards.createFailed'));
+    } finally {
+      if (mountedRef.current) setCreating(false);
+    }
+  };
+
+  const handleDeleteDeck = (summary: DeckSummary) => {
+    Alert.alert(
+      t('flashcards.deleteTitle'),
+      t('flashcards.deleteMessage', { name: summary.deck.name, count: summary.total }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteDeck(summary.deck);
+              if (mountedRef.current) setSummaries(prev => prev.filter(s => s.deck.id !== summary.deck.id));
+            } catch (error) {
+              console.error('Delete deck error:', error);
+              Alert.alert(t('common.error'), t('flashcards.deleteFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDeck = (summary: DeckSummary) => (
+    <TouchableOpacity
+      key={summary.deck.id}
+      style={styles.card}
+      onPress={() => router.push(`/flashcard-deck?deckId=${summary.deck.id}` as any)}
+      onLongPress={() => handleDeleteDeck(summary)}
+      accessibilityRole="button"
+      accessibilityHint={t('flashcards.longPressDelete')}
+    >
+      <View style={styles.deckIcon}>
+        <Ionicons name="albums-outline" size={22} color={colors.primary} />
+      </View>
+      <View style={styles.deckInfo}>
+        <Text style={styles.deckTitle} numberOfLines={1}>
+          {summary.deck.name}
+        </Text>
+        <Text style={styles.deckMeta}>
+          {t('flashcards.deckMeta', { count: summary.total, learned: summary.learned })}
+        </Text>
+      </View>
+      {summary.due > 0 ? (
+        <TouchableOpacity
+          style={styles.dueBadge}
+          onPress={() => router.push(`/flashcard-review?deckId=${summary.deck.id}` as any)}
+          accessibilityLabel={t('flashcards.reviewDue', { count: summary.due })}
+          accessibilityRole="button"
+        >
+          <Text style={styles.dueText}>{t('flashcards.due', { count: summary.due })}</Text>
+        </TouchableOpacity>
+      ) : (
+        <Ionicons name="checkmark-circle" size={22} color={colors.success} />
+      )}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('flashcards.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <LinearGradient
+        colors={colors.headerGradient}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            accessibilityLabel={t('common.goBack')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerTitle}>
+            <Text style={styles.headerText}>{t('flashcards.title')}</Text>
+            <Text style={styles.headerSubtext} numberOfLines={1}>
+              {totalDue > 0 ? t('flashcards.dueForReview', { count: totalDue }) : t('flashcards.caughtUp')}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      {courses.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="school-outline" size={48} color={colors.textSecondary} />
+          <Text style={styles.emptyText}>{t('flashcards.noCourses')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {courses.map(course => {
+              const due = summaries
+                .filter(s => s.deck.courseId === course.id)
+                .reduce((sum, s) => sum + s.due, 0);
+              return (
+                <TouchableOpacity
+                  key={course.id}
+                  style={[styles.chip, selectedCourseId === course.id && styles.chipActive]}
+                  onPress={() => setSelectedCourseId(course.id)}
+                >
+                  <Text style={[styles.chipText, selectedCourseId === course.id && styles.chipTextActive]}>
+                    {course.code}
+                    {due > 0 ? ` · ${due}` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {selectedCourse && (
+            <Text style={styles.summaryText}>
+              {t('flashcards.deckCount', { name: selectedCourse.name, count: courseDecks.length })}
+            </Text>
+          )}
+
+          {courseDecks.length === 0 ? (
+            <View style={styles.emptyCard}>
+              <Text style={styles.emptyText}>{t('flashcards.noDecks')}</Text>
+            </View>
+          ) : (
+            courseDecks.map(renderDeck)
+          )}
+
+          <View style={styles.newDeckRow}>
+            <TextInput
+              style={styles.input}
+              value={deckName}
+              onChangeText={setDeckName}
+              placeholder={t('flashcards.newDeckPlaceholder')}
+              placeholderTextColor={colors.textSecondary}
+              returnKeyType="done"
+              onSubmitEditing={handleCreateDeck}
+              maxLength={100}
+            />
+            <TouchableOpacity
+              style={[styles.createButton, (!deckName.trim() || creating) && styles.createButtonDisabled]}
+              onPress={handleCreateDeck}
+              disabled={!deckName.trim() || creating}
+              accessibilityLabel={t('flashcards.createDeck')}
+              accessibilityRole="button"
+            >
+              {creating ? (
+                <ActivityIndicator color={colors.onPrimary} size="small" />
+              ) : (
+                <Ionicons name="add" size={22} color={colors.onPrimary} />
+              )}
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 50 : 40,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.onPrimary,
+    letterSpacing: 0.2,
+  },
+  headerSubtext: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  chipRow: {
+    gap: 6,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surface,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  deckIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  deckInfo: {
+    flex: 1,
+  },
+  deckTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  deckMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  dueBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+    marginLeft: 8,
+  },
+  dueText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.onPrimary,
+  },
+  newDeckRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: Platform.OS === 'ios' ? 10 : 8,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.card,
+  },
+  createButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  createButtonDisabled: {
+    backgroundColor: colors.borderStrong,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  emptyCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -16,10 +16,15 @@ import {
     View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { resetPassword } from '../services/authService';
 
 export default function ForgotPasswordScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const [email, setEmail] = useState('');
   const [loading, setLoading] = useState(false);
@@ -35,12 +40,12 @@ export default function ForgotPasswordScreen() {
     setError('');
 
     if (!email) {
-      setError('Please enter your email address');
+      setError(t('auth.errors.emailRequired'));
       return;
     }
 
     if (!validateEmail(email)) {
-      setError('Please enter a valid email address');
+      setError(t('auth.errors.invalidEmail'));
       return;
     }
 
@@ -50,11 +55,11 @@ export default function ForgotPasswordScreen() {
       setSuccess(true);
       
       Alert.alert(
-        'Email Sent! 📧',
-        `We've sent password reset instructions to ${email}.\n\nPlease check your inbox and spam folder.`,
+        t('auth.forgot.sentTitle'),
+        t('auth.forgot.sentMessage', { email }),
         [
           {
-            text: 'OK',
+            text: t('common.ok'),
             onPress: () => router.back(),
           },
         ]
@@ -63,13 +68,13 @@ export default function ForgotPasswordScreen() {
       console.error('Password reset error:', error);
 
       if (error?.code === 'auth/user-not-found') {
-        setError('No account found with this email address');
+        setError(t('auth.forgot.userNotFound'));
       } else if (error?.code === 'auth/invalid-email') {
-        setError('Invalid email address');
+        setError(t('auth.errors.badEmail'));
       } else if (error?.code === 'auth/too-many-requests') {
-        setError('Too many attempts. Please try again later.');
+        setError(t('auth.forgot.tooMany'));
       } else {
-        setError(error?.message || 'Failed to send reset email. Please try again.');
+        setError(error?.message || t('auth.forgot.sendFailed'));
       }
     } finally {
       setLoading(false);
@@ -79,7 +84,7 @@ export default function ForgotPasswordScreen() {
   return (
     <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
       <LinearGradient
-        colors={['#667eea', '#764ba2', '#f093fb']}
+        colors={colors.brandGradient}
         style={styles.gradientBackground}
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
@@ -97,14 +102,14 @@ export default function ForgotPasswordScreen() {
             style={styles.backButton}
             onPress={() => router.back()}
             accessible={true}
-            accessibilityLabel="Go back"
+            accessibilityLabel={t('common.goBack')}
             accessibilityRole="button"
-            accessibilityHint="Returns to the login screen"
+            accessibilityHint={t('auth.forgot.backHint')}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Reset Password</Text>
+          <Text style={styles.headerTitle}>{t('auth.forgot.title')}</Text>
           <View style={styles.headerSpacer} />
         </View>
 
@@ -117,20 +122,20 @@ export default function ForgotPasswordScreen() {
             {/* Icon */}
             <View style={styles.iconContainer}>
               <View style={styles.iconCircle}>
-                <Ionicons name="lock-open-outline" size={48} color={COLORS.primary} />
+                <Ionicons name="lock-open-outline" size={48} color={colors.primary} />
               </View>
             </View>
 
             {/* Title & Description */}
-            <Text style={styles.title}>Forgot Your Password?</Text>
+            <Text style={styles.title}>{t('auth.forgot.heading')}</Text>
             <Text style={styles.description}>
-              No worries! Enter your email address and we'll send you instructions to reset your password.
+              {t('auth.forgot.description')}
             </Text>
 
             {/* Error Message */}
             {error ? (
               <View style={styles.errorContainer}>
-                <Ionicons name="alert-circle" size={20} color={COLORS.error} style={{ marginRight: 8 }} />
+                <Ionicons name="alert-circle" size={20} color={colors.error} style={{ marginRight: 8 }} />
                 <Text style={styles.errorText}>{error}</Text>
               </View>
             ) : null}
@@ -138,24 +143,24 @@ export default function ForgotPasswordScreen() {
             {/* Success Message */}
             {success ? (
               <View style={styles.successContainer}>
-                <Ionicons name="checkmark-circle" size={20} color="#4caf50" style={{ marginRight: 8 }} />
-                <Text style={styles.successText}>Email sent successfully!</Text>
+                <Ionicons name="checkmark-circle" size={20} color={colors.success} style={{ marginRight: 8 }} />
+                <Text style={styles.successText}>{t('auth.forgot.sent')}</Text>
               </View>
             ) : null}
 
             {/* Form */}
             <View style={styles.form}>
-              <Text style={styles.label}>Email Address</Text>
+              <Text style={styles.label}>{t('auth.forgot.emailLabel')}</Text>
               <View style={styles.inputWrapper}>
                 <Ionicons 
                   name="mail-outline" 
                   size={20} 
-                  color={COLORS.textSecondary} 
+                  color={colors.textSecondary} 
                   style={styles.inputIcon} 
                 />
                 <TextInput
                   style={styles.input}
-                  placeholder="Enter your email"
+                  placeholder={t('auth.forgot.emailPlaceholder')}
                   value={email}
                   onChangeText={(text) => {
                     setEmail(text);
@@ -166,10 +171,10 @@ export default function ForgotPasswordScreen() {
                   autoCapitalize="none"
                   autoComplete="email"
                   editable={!loading}
-                  placeholderTextColor="#999"
+                  placeholderTextColor={colors.textMuted}
                   accessible={true}
-                  accessibilityLabel="Email input"
-                  accessibilityHint="Enter your email address to receive password reset instructions"
+                  accessibilityLabel={t('auth.emailLabel')}
+                  accessibilityHint={t('auth.forgot.emailHint')}
                 />
               </View>
             </View>
@@ -180,47 +185,47 @@ export default function ForgotPasswordScreen() {
               onPress={handleResetPassword}
               disabled={loading}
               accessible={true}
-              accessibilityLabel="Send reset link"
+              accessibilityLabel={t('auth.forgot.sendLabel')}
               accessibilityRole="button"
               accessibilityState={{ disabled: loading }}
             >
               <LinearGradient
-                colors={loading ? ['#999', '#999'] : [COLORS.primary, COLORS.secondary]}
+                colors={loading ? [colors.textMuted, colors.textMuted] : [colors.primary, colors.secondary]}
                 style={styles.buttonGradient}
                 start={{ x: 0, y: 0 }}
                 end={{ x: 1, y: 0 }}
               >
                 {loading ? (
-                  <ActivityIndicator color="#fff" />
+                  <ActivityIndicator color={colors.onPrimary} />
                 ) : (
-                  <Text style={styles.buttonText}>Send Reset Link</Text>
+                  <Text style={styles.buttonText}>{t('auth.forgot.send')}</Text>
                 )}
               </LinearGradient>
             </TouchableOpacity>
 
             {/* Help Text */}
             <View style={styles.helpContainer}>
-              <Ionicons name="information-circle-outline" size={18} color={COLORS.textSecondary} />
+              <Ionicons name="information-circle-outline" size={18} color={colors.textSecondary} />
               <Text style={styles.helpText}>
-                Remember your password?{' '}
+                {t('auth.forgot.remember')}{' '}
                 <Text
                   style={styles.helpLink}
                   onPress={() => router.back()}
                   accessible={true}
                   accessibilityRole="link"
                 >
-                  Sign In
+                  {t('auth.signIn')}
                 </Text>
               </Text>
             </View>
 
             {/* Security Info */}
             <View style={styles.infoCard}>
-              <Ionicons name="shield-checkmark-outline" size={24} color={COLORS.primary} />
+              <Ionicons name="shield-checkmark-outline" size={24} color={colors.primary} />
               <View style={styles.infoContent}>
-                <Text style={styles.infoTitle}>Secure Reset Process</Text>
+                <Text style={styles.infoTitle}>{t('auth.forgot.infoTitle')}</Text>
                 <Text style={styles.infoText}>
-                  The reset link will expire in 1 hour for your security. If you don't receive the email, check your spam folder.
+                  {t('auth.forgot.infoText')}
                 </Text>
               </View>
             </View>
@@ -231,10 +236,10 @@ export default function ForgotPasswordScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   safeArea: {
     flex: 1,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
   },
   gradientBackground: {
     position: 'absolute',
@@ -264,7 +269,7 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   headerSpacer: {
     width: 44,
@@ -286,10 +291,10 @@ const styles = StyleSheet.create({
     width: 96,
     height: 96,
     borderRadius: 48,
-    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    backgroundColor: colors.card,
     justifyContent: 'center',
     alignItems: 'center',
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 8 },
     shadowOpacity: 0.2,
     shadowRadius: 16,
@@ -298,7 +303,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 28,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
     textAlign: 'center',
     marginBottom: 12,
   },
@@ -311,33 +316,33 @@ const styles = StyleSheet.create({
     paddingHorizontal: 8,
   },
   errorContainer: {
-    backgroundColor: 'rgba(255, 235, 238, 0.95)',
+    backgroundColor: colors.errorLight,
     borderRadius: 12,
     padding: 14,
     marginBottom: 20,
     borderLeftWidth: 4,
-    borderLeftColor: COLORS.error,
+    borderLeftColor: colors.error,
     flexDirection: 'row',
     alignItems: 'center',
   },
   errorText: {
-    color: COLORS.error,
+    color: colors.error,
     fontSize: 14,
     flex: 1,
     fontWeight: '500',
   },
   successContainer: {
-    backgroundColor: 'rgba(237, 247, 237, 0.95)',
+    backgroundColor: colors.successLight,
     borderRadius: 12,
     padding: 14,
     marginBottom: 20,
     borderLeftWidth: 4,
-    borderLeftColor: '#4caf50',
+    borderLeftColor: colors.success,
     flexDirection: 'row',
     alignItems: 'center',
   },
   successText: {
-    color: '#2e7d32',
+    color: colors.success,
     fontSize: 14,
     flex: 1,
     fontWeight: '500',
@@ -348,17 +353,17 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#fff',
+    color: colors.onPrimary,
     marginBottom: 8,
   },
   inputWrapper: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    backgroundColor: colors.card,
     borderRadius: 12,
     paddingHorizontal: 14,
     minHeight: 56,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.1,
     shadowRadius: 8,
@@ -371,14 +376,14 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingVertical: 16,
     fontSize: 16,
-    color: COLORS.text,
+    color: colors.text,
     fontWeight: '500',
   },
   button: {
     marginBottom: 20,
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 6 },
     shadowOpacity: 0.3,
     shadowRadius: 12,
@@ -394,7 +399,7 @@ const styles = StyleSheet.create({
     minHeight: 56,
   },
   buttonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 17,
     fontWeight: 'bold',
     letterSpacing: 0.5,
@@ -411,7 +416,7 @@ const styles = StyleSheet.create({
     marginLeft: 6,
   },
   helpLink: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontWeight: 'bold',
     textDecorationLine: 'underline',
   },
@@ -431,7 +436,7 @@ const styles = StyleSheet.create({
   infoTitle: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#fff',
+    color: colors.onPrimary,
     marginBottom: 4,
   },
   infoText: {
@@ -0,0 +1,945 @@
+/**
+ * Grades Screen
+ * Course percentages, semester / cumulative GPA, assessment weights,
+ * a "what do I need on the final" calculator and the grade scale editor
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { GRADE_CONFIG } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getCurrentUser } from '../services/authService';
+import { updateCourse } from '../services/courseServiceFirestore';
+import {
+    calculateRequiredFinalScore,
+    getTaskWeights,
+    GRADED_TASK_TYPES,
+    hasScore,
+} from '../services/gradeCalculator';
+import {
+    getGradeOverview,
+    GradeOverview,
+    resetGradeScale,
+    saveGradeScale,
+} from '../services/gradeServiceFirestore';
+import { AssessmentWeights, Course, GradeBand, GradedTaskType } from '../types';
+
+interface ScaleRow {
+  letter: string;
+  minPercentage: string;
+  gradePoint: string;
+}
+
+const formatGpa = (gpa: number | null): string => (gpa === null ? '–' : gpa.toFixed(2));
+
+export default function GradesScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const mountedRef = useRef(true);
+
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [overview, setOverview] = useState<GradeOverview | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Course editor state (for the expanded course)
+  const [weightInputs, setWeightInputs] = useState<Record<GradedTaskType, string>>({
+    exam: '',
+    assignment: '',
+    quiz: '',
+    project: '',
+  });
+  const [semesterInput, setSemesterInput] = useState('');
+  const [savingCourse, setSavingCourse] = useState(false);
+  const [targetLetter, setTargetLetter] = useState<string | null>(null);
+  const [finalWeightInput, setFinalWeightInput] = useState('');
+
+  // Scale editor state
+  const [showScaleEditor, setShowScaleEditor] = useState(false);
+  const [scaleRows, setScaleRows] = useState<ScaleRow[]>([]);
+  const [savingScale, setSavingScale] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      setUserId(user.id);
+      const data = await getGradeOverview(user.id);
+      if (mountedRef.current) setOverview(data);
+    } catch (error) {
+      console.error('Load grades error:', error);
+      Alert.alert(t('common.error'), t('grades.loadFailed'));
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [router, t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      mountedRef.current = true;
+      loadData();
+      return () => {
+        mountedRef.current = false;
+      };
+    }, [loadData])
+  );
+
+  const toggleCourse = (course: Course) => {
+    if (expandedId === course.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(course.id);
+    setWeightInputs({
+      exam: course.assessmentWeights?.exam?.toString() || '',
+      assignment: course.assessmentWeights?.assignment?.toString() || '',
+      quiz: course.assessmentWeights?.quiz?.toString() || '',
+      project: course.assessmentWeights?.project?.toString() || '',
+    });
+    setSemesterInput(course.semester || '');
+    setTargetLetter(null);
+    setFinalWeightInput('');
+  };
+
+  const handleSaveCourse = async (course: Course) => {
+    if (!userId) return;
+
+    const weights: AssessmentWeights = {};
+    for (const type of GRADED_TASK_TYPES) {
+      const raw = weightInputs[type].trim();
+      if (!raw) continue;
+      const value = parseFloat(raw);
+      if (isNaN(value) || value < 0 || value > 100) {
+        Alert.alert(t('common.error'), t('grades.weightRange', { type: t(`grades.types.${type}`) }));
+        return;
+      }
+      weights[type] = value;
+    }
+
+    const total = Object.values(weights).reduce((sum, value) => sum + (value || 0), 0);
+    if (total > 0 && Math.abs(total - 100) > 0.01) {
+      Alert.alert(t('grades.checkWeightsTitle'), t('grades.checkWeights', { total }));
+      return;
+    }
+
+    try {
+      setSavingCourse(true);
+      await updateCourse(course.id, {
+        userId,
+        assessmentWeights: weights,
+        semester: semesterInput.trim(),
+      });
+      await loadData();
+    } catch (error) {
+      console.error('Save course grading error:', error);
+      Alert.alert(t('common.error'), t('grades.saveCourseFailed'));
+    } finally {
+      if (mountedRef.current) setSavingCourse(false);
+    }
+  };
+
+  const openScaleEditor = () => {
+    if (!overview) return;
+    setScaleRows(
+      overview.scale.map((band) => ({
+        letter: band.letter,
+        minPercentage: band.minPercentage.toString(),
+        gradePoint: band.gradePoint.toString(),
+      }))
+    );
+    setShowScaleEditor(true);
+  };
+
+  const updateScaleRow = (index: number, changes: Partial<ScaleRow>) => {
+    setScaleRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSaveScale = async () => {
+    if (!userId) return;
+
+    const bands: GradeBand[] = [];
+    for (const row of scaleRows) {
+      const minPercentage = parseFloat(row.minPercentage);
+      const gradePoint = parseFloat(row.gradePoint);
+      if (!row.letter.trim() || isNaN(minPercentage) || isNaN(gradePoint)) {
+        Alert.alert(t('common.error'), t('grades.bandIncomplete'));
+        return;
+      }
+      if (gradePoint < 0 || gradePoint > GRADE_CONFIG.maxGradePoint) {
+        Alert.alert(t('common.error'), t('grades.pointsRange', { max: GRADE_CONFIG.maxGradePoint }));
+        return;
+      }
+      bands.push({ letter: row.letter, minPercentage, gradePoint });
+    }
+
+    try {
+      setSavingScale(true);
+      await saveGradeScale(userId, bands);
+      setShowScaleEditor(false);
+      await loadData();
+    } catch (error) {
+      console.error('Save grade scale error:', error);
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('grades.saveScaleFailed'));
+    } finally {
+      if (mountedRef.current) setSavingScale(false);
+    }
+  };
+
+  const handleResetScale = () => {
+    if (!userId) return;
+    Alert.alert(t('grades.resetTitle'), t('grades.resetMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('grades.reset'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await resetGradeScale(userId);
+            setShowScaleEditor(false);
+            await loadData();
+          } catch (error) {
+            console.error('Reset grade scale error:', error);
+            Alert.alert(t('common.error'), t('grades.resetFailed'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderFinalCalculator = (course: Course) => {
+    if (!overview) return null;
+    const stats = overview.courseStats.get(course.id);
+    if (!stats) return null;
+
+    const band = overview.scale.find(b => b.letter === targetLetter);
+    const finalWeight = finalWeightInput ? parseFloat(finalWeightInput) : stats.remainingWeight;
+    const result =
+      band && !isNaN(finalWeight) ? calculateRequiredFinalScore(stats, band.minPercentage, finalWeight) : null;
+
+    return (
+      <View style={styles.subsection}>
+        <Text style={styles.subsectionTitle}>{t('grades.final.title')}</Text>
+        <View style={styles.chipRow}>
+          {overview.scale.map(b => (
+            <TouchableOpacity
+              key={b.letter}
+              style={[styles.chip, targetLetter === b.letter && styles.chipActive]}
+              onPress={() => setTargetLetter(b.letter)}
+            >
+              <Text style={[styles.chipText, targetLetter === b.letter && styles.chipTextActive]}>
+                {b.letter}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.inlineField}>
+          <Text style={styles.inlineLabel}>{t('grades.final.worth')}</Text>
+          <TextInput
+            style={[styles.input, styles.smallInput]}
+            value={finalWeightInput}
+            onChangeText={setFinalWeightInput}
+            placeholder={stats.remainingWeight.toString()}
+            placeholderTextColor={colors.textSecondary}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.inlineLabel}>{t('grades.final.ofGrade')}</Text>
+        </View>
+        {targetLetter && !result && (
+          <Text style={styles.hint}>{t('grades.final.nothingLeft')}</Text>
+        )}
+        {result && (
+          <View
+            style={[
+              styles.resultBox,
+              result.status === 'impossible' && styles.resultBoxBad,
+              result.status === 'secured' && styles.resultBoxGood,
+            ]}
+          >
+            <Text style={styles.resultText}>
+              {result.status === 'secured'
+                ? t('grades.final.secured', { letter: targetLetter ?? '' })
+                : result.status === 'impossible'
+                  ? t('grades.final.impossible', { letter: targetLetter ?? '', required: result.required })
+                  : t('grades.final.needed', { letter: targetLetter ?? '', required: result.required })}
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderCourse = (course: Course) => {
+    if (!overview) return null;
+    const stats = overview.courseStats.get(course.id);
+    const expanded = expandedId === course.id;
+    const weights = getTaskWeights(course, overview.tasks);
+    const gradedTasks = overview.tasks.filter(task => weights.has(task.id) && hasScore(task));
+
+    return (
+      <View key={course.id} style={styles.card}>
+        <TouchableOpacity
+          style={styles.courseHeader}
+          onPress={() => toggleCourse(course)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel={t('grades.courseDetails', { code: course.code })}
+        >
+          <View style={[styles.courseColor, { backgroundColor: course.color || colors.primary }]} />
+          <View style={styles.courseInfo}>
+            <Text style={styles.courseCode}>
+              {course.code}
+              {course.semester ? <Text style={styles.courseSemester}>  ·  {course.semester}</Text> : null}
+            </Text>
+            <Text style={styles.courseName} numberOfLines={1}>{course.name}</Text>
+            <Text style={styles.courseMeta}>
+              {stats && stats.gradedCount > 0
+                ? t('grades.courseMeta', { count: stats.gradedCount, weight: stats.gradedWeight })
+                : t('grades.noMarks')}
+            </Text>
+          </View>
+          <View style={styles.gradeBadge}>
+            <Text style={styles.gradeLetter}>{stats?.letter ?? '–'}</Text>
+            <Text style={styles.gradePercent}>
+              {stats?.percentage !== null && stats?.percentage !== undefined ? `${stats.percentage}%` : ''}
+            </Text>
+          </View>
+          <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={colors.textSecondary} />
+        </TouchableOpacity>
+
+        {expanded && (
+          <View style={styles.courseBody}>
+            {/* Graded tasks */}
+            <View style={styles.subsection}>
+              <Text style={styles.subsectionTitle}>{t('grades.marks')}</Text>
+              {gradedTasks.length === 0 ? (
+                <Text style={styles.hint}>{t('grades.marksHint')}</Text>
+              ) : (
+                gradedTasks.map(task => (
+                  <TouchableOpacity
+                    key={task.id}
+                    style={styles.markRow}
+                    onPress={() => router.push(`/tasks/${task.id}` as any)}
+                  >
+                    <Text style={styles.markTitle} numberOfLines={1}>{task.title}</Text>
+                    <Text style={styles.markScore}>{task.score}/{task.maxScore}</Text>
+                    <Text style={styles.markWeight}>{Math.round((weights.get(task.id) || 0) * 10) / 10}%</Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+
+            {/* Weights */}
+            <View style={styles.subsection}>
+              <Text style={styles.subsectionTitle}>{t('grades.weights')}</Text>
+              <View style={styles.weightGrid}>
+                {GRADED_TASK_TYPES.map(type => (
+                  <View key={type} style={styles.weightField}>
+                    <Text style={styles.weightLabel}>{t(`grades.types.${type}`)}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={weightInputs[type]}
+                      onChangeText={text => setWeightInputs(prev => ({ ...prev, [type]: text }))}
+                      placeholder="0"
+                      placeholderTextColor={colors.textSecondary}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                ))}
+              </View>
+              <Text style={styles.weightLabel}>{t('grades.semester')}</Text>
+              <TextInput
+                style={styles.input}
+                value={semesterInput}
+                onChangeText={setSemesterInput}
+                placeholder={t('grades.semesterPlaceholder')}
+                placeholderTextColor={colors.textSecondary}
+                autoCapitalize="characters"
+              />
+              <TouchableOpacity
+                style={[styles.saveButton, savingCourse && styles.buttonDisabled]}
+                onPress={() => handleSaveCourse(course)}
+                disabled={savingCourse}
+              >
+                {savingCourse ? (
+                  <ActivityIndicator size="small" color={colors.onPrimary} />
+                ) : (
+                  <Text style={styles.saveButtonText}>{t('grades.saveGrading')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            {renderFinalCalculator(course)}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('grades.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <LinearGradient
+        colors={colors.headerGradient}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            accessibilityLabel={t('common.goBack')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerTitle}>
+            <Text style={styles.headerText}>{t('grades.title')}</Text>
+            <Text style={styles.headerSubtext}>{t('grades.subtitle')}</Text>
+          </View>
+          <TouchableOpacity
+            onPress={openScaleEditor}
+            style={styles.headerAction}
+            accessibilityLabel={t('grades.editScale')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="options-outline" size={22} color={colors.onPrimary} />
+          </TouchableOpacity>
+        </View>
+
+        {overview && (
+          <View style={styles.gpaRow}>
+            <View style={styles.gpaCard}>
+              <Text style={styles.gpaValue}>{formatGpa(overview.gpa.semesterGpa)}</Text>
+              <Text style={styles.gpaLabel}>
+                {overview.gpa.semester
+                  ? t('grades.namedSemesterGpa', { semester: overview.gpa.semester })
+                  : t('grades.semesterGpa')}
+              </Text>
+              <Text style={styles.gpaCredits}>{t('grades.credits', { count: overview.gpa.semesterCredits })}</Text>
+            </View>
+            <View style={styles.gpaCard}>
+              <Text style={styles.gpaValue}>{formatGpa(overview.gpa.cumulativeGpa)}</Text>
+              <Text style={styles.gpaLabel}>{t('grades.cumulativeGpa')}</Text>
+              <Text style={styles.gpaCredits}>{t('grades.credits', { count: overview.gpa.totalCredits })}</Text>
+            </View>
+          </View>
+        )}
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {overview && overview.courses.length === 0 ? (
+          <Text style={styles.emptyText}>{t('grades.empty')}</Text>
+        ) : (
+          overview?.courses.map(renderCourse)
+        )}
+      </ScrollView>
+
+      {/* Grade Scale Editor */}
+      <Modal
+        visible={showScaleEditor}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowScaleEditor(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t('grades.scale.title')}</Text>
+              <TouchableOpacity onPress={() => setShowScaleEditor(false)}>
+                <Ionicons name="close" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.scaleHeaderRow}>
+              <Text style={[styles.scaleHeaderText, styles.scaleLetter]}>{t('grades.scale.grade')}</Text>
+              <Text style={[styles.scaleHeaderText, styles.scaleNumber]}>{t('grades.scale.minPercent')}</Text>
+              <Text style={[styles.scaleHeaderText, styles.scaleNumber]}>{t('grades.scale.points')}</Text>
+              <View style={styles.scaleRemove} />
+            </View>
+
+            <ScrollView style={styles.scaleList} keyboardShouldPersistTaps="handled">
+              {scaleRows.map((row, index) => (
+                <View key={index} style={styles.scaleRow}>
+                  <TextInput
+                    style={[styles.input, styles.scaleLetter]}
+                    value={row.letter}
+                    onChangeText={text => updateScaleRow(index, { letter: text })}
+                    maxLength={3}
+                    autoCapitalize="characters"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.scaleNumber]}
+                    value={row.minPercentage}
+                    onChangeText={text => updateScaleRow(index, { minPercentage: text })}
+                    keyboardType="decimal-pad"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.scaleNumber]}
+                    value={row.gradePoint}
+                    onChangeText={text => updateScaleRow(index, { gradePoint: text })}
+                    keyboardType="decimal-pad"
+                  />
+                  <TouchableOpacity
+                    style={styles.scaleRemove}
+                    onPress={() => setScaleRows(prev => prev.filter((_, i) => i !== index))}
+                    accessibilityLabel={t('grades.scale.remove', { letter: row.letter })}
+                  >
+                    <Ionicons name="remove-circle-outline" size={22} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity
+                style={styles.addRowButton}
+                onPress={() => setScaleRows(prev => [...prev, { letter: '', minPercentage: '', gradePoint: '' }])}
+              >
+                <Ionicons name="add" size={18} color={colors.primary} />
+                <Text style={styles.addRowText}>{t('grades.scale.add')}</Text>
+              </TouchableOpacity>
+            </ScrollView>
+
+            <View style={styles.modalActions}>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleResetScale}>
+                <Text style={styles.secondaryButtonText}>{t('grades.scale.resetDefault')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, styles.modalSave, savingScale && styles.buttonDisabled]}
+                onPress={handleSaveScale}
+                disabled={savingScale}
+              >
+                {savingScale ? (
+                  <ActivityIndicator size="small" color={colors.onPrimary} />
+                ) : (
+                  <Text style={styles.saveButtonText}>{t('grades.scale.save')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 50 : 40,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.onPrimary,
+    letterSpacing: 0.2,
+  },
+  headerSubtext: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  headerAction: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  gpaRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  gpaCard: {
+    flex: 1,
+    backgroundColor: 'rgba(255,255,255,0.18)',
+    borderRadius: 16,
+    padding: 14,
+    alignItems: 'center',
+  },
+  gpaValue: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: colors.onPrimary,
+  },
+  gpaLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.9)',
+    marginTop: 2,
+  },
+  gpaCredits: {
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.7)',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    marginBottom: 12,
+    overflow: 'hidden',
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  courseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    gap: 12,
+  },
+  courseColor: {
+    width: 6,
+    alignSelf: 'stretch',
+    borderRadius: 3,
+  },
+  courseInfo: {
+    flex: 1,
+  },
+  courseCode: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  courseSemester: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.textSecondary,
+  },
+  courseName: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 2,
+  },
+  courseMeta: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  gradeBadge: {
+    alignItems: 'center',
+    minWidth: 56,
+  },
+  gradeLetter: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: colors.primary,
+  },
+  gradePercent: {
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  courseBody: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingHorizontal: 14,
+    paddingBottom: 14,
+  },
+  subsection: {
+    marginTop: 14,
+  },
+  subsectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  markRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  markTitle: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text,
+  },
+  markScore: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+    marginLeft: 8,
+  },
+  markWeight: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    minWidth: 48,
+    textAlign: 'right',
+  },
+  weightGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginBottom: 10,
+  },
+  weightField: {
+    width: '47%',
+  },
+  weightLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: Platform.OS === 'ios' ? 10 : 8,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.background,
+  },
+  smallInput: {
+    width: 64,
+    textAlign: 'center',
+    marginHorizontal: 8,
+  },
+  inlineField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  inlineLabel: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surface,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+  },
+  resultBox: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary + '12',
+  },
+  resultBoxGood: {
+    backgroundColor: colors.success + '18',
+  },
+  resultBoxBad: {
+    backgroundColor: colors.error + '15',
+  },
+  resultText: {
+    fontSize: 14,
+    color: colors.text,
+    lineHeight: 20,
+  },
+  saveButton: {
+    marginTop: 12,
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    maxHeight: '85%',
+    backgroundColor: colors.card,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: Platform.OS === 'ios' ? 36 : 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  scaleHeaderRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 6,
+  },
+  scaleHeaderText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  scaleList: {
+    flexGrow: 0,
+  },
+  scaleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  scaleLetter: {
+    flex: 1,
+  },
+  scaleNumber: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  scaleRemove: {
+    width: 28,
+    alignItems: 'center',
+  },
+  addRowButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+  },
+  addRowText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  modalSave: {
+    flex: 1,
+  },
+});
@@ -18,13 +18,18 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { signIn, signUp } from '../services/authService';
 import { useGoogleAuth } from '../services/googleAuthService';
 
 const { width, height } = Dimensions.get('window');
 
 export default function LoginScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const { signInWithGoogle } = useGoogleAuth();
   const [googleLoading, setGoogleLoading] = useState(false);
@@ -49,12 +54,12 @@ export default function LoginScreen() {
     setError('');
 
     if (!email || !password) {
-      setError('Please fill in all fields');
+      setError(t('auth.errors.fillAll'));
       return;
     }
 
     if (!validateEmail(email)) {
-      setError('Please enter a valid email address');
+      setError(t('auth.errors.invalidEmail'));
       return;
     }
 
@@ -63,11 +68,11 @@ export default function LoginScreen() {
       const user = await signIn(email, password);
 
       Alert.alert(
-        'Welcome Back!',
-        `Welcome back, ${user.name}!`,
+        t('auth.welcomeBackTitle'),
+        t('auth.welcomeBackMessage', { name: user.name }),
         [
           {
-            text: 'OK',
+            text: t('common.ok'),
             onPress: () => router.push('/home'),
           },
         ]
@@ -76,15 +81,15 @@ export default function LoginScreen() {
       console.error('Login error:', error);
 
       if (error?.code === 'auth/invalid-credential') {
-        setError('Invalid email or password');
+        setError(t('auth.errors.invalidCredential'));
       } else if (error?.code === 'auth/user-not-found') {
-        setError('No account found with this email');
+        setError(t('auth.errors.userNotFound'));
       } else if (error?.code === 'auth/wrong-password') {
-        setError('Incorrect password');
+        setError(t('auth.errors.wrongPassword'));
       } else if (error?.code === 'auth/too-many-requests') {
-        setError('Too many failed attempts. Please try again later.');
+        setError(t('auth.errors.tooManyFailed'));
       } else {
-        setError(error?.message || 'Failed to sign in. Please try again.');
+        setError(error?.message || t('auth.errors.signInFailed'));
       }
     } finally {
       setLoading(false);
@@ -95,22 +100,22 @@ export default function LoginScreen() {
     setError('');
 
     if (!name || !email || !password || !confirmPassword) {
-      setError('Please fill in all fields');
+      setError(t('auth.errors.fillAll'));
       return;
     }
 
     if (!validateEmail(email)) {
-      setError('Please enter a valid email address');
+      setError(t('auth.errors.invalidEmail'));
       return;
     }
 
     if (password.length < 6) {
-      setError('Password must be at least 6 characters');
+      setError(t('auth.errors.passwordTooShort'));
       return;
     }
 
     if (password !== confirmPassword) {
-      setError('Passwords do not match');
+      setError(t('auth.errors.passwordMismatch'));
       return;
     }
 
@@ -119,11 +124,11 @@ export default function LoginScreen() {
       const user = await signUp(email, password, name);
 
       Alert.alert(
-        'Account Created!',
-        `Welcome to UniMate, ${user.name}! Let's get started.`,
+        t('auth.accountCreatedTitle'),
+        t('auth.accountCreatedMessage', { name: user.name }),
         [
           {
-            text: 'OK',
+            text: t('common.ok'),
             onPress: () => router.push('/home'),
           },
         ]
@@ -132,13 +137,13 @@ export default function LoginScreen() {
       console.error('Sign up error:', error);
 
       if (error?.code === 'auth/email-already-in-use') {
-        setError('An account with this email already exists');
+        setError(t('auth.errors.emailInUse'));
       } else if (error?.code === 'auth/weak-password') {
-        setError('Password is too weak. Please use a stronger password.');
+        setError(t('auth.errors.weakPassword'));
       } else if (error?.code === 'auth/invalid-email') {
-        setError('Invalid email address');
+        setError(t('auth.errors.badEmail'));
       } else {
-        setError(error?.message || 'Failed to create account. Please try again.');
+        setError(error?.message || t('auth.errors.signUpFailed'));
       }
     } finally {
       setLoading(false);
@@ -159,9 +164,9 @@ export default function LoginScreen() {
       }
 
       Alert.alert(
-        'Welcome!',
-        `Welcome ${isSignUpMode ? 'to UniMate' : 'back'}, ${user.name}!`,
-        [{ text: 'OK', onPress: () => router.push('/home') }]
+        t('auth.googleWelcomeTitle'),
+        t(isSignUpMode ? 'auth.googleWelcomeNew' : 'auth.welcomeBackMessage', { name: user.name }),
+        [{ text: t('common.ok'), onPress: () => router.push('/home') }]
       );
     } catch (error: any) {
       console.error('Google sign in error:', error);
@@ -171,13 +176,13 @@ export default function LoginScreen() {
         // User cancelled - don't show error message
         return;
       } else if (error?.code === 'auth/popup-blocked') {
-        setError('Popup was blocked. Please allow popups and try again.');
+        setError(t('auth.errors.popupBlocked'));
       } else if (error?.code === 'auth/network-request-failed') {
-        setError('Network error. Please check your connection.');
+        setError(t('auth.errors.network'));
       } else if (error?.code === 'auth/configuration-not-found') {
-        setError('Google Sign-In is not properly configured. Please contact support.');
+        setError(t('auth.errors.googleConfig'));
       } else {
-        setError('Failed to sign in with Google. Please try again.');
+        setError(t('auth.errors.googleFailed'));
       }
     } finally {
       setGoogleLoading(false);
@@ -192,7 +197,7 @@ export default function LoginScreen() {
     <SafeAreaView style={styles.safeArea} edges={['top', 'bottom']}>
       {/* Modern Gradient Background */}
       <LinearGradient
-        colors={['#667eea', '#764ba2', '#f093fb', '#ffecd2']}
+        colors={colors.brandGradient}
         style={styles.gradientBackground}
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
@@ -220,32 +225,32 @@ export default function LoginScreen() {
             <View style={styles.logoContainer}>
               <View style={styles.logoBadge}>
                 <LinearGradient
-                  colors={['#667eea', '#764ba2']}
+                  colors={[colors.brandGradient[0], colors.brandGradient[1]]}
                   style={styles.logoGradient}
                 >
-                  <Text style={styles.logoText} accessible={true} accessibilityLabel="UniMate logo">
+                  <Text style={styles.logoText} accessible={true} accessibilityLabel={t('auth.logoLabel')}>
                     🎓
                   </Text>
                 </LinearGradient>
               </View>
               <Text style={styles.appName}>UniMate</Text>
-              <Text style={styles.tagline}>Your AI-Powered Study Companion</Text>
+              <Text style={styles.tagline}>{t('auth.tagline')}</Text>
             </View>
 
             {/* Form Card - Enhanced */}
             <View style={styles.formCard}>
               <Text style={styles.title}>
-                {isSignUpMode ? 'Create Account' : 'Welcome Back'}
+                {isSignUpMode ? t('auth.createAccount') : t('auth.welcomeBack')}
               </Text>
               <Text style={styles.subtitle}>
                 {isSignUpMode
-                  ? 'Join thousands of students studying smarter'
-                  : 'Sign in to continue your learning journey'}
+                  ? t('auth.signUpSubtitle')
+                  : t('auth.signInSubtitle')}
               </Text>
 
               {error ? (
                 <View style={styles.errorContainer}>
-                  <Ionicons name="alert-circle" size={20} color={COLORS.error} style={{ marginRight: 8 }} />
+                  <Ionicons name="alert-circle" size={20} color={colors.error} style={{ marginRight: 8 }} />
                   <Text style={styles.errorText}>{error}</Text>
                 </View>
               ) : null}
@@ -253,75 +258,75 @@ export default function LoginScreen() {
               <View style={styles.form}>
                 {isSignUpMode && (
                   <View style={styles.inputContainer}>
-                    <Text style={styles.label}>Full Name *</Text>
+                    <Text style={styles.label}>{t('auth.fullName')}</Text>
                     <View style={styles.inputWrapper}>
-                      <Ionicons name="person-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+                      <Ionicons name="person-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
                       <TextInput
                         style={styles.input}
-                        placeholder="Enter your full name"
+                        placeholder={t('auth.fullNamePlaceholder')}
                         value={name}
                         onChangeText={setName}
                         autoCapitalize="words"
                         editable={!loading}
-                        placeholderTextColor="#999"
+                        placeholderTextColor={colors.textMuted}
                         accessible={true}
-                        accessibilityLabel="Full name input"
-                        accessibilityHint="Enter your full name for account creation"
+                        accessibilityLabel={t('auth.fullNameLabel')}
+                        accessibilityHint={t('auth.fullNameHint')}
                       />
                     </View>
                   </View>
                 )}
 
                 <View style={styles.inputContainer}>
-                  <Text style={styles.label}>Email *</Text>
+                  <Text style={styles.label}>{t('auth.email')}</Text>
                   <View style={styles.inputWrapper}>
-                    <Ionicons name="mail-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+                    <Ionicons name="mail-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
                     <TextInput
                       style={styles.input}
-                      placeholder="your.email@example.com"
+                      placeholder={t('auth.emailPlaceholder')}
                       value={email}
                       onChangeText={setEmail}
                       keyboardType="email-address"
                       autoCapitalize="none"
                       autoComplete="email"
                       editable={!loading}
-                      placeholderTextColor="#999"
+                      placeholderTextColor={colors.textMuted}
                       accessible={true}
-                      accessibilityLabel="Email input"
-                      accessibilityHint="Enter your email address"
+                      accessibilityLabel={t('auth.emailLabel')}
+                      accessibilityHint={t('auth.emailHint')}
                     />
                   </View>
                 </View>
 
                 <View style={styles.inputContainer}>
-                  <Text style={styles.label}>Password *</Text>
+                  <Text style={styles.label}>{t('auth.password')}</Text>
                   <View style={styles.inputWrapper}>
-                    <Ionicons name="lock-closed-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+                    <Ionicons name="lock-closed-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
                     <TextInput
                       style={styles.input}
-                      placeholder={isSignUpMode ? "Min. 6 characters" : "Enter your password"}
+                      placeholder={isSignUpMode ? t('auth.passwordPlaceholderNew') : t('auth.passwordPlaceholder')}
                       value={password}
                       onChangeText={setPassword}
                       secureTextEntry={!showPassword}
                       autoCapitalize="none"
                       editable={!loading}
-                      placeholderTextColor="#999"
+                      placeholderTextColor={colors.textMuted}
                       accessible={true}
-                      accessibilityLabel="Password input"
-                      accessibilityHint={isSignUpMode ? "Enter a password with at least 6 characters" : "Enter your password"}
+                      accessibilityLabel={t('auth.passwordLabel')}
+                      accessibilityHint={isSignUpMode ? t('auth.passwordHintNew') : t('auth.passwordHint')}
                     />
                     <TouchableOpacity
                       onPress={() => setShowPassword(!showPassword)}
                       style={styles.eyeIcon}
                       accessible={true}
-                      accessibilityLabel={showPassword ? "Hide password" : "Show password"}
+                      accessibilityLabel={showPassword ? t('auth.hidePassword') : t('auth.showPassword')}
                       accessibilityRole="button"
                       hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                     >
                       <Ionicons
                         name={showPassword ? "eye-outline" : "eye-off-outline"}
                         size={20}
-                        color={COLORS.textSecondary}
+                        color={colors.textSecondary}
                       />
                     </TouchableOpacity>
                   </View>
@@ -329,34 +334,34 @@ export default function LoginScreen() {
 
                 {isSignUpMode && (
                   <View style={styles.inputContainer}>
-                    <Text style={styles.label}>Confirm Password *</Text>
+                    <Text style={styles.label}>{t('auth.confirmPassword')}</Text>
                     <View style={styles.inputWrapper}>
-                      <Ionicons name="lock-closed-outline" size={20} color={COLORS.textSecondary} style={styles.inputIcon} />
+                      <Ionicons name="lock-closed-outline" size={20} color={colors.textSecondary} style={styles.inputIcon} />
                       <TextInput
                         style={styles.input}
-                        placeholder="Re-enter your password"
+                        placeholder={t('auth.confirmPlaceholder')}
                         value={confirmPassword}
                         onChangeText={setConfirmPassword}
                         secureTextEntry={!showConfirmPassword}
                         autoCapitalize="none"
                         editable={!loading}
-                        placeholderTextColor="#999"
+                        placeholderTextColor={colors.textMuted}
                         accessible={true}
-                        accessibilityLabel="Confirm password input"
-                        accessibilityHint="Re-enter your password to confirm"
+                        accessibilityLabel={t('auth.confirmLabel')}
+                        accessibilityHint={t('auth.confirmHint')}
                       />
                       <TouchableOpacity
                         onPress={() => setShowConfirmPassword(!showConfirmPassword)}
                         style={styles.eyeIcon}
                         accessible={true}
-                        accessibilityLabel={showConfirmPassword ? "Hide confirm password" : "Show confirm password"}
+                        accessibilityLabel={showConfirmPassword ? t('auth.hideConfirm') : t('auth.showConfirm')}
                         accessibilityRole="button"
                         hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                       >
                         <Ionicons
                           name={showConfirmPassword ? "eye-outline" : "eye-off-outline"}
                           size={20}
-                          color={COLORS.textSecondary}
+                          color={colors.textSecondary}
                         />
                       </TouchableOpacity>
                     </View>
@@ -369,12 +374,12 @@ export default function LoginScreen() {
                     onPress={handleForgotPassword}
                     disabled={loading}
                     accessible={true}
-                    accessibilityLabel="Forgot password"
+                    accessibilityLabel={t('auth.forgotLabel')}
                     accessibilityRole="button"
-                    accessibilityHint="Navigates to password reset screen"
+                    accessibilityHint={t('auth.forgotHint')}
                     hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                   >
-                    <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
+                    <Text style={styles.forgotPasswordText}>{t('auth.forgotPassword')}</Text>
                   </TouchableOpacity>
                 )}
 
@@ -383,21 +388,21 @@ export default function LoginScreen() {
                   onPress={isSignUpMode ? handleSignUp : handleSignIn}
                   disabled={loading}
                   accessible={true}
-                  accessibilityLabel={isSignUpMode ? 'Create account button' : 'Sign in button'}
+                  accessibilityLabel={isSignUpMode ? t('auth.createAccountButton') : t('auth.signInButton')}
                   accessibilityRole="button"
                   accessibilityState={{ disabled: loading }}
                 >
                   <LinearGradient
-                    colors={loading ? ['#999', '#999'] : ['#667eea', '#764ba2']}
+                    colors={loading ? [colors.textMuted, colors.textMuted] : [colors.primary, colors.secondary]}
                     style={styles.buttonGradient}
                     start={{ x: 0, y: 0 }}
                     end={{ x: 1, y: 0 }}
                   >
                     {loading ? (
-                      <ActivityIndicator color="#fff" />
+                      <ActivityIndicator color={colors.onPrimary} />
                     ) : (
                       <Text style={styles.buttonText}>
-                        {isSignUpMode ? 'Create Account' : 'Sign In'}
+                        {isSignUpMode ? t('auth.createAccount') : t('auth.signIn')}
                       </Text>
                     )}
                   </LinearGradient>
@@ -406,7 +411,7 @@ export default function LoginScreen() {
                 {/* Divider */}
                 <View style={styles.dividerContainer}>
                   <View style={styles.divider} />
-                  <Text style={styles.dividerText}>OR</Text>
+                  <Text style={styles.dividerText}>{t('auth.or')}</Text>
                   <View style={styles.divider} />
                 </View>
 
@@ -417,12 +422,12 @@ export default function LoginScreen() {
                   disabled={loading || googleLoading}
                   activeOpacity={0.7}
                   accessible={true}
-                  accessibilityLabel={isSignUpMode ? 'Sign up with Google' : 'Continue with Google'}
+                  accessibilityLabel={isSignUpMode ? t('auth.googleSignUp') : t('auth.googleContinue')}
                   accessibilityRole="button"
                   accessibilityState={{ disabled: loading || googleLoading }}
                 >
                   {googleLoading ? (
-                    <ActivityIndicator color="#5f6368" size="small" />
+                    <ActivityIndicator color={colors.textSecondary} size="small" />
                   ) : (
                     <>
                       <View style={styles.googleLogoContainer}>
@@ -433,7 +438,7 @@ export default function LoginScreen() {
                         />
                       </View>
                       <Text style={styles.googleButtonText}>
-                        {isSignUpMode ? 'Sign up with Google' : 'Continue with Google'}
+                        {isSignUpMode ? t('auth.googleSignUp') : t('auth.googleContinue')}
                       </Text>
                     </>
                   )}
@@ -441,7 +446,7 @@ export default function LoginScreen() {
 
                 <View style={styles.toggleContainer}>
                   <Text style={styles.toggleText}>
-                    {isSignUpMode ? 'Already have an account? ' : "Don't have an account? "}
+                    {isSignUpMode ? t('auth.haveAccount') : t('auth.noAccount')}
                   </Text>
                   <TouchableOpacity
                     onPress={() => {
@@ -454,12 +459,12 @@ export default function LoginScreen() {
                     }}
                     disabled={loading}
                     accessible={true}
-                    accessibilityLabel={isSignUpMode ? 'Switch to sign in' : 'Switch to sign up'}
+                    accessibilityLabel={isSignUpMode ? t('auth.switchToSignIn') : t('auth.switchToSignUp')}
                     accessibilityRole="button"
                     hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                   >
                     <Text style={styles.toggleLink}>
-                      {isSignUpMode ? 'Sign In' : 'Sign Up'}
+                      {isSignUpMode ? t('auth.signIn') : t('auth.signUp')}
                     </Text>
                   </TouchableOpacity>
                 </View>
@@ -468,28 +473,28 @@ export default function LoginScreen() {
 
             {/* Professional Value Proposition */}
             <View style={styles.valueProposition}>
-              <Text style={styles.valuePropTitle}>Trusted by students worldwide</Text>
+              <Text style={styles.valuePropTitle}>{t('auth.trusted')}</Text>
               
               <View style={styles.benefitsList}>
                 <View style={styles.benefitRow}>
-                  <Ionicons name="checkmark-circle" size={20} color="#4ade80" />
-                  <Text style={styles.benefitText}>AI-powered study assistance</Text>
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                  <Text style={styles.benefitText}>{t('auth.benefits.ai')}</Text>
                 </View>
                 <View style={styles.benefitRow}>
-                  <Ionicons name="checkmark-circle" size={20} color="#4ade80" />
-                  <Text style={styles.benefitText}>Smart progress tracking</Text>
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                  <Text style={styles.benefitText}>{t('auth.benefits.progress')}</Text>
                 </View>
                 <View style={styles.benefitRow}>
-                  <Ionicons name="checkmark-circle" size={20} color="#4ade80" />
-                  <Text style={styles.benefitText}>Personalized learning paths</Text>
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                  <Text style={styles.benefitText}>{t('auth.benefits.paths')}</Text>
                 </View>
               </View>
             </View>
 
             {/* Trust Badge */}
             <View style={styles.trustBadge}>
-              <Ionicons name="shield-checkmark" size={16} color="#4caf50" />
-              <Text style={styles.trustText}>Your data is encrypted & secure</Text>
+              <Ionicons name="shield-checkmark" size={16} color={colors.success} />
+              <Text style={styles.trustText}>{t('auth.secure')}</Text>
             </View>
           </View>
         </ScrollView>
@@ -498,10 +503,10 @@ export default function LoginScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   safeArea: {
     flex: 1,
-    backgroundColor: '#667eea',
+    backgroundColor: colors.primary,
   },
   gradientBackground: {
     position: 'absolute',
@@ -521,7 +526,7 @@ const styles = StyleSheet.create({
     width: 300,
     height: 300,
     borderRadius: 150,
-    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: colors.onPrimary + '1A',
     top: -100,
     right: -50,
   },
@@ -530,7 +535,7 @@ const styles = StyleSheet.create({
     width: 200,
     height: 200,
     borderRadius: 100,
-    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    backgroundColor: colors.onPrimary + '14',
     bottom: 100,
     left: -50,
   },
@@ -539,7 +544,7 @@ const styles = StyleSheet.create({
     width: 150,
     height: 150,
     borderRadius: 75,
-    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    backgroundColor: colors.onPrimary + '0F',
     bottom: 300,
     right: 50,
   },
@@ -560,16 +565,16 @@ const styles = StyleSheet.create({
     marginBottom: 20,
   },
   glassmorphicCard: {
-    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    backgroundColor: colors.card + 'B3',
     borderRadius: 20,
     padding: 20,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 10 },
     shadowOpacity: 0.15,
     shadowRadius: 20,
     elevation: 8,
     borderWidth: 1,
-    borderColor: 'rgba(255, 255, 255, 0.9)',
+    borderColor: colors.card + 'E6',
   },
   heroImage: {
     width: width * 0.6,
@@ -581,7 +586,7 @@ const styles = StyleSheet.create({
     marginBottom: 32,
   },
   logoBadge: {
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 8 },
     shadowOpacity: 0.3,
     shadowRadius: 16,
@@ -601,59 +606,59 @@ const styles = StyleSheet.create({
   appName: {
     fontSize: 32,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
     marginBottom: 8,
     letterSpacing: 0.5,
   },
   tagline: {
     fontSize: 15,
-    color: 'rgba(255, 255, 255, 0.9)',
+    color: colors.onPrimary + 'E6',
     fontWeight: '600',
   },
   formCard: {
-    backgroundColor: 'rgba(255, 255, 255, 0.98)',
+    backgroundColor: colors.card,
     borderRadius: 20,
     padding: 20,
     marginBottom: 20,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 8 },
     shadowOpacity: 0.15,
     shadowRadius: 16,
     elevation: 8,
     borderWidth: 1,
-    borderColor: 'rgba(255, 255, 255, 1)',
+    borderColor: colors.border,
   },
   title: {
     fontSize: 26,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
     textAlign: 'center',
   },
   subtitle: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginBottom: 20,
     textAlign: 'center',
     lineHeight: 20,
   },
   errorContainer: {
-    backgroundColor: '#ffebee',
+    backgroundColor: colors.errorLight,
     borderRadius: 12,
     padding: 14,
     marginBottom: 16,
     borderLeftWidth: 4,
-    borderLeftColor: COLORS.error,
+    borderLeftColor: colors.error,
     flexDirection: 'row',
     alignItems: 'center',
-    shadowColor: COLORS.error,
+    shadowColor: colors.error,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
     elevation: 2,
   },
   errorText: {
-    color: COLORS.error,
+    color: colors.error,
     fontSize: 14,
     flex: 1,
     fontWeight: '500',
@@ -667,16 +672,16 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
   },
   inputWrapper: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: '#ffffff',
+    backgroundColor: colors.card,
     borderRadius: 10,
     borderWidth: 1.5,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     paddingHorizontal: 12,
     minHeight: 48,
   },
@@ -687,7 +692,7 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingVertical: 12,
     fontSize: 15,
-    color: COLORS.text,
+    color: colors.text,
     fontWeight: '500',
   },
   eyeIcon: {
@@ -702,7 +707,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 4,
   },
   forgotPasswordText: {
-    color: COLORS.primary,
+    color: colors.primary,
     fontSize: 14,
     fontWeight: '600',
   },
@@ -711,7 +716,7 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: '#667eea',
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 6 },
     shadowOpacity: 0.4,
     shadowRadius: 12,
@@ -729,7 +734,7 @@ const styles = StyleSheet.create({
     minHeight: 50,
   },
   buttonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 17,
     fontWeight: 'bold',
     letterSpacing: 0.5,
@@ -742,12 +747,12 @@ const styles = StyleSheet.create({
   divider: {
     flex: 1,
     height: 1,
-    backgroundColor: '#e0e0e0',
+    backgroundColor: colors.border,
   },
   dividerText: {
     marginHorizontal: 16,
     fontSize: 13,
-    color: '#999',
+    color: colors.textMuted,
     fontWeight: '600',
     letterSpacing: 1,
   },
@@ -759,20 +764,20 @@ const styles = StyleSheet.create({
   },
   toggleText: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   toggleLink: {
     fontSize: 14,
-    color: COLORS.primary,
+    color: colors.primary,
     fontWeight: 'bold',
   },
   valueProposition: {
     marginTop: 24,
     marginBottom: 20,
-    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    backgroundColor: colors.card,
     borderRadius: 16,
     padding: 20,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.08,
     shadowRadius: 12,
@@ -781,7 +786,7 @@ const styles = StyleSheet.create({
   valuePropTitle: {
     fontSize: 14,
     fontWeight: '700',
-    color: COLORS.text,
+    color: colors.text,
     textAlign: 'center',
     marginBottom: 16,
     letterSpacing: 0.3,
@@ -796,7 +801,7 @@ const styles = StyleSheet.create({
   },
   benefitText: {
     fontSize: 14,
-    color: COLORS.text,
+    color: colors.text,
     fontWeight: '500',
     flex: 1,
     letterSpacing: 0.2,
@@ -805,7 +810,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    backgroundColor: colors.card,
     borderRadius: 20,
     paddingVertical: 8,
     paddingHorizontal: 16,
@@ -813,7 +818,7 @@ const styles = StyleSheet.create({
   },
   trustText: {
     fontSize: 12,
-    color: '#555',
+    color: colors.textSecondary,
     marginLeft: 6,
     fontWeight: '600',
   },
@@ -824,14 +829,14 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#ffffff',
+    backgroundColor: colors.card,
     borderRadius: 10,
     borderWidth: 1.5,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     paddingVertical: 12,
     paddingHorizontal: 24,
     marginBottom: 16,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.08,
     shadowRadius: 8,
@@ -852,7 +857,7 @@ const styles = StyleSheet.create({
   googleButtonText: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#3c4043',
+    color: colors.text,
     letterSpacing: 0.25,
   },
 });
@@ -4,6 +4,7 @@
  */
 
 import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
@@ -19,18 +20,26 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
-import { COLORS } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { getCurrentUser } from '../services/authService';
 import { notificationManager } from '../services/notificationManager';
 import { sendTestNotification } from '../services/smartNotificationService';
 import { NotificationSettings } from '../types/notification';
 
+const WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
 export default function NotificationSettingsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatTime, formatWeekday } = useTranslation();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [userId, setUserId] = useState<string>('');
   const [settings, setSettings] = useState<NotificationSettings | null>(null);
+  const [showSummaryTimePicker, setShowSummaryTimePicker] = useState(false);
 
   useEffect(() => {
     loadSettings();
@@ -49,7 +58,7 @@ export default function NotificationSettingsScreen() {
       setSettings(userSettings);
     } catch (error) {
       console.error('Failed to load settings:', error);
-      Alert.alert('Error', 'Failed to load notification settings');
+      Alert.alert(t('common.error'), t('notificationSettings.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -61,10 +70,10 @@ export default function NotificationSettingsScreen() {
     try {
       setSaving(true);
       await notificationManager.updateSettings(settings);
-      Alert.alert('Success', 'Notification settings saved!');
+      Alert.alert(t('common.success'), t('notificationSettings.saved'));
     } catch (error) {
       console.error('Failed to save settings:', error);
-      Alert.alert('Error', 'Failed to save settings');
+      Alert.alert(t('common.error'), t('notificationSettings.saveFailed'));
     } finally {
       setSaving(false);
     }
@@ -78,20 +87,27 @@ export default function NotificationSettingsScreen() {
     setSettings({ ...settings, [key]: value });
   };
 
+  const summaryTime = () => {
+    const [hours, minutes] = (settings?.weeklySummaryTime || '18:00').split(':').map(Number);
+    const date = new Date();
+    date.setHours(hours, minutes, 0, 0);
+    return date;
+  };
+
   const handleTestNotification = async () => {
     try {
       await sendTestNotification(userId);
-      Alert.alert('Test Sent!', 'Check your notifications 📱');
+      Alert.alert(t('notificationSettings.testSentTitle'), t('notificationSettings.testSent'));
     } catch (error) {
-      Alert.alert('Error', 'Failed to send test notification');
+      Alert.alert(t('common.error'), t('notificationSettings.testFailed'));
     }
   };
 
   if (loading || !settings) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
-        <Text style={styles.loadingText}>Loading settings...</Text>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('notificationSettings.loading')}</Text>
       </View>
     );
   }
@@ -102,33 +118,33 @@ export default function NotificationSettingsScreen() {
 
       {/* Header */}
       <LinearGradient
-        colors={['rgba(88,86,214,0.95)', 'rgba(108,99,255,0.95)']}
+        colors={colors.headerGradient}
         style={styles.header}
       >
         <View style={styles.headerContent}>
           <TouchableOpacity
             onPress={() => router.back()}
             style={styles.backButton}
-            accessibilityLabel="Go back"
+            accessibilityLabel={t('common.goBack')}
             accessibilityRole="button"
           >
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
           <View style={styles.headerTitle}>
-            <Text style={styles.headerText}>Notification Settings</Text>
-            <Text style={styles.headerSubtext}>Smart AI-powered alerts</Text>
+            <Text style={styles.headerText}>{t('notificationSettings.title')}</Text>
+            <Text style={styles.headerSubtext}>{t('notificationSettings.subtitle')}</Text>
           </View>
           <TouchableOpacity
             onPress={saveSettings}
             style={styles.saveButton}
             disabled={saving}
-            accessibilityLabel="Save settings"
+            accessibilityLabel={t('notificationSettings.saveLabel')}
             accessibilityRole="button"
           >
             {saving ? (
-              <ActivityIndicator size="small" color="#fff" />
+              <ActivityIndicator size="small" color={colors.onPrimary} />
             ) : (
-              <Ionicons name="checkmark" size={24} color="#fff" />
+              <Ionicons name="checkmark" size={24} color={colors.onPrimary} />
             )}
           </TouchableOpacity>
         </View>
@@ -139,37 +155,37 @@ export default function NotificationSettingsScreen() {
         <View style={styles.section}>
           <View style={styles.masterToggleCard}>
             <View style={styles.masterToggleIcon}>
-              <Ionicons name="notifications" size={28} color={COLORS.primary} />
+              <Ionicons name="notifications" size={28} color={colors.primary} />
             </View>
             <View style={styles.masterToggleContent}>
-              <Text style={styles.masterToggleTitle}>Enable Notifications</Text>
+              <Text style={styles.masterToggleTitle}>{t('notificationSettings.enable')}</Text>
               <Text style={styles.masterToggleSubtext}>
-                Receive smart alerts based on AI predictions
+                {t('notificationSettings.enableHint')}
               </Text>
             </View>
             <Switch
               value={settings.enabled}
               onValueChange={(value) => updateSetting('enabled', value)}
-              trackColor={{ false: '#D1D5DB', true: COLORS.primary + '40' }}
-              thumbColor={settings.enabled ? COLORS.primary : '#F3F4F6'}
-              ios_backgroundColor="#D1D5DB"
+              trackColor={{ false: colors.borderStrong, true: colors.primary + '40' }}
+              thumbColor={settings.enabled ? colors.primary : colors.surface}
+              ios_backgroundColor={colors.borderStrong}
             />
           </View>
         </View>
 
         {/* Notification Types */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>📊 Prediction Alerts</Text>
+          <Text style={styles.sectionTitle}>{t('notificationSettings.prediction.title')}</Text>
           <Text style={styles.sectionDescription}>
-            AI-powered notifications based on task analysis
+            {t('notificationSettings.prediction.description')}
           </Text>
 
           <View style={styles.card}>
             <SettingItem
               icon="alert-circle"
-              iconColor="#EF4444"
-              title="Deadline Alerts"
-              description="High-risk task warnings before deadlines"
+              iconColor={colors.error}
+              title={t('notificationSettings.deadline.title')}
+              description={t('notificationSettings.deadline.description')}
               value={settings.deadlineAlerts}
               onChange={(value) => updateSetting('deadlineAlerts', value)}
               disabled={!settings.enabled}
@@ -179,9 +195,9 @@ export default function NotificationSettingsScreen() {
             
             <SettingItem
               icon="bar-chart"
-              iconColor="#F59E0B"
-              title="Workload Warnings"
-              description="Alerts when you're overloaded"
+              iconColor={colors.warning}
+              title={t('notificationSettings.workload.title')}
+              description={t('notificationSettings.workload.description')}
               value={settings.overloadWarnings}
               onChange={(value) => updateSetting('overloadWarnings', value)}
               disabled={!settings.enabled}
@@ -191,9 +207,9 @@ export default function NotificationSettingsScreen() {
             
             <SettingItem
               icon="fitness"
-              iconColor="#EF4444"
-              title="Burnout Detection"
-              description="Alerts when performance drops significantly"
+              iconColor={colors.error}
+              title={t('notificationSettings.burnout.title')}
+              description={t('notificationSettings.burnout.description')}
               value={settings.burnoutWarnings}
               onChange={(value) => updateSetting('burnoutWarnings', value)}
               disabled={!settings.enabled}
@@ -203,17 +219,17 @@ export default function NotificationSettingsScreen() {
 
         {/* Productivity Features */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>💡 Productivity Tips</Text>
+          <Text style={styles.sectionTitle}>{t('notificationSettings.productivity.title')}</Text>
           <Text style={styles.sectionDescription}>
-            Helpful reminders and suggestions
+            {t('notificationSettings.productivity.description')}
           </Text>
 
           <View style={styles.card}>
             <SettingItem
               icon="bulb"
-              iconColor="#F59E0B"
-              title="Productivity Tips"
-              description="Smart suggestions for better focus"
+              iconColor={colors.warning}
+              title={t('notificationSettings.tips.title')}
+              description={t('notificationSettings.tips.description')}
               value={settings.productivityTips}
               onChange={(value) => updateSetting('productivityTips', value)}
               disabled={!settings.enabled}
@@ -223,9 +239,9 @@ export default function NotificationSettingsScreen() {
             
             <SettingItem
               icon="time"
-              iconColor="#3B82F6"
-              title="Peak Time Reminders"
-              description="ML-powered alerts during your most productive hours"
+              iconColor={colors.info}
+              title={t('notificationSettings.peakTime.title')}
+              description={t('notificationSettings.peakTime.description')}
               badge="ML"
               value={settings.peakTimeReminders}
               onChange={(value) => updateSetting('peakTimeReminders', value)}
@@ -236,9 +252,9 @@ export default function NotificationSettingsScreen() {
             
             <SettingItem
               icon="book"
-              iconColor="#8B5CF6"
-              title="Study Reminders"
-              description="Scheduled study session reminders"
+              iconColor={colors.secondary}
+              title={t('notificationSettings.study.title')}
+              description={t('notificationSettings.study.description')}
               value={settings.studyReminders}
               onChange={(value) => updateSetting('studyReminders', value)}
               disabled={!settings.enabled}
@@ -248,17 +264,17 @@ export default function NotificationSettingsScreen() {
 
         {/* Motivation */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>🎉 Motivation</Text>
+          <Text style={styles.sectionTitle}>{t('notificationSettings.motivation.title')}</Text>
           <Text style={styles.sectionDescription}>
-            Celebrate your achievements
+            {t('notificationSettings.motivation.description')}
           </Text>
 
           <View style={styles.card}>
             <SettingItem
               icon="trophy"
-              iconColor="#10B981"
-              title="Achievements"
-              description="Celebrate streaks and milestones"
+              iconColor={colors.success}
+              title={t('notificationSettings.achievements.title')}
+              description={t('notificationSettings.achievements.description')}
               value={settings.achievements}
               onChange={(value) => updateSetting('achievements', value)}
               disabled={!settings.enabled}
@@ -268,28 +284,87 @@ export default function NotificationSettingsScreen() {
             
             <SettingItem
               icon="stats-chart"
-              iconColor="#3B82F6"
-              title="Weekly Summary"
-              description="Performance trends every Sunday"
+              iconColor={colors.info}
+              title={t('notificationSettings.weeklySummary.title')}
+              description={t('notificationSettings.weeklySummary.description', {
+                day: formatWeekday(settings.weeklySummaryDay, 'long'),
+                time: formatTime(summaryTime()),
+              })}
               value={settings.weeklySummary}
               onChange={(value) => updateSetting('weeklySummary', value)}
               disabled={!settings.enabled}
             />
+
+            {settings.enabled && settings.weeklySummary && (
+              <View style={styles.scheduleRow}>
+                <View style={styles.dayChips}>
+                  {WEEK_DAYS.map(day => (
+                    <TouchableOpacity
+                      key={day}
+                      style={[styles.dayChip, settings.weeklySummaryDay === day && styles.dayChipSelected]}
+                      onPress={() => updateSetting('weeklySummaryDay', day)}
+                      accessibilityLabel={t('notificationSettings.sendOn', { day: formatWeekday(day, 'long') })}
+                      accessibilityRole="button"
+                    >
+                      <Text style={[styles.dayChipText, settings.weeklySummaryDay === day && styles.dayChipTextSelected]}>
+                        {formatWeekday(day, 'narrow')}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TouchableOpacity style={styles.timeButton} onPress={() => setShowSummaryTimePicker(true)}>
+                  <Ionicons name="time-outline" size={16} color={colors.primary} />
+                  <Text style={styles.settingValue}>{formatTime(summaryTime())}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {showSummaryTimePicker && (
+              <DateTimePicker
+                value={summaryTime()}
+                mode="time"
+                display="default"
+                onChange={(event, selectedDate) => {
+                  setShowSummaryTimePicker(Platform.OS === 'ios');
+                  if (selectedDate) {
+                    updateSetting(
+                      'weeklySummaryTime',
+                      `${String(selectedDate.getHours()).padStart(2, '0')}:${String(selectedDate.getMinutes()).padStart(2, '0')}`
+                    );
+                  }
+                }}
+              />
+            )}
+
+            <View style={styles.divider} />
+
+            <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/reports')}>
+              <View style={styles.settingLeft}>
+                <View style={[styles.iconContainer, { backgroundColor: colors.info + '20' }]}>
+                  <Ionicons name="bar-chart" size={20} color={colors.info} />
+                </View>
+                <View style={styles.settingText}>
+                  <Text style={styles.settingTitle}>{t('notificationSettings.reports.title')}</Text>
+                  <Text style={styles.settingDescription}>{t('notificationSettings.reports.description')}</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
+            </TouchableOpacity>
           </View>
         </View>
 
         {/* Quiet Hours */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>🌙 Quiet Hours</Text>
+          <Text style={styles.sectionTitle}>{t('notificationSettings.quietHours.title')}</Text>
           <Text style={styles.sectionDescription}>
-            Don't disturb during these hours (critical alerts only)
+            {t('notificationSettings.quietHours.description')}
           </Text>
 
           <View style={styles.card}>
             <SettingItem
               icon="moon"
-              iconColor="#6366F1"
-              title="Enable Quiet Hours"
+              iconColor={colors.primary}
+              title={t('notificationSettings.quietHours.enable')}
               description={`${settings.quietHoursStart} - ${settings.quietHoursEnd}`}
               value={settings.quietHoursEnabled}
               onChange={(value) => updateSetting('quietHoursEnabled', value)}
@@ -300,17 +375,17 @@ export default function NotificationSettingsScreen() {
 
         {/* Rate Limiting */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>⚙️ Advanced Settings</Text>
+          <Text style={styles.sectionTitle}>{t('notificationSettings.advanced')}</Text>
 
           <View style={styles.card}>
             <View style={styles.settingItem}>
               <View style={styles.settingLeft}>
-                <View style={[styles.iconContainer, { backgroundColor: '#DBEAFE' }]}>
-                  <Ionicons name="speedometer" size={20} color="#3B82F6" />
+                <View style={[styles.iconContainer, { backgroundColor: colors.infoLight }]}>
+                  <Ionicons name="speedometer" size={20} color={colors.info} />
                 </View>
                 <View style={styles.settingText}>
-                  <Text style={styles.settingTitle}>Max Notifications/Day</Text>
-                  <Text style={styles.settingDescription}>Currently: {settings.maxNotificationsPerDay}</Text>
+                  <Text style={styles.settingTitle}>{t('notificationSettings.maxPerDay')}</Text>
+                  <Text style={styles.settingDescription}>{t('notificationSettings.current', { value: settings.maxNotificationsPerDay })}</Text>
                 </View>
               </View>
               <Text style={styles.settingValue}>{settings.maxNotificationsPerDay}</Text>
@@ -320,31 +395,31 @@ export default function NotificationSettingsScreen() {
             
             <View style={styles.settingItem}>
               <View style={styles.settingLeft}>
-                <View style={[styles.iconContainer, { backgroundColor: '#FEF3C7' }]}>
-                  <Ionicons name="timer" size={20} color="#F59E0B" />
+                <View style={[styles.iconContainer, { backgroundColor: colors.warningLight }]}>
+                  <Ionicons name="timer" size={20} color={colors.warning} />
                 </View>
                 <View style={styles.settingText}>
-                  <Text style={styles.settingTitle}>Min Time Between</Text>
+                  <Text style={styles.settingTitle}>{t('notificationSettings.minBetween')}</Text>
                   <Text style={styles.settingDescription}>
-                    Currently: {settings.minTimeBetweenNotifications} minutes
+                    {t('notificationSettings.currentMinutes', { count: settings.minTimeBetweenNotifications })}
                   </Text>
                 </View>
               </View>
-              <Text style={styles.settingValue}>{settings.minTimeBetweenNotifications}m</Text>
+              <Text style={styles.settingValue}>{t('notificationSettings.minutesShort', { count: settings.minTimeBetweenNotifications })}</Text>
             </View>
           </View>
         </View>
 
         {/* Sound & Haptics */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>🔊 Sound & Haptics</Text>
+          <Text style={styles.sectionTitle}>{t('notificationSettings.soundSection')}</Text>
 
           <View style={styles.card}>
             <SettingItem
               icon="volume-high"
-              iconColor="#8B5CF6"
-              title="Sound"
-              description="Play notification sounds"
+              iconColor={colors.secondary}
+              title={t('notificationSettings.sound.title')}
+              description={t('notificationSettings.sound.description')}
               value={settings.soundEnabled}
               onChange={(value) => updateSetting('soundEnabled', value)}
               disabled={!settings.enabled}
@@ -354,9 +429,9 @@ export default function NotificationSettingsScreen() {
             
             <SettingItem
               icon="phone-portrait"
-              iconColor="#EC4899"
-              title="Vibration"
-              description="Vibrate for notifications"
+              iconColor={colors.accent}
+              title={t('notificationSettings.vibration.title')}
+              description={t('notificationSettings.vibration.description')}
               value={settings.vibrationEnabled}
               onChange={(value) => updateSetting('vibrationEnabled', value)}
               disabled={!settings.enabled}
@@ -372,8 +447,8 @@ export default function NotificationSettingsScreen() {
             disabled={!settings.enabled}
             activeOpacity={0.7}
           >
-            <Ionicons name="flask" size={20} color="#fff" style={styles.testButtonIcon} />
-            <Text style={styles.testButtonText}>Send Test Notification</Text>
+            <Ionicons name="flask" size={20} color={colors.onPrimary} style={styles.testButtonIcon} />
+            <Text style={styles.testButtonText}>{t('notificationSettings.sendTest')}</Text>
           </TouchableOpacity>
         </View>
 
@@ -404,6 +479,8 @@ function SettingItem({
   disabled = false,
   badge,
 }: SettingItemProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.settingItem}>
       <View style={styles.settingLeft}>
@@ -428,29 +505,29 @@ function SettingItem({
         value={value}
         onValueChange={onChange}
         disabled={disabled}
-        trackColor={{ false: '#D1D5DB', true: COLORS.primary + '40' }}
-        thumbColor={value ? COLORS.primary : '#F3F4F6'}
-        ios_backgroundColor="#D1D5DB"
+        trackColor={{ false: colors.borderStrong, true: colors.primary + '40' }}
+        thumbColor={value ? colors.primary : colors.surface}
+        ios_backgroundColor={colors.borderStrong}
       />
     </View>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.background,
   },
   loadingText: {
     marginTop: 12,
     fontSize: 14,
-    color: '#6B7280',
+    color: colors.textSecondary,
   },
   header: {
     paddingTop: Platform.OS === 'ios' ? 50 : 40,
@@ -475,7 +552,7 @@ const styles = StyleSheet.create({
   headerText: {
     fontSize: 20,
     fontWeight: '700',
-    color: '#fff',
+    color: colors.onPrimary,
     letterSpacing: 0.2,
   },
   headerSubtext: {
@@ -502,22 +579,22 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: 16,
     fontWeight: '700',
-    color: '#1F2937',
+    color: colors.text,
     marginBottom: 4,
   },
   sectionDescription: {
     fontSize: 13,
-    color: '#6B7280',
+    color: colors.textSecondary,
     marginBottom: 12,
     lineHeight: 18,
   },
   card: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.card,
     borderRadius: 16,
     padding: 4,
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: 2 },
         shadowOpacity: 0.05,
         shadowRadius: 8,
@@ -528,14 +605,14 @@ const styles = StyleSheet.create({
     }),
   },
   masterToggleCard: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.card,
     borderRadius: 16,
     padding: 16,
     flexDirection: 'row',
     alignItems: 'center',
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: 2 },
         shadowOpacity: 0.1,
         shadowRadius: 8,
@@ -549,7 +626,7 @@ const styles = StyleSheet.create({
     width: 48,
     height: 48,
     borderRadius: 24,
-    backgroundColor: COLORS.primary + '20',
+    backgroundColor: colors.primary + '20',
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -560,12 +637,12 @@ const styles = StyleSheet.create({
   masterToggleTitle: {
     fontSize: 17,
     fontWeight: '700',
-    color: '#1F2937',
+    color: colors.text,
     marginBottom: 2,
   },
   masterToggleSubtext: {
     fontSize: 13,
-    color: '#6B7280',
+    color: colors.textSecondary,
     lineHeight: 18,
   },
   settingItem: {
@@ -600,21 +677,21 @@ const styles = StyleSheet.create({
   settingTitle: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#1F2937',
+    color: colors.text,
     marginBottom: 2,
   },
   settingDescription: {
     fontSize: 12,
-    color: '#6B7280',
+    color: colors.textSecondary,
     lineHeight: 16,
   },
   settingValue: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.primary,
+    color: colors.primary,
   },
   badge: {
-    backgroundColor: '#DBEAFE',
+    backgroundColor: colors.infoLight,
     paddingHorizontal: 8,
     paddingVertical: 2,
     borderRadius: 8,
@@ -622,18 +699,58 @@ const styles = StyleSheet.create({
   badgeText: {
     fontSize: 10,
     fontWeight: '600',
-    color: '#3B82F6',
+    color: colors.info,
   },
   disabledText: {
     opacity: 0.4,
   },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    marginLeft: 52,
+  },
+  dayChips: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  dayChip: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayChipSelected: {
+    backgroundColor: colors.primary,
+  },
+  dayChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  dayChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  timeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.primary + '10',
+  },
   divider: {
     height: 1,
-    backgroundColor: '#F3F4F6',
+    backgroundColor: colors.surface,
     marginLeft: 64,
   },
   testButton: {
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
     borderRadius: 12,
     paddingVertical: 14,
     flexDirection: 'row',
@@ -641,7 +758,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     ...Platform.select({
       ios: {
-        shadowColor: COLORS.primary,
+        shadowColor: colors.primary,
         shadowOffset: { width: 0, height: 4 },
         shadowOpacity: 0.3,
         shadowRadius: 8,
@@ -657,7 +774,7 @@ const styles = StyleSheet.create({
   testButtonText: {
     fontSize: 16,
     fontWeight: '700',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   bottomSpacer: {
     height: 40,
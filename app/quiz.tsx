@@ -0,0 +1,783 @@
+/**
+ * Practice Quiz Screen
+ * Generate a quiz from a course's material or a topic, answer it, and see
+ * which topics need more work
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { QUIZ_CONFIG } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { CourseMaterial, getCourseMaterials } from '../services/ai/courseMaterialService';
+import { gradeMultipleChoice, gradeShortAnswer } from '../services/ai/quizGrading';
+import { getCurrentUser } from '../services/authService';
+import { getCourses } from '../services/courseServiceFirestore';
+import {
+    completeQuiz,
+    createMaterialQuiz,
+    createTopicQuiz,
+    getTopicMastery,
+    Quiz,
+} from '../services/quizServiceFirestore';
+import { Course, QuizAnswerResult, TopicMastery } from '../types';
+
+const masteryColor = (mastery: number, colors: ThemeColors): string =>
+  mastery >= QUIZ_CONFIG.weakMastery ? colors.success : mastery >= 0.35 ? colors.warning : colors.error;
+
+export default function QuizScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ courseId?: string; topic?: string }>();
+  const mountedRef = useRef(true);
+
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(params.courseId || null);
+  const [materials, setMaterials] = useState<CourseMaterial[]>([]);
+  const [mastery, setMastery] = useState<TopicMastery[]>([]);
+  const [topicInput, setTopicInput] = useState(params.topic || '');
+  const [generating, setGenerating] = useState(false);
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [index, setIndex] = useState(0);
+  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [shortAnswer, setShortAnswer] = useState('');
+  const [grading, setGrading] = useState(false);
+  const [results, setResults] = useState<QuizAnswerResult[]>([]);
+  const [finished, setFinished] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      setUserId(user.id);
+      const [fetchedCourses, fetchedMaterials, fetchedMastery] = await Promise.all([
+        getCourses(user.id),
+        getCourseMaterials(user.id),
+        getTopicMastery(user.id),
+      ]);
+      if (!mountedRef.current) return;
+      setCourses(fetchedCourses);
+      setMaterials(fetchedMaterials);
+      setMastery(fetchedMastery);
+      setSelectedCourseId(prev => prev || fetchedCourses[0]?.id || null);
+    } catch (error) {
+      console.error('Load quiz error:', error);
+      Alert.alert(t('common.error'), t('quiz.loadFailed'));
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [router, t]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    loadData();
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [loadData]);
+
+  const courseMaterials = materials.filter(m => m.courseId === selectedCourseId);
+  const courseMastery = mastery.filter(m => m.courseId === selectedCourseId);
+  const weakTopics = courseMastery.filter(m => m.mastery < QUIZ_CONFIG.weakMastery).slice(0, QUIZ_CONFIG.weakTopicLimit);
+
+  const startQuiz = async (build: () => Promise<Quiz>) => {
+    setGenerating(true);
+    try {
+      const created = await build();
+      if (!mountedRef.current) return;
+      setQuiz(created);
+      setIndex(0);
+      setResults([]);
+      setSelectedOption(null);
+      setShortAnswer('');
+      setFinished(false);
+      if (!created.aiGenerated) {
+        Alert.alert(t('quiz.offlineTitle'), t('quiz.offline'));
+      }
+    } catch (error) {
+      console.error('Create quiz error:', error);
+      Alert.alert(t('quiz.createFailedTitle'), error instanceof Error ? error.message : t('quiz.tryAgain'));
+    } finally {
+      if (mountedRef.current) setGenerating(false);
+    }
+  };
+
+  const question = quiz?.questions[index];
+  const answered = results.find(r => r.questionId === question?.id);
+
+  const handleSubmit = async () => {
+    if (!question || answered) return;
+
+    setGrading(true);
+    try {
+      const result =
+        question.type === 'multiple_choice'
+          ? gradeMultipleChoice(question, selectedOption ?? -1)
+          : await gradeShortAnswer(question, shortAnswer);
+      if (mountedRef.current) setResults(prev => [...prev, result]);
+    } finally {
+      if (mountedRef.current) setGrading(false);
+    }
+  };
+
+  const handleNext = async () => {
+    if (!quiz || !userId) return;
+
+    if (index < quiz.questions.length - 1) {
+      setIndex(index + 1);
+      setSelectedOption(null);
+      setShortAnswer('');
+      return;
+    }
+
+    setFinished(true);
+    try {
+      const saved = await completeQuiz(userId, quiz, results);
+      if (!mountedRef.current) return;
+      setMastery(prev => [
+        ...prev.filter(m => !saved.mastery.some(updated => updated.id === m.id)),
+        ...saved.mastery,
+      ].sort((a, b) => a.mastery - b.mastery));
+    } catch (error) {
+      console.error('Save quiz error:', error);
+      Alert.alert(t('quiz.notSavedTitle'), t('quiz.notSaved'));
+    }
+  };
+
+  const renderSetup = () => (
+    <ScrollView
+      style={styles.content}
+      contentContainerStyle={styles.contentContainer}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {courses.map(course => (
+          <TouchableOpacity
+            key={course.id}
+            style={[styles.chip, selectedCourseId === course.id && styles.chipActive]}
+            onPress={() => setSelectedCourseId(course.id)}
+            disabled={generating}
+          >
+            <Text style={[styles.chipText, selectedCourseId === course.id && styles.chipTextActive]}>
+              {course.code}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {/* Weakest topics */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('quiz.weakestTopics')}</Text>
+        {weakTopics.length === 0 ? (
+          <Text style={styles.mutedText}>
+            {courseMastery.length === 0
+              ? t('quiz.noMastery')
+              : t('quiz.noWeakTopics')}
+          </Text>
+        ) : (
+          weakTopics.map(topic => (
+            <TouchableOpacity
+              key={topic.id}
+              style={styles.topicRow}
+              onPress={() => selectedCourseId && userId && startQuiz(() => createTopicQuiz(userId, selectedCourseId, topic.topic))}
+              disabled={generating}
+              accessibilityLabel={t('quiz.topicLabel', { topic: topic.topic, percent: Math.round(topic.mastery * 100) })}
+              accessibilityRole="button"
+            >
+              <View style={styles.topicInfo}>
+                <Text style={styles.topicName} numberOfLines={1}>
+                  {topic.topic}
+                </Text>
+                <View style={styles.masteryTrack}>
+                  <View
+                    style={[
+                      styles.masteryFill,
+                      { width: `${Math.round(topic.mastery * 100)}%`, backgroundColor: masteryColor(topic.mastery, colors) },
+                    ]}
+                  />
+                </View>
+              </View>
+              <Text style={[styles.masteryText, { color: masteryColor(topic.mastery, colors) }]}>
+                {Math.round(topic.mastery * 100)}%
+              </Text>
+              <Ionicons name="play-circle-outline" size={22} color={colors.primary} />
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+
+      {/* Topic quiz */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('quiz.quizTopic')}</Text>
+        <View style={styles.topicInputRow}>
+          <TextInput
+            style={styles.input}
+            value={topicInput}
+            onChangeText={setTopicInput}
+            placeholder={t('quiz.topicPlaceholder')}
+            placeholderTextColor={colors.textSecondary}
+            returnKeyType="go"
+            onSubmitEditing={() =>
+              selectedCourseId && userId && topicInput.trim() && startQuiz(() => createTopicQuiz(userId, selectedCourseId, topicInput))
+            }
+          />
+          <TouchableOpacity
+            style={[styles.goButton, (!topicInput.trim() || generating) && styles.goButtonDisabled]}
+            onPress={() => selectedCourseId && userId && startQuiz(() => createTopicQuiz(userId, selectedCourseId, topicInput))}
+            disabled={!topicInput.trim() || generating}
+            accessibilityLabel={t('quiz.startTopic')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="arrow-forward" size={20} color={colors.onPrimary} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Material quiz */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('quiz.quizMaterial')}</Text>
+        {courseMaterials.length === 0 ? (
+          <Text style={styles.mutedText}>{t('quiz.noMaterials')}</Text>
+        ) : (
+          <>
+            <TouchableOpacity
+              style={styles.materialRow}
+              onPress={() => selectedCourseId && userId && startQuiz(() => createMaterialQuiz(userId, selectedCourseId))}
+              disabled={generating}
+            >
+              <Ionicons name="library-outline" size={18} color={colors.primary} />
+              <Text style={styles.materialTitle}>{t('quiz.allMaterial')}</Text>
+            </TouchableOpacity>
+            {courseMaterials.map(material => (
+              <TouchableOpacity
+                key={material.id}
+                style={styles.materialRow}
+                onPress={() =>
+                  selectedCourseId &&
+                  userId &&
+                  startQuiz(() => createMaterialQuiz(userId, selectedCourseId, { materialId: material.id, title: material.title }))
+                }
+                disabled={generating}
+              >
+                <Ionicons name="document-text-outline" size={18} color={colors.primary} />
+                <Text style={styles.materialTitle} numberOfLines={1}>
+                  {material.title}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+
+  const renderQuestion = () => {
+    if (!quiz || !question) return null;
+
+    return (
+      <>
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.progressText}>
+            {t('quiz.progress', { current: index + 1, total: quiz.questions.length, topic: question.topic })}
+          </Text>
+          <View style={styles.questionCard}>
+            <Text style={styles.questionText}>{question.question}</Text>
+          </View>
+
+          {question.type === 'multiple_choice' ? (
+            question.options?.map((option, i) => {
+              const isAnswer = answered && i === question.answerIndex;
+              const isWrongPick = answered && i === selectedOption && !answered.correct;
+              return (
+                <TouchableOpacity
+                  key={i}
+                  style={[
+                    styles.option,
+                    selectedOption === i && styles.optionSelected,
+                    isAnswer && styles.optionCorrect,
+                    isWrongPick && styles.optionWrong,
+                  ]}
+                  onPress={() => setSelectedOption(i)}
+                  disabled={!!answered}
+                >
+                  <Text style={styles.optionText}>{option}</Text>
+                </TouchableOpacity>
+              );
+            })
+          ) : (
+            <TextInput
+              style={[styles.input, styles.answerInput]}
+              value={shortAnswer}
+              onChangeText={setShortAnswer}
+              placeholder={t('quiz.answerPlaceholder')}
+              placeholderTextColor={colors.textSecondary}
+              editable={!answered}
+              multiline
+            />
+          )}
+
+          {answered && (
+            <View style={[styles.feedback, { borderLeftColor: answered.correct ? colors.success : colors.error }]}>
+              <Text style={styles.feedbackTitle}>
+                {answered.correct
+                  ? question.type === 'short_answer' && answered.score < 1
+                    ? t('quiz.correctMatch', { percent: Math.round(answered.score * 100) })
+                    : t('quiz.correct')
+                  : answered.score > 0
+                    ? t('quiz.partlyRight', { percent: Math.round(answered.score * 100) })
+                    : t('quiz.notQuite')}
+              </Text>
+              {!(answered.correct && question.type === 'multiple_choice') && (
+                <Text style={styles.feedbackText}>{t('quiz.answer', { answer: question.answer })}</Text>
+              )}
+              {question.sourceLabel && <Text style={styles.mutedText}>{t('quiz.from', { source: question.sourceLabel })}</Text>}
+            </View>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {answered ? (
+            <TouchableOpacity onPress={handleNext}>
+              <LinearGradient colors={[colors.primary, colors.secondary]} style={styles.footerButton}>
+                <Text style={styles.footerButtonText}>
+                  {index < quiz.questions.length - 1 ? t('quiz.nextQuestion') : t('quiz.seeResults')}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              onPress={handleSubmit}
+              disabled={grading || (question.type === 'multiple_choice' ? selectedOption === null : !shortAnswer.trim())}
+            >
+              <LinearGradient
+                colors={
+                  grading || (question.type === 'multiple_choice' ? selectedOption === null : !shortAnswer.trim())
+                    ? [colors.borderStrong, colors.textMuted]
+                    : [colors.primary, colors.secondary]
+                }
+                style={styles.footerButton}
+              >
+                {grading ? (
+                  <ActivityIndicator color={colors.onPrimary} size="small" />
+                ) : (
+                  <Text style={styles.footerButtonText}>{t('quiz.checkAnswer')}</Text>
+                )}
+              </LinearGradient>
+            </TouchableOpacity>
+          )}
+        </View>
+      </>
+    );
+  };
+
+  const renderResults = () => {
+    if (!quiz) return null;
+    const score = results.reduce((sum, r) => sum + r.score, 0) / Math.max(results.length, 1);
+    const topics = Array.from(new Set(results.map(r => r.topic)));
+
+    return (
+      <>
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          <View style={styles.scoreCard}>
+            <Text style={styles.scoreValue}>{Math.round(score * 100)}%</Text>
+            <Text style={styles.mutedText}>
+              {t('quiz.scoreSummary', {
+                correct: results.filter(r => r.correct).length,
+                total: results.length,
+                title: quiz.title,
+              })}
+            </Text>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('quiz.topicMastery')}</Text>
+            {topics.map(topic => {
+              const record = mastery.find(
+                m => m.courseId === quiz.courseId && m.topic.toLowerCase() === topic.toLowerCase()
+              );
+              const value = record?.mastery ?? 0;
+              return (
+                <View key={topic} style={styles.topicRow}>
+                  <View style={styles.topicInfo}>
+                    <Text style={styles.topicName} numberOfLines={1}>
+                      {topic}
+                    </Text>
+                    <View style={styles.masteryTrack}>
+                      <View
+                        style={[
+                          styles.masteryFill,
+                          { width: `${Math.round(value * 100)}%`, backgroundColor: masteryColor(value, colors) },
+                        ]}
+                      />
+                    </View>
+                  </View>
+                  <Text style={[styles.masteryText, { color: masteryColor(value, colors) }]}>
+                    {record ? `${Math.round(value * 100)}%` : '-'}
+                  </Text>
+                </View>
+              );
+            })}
+            <Text style={styles.mutedText}>
+              {t('quiz.revisionHint', { percent: Math.round(QUIZ_CONFIG.weakMastery * 100) })}
+            </Text>
+          </View>
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity onPress={() => setQuiz(null)}>
+            <LinearGradient colors={[colors.primary, colors.secondary]} style={styles.footerButton}>
+              <Text style={styles.footerButtonText}>{t('quiz.done')}</Text>
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <LinearGradient
+        colors={colors.headerGradient}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <TouchableOpacity
+            onPress={() => (quiz ? setQuiz(null) : router.back())}
+            style={styles.backButton}
+            accessibilityLabel={quiz ? t('quiz.leave') : t('common.goBack')}
+            accessibilityRole="button"
+          >
+            <Ionicons name={quiz ? 'close' : 'arrow-back'} size={24} color={colors.onPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerTitle}>
+            <Text style={styles.headerText} numberOfLines={1}>
+              {quiz ? quiz.title : t('quiz.title')}
+            </Text>
+            <Text style={styles.headerSubtext} numberOfLines={1}>
+              {quiz ? t('quiz.questionTypes') : t('quiz.subtitle')}
+            </Text>
+          </View>
+        </View>
+      </LinearGradient>
+
+      {generating ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={styles.loadingText}>{t('quiz.writing')}</Text>
+        </View>
+      ) : courses.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="school-outline" size={48} color={colors.textSecondary} />
+          <Text style={styles.mutedText}>{t('quiz.noCourses')}</Text>
+        </View>
+      ) : !quiz ? (
+        renderSetup()
+      ) : finished ? (
+        renderResults()
+      ) : (
+        renderQuestion()
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 50 : 40,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.onPrimary,
+    letterSpacing: 0.2,
+  },
+  headerSubtext: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  chipRow: {
+    gap: 6,
+    paddingBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surface,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+  },
+  section: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 19,
+  },
+  topicRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  topicInfo: {
+    flex: 1,
+  },
+  topicName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  masteryTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.border,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  masteryFill: {
+    height: 6,
+  },
+  masteryText: {
+    fontSize: 13,
+    fontWeight: '700',
+    minWidth: 40,
+    textAlign: 'right',
+  },
+  topicInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: Platform.OS === 'ios' ? 10 : 8,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.background,
+  },
+  goButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  goButtonDisabled: {
+    backgroundColor: colors.borderStrong,
+  },
+  materialRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  materialTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  progressText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  questionCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  questionText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text,
+    lineHeight: 24,
+  },
+  option: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.border,
+    padding: 14,
+    marginBottom: 10,
+  },
+  optionSelected: {
+    borderColor: colors.primary,
+  },
+  optionCorrect: {
+    borderColor: colors.success,
+    backgroundColor: colors.success + '10',
+  },
+  optionWrong: {
+    borderColor: colors.error,
+    backgroundColor: colors.error + '10',
+  },
+  optionText: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  answerInput: {
+    flex: 0,
+    minHeight: 96,
+    textAlignVertical: 'top',
+    backgroundColor: colors.card,
+  },
+  feedback: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    padding: 14,
+    marginTop: 8,
+    gap: 4,
+  },
+  feedbackTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  feedbackText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  scoreCard: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  scoreValue: {
+    fontSize: 40,
+    fontWeight: '800',
+    color: colors.primary,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 12,
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    backgroundColor: colors.card,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  footerButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  footerButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
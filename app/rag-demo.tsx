@@ -16,10 +16,24 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import RAGChat from '../components/RAGChat';
-import { COLORS_V2, SPACING, TYPOGRAPHY } from '../constants/designSystem';
+import { SPACING, ThemeColors, TYPOGRAPHY } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { getCurrentUser } from '../services/authService';
 
+const FEATURES = [
+  { key: 'semantic', icon: 'search', color: 'primary' },
+  { key: 'context', icon: 'brain', color: 'success' },
+  { key: 'grounded', icon: 'shield-checkmark', color: 'info' },
+  { key: 'citations', icon: 'link', color: 'warning' },
+  { key: 'recommendations', icon: 'flash', color: 'secondary' },
+  { key: 'private', icon: 'lock-closed', color: 'error' },
+] as const;
+
 export default function RAGDemoScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const [showChat, setShowChat] = useState(false);
   const [userId, setUserId] = useState<string>('');
@@ -33,96 +47,52 @@ export default function RAGDemoScreen() {
     if (user) setUserId(user.id);
   };
 
-  const features = [
-    {
-      icon: 'search',
-      title: 'Semantic Search',
-      description: 'AI understands meaning, not just keywords. Find information even if you don\'t remember exact words.',
-      color: COLORS_V2.primary[500],
-      example: 'Search "urgent work" finds tasks marked urgent or high priority',
-    },
-    {
-      icon: 'brain',
-      title: 'Context-Aware Answers',
-      description: 'AI answers based on YOUR personal data - notes, tasks, courses, and study sessions.',
-      color: COLORS_V2.success[500],
-      example: '"What\'s my progress this week?" uses your actual completion data',
-    },
-    {
-      icon: 'shield-checkmark',
-      title: 'No Hallucinations',
-      description: 'Responses are grounded in your data. If info isn\'t available, AI tells you clearly.',
-      color: COLORS_V2.info[500],
-      example: 'Won\'t make up facts about courses you haven\'t added',
-    },
-    {
-      icon: 'link',
-      title: 'Source Citations',
-      description: 'Every answer shows which tasks, notes, or courses were used with confidence scores.',
-      color: COLORS_V2.warning[500],
-      example: 'See exactly which 3 tasks contributed to the answer (85% confidence)',
-    },
-    {
-      icon: 'flash',
-      title: 'Smart Recommendations',
-      description: 'Find similar content automatically. Discover related tasks, courses, and notes.',
-      color: COLORS_V2.secondary[500],
-      example: 'Reading about "algorithms" suggests related data structures tasks',
-    },
-    {
-      icon: 'lock-closed',
-      title: '100% Private & Free',
-      description: 'All embeddings stored locally. Uses free Hugging Face models. No data sent to third parties.',
-      color: COLORS_V2.error[500],
-      example: 'Your 384-dimensional vectors stay on your device',
-    },
-  ];
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-          <Ionicons name="arrow-back" size={24} color={COLORS_V2.neutral[900]} />
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>RAG System</Text>
+        <Text style={styles.headerTitle}>{t('ragDemo.title')}</Text>
         <View style={{ width: 40 }} />
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.hero}>
           <Text style={styles.heroEmoji}>🧠</Text>
-          <Text style={styles.heroTitle}>Retrieval Augmented Generation</Text>
+          <Text style={styles.heroTitle}>{t('ragDemo.heroTitle')}</Text>
           <Text style={styles.heroSubtitle}>
-            AI that knows YOUR data. Ask questions, get answers grounded in your actual notes, tasks, and courses.
+            {t('ragDemo.heroSubtitle')}
           </Text>
         </View>
 
         <View style={styles.techBadges}>
           <View style={styles.techBadge}>
-            <Text style={styles.techBadgeText}>🤗 Hugging Face</Text>
+            <Text style={styles.techBadgeText}>{t('ragDemo.badges.huggingFace')}</Text>
           </View>
           <View style={styles.techBadge}>
-            <Text style={styles.techBadgeText}>📊 Vector Search</Text>
+            <Text style={styles.techBadgeText}>{t('ragDemo.badges.vector')}</Text>
           </View>
           <View style={styles.techBadge}>
-            <Text style={styles.techBadgeText}>🔒 Local Storage</Text>
+            <Text style={styles.techBadgeText}>{t('ragDemo.badges.local')}</Text>
           </View>
           <View style={styles.techBadge}>
-            <Text style={styles.techBadgeText}>🆓 100% Free</Text>
+            <Text style={styles.techBadgeText}>{t('ragDemo.badges.free')}</Text>
           </View>
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>How It Works</Text>
+          <Text style={styles.sectionTitle}>{t('ragDemo.howItWorks')}</Text>
           
           <View style={styles.flowStep}>
             <View style={styles.stepNumber}>
               <Text style={styles.stepNumberText}>1</Text>
             </View>
             <View style={styles.stepContent}>
-              <Text style={styles.stepTitle}>📥 Index Your Data</Text>
+              <Text style={styles.stepTitle}>{t('ragDemo.steps.index.title')}</Text>
               <Text style={styles.stepDescription}>
-                Convert tasks, notes, and courses into 384-dimensional vector embeddings using sentence-transformers model
+                {t('ragDemo.steps.index.description')}
               </Text>
             </View>
           </View>
@@ -132,9 +102,9 @@ export default function RAGDemoScreen() {
               <Text style={styles.stepNumberText}>2</Text>
             </View>
             <View style={styles.stepContent}>
-              <Text style={styles.stepTitle}>🔍 Semantic Search</Text>
+              <Text style={styles.stepTitle}>{t('ragDemo.steps.search.title')}</Text>
               <Text style={styles.stepDescription}>
-                Your question is embedded and compared using cosine similarity to find most relevant content
+                {t('ragDemo.steps.search.description')}
               </Text>
             </View>
           </View>
@@ -144,9 +114,9 @@ export default function RAGDemoScreen() {
               <Text style={styles.stepNumberText}>3</Text>
             </View>
             <View style={styles.stepContent}>
-              <Text style={styles.stepTitle}>🎯 Build Context</Text>
+              <Text style={styles.stepTitle}>{t('ragDemo.steps.context.title')}</Text>
               <Text style={styles.stepDescription}>
-                Top matches are assembled into context (up to 2000 chars) with relevance scores
+                {t('ragDemo.steps.context.description')}
               </Text>
             </View>
           </View>
@@ -156,27 +126,27 @@ export default function RAGDemoScreen() {
               <Text style={styles.stepNumberText}>4</Text>
             </View>
             <View style={styles.stepContent}>
-              <Text style={styles.stepTitle}>💬 Generate Answer</Text>
+              <Text style={styles.stepTitle}>{t('ragDemo.steps.answer.title')}</Text>
               <Text style={styles.stepDescription}>
-                LLM answers using ONLY your context. Citations and confidence scores included
+                {t('ragDemo.steps.answer.description')}
               </Text>
             </View>
           </View>
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>✨ Features</Text>
-          {features.map((feature, index) => (
-            <View key={index} style={styles.featureCard}>
-              <View style={[styles.iconContainer, { backgroundColor: `${feature.color}20` }]}>
-                <Ionicons name={feature.icon as any} size={24} color={feature.color} />
+          <Text style={styles.sectionTitle}>{t('ragDemo.featuresTitle')}</Text>
+          {FEATURES.map(feature => (
+            <View key={feature.key} style={styles.featureCard}>
+              <View style={[styles.iconContainer, { backgroundColor: colors[feature.color] + '20' }]}>
+                <Ionicons name={feature.icon as any} size={24} color={colors[feature.color]} />
               </View>
               <View style={styles.featureContent}>
-                <Text style={styles.featureTitle}>{feature.title}</Text>
-                <Text style={styles.featureDescription}>{feature.description}</Text>
+                <Text style={styles.featureTitle}>{t(`ragDemo.features.${feature.key}.title`)}</Text>
+                <Text style={styles.featureDescription}>{t(`ragDemo.features.${feature.key}.description`)}</Text>
                 <View style={styles.exampleContainer}>
-                  <Text style={styles.exampleLabel}>Example:</Text>
-                  <Text style={styles.exampleText}>{feature.example}</Text>
+                  <Text style={styles.exampleLabel}>{t('ragDemo.example')}</Text>
+                  <Text style={styles.exampleText}>{t(`ragDemo.features.${feature.key}.example`)}</Text>
                 </View>
               </View>
             </View>
@@ -184,89 +154,77 @@ export default function RAGDemoScreen() {
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>🎓 Use Cases</Text>
+          <Text style={styles.sectionTitle}>{t('ragDemo.useCasesTitle')}</Text>
           
           <View style={styles.useCaseCard}>
-            <Text style={styles.useCaseTitle}>📚 Study Assistant</Text>
+            <Text style={styles.useCaseTitle}>{t('ragDemo.useCases.study.title')}</Text>
             <Text style={styles.useCaseText}>
-              "What topics did I cover in my data structures course?"
+              {t('ragDemo.useCases.study.question')}
             </Text>
             <Text style={styles.useCaseResult}>
-              → Searches study sessions and tasks for that course
+              {t('ragDemo.useCases.study.result')}
             </Text>
           </View>
 
           <View style={styles.useCaseCard}>
-            <Text style={styles.useCaseTitle}>⏰ Deadline Manager</Text>
+            <Text style={styles.useCaseTitle}>{t('ragDemo.useCases.deadlines.title')}</Text>
             <Text style={styles.useCaseText}>
-              "What's due this week and how much time will it take?"
+              {t('ragDemo.useCases.deadlines.question')}
             </Text>
             <Text style={styles.useCaseResult}>
-              → Aggregates tasks with due dates and estimated hours
+              {t('ragDemo.useCases.deadlines.result')}
             </Text>
           </View>
 
           <View style={styles.useCaseCard}>
-            <Text style={styles.useCaseTitle}>📊 Progress Tracker</Text>
+            <Text style={styles.useCaseTitle}>{t('ragDemo.useCases.progress.title')}</Text>
             <Text style={styles.useCaseText}>
-              "Summarize my achievements this month"
+              {t('ragDemo.useCases.progress.question')}
             </Text>
             <Text style={styles.useCaseResult}>
-              → Analyzes completed tasks and study sessions
+              {t('ragDemo.useCases.progress.result')}
             </Text>
           </View>
 
           <View style={styles.useCaseCard}>
-            <Text style={styles.useCaseTitle}>🔗 Content Discovery</Text>
+            <Text style={styles.useCaseTitle}>{t('ragDemo.useCases.discovery.title')}</Text>
             <Text style={styles.useCaseText}>
-              "Show me everything related to algorithms"
+              {t('ragDemo.useCases.discovery.question')}
             </Text>
             <Text style={styles.useCaseResult}>
-              → Finds semantically similar tasks, notes, and courses
+              {t('ragDemo.useCases.discovery.result')}
             </Text>
           </View>
         </View>
 
         <View style={styles.techSection}>
-          <Text style={styles.sectionTitle}>⚙️ Technical Details</Text>
+          <Text style={styles.sectionTitle}>{t('ragDemo.technicalTitle')}</Text>
           
           <View style={styles.techDetail}>
-            <Text style={styles.techDetailTitle}>🔢 Embedding Model</Text>
+            <Text style={styles.techDetailTitle}>{t('ragDemo.technical.model.title')}</Text>
             <Text style={styles.techDetailText}>
-              sentence-transformers/all-MiniLM-L6-v2{'\n'}
-              • 384 dimensions{'\n'}
-              • Fast inference (~100ms){'\n'}
-              • Optimized for semantic similarity
+              {t('ragDemo.technical.model.text')}
             </Text>
           </View>
 
           <View style={styles.techDetail}>
-            <Text style={styles.techDetailTitle}>📊 Similarity Algorithm</Text>
+            <Text style={styles.techDetailTitle}>{t('ragDemo.technical.similarity.title')}</Text>
             <Text style={styles.techDetailText}>
-              Cosine Similarity with Multi-Factor Scoring{'\n'}
-              • Semantic match (70%){'\n'}
-              • Recency boost (20%){'\n'}
-              • Type relevance (10%)
+              {t('ragDemo.technical.similarity.text')}
             </Text>
           </View>
 
           <View style={styles.techDetail}>
-            <Text style={styles.techDetailTitle}>💾 Storage</Text>
+            <Text style={styles.techDetailTitle}>{t('ragDemo.technical.storage.title')}</Text>
             <Text style={styles.techDetailText}>
-              AsyncStorage Vector Database{'\n'}
-              • Stores up to 1000 items{'\n'}
-              • Auto-pruning by recency{'\n'}
-              • ~2-5MB storage typical
+              {t('ragDemo.technical.storage.text')}
             </Text>
           </View>
 
           <View style={styles.techDetail}>
-            <Text style={styles.techDetailTitle}>🚀 Performance</Text>
+            <Text style={styles.techDetailTitle}>{t('ragDemo.technical.performance.title')}</Text>
             <Text style={styles.techDetailText}>
-              Indexing: ~200ms per item{'\n'}
-              Search: {'<'}500ms for 1000 items{'\n'}
-              Answer Generation: 2-5 seconds{'\n'}
-              Offline: Fully functional
+              {t('ragDemo.technical.performance.text')}
             </Text>
           </View>
         </View>
@@ -275,8 +233,8 @@ export default function RAGDemoScreen() {
           style={styles.tryButton}
           onPress={() => setShowChat(true)}
         >
-          <Ionicons name="chatbubbles" size={24} color="#fff" />
-          <Text style={styles.tryButtonText}>Try RAG Chat</Text>
+          <Ionicons name="chatbubbles" size={24} color={colors.onPrimary} />
+          <Text style={styles.tryButtonText}>{t('ragDemo.tryChat')}</Text>
         </TouchableOpacity>
 
         <View style={{ height: SPACING.xl }} />
@@ -290,9 +248,9 @@ export default function RAGDemoScreen() {
       >
         <SafeAreaView style={styles.modalContainer} edges={['top']}>
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>RAG-Powered Chat</Text>
+            <Text style={styles.modalTitle}>{t('ragDemo.chatTitle')}</Text>
             <TouchableOpacity onPress={() => setShowChat(false)}>
-              <Ionicons name="close" size={24} color={COLORS_V2.neutral[900]} />
+              <Ionicons name="close" size={24} color={colors.text} />
             </TouchableOpacity>
           </View>
           {userId && <RAGChat userId={userId} />}
@@ -302,33 +260,33 @@ export default function RAGDemoScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS_V2.neutral[50],
+    backgroundColor: colors.background,
   },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     padding: SPACING.lg,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderBottomWidth: 1,
-    borderBottomColor: COLORS_V2.neutral[200],
+    borderBottomColor: colors.border,
   },
   backButton: {
     padding: SPACING.xs,
   },
   headerTitle: {
     ...TYPOGRAPHY.titleLarge,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
   },
   content: {
     flex: 1,
   },
   hero: {
     padding: SPACING.xl,
-    backgroundColor: COLORS_V2.primary[500],
+    backgroundColor: colors.primary,
     alignItems: 'center',
   },
   heroEmoji: {
@@ -337,13 +295,13 @@ const styles = StyleSheet.create({
   },
   heroTitle: {
     ...TYPOGRAPHY.headlineMedium,
-    color: '#fff',
+    color: colors.onPrimary,
     textAlign: 'center',
     marginBottom: SPACING.sm,
   },
   heroSubtitle: {
     ...TYPOGRAPHY.bodyLarge,
-    color: 'rgba(255,255,255,0.9)',
+    color: colors.onPrimary + 'E6',
     textAlign: 'center',
   },
   techBadges: {
@@ -352,26 +310,26 @@ const styles = StyleSheet.create({
     gap: SPACING.sm,
     padding: SPACING.lg,
     justifyContent: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
   },
   techBadge: {
-    backgroundColor: COLORS_V2.primary[50],
+    backgroundColor: colors.primaryLight,
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
     borderRadius: 20,
     borderWidth: 1,
-    borderColor: COLORS_V2.primary[200],
+    borderColor: colors.primaryLight,
   },
   techBadgeText: {
     ...TYPOGRAPHY.labelMedium,
-    color: COLORS_V2.primary[700],
+    color: colors.primaryDark,
   },
   section: {
     padding: SPACING.lg,
   },
   sectionTitle: {
     ...TYPOGRAPHY.titleLarge,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
     marginBottom: SPACING.md,
   },
   flowStep: {
@@ -382,14 +340,14 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: COLORS_V2.primary[500],
+    backgroundColor: colors.primary,
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: SPACING.md,
   },
   stepNumberText: {
     ...TYPOGRAPHY.titleMedium,
-    color: '#fff',
+    color: colors.onPrimary,
     fontWeight: '700',
   },
   stepContent: {
@@ -397,20 +355,20 @@ const styles = StyleSheet.create({
   },
   stepTitle: {
     ...TYPOGRAPHY.titleSmall,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
     marginBottom: SPACING.xs,
   },
   stepDescription: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
   },
   featureCard: {
     flexDirection: 'row',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: SPACING.md,
     marginBottom: SPACING.md,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
     shadowRadius: 4,
@@ -429,84 +387,84 @@ const styles = StyleSheet.create({
   },
   featureTitle: {
     ...TYPOGRAPHY.titleSmall,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
     marginBottom: SPACING.xs,
   },
   featureDescription: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
     marginBottom: SPACING.sm,
   },
   exampleContainer: {
-    backgroundColor: COLORS_V2.neutral[50],
+    backgroundColor: colors.background,
     padding: SPACING.sm,
     borderRadius: 8,
     borderLeftWidth: 2,
-    borderLeftColor: COLORS_V2.primary[500],
+    borderLeftColor: colors.primary,
   },
   exampleLabel: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
     marginBottom: 2,
   },
   exampleText: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.neutral[700],
+    color: colors.text,
     fontStyle: 'italic',
   },
   useCaseCard: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: SPACING.md,
     marginBottom: SPACING.md,
     borderLeftWidth: 4,
-    borderLeftColor: COLORS_V2.primary[500],
+    borderLeftColor: colors.primary,
   },
   useCaseTitle: {
     ...TYPOGRAPHY.titleSmall,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
     marginBottom: SPACING.xs,
   },
   useCaseText: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.neutral[700],
+    color: colors.text,
     fontStyle: 'italic',
     marginBottom: SPACING.xs,
   },
   useCaseResult: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.primary[600],
+    color: colors.primaryDark,
   },
   techSection: {
     padding: SPACING.lg,
-    backgroundColor: COLORS_V2.neutral[100],
+    backgroundColor: colors.surface,
   },
   techDetail: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: SPACING.md,
     marginBottom: SPACING.md,
   },
   techDetailTitle: {
     ...TYPOGRAPHY.titleSmall,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
     marginBottom: SPACING.xs,
   },
   techDetailText: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
     lineHeight: 20,
   },
   tryButton: {
     flexDirection: 'row',
-    backgroundColor: COLORS_V2.primary[600],
+    backgroundColor: colors.primary,
     marginHorizontal: SPACING.lg,
     paddingVertical: SPACING.lg,
     borderRadius: 16,
     justifyContent: 'center',
     alignItems: 'center',
     gap: SPACING.sm,
-    shadowColor: COLORS_V2.primary[600],
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 8,
@@ -514,24 +472,24 @@ const styles = StyleSheet.create({
   },
   tryButtonText: {
     ...TYPOGRAPHY.titleMedium,
-    color: '#fff',
+    color: colors.onPrimary,
     fontWeight: '600',
   },
   modalContainer: {
     flex: 1,
-    backgroundColor: COLORS_V2.neutral[50],
+    backgroundColor: colors.background,
   },
   modalHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     padding: SPACING.lg,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderBottomWidth: 1,
-    borderBottomColor: COLORS_V2.neutral[200],
+    borderBottomColor: colors.border,
   },
   modalTitle: {
     ...TYPOGRAPHY.titleLarge,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
   },
 });
@@ -0,0 +1,503 @@
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getCurrentUser } from '../services/authService';
+import {
+  buildWeeklySummary,
+  compareWeeks,
+  formatHour,
+  getWeeklySummaries,
+} from '../services/weeklySummaryService';
+import { WeeklySummary } from '../types';
+
+interface MetricProps {
+  label: string;
+  value: string;
+  change: number | null;
+  unit?: string;
+  lowerIsBetter?: boolean;
+}
+
+function Metric({ label, value, change, unit = '', lowerIsBetter = false }: MetricProps) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const improved = change !== null && change !== 0 && (change > 0) !== lowerIsBetter;
+  return (
+    <View style={styles.metric}>
+      <Text style={styles.metricValue}>{value}</Text>
+      <Text style={styles.metricLabel}>{label}</Text>
+      {change !== null && (
+        <Text
+          style={[
+            styles.metricChange,
+            change === 0 ? undefined : improved ? styles.changeGood : styles.changeBad,
+          ]}
+        >
+          {change === 0 ? t('reports.noChange') : `${change > 0 ? '▲' : '▼'} ${Math.abs(change)}${unit}`}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+export default function ReportsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate, formatWeekday } = useTranslation();
+  const params = useLocalSearchParams<{ week?: string }>();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [history, setHistory] = useState<WeeklySummary[]>([]);
+  const [current, setCurrent] = useState<WeeklySummary | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(params.week || null);
+
+  const loadReports = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      const summaries = await getWeeklySummaries(user.id);
+      setHistory(summaries);
+      // Live view of the last 7 days, never saved
+      setCurrent(await buildWeeklySummary(user.id, new Date(), summaries[0]));
+    } catch (error) {
+      console.error('Failed to load weekly reports:', error);
+      Alert.alert(t('common.error'), t('reports.loadFailed'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const formatShortDate = (date: Date) => formatDate(date, { month: 'short', day: 'numeric' });
+
+  // The live week first, then saved weeks newest first. The live week can
+  // share its date with a snapshot saved earlier today, so it has its own key.
+  const weeks = current ? [current, ...history] : history;
+  const keyOf = (week: WeeklySummary) => (week === current ? 'live' : week.weekKey);
+  const selectedIndex = Math.max(0, weeks.findIndex((week) => keyOf(week) === selectedKey));
+  const selected = weeks[selectedIndex];
+  const previous = weeks[selectedIndex + 1] || null;
+  const isLive = selected === current;
+  const comparison = selected ? compareWeeks(selected, previous) : null;
+
+  const chartWeeks = [...weeks].reverse();
+  const maxWeekHours = Math.max(1, ...chartWeeks.map((week) => week.totalHours));
+  const maxCourseHours = Math.max(1, ...(selected?.courseHours.map((course) => course.hours) || []));
+  const maxDayHours = Math.max(1, ...(selected?.dailyHours.map((day) => day.hours) || []));
+
+  const renderWeek = (week: WeeklySummary) => {
+    const active = week === selected;
+    return (
+      <TouchableOpacity
+        key={keyOf(week)}
+        style={[styles.weekChip, active && styles.weekChipSelected]}
+        onPress={() => setSelectedKey(keyOf(week))}
+      >
+        <Text style={[styles.weekChipText, active && styles.weekChipTextSelected]}>
+          {week === current ? t('reports.last7Days') : formatShortDate(week.weekEnd)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('reports.title')}</Text>
+        <TouchableOpacity onPress={() => router.push('/notification-settings')} style={styles.backButton}>
+          <Ionicons name="settings-outline" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : !selected || !comparison ? (
+        <View style={styles.centered}>
+          <Ionicons name="bar-chart-outline" size={48} color={colors.textSecondary} />
+          <Text style={styles.emptyText}>{t('reports.empty')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadReports();
+              }}
+              tintColor={colors.primary}
+            />
+          }
+        >
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.weekList}>
+            {weeks.map(renderWeek)}
+          </ScrollView>
+
+          <Text style={styles.range}>
+            {t('reports.range', { start: formatShortDate(selected.weekStart), end: formatShortDate(selected.weekEnd) })}
+            {isLive ? t('reports.notSaved') : ''}
+            {previous ? t('reports.compared') : ''}
+          </Text>
+
+          {/* Headline numbers */}
+          <View style={styles.metricGrid}>
+            <Metric
+              label={t('reports.hoursStudied')}
+              value={t('reports.hoursValue', { hours: selected.totalHours })}
+              change={comparison.hours}
+              unit={t('reports.hoursUnit')}
+            />
+            <Metric label={t('reports.sessions')} value={String(selected.sessionCount)} change={comparison.sessions} />
+            <Metric
+              label={selected.tasksCompleted === null ? t('reports.tasksCompletedAllTime') : t('reports.tasksCompleted')}
+              value={String(selected.tasksCompleted ?? selected.tasksCompletedTotal)}
+              change={comparison.tasksCompleted}
+            />
+            <Metric
+              label={t('reports.tasksOverdue')}
+              value={String(selected.tasksOverdue)}
+              change={comparison.tasksOverdue}
+              lowerIsBetter
+            />
+            <Metric
+              label={t('reports.effectiveness')}
+              value={selected.averageEffectiveness === null ? '–' : `${selected.averageEffectiveness}/5`}
+              change={comparison.effectiveness}
+            />
+            <Metric
+              label={t('reports.burnoutScore')}
+              value={selected.burnoutScore === null ? '–' : String(selected.burnoutScore)}
+              change={comparison.burnoutScore}
+              lowerIsBetter
+            />
+          </View>
+
+          {/* Week over week */}
+          {chartWeeks.length > 1 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('reports.hoursPerWeek')}</Text>
+              <View style={styles.weekChart}>
+                {chartWeeks.map((week) => (
+                  <TouchableOpacity
+                    key={keyOf(week)}
+                    style={styles.weekBarColumn}
+                    onPress={() => setSelectedKey(keyOf(week))}
+                  >
+                    <View
+                      style={[
+                        styles.weekBar,
+                        { height: `${Math.max(4, (week.totalHours / maxWeekHours) * 100)}%` },
+                        week === selected && styles.weekBarSelected,
+                      ]}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Courses */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('reports.hoursPerCourse')}</Text>
+            {selected.courseHours.length === 0 ? (
+              <Text style={styles.cardEmpty}>{t('reports.noSessions')}</Text>
+            ) : (
+              selected.courseHours.map((course) => (
+                <View key={course.courseId} style={styles.courseRow}>
+                  <Text style={styles.courseName} numberOfLines={1}>{course.courseName}</Text>
+                  <View style={styles.courseTrack}>
+                    <View style={[styles.courseBar, { width: `${(course.hours / maxCourseHours) * 100}%` }]} />
+                  </View>
+                  <Text style={styles.courseHours}>{t('reports.hoursValue', { hours: course.hours })}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Days */}
+          {selected.dailyHours.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('reports.dailyHours')}</Text>
+              <View style={styles.dayChart}>
+                {selected.dailyHours.map((day) => (
+                  <View key={day.date} style={styles.dayColumn}>
+                    <View style={styles.dayTrack}>
+                      <View style={[styles.dayBar, { height: `${(day.hours / maxDayHours) * 100}%` }]} />
+                    </View>
+                    <Text style={styles.dayLabel}>{formatWeekday(new Date(`${day.date}T12:00:00`).getDay(), 'narrow')}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* Peak hours */}
+          <View style={[styles.card, styles.lastCard]}>
+            <Text style={styles.cardTitle}>{t('reports.peakHours')}</Text>
+            {selected.peakHours.length === 0 ? (
+              <Text style={styles.cardEmpty}>{t('reports.noPeakHours')}</Text>
+            ) : (
+              <View style={styles.peakRow}>
+                {selected.peakHours.map((hour) => (
+                  <View key={hour} style={styles.peakChip}>
+                    <Ionicons name="flash" size={14} color={colors.warning} />
+                    <Text style={styles.peakText}>{formatHour(hour)}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginTop: 12,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  weekList: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  weekChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: colors.card,
+    borderRadius: 20,
+    marginRight: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  weekChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  weekChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  weekChipTextSelected: {
+    color: colors.onPrimary,
+  },
+  range: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  metricGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  metric: {
+    width: '48%',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  metricValue: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  metricLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  metricChange: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  changeGood: {
+    color: colors.success,
+  },
+  changeBad: {
+    color: colors.error,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  lastCard: {
+    marginBottom: 40,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  cardEmpty: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  weekChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 80,
+    gap: 6,
+  },
+  weekBarColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  weekBar: {
+    backgroundColor: colors.border,
+    borderRadius: 4,
+  },
+  weekBarSelected: {
+    backgroundColor: colors.primary,
+  },
+  courseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  courseName: {
+    width: 100,
+    fontSize: 13,
+    color: colors.text,
+  },
+  courseTrack: {
+    flex: 1,
+    height: 8,
+    backgroundColor: colors.background,
+    borderRadius: 4,
+    marginHorizontal: 8,
+    overflow: 'hidden',
+  },
+  courseBar: {
+    height: '100%',
+    backgroundColor: colors.primary,
+    borderRadius: 4,
+  },
+  courseHours: {
+    width: 44,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.success,
+    textAlign: 'right',
+  },
+  dayChart: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dayColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dayTrack: {
+    width: '100%',
+    height: 80,
+    justifyContent: 'flex-end',
+  },
+  dayBar: {
+    backgroundColor: colors.success,
+    borderRadius: 4,
+  },
+  dayLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 6,
+  },
+  peakRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  peakChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.background,
+  },
+  peakText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+});
@@ -0,0 +1,713 @@
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getCurrentUser } from '../services/authService';
+import { getCourses } from '../services/courseServiceFirestore';
+import {
+  createStudySession,
+  deleteStudySession,
+  getStudySessions,
+  updateStudySession,
+} from '../services/studyServiceFirestore';
+import { getTasks } from '../services/taskServiceFirestore';
+import { Course, StudySession, Task, TaskStatus } from '../types';
+
+type Rating = 1 | 2 | 3 | 4 | 5;
+
+interface SessionForm {
+  courseId: string;
+  taskId: string | null;
+  date: Date;
+  duration: string;
+  topic: string;
+  notes: string;
+  effectiveness: Rating | null;
+}
+
+const emptyForm = (courseId = ''): SessionForm => ({
+  courseId,
+  taskId: null,
+  date: new Date(),
+  duration: '',
+  topic: '',
+  notes: '',
+  effectiveness: null,
+});
+
+const formatDuration = (minutes: number) => {
+  const hrs = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hrs === 0) return `${mins}m`;
+  return mins === 0 ? `${hrs}h` : `${hrs}h ${mins}m`;
+};
+
+export default function StudyLogScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate, formatTime } = useTranslation();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [formVisible, setFormVisible] = useState(false);
+  const [editing, setEditing] = useState<StudySession | null>(null);
+  const [form, setForm] = useState<SessionForm>(emptyForm());
+  const [picker, setPicker] = useState<'date' | 'time' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const formatDay = (date: Date) => {
+    const today = new Date();
+    const yesterday = new Date();
+    yesterday.setDate(today.getDate() - 1);
+
+    if (date.toDateString() === today.toDateString()) return t('common.today');
+    if (date.toDateString() === yesterday.toDateString()) return t('common.yesterday');
+    return formatDate(date, { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
+  const loadData = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) return;
+
+      const [sessionsData, coursesData, tasksData] = await Promise.all([
+        getStudySessions(user.id),
+        getCourses(user.id),
+        getTasks(user.id),
+      ]);
+      setSessions(sessionsData);
+      setCourses(coursesData);
+      setTasks(tasksData);
+    } catch (error) {
+      console.error('Failed to load study log:', error);
+      Alert.alert(t('common.error'), t('studyLog.loadFailed'));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [t]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  const updateForm = (updates: Partial<SessionForm>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  const openNewSession = () => {
+    setEditing(null);
+    setForm(emptyForm(courses[0]?.id));
+    setFormVisible(true);
+  };
+
+  const openSession = (session: StudySession) => {
+    setEditing(session);
+    setForm({
+      courseId: session.courseId,
+      taskId: session.taskId || null,
+      date: session.date,
+      duration: String(session.duration),
+      topic: session.topic || '',
+      notes: session.notes || '',
+      effectiveness: session.effectiveness || null,
+    });
+    setFormVisible(true);
+  };
+
+  const closeForm = () => {
+    setFormVisible(false);
+    setPicker(null);
+    setEditing(null);
+  };
+
+  const handlePickerChange = (selected?: Date) => {
+    const mode = picker;
+    setPicker(Platform.OS === 'ios' ? mode : null);
+    if (!selected || !mode) return;
+
+    const date = new Date(form.date);
+    if (mode === 'date') {
+      date.setFullYear(selected.getFullYear(), selected.getMonth(), selected.getDate());
+    } else {
+      date.setHours(selected.getHours(), selected.getMinutes(), 0, 0);
+    }
+    updateForm({ date });
+  };
+
+  const handleSave = async () => {
+    if (!form.courseId) {
+      Alert.alert(t('common.error'), t('tasks.form.courseRequired'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        Alert.alert(t('common.error'), t('studySession.loginFirst'));
+        return;
+      }
+
+      const fields = {
+        courseId: form.courseId,
+        taskId: form.taskId || undefined,
+        date: form.date,
+        duration: parseInt(form.duration) || 0,
+        topic: form.topic.trim() || undefined,
+        notes: form.notes.trim() || undefined,
+        effectiveness: form.effectiveness || undefined,
+      };
+
+      if (editing) {
+        await updateStudySession(editing, fields);
+      } else {
+        await createStudySession({ ...fields, userId: user.id, source: 'manual' });
+      }
+
+      closeForm();
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save study session:', error);
+      Alert.alert(t('studyLog.saveFailedTitle'), error instanceof Error ? error.message : t('studyLog.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = (session: StudySession) => {
+    Alert.alert(
+      t('studyLog.deleteTitle'),
+      t('studyLog.deleteMessage', { duration: formatDuration(session.duration), day: formatDay(session.date) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteStudySession(session);
+              if (editing?.id === session.id) closeForm();
+              await loadData();
+            } catch (error) {
+              console.error('Failed to delete study session:', error);
+              Alert.alert(t('common.error'), t('studyLog.deleteFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const courseName = (courseId: string) => courses.find((course) => course.id === courseId)?.name || t('studyLog.unknownCourse');
+  const taskTitle = (taskId?: string) => (taskId ? tasks.find((task) => task.id === taskId)?.title : undefined);
+
+  // Sessions are sorted newest first, so days come out in order
+  const days: { label: string; minutes: number; sessions: StudySession[] }[] = [];
+  sessions.forEach((session) => {
+    const label = formatDay(session.date);
+    const last = days[days.length - 1];
+    if (last && last.label === label) {
+      last.sessions.push(session);
+      last.minutes += session.duration;
+    } else {
+      days.push({ label, minutes: session.duration, sessions: [session] });
+    }
+  });
+
+  const courseTasks = tasks.filter(
+    (task) => task.courseId === form.courseId && (task.status !== TaskStatus.COMPLETED || task.id === form.taskId)
+  );
+
+  const renderSession = (session: StudySession) => {
+    const task = taskTitle(session.taskId);
+    return (
+      <TouchableOpacity key={session.id} style={styles.sessionCard} onPress={() => openSession(session)}>
+        <View style={styles.sessionInfo}>
+          <Text style={styles.sessionCourse} numberOfLines={1}>{courseName(session.courseId)}</Text>
+          <Text style={styles.sessionMeta} numberOfLines={1}>
+            {formatTime(session.date)}
+            {session.topic ? ` · ${session.topic}` : ''}
+            {task ? ` · ${task}` : ''}
+          </Text>
+          {(session.source === 'manual' || session.updatedAt) && (
+            <Text style={styles.sessionHistory}>
+              {session.source === 'manual' ? t('studyLog.manual') : t('studyLog.timed')}
+              {session.updatedAt ? t('studyLog.edited', { day: formatDay(session.updatedAt).toLowerCase() }) : ''}
+            </Text>
+          )}
+        </View>
+        <Text style={styles.sessionDuration}>{formatDuration(session.duration)}</Text>
+        <TouchableOpacity style={styles.deleteButton} onPress={() => confirmDelete(session)}>
+          <Ionicons name="trash-outline" size={18} color={colors.error} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('studyLog.title')}</Text>
+        <TouchableOpacity onPress={openNewSession} style={styles.backButton}>
+          <Ionicons name="add" size={24} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={() => {
+                setRefreshing(true);
+                loadData();
+              }}
+              tintColor={colors.primary}
+            />
+          }
+        >
+          {days.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="book-outline" size={48} color={colors.textSecondary} />
+              <Text style={styles.emptyTitle}>{t('studyLog.emptyTitle')}</Text>
+              <Text style={styles.emptyText}>
+                {t('studyLog.emptyText')}
+              </Text>
+              <TouchableOpacity style={styles.primaryButton} onPress={openNewSession}>
+                <Text style={styles.primaryButtonText}>{t('studyLog.logPast')}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            days.map((day) => (
+              <View key={day.label} style={styles.section}>
+                <View style={styles.dayHeader}>
+                  <Text style={styles.dayLabel}>{day.label}</Text>
+                  <Text style={styles.dayTotal}>{formatDuration(day.minutes)}</Text>
+                </View>
+                {day.sessions.map(renderSession)}
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      <Modal visible={formVisible} animationType="slide" presentationStyle="pageSheet" onRequestClose={closeForm}>
+        <View style={styles.container}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={closeForm}>
+              <Text style={styles.modalCancel}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>{editing ? t('studyLog.editTitle') : t('studyLog.newTitle')}</Text>
+            <TouchableOpacity onPress={handleSave} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color={colors.primary} />
+              ) : (
+                <Text style={styles.modalSave}>{t('common.save')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            {/* Course */}
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('studyLog.course')}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {courses.map((course) => (
+                  <TouchableOpacity
+                    key={course.id}
+                    style={[styles.chip, form.courseId === course.id && styles.chipSelected]}
+                    onPress={() => updateForm({ courseId: course.id, taskId: null })}
+                  >
+                    <Text style={[styles.chipText, form.courseId === course.id && styles.chipTextSelected]}>
+                      {course.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+
+            {/* Task */}
+            {courseTasks.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.label}>{t('studySession.relatedTask')}</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <TouchableOpacity
+                    style={[styles.chip, form.taskId === null && styles.chipSelected]}
+                    onPress={() => updateForm({ taskId: null })}
+                  >
+                    <Text style={[styles.chipText, form.taskId === null && styles.chipTextSelected]}>{t('studySession.noTask')}</Text>
+                  </TouchableOpacity>
+                  {courseTasks.map((task) => (
+                    <TouchableOpacity
+                      key={task.id}
+                      style={[styles.chip, form.taskId === task.id && styles.chipSelected]}
+                      onPress={() => updateForm({ taskId: task.id })}
+                    >
+                      <Text style={[styles.chipText, form.taskId === task.id && styles.chipTextSelected]}>
+                        {task.title}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+                <Text style={styles.hint}>{t('studyLog.taskHint')}</Text>
+              </View>
+            )}
+
+            {/* When */}
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('studyLog.started')}</Text>
+              <View style={styles.row}>
+                <TouchableOpacity style={[styles.input, styles.rowField]} onPress={() => setPicker('date')}>
+                  <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} />
+                  <Text style={styles.inputText}>{formatDate(form.date)}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.input, styles.rowField]} onPress={() => setPicker('time')}>
+                  <Ionicons name="time-outline" size={18} color={colors.textSecondary} />
+                  <Text style={styles.inputText}>{formatTime(form.date)}</Text>
+                </TouchableOpacity>
+              </View>
+              {picker && (
+                <DateTimePicker
+                  value={form.date}
+                  mode={picker}
+                  display="default"
+                  onChange={(event, selectedDate) => handlePickerChange(selectedDate)}
+                  maximumDate={picker === 'date' ? new Date() : undefined}
+                />
+              )}
+            </View>
+
+            {/* Duration */}
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('studyLog.duration')}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t('studyLog.durationPlaceholder')}
+                placeholderTextColor={colors.textSecondary}
+                value={form.duration}
+                onChangeText={(text) => updateForm({ duration: text })}
+                keyboardType="number-pad"
+              />
+              {editing?.intervals?.length ? (
+                <Text style={styles.hint}>{t('studyLog.intervalsHint')}</Text>
+              ) : null}
+            </View>
+
+            {/* Topic */}
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('studySession.topic')}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t('studySession.topicPlaceholder')}
+                placeholderTextColor={colors.textSecondary}
+                value={form.topic}
+                onChangeText={(text) => updateForm({ topic: text })}
+              />
+            </View>
+
+            {/* Effectiveness */}
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('studySession.effectiveness')}</Text>
+              <View style={styles.ratingContainer}>
+                {([1, 2, 3, 4, 5] as Rating[]).map((rating) => (
+                  <TouchableOpacity
+                    key={rating}
+                    style={[styles.ratingButton, form.effectiveness === rating && styles.chipSelected]}
+                    onPress={() => updateForm({ effectiveness: form.effectiveness === rating ? null : rating })}
+                  >
+                    <Text style={[styles.ratingText, form.effectiveness === rating && styles.chipTextSelected]}>
+                      {rating}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            {/* Notes */}
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('studySession.notes')}</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                placeholder={t('studySession.notesPlaceholder')}
+                placeholderTextColor={colors.textSecondary}
+                value={form.notes}
+                onChangeText={(text) => updateForm({ notes: text })}
+                multiline
+                numberOfLines={4}
+                textAlignVertical="top"
+              />
+            </View>
+
+            {editing && (
+              <TouchableOpacity style={styles.deleteTextButton} onPress={() => confirmDelete(editing)}>
+                <Text style={styles.deleteTextButtonText}>{t('studyLog.deleteSession')}</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 10,
+  },
+  dayLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  dayTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  sessionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sessionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sessionCourse: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sessionMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  sessionHistory: {
+    fontSize: 12,
+    color: colors.warning,
+    marginTop: 4,
+  },
+  sessionDuration: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.success,
+    fontVariant: ['tabular-nums'],
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+    paddingHorizontal: 20,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 20,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalCancel: {
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  modalSave: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.primary,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  inputText: {
+    fontSize: 16,
+    color: colors.text,
+    marginLeft: 8,
+  },
+  textArea: {
+    minHeight: 100,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: colors.card,
+    borderRadius: 20,
+    marginRight: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.onPrimary,
+  },
+  ratingContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  ratingButton: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: colors.card,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: colors.border,
+  },
+  ratingText: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.textSecondary,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  deleteTextButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    marginBottom: 40,
+  },
+  deleteTextButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.error,
+  },
+});
@@ -1,11 +1,9 @@
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { router, useFocusEffect } from 'expo-router';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
-  AppState,
   ScrollView,
   StyleSheet,
   Text,
@@ -13,92 +11,64 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import { STUDY_CONFIG } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useStudySession } from '../contexts/StudySessionContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { getCurrentUser } from '../services/authService';
 import { getCourses } from '../services/courseServiceFirestore';
 import { createStudySession } from '../services/studyServiceFirestore';
 import { getTasks } from '../services/taskServiceFirestore';
+import { StudyMode } from '../types';
 
-// Helper function to get user-specific storage key
-const getStudySessionKey = (userId: string) => `@study_session_state_${userId}`;
-
-const COLORS = {
-  background: '#0A0E27',
-  card: '#1A1F3A',
-  primary: '#667EEA',
-  text: '#FFFFFF',
-  textSecondary: '#94A3B8',
-  border: '#2D3250',
-  success: '#10B981',
-  error: '#EF4444',
-  warning: '#F59E0B',
-};
+const MODES: { mode: StudyMode; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { mode: 'free', icon: 'stopwatch-outline' },
+  { mode: 'pomodoro', icon: 'timer-outline' },
+  { mode: 'custom', icon: 'options-outline' },
+  { mode: 'flow', icon: 'water-outline' },
+];
 
 export default function StudySessionScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const { state, actions } = useStudySession();
+  const {
+    selectedCourse,
+    selectedTask,
+    topic,
+    targetDuration,
+    notes,
+    effectiveness,
+    isActive,
+    isPaused,
+    elapsedSeconds,
+    targetSeconds,
+  } = state;
+  const { restoreFromStorage, updateSessionData } = actions;
+
   const [loading, setLoading] = useState(false);
   const [courses, setCourses] = useState<any[]>([]);
   const [tasks, setTasks] = useState<any[]>([]);
-  const [selectedCourse, setSelectedCourse] = useState('');
-  const [selectedTask, setSelectedTask] = useState<string | null>(null);
-  const [topic, setTopic] = useState('');
-  const [targetDuration, setTargetDuration] = useState('');
-  const [notes, setNotes] = useState('');
-  const [effectiveness, setEffectiveness] = useState<1 | 2 | 3 | 4 | 5 | null>(null);
-  
-  // Timer states
-  const [isTimerRunning, setIsTimerRunning] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [elapsedSeconds, setElapsedSeconds] = useState(0);
-  const [targetSeconds, setTargetSeconds] = useState(0);
-  const [hasActiveSession, setHasActiveSession] = useState(false);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimeRef = useRef<Date | null>(null);
-  const isManualActionRef = useRef(false); // Track manual pause/resume to prevent restoration conflicts
-
-  useEffect(() => {
-    loadCourses();
-    loadTasks();
-    checkForActiveSession();
-  }, []);
-
-  const checkForActiveSession = async () => {
-    try {
-      const user = await getCurrentUser();
-      if (!user) {
-        setHasActiveSession(false);
-        return;
-      }
-
-      const storageKey = getStudySessionKey(user.id);
-      const savedState = await AsyncStorage.getItem(storageKey);
-      
-      if (savedState) {
-        const state = JSON.parse(savedState);
-        // Validate that the session belongs to current user
-        if (state.userId === user.id) {
-          const hasSession = true;
-          console.log('[Study Session] Checking for active session:', hasSession);
-          
-          // Only show active session card if timer is not currently running
-          if (hasSession && !isTimerRunning) {
-            setHasActiveSession(true);
-          } else {
-            setHasActiveSession(false);
-          }
-        } else {
-          console.log('[Study Session] Session belongs to different user, clearing...');
-          await AsyncStorage.removeItem(storageKey);
-          setHasActiveSession(false);
-        }
-      } else {
-        setHasActiveSession(false);
+  const [mode, setMode] = useState<StudyMode>('free');
+  const [customWork, setCustomWork] = useState(String(STUDY_CONFIG.defaultSessionDuration));
+  const [customBreak, setCustomBreak] = useState(String(STUDY_CONFIG.defaultBreakDuration));
+  const isActiveRef = useRef(isActive);
+  isActiveRef.current = isActive;
+  const selectedCourseRef = useRef(selectedCourse);
+  selectedCourseRef.current = selectedCourse;
+
+  // Pick up a session saved before sign-in or by an earlier app run
+  useFocusEffect(
+    useCallback(() => {
+      if (!isActiveRef.current) {
+        restoreFromStorage();
       }
-    } catch (error) {
-      console.error('Failed to check for active session:', error);
-      setHasActiveSession(false);
-    }
-  };
+    }, [restoreFromStorage])
+  );
 
-  const loadCourses = async () => {
+  const loadCourses = useCallback(async () => {
     try {
       const user = await getCurrentUser();
       if (!user) return;
@@ -106,15 +76,15 @@ export default function StudySessionScreen() {
       const coursesData = await getCourses(user.id);
       setCourses(coursesData);
       
-      if (coursesData.length > 0) {
-        setSelectedCourse(coursesData[0].id);
+      if (coursesData.length > 0 && !selectedCourseRef.current) {
+        updateSessionData({ selectedCourse: coursesData[0].id });
       }
     } catch (error) {
       console.error('Failed to load courses:', error);
     }
-  };
+  }, [updateSessionData]);
 
-  const loadTasks = async () => {
+  const loadTasks = useCallback(async () => {
     try {
       const user = await getCurrentUser();
       if (!user) return;
@@ -126,282 +96,31 @@ export default function StudySessionScreen() {
     } catch (error) {
       console.error('Failed to load tasks:', error);
     }
-  };
-
-  // Save state to AsyncStorage
-  const saveState = async () => {
-    try {
-      const user = await getCurrentUser();
-      if (!user) {
-        console.log('[Study Session] Cannot save - no user logged in');
-        return;
-      }
-
-      // Save if: timer running, timer paused, or has elapsed time
-      const shouldSave = isTimerRunning || isPaused || elapsedSeconds > 0;
-      
-      if (!shouldSave) {
-        console.log('[Study Session] No active session to save (no timer, no elapsed time)');
-        return;
-      }
-      
-      const state = {
-        userId: user.id, // Store user ID for validation
-        selectedCourse,
-        selectedTask,
-        topic,
-        targetDuration,
-        notes,
-        effectiveness,
-        isTimerRunning,
-        isPaused,
-        elapsedSeconds,
-        targetSeconds,
-        startTime: startTimeRef.current?.toISOString(),
-        savedAt: new Date().toISOString(), // Track when state was saved
-      };
-      
-      console.log('[Study Session] 💾 Saving state for user:', user.id, { 
-        isTimerRunning, 
-        isPaused, 
-        elapsedSeconds,
-        course: selectedCourse,
-        savedAt: state.savedAt 
-      });
-      
-      const storageKey = getStudySessionKey(user.id);
-      await AsyncStorage.setItem(storageKey, JSON.stringify(state));
-      setHasActiveSession(true);
-      
-      console.log('[Study Session] ✅ State saved successfully');
-    } catch (error) {
-      console.error('[Study Session] ❌ Failed to save session state:', error);
-    }
-  };
-
-  // Restore state from AsyncStorage
-  const restoreState = async () => {
-    try {
-      const user = await getCurrentUser();
-      if (!user) {
-        console.log('[Study Session] Cannot restore - no user logged in');
-        return;
-      }
-
-      // Skip restoration if user just clicked pause/resume to prevent conflicts
-      if (isManualActionRef.current) {
-        console.log('[Study Session] ⚠️  Skipping restore - manual action in progress');
-        return;
-      }
-      
-      const storageKey = getStudySessionKey(user.id);
-      const savedState = await AsyncStorage.getItem(storageKey);
-      console.log('[Study Session] 🔍 Checking for saved state:', !!savedState);
-      
-      if (!savedState) {
-        console.log('[Study Session] ℹ️  No saved state found');
-        return;
-      }
-
-      const state = JSON.parse(savedState);
-      
-      // CRITICAL: Validate that the session belongs to current user
-      if (state.userId !== user.id) {
-        console.log('[Study Session] ⚠️  Session belongs to different user, clearing...');
-        await AsyncStorage.removeItem(storageKey);
-        return;
-      }
-
-      const savedAt = state.savedAt ? new Date(state.savedAt).toLocaleTimeString() : 'unknown';
-      
-      console.log('[Study Session] 📦 Restoring state from:', savedAt);
-      console.log('[Study Session] 📊 State details:', {
-        isTimerRunning: state.isTimerRunning,
-        isPaused: state.isPaused,
-        elapsedSeconds: state.elapsedSeconds,
-        course: state.selectedCourse,
-        task: state.selectedTask,
-        topic: state.topic
-      });
-      
-      // Restore form data first
-      setSelectedCourse(state.selectedCourse || '');
-      setSelectedTask(state.selectedTask || null);
-      setTopic(state.topic || '');
-      setTargetDuration(state.targetDuration || '');
-      setNotes(state.notes || '');
-      setEffectiveness(state.effectiveness || null);
-      setTargetSeconds(state.targetSeconds || 0);
-      
-      // Restore timer state
-      if (state.isTimerRunning) {
-        if (!state.isPaused) {
-          // Calculate elapsed time since we left (for running timer)
-          const savedStartTime = state.startTime ? new Date(state.startTime) : new Date();
-          const now = new Date();
-          const elapsedSinceStart = Math.floor((now.getTime() - savedStartTime.getTime()) / 1000);
-          
-          console.log('[Study Session] ▶️  Resuming RUNNING timer');
-          console.log('[Study Session] ⏱️  Time calculation:', {
-            savedStart: savedStartTime.toISOString(),
-            now: now.toISOString(),
-            elapsed: elapsedSinceStart,
-            formatted: formatTime(elapsedSinceStart)
-          });
-          
-          setElapsedSeconds(elapsedSinceStart);
-          startTimeRef.current = savedStartTime;
-          setIsTimerRunning(true);
-          setIsPaused(false);
-          
-          // Resume timer interval
-          if (timerRef.current) {
-            clearInterval(timerRef.current);
-          }
-          timerRef.current = setInterval(() => {
-            setElapsedSeconds(prev => prev + 1);
-          }, 1000) as any;
-          
-          console.log('[Study Session] ✅ Running timer restored successfully');
-        } else {
-          // Restore paused state (use saved elapsed time)
-          console.log('[Study Session] ⏸️  Restoring PAUSED timer');
-          console.log('[Study Session] ⏱️  Elapsed time:', state.elapsedSeconds, '=', formatTime(state.elapsedSeconds));
-          
-          setElapsedSeconds(state.elapsedSeconds);
-          startTimeRef.current = state.startTime ? new Date(state.startTime) : null;
-          setIsTimerRunning(true);
-          setIsPaused(true);
-          
-          console.log('[Study Session] ✅ Paused timer restored successfully');
-        }
-        
-        // Hide the active session card since we're restoring directly to timer
-        setHasActiveSession(false);
-      } else {
-        console.log('[Study Session] ⚠️  Timer was not running when saved');
-      }
-    } catch (error) {
-      console.error('[Study Session] ❌ Failed to restore session state:', error);
-    }
-  };
-
-  // Clear saved state
-  const clearSavedState = async () => {
-    try {
-      const user = await getCurrentUser();
-      if (user) {
-        const storageKey = getStudySessionKey(user.id);
-        await AsyncStorage.removeItem(storageKey);
-      }
-      setHasActiveSession(false);
-    } catch (error) {
-      console.error('Failed to clear session state:', error);
-    }
-  };
+  }, []);
 
-  const resumeActiveSession = async () => {
-    console.log('[Study Session] 🔄 Manual resume requested via button...');
-    
-    // Use centralized restoration logic (DRY principle)
-    await restoreState();
-    
-    // Hide the active session card after resuming
-    setHasActiveSession(false);
-    
-    console.log('[Study Session] ✅ Manual resume complete');
-  };
+  useEffect(() => {
+    loadCourses();
+    loadTasks();
+  }, [loadCourses, loadTasks]);
 
   const discardActiveSession = () => {
     Alert.alert(
-      'Discard Study Session?',
-      'This will permanently delete your current study session. This action cannot be undone.',
+      t('studySession.discardTitle'),
+      t('studySession.discardMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Discard', 
+          text: t('studySession.discard'), 
           style: 'destructive',
-          onPress: async () => {
+          onPress: () => {
             console.log('[Study Session] Discarding session...');
-            
-            // Clear timer first
-            if (timerRef.current) {
-              clearInterval(timerRef.current);
-              timerRef.current = null;
-            }
-            
-            // Clear AsyncStorage
-            await clearSavedState();
-            
-            // Reset all state
-            setIsTimerRunning(false);
-            setIsPaused(false);
-            setElapsedSeconds(0);
-            setTargetSeconds(0);
-            startTimeRef.current = null;
-            setSelectedCourse(courses.length > 0 ? courses[0].id : '');
-            setSelectedTask(null);
-            setTopic('');
-            setTargetDuration('');
-            setNotes('');
-            setEffectiveness(null);
-            setHasActiveSession(false);
-            
-            console.log('[Study Session] Session discarded successfully');
+            actions.discardSession();
           }
         }
       ]
     );
   };
 
-  // Restore state when screen focuses
-  // Use ref to prevent infinite loop from state changes during restoration
-  const isRestoringRef = useRef(false);
-  
-  useFocusEffect(
-    useCallback(() => {
-      console.log('[Study Session] Screen focused');
-      
-      // Only restore if not already restoring
-      if (!isRestoringRef.current) {
-        isRestoringRef.current = true;
-        restoreState().finally(() => {
-          isRestoringRef.current = false;
-        });
-      }
-      
-      return () => {
-        console.log('[Study Session] Screen unfocused, saving state...');
-        // Save state on blur (will check inside saveState if there's anything to save)
-        saveState();
-      };
-    }, []) // EMPTY DEPS - only run on focus/blur, not on state changes
-  );
-
-  // Handle app state changes (background/foreground)
-  useEffect(() => {
-    const subscription = AppState.addEventListener('change', (nextAppState) => {
-      if (nextAppState === 'background') {
-        saveState();
-      } else if (nextAppState === 'active') {
-        restoreState();
-      }
-    });
-
-    return () => {
-      subscription.remove();
-    };
-  }, []);
-
-  // Cleanup timer on unmount
-  useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, []);
-
   const formatTime = (seconds: number) => {
     const hrs = Math.floor(seconds / 3600);
     const mins = Math.floor((seconds % 3600) / 60);
@@ -414,102 +133,48 @@ export default function StudySessionScreen() {
     return Math.max(0, targetSeconds - elapsedSeconds);
   };
 
-  const startTimer = () => {
+  const startTimer = async () => {
     if (!selectedCourse) {
-      Alert.alert('Error', 'Please select a course first');
+      Alert.alert(t('common.error'), t('studySession.selectCourseFirst'));
       return;
     }
 
-    const target = targetDuration ? parseInt(targetDuration) * 60 : 0;
-    setTargetSeconds(target);
-    setIsTimerRunning(true);
-    setIsPaused(false);
-    startTimeRef.current = new Date();
-
-    timerRef.current = setInterval(() => {
-      setElapsedSeconds(prev => prev + 1);
-    }, 1000) as any;
-  };
-
-  const pauseTimer = async () => {
-    console.log('[Study Session] ⏸️  User clicked PAUSE button');
-    
-    // Mark as manual action to prevent restoration conflicts
-    isManualActionRef.current = true;
-    
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
+    const targetMinutes = mode === 'free' && targetDuration ? parseInt(targetDuration) || 0 : 0;
+    try {
+      await actions.startSession(selectedCourse, targetMinutes, {
+        mode,
+        cycle: mode === 'custom'
+          ? { workMinutes: parseInt(customWork) || undefined, breakMinutes: parseInt(customBreak) || undefined }
+          : undefined,
+      });
+    } catch (error) {
+      console.error('Failed to start study session:', error);
+      Alert.alert(t('common.error'), t('studySession.startFailed'));
     }
-    
-    setIsPaused(true);
-    
-    // Save state immediately after pausing
-    setTimeout(async () => {
-      await saveState();
-      isManualActionRef.current = false;
-      console.log('[Study Session] ✅ Paused and saved');
-    }, 100);
-  };
-
-  const resumeTimer = () => {
-    console.log('[Study Session] ▶️  User clicked RESUME button');
-    
-    // Mark as manual action
-    isManualActionRef.current = true;
-    
-    setIsPaused(false);
-    
-    timerRef.current = setInterval(() => {
-      setElapsedSeconds(prev => prev + 1);
-    }, 1000) as any;
-    
-    // Save state after resuming
-    setTimeout(async () => {
-      await saveState();
-      isManualActionRef.current = false;
-      console.log('[Study Session] ✅ Resumed and saved');
-    }, 100);
   };
 
   const stopTimer = () => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    
     if (elapsedSeconds < 60) {
-      Alert.alert('Too Short', 'Please study for at least 1 minute before logging.');
+      Alert.alert(t('studySession.tooShortTitle'), t('studySession.tooShort'));
       return;
     }
 
-    // Show effectiveness rating before saving
+    // Hold the clock while the student decides
+    actions.pauseSession();
+
     Alert.alert(
-      'Study Session Complete',
-      `Total time: ${formatTime(elapsedSeconds)}`,
+      t('studySession.completeTitle'),
+      t('studySession.totalTime', { time: formatTime(elapsedSeconds) }),
       [
-        { text: 'Cancel', style: 'cancel', onPress: resetTimer },
-        { text: 'Save Session', onPress: () => handleSaveSession() }
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('studySession.saveSession'), onPress: () => handleSaveSession() }
       ]
     );
   };
 
-  const resetTimer = () => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-    setIsTimerRunning(false);
-    setIsPaused(false);
-    setElapsedSeconds(0);
-    setTargetSeconds(0);
-    startTimeRef.current = null;
-    clearSavedState();
-  };
-
   const handleSaveSession = async () => {
     if (!selectedCourse) {
-      Alert.alert('Error', 'Please select a course');
+      Alert.alert(t('common.error'), t('tasks.form.courseRequired'));
       return;
     }
 
@@ -517,10 +182,11 @@ export default function StudySessionScreen() {
     try {
       const user = await getCurrentUser();
       if (!user) {
-        Alert.alert('Error', 'Please log in first');
+        Alert.alert(t('common.error'), t('studySession.loginFirst'));
         return;
       }
 
+      const intervals = actions.getSessionIntervals();
       const durationMinutes = Math.round(elapsedSeconds / 60);
 
       await createStudySession({
@@ -531,87 +197,77 @@ export default function StudySessionScreen() {
         duration: durationMinutes,
         notes: notes || undefined,
         effectiveness: effectiveness || undefined,
-        date: startTimeRef.current || new Date(),
+        mode: state.mode,
+        intervals,
+        date: state.startTime || new Date(),
       });
 
-      await clearSavedState();
+      await actions.discardSession();
       
-      Alert.alert('Success', `Study session logged! (${durationMinutes} minutes)`, [
-        { text: 'OK', onPress: () => router.back() }
+      Alert.alert(t('common.success'), t('studySession.logged', { count: durationMinutes }), [
+        { text: t('common.ok'), onPress: () => router.back() }
       ]);
-      
-      resetTimer();
     } catch (error) {
       console.error('Failed to create study session:', error);
-      Alert.alert('Error', 'Failed to log study session');
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('studySession.logFailed'));
     } finally {
       setLoading(false);
     }
   };
 
+  const renderPhaseTimer = () => {
+    const openEnded = state.phaseTargetSeconds === 0;
+    const phaseRemaining = Math.max(0, state.phaseTargetSeconds - state.phaseElapsedSeconds);
+    const onBreak = state.phase !== 'work';
+
+    return (
+      <>
+        <View style={[styles.phaseBadge, onBreak && styles.phaseBadgeBreak]}>
+          <Text style={[styles.phaseBadgeText, onBreak && styles.phaseBadgeTextBreak]}>
+            {isPaused
+              ? t('studySession.pausedPhase', { phase: t(`studySession.phase.${state.phase}`) })
+              : t(`studySession.phase.${state.phase}`)}
+          </Text>
+        </View>
+        <Text style={styles.timerText}>
+          {openEnded ? formatTime(state.phaseElapsedSeconds) : formatTime(phaseRemaining)}
+        </Text>
+        {!openEnded && (
+          <View style={styles.progressContainer}>
+            <View
+              style={[
+                styles.progressBar,
+                { width: `${Math.min((state.phaseElapsedSeconds / state.phaseTargetSeconds) * 100, 100)}%` },
+                onBreak && styles.progressBarComplete
+              ]}
+            />
+          </View>
+        )}
+        <Text style={styles.targetText}>
+          {t('studySession.studied', { time: formatTime(elapsedSeconds), count: state.completedWorkIntervals })}
+        </Text>
+      </>
+    );
+  };
+
   return (
     <View style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
         <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-          <Ionicons name="arrow-back" size={24} color={COLORS.text} />
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('studySession.title')}</Text>
+        <TouchableOpacity onPress={() => router.push('/study-log')} style={styles.backButton}>
+          <Ionicons name="list" size={22} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.title}>Log Study Session</Text>
-        <View style={{ width: 40 }} />
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {/* Active Session Card */}
-        {hasActiveSession && !isTimerRunning && (
-          <View style={styles.activeSessionCard}>
-            <View style={styles.activeSessionHeader}>
-              <View style={styles.activeSessionBadge}>
-                <View style={styles.pulseDot} />
-                <Text style={styles.activeSessionBadgeText}>In Progress</Text>
-              </View>
-              <TouchableOpacity 
-                onPress={discardActiveSession}
-                style={styles.discardButton}
-                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-              >
-                <Ionicons name="trash-outline" size={20} color={COLORS.error} />
-              </TouchableOpacity>
-            </View>
-            
-            <View style={styles.activeSessionContent}>
-              <Ionicons name="time-outline" size={32} color={COLORS.primary} />
-              <View style={styles.activeSessionTextContainer}>
-                <Text style={styles.activeSessionTitle}>Active Study Session</Text>
-                <Text style={styles.activeSessionSubtitle}>
-                  Your timer is paused. Resume to continue tracking your study time.
-                </Text>
-              </View>
-            </View>
-            
-            <View style={styles.activeSessionActions}>
-              <TouchableOpacity 
-                style={styles.resumeMainButton} 
-                onPress={resumeActiveSession}
-                activeOpacity={0.8}
-              >
-                <Ionicons name="play-circle" size={24} color={COLORS.text} />
-                <Text style={styles.resumeButtonText}>Resume Session</Text>
-              </TouchableOpacity>
-              <TouchableOpacity 
-                style={styles.discardTextButton} 
-                onPress={discardActiveSession}
-                activeOpacity={0.7}
-              >
-                <Text style={styles.discardTextButtonText}>Start New Session</Text>
-              </TouchableOpacity>
-            </View>
-          </View>
-        )}
-
         {/* Course Selection */}
-        {!isTimerRunning && (
+        {!isActive && (
           <View style={styles.section}>
-            <Text style={styles.label}>Course *</Text>
+            <Text style={styles.label}>{t('tasks.form.course')}</Text>
             <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.courseList}>
               {courses.map((course) => (
                 <TouchableOpacity
@@ -620,7 +276,7 @@ export default function StudySessionScreen() {
                     styles.courseChip,
                     selectedCourse === course.id && styles.courseChipSelected
                   ]}
-                  onPress={() => setSelectedCourse(course.id)}
+                  onPress={() => updateSessionData({ selectedCourse: course.id })}
                 >
                   <Text style={[
                     styles.courseChipText,
@@ -635,22 +291,22 @@ export default function StudySessionScreen() {
         )}
 
         {/* Task Selection (Optional) */}
-        {!isTimerRunning && (
+        {!isActive && (
           <View style={styles.section}>
-            <Text style={styles.label}>Related Task (Optional)</Text>
+            <Text style={styles.label}>{t('studySession.relatedTask')}</Text>
           <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.courseList}>
             <TouchableOpacity
               style={[
                 styles.courseChip,
                 selectedTask === null && styles.courseChipSelected
               ]}
-              onPress={() => setSelectedTask(null)}
+              onPress={() => updateSessionData({ selectedTask: null })}
             >
               <Text style={[
                 styles.courseChipText,
                 selectedTask === null && styles.courseChipTextSelected
               ]}>
-                No Task
+                {t('studySession.noTask')}
               </Text>
             </TouchableOpacity>
             {tasks.map((task) => (
@@ -660,7 +316,7 @@ export default function StudySessionScreen() {
                   styles.courseChip,
                   selectedTask === task.id && styles.courseChipSelected
                 ]}
-                onPress={() => setSelectedTask(task.id)}
+                onPress={() => updateSessionData({ selectedTask: task.id })}
               >
                 <Text style={[
                   styles.courseChipText,
@@ -675,41 +331,93 @@ export default function StudySessionScreen() {
         )}
 
         {/* Topic */}
-        {!isTimerRunning && (
+        {!isActive && (
           <View style={styles.section}>
-            <Text style={styles.label}>Topic (Optional)</Text>
+            <Text style={styles.label}>{t('studySession.topic')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="What did you study?"
-              placeholderTextColor={COLORS.textSecondary}
+              placeholder={t('studySession.topicPlaceholder')}
+              placeholderTextColor={colors.textSecondary}
               value={topic}
-              onChangeText={setTopic}
+              onChangeText={(text) => updateSessionData({ topic: text })}
             />
           </View>
         )}
 
-        {/* Timer Display */}
-        {!isTimerRunning ? (
+        {/* Study Mode */}
+        {!isActive && (
           <View style={styles.section}>
-            <Text style={styles.label}>Target Duration (Optional)</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="e.g., 60 minutes"
-              placeholderTextColor={COLORS.textSecondary}
-              value={targetDuration}
-              onChangeText={setTargetDuration}
-              keyboardType="number-pad"
-              editable={!isTimerRunning}
-            />
-            <Text style={styles.hint}>Leave empty for open-ended session</Text>
+            <Text style={styles.label}>{t('studySession.mode')}</Text>
+            <View style={styles.modeGrid}>
+              {MODES.map((option) => (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={[styles.modeCard, mode === option.mode && styles.modeCardSelected]}
+                  onPress={() => setMode(option.mode)}
+                >
+                  <Ionicons
+                    name={option.icon}
+                    size={22}
+                    color={mode === option.mode ? colors.onPrimary : colors.textSecondary}
+                  />
+                  <Text style={[styles.modeLabel, mode === option.mode && styles.modeLabelSelected]}>
+                    {t(`studySession.modes.${option.mode}.label`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hint}>{t(`studySession.modes.${mode}.description`)}</Text>
+
+            {mode === 'custom' && (
+              <View style={styles.customRow}>
+                <View style={styles.customField}>
+                  <Text style={styles.customLabel}>{t('studySession.focusMinutes')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={customWork}
+                    onChangeText={setCustomWork}
+                    keyboardType="number-pad"
+                  />
+                </View>
+                <View style={styles.customField}>
+                  <Text style={styles.customLabel}>{t('studySession.breakMinutes')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={customBreak}
+                    onChangeText={setCustomBreak}
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+            )}
           </View>
+        )}
+
+        {/* Timer Display */}
+        {!isActive ? (
+          mode === 'free' && (
+            <View style={styles.section}>
+              <Text style={styles.label}>{t('studySession.target')}</Text>
+              <TextInput
+                style={styles.input}
+                placeholder={t('studySession.targetPlaceholder')}
+                placeholderTextColor={colors.textSecondary}
+                value={targetDuration}
+                onChangeText={(text) => updateSessionData({ targetDuration: text })}
+                keyboardType="number-pad"
+              />
+              <Text style={styles.hint}>{t('studySession.targetHint')}</Text>
+            </View>
+          )
         ) : (
           <View style={styles.timerSection}>
             <View style={styles.timerDisplay}>
-              {targetSeconds > 0 ? (
+              {state.mode !== 'free' ? (
+                renderPhaseTimer()
+              ) : targetSeconds > 0 ? (
                 <>
                   <Text style={styles.timerLabel}>
-                    {getRemainingSeconds() > 0 ? 'Time Remaining' : 'Extra Time'}
+                    {getRemainingSeconds() > 0 ? t('studySession.timeRemaining') : t('studySession.extraTime')}
                   </Text>
                   <Text style={[
                     styles.timerText,
@@ -730,43 +438,65 @@ export default function StudySessionScreen() {
                     />
                   </View>
                   <Text style={styles.targetText}>
-                    Elapsed: {formatTime(elapsedSeconds)} / {formatTime(targetSeconds)}
-                    {elapsedSeconds >= targetSeconds && ' ✅ Goal Reached!'}
+                    {t('studySession.elapsed', { elapsed: formatTime(elapsedSeconds), target: formatTime(targetSeconds) })}
+                    {elapsedSeconds >= targetSeconds && t('studySession.goalReached')}
                   </Text>
                 </>
               ) : (
                 <>
-                  <Text style={styles.timerLabel}>Study Time</Text>
+                  <Text style={styles.timerLabel}>{isPaused ? t('studySession.paused') : t('studySession.studyTime')}</Text>
                   <Text style={styles.timerText}>{formatTime(elapsedSeconds)}</Text>
-                  <Text style={styles.targetText}>No time limit set</Text>
+                  <Text style={styles.targetText}>{t('studySession.noLimit')}</Text>
                 </>
               )}
             </View>
 
             {/* Timer Controls */}
             <View style={styles.timerControls}>
-              {!isPaused ? (
-                <TouchableOpacity style={styles.pauseButton} onPress={pauseTimer}>
-                  <Ionicons name="pause" size={32} color={COLORS.text} />
-                  <Text style={styles.controlButtonText}>Pause</Text>
+              {state.isRunning && !isPaused ? (
+                <TouchableOpacity style={styles.pauseButton} onPress={actions.pauseSession}>
+                  <Ionicons name="pause" size={32} color={colors.onPrimary} />
+                  <Text style={styles.controlButtonText}>{t('studySession.pause')}</Text>
                 </TouchableOpacity>
               ) : (
-                <TouchableOpacity style={styles.resumeButton} onPress={resumeTimer}>
-                  <Ionicons name="play" size={32} color={COLORS.text} />
-                  <Text style={styles.controlButtonText}>Resume</Text>
+                <TouchableOpacity style={styles.resumeButton} onPress={actions.resumeSession}>
+                  <Ionicons name="play" size={32} color={colors.onPrimary} />
+                  <Text style={styles.controlButtonText}>{t('studySession.resume')}</Text>
+                </TouchableOpacity>
+              )}
+              {state.mode !== 'free' && (
+                <TouchableOpacity style={styles.skipButton} onPress={actions.nextPhase}>
+                  <Ionicons
+                    name={state.phase === 'work' ? 'cafe' : 'play-skip-forward'}
+                    size={32}
+                    color={colors.onPrimary}
+                  />
+                  <Text style={styles.controlButtonText}>
+                    {state.phase !== 'work'
+                      ? t('studySession.skipBreak')
+                      : state.mode === 'flow' ? t('studySession.takeBreak') : t('studySession.skip')}
+                  </Text>
                 </TouchableOpacity>
               )}
               <TouchableOpacity style={styles.stopButton} onPress={stopTimer}>
-                <Ionicons name="stop" size={32} color={COLORS.text} />
-                <Text style={styles.controlButtonText}>Finish</Text>
+                <Ionicons name="stop" size={32} color={colors.onPrimary} />
+                <Text style={styles.controlButtonText}>{t('studySession.finish')}</Text>
               </TouchableOpacity>
             </View>
+
+            <TouchableOpacity 
+              style={styles.discardTextButton} 
+              onPress={discardActiveSession}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.discardTextButtonText}>{t('studySession.discardSession')}</Text>
+            </TouchableOpacity>
           </View>
         )}
 
         {/* Effectiveness */}
         <View style={styles.section}>
-          <Text style={styles.label}>How effective was this session?</Text>
+          <Text style={styles.label}>{t('studySession.effectiveness')}</Text>
           <View style={styles.ratingContainer}>
             {[1, 2, 3, 4, 5].map((rating) => (
               <TouchableOpacity
@@ -775,7 +505,7 @@ export default function StudySessionScreen() {
                   styles.ratingButton,
                   effectiveness === rating && styles.ratingButtonSelected
                 ]}
-                onPress={() => setEffectiveness(rating as 1 | 2 | 3 | 4 | 5)}
+                onPress={() => updateSessionData({ effectiveness: rating as 1 | 2 | 3 | 4 | 5 })}
               >
                 <Text style={[
                   styles.ratingText,
@@ -786,18 +516,18 @@ export default function StudySessionScreen() {
               </TouchableOpacity>
             ))}
           </View>
-          <Text style={styles.ratingHint}>1 = Not effective, 5 = Very effective</Text>
+          <Text style={styles.ratingHint}>{t('studySession.effectivenessHint')}</Text>
         </View>
 
         {/* Notes */}
         <View style={styles.section}>
-          <Text style={styles.label}>Notes (Optional)</Text>
+          <Text style={styles.label}>{t('studySession.notes')}</Text>
           <TextInput
             style={[styles.input, styles.textArea]}
-            placeholder="Add any notes about this session..."
-            placeholderTextColor={COLORS.textSecondary}
+            placeholder={t('studySession.notesPlaceholder')}
+            placeholderTextColor={colors.textSecondary}
             value={notes}
-            onChangeText={setNotes}
+            onChangeText={(text) => updateSessionData({ notes: text })}
             multiline
             numberOfLines={4}
             textAlignVertical="top"
@@ -805,18 +535,18 @@ export default function StudySessionScreen() {
         </View>
 
         {/* Start Timer Button */}
-        {!isTimerRunning && (
+        {!isActive && (
           <TouchableOpacity
             style={[styles.startButton, loading && styles.saveButtonDisabled]}
             onPress={startTimer}
             disabled={loading || !selectedCourse}
           >
             {loading ? (
-              <ActivityIndicator color={COLORS.text} />
+              <ActivityIndicator color={colors.onPrimary} />
             ) : (
               <>
-                <Ionicons name="play-circle" size={28} color={COLORS.text} />
-                <Text style={styles.saveButtonText}>Start Study Session</Text>
+                <Ionicons name="play-circle" size={28} color={colors.onPrimary} />
+                <Text style={styles.saveButtonText}>{t('studySession.start')}</Text>
               </>
             )}
           </TouchableOpacity>
@@ -826,10 +556,10 @@ export default function StudySessionScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   header: {
     flexDirection: 'row',
@@ -839,20 +569,20 @@ const styles = StyleSheet.create({
     paddingBottom: 20,
     paddingHorizontal: 20,
     borderBottomWidth: 1,
-    borderBottomColor: COLORS.border,
+    borderBottomColor: colors.border,
   },
   backButton: {
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: COLORS.card,
+    backgroundColor: colors.card,
     alignItems: 'center',
     justifyContent: 'center',
   },
   title: {
     fontSize: 20,
     fontWeight: '700',
-    color: COLORS.text,
+    color: colors.text,
   },
   content: {
     flex: 1,
@@ -864,17 +594,17 @@ const styles = StyleSheet.create({
   label: {
     fontSize: 16,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 12,
   },
   input: {
-    backgroundColor: COLORS.card,
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: 16,
     fontSize: 16,
-    color: COLORS.text,
+    color: colors.text,
     borderWidth: 1,
-    borderColor: COLORS.border,
+    borderColor: colors.border,
   },
   textArea: {
     minHeight: 100,
@@ -885,23 +615,23 @@ const styles = StyleSheet.create({
   courseChip: {
     paddingHorizontal: 16,
     paddingVertical: 10,
-    backgroundColor: COLORS.card,
+    backgroundColor: colors.card,
     borderRadius: 20,
     marginRight: 10,
     borderWidth: 1,
-    borderColor: COLORS.border,
+    borderColor: colors.border,
   },
   courseChipSelected: {
-    backgroundColor: COLORS.primary,
-    borderColor: COLORS.primary,
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
   },
   courseChipText: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   courseChipTextSelected: {
-    color: COLORS.text,
+    color: colors.onPrimary,
   },
   ratingContainer: {
     flexDirection: 'row',
@@ -912,48 +642,48 @@ const styles = StyleSheet.create({
     width: 50,
     height: 50,
     borderRadius: 25,
-    backgroundColor: COLORS.card,
+    backgroundColor: colors.card,
     alignItems: 'center',
     justifyContent: 'center',
     borderWidth: 2,
-    borderColor: COLORS.border,
+    borderColor: colors.border,
   },
   ratingButtonSelected: {
-    backgroundColor: COLORS.primary,
-    borderColor: COLORS.primary,
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
   },
   ratingText: {
     fontSize: 18,
     fontWeight: '700',
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   ratingTextSelected: {
-    color: COLORS.text,
+    color: colors.onPrimary,
   },
   ratingHint: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   hint: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginTop: 4,
   },
   timerSection: {
     marginBottom: 24,
   },
   timerDisplay: {
-    backgroundColor: COLORS.card,
+    backgroundColor: colors.card,
     borderRadius: 20,
     padding: 32,
     alignItems: 'center',
     borderWidth: 2,
-    borderColor: COLORS.primary,
+    borderColor: colors.primary,
   },
   timerLabel: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginBottom: 8,
     textTransform: 'uppercase',
     letterSpacing: 1,
@@ -961,16 +691,16 @@ const styles = StyleSheet.create({
   timerText: {
     fontSize: 56,
     fontWeight: '700',
-    color: COLORS.primary,
+    color: colors.primary,
     fontVariant: ['tabular-nums'],
   },
   timerComplete: {
-    color: COLORS.success,
+    color: colors.success,
   },
   progressContainer: {
     width: '100%',
     height: 6,
-    backgroundColor: COLORS.border,
+    backgroundColor: colors.border,
     borderRadius: 3,
     marginTop: 20,
     marginBottom: 8,
@@ -978,15 +708,15 @@ const styles = StyleSheet.create({
   },
   progressBar: {
     height: '100%',
-    backgroundColor: COLORS.success,
+    backgroundColor: colors.success,
     borderRadius: 3,
   },
   progressBarComplete: {
-    backgroundColor: COLORS.warning,
+    backgroundColor: colors.warning,
   },
   targetText: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginTop: 4,
   },
   timerControls: {
@@ -997,7 +727,7 @@ const styles = StyleSheet.create({
   },
   pauseButton: {
     flex: 1,
-    backgroundColor: COLORS.warning,
+    backgroundColor: colors.warning,
     borderRadius: 12,
     padding: 16,
     alignItems: 'center',
@@ -1006,7 +736,7 @@ const styles = StyleSheet.create({
   },
   resumeButton: {
     flex: 1,
-    backgroundColor: COLORS.success,
+    backgroundColor: colors.success,
     borderRadius: 12,
     padding: 16,
     alignItems: 'center',
@@ -1015,7 +745,7 @@ const styles = StyleSheet.create({
   },
   stopButton: {
     flex: 1,
-    backgroundColor: COLORS.error,
+    backgroundColor: colors.error,
     borderRadius: 12,
     padding: 16,
     alignItems: 'center',
@@ -1025,10 +755,10 @@ const styles = StyleSheet.create({
   controlButtonText: {
     fontSize: 14,
     fontWeight: '700',
-    color: COLORS.text,
+    color: colors.onPrimary,
   },
   startButton: {
-    backgroundColor: COLORS.success,
+    backgroundColor: colors.success,
     borderRadius: 12,
     padding: 20,
     flexDirection: 'row',
@@ -1039,7 +769,7 @@ const styles = StyleSheet.create({
     marginBottom: 40,
   },
   saveButton: {
-    backgroundColor: COLORS.success,
+    backgroundColor: colors.success,
     borderRadius: 12,
     padding: 16,
     flexDirection: 'row',
@@ -1055,115 +785,89 @@ const styles = StyleSheet.create({
   saveButtonText: {
     fontSize: 18,
     fontWeight: '700',
-    color: COLORS.text,
+    color: colors.onPrimary,
   },
-  activeSessionCard: {
-    backgroundColor: COLORS.card,
-    borderRadius: 20,
-    padding: 24,
-    marginBottom: 24,
-    borderWidth: 2,
-    borderColor: COLORS.primary,
-    shadowColor: COLORS.primary,
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 8,
-    elevation: 8,
-  },
-  activeSessionHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
+  skipButton: {
+    flex: 1,
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    padding: 16,
     alignItems: 'center',
-    marginBottom: 20,
+    justifyContent: 'center',
+    gap: 4,
   },
-  activeSessionBadge: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  phaseBadge: {
     backgroundColor: 'rgba(102, 126, 234, 0.2)',
     paddingHorizontal: 14,
-    paddingVertical: 8,
+    paddingVertical: 6,
     borderRadius: 16,
-    gap: 8,
+    marginBottom: 8,
   },
-  pulseDot: {
-    width: 10,
-    height: 10,
-    borderRadius: 5,
-    backgroundColor: COLORS.primary,
+  phaseBadgeBreak: {
+    backgroundColor: 'rgba(16, 185, 129, 0.2)',
   },
-  activeSessionBadgeText: {
+  phaseBadgeText: {
     fontSize: 12,
     fontWeight: '800',
-    color: COLORS.primary,
+    color: colors.primary,
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
-  discardButton: {
-    width: 36,
-    height: 36,
-    borderRadius: 18,
-    backgroundColor: 'rgba(239, 68, 68, 0.1)',
-    alignItems: 'center',
-    justifyContent: 'center',
+  phaseBadgeTextBreak: {
+    color: colors.success,
   },
-  activeSessionContent: {
+  modeGrid: {
     flexDirection: 'row',
-    alignItems: 'flex-start',
-    gap: 16,
-    marginBottom: 24,
-    paddingVertical: 16,
-    paddingHorizontal: 12,
-    backgroundColor: 'rgba(102, 126, 234, 0.05)',
-    borderRadius: 12,
+    gap: 8,
   },
-  activeSessionTextContainer: {
+  modeCard: {
     flex: 1,
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
   },
-  activeSessionTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: COLORS.text,
-    marginBottom: 6,
+  modeCardSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
   },
-  activeSessionSubtitle: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    lineHeight: 20,
+  modeLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
   },
-  activeSessionActions: {
-    gap: 12,
+  modeLabelSelected: {
+    color: colors.onPrimary,
   },
-  resumeMainButton: {
-    backgroundColor: COLORS.primary,
-    borderRadius: 14,
-    padding: 18,
+  customRow: {
     flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    gap: 10,
-    shadowColor: COLORS.primary,
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.4,
-    shadowRadius: 6,
-    elevation: 6,
+    gap: 12,
+    marginTop: 12,
   },
-  resumeButtonText: {
-    fontSize: 17,
-    fontWeight: '700',
-    color: COLORS.text,
+  customField: {
+    flex: 1,
+  },
+  customLabel: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 6,
   },
   discardTextButton: {
     backgroundColor: 'transparent',
+    marginTop: 12,
     padding: 14,
     alignItems: 'center',
     justifyContent: 'center',
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: COLORS.border,
+    borderColor: colors.border,
   },
   discardTextButtonText: {
     fontSize: 15,
     fontWeight: '600',
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
 });
@@ -14,14 +14,19 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { COLORS } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
 import { ILLUSTRATIONS } from '../constants/illustrations';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { getCurrentUser } from '../services/authService';
 import { getCourses } from '../services/courseServiceFirestore';
 import { deleteTask, getTasks, updateTask } from '../services/taskServiceFirestore';
 import { Course, Task, TaskPriority, TaskStatus } from '../types';
 
 export default function TasksScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -45,13 +50,13 @@ export default function TasksScreen() {
       await loadData(user.id);
     } catch (error) {
       console.error('Initialization error:', error);
-      Alert.alert('Error', 'Failed to load tasks');
+      Alert.alert(t('common.error'), t('tasks.list.loadFailed'));
     } finally {
       setLoading(false);
     }
   };
 
-  const loadData = async (uid: string) => {
+  const loadData = useCallback(async (uid: string) => {
     try {
       const [tasksData, coursesData] = await Promise.all([
         getTasks(uid),
@@ -64,16 +69,16 @@ export default function TasksScreen() {
     } finally {
       setRefreshing(false);
     }
-  };
+  }, []);
 
   const onRefresh = useCallback(() => {
     if (userId) {
       setRefreshing(true);
       loadData(userId);
     }
-  }, [userId]);
+  }, [userId, loadData]);
 
-  const handleCompleteTask = async (task: Task) => {
+  const handleCompleteTask = useCallback(async (task: Task) => {
     if (!userId) return;
     
     try {
@@ -84,18 +89,18 @@ export default function TasksScreen() {
       await loadData(userId);
     } catch (error) {
       console.error('Complete task error:', error);
-      Alert.alert('Error', 'Failed to update task');
+      Alert.alert(t('common.error'), t('tasks.detail.updateFailed'));
     }
-  };
+  }, [userId, loadData, t]);
 
-  const handleDeleteTask = (task: Task) => {
+  const handleDeleteTask = useCallback((task: Task) => {
     Alert.alert(
-      'Delete Task',
-      `Are you sure you want to delete "${task.title}"?`,
+      t('tasks.detail.deleteTitle'),
+      t('tasks.list.deleteConfirm', { title: task.title }),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Delete',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
             try {
@@ -103,43 +108,43 @@ export default function TasksScreen() {
               if (userId) await loadData(userId);
             } catch (error) {
               console.error('Delete task error:', error);
-              Alert.alert('Error', 'Failed to delete task');
+              Alert.alert(t('common.error'), t('tasks.detail.deleteFailed'));
             }
           },
         },
       ]
     );
-  };
+  }, [userId, loadData, t]);
 
   const filteredTasks = useMemo(() => {
     switch (filter) {
       case 'pending':
-        return tasks.filter(t => t.status !== TaskStatus.COMPLETED);
+        return tasks.filter(task => task.status !== TaskStatus.COMPLETED);
       case 'completed':
-        return tasks.filter(t => t.status === TaskStatus.COMPLETED);
+        return tasks.filter(task => task.status === TaskStatus.COMPLETED);
       default:
         return tasks;
     }
   }, [tasks, filter]);
 
-  const getPriorityColor = (priority: TaskPriority) => {
+  const getPriorityColor = useCallback((priority: TaskPriority) => {
     switch (priority) {
       case TaskPriority.HIGH:
-        return COLORS.error;
+        return colors.error;
       case TaskPriority.MEDIUM:
-        return COLORS.warning;
+        return colors.warning;
       default:
-        return COLORS.success;
+        return colors.success;
     }
-  };
+  }, [colors]);
 
-  const getDaysUntilDue = (dueDate: Date) => {
+  const getDaysUntilDue = useCallback((dueDate: Date) => {
     const days = Math.ceil((dueDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-    if (days < 0) return 'Overdue';
-    if (days === 0) return 'Due today';
-    if (days === 1) return 'Due tomorrow';
-    return `Due in ${days} days`;
-  };
+    if (days < 0) return t('tasks.list.overdue');
+    if (days === 0) return t('tasks.list.dueToday');
+    if (days === 1) return t('tasks.list.dueTomorrow');
+    return t('tasks.list.dueInDays', { count: days });
+  }, [t]);
 
   const renderTask = useCallback(({ item }: { item: Task }) => {
     const course = courses.find(c => c.id === item.courseId);
@@ -161,20 +166,20 @@ export default function TasksScreen() {
             }}
             activeOpacity={0.7}
           >
-            {isCompleted && <Ionicons name="checkmark" size={18} color="#fff" />}
+            {isCompleted && <Ionicons name="checkmark" size={18} color={colors.onPrimary} />}
           </TouchableOpacity>
           
           <View style={styles.taskInfo}>
             <Text style={[styles.taskTitle, isCompleted && styles.taskTitleCompleted]}>
               {item.title}
             </Text>
-            <Text style={styles.taskCourse}>{course?.name || 'Unknown Course'}</Text>
+            <Text style={styles.taskCourse}>{course?.name || t('tasks.list.unknownCourse')}</Text>
           </View>
 
           <View
             style={[styles.priorityBadge, { backgroundColor: getPriorityColor(item.priority) }]}
           >
-            <Text style={styles.priorityText}>{item.priority}</Text>
+            <Text style={styles.priorityText}>{t(`tasks.priority.${item.priority}`)}</Text>
           </View>
         </View>
 
@@ -183,7 +188,7 @@ export default function TasksScreen() {
             <Ionicons
               name="calendar-outline"
               size={14}
-              color={isOverdue ? COLORS.error : COLORS.textSecondary}
+              color={isOverdue ? colors.error : colors.textSecondary}
             />
             <Text style={[styles.dueDateText, isOverdue && styles.overdueText]}>
               {getDaysUntilDue(item.dueDate)}
@@ -192,7 +197,7 @@ export default function TasksScreen() {
 
           {item.estimatedHours && (
             <View style={styles.timeBadge}>
-              <Ionicons name="time-outline" size={14} color={COLORS.textSecondary} />
+              <Ionicons name="time-outline" size={14} color={colors.textSecondary} />
               <Text style={styles.timeText}>{item.estimatedHours}h</Text>
             </View>
           )}
@@ -205,17 +210,17 @@ export default function TasksScreen() {
             }}
             activeOpacity={0.7}
           >
-            <Ionicons name="trash-outline" size={18} color={COLORS.error} />
+            <Ionicons name="trash-outline" size={18} color={colors.error} />
           </TouchableOpacity>
         </View>
       </TouchableOpacity>
     );
-  }, [courses, router]);
+  }, [courses, router, colors, styles, t, getPriorityColor, getDaysUntilDue, handleCompleteTask, handleDeleteTask]);
 
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
+        <ActivityIndicator size="large" color={colors.primary} />
       </View>
       );
   }
@@ -231,19 +236,19 @@ export default function TasksScreen() {
           contentFit="cover"
         />
         <LinearGradient 
-          colors={['rgba(88,86,214,0.90)', 'rgba(108,99,255,0.90)']} 
+          colors={colors.headerGradient} 
           style={styles.header}
         >
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>My Tasks</Text>
+          <Text style={styles.headerTitle}>{t('tasks.list.myTasks')}</Text>
           <TouchableOpacity
             onPress={() => router.push('/tasks/add' as any)}
             style={styles.addButton}
           >
-            <Ionicons name="add" size={24} color="#fff" />
+            <Ionicons name="add" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
         </View>
 
@@ -253,7 +258,7 @@ export default function TasksScreen() {
             onPress={() => setFilter('all')}
           >
             <Text style={[styles.filterText, filter === 'all' && styles.filterTextActive]}>
-              All ({tasks.length})
+              {t('tasks.list.filterAll', { count: tasks.length })}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -261,7 +266,7 @@ export default function TasksScreen() {
             onPress={() => setFilter('pending')}
           >
             <Text style={[styles.filterText, filter === 'pending' && styles.filterTextActive]}>
-              Pending ({tasks.filter(t => t.status !== TaskStatus.COMPLETED).length})
+              {t('tasks.list.filterPending', { count: tasks.filter(task => task.status !== TaskStatus.COMPLETED).length })}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -269,7 +274,7 @@ export default function TasksScreen() {
             onPress={() => setFilter('completed')}
           >
             <Text style={[styles.filterText, filter === 'completed' && styles.filterTextActive]}>
-              Done ({tasks.filter(t => t.status === TaskStatus.COMPLETED).length})
+              {t('tasks.list.filterDone', { count: tasks.filter(task => task.status === TaskStatus.COMPLETED).length })}
             </Text>
           </TouchableOpacity>
         </View>
@@ -284,25 +289,25 @@ export default function TasksScreen() {
             contentFit="contain"
           />
           <Text style={styles.emptyText}>
-            {filter === 'completed' ? 'No completed tasks yet' : 'No tasks yet'}
+            {filter === 'completed' ? t('tasks.list.noCompleted') : t('tasks.list.noTasks')}
           </Text>
           <Text style={styles.emptySubtext}>
             {filter === 'completed' 
-              ? 'Complete tasks to see them here' 
-              : 'Start adding tasks to get organized'}
+              ? t('tasks.list.completedHint')
+              : t('tasks.list.startHint')}
           </Text>
           <TouchableOpacity
             style={styles.addTaskButton}
             onPress={() => router.push('/tasks/add' as any)}
           >
             <LinearGradient
-              colors={[COLORS.primary, COLORS.secondary]}
+              colors={[colors.primary, colors.secondary]}
               style={styles.addTaskGradient}
               start={{ x: 0, y: 0 }}
               end={{ x: 1, y: 0 }}
             >
-              <Ionicons name="add" size={20} color="#fff" style={{ marginRight: 8 }} />
-              <Text style={styles.addTaskButtonText}>Add Your First Task</Text>
+              <Ionicons name="add" size={20} color={colors.onPrimary} style={{ marginRight: 8 }} />
+              <Text style={styles.addTaskButtonText}>{t('tasks.list.addFirst')}</Text>
             </LinearGradient>
           </TouchableOpacity>
         </View>
@@ -325,10 +330,10 @@ export default function TasksScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -364,7 +369,7 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   addButton: {
     width: 40,
@@ -384,26 +389,26 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255,255,255,0.2)',
   },
   filterButtonActive: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
   },
   filterText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 14,
     fontWeight: '600',
     textAlign: 'center',
   },
   filterTextActive: {
-    color: COLORS.primary,
+    color: colors.primary,
   },
   listContent: {
     padding: 16,
   },
   taskCard: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderRadius: 12,
     padding: 16,
     marginBottom: 12,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -422,14 +427,14 @@ const styles = StyleSheet.create({
     height: 24,
     borderRadius: 12,
     borderWidth: 2,
-    borderColor: COLORS.primary,
+    borderColor: colors.primary,
     marginRight: 12,
     justifyContent: 'center',
     alignItems: 'center',
   },
   checkboxCompleted: {
-    backgroundColor: COLORS.success,
-    borderColor: COLORS.success,
+    backgroundColor: colors.success,
+    borderColor: colors.success,
   },
   taskInfo: {
     flex: 1,
@@ -437,16 +442,16 @@ const styles = StyleSheet.create({
   taskTitle: {
     fontSize: 16,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 4,
   },
   taskTitleCompleted: {
     textDecorationLine: 'line-through',
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   taskCourse: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   priorityBadge: {
     paddingHorizontal: 8,
@@ -454,7 +459,7 @@ const styles = StyleSheet.create({
     borderRadius: 4,
   },
   priorityText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 10,
     fontWeight: 'bold',
   },
@@ -469,17 +474,17 @@ const styles = StyleSheet.create({
     gap: 4,
   },
   overdueBadge: {
-    backgroundColor: '#ffebee',
+    backgroundColor: colors.errorLight,
     paddingHorizontal: 8,
     paddingVertical: 4,
     borderRadius: 4,
   },
   dueDateText: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   overdueText: {
-    color: COLORS.error,
+    color: colors.error,
     fontWeight: '600',
   },
   timeBadge: {
@@ -489,7 +494,7 @@ const styles = StyleSheet.create({
   },
   timeText: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   deleteButton: {
     marginLeft: 'auto',
@@ -508,20 +513,20 @@ const styles = StyleSheet.create({
   emptyText: {
     fontSize: 20,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginTop: 24,
     marginBottom: 8,
   },
   emptySubtext: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     marginBottom: 32,
     textAlign: 'center',
   },
   addTaskButton: {
     borderRadius: 12,
     overflow: 'hidden',
-    shadowColor: COLORS.primary,
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
     shadowRadius: 8,
@@ -534,7 +539,7 @@ const styles = StyleSheet.create({
     paddingVertical: 14,
   },
   addTaskButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 16,
     fontWeight: '600',
   },
@@ -0,0 +1,628 @@
+/**
+ * Timetable Import Screen
+ * Review classes extracted from a timetable image/PDF before saving them
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { getCurrentUser } from '../services/authService';
+import { getCourses } from '../services/courseServiceFirestore';
+import {
+    analyzeTimetableFile,
+    importTimetableCandidates,
+    TimetableSourceKind,
+} from '../services/timetableImport/timetableImportService';
+import {
+    ClassType,
+    parseTimetableText,
+    TimetableImportCandidate,
+} from '../services/timetableImport/timetableParser';
+import { Course } from '../types';
+
+const WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const CLASS_TYPES: ClassType[] = ['lecture', 'lab', 'tutorial'];
+const TIME_FORMAT = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const CONFIDENCE_COLORS: Record<TimetableImportCandidate['confidence'], 'success' | 'warning' | 'error'> = {
+  high: 'success',
+  medium: 'warning',
+  low: 'error',
+};
+
+export default function TimetableImportScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatWeekday } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ uri?: string; kind?: TimetableSourceKind; name?: string }>();
+  const mountedRef = useRef(true);
+
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [candidates, setCandidates] = useState<TimetableImportCandidate[]>([]);
+  const [extractionError, setExtractionError] = useState<string | null>(null);
+  const [showPasteBox, setShowPasteBox] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+
+  const loadAndAnalyze = useCallback(async () => {
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        router.replace('/');
+        return;
+      }
+
+      setUserId(user.id);
+      const fetchedCourses = await getCourses(user.id);
+      if (!mountedRef.current) return;
+      setCourses(fetchedCourses);
+
+      if (!params.uri) {
+        setShowPasteBox(true);
+        return;
+      }
+
+      try {
+        const { candidates: found } = await analyzeTimetableFile(
+          params.uri,
+          params.kind === 'pdf' ? 'pdf' : 'image',
+          fetchedCourses
+        );
+        if (!mountedRef.current) return;
+        setCandidates(found);
+        if (found.length === 0) {
+          setExtractionError(
+            params.kind === 'pdf'
+              ? t('timetableImport.noClassesPdf')
+              : t('timetableImport.noClassesImage')
+          );
+          setShowPasteBox(true);
+        }
+      } catch (error) {
+        console.error('Timetable extraction error:', error);
+        if (!mountedRef.current) return;
+        setExtractionError(t('timetableImport.readFailed'));
+        setShowPasteBox(true);
+      }
+    } catch (error) {
+      console.error('Load data error:', error);
+      Alert.alert(t('common.error'), t('timetableImport.coursesFailed'));
+    } finally {
+      if (mountedRef.current) setLoading(false);
+    }
+  }, [router, params.uri, params.kind, t]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    loadAndAnalyze();
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [loadAndAnalyze]);
+
+  const handleParsePasted = () => {
+    const found = parseTimetableText(pastedText, courses);
+    setCandidates(found);
+    if (found.length === 0) {
+      Alert.alert(t('timetableImport.noClassesTitle'), t('timetableImport.noClassesHint'));
+      return;
+    }
+    setExtractionError(null);
+    setShowPasteBox(false);
+  };
+
+  const updateCandidate = (id: string, changes: Partial<TimetableImportCandidate>) => {
+    setCandidates(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  const handleCourseChange = (id: string, courseId: string) => {
+    const course = courses.find(c => c.id === courseId);
+    updateCandidate(id, {
+      courseId: course?.id,
+      courseCode: course?.code,
+      include: !!course,
+    });
+  };
+
+  const selected = candidates.filter(c => c.include);
+
+  const handleImport = async () => {
+    if (!userId || selected.length === 0) return;
+
+    const missingCourse = selected.find(c => !c.courseId);
+    if (missingCourse) {
+      Alert.alert(
+        t('timetableImport.selectCourseTitle'),
+        t('timetableImport.selectCourseMessage', { line: missingCourse.sourceLine })
+      );
+      return;
+    }
+
+    const invalidTime = selected.find(
+      c => !TIME_FORMAT.test(c.startTime) || !TIME_FORMAT.test(c.endTime) || c.endTime <= c.startTime
+    );
+    if (invalidTime) {
+      Alert.alert(
+        t('timetableImport.checkTimesTitle'),
+        t('timetableImport.checkTimesMessage', { line: invalidTime.sourceLine })
+      );
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const { created, skipped } = await importTimetableCandidates(userId, candidates);
+      const skippedNote = skipped > 0 ? t('timetableImport.skipped', { count: skipped }) : '';
+      Alert.alert(t('timetableImport.importedTitle'), t('timetableImport.imported', { count: created }) + skippedNote, [
+        { text: t('common.ok'), onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('Timetable import error:', error);
+      Alert.alert(t('common.error'), t('timetableImport.importFailed'));
+    } finally {
+      if (mountedRef.current) setImporting(false);
+    }
+  };
+
+  const renderCandidate = (candidate: TimetableImportCandidate) => (
+    <View key={candidate.id} style={[styles.card, !candidate.include && styles.cardExcluded]}>
+      <View style={styles.cardHeader}>
+        <TouchableOpacity
+          onPress={() => updateCandidate(candidate.id, { include: !candidate.include })}
+          style={styles.checkbox}
+          accessibilityLabel={candidate.include ? t('timetableImport.excludeClass') : t('timetableImport.includeClass')}
+          accessibilityRole="checkbox"
+        >
+          <Ionicons
+            name={candidate.include ? 'checkbox' : 'square-outline'}
+            size={24}
+            color={candidate.include ? colors.primary : colors.textSecondary}
+          />
+        </TouchableOpacity>
+        <Text style={styles.sourceLine} numberOfLines={2}>
+          {candidate.sourceLine}
+        </Text>
+        <View style={[styles.confidenceBadge, { backgroundColor: colors[CONFIDENCE_COLORS[candidate.confidence]] + '20' }]}>
+          <Text style={[styles.confidenceText, { color: colors[CONFIDENCE_COLORS[candidate.confidence]] }]}>
+            {t(`timetableImport.confidence.${candidate.confidence}`)}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.chipRow}>
+        {WEEK_DAYS.map(day => (
+          <TouchableOpacity
+            key={day}
+            style={[styles.chip, candidate.dayOfWeek === day && styles.chipActive]}
+            onPress={() => updateCandidate(candidate.id, { dayOfWeek: day })}
+          >
+            <Text style={[styles.chipText, candidate.dayOfWeek === day && styles.chipTextActive]}>
+              {formatWeekday(day)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.timeRow}>
+        <TextInput
+          style={[styles.input, styles.timeInput]}
+          value={candidate.startTime}
+          onChangeText={text => updateCandidate(candidate.id, { startTime: text })}
+          placeholder="09:00"
+          placeholderTextColor={colors.textSecondary}
+          maxLength={5}
+          keyboardType="numbers-and-punctuation"
+          accessibilityLabel={t('timetableImport.startTime')}
+        />
+        <Text style={styles.timeSeparator}>–</Text>
+        <TextInput
+          style={[styles.input, styles.timeInput]}
+          value={candidate.endTime}
+          onChangeText={text => updateCandidate(candidate.id, { endTime: text })}
+          placeholder="10:00"
+          placeholderTextColor={colors.textSecondary}
+          maxLength={5}
+          keyboardType="numbers-and-punctuation"
+          accessibilityLabel={t('timetableImport.endTime')}
+        />
+      </View>
+
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={candidate.courseId || ''}
+          onValueChange={value => handleCourseChange(candidate.id, String(value))}
+          style={styles.picker}
+          mode="dropdown"
+        >
+          <Picker.Item
+            label={
+              candidate.courseCode
+                ? t('timetableImport.selectCourseCode', { code: candidate.courseCode })
+                : t('timetableImport.selectCourse')
+            }
+            value=""
+          />
+          {courses.map(course => (
+            <Picker.Item key={course.id} label={`${course.code} - ${course.name}`} value={course.id} />
+          ))}
+        </Picker>
+      </View>
+
+      <TextInput
+        style={styles.input}
+        value={candidate.location || ''}
+        onChangeText={text => updateCandidate(candidate.id, { location: text || undefined })}
+        placeholder={t('timetableImport.location')}
+        placeholderTextColor={colors.textSecondary}
+      />
+
+      <View style={styles.chipRow}>
+        {CLASS_TYPES.map(type => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.chip, candidate.type === type && styles.chipActive]}
+            onPress={() => updateCandidate(candidate.id, { type })}
+          >
+            <Text style={[styles.chipText, candidate.type === type && styles.chipTextActive]}>
+              {t(`timetable.types.${type}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('timetableImport.reading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <LinearGradient
+        colors={colors.headerGradient}
+        style={styles.header}
+      >
+        <View style={styles.headerContent}>
+          <TouchableOpacity
+            onPress={() => router.back()}
+            style={styles.backButton}
+            accessibilityLabel={t('common.goBack')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
+          </TouchableOpacity>
+          <View style={styles.headerTitle}>
+            <Text style={styles.headerText}>{t('timetableImport.title')}</Text>
+            <Text style={styles.headerSubtext} numberOfLines={1}>
+              {params.name || t('timetableImport.pasted')}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => setShowPasteBox(!showPasteBox)}
+            style={styles.headerAction}
+            accessibilityLabel={t('timetableImport.pasteLabel')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="clipboard-outline" size={22} color={colors.onPrimary} />
+          </TouchableOpacity>
+        </View>
+      </LinearGradient>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.contentContainer}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {extractionError && (
+          <View style={styles.errorBanner}>
+            <Ionicons name="alert-circle-outline" size={20} color={colors.warning} />
+            <Text style={styles.errorText}>{extractionError}</Text>
+          </View>
+        )}
+
+        {showPasteBox && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('timetableImport.pasteTitle')}</Text>
+            <TextInput
+              style={[styles.input, styles.pasteInput]}
+              value={pastedText}
+              onChangeText={setPastedText}
+              placeholder={'Mon 08:00-10:00 CS1012 Lecture Hall A\nTue 13:00-15:00 IT2020 Lab 3'}
+              placeholderTextColor={colors.textSecondary}
+              multiline
+              textAlignVertical="top"
+            />
+            <TouchableOpacity
+              style={[styles.secondaryButton, !pastedText.trim() && styles.buttonDisabled]}
+              onPress={handleParsePasted}
+              disabled={!pastedText.trim()}
+            >
+              <Text style={styles.secondaryButtonText}>{t('timetableImport.findClasses')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {candidates.length > 0 && (
+          <Text style={styles.summaryText}>
+            {t('timetableImport.found', { count: candidates.length })}
+          </Text>
+        )}
+
+        {candidates.map(renderCandidate)}
+      </ScrollView>
+
+      {candidates.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity onPress={handleImport} disabled={importing || selected.length === 0}>
+            <LinearGradient
+              colors={importing || selected.length === 0 ? [colors.borderStrong, colors.textMuted] : [colors.primary, colors.secondary]}
+              style={styles.importButton}
+            >
+              {importing ? (
+                <ActivityIndicator color={colors.onPrimary} size="small" />
+              ) : (
+                <Text style={styles.importButtonText}>
+                  {t('timetableImport.importButton', { count: selected.length })}
+                </Text>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 50 : 40,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  headerText: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.onPrimary,
+    letterSpacing: 0.2,
+  },
+  headerSubtext: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+  headerAction: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: colors.warning + '15',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.warning,
+    lineHeight: 18,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    gap: 10,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardExcluded: {
+    opacity: 0.5,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  checkbox: {
+    marginRight: 8,
+  },
+  sourceLine: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  confidenceBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    marginLeft: 8,
+  },
+  confidenceText: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surface,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.text,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeInput: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  timeSeparator: {
+    marginHorizontal: 10,
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: Platform.OS === 'ios' ? 10 : 8,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.background,
+  },
+  pasteInput: {
+    minHeight: 140,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 10,
+    backgroundColor: colors.background,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: Platform.OS === 'ios' ? 120 : 50,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary + '15',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  footer: {
+    padding: 16,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    backgroundColor: colors.card,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  importButton: {
+    paddingVertical: 16,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  importButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
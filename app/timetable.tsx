@@ -18,10 +18,13 @@ import {
   TouchableOpacity,
   View
 } from 'react-native';
-import { COLORS } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
 import { ILLUSTRATIONS } from '../constants/illustrations';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { getCurrentUser } from '../services/authService';
 import { getCourses } from '../services/courseServiceFirestore';
+import { importCalendarFile, shareCalendarExport } from '../services/icalService';
 import {
   createTimetableEntry,
   deleteTimetableEntry,
@@ -47,10 +50,14 @@ const TIME_SLOTS = [
 ];
 
 export default function TimetableScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatWeekday } = useTranslation();
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [calendarBusy, setCalendarBusy] = useState<'import' | 'export' | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [courses, setCourses] = useState<Course[]>([]);
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
@@ -136,7 +143,7 @@ export default function TimetableScreen() {
       setTimeSlots(slots);
     } catch (error) {
       console.error('Load data error:', error);
-      Alert.alert('Error', 'Failed to load timetable data');
+      Alert.alert(t('common.error'), t('timetable.loadFailed'));
     } finally {
       setLoading(false);
     }
@@ -151,10 +158,10 @@ export default function TimetableScreen() {
       });
 
       if (!result.canceled && result.assets[0]) {
-        Alert.alert(
-          'Image Selected',
-          'OCR feature coming soon! For now, please add classes manually using the + button.'
-        );
+        router.push({
+          pathname: '/timetable-import',
+          params: { uri: result.assets[0].uri, kind: 'image', name: result.assets[0].fileName || t('timetable.imageName') },
+        });
       }
     } catch (error) {
       console.error('Image pick error:', error);
@@ -168,16 +175,62 @@ export default function TimetableScreen() {
       });
 
       if (result.assets && result.assets[0]) {
-        Alert.alert(
-          'Document Selected',
-          'PDF parsing coming soon! For now, please add classes manually using the + button.'
-        );
+        const asset = result.assets[0];
+        const isPdf = asset.mimeType === 'application/pdf' || asset.name.toLowerCase().endsWith('.pdf');
+        router.push({
+          pathname: '/timetable-import',
+          params: { uri: asset.uri, kind: isPdf ? 'pdf' : 'image', name: asset.name },
+        });
       }
     } catch (error) {
       console.error('Document pick error:', error);
     }
   };
 
+  const handleCalendarImport = async () => {
+    if (!userId) return;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/calendar', 'text/x-vcalendar', 'application/octet-stream'],
+      });
+      if (!result.assets || !result.assets[0]) return;
+
+      setCalendarBusy('import');
+      const summary = await importCalendarFile(userId, result.assets[0].uri);
+      const fetchedCourses = await getCourses(userId);
+      setCourses(fetchedCourses);
+      await loadTimetableData();
+
+      Alert.alert(
+        t('timetable.calendarImported'),
+        [
+          t('timetable.importSummary.classes', { added: summary.timetableCreated, updated: summary.timetableUpdated }),
+          t('timetable.importSummary.tasks', { added: summary.tasksCreated, updated: summary.tasksUpdated }),
+          summary.coursesCreated > 0 ? t('timetable.importSummary.courses', { count: summary.coursesCreated }) : '',
+          summary.skipped > 0 ? t('timetable.importSummary.skipped', { count: summary.skipped }) : '',
+        ].filter(Boolean).join('\n')
+      );
+    } catch (error) {
+      console.error('Calendar import error:', error);
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('timetable.importFailed'));
+    } finally {
+      setCalendarBusy(null);
+    }
+  };
+
+  const handleCalendarExport = async () => {
+    if (!userId) return;
+    try {
+      setCalendarBusy('export');
+      await shareCalendarExport(userId);
+    } catch (error) {
+      console.error('Calendar export error:', error);
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('timetable.exportFailed'));
+    } finally {
+      setCalendarBusy(null);
+    }
+  };
+
   const formatTime = (hour: string, minute: string): string => {
     return `${hour}:${minute}`;
   };
@@ -220,7 +273,7 @@ export default function TimetableScreen() {
     if (!userId) return;
 
     if (!selectedCourse) {
-      Alert.alert('Error', 'Please select a course');
+      Alert.alert(t('common.error'), t('timetable.selectCourse'));
       return;
     }
 
@@ -228,7 +281,7 @@ export default function TimetableScreen() {
     const endTimeNum = parseInt(endHour) * 60 + parseInt(endMinute);
 
     if (startTimeNum >= endTimeNum) {
-      Alert.alert('Error', 'End time must be after start time');
+      Alert.alert(t('common.error'), t('timetable.endAfterStart'));
       return;
     }
 
@@ -269,10 +322,10 @@ export default function TimetableScreen() {
       // Reload data from Firestore
       await loadTimetableData();
       setShowAddModal(false);
-      Alert.alert('Success', `Class ${editingSlot ? 'updated' : 'added'} successfully`);
+      Alert.alert(t('common.success'), t(editingSlot ? 'timetable.classUpdated' : 'timetable.classAdded'));
     } catch (error) {
       console.error('Error saving timetable entry:', error);
-      Alert.alert('Error', 'Failed to save timetable entry');
+      Alert.alert(t('common.error'), t('timetable.saveFailed'));
     } finally {
       setSaving(false);
     }
@@ -280,22 +333,22 @@ export default function TimetableScreen() {
 
   const handleDelete = (slotId: string) => {
     Alert.alert(
-      'Delete Class',
-      'Are you sure you want to delete this class?',
+      t('timetable.deleteTitle'),
+      t('timetable.deleteConfirm'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Delete',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
             setDeleting(slotId);
             try {
               await deleteTimetableEntry(slotId);
               await loadTimetableData();
-              Alert.alert('Success', 'Class deleted successfully');
+              Alert.alert(t('common.success'), t('timetable.deleted'));
             } catch (error) {
               console.error('Error deleting timetable entry:', error);
-              Alert.alert('Error', 'Failed to delete class');
+              Alert.alert(t('common.error'), t('timetable.deleteFailed'));
             } finally {
               setDeleting(null);
             }
@@ -330,7 +383,7 @@ export default function TimetableScreen() {
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color={COLORS.primary} />
+        <ActivityIndicator size="large" color={colors.primary} />
       </View>
     );
   }
@@ -347,19 +400,19 @@ export default function TimetableScreen() {
           contentFit="cover"
         />
         <LinearGradient 
-          colors={['rgba(88,86,214,0.89)', 'rgba(108,99,255,0.89)']} 
+          colors={colors.headerGradient} 
           style={styles.header}
         >
         <View style={styles.headerContent}>
           <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <Ionicons name="arrow-back" size={24} color="#fff" />
+            <Ionicons name="arrow-back" size={24} color={colors.onPrimary} />
           </TouchableOpacity>
           <View style={styles.headerTitle}>
-            <Text style={styles.headerText}>My Timetable</Text>
-            <Text style={styles.headerSubtext}>Weekly Class Schedule</Text>
+            <Text style={styles.headerText}>{t('timetable.title')}</Text>
+            <Text style={styles.headerSubtext}>{t('timetable.subtitle')}</Text>
           </View>
           <TouchableOpacity style={styles.addButton} onPress={openAddModal}>
-            <Ionicons name="add" size={28} color="#fff" />
+            <Ionicons name="add" size={28} color={colors.onPrimary} />
           </TouchableOpacity>
         </View>
         </LinearGradient>
@@ -373,25 +426,54 @@ export default function TimetableScreen() {
       >
         {/* Upload Options */}
         <View style={styles.uploadSection}>
-          <Text style={styles.sectionTitle}>📸 Import Timetable</Text>
+          <Text style={styles.sectionTitle}>{t('timetable.importSection')}</Text>
           <View style={styles.uploadButtons}>
             <TouchableOpacity style={styles.uploadButton} onPress={handleImagePick}>
-              <Ionicons name="image-outline" size={24} color={COLORS.primary} />
-              <Text style={styles.uploadText}>Upload Image</Text>
+              <Ionicons name="image-outline" size={24} color={colors.primary} />
+              <Text style={styles.uploadText}>{t('timetable.uploadImage')}</Text>
             </TouchableOpacity>
             <TouchableOpacity style={styles.uploadButton} onPress={handleDocumentPick}>
-              <Ionicons name="document-outline" size={24} color={COLORS.primary} />
-              <Text style={styles.uploadText}>Upload PDF</Text>
+              <Ionicons name="document-outline" size={24} color={colors.primary} />
+              <Text style={styles.uploadText}>{t('timetable.uploadPdf')}</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.uploadHint}>
+            {t('timetable.importHint')}
+          </Text>
+          <View style={[styles.uploadButtons, styles.calendarButtons]}>
+            <TouchableOpacity
+              style={styles.uploadButton}
+              onPress={handleCalendarImport}
+              disabled={calendarBusy !== null}
+            >
+              {calendarBusy === 'import' ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Ionicons name="calendar-outline" size={24} color={colors.primary} />
+              )}
+              <Text style={styles.uploadText}>{t('timetable.importIcs')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.uploadButton}
+              onPress={handleCalendarExport}
+              disabled={calendarBusy !== null}
+            >
+              {calendarBusy === 'export' ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Ionicons name="share-outline" size={24} color={colors.primary} />
+              )}
+              <Text style={styles.uploadText}>{t('timetable.exportIcs')}</Text>
             </TouchableOpacity>
           </View>
           <Text style={styles.uploadHint}>
-            Coming soon: Auto-extract classes from images and PDFs!
+            {t('timetable.calendarHint')}
           </Text>
         </View>
 
         {/* Timetable Grid */}
         <View style={styles.timetableSection}>
-          <Text style={styles.sectionTitle}>📅 Weekly Schedule</Text>
+          <Text style={styles.sectionTitle}>{t('timetable.weeklySchedule')}</Text>
           
           {timeSlots.length === 0 ? (
             <View style={styles.emptyState}>
@@ -400,9 +482,9 @@ export default function TimetableScreen() {
                 style={styles.emptyStateImage}
                 contentFit="contain"
               />
-              <Text style={styles.emptyStateText}>No classes scheduled yet</Text>
+              <Text style={styles.emptyStateText}>{t('timetable.empty')}</Text>
               <Text style={styles.emptyStateSubtext}>
-                Tap the + button to add your first class
+                {t('timetable.emptyHint')}
               </Text>
             </View>
           ) : (
@@ -411,11 +493,11 @@ export default function TimetableScreen() {
                 {/* Header Row */}
                 <View style={styles.gridHeader}>
                   <View style={styles.timeColumn}>
-                    <Text style={styles.headerCell}>Time</Text>
+                    <Text style={styles.headerCell}>{t('timetable.time')}</Text>
                   </View>
                   {DAYS.map(day => (
                     <View key={day} style={styles.dayColumn}>
-                      <Text style={styles.headerCell}>{day.substring(0, 3)}</Text>
+                      <Text style={styles.headerCell}>{formatWeekday(getDayNumber(day))}</Text>
                     </View>
                   ))}
                 </View>
@@ -440,7 +522,7 @@ export default function TimetableScreen() {
                               styles.dayColumn,
                               slot && styles.slotFilled,
                               { 
-                                backgroundColor: course?.color || '#f5f5f5',
+                                backgroundColor: course?.color || colors.surface,
                                 opacity: isDeleting ? 0.5 : 1,
                               },
                             ]}
@@ -449,7 +531,7 @@ export default function TimetableScreen() {
                             disabled={!!isDeleting}
                           >
                             {isDeleting ? (
-                              <ActivityIndicator color="#fff" size="small" />
+                              <ActivityIndicator color={colors.onPrimary} size="small" />
                             ) : slot && course ? (
                               <View style={styles.slotContent}>
                                 <Text style={styles.slotType}>{getTypeIcon(slot.type)}</Text>
@@ -477,7 +559,7 @@ export default function TimetableScreen() {
         {/* Class List */}
         {timeSlots.length > 0 && (
           <View style={styles.listSection}>
-            <Text style={styles.sectionTitle}>📚 All Classes</Text>
+            <Text style={styles.sectionTitle}>{t('timetable.allClasses')}</Text>
             {DAYS.map(day => {
               const daySlots = timeSlots
                 .filter(slot => slot.day === day)
@@ -487,13 +569,13 @@ export default function TimetableScreen() {
               
               return (
                 <View key={day} style={styles.daySection}>
-                  <Text style={styles.dayTitle}>{day}</Text>
+                  <Text style={styles.dayTitle}>{formatWeekday(getDayNumber(day), 'long')}</Text>
                   {daySlots.map((slot, index) => {
                     const course = getCourseForSlot(slot);
                     return (
                       <TouchableOpacity
                         key={index}
-                        style={[styles.classCard, { borderLeftColor: course?.color || COLORS.primary }]}
+                        style={[styles.classCard, { borderLeftColor: course?.color || colors.primary }]}
                         onPress={() => openEditModal(slot)}
                       >
                         <View style={styles.classInfo}>
@@ -501,7 +583,7 @@ export default function TimetableScreen() {
                             {slot.startTime} - {slot.endTime}
                           </Text>
                           <Text style={styles.className}>
-                            {getTypeIcon(slot.type)} {course?.name || 'Unknown Course'}
+                            {getTypeIcon(slot.type)} {course?.name || t('tasks.list.unknownCourse')}
                           </Text>
                           {slot.location && (
                             <Text style={styles.classLocation}>📍 {slot.location}</Text>
@@ -511,7 +593,7 @@ export default function TimetableScreen() {
                           onPress={() => handleDelete(slot.id)}
                           style={styles.deleteIcon}
                         >
-                          <Ionicons name="trash-outline" size={20} color={COLORS.error} />
+                          <Ionicons name="trash-outline" size={20} color={colors.error} />
                         </TouchableOpacity>
                       </TouchableOpacity>
                     );
@@ -534,10 +616,10 @@ export default function TimetableScreen() {
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
               <Text style={styles.modalTitle}>
-                {editingSlot ? 'Edit Class' : 'Add Class'}
+                {editingSlot ? t('timetable.editClass') : t('timetable.addClass')}
               </Text>
               <TouchableOpacity onPress={() => setShowAddModal(false)}>
-                <Ionicons name="close" size={28} color={COLORS.text} />
+                <Ionicons name="close" size={28} color={colors.text} />
               </TouchableOpacity>
             </View>
 
@@ -547,7 +629,7 @@ export default function TimetableScreen() {
               nestedScrollEnabled
             >
               {/* Day Picker */}
-              <Text style={styles.inputLabel}>Day</Text>
+              <Text style={styles.inputLabel}>{t('timetable.day')}</Text>
               <View style={styles.pickerContainer}>
                 <Picker
                   selectedValue={selectedDay}
@@ -556,13 +638,13 @@ export default function TimetableScreen() {
                   mode="dropdown"
                 >
                   {DAYS.map(day => (
-                    <Picker.Item key={day} label={day} value={day} />
+                    <Picker.Item key={day} label={formatWeekday(getDayNumber(day), 'long')} value={day} />
                   ))}
                 </Picker>
               </View>
 
               {/* Course Picker */}
-              <Text style={styles.inputLabel}>Course</Text>
+              <Text style={styles.inputLabel}>{t('timetable.course')}</Text>
               <View style={styles.pickerContainer}>
                 <Picker
                   selectedValue={selectedCourse}
@@ -577,7 +659,7 @@ export default function TimetableScreen() {
               </View>
 
               {/* Start Time */}
-              <Text style={styles.inputLabel}>Start Time</Text>
+              <Text style={styles.inputLabel}>{t('timetable.startTime')}</Text>
               <View style={styles.timePickerRow}>
                 <View style={[styles.pickerContainer, { flex: 1 }]}>
                   <Picker
@@ -607,7 +689,7 @@ export default function TimetableScreen() {
               </View>
 
               {/* End Time */}
-              <Text style={styles.inputLabel}>End Time</Text>
+              <Text style={styles.inputLabel}>{t('timetable.endTime')}</Text>
               <View style={styles.timePickerRow}>
                 <View style={[styles.pickerContainer, { flex: 1 }]}>
                   <Picker
@@ -637,7 +719,7 @@ export default function TimetableScreen() {
               </View>
 
               {/* Type */}
-              <Text style={styles.inputLabel}>Type</Text>
+              <Text style={styles.inputLabel}>{t('timetable.type')}</Text>
               <View style={styles.typeButtons}>
                 {(['lecture', 'lab', 'tutorial', 'other'] as const).map(type => (
                   <TouchableOpacity
@@ -654,36 +736,36 @@ export default function TimetableScreen() {
                         classType === type && styles.typeButtonTextActive,
                       ]}
                     >
-                      {getTypeIcon(type)} {type.charAt(0).toUpperCase() + type.slice(1)}
+                      {getTypeIcon(type)} {t(`timetable.types.${type}`)}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </View>
 
               {/* Location */}
-              <Text style={styles.inputLabel}>Location (Optional)</Text>
+              <Text style={styles.inputLabel}>{t('timetable.location')}</Text>
               <TextInput
                 style={styles.input}
                 value={location}
                 onChangeText={setLocation}
-                placeholder="e.g., Room 301, Building A"
-                placeholderTextColor={COLORS.textSecondary}
+                placeholder={t('timetable.locationPlaceholder')}
+                placeholderTextColor={colors.textSecondary}
               />
 
               {/* Save Button */}
               <TouchableOpacity onPress={handleSave} disabled={saving}>
                 <LinearGradient
-                  colors={saving ? ['#ccc', '#aaa'] : [COLORS.primary, COLORS.secondary]}
+                  colors={saving ? [colors.borderStrong, colors.textMuted] : [colors.primary, colors.secondary]}
                   style={styles.saveButton}
                 >
                   {saving ? (
                     <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
-                      <ActivityIndicator color="#fff" size="small" />
-                      <Text style={styles.saveButtonText}>Saving...</Text>
+                      <ActivityIndicator color={colors.onPrimary} size="small" />
+                      <Text style={styles.saveButtonText}>{t('timetable.saving')}</Text>
                     </View>
                   ) : (
                     <Text style={styles.saveButtonText}>
-                      {editingSlot ? 'Update Class' : 'Add Class'}
+                      {editingSlot ? t('timetable.updateClass') : t('timetable.addClass')}
                     </Text>
                   )}
                 </LinearGradient>
@@ -696,10 +778,10 @@ export default function TimetableScreen() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -738,7 +820,7 @@ const styles = StyleSheet.create({
   headerText: {
     fontSize: 20,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   headerSubtext: {
     fontSize: 12,
@@ -756,14 +838,14 @@ const styles = StyleSheet.create({
   },
   uploadSection: {
     padding: 16,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderBottomWidth: 1,
-    borderBottomColor: '#e0e0e0',
+    borderBottomColor: colors.border,
   },
   sectionTitle: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 12,
   },
   uploadButtons: {
@@ -775,22 +857,25 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: COLORS.background,
+    backgroundColor: colors.background,
     padding: 16,
     borderRadius: 12,
     gap: 8,
     borderWidth: 2,
-    borderColor: COLORS.primary,
+    borderColor: colors.primary,
     borderStyle: 'dashed',
   },
   uploadText: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.primary,
+    color: colors.primary,
+  },
+  calendarButtons: {
+    marginTop: 12,
   },
   uploadHint: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     textAlign: 'center',
     marginTop: 8,
   },
@@ -799,14 +884,14 @@ const styles = StyleSheet.create({
   },
   gridHeader: {
     flexDirection: 'row',
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
     borderTopLeftRadius: 12,
     borderTopRightRadius: 12,
   },
   gridRow: {
     flexDirection: 'row',
     borderBottomWidth: 1,
-    borderBottomColor: '#e0e0e0',
+    borderBottomColor: colors.border,
   },
   timeColumn: {
     width: 70,
@@ -814,7 +899,7 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
     borderRightWidth: 1,
-    borderRightColor: '#e0e0e0',
+    borderRightColor: colors.border,
   },
   dayColumn: {
     width: 120,
@@ -822,17 +907,17 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
     borderRightWidth: 1,
-    borderRightColor: '#e0e0e0',
+    borderRightColor: colors.border,
     minHeight: 60,
   },
   headerCell: {
     fontSize: 14,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
   timeCell: {
     fontSize: 12,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   slotFilled: {
     opacity: 0.9,
@@ -847,23 +932,23 @@ const styles = StyleSheet.create({
   slotCourse: {
     fontSize: 11,
     fontWeight: '600',
-    color: '#fff',
+    color: colors.onPrimary,
     textAlign: 'center',
   },
   slotLocation: {
     fontSize: 9,
-    color: '#fff',
+    color: colors.onPrimary,
     marginTop: 2,
   },
   gridBody: {
     maxHeight: 800,
   },
   emptyState: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     padding: 48,
     borderRadius: 12,
     alignItems: 'center',
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -881,12 +966,12 @@ const styles = StyleSheet.create({
   emptyStateText: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
   },
   emptyStateSubtext: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   listSection: {
@@ -898,17 +983,17 @@ const styles = StyleSheet.create({
   dayTitle: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 12,
   },
   classCard: {
     flexDirection: 'row',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     padding: 16,
     borderRadius: 12,
     marginBottom: 12,
     borderLeftWidth: 4,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -920,17 +1005,17 @@ const styles = StyleSheet.create({
   classTime: {
     fontSize: 16,
     fontWeight: 'bold',
-    color: COLORS.primary,
+    color: colors.primary,
     marginBottom: 4,
   },
   className: {
     fontSize: 16,
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 4,
   },
   classLocation: {
     fontSize: 14,
-    color: COLORS.textSecondary,
+    color: colors.textSecondary,
   },
   deleteIcon: {
     justifyContent: 'center',
@@ -943,7 +1028,7 @@ const styles = StyleSheet.create({
     justifyContent: 'flex-end',
   },
   modalContent: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderTopLeftRadius: 24,
     borderTopRightRadius: 24,
     padding: 24,
@@ -958,20 +1043,20 @@ const styles = StyleSheet.create({
   modalTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
   },
   inputLabel: {
     fontSize: 16,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
     marginBottom: 8,
     marginTop: 16,
   },
   pickerContainer: {
     borderWidth: 1,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     borderRadius: 12,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     overflow: 'hidden',
   },
   picker: {
@@ -985,7 +1070,7 @@ const styles = StyleSheet.create({
   timeSeparator: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: COLORS.text,
+    color: colors.text,
     marginTop: 8,
   },
   timeButton: {
@@ -993,14 +1078,14 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
     borderWidth: 1,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     borderRadius: 12,
     padding: 16,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
   },
   timeButtonText: {
     fontSize: 16,
-    color: COLORS.text,
+    color: colors.text,
   },
   typeButtons: {
     flexDirection: 'row',
@@ -1013,29 +1098,29 @@ const styles = StyleSheet.create({
     padding: 12,
     borderRadius: 12,
     borderWidth: 2,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     alignItems: 'center',
   },
   typeButtonActive: {
-    borderColor: COLORS.primary,
-    backgroundColor: COLORS.primary,
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
   },
   typeButtonText: {
     fontSize: 14,
     fontWeight: '600',
-    color: COLORS.text,
+    color: colors.text,
   },
   typeButtonTextActive: {
-    color: '#fff',
+    color: colors.onPrimary,
   },
   input: {
     borderWidth: 1,
-    borderColor: '#e0e0e0',
+    borderColor: colors.border,
     borderRadius: 12,
     padding: 16,
     fontSize: 16,
-    color: COLORS.text,
-    backgroundColor: '#fff',
+    color: colors.text,
+    backgroundColor: colors.card,
   },
   saveButton: {
     padding: 18,
@@ -1047,6 +1132,6 @@ const styles = StyleSheet.create({
   saveButtonText: {
     fontSize: 18,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.onPrimary,
   },
 });
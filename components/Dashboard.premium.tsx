@@ -16,10 +16,15 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { COLORS_V2, ELEVATION, RADIUS, SPACING, TYPOGRAPHY } from '../constants/designSystem';
+import { COLORS_V2, ELEVATION, RADIUS, SPACING, ThemeColors, TYPOGRAPHY } from '../constants/designSystem';
 import { ILLUSTRATIONS } from '../constants/illustrations';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { globalCache, useOptimizedData } from '../hooks/useOptimizedData';
 import { getCourses } from '../services/courseServiceFirestore';
+import { calculateCourseGrade } from '../services/gradeCalculator';
+import { getGradeScale } from '../services/gradeServiceFirestore';
+import { TranslationKey } from '../services/i18n/i18nService';
 import {
   aggregateDashboardAlerts,
   clearAlertsCache,
@@ -28,7 +33,7 @@ import {
 import { predictDeadlineRisks } from '../services/predictionService';
 import { getStudyStats } from '../services/studyServiceFirestore';
 import { getTasks } from '../services/taskServiceFirestore';
-import { Course, DeadlinePrediction, Task, TaskStatus } from '../types';
+import { Course, DeadlinePrediction, GradeBand, Task, TaskStatus } from '../types';
 import {
   CompactNotificationBanner,
   MinimalNotificationBanner,
@@ -38,6 +43,7 @@ import {
 import { CourseCard } from './ui/CourseCard';
 import { Skeleton, SkeletonCard, SkeletonStatCard } from './ui/Skeleton';
 import { StatCard } from './ui/StatCard';
+import { SyncStatusIndicator } from './ui/SyncStatusIndicator';
 import { TaskCard } from './ui/TaskCard';
 
 const { width, height } = Dimensions.get('window');
@@ -54,38 +60,38 @@ const MemoizedTaskCard = memo(TaskCard);
 const MemoizedCourseCard = memo(CourseCard);
 
 // ✅ SMART TIME-BASED GREETING
-function getTimeBasedGreeting(): { emoji: string; greeting: string; message: string } {
+function getTimeBasedGreeting(t: (key: TranslationKey) => string): { emoji: string; greeting: string; message: string } {
   const hour = new Date().getHours();
   
   if (hour < 5) {
     return { 
       emoji: '🌙', 
-      greeting: 'Burning the midnight oil?', 
-      message: "Don't forget to rest!" 
+      greeting: t('dashboard.greeting.lateNight.title'), 
+      message: t('dashboard.greeting.lateNight.message') 
     };
   } else if (hour < 12) {
     return { 
       emoji: '☀️', 
-      greeting: 'Good morning!', 
-      message: "Let's make today count" 
+      greeting: t('dashboard.greeting.morning.title'), 
+      message: t('dashboard.greeting.morning.message') 
     };
   } else if (hour < 17) {
     return { 
       emoji: '🌤️', 
-      greeting: 'Good afternoon!', 
-      message: "You're doing great" 
+      greeting: t('dashboard.greeting.afternoon.title'), 
+      message: t('dashboard.greeting.afternoon.message') 
     };
   } else if (hour < 22) {
     return { 
       emoji: '🌆', 
-      greeting: 'Good evening!', 
-      message: "Almost there, keep going" 
+      greeting: t('dashboard.greeting.evening.title'), 
+      message: t('dashboard.greeting.evening.message') 
     };
   } else {
     return { 
       emoji: '🌃', 
-      greeting: 'Working late?', 
-      message: "Rest is important too" 
+      greeting: t('dashboard.greeting.night.title'), 
+      message: t('dashboard.greeting.night.message') 
     };
   }
 }
@@ -98,6 +104,7 @@ const ProgressRing = memo(({
   percentage: number;
   size?: number;
 }) => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={[styles.progressRingContainer, { width: size, height: size }]}>
       <View style={styles.progressRingBackground}>
@@ -128,55 +135,66 @@ const QuickActionChip = memo(({
   label: string; 
   onPress: () => void;
   color?: string;
-}) => (
-  <TouchableOpacity
-    style={styles.quickChip}
-    onPress={() => {
-      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-      onPress();
-    }}
-    activeOpacity={0.7}
-  >
-    <View style={[styles.quickChipIconContainer, { backgroundColor: `${color}15` }]}>
-      <Text style={styles.quickChipIcon}>{icon}</Text>
-    </View>
-    <Text style={styles.quickChipLabel} numberOfLines={1}>{label}</Text>
-    <Ionicons name="chevron-forward" size={16} color={COLORS_V2.text.tertiary} />
-  </TouchableOpacity>
-));
-
-// ✅ FLOATING ACTION BUTTON
-const FloatingActionButton = memo(({ onPress }: { onPress: () => void }) => (
-  <MotiView
-    from={{ scale: 0, opacity: 0 }}
-    animate={{ scale: 1, opacity: 1 }}
-    transition={{ type: 'spring', delay: 400, damping: 15 }}
-    style={styles.fab}
-  >
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  return (
     <TouchableOpacity
-      style={styles.fabButton}
+      style={styles.quickChip}
       onPress={() => {
-        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
         onPress();
       }}
-      activeOpacity={0.8}
+      activeOpacity={0.7}
     >
-      <LinearGradient
-        colors={['#8B5CF6', '#6366F1']}
-        style={styles.fabGradient}
-        start={{ x: 0, y: 0 }}
-        end={{ x: 1, y: 1 }}
-      >
-        <Ionicons name="sparkles" size={26} color="#fff" />
-      </LinearGradient>
+      <View style={[styles.quickChipIconContainer, { backgroundColor: `${color}15` }]}>
+        <Text style={styles.quickChipIcon}>{icon}</Text>
+      </View>
+      <Text style={styles.quickChipLabel} numberOfLines={1}>{label}</Text>
+      <Ionicons name="chevron-forward" size={16} color={colors.textMuted} />
     </TouchableOpacity>
-  </MotiView>
-));
+  );
+});
+
+// ✅ FLOATING ACTION BUTTON
+const FloatingActionButton = memo(({ onPress }: { onPress: () => void }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  return (
+    <MotiView
+      from={{ scale: 0, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ type: 'spring', delay: 400, damping: 15 }}
+      style={styles.fab}
+    >
+      <TouchableOpacity
+        style={styles.fabButton}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          onPress();
+        }}
+        activeOpacity={0.8}
+      >
+        <LinearGradient
+          colors={[colors.secondary, colors.primary]}
+          style={styles.fabGradient}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+        >
+          <Ionicons name="sparkles" size={26} color={colors.onPrimary} />
+        </LinearGradient>
+      </TouchableOpacity>
+    </MotiView>
+  );
+});
 
 export default function DashboardPremium({ 
   userId,
   bannerStyle = 'standard' 
 }: DashboardProps) {
+  const { colors } = useTheme();
+  const { t, formatDate } = useTranslation();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -186,6 +204,7 @@ export default function DashboardPremium({
   const [tasks, setTasks] = useState<Task[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
   const [studyStats, setStudyStats] = useState<any>(null);
+  const [gradeScale, setGradeScale] = useState<GradeBand[] | undefined>(undefined);
   const [predictions, setPredictions] = useState<DeadlinePrediction[]>([]);
   
   // ✅ NEW: Smart Alerts State
@@ -236,12 +255,20 @@ export default function DashboardPremium({
         };
       }
 
+      let scaleData: GradeBand[] | undefined;
+      try {
+        scaleData = await getGradeScale(userId);
+      } catch (scaleError) {
+        console.warn('[Dashboard.premium] Failed to load grade scale:', scaleError);
+      }
+
       // ✅ PERFORMANCE: Check mounted before setState
       if (!mountedRef.current) return;
       
       setTasks(tasksData);
       setCourses(coursesData);
       setStudyStats(studyData);
+      setGradeScale(scaleData);
 
       console.log('[Dashboard.premium] Filtering upcoming tasks...');
       const upcomingTasks = tasksData
@@ -324,7 +351,18 @@ export default function DashboardPremium({
     [tasksByStatus.upcoming]
   );
 
-  const greeting = useMemo(() => getTimeBasedGreeting(), []);
+  const greeting = useMemo(() => getTimeBasedGreeting(t), [t]);
+
+  const courseGrades = useMemo(() => {
+    const grades = new Map<string, { percentage: number; letter: string }>();
+    courses.forEach(course => {
+      const stats = calculateCourseGrade(course, tasks, gradeScale);
+      if (stats.percentage !== null && stats.letter) {
+        grades.set(course.id, { percentage: stats.percentage, letter: stats.letter });
+      }
+    });
+    return grades;
+  }, [courses, tasks, gradeScale]);
 
   const completionPercentage = useMemo(() => {
     if (globalStats.total === 0) return 0;
@@ -438,12 +476,14 @@ export default function DashboardPremium({
           </View>
           
           <Text style={styles.dateText}>
-            {new Date().toLocaleDateString('en-US', { 
+            {formatDate(new Date(), { 
               weekday: 'long', 
               month: 'long', 
               day: 'numeric' 
             })}
           </Text>
+
+          <SyncStatusIndicator />
         </View>
 
         {/* ✅ SMART NOTIFICATION BANNER - REPLACES OLD INSIGHT BANNER */}
@@ -459,7 +499,7 @@ export default function DashboardPremium({
             <MemoizedStatCard
               icon="📋"
               value={globalStats.total}
-              label="Total"
+              label={t('dashboard.stats.total')}
               backgroundImage={undefined}
               gradientColors={[COLORS_V2.primary[400], COLORS_V2.primary[600]]}
               delay={0}
@@ -472,7 +512,7 @@ export default function DashboardPremium({
             <MemoizedStatCard
               icon="✓"
               value={globalStats.completed}
-              label="Done"
+              label={t('dashboard.stats.done')}
               backgroundImage={undefined}
               gradientColors={[COLORS_V2.success[400], COLORS_V2.success[600]]}
               delay={50}
@@ -485,7 +525,7 @@ export default function DashboardPremium({
             <MemoizedStatCard
               icon="⚠️"
               value={globalStats.overdue}
-              label="Overdue"
+              label={t('dashboard.stats.overdue')}
               backgroundImage={undefined}
               gradientColors={[COLORS_V2.error[400], COLORS_V2.error[600]]}
               delay={100}
@@ -499,46 +539,61 @@ export default function DashboardPremium({
               <MemoizedStatCard
                 icon="📚"
                 value={Math.round(studyStats.totalHours)}
-                label="Study Hours"
+                label={t('dashboard.stats.studyHours')}
                 backgroundImage={undefined}
                 gradientColors={[COLORS_V2.info[400], COLORS_V2.info[600]]}
                 delay={150}
               />
             )}
+
+            {studyStats && (
+              <MemoizedStatCard
+                icon="🔥"
+                value={studyStats.studyStreak}
+                label={t('dashboard.stats.dayStreak')}
+                backgroundImage={undefined}
+                gradientColors={[COLORS_V2.warning[400], COLORS_V2.warning[600]]}
+                delay={200}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+                  router.push('/achievements');
+                }}
+              />
+            )}
           </ScrollView>
         </View>
 
         {/* ✅ QUICK ACTIONS */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Quick Actions</Text>
+          <Text style={styles.sectionTitle}>{t('dashboard.quickActions.title')}</Text>
           <View style={styles.quickActionsContainer}>
             <QuickActionChip
               icon="⏱️"
-              label="Study Session"
+              label={t('dashboard.quickActions.studySession')}
               onPress={() => router.push('/study-session')}
-              color="#10B981"
+              color={colors.success}
             />
             <QuickActionChip
               icon="➕"
-              label="Add Task"
+              label={t('dashboard.quickActions.addTask')}
               onPress={() => router.push('/tasks/add' as any)}
               color={COLORS_V2.primary[500]}
             />
             <QuickActionChip
               icon="📚"
-              label="Add Course"
+              label={t('dashboard.quickActions.addCourse')}
               onPress={() => router.push('/courses/add' as any)}
               color={COLORS_V2.secondary[500]}
             />
             <QuickActionChip
               icon="📅"
-              label="Study Planner"
+              label={t('dashboard.quickActions.studyPlanner')}
               onPress={() => router.push('/planner' as any)}
               color={COLORS_V2.info[500]}
             />
             <QuickActionChip
               icon="🕐"
-              label="Timetable"
+              label={t('dashboard.quickActions.timetable')}
               onPress={() => router.push('/timetable' as any)}
               color={COLORS_V2.warning[500]}
             />
@@ -548,10 +603,10 @@ export default function DashboardPremium({
         {/* ✅ MY COURSES */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>📚 My Courses</Text>
+            <Text style={styles.sectionTitle}>{t('dashboard.courses.title')}</Text>
             {courses.length > 3 && (
               <TouchableOpacity onPress={() => router.push('/courses' as any)}>
-                <Text style={styles.seeAllButton}>See All ({courses.length}) →</Text>
+                <Text style={styles.seeAllButton}>{t('common.seeAllCount', { count: courses.length })}</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -566,8 +621,8 @@ export default function DashboardPremium({
                 style={styles.emptyImage}
                 contentFit="contain"
               />
-              <Text style={styles.emptyTitle}>No courses yet</Text>
-              <Text style={styles.emptySubtitle}>Tap to add your first course</Text>
+              <Text style={styles.emptyTitle}>{t('dashboard.courses.emptyTitle')}</Text>
+              <Text style={styles.emptySubtitle}>{t('dashboard.courses.emptySubtitle')}</Text>
             </TouchableOpacity>
           ) : (
             <ScrollView 
@@ -583,6 +638,7 @@ export default function DashboardPremium({
                     key={course.id}
                     course={course}
                     backgroundImage={ILLUSTRATIONS[`heroStudy${(index % 7) + 1}` as keyof typeof ILLUSTRATIONS]}
+                    grade={courseGrades.get(course.id)}
                     totalTasks={courseStats.total}
                     completedTasks={courseStats.completed}
                     pendingTasks={courseStats.pending}
@@ -602,7 +658,7 @@ export default function DashboardPremium({
             <View style={styles.sectionHeader}>
               <View style={styles.sectionTitleContainer}>
                 <Ionicons name="alert-circle" size={20} color={COLORS_V2.error[500]} />
-                <Text style={styles.sectionTitle}>Needs Attention</Text>
+                <Text style={styles.sectionTitle}>{t('dashboard.atRisk.title')}</Text>
               </View>
             </View>
             
@@ -629,7 +685,7 @@ export default function DashboardPremium({
                     <Text style={styles.atRiskTitle} numberOfLines={1}>{task.title}</Text>
                     <View style={[styles.riskBadge, { backgroundColor: `${riskColor}20` }]}>
                       <Text style={[styles.riskBadgeText, { color: riskColor }]}>
-                        {prediction.riskLevel.toUpperCase()}
+                        {t(`dashboard.atRisk.${prediction.riskLevel}`)}
                       </Text>
                     </View>
                   </View>
@@ -637,9 +693,11 @@ export default function DashboardPremium({
                     {prediction.prediction}
                   </Text>
                   <View style={styles.atRiskFooter}>
-                    <Text style={styles.atRiskDays}>{prediction.daysRemaining} days left</Text>
+                    <Text style={styles.atRiskDays}>
+                      {t('dashboard.atRisk.daysLeft', { count: prediction.daysRemaining })}
+                    </Text>
                     <Text style={styles.atRiskHours}>
-                      {prediction.recommendedHoursPerDay.toFixed(1)}h/day needed
+                      {t('dashboard.atRisk.hoursNeeded', { hours: prediction.recommendedHoursPerDay.toFixed(1) })}
                     </Text>
                   </View>
                 </TouchableOpacity>
@@ -651,9 +709,9 @@ export default function DashboardPremium({
         {/* ✅ UPCOMING TASKS */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Upcoming Tasks</Text>
+            <Text style={styles.sectionTitle}>{t('dashboard.upcoming.title')}</Text>
             <TouchableOpacity onPress={() => router.push('/tasks' as any)}>
-              <Text style={styles.seeAllButton}>See All →</Text>
+              <Text style={styles.seeAllButton}>{t('common.seeAll')}</Text>
             </TouchableOpacity>
           </View>
           
@@ -664,8 +722,8 @@ export default function DashboardPremium({
                 style={styles.emptyImage}
                 contentFit="contain"
               />
-              <Text style={styles.emptyTitle}>All clear! 🎉</Text>
-              <Text style={styles.emptySubtitle}>No upcoming tasks. Time to relax!</Text>
+              <Text style={styles.emptyTitle}>{t('dashboard.upcoming.emptyTitle')}</Text>
+              <Text style={styles.emptySubtitle}>{t('dashboard.upcoming.emptySubtitle')}</Text>
             </View>
           ) : (
             <>
@@ -690,7 +748,7 @@ export default function DashboardPremium({
                   onPress={() => setShowAllTasks(true)}
                 >
                   <Text style={styles.showMoreText}>
-                    Show {upcomingTasks.length - 3} more tasks
+                    {t('dashboard.upcoming.showMore', { count: upcomingTasks.length - 3 })}
                   </Text>
                   <Ionicons name="chevron-down" size={16} color={COLORS_V2.primary[500]} />
                 </TouchableOpacity>
@@ -710,10 +768,10 @@ export default function DashboardPremium({
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS_V2.background.primary,
+    backgroundColor: colors.background,
   },
   loadingContainer: {
     flex: 1,
@@ -723,7 +781,7 @@ const styles = StyleSheet.create({
   header: {
     padding: SPACING.xl,
     paddingTop: Platform.OS === 'ios' ? SPACING.massive : SPACING.xl,
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
   },
   headerTop: {
     flexDirection: 'row',
@@ -742,16 +800,16 @@ const styles = StyleSheet.create({
   },
   greetingText: {
     ...TYPOGRAPHY.headlineSmall,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     marginBottom: 2,
   },
   greetingSubtext: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
   },
   dateText: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     marginTop: SPACING.xs,
   },
   
@@ -759,7 +817,7 @@ const styles = StyleSheet.create({
   progressRingContainer: {
     borderRadius: 100,
     overflow: 'hidden',
-    backgroundColor: COLORS_V2.background.tertiary,
+    backgroundColor: colors.surface,
     ...ELEVATION.sm,
   },
   progressRingBackground: {
@@ -785,7 +843,7 @@ const styles = StyleSheet.create({
   progressRingText: {
     ...TYPOGRAPHY.labelSmall,
     fontWeight: '700',
-    color: COLORS_V2.text.primary,
+    color: colors.text,
   },
   
   // ✅ NEW: Banner Container
@@ -827,7 +885,7 @@ const styles = StyleSheet.create({
   },
   sectionTitle: {
     ...TYPOGRAPHY.titleLarge,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
   },
   seeAllButton: {
@@ -843,7 +901,7 @@ const styles = StyleSheet.create({
   quickChip: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     padding: SPACING.md,
     ...ELEVATION.sm,
@@ -862,14 +920,14 @@ const styles = StyleSheet.create({
   },
   quickChipLabel: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '600',
     flex: 1,
   },
   
   // At-Risk Cards
   atRiskCard: {
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     padding: SPACING.lg,
     marginBottom: SPACING.md,
@@ -884,7 +942,7 @@ const styles = StyleSheet.create({
   },
   atRiskTitle: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     flex: 1,
     marginRight: SPACING.sm,
   },
@@ -899,7 +957,7 @@ const styles = StyleSheet.create({
   },
   atRiskPrediction: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     marginBottom: SPACING.sm,
   },
   atRiskFooter: {
@@ -908,7 +966,7 @@ const styles = StyleSheet.create({
   },
   atRiskDays: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.tertiary,
+    color: colors.textMuted,
   },
   atRiskHours: {
     ...TYPOGRAPHY.labelSmall,
@@ -923,7 +981,7 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     padding: SPACING.md,
     marginTop: SPACING.sm,
-    backgroundColor: COLORS_V2.background.secondary,
+    backgroundColor: colors.background,
     borderRadius: RADIUS.md,
   },
   showMoreText: {
@@ -937,7 +995,7 @@ const styles = StyleSheet.create({
   emptyState: {
     alignItems: 'center',
     padding: SPACING.xxl,
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.xl,
     ...ELEVATION.sm,
   },
@@ -948,12 +1006,12 @@ const styles = StyleSheet.create({
   },
   emptyTitle: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     marginBottom: SPACING.xs,
   },
   emptySubtitle: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   
@@ -17,10 +17,14 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
-import { COLORS_V2, SPACING, TYPOGRAPHY } from '../constants/designSystem';
-import { indexAllUserData } from '../services/ai/ragIndexer';
+import { COLORS_V2, SPACING, ThemeColors, TYPOGRAPHY } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { useReindexProgress } from '../hooks/useReindexProgress';
+import { indexAllUserData, resumeReindexJob } from '../services/ai/ragReindexJob';
 import {
     answerWithContext,
+    getSourceLabel,
     getVectorStoreStats,
     SearchResult,
 } from '../services/ai/ragService';
@@ -32,6 +36,7 @@ interface Message {
   sources?: SearchResult[];
   confidence?: number;
   timestamp: Date;
+  cancelled?: boolean;
 }
 
 interface RAGChatProps {
@@ -39,23 +44,34 @@ interface RAGChatProps {
 }
 
 export default function RAGChat({ userId }: RAGChatProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const [messages, setMessages] = useState<Message[]>(() => [{
+    id: '0',
+    type: 'assistant',
+    content: t('ragChat.welcome'),
+    timestamp: new Date(),
+  }]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [indexing, setIndexing] = useState(false);
   const [stats, setStats] = useState<any>(null);
+  const [streamingText, setStreamingText] = useState('');
   const scrollViewRef = React.useRef<ScrollView>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+  const reindexProgress = useReindexProgress();
+
+  // Stop any reply still streaming when the chat closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Finish a reindex cut short last time
+  useEffect(() => {
+    resumeReindexJob(userId);
+  }, [userId]);
 
   useEffect(() => {
     loadStats();
-    
-    // Welcome message
-    setMessages([{
-      id: '0',
-      type: 'assistant',
-      content: "👋 Hi! I'm your RAG-powered AI assistant. I can answer questions based on YOUR personal notes, tasks, and course materials. Ask me anything about your studies!",
-      timestamp: new Date(),
-    }]);
   }, []);
 
   const loadStats = async () => {
@@ -65,31 +81,34 @@ export default function RAGChat({ userId }: RAGChatProps) {
 
   const handleIndexData = async () => {
     Alert.alert(
-      'Index Your Data',
-      'This will index all your tasks, courses, and study sessions for semantic search. Continue?',
+      t('ragChat.indexTitle'),
+      t('ragChat.indexConfirm'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Index',
+          text: t('ragChat.index'),
           onPress: async () => {
             setIndexing(true);
             try {
               const result = await indexAllUserData(userId);
               await loadStats();
+              if (!result.success) {
+                throw new Error(result.errors.join(', '));
+              }
               
               Alert.alert(
-                'Indexing Complete! 🎉',
-                `Indexed:\n• ${result.indexed.tasks} tasks\n• ${result.indexed.courses} courses\n• ${result.indexed.sessions} study sessions\n\nYou can now ask questions about your data!`
+                t('ragChat.indexedTitle'),
+                t('ragChat.indexedMessage', result.indexed)
               );
               
               setMessages(prev => [...prev, {
                 id: Date.now().toString(),
                 type: 'assistant',
-                content: `✅ Your data has been indexed! I now have access to ${result.indexed.tasks} tasks, ${result.indexed.courses} courses, and ${result.indexed.sessions} study sessions. Ask me anything!`,
+                content: t('ragChat.indexedChat', result.indexed),
                 timestamp: new Date(),
               }]);
             } catch (error) {
-              Alert.alert('Error', 'Failed to index data');
+              Alert.alert(t('common.error'), t('ragChat.indexFailed'));
             } finally {
               setIndexing(false);
             }
@@ -112,6 +131,10 @@ export default function RAGChat({ userId }: RAGChatProps) {
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setLoading(true);
+    setStreamingText('');
+
+    const abortController = new AbortController();
+    abortRef.current = abortController;
 
     // Scroll to bottom
     setTimeout(() => {
@@ -122,8 +145,17 @@ export default function RAGChat({ userId }: RAGChatProps) {
       // Get context-aware answer
       const response = await answerWithContext(userMessage.content, userId, {
         maxContextLength: 2000,
+        signal: abortController.signal,
+        onToken: (partialText) => {
+          if (abortRef.current !== abortController) return;
+          setStreamingText(partialText);
+          scrollViewRef.current?.scrollToEnd({ animated: false });
+        },
       });
 
+      // Stopped before anything arrived - nothing to keep
+      if (response.cancelled && !response.answer) return;
+
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
@@ -131,6 +163,7 @@ export default function RAGChat({ userId }: RAGChatProps) {
         sources: response.sources,
         confidence: response.confidence,
         timestamp: new Date(),
+        cancelled: response.cancelled,
       };
 
       setMessages(prev => [...prev, assistantMessage]);
@@ -144,16 +177,24 @@ export default function RAGChat({ userId }: RAGChatProps) {
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
+        content: t('ragChat.answerFailed'),
         timestamp: new Date(),
       };
       
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      if (abortRef.current === abortController) {
+        abortRef.current = null;
+      }
+      setStreamingText('');
       setLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <KeyboardAvoidingView
       style={styles.container}
@@ -163,24 +204,28 @@ export default function RAGChat({ userId }: RAGChatProps) {
       {/* Stats Header */}
       <View style={styles.statsHeader}>
         <View>
-          <Text style={styles.statsTitle}>📚 RAG Knowledge Base</Text>
-          {stats && (
+          <Text style={styles.statsTitle}>{t('ragChat.knowledgeBase')}</Text>
+          {reindexProgress.status === 'running' ? (
+            <Text style={styles.statsText}>
+              {t('ragChat.reindexing', { processed: reindexProgress.processed, total: reindexProgress.total })}
+            </Text>
+          ) : stats && (
             <Text style={styles.statsText}>
-              {stats.totalItems} items indexed • {Object.keys(stats.byType).length} types
+              {t('ragChat.stats', { count: stats.totalItems, types: Object.keys(stats.byType).length })}
             </Text>
           )}
         </View>
         <TouchableOpacity
           style={styles.indexButton}
           onPress={handleIndexData}
-          disabled={indexing}
+          disabled={indexing || reindexProgress.status === 'running'}
         >
-          {indexing ? (
+          {indexing || reindexProgress.status === 'running' ? (
             <ActivityIndicator color={COLORS_V2.primary[600]} size="small" />
           ) : (
             <>
               <Ionicons name="refresh" size={18} color={COLORS_V2.primary[600]} />
-              <Text style={styles.indexButtonText}>Index Data</Text>
+              <Text style={styles.indexButtonText}>{t('ragChat.indexData')}</Text>
             </>
           )}
         </TouchableOpacity>
@@ -196,10 +241,15 @@ export default function RAGChat({ userId }: RAGChatProps) {
         {messages.map((message) => (
           <MessageBubble key={message.id} message={message} />
         ))}
-        {loading && (
+        {loading && streamingText !== '' && (
+          <MessageBubble
+            message={{ id: 'streaming', type: 'assistant', content: streamingText, timestamp: new Date() }}
+          />
+        )}
+        {loading && streamingText === '' && (
           <View style={styles.loadingBubble}>
             <ActivityIndicator color={COLORS_V2.primary[500]} />
-            <Text style={styles.loadingText}>Searching your data...</Text>
+            <Text style={styles.loadingText}>{t('ragChat.searching')}</Text>
           </View>
         )}
       </ScrollView>
@@ -208,8 +258,8 @@ export default function RAGChat({ userId }: RAGChatProps) {
       <View style={styles.inputContainer}>
         <TextInput
           style={styles.input}
-          placeholder="Ask about your tasks, notes, courses..."
-          placeholderTextColor={COLORS_V2.neutral[400]}
+          placeholder={t('ragChat.placeholder')}
+          placeholderTextColor={colors.textMuted}
           value={input}
           onChangeText={setInput}
           multiline
@@ -217,36 +267,46 @@ export default function RAGChat({ userId }: RAGChatProps) {
           editable={!loading}
           onSubmitEditing={handleSend}
         />
-        <TouchableOpacity
-          style={[styles.sendButton, (!input.trim() || loading) && styles.sendButtonDisabled]}
-          onPress={handleSend}
-          disabled={!input.trim() || loading}
-        >
-          <Ionicons name="send" size={20} color="#fff" />
-        </TouchableOpacity>
+        {loading ? (
+          <TouchableOpacity
+            style={[styles.sendButton, styles.stopButton]}
+            onPress={handleStop}
+            accessibilityLabel={t('ragChat.stop')}
+          >
+            <Ionicons name="stop" size={18} color={colors.background} />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.sendButton, !input.trim() && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={!input.trim()}
+          >
+            <Ionicons name="send" size={20} color={colors.onPrimary} />
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* Example Questions */}
       {messages.length === 1 && (
         <View style={styles.examplesContainer}>
-          <Text style={styles.examplesTitle}>Try asking:</Text>
+          <Text style={styles.examplesTitle}>{t('ragChat.tryAsking')}</Text>
           <TouchableOpacity
             style={styles.exampleChip}
-            onPress={() => setInput("What tasks are due this week?")}
+            onPress={() => setInput(t('ragChat.examples.due'))}
           >
-            <Text style={styles.exampleText}>What tasks are due this week?</Text>
+            <Text style={styles.exampleText}>{t('ragChat.examples.due')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.exampleChip}
-            onPress={() => setInput("Which courses need more study time?")}
+            onPress={() => setInput(t('ragChat.examples.study'))}
           >
-            <Text style={styles.exampleText}>Which courses need more study time?</Text>
+            <Text style={styles.exampleText}>{t('ragChat.examples.study')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.exampleChip}
-            onPress={() => setInput("Summarize my progress this month")}
+            onPress={() => setInput(t('ragChat.examples.progress'))}
           >
-            <Text style={styles.exampleText}>Summarize my progress this month</Text>
+            <Text style={styles.exampleText}>{t('ragChat.examples.progress')}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -255,6 +315,9 @@ export default function RAGChat({ userId }: RAGChatProps) {
 }
 
 function MessageBubble({ message }: { message: Message }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatTime } = useTranslation();
   const isUser = message.type === 'user';
 
   return (
@@ -262,6 +325,10 @@ function MessageBubble({ message }: { message: Message }) {
       <Text style={[styles.messageText, isUser ? styles.userText : styles.assistantText]}>
         {message.content}
       </Text>
+
+      {message.cancelled && (
+        <Text style={styles.cancelledText}>{t('ragChat.stopped')}</Text>
+      )}
       
       {message.confidence !== undefined && message.confidence > 0 && (
         <View style={styles.confidenceBadge}>
@@ -270,22 +337,22 @@ function MessageBubble({ message }: { message: Message }) {
             size={14} 
             color={message.confidence > 70 ? COLORS_V2.success[500] : COLORS_V2.warning[500]} 
           />
-          <Text style={styles.confidenceText}>{message.confidence}% confident</Text>
+          <Text style={styles.confidenceText}>{t('ragChat.confident', { percent: message.confidence })}</Text>
         </View>
       )}
       
       {message.sources && message.sources.length > 0 && (
         <View style={styles.sourcesContainer}>
-          <Text style={styles.sourcesTitle}>📎 Sources ({message.sources.length}):</Text>
+          <Text style={styles.sourcesTitle}>{t('ragChat.sources', { count: message.sources.length })}</Text>
           {message.sources.map((source, idx) => (
             <View key={idx} style={styles.sourceItem}>
               <Ionicons 
                 name={getSourceIcon(source.type)} 
                 size={14} 
-                color={COLORS_V2.neutral[600]} 
+                color={colors.textSecondary} 
               />
               <Text style={styles.sourceText} numberOfLines={1}>
-                {source.metadata.title || source.type}
+                {source.metadata.title ? getSourceLabel(source) : source.type}
               </Text>
               <Text style={styles.similarityText}>
                 {Math.round(source.similarity * 100)}%
@@ -296,7 +363,7 @@ function MessageBubble({ message }: { message: Message }) {
       )}
       
       <Text style={styles.timestamp}>
-        {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        {formatTime(message.timestamp)}
       </Text>
     </View>
   );
@@ -312,27 +379,27 @@ function getSourceIcon(type: string): any {
   }
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: COLORS_V2.neutral[50],
+    backgroundColor: colors.background,
   },
   statsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
     padding: SPACING.md,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderBottomWidth: 1,
-    borderBottomColor: COLORS_V2.neutral[200],
+    borderBottomColor: colors.border,
   },
   statsTitle: {
     ...TYPOGRAPHY.titleSmall,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
   },
   statsText: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
     marginTop: 2,
   },
   indexButton: {
@@ -341,7 +408,7 @@ const styles = StyleSheet.create({
     gap: SPACING.xs,
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
-    backgroundColor: COLORS_V2.primary[50],
+    backgroundColor: colors.primaryLight,
     borderRadius: 20,
   },
   indexButtonText: {
@@ -368,9 +435,9 @@ const styles = StyleSheet.create({
   },
   assistantBubble: {
     alignSelf: 'flex-start',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderBottomLeftRadius: 4,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 1 },
     shadowOpacity: 0.1,
     shadowRadius: 2,
@@ -380,10 +447,10 @@ const styles = StyleSheet.create({
     ...TYPOGRAPHY.bodyMedium,
   },
   userText: {
-    color: '#fff',
+    color: colors.onPrimary,
   },
   assistantText: {
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
   },
   confidenceBadge: {
     flexDirection: 'row',
@@ -392,21 +459,21 @@ const styles = StyleSheet.create({
     marginTop: SPACING.sm,
     paddingTop: SPACING.sm,
     borderTopWidth: 1,
-    borderTopColor: COLORS_V2.neutral[200],
+    borderTopColor: colors.border,
   },
   confidenceText: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
   },
   sourcesContainer: {
     marginTop: SPACING.sm,
     paddingTop: SPACING.sm,
     borderTopWidth: 1,
-    borderTopColor: COLORS_V2.neutral[200],
+    borderTopColor: colors.border,
   },
   sourcesTitle: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.neutral[700],
+    color: colors.text,
     marginBottom: SPACING.xs,
   },
   sourceItem: {
@@ -417,7 +484,7 @@ const styles = StyleSheet.create({
   },
   sourceText: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
     flex: 1,
   },
   similarityText: {
@@ -427,7 +494,7 @@ const styles = StyleSheet.create({
   },
   timestamp: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.neutral[500],
+    color: colors.textSecondary,
     marginTop: SPACING.xs,
   },
   loadingBubble: {
@@ -435,32 +502,38 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: SPACING.sm,
     alignSelf: 'flex-start',
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     padding: SPACING.md,
     borderRadius: 16,
     marginBottom: SPACING.md,
   },
+  cancelledText: {
+    ...TYPOGRAPHY.labelSmall,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: SPACING.xs,
+  },
   loadingText: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.neutral[600],
+    color: colors.textSecondary,
   },
   inputContainer: {
     flexDirection: 'row',
     padding: SPACING.md,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderTopWidth: 1,
-    borderTopColor: COLORS_V2.neutral[200],
+    borderTopColor: colors.border,
     gap: SPACING.sm,
   },
   input: {
     flex: 1,
     ...TYPOGRAPHY.bodyMedium,
-    backgroundColor: COLORS_V2.neutral[50],
+    backgroundColor: colors.background,
     borderRadius: 24,
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
     maxHeight: 100,
-    color: COLORS_V2.neutral[900],
+    color: colors.text,
   },
   sendButton: {
     width: 44,
@@ -473,25 +546,28 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     opacity: 0.5,
   },
+  stopButton: {
+    backgroundColor: colors.text,
+  },
   examplesContainer: {
     padding: SPACING.md,
-    backgroundColor: '#fff',
+    backgroundColor: colors.card,
     borderTopWidth: 1,
-    borderTopColor: COLORS_V2.neutral[200],
+    borderTopColor: colors.border,
   },
   examplesTitle: {
     ...TYPOGRAPHY.labelMedium,
-    color: COLORS_V2.neutral[700],
+    color: colors.text,
     marginBottom: SPACING.sm,
   },
   exampleChip: {
-    backgroundColor: COLORS_V2.primary[50],
+    backgroundColor: colors.primaryLight,
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.sm,
     borderRadius: 20,
     marginBottom: SPACING.xs,
     borderWidth: 1,
-    borderColor: COLORS_V2.primary[200],
+    borderColor: colors.primaryLight,
   },
   exampleText: {
     ...TYPOGRAPHY.bodySmall,
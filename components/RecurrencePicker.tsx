@@ -0,0 +1,379 @@
+/**
+ * Recurrence Picker
+ * Repeat settings for a new task: frequency, interval, weekdays, an optional
+ * class slot to follow, and when the series ends
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import { Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { RECURRENCE_CONFIG } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { describeRecurrence, getOccurrenceDates, getRecurrenceDays } from '../services/recurrence';
+import { RecurrenceFrequency, RecurrenceRule, TimetableEntry } from '../types';
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+type EndMode = 'semester' | 'count' | 'until';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  firstDue: Date;
+  slots: TimetableEntry[]; // class slots of the selected course
+  editable?: boolean;
+}
+
+export default function RecurrencePicker({
+  value,
+  onChange,
+  firstDue,
+  slots,
+  editable = true,
+}: RecurrencePickerProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate: formatLocaleDate, formatWeekday } = useTranslation();
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  const anchor = value?.timetableEntryId ? slots.find(slot => slot.id === value.timetableEntryId) : undefined;
+  const endMode: EndMode = value?.count ? 'count' : value?.until ? 'until' : 'semester';
+  const occurrences = value ? getOccurrenceDates(firstDue, value, anchor) : [];
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const setFrequency = (frequency: RecurrenceFrequency | null) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency,
+      interval: value?.interval || 1,
+      daysOfWeek: frequency === 'weekly' ? [firstDue.getDay()] : undefined,
+      count: value?.count,
+      until: value?.until,
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    if (!value) return;
+    const days = getRecurrenceDays(value, firstDue);
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day];
+    if (next.length > 0) update({ daysOfWeek: next.sort((a, b) => a - b) });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    if (mode === 'count') {
+      update({ count: value?.count || 10, until: undefined });
+    } else if (mode === 'until') {
+      const until = new Date(firstDue);
+      until.setDate(until.getDate() + RECURRENCE_CONFIG.defaultWeeks * 7);
+      update({ until: value?.until || until, count: undefined });
+    } else {
+      update({ count: undefined, until: undefined });
+    }
+  };
+
+  const formatDate = (date: Date) => formatLocaleDate(date, { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const frequencyOptions: { label: string; value: RecurrenceFrequency | null }[] = [
+    { label: t('recurrencePicker.never'), value: null },
+    { label: t('recurrencePicker.daily'), value: 'daily' },
+    { label: t('recurrencePicker.weekly'), value: 'weekly' },
+  ];
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {frequencyOptions.map(option => {
+          const active = (value?.frequency ?? null) === option.value;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setFrequency(option.value)}
+              disabled={!editable}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value && (
+        <View style={styles.body}>
+          {/* Interval */}
+          <View style={styles.inlineRow}>
+            <Text style={styles.inlineLabel}>{t('recurrencePicker.every')}</Text>
+            <TouchableOpacity
+              onPress={() => update({ interval: Math.max(1, value.interval - 1) })}
+              disabled={!editable || value.interval <= 1}
+              accessibilityLabel={t('recurrencePicker.decreaseInterval')}
+            >
+              <Ionicons name="remove-circle-outline" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <Text style={styles.intervalValue}>{value.interval}</Text>
+            <TouchableOpacity
+              onPress={() => update({ interval: value.interval + 1 })}
+              disabled={!editable}
+              accessibilityLabel={t('recurrencePicker.increaseInterval')}
+            >
+              <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
+            </TouchableOpacity>
+            <Text style={styles.inlineLabel}>
+              {value.frequency === 'daily' && !anchor ? t('recurrencePicker.days') : t('recurrencePicker.weeks')}
+            </Text>
+          </View>
+
+          {/* Class slot */}
+          {value.frequency === 'weekly' && slots.length > 0 && (
+            <>
+              <Text style={styles.subLabel}>{t('recurrencePicker.followSlot')}</Text>
+              <View style={styles.chipRow}>
+                <TouchableOpacity
+                  style={[styles.chip, !anchor && styles.chipActive]}
+                  onPress={() => update({ timetableEntryId: undefined })}
+                  disabled={!editable}
+                >
+                  <Text style={[styles.chipText, !anchor && styles.chipTextActive]}>{t('common.none')}</Text>
+                </TouchableOpacity>
+                {slots.map(slot => {
+                  const active = anchor?.id === slot.id;
+                  return (
+                    <TouchableOpacity
+                      key={slot.id}
+                      style={[styles.chip, active && styles.chipActive]}
+                      onPress={() => update({ timetableEntryId: slot.id })}
+                      disabled={!editable}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                        {formatWeekday(slot.dayOfWeek)} {slot.startTime}
+                        {slot.type ? ` ${slot.type}` : ''}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          {/* Weekdays */}
+          {value.frequency === 'weekly' && !anchor && (
+            <>
+              <Text style={styles.subLabel}>{t('recurrencePicker.on')}</Text>
+              <View style={styles.weekdayRow}>
+                {WEEKDAYS.map(day => {
+                  const active = getRecurrenceDays(value, firstDue).includes(day);
+                  return (
+                    <TouchableOpacity
+                      key={day}
+                      style={[styles.weekday, active && styles.chipActive]}
+                      onPress={() => toggleDay(day)}
+                      disabled={!editable}
+                      accessibilityLabel={formatWeekday(day, 'long')}
+                      accessibilityState={{ selected: active }}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{formatWeekday(day, 'narrow')}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          {/* End */}
+          <Text style={styles.subLabel}>{t('recurrencePicker.ends')}</Text>
+          <View style={styles.chipRow}>
+            {([
+              ['semester', t('recurrencePicker.endSemester')],
+              ['count', t('recurrencePicker.endAfter')],
+              ['until', t('recurrencePicker.endOnDate')],
+            ] as [EndMode, string][]).map(([mode, label]) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.chip, endMode === mode && styles.chipActive]}
+                onPress={() => setEndMode(mode)}
+                disabled={!editable}
+              >
+                <Text style={[styles.chipText, endMode === mode && styles.chipTextActive]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {endMode === 'count' && (
+            <View style={styles.inlineRow}>
+              <TextInput
+                style={styles.countInput}
+                value={value.count?.toString() || ''}
+                onChangeText={text => {
+                  const count = parseInt(text, 10);
+                  update({ count: isNaN(count) ? undefined : Math.min(count, RECURRENCE_CONFIG.maxOccurrences) });
+                }}
+                keyboardType="number-pad"
+                editable={editable}
+              />
+              <Text style={styles.inlineLabel}>{t('recurrencePicker.occurrences')}</Text>
+            </View>
+          )}
+
+          {endMode === 'until' && value.until && (
+            <>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowUntilPicker(true)}
+                disabled={!editable}
+              >
+                <Ionicons name="calendar-outline" size={18} color={colors.primary} />
+                <Text style={styles.dateText}>{formatDate(value.until)}</Text>
+              </TouchableOpacity>
+              {showUntilPicker && (
+                <DateTimePicker
+                  value={value.until}
+                  mode="date"
+                  display="default"
+                  minimumDate={firstDue}
+                  onChange={(event, selectedDate) => {
+                    setShowUntilPicker(Platform.OS === 'ios');
+                    if (selectedDate) update({ until: selectedDate });
+                  }}
+                />
+              )}
+            </>
+          )}
+
+          {/* Preview */}
+          <View style={styles.preview}>
+            <Text style={styles.previewTitle}>{describeRecurrence(value, firstDue, anchor)}</Text>
+            <Text style={styles.previewText}>
+              {occurrences.length > 0
+                ? t('recurrencePicker.preview', {
+                    count: occurrences.length,
+                    first: formatDate(occurrences[0]),
+                    last: formatDate(occurrences[occurrences.length - 1]),
+                  })
+                : t('recurrencePicker.noOccurrences')}
+            </Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.card,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+  },
+  body: {
+    marginTop: 12,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 8,
+  },
+  inlineLabel: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  intervalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  subLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekday: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    backgroundColor: colors.card,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countInput: {
+    width: 64,
+    backgroundColor: colors.card,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 10,
+    fontSize: 15,
+    textAlign: 'center',
+    color: colors.text,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    backgroundColor: colors.card,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    alignSelf: 'flex-start',
+  },
+  dateText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  preview: {
+    marginTop: 14,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary + '12',
+  },
+  previewTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  previewText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+});
@@ -46,7 +46,9 @@ import Animated, {
     useSharedValue,
     withSpring
 } from 'react-native-reanimated';
-import { COLORS_V2, ELEVATION, RADIUS, SPACING, TYPOGRAPHY } from '../constants/designSystem';
+import { ELEVATION, RADIUS, SPACING, ThemeColors, TYPOGRAPHY } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
 import { SmartAlert } from '../services/notificationAggregator';
 
 const { width } = Dimensions.get('window');
@@ -70,6 +72,9 @@ export const SmartNotificationBanner = memo(({
   autoRotate = true,
   autoRotateInterval = 5000,
 }: SmartNotificationBannerProps) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [expanded, setExpanded] = useState(false);
@@ -177,15 +182,15 @@ export const SmartNotificationBanner = memo(({
         <View style={[styles.banner, styles.successBanner]}>
           <Text style={styles.emoji}>✨</Text>
           <View style={styles.content}>
-            <Text style={styles.title}>All Clear!</Text>
-            <Text style={styles.message}>No urgent alerts. Keep up the great work!</Text>
+            <Text style={styles.title}>{t('notificationBanner.allClear')}</Text>
+            <Text style={styles.message}>{t('notificationBanner.noUrgent')}</Text>
           </View>
         </View>
       </View>
     );
   }
   
-  const priorityStyles = getPriorityStyles(currentAlert.priority);
+  const priorityStyles = getPriorityStyles(currentAlert.priority, colors);
   
   return (
     <View style={styles.container} key={currentAlert.id}>
@@ -230,7 +235,7 @@ export const SmartNotificationBanner = memo(({
                   onPress={handleAction}
                 >
                   <Text style={[styles.actionText, { color: currentAlert.color }]}>
-                    {currentAlert.actionLabel || 'Take Action'}
+                    {currentAlert.actionLabel || t('notificationBanner.takeAction')}
                   </Text>
                   <Ionicons
                     name="arrow-forward"
@@ -248,7 +253,7 @@ export const SmartNotificationBanner = memo(({
                 onPress={handleDismiss}
                 hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
               >
-                <Ionicons name="close" size={18} color={COLORS_V2.text.tertiary} />
+                <Ionicons name="close" size={18} color={colors.textMuted} />
               </TouchableOpacity>
             )}
           </View>
@@ -270,7 +275,7 @@ export const SmartNotificationBanner = memo(({
                 style={[
                   styles.dot,
                   index === currentIndex && styles.activeDot,
-                  { backgroundColor: index === currentIndex ? currentAlert.color : COLORS_V2.text.tertiary },
+                  { backgroundColor: index === currentIndex ? currentAlert.color : colors.textMuted },
                 ]}
                 hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
               />
@@ -290,6 +295,8 @@ export const MinimalNotificationBanner = memo(({
   alerts,
   onDismiss,
 }: Pick<SmartNotificationBannerProps, 'alerts' | 'onDismiss'>) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const alert = alerts[0]; // Show only first alert
   
@@ -323,7 +330,7 @@ export const MinimalNotificationBanner = memo(({
           }}
           hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
         >
-          <Ionicons name="close-circle" size={20} color={COLORS_V2.text.tertiary} />
+          <Ionicons name="close-circle" size={20} color={colors.textMuted} />
         </TouchableOpacity>
       )}
     </TouchableOpacity>
@@ -339,6 +346,9 @@ export const PremiumNotificationBanner = memo(({
   onDismiss,
   onRefresh,
 }: SmartNotificationBannerProps) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const [currentIndex, setCurrentIndex] = useState(0);
   const pulseScale = useSharedValue(1);
@@ -377,15 +387,15 @@ export const PremiumNotificationBanner = memo(({
         style={styles.container}
       >
         <LinearGradient
-          colors={['#10B981', '#059669']}
+          colors={[colors.success, colors.success + 'DD']}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
           style={styles.premiumBanner}
         >
           <Text style={styles.premiumEmoji}>✨</Text>
           <View style={styles.premiumContent}>
-            <Text style={styles.premiumTitle}>All Systems Green!</Text>
-            <Text style={styles.premiumMessage}>No urgent items. You're in control! 🎉</Text>
+            <Text style={styles.premiumTitle}>{t('notificationBanner.allGreen')}</Text>
+            <Text style={styles.premiumMessage}>{t('notificationBanner.inControl')}</Text>
           </View>
         </LinearGradient>
       </MotiView>
@@ -435,7 +445,7 @@ export const PremiumNotificationBanner = memo(({
                     }}
                   >
                     <View style={styles.urgentBadge}>
-                      <Text style={styles.urgentText}>URGENT</Text>
+                      <Text style={styles.urgentText}>{t('notificationBanner.urgent')}</Text>
                     </View>
                   </MotiView>
                 )}
@@ -448,9 +458,9 @@ export const PremiumNotificationBanner = memo(({
               {currentAlert.actionable && (
                 <View style={styles.premiumActionButton}>
                   <Text style={styles.premiumActionText}>
-                    {currentAlert.actionLabel || 'Take Action'}
+                    {currentAlert.actionLabel || t('notificationBanner.takeAction')}
                   </Text>
-                  <Ionicons name="arrow-forward" size={16} color="#fff" />
+                  <Ionicons name="arrow-forward" size={16} color={colors.onPrimary} />
                 </View>
               )}
             </View>
@@ -464,7 +474,7 @@ export const PremiumNotificationBanner = memo(({
                   onDismiss(currentAlert.id);
                 }}
               >
-                <Ionicons name="close" size={20} color="#fff" />
+                <Ionicons name="close" size={20} color={colors.onPrimary} />
               </TouchableOpacity>
             )}
           </LinearGradient>
@@ -497,6 +507,9 @@ export const CompactNotificationBanner = memo(({
   alerts,
   onDismiss,
 }: Pick<SmartNotificationBannerProps, 'alerts' | 'onDismiss'>) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const router = useRouter();
   const topAlert = alerts.slice(0, 3); // Show top 3 alerts only
   
@@ -505,7 +518,7 @@ export const CompactNotificationBanner = memo(({
       <View style={styles.compactContainer}>
         <View style={[styles.compactBanner, styles.compactSuccess]}>
           <Text style={styles.compactEmoji}>✅</Text>
-          <Text style={styles.compactText}>All clear! Great work!</Text>
+          <Text style={styles.compactText}>{t('notificationBanner.compactClear')}</Text>
         </View>
       </View>
     );
@@ -547,7 +560,7 @@ export const CompactNotificationBanner = memo(({
                 }}
                 hitSlop={{ top: 5, bottom: 5, left: 5, right: 5 }}
               >
-                <Ionicons name="close" size={16} color={COLORS_V2.text.tertiary} />
+                <Ionicons name="close" size={16} color={colors.textMuted} />
               </TouchableOpacity>
             )}
           </TouchableOpacity>
@@ -562,7 +575,7 @@ export const CompactNotificationBanner = memo(({
           <Text style={styles.compactMoreText}>
             +{alerts.length - 3} more alerts
           </Text>
-          <Ionicons name="chevron-forward" size={14} color={COLORS_V2.primary[600]} />
+          <Ionicons name="chevron-forward" size={14} color={colors.primaryDark} />
         </TouchableOpacity>
       )}
     </View>
@@ -573,27 +586,27 @@ export const CompactNotificationBanner = memo(({
 // HELPER FUNCTIONS
 // ========================================
 
-function getPriorityStyles(priority: string) {
+function getPriorityStyles(priority: string, colors: ThemeColors) {
   switch (priority) {
     case 'critical':
       return {
-        borderColor: '#EF4444',
-        backgroundColor: '#FEE2E2',
+        borderColor: colors.error,
+        backgroundColor: colors.errorLight,
       };
     case 'high':
       return {
-        borderColor: '#F59E0B',
-        backgroundColor: '#FEF3C7',
+        borderColor: colors.warning,
+        backgroundColor: colors.warningLight,
       };
     case 'medium':
       return {
-        borderColor: '#3B82F6',
-        backgroundColor: '#DBEAFE',
+        borderColor: colors.info,
+        backgroundColor: colors.infoLight,
       };
     default:
       return {
-        borderColor: '#10B981',
-        backgroundColor: '#D1FAE5',
+        borderColor: colors.success,
+        backgroundColor: colors.successLight,
       };
   }
 }
@@ -602,7 +615,7 @@ function getPriorityStyles(priority: string) {
 // STYLES
 // ========================================
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     marginBottom: SPACING.md,
   },
@@ -610,7 +623,7 @@ const styles = StyleSheet.create({
   // Standard Banner
   banner: {
     flexDirection: 'row',
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     padding: SPACING.lg,
     borderLeftWidth: 4,
@@ -618,7 +631,7 @@ const styles = StyleSheet.create({
     minHeight: 80,
   },
   successBanner: {
-    borderLeftColor: COLORS_V2.success[500],
+    borderLeftColor: colors.success,
   },
   iconContainer: {
     width: 44,
@@ -643,13 +656,13 @@ const styles = StyleSheet.create({
   },
   title: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
     flex: 1,
   },
   message: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     marginBottom: SPACING.sm,
   },
   actionButton: {
@@ -671,7 +684,7 @@ const styles = StyleSheet.create({
     marginLeft: SPACING.sm,
   },
   indicator: {
-    backgroundColor: COLORS_V2.background.tertiary,
+    backgroundColor: colors.surface,
     paddingHorizontal: SPACING.sm,
     paddingVertical: SPACING.xs / 2,
     borderRadius: RADIUS.sm,
@@ -679,7 +692,7 @@ const styles = StyleSheet.create({
   },
   indicatorText: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.tertiary,
+    color: colors.textMuted,
     fontWeight: '600',
   },
   
@@ -711,7 +724,7 @@ const styles = StyleSheet.create({
   minimalBanner: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.md,
     padding: SPACING.md,
     borderLeftWidth: 3,
@@ -726,13 +739,13 @@ const styles = StyleSheet.create({
   },
   minimalTitle: {
     ...TYPOGRAPHY.labelLarge,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
     marginBottom: 2,
   },
   minimalMessage: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
   },
   
   // Premium Banner
@@ -748,7 +761,7 @@ const styles = StyleSheet.create({
     width: 50,
     height: 50,
     borderRadius: 25,
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    backgroundColor: colors.onPrimary + '33',
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: SPACING.md,
@@ -766,20 +779,20 @@ const styles = StyleSheet.create({
   },
   premiumTitle: {
     ...TYPOGRAPHY.titleMedium,
-    color: '#fff',
+    color: colors.onPrimary,
     fontWeight: '700',
     flex: 1,
   },
   premiumMessage: {
     ...TYPOGRAPHY.bodyMedium,
-    color: 'rgba(255, 255, 255, 0.9)',
+    color: colors.onPrimary + 'E6',
     marginBottom: SPACING.sm,
   },
   premiumActionButton: {
     flexDirection: 'row',
     alignItems: 'center',
     alignSelf: 'flex-start',
-    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    backgroundColor: colors.onPrimary + '33',
     paddingHorizontal: SPACING.md,
     paddingVertical: SPACING.xs,
     borderRadius: RADIUS.md,
@@ -787,7 +800,7 @@ const styles = StyleSheet.create({
   },
   premiumActionText: {
     ...TYPOGRAPHY.labelMedium,
-    color: '#fff',
+    color: colors.onPrimary,
     fontWeight: '700',
     marginRight: SPACING.xs,
   },
@@ -796,7 +809,7 @@ const styles = StyleSheet.create({
     marginLeft: SPACING.sm,
   },
   urgentBadge: {
-    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    backgroundColor: colors.onPrimary + '4D',
     paddingHorizontal: SPACING.sm,
     paddingVertical: 2,
     borderRadius: RADIUS.sm,
@@ -804,7 +817,7 @@ const styles = StyleSheet.create({
   },
   urgentText: {
     ...TYPOGRAPHY.labelSmall,
-    color: '#fff',
+    color: colors.onPrimary,
     fontWeight: '700',
   },
   premiumPagination: {
@@ -817,11 +830,11 @@ const styles = StyleSheet.create({
     width: 6,
     height: 6,
     borderRadius: 3,
-    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    backgroundColor: colors.onPrimary + '4D',
   },
   premiumActiveDot: {
     width: 20,
-    backgroundColor: '#fff',
+    backgroundColor: colors.onPrimary,
   },
   
   // Compact Banner
@@ -831,14 +844,14 @@ const styles = StyleSheet.create({
   compactBanner: {
     flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.md,
     padding: SPACING.sm,
     borderLeftWidth: 3,
     ...ELEVATION.sm,
   },
   compactSuccess: {
-    borderLeftColor: COLORS_V2.success[500],
+    borderLeftColor: colors.success,
   },
   compactEmoji: {
     fontSize: 18,
@@ -849,16 +862,16 @@ const styles = StyleSheet.create({
   },
   compactTitle: {
     ...TYPOGRAPHY.labelMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
   },
   compactMessage: {
     ...TYPOGRAPHY.bodySmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
   },
   compactText: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     flex: 1,
   },
   compactMore: {
@@ -866,12 +879,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
     padding: SPACING.sm,
-    backgroundColor: COLORS_V2.background.secondary,
+    backgroundColor: colors.background,
     borderRadius: RADIUS.md,
   },
   compactMoreText: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.primary[600],
+    color: colors.primaryDark,
     fontWeight: '600',
     marginRight: SPACING.xs,
   },
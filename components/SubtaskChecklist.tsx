@@ -0,0 +1,274 @@
+/**
+ * Subtask Checklist
+ * Ordered, editable subtask list shared by the task add and detail screens
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { createSubtask, getSubtaskHours, toggleSubtask } from '../services/subtaskProgress';
+import { Subtask } from '../types';
+
+interface SubtaskChecklistProps {
+  subtasks: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+  onToggle?: (subtasks: Subtask[]) => void; // ticking a box, e.g. to save it straight away
+  taskEstimate?: number;
+  editable?: boolean;
+}
+
+export default function SubtaskChecklist({
+  subtasks,
+  onChange,
+  onToggle,
+  taskEstimate,
+  editable = true,
+}: SubtaskChecklistProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const [newTitle, setNewTitle] = useState('');
+  const [newHours, setNewHours] = useState('');
+
+  const doneCount = subtasks.filter(subtask => subtask.done).length;
+  const hours = getSubtaskHours(subtasks, taskEstimate);
+
+  const handleAdd = () => {
+    if (!newTitle.trim()) return;
+    const parsedHours = newHours ? parseFloat(newHours) : undefined;
+    const estimate = parsedHours !== undefined && !isNaN(parsedHours) && parsedHours > 0 ? parsedHours : undefined;
+
+    onChange([...subtasks, createSubtask(newTitle, estimate)]);
+    setNewTitle('');
+    setNewHours('');
+  };
+
+  const updateSubtask = (id: string, changes: Partial<Subtask>) => {
+    onChange(subtasks.map(subtask => (subtask.id === id ? { ...subtask, ...changes } : subtask)));
+  };
+
+  const updateHours = (id: string, text: string) => {
+    const parsed = parseFloat(text);
+    const { estimatedHours, ...rest } = subtasks.find(subtask => subtask.id === id)!;
+    const next: Subtask = !text || isNaN(parsed) ? rest : { ...rest, estimatedHours: parsed };
+    onChange(subtasks.map(subtask => (subtask.id === id ? next : subtask)));
+  };
+
+  const moveSubtask = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= subtasks.length) return;
+    const next = [...subtasks];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removeSubtask = (id: string) => {
+    onChange(subtasks.filter(subtask => subtask.id !== id));
+  };
+
+  return (
+    <View>
+      {subtasks.length > 0 && (
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText}>
+            {t('tasks.subtasks.progress', { done: doneCount, total: subtasks.length })}
+            {hours.estimatedHours > 0
+              ? t('tasks.subtasks.hours', { completed: hours.completedHours, estimated: hours.estimatedHours })
+              : ''}
+          </Text>
+          <View style={styles.summaryTrack}>
+            <View
+              style={[
+                styles.summaryFill,
+                { width: `${subtasks.length > 0 ? (doneCount / subtasks.length) * 100 : 0}%` },
+              ]}
+            />
+          </View>
+        </View>
+      )}
+
+      {subtasks.map((subtask, index) => (
+        <View key={subtask.id} style={styles.row}>
+          <TouchableOpacity
+            onPress={() => (onToggle || onChange)(toggleSubtask(subtasks, subtask.id))}
+            disabled={!editable}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: subtask.done }}
+            accessibilityLabel={subtask.title}
+          >
+            <Ionicons
+              name={subtask.done ? 'checkbox' : 'square-outline'}
+              size={24}
+              color={subtask.done ? colors.success : colors.textSecondary}
+            />
+          </TouchableOpacity>
+          <TextInput
+            style={[styles.titleInput, subtask.done && styles.titleDone]}
+            value={subtask.title}
+            onChangeText={text => updateSubtask(subtask.id, { title: text })}
+            editable={editable}
+            placeholder={t('tasks.subtasks.placeholder')}
+            placeholderTextColor={colors.textMuted}
+          />
+          <TextInput
+            style={styles.hoursInput}
+            defaultValue={subtask.estimatedHours?.toString() ?? ''}
+            onEndEditing={event => updateHours(subtask.id, event.nativeEvent.text)}
+            editable={editable}
+            placeholder={t('tasks.subtasks.hoursShort')}
+            placeholderTextColor={colors.textMuted}
+            keyboardType="decimal-pad"
+          />
+          <View style={styles.reorder}>
+            <TouchableOpacity
+              onPress={() => moveSubtask(index, -1)}
+              disabled={!editable || index === 0}
+              accessibilityLabel={t('tasks.subtasks.moveUp')}
+            >
+              <Ionicons name="chevron-up" size={16} color={index === 0 ? colors.borderStrong : colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => moveSubtask(index, 1)}
+              disabled={!editable || index === subtasks.length - 1}
+              accessibilityLabel={t('tasks.subtasks.moveDown')}
+            >
+              <Ionicons
+                name="chevron-down"
+                size={16}
+                color={index === subtasks.length - 1 ? colors.borderStrong : colors.textSecondary}
+              />
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity
+            onPress={() => removeSubtask(subtask.id)}
+            disabled={!editable}
+            accessibilityLabel={t('tasks.subtasks.remove', { title: subtask.title })}
+          >
+            <Ionicons name="close-circle-outline" size={22} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {editable && (
+        <View style={styles.addRow}>
+          <TextInput
+            style={[styles.input, styles.addTitle]}
+            value={newTitle}
+            onChangeText={setNewTitle}
+            placeholder={t('tasks.subtasks.addPlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            onSubmitEditing={handleAdd}
+            returnKeyType="done"
+          />
+          <TextInput
+            style={[styles.input, styles.addHours]}
+            value={newHours}
+            onChangeText={setNewHours}
+            placeholder={t('tasks.subtasks.hoursPlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            keyboardType="decimal-pad"
+          />
+          <TouchableOpacity
+            style={[styles.addButton, !newTitle.trim() && styles.addButtonDisabled]}
+            onPress={handleAdd}
+            disabled={!newTitle.trim()}
+            accessibilityLabel={t('tasks.subtasks.add')}
+          >
+            <Ionicons name="add" size={22} color={colors.onPrimary} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  summaryRow: {
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  summaryTrack: {
+    height: 6,
+    backgroundColor: colors.border,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  summaryFill: {
+    height: '100%',
+    backgroundColor: colors.success,
+    borderRadius: 3,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginBottom: 8,
+    gap: 8,
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+    paddingVertical: 6,
+  },
+  titleDone: {
+    textDecorationLine: 'line-through',
+    color: colors.textSecondary,
+  },
+  hoursInput: {
+    width: 44,
+    fontSize: 14,
+    color: colors.text,
+    textAlign: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    paddingVertical: 4,
+  },
+  reorder: {
+    alignItems: 'center',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: colors.border,
+    color: colors.text,
+  },
+  addTitle: {
+    flex: 1,
+  },
+  addHours: {
+    width: 72,
+    textAlign: 'center',
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+});
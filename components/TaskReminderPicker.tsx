@@ -0,0 +1,186 @@
+/**
+ * Task Reminder Picker
+ * Reminders for a task: any number of preset offsets before the due date,
+ * plus an optional custom date and time
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import { Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { TASK_REMINDER_CONFIG } from '../constants/config';
+import { ThemeColors } from '../constants/designSystem';
+import { useTranslation } from '../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { formatReminderOffset } from '../services/taskReminders';
+
+interface TaskReminderPickerProps {
+  offsets: number[]; // minutes before the due date
+  customDate: Date | null;
+  onChangeOffsets: (offsets: number[]) => void;
+  onChangeCustomDate: (date: Date | null) => void;
+  dueDate: Date;
+  editable?: boolean;
+}
+
+export default function TaskReminderPicker({
+  offsets,
+  customDate,
+  onChangeOffsets,
+  onChangeCustomDate,
+  dueDate,
+  editable = true,
+}: TaskReminderPickerProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate, formatTime } = useTranslation();
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | null>(null);
+
+  // Offsets set elsewhere (e.g. an imported task) still show as chips
+  const options = Array.from(new Set([...TASK_REMINDER_CONFIG.offsetPresets, ...offsets])).sort((a, b) => b - a);
+
+  const toggleOffset = (minutes: number) => {
+    onChangeOffsets(
+      offsets.includes(minutes)
+        ? offsets.filter(offset => offset !== minutes)
+        : [...offsets, minutes].sort((a, b) => b - a)
+    );
+  };
+
+  const toggleCustom = () => {
+    if (customDate) {
+      onChangeCustomDate(null);
+      return;
+    }
+    // Start from the morning before the due date
+    const initial = new Date(dueDate);
+    initial.setDate(initial.getDate() - 1);
+    initial.setHours(9, 0, 0, 0);
+    onChangeCustomDate(initial);
+  };
+
+  const upcoming = [
+    ...offsets.map(offset => new Date(dueDate.getTime() - offset * 60000)),
+    ...(customDate ? [customDate] : []),
+  ];
+  const pastCount = upcoming.filter(date => date.getTime() <= Date.now()).length;
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {options.map(minutes => {
+          const active = offsets.includes(minutes);
+          return (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => toggleOffset(minutes)}
+              disabled={!editable}
+              accessibilityState={{ selected: active }}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{formatReminderOffset(minutes)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.chip, customDate && styles.chipActive]}
+          onPress={toggleCustom}
+          disabled={!editable}
+          accessibilityState={{ selected: !!customDate }}
+        >
+          <Text style={[styles.chipText, customDate && styles.chipTextActive]}>{t('taskReminderPicker.customTime')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {customDate && (
+        <View style={styles.customRow}>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setPickerMode('date')} disabled={!editable}>
+            <Ionicons name="calendar-outline" size={18} color={colors.primary} />
+            <Text style={styles.dateText}>
+              {formatDate(customDate, { weekday: 'short', month: 'short', day: 'numeric' })}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setPickerMode('time')} disabled={!editable}>
+            <Ionicons name="time-outline" size={18} color={colors.primary} />
+            <Text style={styles.dateText}>
+              {formatTime(customDate)}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {customDate && pickerMode && (
+        <DateTimePicker
+          value={customDate}
+          mode={pickerMode}
+          display="default"
+          minimumDate={pickerMode === 'date' ? new Date() : undefined}
+          onChange={(event, selectedDate) => {
+            setPickerMode(Platform.OS === 'ios' ? pickerMode : null);
+            if (selectedDate) onChangeCustomDate(selectedDate);
+          }}
+        />
+      )}
+
+      {pastCount > 0 && (
+        <Text style={styles.hint}>
+          {pastCount === upcoming.length
+            ? t('taskReminderPicker.allPast')
+            : t('taskReminderPicker.somePast', { count: pastCount })}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.card,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  chipTextActive: {
+    color: colors.onPrimary,
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: colors.card,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+  },
+  dateText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+});
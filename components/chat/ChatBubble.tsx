@@ -9,13 +9,17 @@ import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import React, { useEffect, useRef, useState } from 'react';
 import { Animated, Platform, Pressable, StyleSheet, Text, View } from 'react-native';
-import { COLORS } from '../../constants/config';
+import { ThemeColors } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
 
 export interface ChatBubbleProps {
   message: string;
   isUser: boolean;
   timestamp: Date;
   isTyping?: boolean;
+  isStreaming?: boolean; // reply still arriving - show the text so far
+  isCancelled?: boolean; // reply stopped by the user
   avatar?: string;
   onLongPress?: () => void;
 }
@@ -25,9 +29,14 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
   isUser,
   timestamp,
   isTyping = false,
+  isStreaming = false,
+  isCancelled = false,
   avatar,
   onLongPress,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatTime } = useTranslation();
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(15)).current;
   const [copied, setCopied] = useState(false);
@@ -47,14 +56,6 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
     ]).start();
   }, []);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', { 
-      hour: 'numeric', 
-      minute: '2-digit',
-      hour12: true 
-    });
-  };
-
   const handleCopy = async () => {
     await Clipboard.setStringAsync(message);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -63,7 +64,7 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
   };
 
   const renderMessageContent = () => {
-    if (isTyping) {
+    if (isTyping || (isStreaming && !message)) {
       return <TypingIndicator />;
     }
 
@@ -128,7 +129,18 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
       });
     };
 
-    return renderFormattedText();
+    return (
+      <>
+        {renderFormattedText()}
+        {isStreaming && <Text style={styles.streamingCursor}>▍</Text>}
+        {isCancelled && (
+          <View style={styles.cancelledNote}>
+            <Ionicons name="stop-circle-outline" size={14} color={colors.textMuted} />
+            <Text style={styles.cancelledText}>Stopped</Text>
+          </View>
+        )}
+      </>
+    );
   };
 
   if (isUser) {
@@ -168,7 +180,7 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
         {/* AI Avatar */}
         <View style={styles.aiHeader}>
           <View style={styles.aiAvatar}>
-            <Ionicons name="sparkles" size={18} color="#8B5CF6" />
+            <Ionicons name="sparkles" size={18} color={colors.secondary} />
           </View>
           <Text style={styles.aiLabel}>UniMate AI</Text>
           <Text style={styles.aiTimestamp}>{formatTime(timestamp)}</Text>
@@ -180,7 +192,7 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
         </View>
 
         {/* Action Bar */}
-        {!isTyping && (
+        {!isTyping && !isStreaming && (
           <View style={styles.actionBar}>
             <Pressable 
               style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
@@ -189,10 +201,10 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
               <Ionicons 
                 name={copied ? "checkmark" : "copy-outline"} 
                 size={16} 
-                color={copied ? "#10B981" : "#6B7280"} 
+                color={copied ? colors.success : colors.textSecondary} 
               />
               <Text style={[styles.actionText, copied && styles.actionTextSuccess]}>
-                {copied ? 'Copied!' : 'Copy'}
+                {copied ? t('chatBubble.copied') : t('chatBubble.copy')}
               </Text>
             </Pressable>
 
@@ -200,7 +212,7 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
               style={({ pressed }) => [styles.actionButton, pressed && styles.actionButtonPressed]}
               onPress={() => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)}
             >
-              <Ionicons name="refresh-outline" size={16} color="#6B7280" />
+              <Ionicons name="refresh-outline" size={16} color={colors.textSecondary} />
               <Text style={styles.actionText}>Regenerate</Text>
             </Pressable>
           </View>
@@ -211,6 +223,7 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({
 };
 // Typing indicator component
 const TypingIndicator: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
   const dot1 = useRef(new Animated.Value(0)).current;
   const dot2 = useRef(new Animated.Value(0)).current;
   const dot3 = useRef(new Animated.Value(0)).current;
@@ -254,7 +267,24 @@ const TypingIndicator: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  // Streaming / cancelled states
+  streamingCursor: {
+    fontSize: 15,
+    color: colors.secondary,
+  },
+  cancelledNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  cancelledText: {
+    fontSize: 12,
+    color: colors.textMuted,
+    fontStyle: 'italic',
+  },
+
   // Layout containers
   container: {
     marginVertical: 6,
@@ -270,7 +300,7 @@ const styles = StyleSheet.create({
 
   // User message styles (Clean bubble - WhatsApp/iMessage inspired)
   userBubble: {
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
     borderRadius: 18,
     borderBottomRightRadius: 4,
     paddingHorizontal: 16,
@@ -278,7 +308,7 @@ const styles = StyleSheet.create({
     maxWidth: '80%',
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: 1 },
         shadowOpacity: 0.1,
         shadowRadius: 2,
@@ -289,28 +319,28 @@ const styles = StyleSheet.create({
     }),
   },
   userMessageText: {
-    color: '#FFFFFF',
+    color: colors.onPrimary,
     fontSize: 15,
     lineHeight: 20,
     letterSpacing: 0.1,
   },
   userTimestamp: {
     fontSize: 11,
-    color: '#9CA3AF',
+    color: colors.textMuted,
     marginTop: 4,
     marginRight: 4,
   },
 
   // AI message styles (Card design - ChatGPT/Claude inspired)
   aiCard: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.card,
     borderRadius: 12,
     borderWidth: 1,
-    borderColor: '#E5E7EB',
+    borderColor: colors.border,
     overflow: 'hidden',
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: 2 },
         shadowOpacity: 0.08,
         shadowRadius: 4,
@@ -327,13 +357,13 @@ const styles = StyleSheet.create({
     paddingTop: 12,
     paddingBottom: 8,
     borderBottomWidth: 1,
-    borderBottomColor: '#F3F4F6',
+    borderBottomColor: colors.border,
   },
   aiAvatar: {
     width: 28,
     height: 28,
     borderRadius: 14,
-    backgroundColor: '#F3F0FF',
+    backgroundColor: colors.primaryLight,
     alignItems: 'center',
     justifyContent: 'center',
     marginRight: 8,
@@ -341,12 +371,12 @@ const styles = StyleSheet.create({
   aiLabel: {
     fontSize: 13,
     fontWeight: '600',
-    color: '#374151',
+    color: colors.text,
     flex: 1,
   },
   aiTimestamp: {
     fontSize: 11,
-    color: '#9CA3AF',
+    color: colors.textMuted,
   },
   aiContent: {
     paddingHorizontal: 14,
@@ -357,11 +387,11 @@ const styles = StyleSheet.create({
   messageText: {
     fontSize: 15,
     lineHeight: 22,
-    color: '#1F2937',
+    color: colors.text,
     letterSpacing: 0.1,
   },
   messageTextUser: {
-    color: '#FFFFFF',
+    color: colors.onPrimary,
   },
   boldText: {
     fontWeight: '700',
@@ -378,26 +408,26 @@ const styles = StyleSheet.create({
   inlineCode: {
     fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
     fontSize: 14,
-    backgroundColor: '#F3F4F6',
-    color: '#DC2626',
+    backgroundColor: colors.surface,
+    color: colors.error,
     paddingHorizontal: 6,
     paddingVertical: 2,
     borderRadius: 4,
     overflow: 'hidden',
   },
   codeBlock: {
-    backgroundColor: '#1F2937',
+    backgroundColor: colors.codeBackground,
     borderRadius: 8,
     padding: 12,
     marginVertical: 8,
     borderLeftWidth: 3,
-    borderLeftColor: '#8B5CF6',
+    borderLeftColor: colors.secondary,
   },
   codeBlockText: {
     fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
     fontSize: 13,
     lineHeight: 20,
-    color: '#E5E7EB',
+    color: colors.codeText,
   },
 
   // Action bar (ChatGPT inspired)
@@ -407,7 +437,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 10,
     paddingVertical: 8,
     borderTopWidth: 1,
-    borderTopColor: '#F3F4F6',
+    borderTopColor: colors.border,
     gap: 8,
   },
   actionButton: {
@@ -419,15 +449,15 @@ const styles = StyleSheet.create({
     gap: 6,
   },
   actionButtonPressed: {
-    backgroundColor: '#F3F4F6',
+    backgroundColor: colors.surface,
   },
   actionText: {
     fontSize: 13,
-    color: '#6B7280',
+    color: colors.textSecondary,
     fontWeight: '500',
   },
   actionTextSuccess: {
-    color: '#10B981',
+    color: colors.success,
   },
 
   // Typing indicator
@@ -441,6 +471,6 @@ const styles = StyleSheet.create({
     width: 8,
     height: 8,
     borderRadius: 4,
-    backgroundColor: '#8B5CF6',
+    backgroundColor: colors.secondary,
   },
 });
@@ -17,7 +17,9 @@ import {
     TextInput,
     View,
 } from 'react-native';
-import { COLORS } from '../../constants/config';
+import { ThemeColors } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
 
 export interface ChatInputProps {
   onSend: (message: string) => void;
@@ -26,16 +28,21 @@ export interface ChatInputProps {
   placeholder?: string;
   disabled?: boolean;
   isLoading?: boolean;
+  onStop?: () => void; // shown as a stop button while a reply is loading
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({
   onSend,
   onAttachImage,
   onAttachDocument,
-  placeholder = 'Ask me anything...',
+  placeholder,
   disabled = false,
   isLoading = false,
+  onStop,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const [text, setText] = useState('');
   const [inputHeight, setInputHeight] = useState(42);
   const inputRef = useRef<TextInput>(null);
@@ -97,6 +104,12 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   });
 
   const canSend = text.trim().length > 0 && !disabled && !isLoading;
+  const canStop = isLoading && !!onStop;
+
+  const handleStop = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onStop?.();
+  };
 
   return (
     <View style={styles.container}>
@@ -106,8 +119,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({
           <TextInput
             ref={inputRef}
             style={[styles.input, { height: inputHeight }]}
-            placeholder={placeholder}
-            placeholderTextColor="#9CA3AF"
+            placeholder={placeholder ?? t('chatInput.placeholder')}
+            placeholderTextColor={colors.textMuted}
             value={text}
             onChangeText={handleTextChange}
             onContentSizeChange={handleContentSizeChange}
@@ -118,8 +131,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             blurOnSubmit={false}
             onSubmitEditing={handleSend}
             accessible={true}
-            accessibilityLabel="Message input"
-            accessibilityHint="Type your message to UniMate AI"
+            accessibilityLabel={t('chatInput.label')}
+            accessibilityHint={t('chatInput.hint')}
           />
           
           {/* Character count (only show when getting close to limit) */}
@@ -128,51 +141,69 @@ export const ChatInput: React.FC<ChatInputProps> = ({
           )}
         </View>
 
-        {/* Send Button */}
-        <Animated.View
-          style={[
-            styles.sendButtonContainer,
-            {
-              transform: [
-                { scale: sendButtonScale },
-                { rotate: rotateInterpolate },
-              ],
-              opacity: canSend ? 1 : 0.5,
-            },
-          ]}
-        >
-          <Pressable
-            onPress={handleSend}
-            disabled={!canSend}
-            style={({ pressed }) => [
-              styles.sendButton,
-              canSend && styles.sendButtonActive,
-              pressed && styles.sendButtonPressed,
+        {/* Stop Button (while a reply is streaming) */}
+        {canStop ? (
+          <View style={styles.sendButtonContainer}>
+            <Pressable
+              onPress={handleStop}
+              style={({ pressed }) => [
+                styles.sendButton,
+                styles.stopButton,
+                pressed && styles.sendButtonPressed,
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={t('chatInput.stop')}
+            >
+              <Ionicons name="stop" size={16} color={colors.background} />
+            </Pressable>
+          </View>
+        ) : (
+          /* Send Button */
+          <Animated.View
+            style={[
+              styles.sendButtonContainer,
+              {
+                transform: [
+                  { scale: sendButtonScale },
+                  { rotate: rotateInterpolate },
+                ],
+                opacity: canSend ? 1 : 0.5,
+              },
             ]}
           >
-            {isLoading ? (
-              <Ionicons name="hourglass-outline" size={20} color="#FFFFFF" />
-            ) : (
-              <Ionicons name="arrow-up" size={20} color="#FFFFFF" />
-            )}
-          </Pressable>
-        </Animated.View>
+            <Pressable
+              onPress={handleSend}
+              disabled={!canSend}
+              style={({ pressed }) => [
+                styles.sendButton,
+                canSend && styles.sendButtonActive,
+                pressed && styles.sendButtonPressed,
+              ]}
+            >
+              {isLoading ? (
+                <Ionicons name="hourglass-outline" size={20} color={colors.onPrimary} />
+              ) : (
+                <Ionicons name="arrow-up" size={20} color={colors.onPrimary} />
+              )}
+            </Pressable>
+          </Animated.View>
+        )}
       </View>
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.card,
     borderTopWidth: 1,
-    borderTopColor: '#E5E7EB',
+    borderTopColor: colors.border,
     paddingHorizontal: 16,
     paddingTop: 12,
     paddingBottom: Platform.OS === 'ios' ? 24 : 12,
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: -3 },
         shadowOpacity: 0.08,
         shadowRadius: 8,
@@ -189,10 +220,10 @@ const styles = StyleSheet.create({
   },
   inputContainer: {
     flex: 1,
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.background,
     borderRadius: 24,
     borderWidth: 1.5,
-    borderColor: '#E5E7EB',
+    borderColor: colors.border,
     paddingHorizontal: 16,
     paddingVertical: 4,
     justifyContent: 'center',
@@ -200,7 +231,7 @@ const styles = StyleSheet.create({
   input: {
     fontSize: 15,
     lineHeight: 20,
-    color: '#1F2937',
+    color: colors.text,
     paddingVertical: 8,
     maxHeight: 110,
   },
@@ -209,7 +240,7 @@ const styles = StyleSheet.create({
     right: 12,
     bottom: 4,
     fontSize: 11,
-    color: '#9CA3AF',
+    color: colors.textMuted,
   },
   sendButtonContainer: {
     marginBottom: 4,
@@ -218,12 +249,12 @@ const styles = StyleSheet.create({
     width: 38,
     height: 38,
     borderRadius: 19,
-    backgroundColor: '#9CA3AF',
+    backgroundColor: colors.textMuted,
     justifyContent: 'center',
     alignItems: 'center',
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: 2 },
         shadowOpacity: 0.15,
         shadowRadius: 4,
@@ -234,7 +265,10 @@ const styles = StyleSheet.create({
     }),
   },
   sendButtonActive: {
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
+  },
+  stopButton: {
+    backgroundColor: colors.text,
   },
   sendButtonPressed: {
     transform: [{ scale: 0.92 }],
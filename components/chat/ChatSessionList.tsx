@@ -0,0 +1,314 @@
+/**
+ * ChatSessionList Component
+ * Bottom sheet listing saved conversations with new / rename / delete actions
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    FlatList,
+    Modal,
+    Platform,
+    Pressable,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { ThemeColors } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
+import { ChatSession } from '../../types';
+
+export interface ChatSessionListProps {
+  visible: boolean;
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  loading?: boolean;
+  onClose: () => void;
+  onSelect: (session: ChatSession) => void;
+  onNewChat: () => void;
+  onRename: (session: ChatSession, title: string) => void;
+  onDelete: (session: ChatSession) => void;
+}
+
+export const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  visible,
+  sessions,
+  activeSessionId,
+  loading = false,
+  onClose,
+  onSelect,
+  onNewChat,
+  onRename,
+  onDelete,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate, formatTime } = useTranslation();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const formatSessionDate = (date: Date): string => {
+    const sameDay = date.toDateString() === new Date().toDateString();
+    return sameDay ? formatTime(date) : formatDate(date, { month: 'short', day: 'numeric' });
+  };
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+  };
+
+  const submitRename = (session: ChatSession) => {
+    const title = editTitle.trim();
+    setEditingId(null);
+    if (title && title !== session.title) {
+      onRename(session, title);
+    }
+  };
+
+  const confirmDelete = (session: ChatSession) => {
+    Alert.alert(
+      t('chatSessions.deleteTitle'),
+      t('chatSessions.deleteConfirm', { title: session.title }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => onDelete(session) },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: ChatSession }) => {
+    const isActive = item.id === activeSessionId;
+    const isEditing = item.id === editingId;
+
+    return (
+      <TouchableOpacity
+        style={[styles.sessionItem, isActive && styles.sessionItemActive]}
+        onPress={() => !isEditing && onSelect(item)}
+        activeOpacity={0.7}
+        accessible={true}
+        accessibilityLabel={t('chatSessions.open', { title: item.title })}
+        accessibilityRole="button"
+      >
+        <View style={styles.sessionIcon}>
+          <Ionicons
+            name={item.mode === 'rag' ? 'analytics-outline' : 'chatbubble-ellipses-outline'}
+            size={18}
+            color={colors.primary}
+          />
+        </View>
+        <View style={styles.sessionBody}>
+          {isEditing ? (
+            <TextInput
+              style={styles.renameInput}
+              value={editTitle}
+              onChangeText={setEditTitle}
+              onSubmitEditing={() => submitRename(item)}
+              onBlur={() => submitRename(item)}
+              autoFocus
+              maxLength={60}
+              returnKeyType="done"
+              accessibilityLabel={t('chatSessions.titleLabel')}
+            />
+          ) : (
+            <Text style={styles.sessionTitle} numberOfLines={1}>
+              {item.title}
+            </Text>
+          )}
+          {!!item.lastMessage && !isEditing && (
+            <Text style={styles.sessionPreview} numberOfLines={1}>
+              {item.lastMessage}
+            </Text>
+          )}
+        </View>
+        <View style={styles.sessionMeta}>
+          <Text style={styles.sessionDate}>{formatSessionDate(item.updatedAt)}</Text>
+          <View style={styles.sessionActions}>
+            <TouchableOpacity
+              onPress={() => startRename(item)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityLabel={t('chatSessions.rename')}
+              accessibilityRole="button"
+            >
+              <Ionicons name="pencil-outline" size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => confirmDelete(item)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityLabel={t('chatSessions.delete')}
+              accessibilityRole="button"
+            >
+              <Ionicons name="trash-outline" size={16} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={styles.sheet}>
+        <View style={styles.handle} />
+        <View style={styles.sheetHeader}>
+          <Text style={styles.sheetTitle}>{t('chatSessions.title')}</Text>
+          <TouchableOpacity
+            style={styles.newChatButton}
+            onPress={onNewChat}
+            accessible={true}
+            accessibilityLabel={t('chatSessions.newChatLabel')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="add" size={18} color={colors.onPrimary} />
+            <Text style={styles.newChatText}>{t('chatSessions.newChat')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loader} color={colors.primary} />
+        ) : sessions.length === 0 ? (
+          <Text style={styles.emptyText}>{t('chatSessions.empty')}</Text>
+        ) : (
+          <FlatList
+            data={sessions}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+          />
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    backgroundColor: colors.card,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: Platform.OS === 'ios' ? 32 : 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: -4 },
+        shadowOpacity: 0.15,
+        shadowRadius: 12,
+      },
+      android: {
+        elevation: 16,
+      },
+    }),
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+    marginTop: 10,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  newChatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: colors.primary,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  newChatText: {
+    color: colors.onPrimary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  loader: {
+    marginVertical: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingHorizontal: 32,
+    paddingVertical: 32,
+  },
+  listContent: {
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+  },
+  sessionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    marginBottom: 4,
+  },
+  sessionItemActive: {
+    backgroundColor: 'rgba(99, 102, 241, 0.08)',
+  },
+  sessionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(99, 102, 241, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  sessionBody: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sessionPreview: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  renameInput: {
+    fontSize: 15,
+    color: colors.text,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.primary,
+    paddingVertical: 2,
+  },
+  sessionMeta: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+    gap: 6,
+  },
+  sessionDate: {
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  sessionActions: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+});
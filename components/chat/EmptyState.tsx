@@ -8,6 +8,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import React from 'react';
 import { Platform, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { ThemeColors } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
 
 export interface EmptyStateProps {
   userName?: string;
@@ -15,33 +18,36 @@ export interface EmptyStateProps {
 }
 
 export const EmptyState: React.FC<EmptyStateProps> = ({ 
-  userName = 'Student',
+  userName,
   onSuggestedPrompt 
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const suggestedPrompts = [
     {
       icon: 'book-outline',
-      title: 'Study Help',
-      prompt: 'Help me create an effective study plan for my upcoming exams',
-      color: '#8B5CF6',
+      title: t('chatEmptyState.prompts.studyHelp.title'),
+      prompt: t('chatEmptyState.prompts.studyHelp.prompt'),
+      color: colors.secondary,
     },
     {
       icon: 'bulb-outline',
-      title: 'Explain Concepts',
-      prompt: 'Explain [concept] in simple terms with examples',
-      color: '#F59E0B',
+      title: t('chatEmptyState.prompts.explain.title'),
+      prompt: t('chatEmptyState.prompts.explain.prompt'),
+      color: colors.warning,
     },
     {
       icon: 'document-text-outline',
-      title: 'Summarize',
-      prompt: 'Summarize this chapter/article for me',
-      color: '#10B981',
+      title: t('chatEmptyState.prompts.summarize.title'),
+      prompt: t('chatEmptyState.prompts.summarize.prompt'),
+      color: colors.success,
     },
     {
       icon: 'checkmark-circle-outline',
-      title: 'Exam Prep',
-      prompt: 'Create practice questions for my upcoming test',
-      color: '#3B82F6',
+      title: t('chatEmptyState.prompts.examPrep.title'),
+      prompt: t('chatEmptyState.prompts.examPrep.prompt'),
+      color: colors.info,
     },
   ];
 
@@ -54,25 +60,24 @@ export const EmptyState: React.FC<EmptyStateProps> = ({
       {/* Hero Section */}
       <View style={styles.hero}>
         <LinearGradient
-          colors={['#8B5CF6', '#6366F1']}
+          colors={[colors.secondary, colors.primary]}
           style={styles.iconGradient}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
         >
-          <Ionicons name="sparkles" size={40} color="#FFFFFF" />
+          <Ionicons name="sparkles" size={40} color={colors.onPrimary} />
         </LinearGradient>
         
-        <Text style={styles.greeting}>Hello, {userName}! 👋</Text>
-        <Text style={styles.title}>How can I help you study today?</Text>
-        <Text style={styles.subtitle}>
-          I'm UniMate AI, your intelligent study assistant. I can help with understanding concepts, 
-          creating study plans, exam preparation, and more.
+        <Text style={styles.greeting}>
+          {t('chatEmptyState.greeting', { name: userName || t('chatEmptyState.defaultName') })}
         </Text>
+        <Text style={styles.title}>{t('chatEmptyState.title')}</Text>
+        <Text style={styles.subtitle}>{t('chatEmptyState.subtitle')}</Text>
       </View>
 
       {/* Suggested Prompts */}
       <View style={styles.promptsSection}>
-        <Text style={styles.sectionTitle}>Try asking me:</Text>
+        <Text style={styles.sectionTitle}>{t('chatEmptyState.tryAsking')}</Text>
         <View style={styles.promptsGrid}>
           {suggestedPrompts.map((item, index) => (
             <View key={index} style={styles.promptCard}>
@@ -90,35 +95,33 @@ export const EmptyState: React.FC<EmptyStateProps> = ({
 
       {/* Capabilities */}
       <View style={styles.capabilitiesSection}>
-        <Text style={styles.sectionTitle}>What I can do:</Text>
+        <Text style={styles.sectionTitle}>{t('chatEmptyState.canDo')}</Text>
         <Capability 
           icon="school-outline" 
-          title="Study Strategies" 
-          description="Personalized learning techniques and study methods"
+          title={t('chatEmptyState.capabilities.strategies.title')}
+          description={t('chatEmptyState.capabilities.strategies.description')}
         />
         <Capability 
           icon="time-outline" 
-          title="Time Management" 
-          description="Help organize your schedule and prioritize tasks"
+          title={t('chatEmptyState.capabilities.time.title')}
+          description={t('chatEmptyState.capabilities.time.description')}
         />
         <Capability 
           icon="calculator-outline" 
-          title="Problem Solving" 
-          description="Step-by-step explanations for complex problems"
+          title={t('chatEmptyState.capabilities.problems.title')}
+          description={t('chatEmptyState.capabilities.problems.description')}
         />
         <Capability 
           icon="create-outline" 
-          title="Writing & Research" 
-          description="Improve essays, reports, and research papers"
+          title={t('chatEmptyState.capabilities.writing.title')}
+          description={t('chatEmptyState.capabilities.writing.description')}
         />
       </View>
 
       {/* Footer tip */}
       <View style={styles.footer}>
-        <Ionicons name="information-circle-outline" size={16} color="#9CA3AF" />
-        <Text style={styles.footerText}>
-          I provide educational assistance. Always verify important information with your instructors.
-        </Text>
+        <Ionicons name="information-circle-outline" size={16} color={colors.textMuted} />
+        <Text style={styles.footerText}>{t('chatEmptyState.footer')}</Text>
       </View>
     </ScrollView>
   );
@@ -128,22 +131,26 @@ const Capability: React.FC<{ icon: string; title: string; description: string }>
   icon,
   title,
   description,
-}) => (
-  <View style={styles.capability}>
-    <View style={styles.capabilityIcon}>
-      <Ionicons name={icon as any} size={20} color="#8B5CF6" />
-    </View>
-    <View style={styles.capabilityContent}>
-      <Text style={styles.capabilityTitle}>{title}</Text>
-      <Text style={styles.capabilityDescription}>{description}</Text>
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.capability}>
+      <View style={styles.capabilityIcon}>
+        <Ionicons name={icon as any} size={20} color={colors.secondary} />
+      </View>
+      <View style={styles.capabilityContent}>
+        <Text style={styles.capabilityTitle}>{title}</Text>
+        <Text style={styles.capabilityDescription}>{description}</Text>
+      </View>
     </View>
-  </View>
-);
+  );
+};
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.card,
   },
   content: {
     paddingHorizontal: 20,
@@ -165,7 +172,7 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     ...Platform.select({
       ios: {
-        shadowColor: '#8B5CF6',
+        shadowColor: colors.secondary,
         shadowOffset: { width: 0, height: 4 },
         shadowOpacity: 0.3,
         shadowRadius: 12,
@@ -178,21 +185,21 @@ const styles = StyleSheet.create({
   greeting: {
     fontSize: 28,
     fontWeight: '700',
-    color: '#1F2937',
+    color: colors.text,
     marginBottom: 8,
     textAlign: 'center',
   },
   title: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#4B5563',
+    color: colors.textSecondary,
     marginBottom: 12,
     textAlign: 'center',
   },
   subtitle: {
     fontSize: 15,
     lineHeight: 22,
-    color: '#6B7280',
+    color: colors.textSecondary,
     textAlign: 'center',
     paddingHorizontal: 10,
   },
@@ -204,7 +211,7 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#374151',
+    color: colors.text,
     marginBottom: 16,
   },
   promptsGrid: {
@@ -214,11 +221,11 @@ const styles = StyleSheet.create({
   },
   promptCard: {
     width: '48%',
-    backgroundColor: '#F9FAFB',
+    backgroundColor: colors.background,
     borderRadius: 12,
     padding: 14,
     borderWidth: 1,
-    borderColor: '#E5E7EB',
+    borderColor: colors.border,
   },
   promptIcon: {
     width: 40,
@@ -231,13 +238,13 @@ const styles = StyleSheet.create({
   promptTitle: {
     fontSize: 14,
     fontWeight: '600',
-    color: '#1F2937',
+    color: colors.text,
     marginBottom: 4,
   },
   promptText: {
     fontSize: 12,
     lineHeight: 16,
-    color: '#6B7280',
+    color: colors.textSecondary,
   },
 
   // Capabilities section
@@ -253,7 +260,7 @@ const styles = StyleSheet.create({
     width: 40,
     height: 40,
     borderRadius: 20,
-    backgroundColor: '#F3F0FF',
+    backgroundColor: colors.primaryLight,
     alignItems: 'center',
     justifyContent: 'center',
     marginRight: 12,
@@ -265,20 +272,20 @@ const styles = StyleSheet.create({
   capabilityTitle: {
     fontSize: 15,
     fontWeight: '600',
-    color: '#1F2937',
+    color: colors.text,
     marginBottom: 4,
   },
   capabilityDescription: {
     fontSize: 14,
     lineHeight: 20,
-    color: '#6B7280',
+    color: colors.textSecondary,
   },
 
   // Footer
   footer: {
     flexDirection: 'row',
     alignItems: 'flex-start',
-    backgroundColor: '#F3F4F6',
+    backgroundColor: colors.surface,
     padding: 12,
     borderRadius: 8,
     gap: 8,
@@ -287,6 +294,6 @@ const styles = StyleSheet.create({
     flex: 1,
     fontSize: 12,
     lineHeight: 18,
-    color: '#6B7280',
+    color: colors.textSecondary,
   },
 });
@@ -6,7 +6,9 @@
 import { Ionicons } from '@expo/vector-icons';
 import React from 'react';
 import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { COLORS } from '../../constants/config';
+import { ThemeColors } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
 
 export interface QuickAction {
   id: string;
@@ -16,53 +18,34 @@ export interface QuickAction {
 }
 
 export interface QuickActionsProps {
-  actions: QuickAction[];
+  actions?: QuickAction[];
   onActionPress: (prompt: string) => void;
 }
 
-const defaultActions: QuickAction[] = [
-  {
-    id: '1',
-    label: 'Study Tips',
-    icon: 'bulb-outline',
-    prompt: 'What are the best study techniques for effective learning?',
-  },
-  {
-    id: '2',
-    label: 'Exam Prep',
-    icon: 'star-outline',
-    prompt: 'Help me prepare for my upcoming exams',
-  },
-  {
-    id: '3',
-    label: 'Time Management',
-    icon: 'time-outline',
-    prompt: 'How can I manage my time better as a student?',
-  },
-  {
-    id: '4',
-    label: 'Note Taking',
-    icon: 'document-text-outline',
-    prompt: 'What are effective note-taking methods?',
-  },
-  {
-    id: '5',
-    label: 'Motivation',
-    icon: 'fitness-outline',
-    prompt: "I'm feeling overwhelmed with my studies. Can you help?",
-  },
-  {
-    id: '6',
-    label: 'Focus Help',
-    icon: 'eye-outline',
-    prompt: 'How to improve my focus and concentration?',
-  },
-];
+// Labels and prompts come from the chatQuickActions catalog section
+const defaultActions = [
+  { id: '1', key: 'studyTips', icon: 'bulb-outline' },
+  { id: '2', key: 'examPrep', icon: 'star-outline' },
+  { id: '3', key: 'timeManagement', icon: 'time-outline' },
+  { id: '4', key: 'noteTaking', icon: 'document-text-outline' },
+  { id: '5', key: 'motivation', icon: 'fitness-outline' },
+  { id: '6', key: 'focus', icon: 'eye-outline' },
+] as const;
 
 export const QuickActions: React.FC<QuickActionsProps> = ({
-  actions = defaultActions,
+  actions,
   onActionPress,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const items: QuickAction[] = actions ?? defaultActions.map(({ id, key, icon }) => ({
+    id,
+    icon,
+    label: t(`chatQuickActions.${key}.label`),
+    prompt: t(`chatQuickActions.${key}.prompt`),
+  }));
+
   return (
     <View style={styles.container}>
       <ScrollView
@@ -70,7 +53,7 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
       >
-        {actions.map((action) => (
+        {items.map((action) => (
           <TouchableOpacity
             key={action.id}
             style={styles.actionChip}
@@ -79,10 +62,10 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
             accessible={true}
             accessibilityLabel={action.label}
             accessibilityRole="button"
-            accessibilityHint={`Sends prompt: ${action.prompt}`}
+            accessibilityHint={t('chatQuickActions.hint', { prompt: action.prompt })}
           >
             <View style={styles.iconContainer}>
-              <Ionicons name={action.icon} size={20} color={COLORS.primary} />
+              <Ionicons name={action.icon} size={20} color={colors.primary} />
             </View>
             <Text style={styles.actionText}>{action.label}</Text>
           </TouchableOpacity>
@@ -92,7 +75,7 @@ export const QuickActions: React.FC<QuickActionsProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     paddingVertical: 12,
     backgroundColor: 'transparent',
@@ -111,7 +94,7 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(124, 58, 237, 0.15)',
     marginHorizontal: 4,
-    shadowColor: COLORS.primary,
+    shadowColor: colors.primary,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.05,
     shadowRadius: 4,
@@ -123,6 +106,6 @@ const styles = StyleSheet.create({
   actionText: {
     fontSize: 14,
     fontWeight: '500',
-    color: COLORS.text,
+    color: colors.text,
   },
 });
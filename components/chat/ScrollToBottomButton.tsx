@@ -6,7 +6,9 @@
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useRef } from 'react';
 import { Animated, Platform, StyleSheet, TouchableOpacity } from 'react-native';
-import { COLORS } from '../../constants/config';
+import { ThemeColors } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme, useThemedStyles } from '../../contexts/ThemeContext';
 
 export interface ScrollToBottomButtonProps {
   visible: boolean;
@@ -19,6 +21,9 @@ export const ScrollToBottomButton: React.FC<ScrollToBottomButtonProps> = ({
   onPress,
   unreadCount = 0,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0)).current;
 
@@ -56,11 +61,11 @@ export const ScrollToBottomButton: React.FC<ScrollToBottomButtonProps> = ({
         style={styles.button}
         activeOpacity={0.8}
         accessible={true}
-        accessibilityLabel="Scroll to bottom"
+        accessibilityLabel={t('chatScrollButton.label')}
         accessibilityRole="button"
-        accessibilityHint="Scrolls to the latest message"
+        accessibilityHint={t('chatScrollButton.hint')}
       >
-        <Ionicons name="arrow-down" size={20} color="#FFFFFF" />
+        <Ionicons name="arrow-down" size={20} color={colors.onPrimary} />
         {unreadCount > 0 && (
           <Animated.View style={styles.badge}>
             <Animated.Text style={styles.badgeText}>
@@ -73,7 +78,7 @@ export const ScrollToBottomButton: React.FC<ScrollToBottomButtonProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     position: 'absolute',
     bottom: 80,
@@ -84,12 +89,12 @@ const styles = StyleSheet.create({
     width: 48,
     height: 48,
     borderRadius: 24,
-    backgroundColor: COLORS.primary,
+    backgroundColor: colors.primary,
     justifyContent: 'center',
     alignItems: 'center',
     ...Platform.select({
       ios: {
-        shadowColor: '#000',
+        shadowColor: colors.shadow,
         shadowOffset: { width: 0, height: 4 },
         shadowOpacity: 0.3,
         shadowRadius: 8,
@@ -103,7 +108,7 @@ const styles = StyleSheet.create({
     position: 'absolute',
     top: -4,
     right: -4,
-    backgroundColor: '#FF3B30',
+    backgroundColor: colors.error,
     minWidth: 20,
     height: 20,
     borderRadius: 10,
@@ -111,10 +116,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: 6,
     borderWidth: 2,
-    borderColor: '#FFFFFF',
+    borderColor: colors.card,
   },
   badgeText: {
-    color: '#FFFFFF',
+    color: colors.onPrimary,
     fontSize: 11,
     fontWeight: '700',
   },
@@ -18,3 +18,5 @@ export type { QuickAction, QuickActionsProps } from './QuickActions';
 export { EmptyState } from './EmptyState';
 export type { EmptyStateProps } from './EmptyState';
 
+export { ChatSessionList } from './ChatSessionList';
+export type { ChatSessionListProps } from './ChatSessionList';
@@ -2,7 +2,8 @@ import * as Haptics from 'expo-haptics';
 import { MotiView } from 'moti';
 import React from 'react';
 import { Pressable, StyleSheet, ViewStyle } from 'react-native';
-import { ANIMATION, ELEVATION, RADIUS, SPACING } from '../../constants/designSystem';
+import { ANIMATION, ELEVATION, RADIUS, SPACING, ThemeColors } from '../../constants/designSystem';
+import { useThemedStyles } from '../../contexts/ThemeContext';
 
 interface AnimatedCardProps {
   children: React.ReactNode;
@@ -21,6 +22,7 @@ export const AnimatedCard: React.FC<AnimatedCardProps> = ({
   enableHaptics = true,
   elevation = 'md',
 }) => {
+  const styles = useThemedStyles(createStyles);
   const handlePress = () => {
     if (enableHaptics) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -54,9 +56,9 @@ export const AnimatedCard: React.FC<AnimatedCardProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   card: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     padding: SPACING.lg,
   },
@@ -4,7 +4,9 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { MotiView } from 'moti';
 import React from 'react';
 import { Dimensions, Pressable, StyleSheet, Text, View } from 'react-native';
-import { COLORS_V2, ELEVATION, RADIUS, SPACING, TYPOGRAPHY } from '../../constants/designSystem';
+import { COLORS_V2, ELEVATION, RADIUS, SPACING, ThemeColors, TYPOGRAPHY } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useThemedStyles } from '../../contexts/ThemeContext';
 
 const { width } = Dimensions.get('window');
 
@@ -18,6 +20,10 @@ interface CourseCardProps {
     instructor?: string;
   };
   backgroundImage?: any;
+  grade?: {
+    percentage: number;
+    letter: string;
+  };
   totalTasks: number;
   completedTasks: number;
   pendingTasks: number;
@@ -29,6 +35,7 @@ interface CourseCardProps {
 export const CourseCard: React.FC<CourseCardProps> = ({
   course,
   backgroundImage,
+  grade,
   totalTasks,
   completedTasks,
   pendingTasks,
@@ -36,6 +43,8 @@ export const CourseCard: React.FC<CourseCardProps> = ({
   onAddTask,
   delay = 0,
 }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
   const cardColor = course.color || COLORS_V2.primary[500];
   const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
 
@@ -87,11 +96,18 @@ export const CourseCard: React.FC<CourseCardProps> = ({
           >
             <View style={styles.header}>
               <Text style={styles.courseCode}>{course.code}</Text>
-              {course.credits && (
-                <View style={styles.creditsBadge}>
-                  <Text style={styles.creditsText}>{course.credits} CR</Text>
-                </View>
-              )}
+              <View style={styles.badges}>
+                {grade && (
+                  <View style={styles.creditsBadge}>
+                    <Text style={styles.creditsText}>{grade.letter} · {grade.percentage}%</Text>
+                  </View>
+                )}
+                {course.credits && (
+                  <View style={styles.creditsBadge}>
+                    <Text style={styles.creditsText}>{t('courses.credits', { count: course.credits })}</Text>
+                  </View>
+                )}
+              </View>
             </View>
             
             <Text style={styles.courseName} numberOfLines={2}>
@@ -120,14 +136,14 @@ export const CourseCard: React.FC<CourseCardProps> = ({
               style={[styles.progressFill, { backgroundColor: cardColor }]}
             />
           </View>
-          <Text style={styles.progressText}>{completionRate}% Complete</Text>
+          <Text style={styles.progressText}>{t('courseCard.complete', { percent: completionRate })}</Text>
         </View>
 
         {/* Stats Section */}
         <View style={styles.statsContainer}>
           <View style={styles.statItem}>
             <Text style={styles.statValue}>{totalTasks}</Text>
-            <Text style={styles.statLabel}>Total</Text>
+            <Text style={styles.statLabel}>{t('courseCard.total')}</Text>
           </View>
           
           <View style={styles.statDivider} />
@@ -136,7 +152,7 @@ export const CourseCard: React.FC<CourseCardProps> = ({
             <Text style={[styles.statValue, { color: COLORS_V2.success[500] }]}>
               {completedTasks}
             </Text>
-            <Text style={styles.statLabel}>Done</Text>
+            <Text style={styles.statLabel}>{t('courses.stats.done')}</Text>
           </View>
           
           <View style={styles.statDivider} />
@@ -145,7 +161,7 @@ export const CourseCard: React.FC<CourseCardProps> = ({
             <Text style={[styles.statValue, { color: COLORS_V2.warning[500] }]}>
               {pendingTasks}
             </Text>
-            <Text style={styles.statLabel}>Pending</Text>
+            <Text style={styles.statLabel}>{t('courses.stats.pending')}</Text>
           </View>
         </View>
 
@@ -159,17 +175,17 @@ export const CourseCard: React.FC<CourseCardProps> = ({
           ]}
         >
           <Text style={styles.addIcon}>+</Text>
-          <Text style={styles.addText}>Add Task</Text>
+          <Text style={styles.addText}>{t('courseCard.addTask')}</Text>
         </Pressable>
       </Pressable>
     </MotiView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   card: {
     width: width * 0.75,
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.xl,
     marginRight: SPACING.lg,
     overflow: 'hidden',
@@ -201,10 +217,14 @@ const styles = StyleSheet.create({
   },
   courseCode: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '700',
     letterSpacing: 0.8,
   },
+  badges: {
+    flexDirection: 'row',
+    gap: SPACING.xs,
+  },
   creditsBadge: {
     backgroundColor: 'rgba(255, 255, 255, 0.25)',
     paddingHorizontal: SPACING.md,
@@ -215,28 +235,28 @@ const styles = StyleSheet.create({
   },
   creditsText: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '700',
   },
   courseName: {
     ...TYPOGRAPHY.titleLarge,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '700',
     marginBottom: SPACING.sm,
     lineHeight: 28,
   },
   instructor: {
     ...TYPOGRAPHY.bodyMedium,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     opacity: 0.9,
   },
   progressContainer: {
     padding: SPACING.lg,
-    backgroundColor: COLORS_V2.background.secondary,
+    backgroundColor: colors.background,
   },
   progressBar: {
     height: 8,
-    backgroundColor: COLORS_V2.neutral[200],
+    backgroundColor: colors.border,
     borderRadius: RADIUS.full,
     overflow: 'hidden',
     marginBottom: SPACING.sm,
@@ -247,14 +267,14 @@ const styles = StyleSheet.create({
   },
   progressText: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     textAlign: 'center',
   },
   statsContainer: {
     flexDirection: 'row',
     paddingVertical: SPACING.lg,
     paddingHorizontal: SPACING.xl,
-    backgroundColor: COLORS_V2.background.tertiary,
+    backgroundColor: colors.surface,
   },
   statItem: {
     flex: 1,
@@ -262,20 +282,20 @@ const styles = StyleSheet.create({
   },
   statValue: {
     ...TYPOGRAPHY.titleLarge,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     fontWeight: '700',
     marginBottom: SPACING.xs,
   },
   statLabel: {
     ...TYPOGRAPHY.labelSmall,
-    color: COLORS_V2.text.secondary,
+    color: colors.textSecondary,
     textTransform: 'uppercase',
     fontWeight: '600',
     letterSpacing: 0.5,
   },
   statDivider: {
     width: 1,
-    backgroundColor: COLORS_V2.border.light,
+    backgroundColor: colors.border,
   },
   addButton: {
     flexDirection: 'row',
@@ -290,13 +310,13 @@ const styles = StyleSheet.create({
   },
   addIcon: {
     fontSize: 24,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '700',
     marginRight: SPACING.sm,
   },
   addText: {
     ...TYPOGRAPHY.labelLarge,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '600',
   },
 });
@@ -3,6 +3,7 @@ import { MotiView } from 'moti';
 import React from 'react';
 import { Platform, StyleSheet, ViewStyle } from 'react-native';
 import { ANIMATION, GLASS, RADIUS, SPACING } from '../../constants/designSystem';
+import { useTheme } from '../../contexts/ThemeContext';
 
 interface GlassCardProps {
   children: React.ReactNode;
@@ -17,7 +18,8 @@ export const GlassCard: React.FC<GlassCardProps> = ({
   intensity = 'medium',
   delay = 0,
 }) => {
-  const glassStyle = GLASS[intensity];
+  const { colors, isDark } = useTheme();
+  const glassStyle = isDark ? GLASS.dark : GLASS[intensity];
 
   // For Android/Web, use fallback with semi-transparent background
   if (Platform.OS !== 'ios') {
@@ -49,7 +51,7 @@ export const GlassCard: React.FC<GlassCardProps> = ({
       }}
       style={[styles.container, style]}
     >
-      <BlurView intensity={80} tint="light" style={StyleSheet.absoluteFill}>
+      <BlurView intensity={80} tint={colors.blurTint} style={StyleSheet.absoluteFill}>
         {children}
       </BlurView>
     </MotiView>
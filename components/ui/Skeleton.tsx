@@ -1,7 +1,8 @@
 import { MotiView } from 'moti';
 import React from 'react';
 import { StyleSheet, View } from 'react-native';
-import { COLORS_V2, RADIUS, SPACING } from '../../constants/designSystem';
+import { RADIUS, SPACING, ThemeColors } from '../../constants/designSystem';
+import { useThemedStyles } from '../../contexts/ThemeContext';
 
 interface SkeletonProps {
   width?: number | string;
@@ -16,6 +17,7 @@ export const Skeleton: React.FC<SkeletonProps> = ({
   borderRadius = RADIUS.sm,
   style,
 }) => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={[styles.container, { width, height, borderRadius }, style]}>
       <MotiView
@@ -33,6 +35,7 @@ export const Skeleton: React.FC<SkeletonProps> = ({
 };
 
 export const SkeletonCard: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.card}>
       <Skeleton height={180} borderRadius={RADIUS.lg} />
@@ -48,6 +51,7 @@ export const SkeletonCard: React.FC = () => {
 };
 
 export const SkeletonStatCard: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.statCard}>
       <Skeleton width={48} height={48} borderRadius={RADIUS.full} />
@@ -59,17 +63,17 @@ export const SkeletonStatCard: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
-    backgroundColor: COLORS_V2.neutral[200],
+    backgroundColor: colors.border,
     overflow: 'hidden',
   },
   shimmer: {
     flex: 1,
-    backgroundColor: COLORS_V2.neutral[300],
+    backgroundColor: colors.borderStrong,
   },
   card: {
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     marginBottom: SPACING.lg,
     overflow: 'hidden',
@@ -79,7 +83,7 @@ const styles = StyleSheet.create({
   },
   statCard: {
     flex: 1,
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.xl,
     padding: SPACING.lg,
     alignItems: 'center',
@@ -4,7 +4,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { MotiView } from 'moti';
 import React from 'react';
 import { Pressable, StyleSheet, Text, View } from 'react-native';
-import { COLORS_V2, ELEVATION, RADIUS, SPACING, TYPOGRAPHY } from '../../constants/designSystem';
+import { COLORS_V2, ELEVATION, RADIUS, SPACING, ThemeColors, TYPOGRAPHY } from '../../constants/designSystem';
+import { useThemedStyles } from '../../contexts/ThemeContext';
 
 interface StatCardProps {
   icon: string;
@@ -25,6 +26,7 @@ export const StatCard: React.FC<StatCardProps> = ({
   onPress,
   delay = 0,
 }) => {
+  const styles = useThemedStyles(createStyles);
   const handlePress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     onPress?.();
@@ -87,7 +89,7 @@ export const StatCard: React.FC<StatCardProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -125,7 +127,7 @@ const styles = StyleSheet.create({
   },
   value: {
     ...TYPOGRAPHY.displaySmall,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '700',
     marginBottom: SPACING.xs,
     textShadowColor: 'rgba(0, 0, 0, 0.3)',
@@ -134,7 +136,7 @@ const styles = StyleSheet.create({
   },
   label: {
     ...TYPOGRAPHY.labelMedium,
-    color: COLORS_V2.text.inverse,
+    color: colors.onPrimary,
     fontWeight: '600',
     textTransform: 'uppercase',
     letterSpacing: 1,
@@ -0,0 +1,66 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Pressable, StyleSheet, Text } from 'react-native';
+import { RADIUS, SPACING, TYPOGRAPHY } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useTheme } from '../../contexts/ThemeContext';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
+import { flushPendingChanges } from '../../services/sync/syncService';
+
+/**
+ * Offline / syncing pill. Renders nothing when online with nothing queued.
+ */
+export const SyncStatusIndicator: React.FC = () => {
+  const { isOnline, isSyncing, pendingChanges } = useSyncStatus();
+  const { t } = useTranslation();
+  const { colors } = useTheme();
+
+  if (isOnline && !isSyncing && pendingChanges === 0) return null;
+
+  let icon: keyof typeof Ionicons.glyphMap = 'cloud-upload-outline';
+  let label = t('syncStatus.pending', { count: pendingChanges });
+  let tint = colors.info;
+  let tintBackground = colors.infoLight;
+
+  if (!isOnline) {
+    icon = 'cloud-offline-outline';
+    label = pendingChanges > 0
+      ? t('syncStatus.offlineSaved', { count: pendingChanges })
+      : t('syncStatus.offline');
+    tint = colors.warning;
+    tintBackground = colors.warningLight;
+  } else if (isSyncing) {
+    icon = 'sync-outline';
+    label = t('syncStatus.syncing', { count: pendingChanges });
+  }
+
+  return (
+    <Pressable
+      style={[styles.container, { backgroundColor: tintBackground, borderColor: tint + '40' }]}
+      onPress={() => flushPendingChanges().catch(() => undefined)}
+      disabled={!isOnline || isSyncing}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      <Ionicons name={icon} size={14} color={tint} />
+      <Text style={[styles.label, { color: tint }]}>{label}</Text>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: SPACING.xs,
+    marginTop: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: RADIUS.full,
+    borderWidth: 1,
+  },
+  label: {
+    ...TYPOGRAPHY.labelSmall,
+  },
+});
@@ -2,7 +2,11 @@ import * as Haptics from 'expo-haptics';
 import { MotiView } from 'moti';
 import React from 'react';
 import { Pressable, StyleSheet, Text, View } from 'react-native';
-import { ANIMATION, COLORS_V2, ELEVATION, RADIUS, SPACING, TYPOGRAPHY } from '../../constants/designSystem';
+import { ANIMATION, COLORS_V2, ELEVATION, RADIUS, SPACING, ThemeColors, TYPOGRAPHY } from '../../constants/designSystem';
+import { useTranslation } from '../../contexts/LanguageContext';
+import { useThemedStyles } from '../../contexts/ThemeContext';
+import { getTaskProgress } from '../../services/subtaskProgress';
+import { Subtask, TaskStatus } from '../../types';
 
 interface TaskCardProps {
   task: {
@@ -10,6 +14,10 @@ interface TaskCardProps {
     title: string;
     dueDate: Date;
     priority?: 'low' | 'medium' | 'high' | 'urgent';
+    status?: TaskStatus;
+    estimatedHours?: number;
+    completedHours?: number;
+    subtasks?: Subtask[];
   };
   courseName?: string;
   courseColor?: string;
@@ -24,14 +32,16 @@ export const TaskCard: React.FC<TaskCardProps> = ({
   onPress,
   delay = 0,
 }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
   const daysUntil = Math.ceil((task.dueDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
   
   const getDueDateText = () => {
-    if (daysUntil < 0) return `${Math.abs(daysUntil)}d overdue`;
-    if (daysUntil === 0) return 'Due today';
-    if (daysUntil === 1) return 'Tomorrow';
-    if (daysUntil <= 7) return `${daysUntil} days`;
-    return task.dueDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    if (daysUntil < 0) return t('taskCard.overdue', { count: Math.abs(daysUntil) });
+    if (daysUntil === 0) return t('taskCard.dueToday');
+    if (daysUntil === 1) return t('common.tomorrow');
+    if (daysUntil <= 7) return t('taskCard.inDays', { count: daysUntil });
+    return formatDate(task.dueDate, { month: 'short', day: 'numeric' });
   };
 
   const getDueDateColor = () => {
@@ -50,6 +60,9 @@ export const TaskCard: React.FC<TaskCardProps> = ({
 
   const urgencyLevel = getUrgencyLevel();
 
+  const progress = getTaskProgress({ status: TaskStatus.TODO, ...task });
+  const showProgress = progress.totalSubtasks > 0 || progress.completedHours > 0;
+
   const handlePress = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     onPress?.();
@@ -115,7 +128,26 @@ export const TaskCard: React.FC<TaskCardProps> = ({
                 {getDueDateText()}
               </Text>
             </View>
+            {showProgress && (
+              <Text style={styles.progressLabel}>
+                {progress.totalSubtasks > 0
+                  ? t('taskCard.subtasks', { done: progress.doneSubtasks, total: progress.totalSubtasks })
+                  : `${progress.completionPercentage}%`}
+              </Text>
+            )}
           </View>
+
+          {/* Progress Bar */}
+          {showProgress && (
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${progress.completionPercentage}%`, backgroundColor: courseColor },
+                ]}
+              />
+            </View>
+          )}
         </View>
 
         {/* Chevron */}
@@ -127,15 +159,15 @@ export const TaskCard: React.FC<TaskCardProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   card: {
-    backgroundColor: COLORS_V2.surface.base,
+    backgroundColor: colors.card,
     borderRadius: RADIUS.lg,
     marginBottom: SPACING.md,
     flexDirection: 'row',
     overflow: 'hidden',
     borderWidth: 1,
-    borderColor: COLORS_V2.background.secondary,
+    borderColor: colors.background,
   },
   pressed: {
     opacity: 0.7,
@@ -156,7 +188,7 @@ const styles = StyleSheet.create({
   },
   title: {
     ...TYPOGRAPHY.titleMedium,
-    color: COLORS_V2.text.primary,
+    color: colors.text,
     flex: 1,
     fontWeight: '700',
     lineHeight: 22,
@@ -165,7 +197,7 @@ const styles = StyleSheet.create({
     width: 10,
     height: 10,
     borderRadius: RADIUS.full,
-    backgroundColor: COLORS_V2.error[100],
+    backgroundColor: colors.errorLight,
     justifyContent: 'center',
     alignItems: 'center',
     marginTop: 6,
@@ -198,6 +230,23 @@ const styles = StyleSheet.create({
   footer: {
     flexDirection: 'row',
     alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  progressLabel: {
+    ...TYPOGRAPHY.labelSmall,
+    color: colors.textSecondary,
+    fontWeight: '600',
+    fontSize: 11,
+  },
+  progressTrack: {
+    height: 4,
+    backgroundColor: colors.border,
+    borderRadius: RADIUS.full,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: RADIUS.full,
   },
   dueDateBadge: {
     flexDirection: 'row',
@@ -209,11 +258,11 @@ const styles = StyleSheet.create({
   },
   overdueBadge: {
     borderWidth: 1,
-    borderColor: COLORS_V2.error[200],
+    borderColor: colors.errorLight,
   },
   todayBadge: {
     borderWidth: 1,
-    borderColor: COLORS_V2.warning[200],
+    borderColor: colors.warningLight,
   },
   dueDateIcon: {
     fontSize: 12,
@@ -230,7 +279,7 @@ const styles = StyleSheet.create({
   },
   chevronIcon: {
     fontSize: 24,
-    color: COLORS_V2.text.tertiary,
+    color: colors.textMuted,
     fontWeight: '300',
   },
 });
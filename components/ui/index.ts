@@ -10,5 +10,6 @@ export { CourseCard } from './CourseCard';
 export { GlassCard } from './GlassCard';
 export { Skeleton, SkeletonCard, SkeletonStatCard } from './Skeleton';
 export { StatCard } from './StatCard';
+export { SyncStatusIndicator } from './SyncStatusIndicator';
 export { TaskCard } from './TaskCard';
 
@@ -36,18 +36,152 @@ export const HUGGING_FACE_API = {
   },
 };
 
+// LLM Provider Configuration
+// Provider and endpoints can be overridden per build via env vars, or at runtime with setLLMProvider()
+export const LLM_CONFIG = {
+  defaultProvider: getEnvVar('EXPO_PUBLIC_LLM_PROVIDER') || 'huggingface', // 'huggingface' | 'openai' | 'ollama'
+  providers: {
+    huggingface: {
+      apiKey: getEnvVar('EXPO_PUBLIC_HUGGING_FACE_API_KEY'),
+      model: 'meta-llama/Llama-3.2-1B-Instruct',
+      fallbackModels: [
+        'HuggingFaceH4/zephyr-7b-beta',
+        'microsoft/DialoGPT-medium',
+        'facebook/blenderbot-400M-distill',
+      ],
+      summarizationModel: 'facebook/bart-large-cnn',
+      summarizationFallbackModels: ['sshleifer/distilbart-cnn-12-6', 'google/pegasus-xsum'],
+      timeoutMs: 30000,
+    },
+    // Any endpoint speaking the OpenAI chat completions API (campus-hosted vLLM, LM Studio, etc.)
+    openai: {
+      baseUrl: getEnvVar('EXPO_PUBLIC_LLM_BASE_URL'),
+      apiKey: getEnvVar('EXPO_PUBLIC_LLM_API_KEY'),
+      model: getEnvVar('EXPO_PUBLIC_LLM_MODEL') || 'gpt-4o-mini',
+      fallbackModels: [] as string[],
+      timeoutMs: 30000,
+    },
+    // Local Ollama-style server (/api/chat)
+    ollama: {
+      baseUrl: getEnvVar('EXPO_PUBLIC_OLLAMA_BASE_URL') || 'http://localhost:11434',
+      model: getEnvVar('EXPO_PUBLIC_OLLAMA_MODEL') || 'llama3.2',
+      fallbackModels: [] as string[],
+      timeoutMs: 60000, // local models on laptops can be slow to load
+    },
+  },
+};
+
+// Embedding Provider Configuration
+// Items embedded by different models are never compared; switching provider
+// re-embeds the store in the background.
+export const EMBEDDING_CONFIG = {
+  defaultProvider: getEnvVar('EXPO_PUBLIC_EMBEDDING_PROVIDER') || 'huggingface', // 'huggingface' | 'openai' | 'local'
+  providers: {
+    huggingface: {
+      apiKey: getEnvVar('EXPO_PUBLIC_HUGGING_FACE_API_KEY'),
+      model: 'sentence-transformers/all-MiniLM-L6-v2',
+      version: 1,
+      timeoutMs: 30000,
+    },
+    // Any endpoint speaking the OpenAI /embeddings API
+    openai: {
+      baseUrl: getEnvVar('EXPO_PUBLIC_EMBEDDING_BASE_URL') || getEnvVar('EXPO_PUBLIC_LLM_BASE_URL'),
+      apiKey: getEnvVar('EXPO_PUBLIC_EMBEDDING_API_KEY') || getEnvVar('EXPO_PUBLIC_LLM_API_KEY'),
+      model: getEnvVar('EXPO_PUBLIC_EMBEDDING_MODEL') || 'text-embedding-3-small',
+      version: 1,
+      timeoutMs: 30000,
+    },
+    // On-device quantized ONNX export of MiniLM, downloaded on first use. Only
+    // used when chosen explicitly; quantization shifts its vectors, so they are
+    // tagged apart from the Hugging Face provider's.
+    local: {
+      model: 'Xenova/all-MiniLM-L6-v2-quantized',
+      version: 1,
+      modelUrl: 'https://huggingface.co/Xenova/all-MiniLM-L6-v2/resolve/main/onnx/model_quantized.onnx',
+      vocabUrl: 'https://huggingface.co/Xenova/all-MiniLM-L6-v2/resolve/main/vocab.txt',
+      maxTokens: 256,
+      timeoutMs: 120000, // first use includes a ~23 MB download
+    },
+  },
+  batchSize: 16, // texts per embedding request
+};
+
+// Course Material (RAG) Configuration
+export const RAG_CONFIG = {
+  chunkSize: 1000, // characters per indexed chunk
+  chunkOverlap: 200, // characters repeated from the previous chunk for context
+  minChunkLength: 40, // shorter fragments (page numbers, headers) are skipped
+  indexBatchSize: 10, // chunks embedded per batchIndexContent call
+  vectorSegmentSize: 200, // items per persisted vector store segment
+  exactSearchLimit: 1000, // shards smaller than this are searched exhaustively
+  annProbes: 8, // IVF buckets scanned per query on larger shards
+  rrfK: 60, // reciprocal rank fusion damping; higher flattens the rank curve
+  hybridCandidates: 20, // semantic and keyword candidates fused (and reranked) per query
+  rerank: {
+    provider: getEnvVar('EXPO_PUBLIC_RERANK_PROVIDER') || 'none', // 'none' | 'huggingface' | 'endpoint'
+    providers: {
+      // Cross-encoder on the Hugging Face Inference API
+      huggingface: {
+        apiKey: getEnvVar('EXPO_PUBLIC_HUGGING_FACE_API_KEY'),
+        model: 'cross-encoder/ms-marco-MiniLM-L-6-v2',
+        timeoutMs: 15000,
+      },
+      // Any Cohere/Jina/TEI-style /rerank endpoint
+      endpoint: {
+        baseUrl: getEnvVar('EXPO_PUBLIC_RERANK_BASE_URL'),
+        apiKey: getEnvVar('EXPO_PUBLIC_RERANK_API_KEY'),
+        model: getEnvVar('EXPO_PUBLIC_RERANK_MODEL') || 'rerank-english-v3.0',
+        timeoutMs: 15000,
+      },
+    },
+  },
+};
+
 // Database Configuration
 export const DB_CONFIG = {
   name: 'unimate.db',
   version: 1,
 };
 
+// Flashcard Configuration
+export const FLASHCARD_CONFIG = {
+  initialEase: 2.5,
+  minEase: 1.3,
+  relearnMinutes: 10, // "again" shows the card again this soon
+  graduatingIntervals: [1, 6], // days after the first and second successful review
+  hardMultiplier: 1.2,
+  easyBonus: 1.3,
+  maxIntervalDays: 365,
+  generateCount: 10, // cards requested per AI generation
+  maxSourceCharacters: 6000, // text sent to the AI per generation
+  maxSessionMinutes: 480, // longest review recorded as one study session
+};
+
+// Practice Quiz Configuration
+export const QUIZ_CONFIG = {
+  questionCount: 6,
+  shortAnswerShare: 0.35, // rest are multiple choice
+  maxSourceCharacters: 6000, // text sent to the AI per quiz
+  shortAnswerPass: 0.6, // token overlap with the reference that counts as correct
+  qaMinConfidence: 0.1, // QA model score below which its extracted answer is ignored
+  masteryWeight: 0.35, // weight of the latest quiz in a topic's mastery
+  weakMastery: 0.6, // topics below this are "weak"
+  weakTopicLimit: 5,
+  reviewMinutes: 30, // plan time per weak topic at zero mastery
+};
+
 // Study Configuration
 export const STUDY_CONFIG = {
   defaultSessionDuration: 60, // minutes
   defaultBreakDuration: 15, // minutes
   minStudyHoursPerDay: 2,
   maxStudyHoursPerDay: 10,
+  defaultDailyStudyGoal: 3, // hours (fallback for UserSettings.studyPreferences.dailyStudyGoal)
+  planHorizonWeeks: 4,
+  studyDayStart: '08:00',
+  studyDayEnd: '22:00',
+  minBlockMinutes: 25, // shortest study block the planner will create
+  classBufferMinutes: 15, // gap kept before/after timetable classes
   difficultyMultipliers: {
     1: 0.8, // Easy
     2: 1.0, // Normal
@@ -57,6 +191,57 @@ export const STUDY_CONFIG = {
   },
 };
 
+// Study Session Modes
+export const SESSION_MODE_CONFIG = {
+  pomodoro: {
+    workMinutes: 25,
+    breakMinutes: 5,
+    longBreakMinutes: 15,
+    longBreakEvery: 4,
+  },
+  flowBreakRatio: 0.2, // flow mode rests for a fifth of the focus stretch
+  flowMinBreakMinutes: 5,
+  flowMaxBreakMinutes: 20,
+  minIntervalSeconds: 60, // shorter work stretches aren't recorded as intervals
+  breakGapMinutes: 5, // a pause at least this long counts as a break in burnout checks
+  maxFocusMinutes: 90, // continuous focus beyond this counts as "no breaks"
+  reminderHorizonMinutes: 180, // phase-end reminders are scheduled this far ahead
+  maxScheduledReminders: 8,
+};
+
+// Grade Configuration
+export const GRADE_CONFIG = {
+  maxGradePoint: 4.0,
+  defaultCredits: 3, // used for courses without credits in the GPA
+  defaultScale: [
+    { letter: 'A+', minPercentage: 90, gradePoint: 4.0 },
+    { letter: 'A', minPercentage: 85, gradePoint: 4.0 },
+    { letter: 'A-', minPercentage: 80, gradePoint: 3.7 },
+    { letter: 'B+', minPercentage: 75, gradePoint: 3.3 },
+    { letter: 'B', minPercentage: 70, gradePoint: 3.0 },
+    { letter: 'B-', minPercentage: 65, gradePoint: 2.7 },
+    { letter: 'C+', minPercentage: 60, gradePoint: 2.3 },
+    { letter: 'C', minPercentage: 55, gradePoint: 2.0 },
+    { letter: 'C-', minPercentage: 50, gradePoint: 1.7 },
+    { letter: 'D+', minPercentage: 45, gradePoint: 1.3 },
+    { letter: 'D', minPercentage: 40, gradePoint: 1.0 },
+    { letter: 'E', minPercentage: 0, gradePoint: 0 },
+  ],
+};
+
+// Recurring Task Configuration
+export const RECURRENCE_CONFIG = {
+  maxOccurrences: 60,
+  defaultWeeks: 14, // series without an end date or count run for about a semester
+};
+
+// Offline Sync Configuration
+export const SYNC_CONFIG = {
+  remoteTimeoutMs: 8000, // treat slower Firestore calls as offline and queue them
+  maxAttempts: 5, // replay attempts before a rejected change is dropped
+  retryDelayMs: 5000, // wait before retrying a rejected change; doubles per attempt
+};
+
 // Notification Configuration
 export const NOTIFICATION_CONFIG = {
   deadlineWarningDays: [7, 3, 1], // Days before deadline to send reminders
@@ -64,6 +249,28 @@ export const NOTIFICATION_CONFIG = {
   achievementNotifications: true,
 };
 
+// Per-task reminders
+export const TASK_REMINDER_CONFIG = {
+  offsetPresets: [7 * 24 * 60, 24 * 60, 2 * 60, 30], // minutes before the due date
+  scheduleHorizonDays: 30, // later reminders are scheduled when the app next starts
+  maxScheduled: 48, // iOS keeps at most 64 pending local notifications
+};
+
+// Weekly Summary Configuration
+export const WEEKLY_SUMMARY_CONFIG = {
+  historyWeeks: 12, // snapshots shown on the reports screen
+  notificationCourses: 3, // most studied courses named in the notification
+};
+
+// Achievements
+export const ACHIEVEMENT_CONFIG = {
+  streakDays: [3, 7, 14, 30, 60],
+  courseHours: [5, 10, 25, 50, 100], // per course
+  earlyCompletions: [1, 5, 10, 25, 50], // tasks completed before their due date
+  burnoutFreeWeeks: [1, 4, 8, 12],
+  burnoutFreeMaxScore: 40, // weekly burnout score below "moderate" risk
+};
+
 // Colors for UI
 export const COLORS = {
   primary: '#6366F1', // Indigo
@@ -307,6 +307,93 @@ export const COLORS_V2 = {
   },
 };
 
+// Theme Tokens - screens read these through useTheme() so they follow the
+// light/dark setting. Colors are 6-digit hex so alpha can be appended
+// (e.g. colors.primary + '20').
+export const LIGHT_THEME = {
+  primary: '#6366F1',
+  primaryDark: '#4F46E5',
+  primaryLight: '#EEF2FF', // tinted backgrounds
+  secondary: '#8B5CF6',
+  accent: '#EC4899',
+  success: '#10B981',
+  successLight: '#D1FAE5',
+  warning: '#F59E0B',
+  warningLight: '#FEF3C7',
+  error: '#EF4444',
+  errorLight: '#FEE2E2',
+  info: '#3B82F6',
+  infoLight: '#DBEAFE',
+
+  background: '#F9FAFB', // screens
+  card: '#FFFFFF', // cards, sheets, inputs
+  surface: '#F3F4F6', // muted fills: chips, tracks, secondary buttons
+  border: '#E5E7EB',
+  borderStrong: '#D1D5DB',
+
+  text: '#111827',
+  textSecondary: '#6B7280',
+  textMuted: '#9CA3AF', // placeholders, disabled
+  onPrimary: '#FFFFFF', // text and icons on primary, gradients and status colors
+
+  codeBackground: '#1F2937', // code blocks in chat
+  codeText: '#E5E7EB',
+
+  shadow: '#000000',
+  overlay: 'rgba(0, 0, 0, 0.5)',
+  headerGradient: ['rgba(88,86,214,0.95)', 'rgba(108,99,255,0.95)'] as [string, string],
+  brandGradient: ['#667EEA', '#764BA2', '#F093FB', '#FFECD2'] as [string, string, ...string[]],
+
+  statusBar: 'dark' as 'light' | 'dark', // status bar content over `background`
+  blurTint: 'light' as 'light' | 'dark',
+};
+
+export type ThemeColors = typeof LIGHT_THEME;
+
+export const DARK_THEME: ThemeColors = {
+  primary: '#6366F1',
+  primaryDark: '#818CF8',
+  primaryLight: '#25284A',
+  secondary: '#A78BFA',
+  accent: '#F472B6',
+  success: '#10B981',
+  successLight: '#0F3B33',
+  warning: '#F59E0B',
+  warningLight: '#3D3118',
+  error: '#F87171',
+  errorLight: '#45232B',
+  info: '#60A5FA',
+  infoLight: '#1E2F52',
+
+  background: '#0A0E27',
+  card: '#1A1F3A',
+  surface: '#232946',
+  border: '#2D3250',
+  borderStrong: '#3D4470',
+
+  text: '#F9FAFB',
+  textSecondary: '#94A3B8',
+  textMuted: '#64748B',
+  onPrimary: '#FFFFFF',
+
+  codeBackground: '#111529',
+  codeText: '#E5E7EB',
+
+  shadow: '#000000',
+  overlay: 'rgba(0, 0, 0, 0.7)',
+  headerGradient: ['rgba(49,46,129,0.95)', 'rgba(67,56,202,0.95)'],
+  brandGradient: ['#1E1B4B', '#312E81', '#4C1D95', '#0A0E27'],
+
+  statusBar: 'light',
+  blurTint: 'dark',
+};
+
+// Course Colors - saved with the course, so the same in both themes
+export const COURSE_COLORS = [
+  '#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A',
+  '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E2',
+];
+
 // Animation Durations (in ms)
 export const ANIMATION = {
   fast: 150,
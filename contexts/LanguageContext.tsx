@@ -0,0 +1,102 @@
+/**
+ * Language Context
+ * The active UI language, following UserSettings.language ('en', 'si' or
+ * 'ta'). Switching it re-renders every screen that reads strings through
+ * useTranslation, without a restart:
+ *
+ *   const { t, formatDate } = useTranslation();
+ *   <Text>{t('dashboard.stats.total')}</Text>
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { onAuthStateChange } from '../services/authService';
+import {
+  formatDate,
+  formatTime,
+  formatWeekday,
+  getLanguage,
+  Language,
+  onLanguageChange,
+  setLanguage as setActiveLanguage,
+  t,
+} from '../services/i18n/i18nService';
+import {
+  getLocalLanguagePreference,
+  getUserSettings,
+  saveLocalLanguagePreference,
+  updateUserSettings,
+} from '../services/userSettingsService';
+
+interface LanguageContextType {
+  language: Language;
+  setLanguage: (language: Language) => Promise<void>;
+  t: typeof t;
+  formatDate: typeof formatDate;
+  formatTime: typeof formatTime;
+  formatWeekday: typeof formatWeekday;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(getLanguage());
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => onLanguageChange(setLanguageState), []);
+
+  // The device's last choice first, then the signed-in user's saved setting
+  useEffect(() => {
+    getLocalLanguagePreference()
+      .then((saved) => saved && setActiveLanguage(saved))
+      .catch((error) => console.error('[Language] Failed to load local preference:', error));
+
+    return onAuthStateChange((user) => {
+      setUserId(user?.uid || null);
+      if (!user) return;
+
+      getUserSettings(user.uid)
+        .then((settings) => {
+          setActiveLanguage(settings.language);
+          return saveLocalLanguagePreference(settings.language);
+        })
+        .catch((error) => console.error('[Language] Failed to load user settings:', error));
+    });
+  }, []);
+
+  const setLanguage = useCallback(async (next: Language) => {
+    setActiveLanguage(next);
+    if (userId) {
+      await updateUserSettings(userId, { language: next });
+    } else {
+      await saveLocalLanguagePreference(next);
+    }
+  }, [userId]);
+
+  // t and the formatters read the active language themselves; the new
+  // object on each change is what re-renders consumers
+  const contextValue = useMemo<LanguageContextType>(() => ({
+    language,
+    setLanguage,
+    t: (key, params, override) => t(key, params, override ?? language),
+    formatDate,
+    formatTime,
+    formatWeekday,
+  }), [language, setLanguage]);
+
+  return (
+    <LanguageContext.Provider value={contextValue}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+/**
+ * Hook to read strings in the active language
+ */
+export const useTranslation = () => {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error('useTranslation must be used within LanguageProvider');
+  }
+  return context;
+};
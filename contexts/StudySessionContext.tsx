@@ -2,23 +2,54 @@
  * Study Session Context
  * Global state management for active study sessions
  * Allows any screen to access/update current study session
+ *
+ * The timer never counts seconds itself. What's saved is a checkpoint of the
+ * phase timer plus the moment it last started running, and elapsed time is
+ * always worked out from the wall clock on top of that checkpoint. Start,
+ * pause, resume and phase changes each take a new checkpoint, so time adds up
+ * correctly across backgrounding and app kills.
+ *
+ * Sessions run in a mode (see services/studyModes.ts): free, Pomodoro,
+ * custom work/break cycles or flow. Phase ends are scheduled ahead as local
+ * break reminders, and while the app is in the background an ongoing
+ * notification shows the session with pause/resume buttons.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { AppState } from 'react-native';
+import { SESSION_MODE_CONFIG } from '../constants/config';
 import { getCurrentUser } from '../services/authService';
+import { formatTime as formatClock, t } from '../services/i18n/i18nService';
+import {
+  notificationManager,
+  STUDY_TIMER_ACTIONS,
+  STUDY_TIMER_CATEGORIES,
+} from '../services/notificationManager';
+import {
+  advancePhases,
+  closeIntervals,
+  createPhaseTimer,
+  endPhase,
+  getStudyCycle,
+  PhaseChange,
+  PhaseTimer,
+  upcomingPhaseChanges,
+} from '../services/studyModes';
+import { StudyCycle, StudyInterval, StudyMode } from '../types';
+import { NotificationPriority, NotificationType } from '../types/notification';
 
 // Helper function to get user-specific storage key
 const getStudySessionKey = (userId: string) => `@study_session_state_${userId}`;
 
-export interface StudySessionState {
+const ONGOING_NOTIFICATION_ID = 'study-session-timer';
+
+export interface StudySessionState extends PhaseTimer {
   userId?: string; // Track which user owns this session
   isActive: boolean;
   isRunning: boolean;
   isPaused: boolean;
-  elapsedSeconds: number;
-  targetSeconds: number;
+  targetSeconds: number; // free mode goal
   selectedCourse: string;
   selectedTask: string | null;
   topic: string;
@@ -28,25 +59,44 @@ export interface StudySessionState {
   startTime: Date | null;
 }
 
+export type StudySessionDetails = Pick<
+  StudySessionState,
+  'selectedCourse' | 'selectedTask' | 'topic' | 'targetDuration' | 'notes' | 'effectiveness'
+>;
+
+export interface StartSessionOptions {
+  mode?: StudyMode;
+  cycle?: Partial<StudyCycle>; // custom mode lengths
+}
+
 interface StudySessionContextType {
   state: StudySessionState;
   actions: {
-    startSession: (courseId: string, targetMinutes?: number) => void;
+    startSession: (courseId: string, targetMinutes?: number, options?: StartSessionOptions) => Promise<void>;
     pauseSession: () => void;
     resumeSession: () => void;
+    nextPhase: () => void;
+    getSessionIntervals: () => StudyInterval[];
     stopSession: () => void;
     discardSession: () => void;
-    updateSessionData: (data: Partial<StudySessionState>) => void;
+    updateSessionData: (data: Partial<StudySessionDetails>) => void;
     saveToStorage: () => Promise<void>;
     restoreFromStorage: () => Promise<void>;
   };
 }
 
-const initialState: StudySessionState = {
+/**
+ * What gets persisted. The live state is derived from it and the clock.
+ */
+interface SessionRecord extends Omit<StudySessionState, keyof PhaseTimer> {
+  checkpoint: PhaseTimer;
+  runningSince: Date | null; // last start/resume/phase change, null while paused or stopped
+}
+
+const initialRecord: SessionRecord = {
   isActive: false,
   isRunning: false,
   isPaused: false,
-  elapsedSeconds: 0,
   targetSeconds: 0,
   selectedCourse: '',
   selectedTask: null,
@@ -55,14 +105,106 @@ const initialState: StudySessionState = {
   notes: '',
   effectiveness: null,
   startTime: null,
+  checkpoint: { ...createPhaseTimer('free', getStudyCycle('free')), phaseStartedAt: null },
+  runningSince: null,
+};
+
+/**
+ * The phase timer as of `now`
+ */
+const timerAt = (record: Pick<SessionRecord, 'checkpoint' | 'runningSince'>, now: Date): PhaseTimer =>
+  record.runningSince
+    ? advancePhases(record.checkpoint, (now.getTime() - record.runningSince.getTime()) / 1000, now).timer
+    : record.checkpoint;
+
+const toDate = (value: any): Date | null => (value ? new Date(value) : null);
+
+// Dates come back from storage as ISO strings. Sessions saved before the
+// timer kept checkpoints only have a running total.
+const reviveRecord = (saved: any): SessionRecord => {
+  const details = {
+    userId: saved.userId,
+    selectedCourse: saved.selectedCourse || '',
+    selectedTask: saved.selectedTask || null,
+    topic: saved.topic || '',
+    targetDuration: saved.targetDuration || '',
+    notes: saved.notes || '',
+    effectiveness: saved.effectiveness || null,
+    targetSeconds: saved.targetSeconds || 0,
+    startTime: toDate(saved.startTime),
+  };
+
+  if (!saved.checkpoint) {
+    const running = Boolean(saved.isTimerRunning ?? saved.isRunning) && !saved.isPaused;
+    const savedAt = toDate(saved.savedAt) || new Date();
+    return {
+      ...details,
+      isActive: true,
+      isRunning: true,
+      isPaused: !running,
+      checkpoint: {
+        ...createPhaseTimer('free', getStudyCycle('free'), details.startTime || savedAt),
+        elapsedSeconds: saved.elapsedSeconds || 0,
+        phaseElapsedSeconds: saved.elapsedSeconds || 0,
+      },
+      runningSince: running ? savedAt : null,
+    };
+  }
+
+  return {
+    ...details,
+    isActive: Boolean(saved.isActive),
+    isRunning: Boolean(saved.isRunning),
+    isPaused: Boolean(saved.isPaused),
+    checkpoint: {
+      ...saved.checkpoint,
+      phaseStartedAt: toDate(saved.checkpoint.phaseStartedAt),
+      intervals: (saved.checkpoint.intervals || []).map((interval: any) => ({
+        startedAt: new Date(interval.startedAt),
+        endedAt: new Date(interval.endedAt),
+        minutes: interval.minutes,
+      })),
+    },
+    runningSince: toDate(saved.runningSince),
+  };
+};
+
+const phaseAlert = (change: PhaseChange): { title: string; body: string } => {
+  const minutes = Math.round(change.targetSeconds / 60);
+  switch (change.to) {
+    case 'long_break':
+      return {
+        title: t('studySession.notification.longBreakTitle'),
+        body: t('studySession.notification.longBreakBody', { intervals: change.completedWorkIntervals, count: minutes }),
+      };
+    case 'short_break':
+      return {
+        title: t('studySession.notification.shortBreakTitle'),
+        body: t('studySession.notification.shortBreakBody', { count: minutes }),
+      };
+    default:
+      return {
+        title: t('studySession.notification.backTitle'),
+        body: minutes > 0
+          ? t('studySession.notification.backBody', { count: minutes })
+          : t('studySession.notification.backBodyOpen'),
+      };
+  }
 };
 
 const StudySessionContext = createContext<StudySessionContextType | undefined>(undefined);
 
 export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [state, setState] = useState<StudySessionState>(initialState);
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const startTimeRef = useRef<Date | null>(null);
+  const [record, setRecord] = useState<SessionRecord>(initialRecord);
+  const [now, setNow] = useState(() => new Date());
+  const [appState, setAppState] = useState(AppState.currentState);
+  const reminderIdsRef = useRef<string[]>([]);
+  const restoredRef = useRef(false);
+
+  const state = useMemo<StudySessionState>(() => {
+    const { checkpoint, runningSince, ...details } = record;
+    return { ...details, ...timerAt(record, now) };
+  }, [record, now]);
 
   // Format time helper
   const formatTime = (seconds: number) => {
@@ -81,28 +223,28 @@ export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({
         return;
       }
 
-      if (!state.isActive && state.elapsedSeconds === 0) {
+      if (!record.isActive) {
         console.log('[StudyContext] No active session to save');
         return;
       }
 
       const dataToSave = {
-        ...state,
+        ...record,
         userId: user.id, // Store user ID for validation
-        startTime: startTimeRef.current?.toISOString(),
         savedAt: new Date().toISOString(),
       };
 
       const storageKey = getStudySessionKey(user.id);
       await AsyncStorage.setItem(storageKey, JSON.stringify(dataToSave));
       console.log('[StudyContext] 💾 State saved for user:', user.id, {
-        isRunning: state.isRunning,
-        elapsed: formatTime(state.elapsedSeconds),
+        isRunning: record.isRunning,
+        isPaused: record.isPaused,
+        elapsed: formatTime(timerAt(record, new Date()).elapsedSeconds),
       });
     } catch (error) {
       console.error('[StudyContext] ❌ Failed to save:', error);
     }
-  }, [state]);
+  }, [record]);
 
   // Restore state from AsyncStorage
   const restoreFromStorage = useCallback(async () => {
@@ -115,54 +257,31 @@ export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({
 
       const storageKey = getStudySessionKey(user.id);
       const saved = await AsyncStorage.getItem(storageKey);
-      
+
       if (!saved) {
         console.log('[StudyContext] No saved session found');
         return;
       }
 
-      const restoredState = JSON.parse(saved);
-      
+      const parsed = JSON.parse(saved);
+
       // CRITICAL: Validate that the session belongs to current user
-      if (restoredState.userId && restoredState.userId !== user.id) {
+      if (parsed.userId && parsed.userId !== user.id) {
         console.log('[StudyContext] ⚠️  Session belongs to different user, clearing...');
         await AsyncStorage.removeItem(storageKey);
         return;
       }
-      
+
+      const restored = reviveRecord({ ...parsed, userId: user.id });
       console.log('[StudyContext] 📦 Restoring session for user:', user.id, {
-        course: restoredState.selectedCourse,
-        isRunning: restoredState.isRunning,
-        isPaused: restoredState.isPaused,
+        course: restored.selectedCourse,
+        isRunning: restored.isRunning,
+        isPaused: restored.isPaused,
       });
 
-      // Calculate elapsed time if timer was running
-      if (restoredState.isRunning && !restoredState.isPaused) {
-        const savedStartTime = restoredState.startTime 
-          ? new Date(restoredState.startTime) 
-          : new Date();
-        const now = new Date();
-        const elapsedSinceStart = Math.floor((now.getTime() - savedStartTime.getTime()) / 1000);
-        
-        restoredState.elapsedSeconds = elapsedSinceStart;
-        startTimeRef.current = savedStartTime;
-
-        // Restart timer
-        if (timerRef.current) clearInterval(timerRef.current);
-        timerRef.current = setInterval(() => {
-          setState(prev => ({
-            ...prev,
-            elapsedSeconds: prev.elapsedSeconds + 1,
-          }));
-        }, 1000) as any;
-      } else if (restoredState.startTime) {
-        startTimeRef.current = new Date(restoredState.startTime);
-      }
-
-      setState({
-        ...restoredState,
-        startTime: startTimeRef.current,
-      });
+      restoredRef.current = true;
+      setRecord(restored);
+      setNow(new Date());
 
       console.log('[StudyContext] ✅ Session restored');
     } catch (error) {
@@ -171,19 +290,21 @@ export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({
   }, []);
 
   // Start a new session
-  const startSession = useCallback(async (courseId: string, targetMinutes: number = 0) => {
-    console.log('[StudyContext] 🚀 Starting session:', courseId);
-    
+  const startSession = useCallback(async (
+    courseId: string,
+    targetMinutes: number = 0,
+    options: StartSessionOptions = {}
+  ) => {
+    const mode = options.mode || 'free';
+    console.log('[StudyContext] 🚀 Starting session:', courseId, 'mode:', mode);
+
     const user = await getCurrentUser();
     if (!user) {
-      console.log('[StudyContext] Cannot start - no user logged in');
-      return;
+      throw new Error('Cannot start a study session without a signed-in user');
     }
 
     const startTime = new Date();
-    startTimeRef.current = startTime;
-
-    setState(prev => ({
+    setRecord(prev => ({
       ...prev,
       userId: user.id,
       isActive: true,
@@ -192,82 +313,92 @@ export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({
       selectedCourse: courseId,
       targetSeconds: targetMinutes * 60,
       startTime,
-      elapsedSeconds: 0,
+      checkpoint: createPhaseTimer(mode, getStudyCycle(mode, options.cycle), startTime),
+      runningSince: startTime,
     }));
-
-    // Start timer interval
-    if (timerRef.current) clearInterval(timerRef.current);
-    timerRef.current = setInterval(() => {
-      setState(prev => ({
-        ...prev,
-        elapsedSeconds: prev.elapsedSeconds + 1,
-      }));
-    }, 1000) as any;
+    setNow(startTime);
   }, []);
 
   // Pause session
   const pauseSession = useCallback(() => {
     console.log('[StudyContext] ⏸️  Pausing session');
-    
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
 
-    setState(prev => ({
-      ...prev,
-      isRunning: true,
-      isPaused: true,
-    }));
+    const pausedAt = new Date();
+    setRecord(prev => prev.runningSince
+      ? {
+          ...prev,
+          checkpoint: timerAt(prev, pausedAt),
+          runningSince: null,
+          isRunning: true,
+          isPaused: true,
+        }
+      : prev);
+    setNow(pausedAt);
   }, []);
 
   // Resume session
   const resumeSession = useCallback(() => {
     console.log('[StudyContext] ▶️  Resuming session');
 
-    setState(prev => ({
-      ...prev,
-      isRunning: true,
-      isPaused: false,
-    }));
+    const resumedAt = new Date();
+    setRecord(prev => prev.isActive && !prev.runningSince
+      ? {
+          ...prev,
+          runningSince: resumedAt,
+          isRunning: true,
+          isPaused: false,
+        }
+      : prev);
+    setNow(resumedAt);
+  }, []);
 
-    // Restart timer
-    if (timerRef.current) clearInterval(timerRef.current);
-    timerRef.current = setInterval(() => {
-      setState(prev => ({
+  // End the current phase now - flow mode's "take a break", or skipping
+  // ahead in a Pomodoro/custom cycle
+  const nextPhase = useCallback(() => {
+    const changedAt = new Date();
+    setRecord(prev => {
+      if (!prev.isActive || prev.checkpoint.mode === 'free') return prev;
+      const current = timerAt(prev, changedAt);
+      const next = endPhase(current, changedAt);
+      console.log('[StudyContext] ⏭️  Phase:', current.phase, '→', next.phase);
+      return {
         ...prev,
-        elapsedSeconds: prev.elapsedSeconds + 1,
-      }));
-    }, 1000) as any;
+        checkpoint: next,
+        runningSince: prev.runningSince ? changedAt : null,
+      };
+    });
+    setNow(changedAt);
   }, []);
 
+  // Work intervals for saving the session, including the one in progress
+  const getSessionIntervals = useCallback(() => {
+    const at = new Date();
+    return closeIntervals(timerAt(record, at), at);
+  }, [record]);
+
   // Stop session (for completion/save)
   const stopSession = useCallback(() => {
     console.log('[StudyContext] ⏹️  Stopping session');
 
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-
-    setState(prev => ({
+    const stoppedAt = new Date();
+    setRecord(prev => ({
       ...prev,
+      checkpoint: timerAt(prev, stoppedAt),
+      runningSince: null,
       isRunning: false,
       isPaused: false,
     }));
+    setNow(stoppedAt);
   }, []);
 
   // Discard session completely
   const discardSession = useCallback(async () => {
     console.log('[StudyContext] 🗑️  Discarding session');
 
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-
-    startTimeRef.current = null;
-    setState(initialState);
+    setRecord(prev => ({
+      ...initialRecord,
+      selectedCourse: prev.selectedCourse,
+    }));
 
     try {
       const user = await getCurrentUser();
@@ -282,48 +413,169 @@ export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({
   }, []);
 
   // Update session data (for form fields, notes, etc.)
-  const updateSessionData = useCallback((data: Partial<StudySessionState>) => {
-    setState(prev => ({
+  const updateSessionData = useCallback((data: Partial<StudySessionDetails>) => {
+    setRecord(prev => ({
       ...prev,
       ...data,
     }));
   }, []);
 
-  // Auto-save on state changes
+  // Redraw every second while running; the time itself comes from the clock
+  useEffect(() => {
+    if (!record.runningSince || appState !== 'active') return;
+
+    const ticker = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(ticker);
+  }, [record.runningSince, appState]);
+
+  // Checkpoint when a phase ends on its own, so intervals keep exact times
+  useEffect(() => {
+    if (!record.runningSince) return;
+    if (state.phase === record.checkpoint.phase && state.completedWorkIntervals === record.checkpoint.completedWorkIntervals) {
+      return;
+    }
+
+    setRecord(prev => {
+      if (!prev.runningSince) return prev;
+      const at = new Date();
+      return { ...prev, checkpoint: timerAt(prev, at), runningSince: at };
+    });
+  }, [state.phase, state.completedWorkIntervals, record.runningSince, record.checkpoint]);
+
+  // Save whenever the session changes (ticks don't change it)
   useEffect(() => {
-    if (state.isActive) {
+    if (record.isActive) {
       saveToStorage();
     }
-  }, [state.elapsedSeconds]); // Save every second when active
+  }, [record, saveToStorage]);
+
+  // Schedule break reminders for the phase ends ahead
+  useEffect(() => {
+    let cancelled = false;
+
+    const schedule = async () => {
+      const previous = reminderIdsRef.current;
+      reminderIdsRef.current = [];
+      await Promise.all(previous.map(id => notificationManager.cancel(id).catch(() => undefined)));
+
+      const userId = record.userId;
+      if (!userId || !record.isActive || !record.runningSince) return;
+
+      const scheduledAt = new Date();
+      const changes = upcomingPhaseChanges(
+        timerAt({ checkpoint: record.checkpoint, runningSince: record.runningSince }, scheduledAt),
+        SESSION_MODE_CONFIG.reminderHorizonMinutes * 60,
+        scheduledAt
+      ).slice(0, SESSION_MODE_CONFIG.maxScheduledReminders);
+
+      const ids = await Promise.all(
+        changes.map(change => {
+          const alert = phaseAlert(change);
+          return notificationManager.scheduleAt(
+            {
+              userId,
+              type: NotificationType.BREAK_REMINDER,
+              priority: NotificationPriority.MEDIUM,
+              title: alert.title,
+              body: alert.body,
+              action: 'NONE',
+              actionData: { courseId: record.selectedCourse, screen: 'study-session' },
+              data: { phase: change.to, mode: record.checkpoint.mode },
+              category: 'study_session',
+            },
+            change.at
+          );
+        })
+      );
+
+      const scheduled = ids.filter((id): id is string => !!id);
+      if (cancelled) {
+        scheduled.forEach(id => notificationManager.cancel(id));
+      } else {
+        reminderIdsRef.current = scheduled;
+      }
+    };
+
+    schedule();
+    return () => {
+      cancelled = true;
+    };
+    // Only timer events (and a course switch) reschedule, not edits to notes or topic
+  }, [record.checkpoint, record.runningSince, record.isActive, record.userId, record.selectedCourse]);
+
+  // Ongoing notification while the app is in the background
+  useEffect(() => {
+    if (appState !== 'background' || !record.isActive || !record.isRunning || !record.userId) {
+      notificationManager.dismissOngoing(ONGOING_NOTIFICATION_ID);
+      return;
+    }
+
+    const at = new Date();
+    const timer = timerAt({ checkpoint: record.checkpoint, runningSince: record.runningSince }, at);
+    const studied = t('studySession.notification.studied', { count: Math.floor(timer.elapsedSeconds / 60) });
+    const phaseName = t(`studySession.phase.${timer.phase}`);
+    const phaseEnd = timer.phaseTargetSeconds > 0
+      ? new Date(at.getTime() + (timer.phaseTargetSeconds - timer.phaseElapsedSeconds) * 1000)
+      : null;
+
+    notificationManager.showOngoing(ONGOING_NOTIFICATION_ID, {
+      userId: record.userId,
+      type: NotificationType.STUDY_REMINDER,
+      priority: NotificationPriority.LOW,
+      title: record.isPaused
+        ? t('studySession.notification.paused')
+        : timer.phase === 'work'
+          ? record.topic
+            ? t('studySession.notification.studyingTopic', { topic: record.topic })
+            : t('studySession.notification.studying')
+          : t('studySession.notification.onBreak', { phase: phaseName }),
+      body: record.isPaused
+        ? t('studySession.notification.pausedBody', { studied })
+        : phaseEnd && timer.mode !== 'free'
+          ? t('studySession.notification.phaseUntil', { phase: phaseName, time: formatClock(phaseEnd), studied })
+          : t('studySession.notification.started', { time: formatClock(record.startTime || at), studied }),
+      action: 'NONE',
+      actionData: { courseId: record.selectedCourse, screen: 'study-session' },
+      category: record.isPaused ? STUDY_TIMER_CATEGORIES.PAUSED : STUDY_TIMER_CATEGORIES.RUNNING,
+    });
+  }, [
+    appState,
+    record.checkpoint,
+    record.runningSince,
+    record.isActive,
+    record.isRunning,
+    record.isPaused,
+    record.userId,
+    record.topic,
+    record.selectedCourse,
+    record.startTime,
+  ]);
+
+  // Buttons on the ongoing notification
+  useEffect(() => notificationManager.onStudyTimerAction((action) => {
+    if (action === STUDY_TIMER_ACTIONS.PAUSE) pauseSession();
+    else if (action === STUDY_TIMER_ACTIONS.RESUME) resumeSession();
+    else if (action === STUDY_TIMER_ACTIONS.NEXT_PHASE) nextPhase();
+  }), [pauseSession, resumeSession, nextPhase]);
 
   // Handle app state changes (background/foreground)
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (nextAppState) => {
-      if (nextAppState === 'background') {
-        console.log('[StudyContext] App backgrounded, saving...');
-        saveToStorage();
-      } else if (nextAppState === 'active') {
-        console.log('[StudyContext] App foregrounded, restoring...');
-        restoreFromStorage();
+      setAppState(nextAppState);
+      if (nextAppState === 'active') {
+        console.log('[StudyContext] App foregrounded, catching up timer...');
+        setNow(new Date());
+        if (!restoredRef.current) restoreFromStorage();
       }
     });
 
     return () => subscription.remove();
-  }, [saveToStorage, restoreFromStorage]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, []);
+  }, [restoreFromStorage]);
 
   // Restore on mount
   useEffect(() => {
     restoreFromStorage();
-  }, []);
+  }, [restoreFromStorage]);
 
   const contextValue: StudySessionContextType = {
     state,
@@ -331,6 +583,8 @@ export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({
       startSession,
       pauseSession,
       resumeSession,
+      nextPhase,
+      getSessionIntervals,
       stopSession,
       discardSession,
       updateSessionData,
@@ -351,11 +605,11 @@ export const StudySessionProvider: React.FC<{ children: React.ReactNode }> = ({
  */
 export const useStudySession = () => {
   const context = useContext(StudySessionContext);
-  
+
   if (!context) {
     throw new Error('useStudySession must be used within StudySessionProvider');
   }
-  
+
   return context;
 };
 
@@ -367,6 +621,7 @@ export const useIsStudying = () => {
   return {
     isStudying: state.isActive && state.isRunning,
     isPaused: state.isPaused,
+    isOnBreak: state.isActive && state.phase !== 'work',
     elapsedTime: state.elapsedSeconds,
   };
 };
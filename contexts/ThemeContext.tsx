@@ -0,0 +1,101 @@
+/**
+ * Theme Context
+ * Light and dark color tokens for every screen, following
+ * UserSettings.theme: 'light', 'dark' or 'auto' (follow the system).
+ *
+ * Screens build their styles from the tokens with useThemedStyles, so a
+ * theme change restyles everything without a restart:
+ *
+ *   const styles = useThemedStyles(createStyles);
+ *   const createStyles = (colors: ThemeColors) => StyleSheet.create({ ... });
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useColorScheme } from 'react-native';
+import { DARK_THEME, LIGHT_THEME, ThemeColors } from '../constants/designSystem';
+import { onAuthStateChange } from '../services/authService';
+import {
+  getLocalThemePreference,
+  getUserSettings,
+  saveLocalThemePreference,
+  ThemePreference,
+  updateUserSettings,
+} from '../services/userSettingsService';
+
+interface ThemeContextType {
+  colors: ThemeColors;
+  isDark: boolean;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => Promise<void>;
+}
+
+const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  const [preference, setPreferenceState] = useState<ThemePreference>('auto');
+  const [userId, setUserId] = useState<string | null>(null);
+
+  // The device's last choice first, then the signed-in user's saved setting
+  useEffect(() => {
+    getLocalThemePreference()
+      .then((saved) => saved && setPreferenceState(saved))
+      .catch((error) => console.error('[Theme] Failed to load local preference:', error));
+
+    return onAuthStateChange((user) => {
+      setUserId(user?.uid || null);
+      if (!user) return;
+
+      getUserSettings(user.uid)
+        .then((settings) => {
+          setPreferenceState(settings.theme);
+          return saveLocalThemePreference(settings.theme);
+        })
+        .catch((error) => console.error('[Theme] Failed to load user settings:', error));
+    });
+  }, []);
+
+  const setPreference = useCallback(async (next: ThemePreference) => {
+    setPreferenceState(next);
+    if (userId) {
+      await updateUserSettings(userId, { theme: next });
+    } else {
+      await saveLocalThemePreference(next);
+    }
+  }, [userId]);
+
+  const isDark = preference === 'dark' || (preference === 'auto' && systemScheme === 'dark');
+
+  const contextValue = useMemo<ThemeContextType>(() => ({
+    colors: isDark ? DARK_THEME : LIGHT_THEME,
+    isDark,
+    preference,
+    setPreference,
+  }), [isDark, preference, setPreference]);
+
+  return (
+    <ThemeContext.Provider value={contextValue}>
+      {children}
+    </ThemeContext.Provider>
+  );
+};
+
+/**
+ * Hook to read the active theme
+ */
+export const useTheme = () => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within ThemeProvider');
+  }
+  return context;
+};
+
+/**
+ * Styles built from the active theme's tokens, rebuilt when the theme changes.
+ * Pass a module-level factory so the memo holds between renders.
+ */
+export const useThemedStyles = <T,>(createStyles: (colors: ThemeColors) => T): T => {
+  const { colors } = useTheme();
+  return useMemo(() => createStyles(colors), [colors, createStyles]);
+};
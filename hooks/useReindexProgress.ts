@@ -0,0 +1,15 @@
+/**
+ * Reindex Progress Hook
+ * Live progress of the background RAG reindex job
+ */
+
+import { useEffect, useState } from 'react';
+import { getReindexProgress, ReindexProgress, subscribeToReindexProgress } from '../services/ai/ragReindexJob';
+
+export function useReindexProgress(): ReindexProgress {
+  const [progress, setProgress] = useState<ReindexProgress>(getReindexProgress);
+
+  useEffect(() => subscribeToReindexProgress(setProgress), []);
+
+  return progress;
+}
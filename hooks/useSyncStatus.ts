@@ -0,0 +1,16 @@
+/**
+ * Sync Status Hook
+ * Live offline/pending-changes state for screens
+ */
+
+import { useEffect, useState } from 'react';
+import { getSyncStatus, subscribeToSyncStatus } from '../services/sync/syncService';
+import { SyncStatus } from '../types';
+
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  return status;
+}
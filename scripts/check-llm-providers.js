@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+
+/**
+ * LLM provider check
+ * Runs the OpenAI-compatible and Ollama providers in
+ * services/ai/llmProviders.ts against the stub server in
+ * scripts/fixtures/llmStubServer.js: plain and streamed replies, error
+ * responses, timeouts and cancelling a stream.
+ *
+ * The providers are TypeScript; they are transpiled on load with the
+ * project's own TypeScript compiler. Node has no XMLHttpRequest, so a small
+ * one over `http` stands in for React Native's, and expo-constants (which
+ * only loads inside the app) is replaced by an empty manifest.
+ *
+ * Usage: npm run llm:check
+ */
+
+const fs = require('fs');
+const http = require('http');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = process.cwd();
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const EXPO_CONSTANTS_STANDIN = path.join(ROOT, 'scripts', 'fixtures', 'expoConstants.js');
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request === 'expo-constants') return EXPO_CONSTANTS_STANDIN;
+  return resolveFilename.call(this, request, ...rest);
+};
+
+/**
+ * Just enough of XMLHttpRequest for postStream: progress, load, error and abort
+ */
+class NodeXMLHttpRequest {
+  constructor() {
+    this.status = 0;
+    this.responseText = '';
+    this.headers = {};
+    this.aborted = false;
+  }
+
+  open(method, url) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name, value) {
+    this.headers[name] = value;
+  }
+
+  send(body) {
+    this.request = http.request(this.url, { method: this.method, headers: this.headers }, (res) => {
+      this.status = res.statusCode;
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => {
+        this.responseText += chunk;
+        if (!this.aborted) this.onprogress?.();
+      });
+      res.on('end', () => {
+        if (!this.aborted) this.onload?.();
+      });
+    });
+    this.request.on('error', () => {
+      if (!this.aborted) this.onerror?.();
+    });
+    this.request.end(body);
+  }
+
+  abort() {
+    this.aborted = true;
+    this.request?.destroy();
+  }
+}
+global.XMLHttpRequest = NodeXMLHttpRequest;
+
+const { startLlmStubServer, REPLY, REPLY_PIECES } = require(path.join(ROOT, 'scripts', 'fixtures', 'llmStubServer.js'));
+const {
+  createOllamaProvider,
+  createOpenAICompatibleProvider,
+  isAbortError,
+} = require(path.join(ROOT, 'services', 'ai', 'llmProviders.ts'));
+
+const TIMEOUT_MS = 300;
+const MESSAGES = [
+  { role: 'system', content: 'You are a study assistant.' },
+  { role: 'user', content: 'Say hello' },
+];
+
+const settings = (baseUrl, extra = {}) => ({
+  baseUrl,
+  model: 'stub-model',
+  fallbackModels: [],
+  timeoutMs: TIMEOUT_MS,
+  ...extra,
+});
+
+// Resolves with the rejection; a call that succeeds yields a string that fails the expectations
+const failure = (promise) =>
+  promise.then(
+    (value) => `no error (resolved ${JSON.stringify(value)})`,
+    (error) => error
+  );
+
+const PROVIDERS = [
+  {
+    name: 'OpenAI-compatible',
+    create: (url, extra) => createOpenAICompatibleProvider(settings(`${url}/v1/`, extra)),
+    path: '/v1/chat/completions',
+  },
+  {
+    name: 'Ollama',
+    create: (url, extra) => createOllamaProvider(settings(url, extra)),
+    path: '/api/chat',
+  },
+];
+
+const cases = [
+  {
+    name: 'chat returns the reply and sends the request',
+    run: async ({ provider, stub, path: route }, expect) => {
+      const reply = await provider.chat(MESSAGES, { maxTokens: 64, temperature: 0.2 });
+      expect('reply', reply, REPLY);
+      const request = stub.requests[stub.requests.length - 1];
+      expect('path', request.path, route);
+      expect('model', request.body.model, 'stub-model');
+      expect('messages', request.body.messages, MESSAGES);
+      expect('authorization', request.headers.authorization, 'Bearer test-key');
+    },
+    extra: { apiKey: 'test-key' },
+  },
+  {
+    name: 'chatStream delivers each piece in order',
+    run: async ({ provider, stub }, expect) => {
+      const deltas = [];
+      const reply = await provider.chatStream(MESSAGES, (delta) => deltas.push(delta));
+      expect('deltas', deltas, REPLY_PIECES);
+      expect('reply', reply, REPLY);
+      expect('stream flag', stub.requests[stub.requests.length - 1].body.stream, true);
+      expect('no key, no authorization', stub.requests[stub.requests.length - 1].headers.authorization, undefined);
+    },
+  },
+  {
+    name: 'a server error is reported with its status',
+    run: async ({ provider }, expect) => {
+      const chatError = await failure(provider.chat(MESSAGES, { model: 'error' }));
+      expect('chat', /LLM server responded 500/.test(chatError.message), true);
+      const streamError = await failure(provider.chatStream(MESSAGES, () => {}, { model: 'error' }));
+      expect('chatStream', /LLM server responded 500/.test(streamError.message), true);
+    },
+  },
+  {
+    name: 'an unknown model is reported',
+    run: async ({ provider, name }, expect) => {
+      const chatError = await failure(provider.chat(MESSAGES, { model: 'missing' }));
+      expect('chat', /LLM server responded 404/.test(chatError.message), true);
+      const streamError = await failure(provider.chatStream(MESSAGES, () => {}, { model: 'missing' }));
+      // Ollama answers 200 and streams an error line
+      const expected = name === 'Ollama' ? /model 'missing' not found/ : /LLM server responded 404/;
+      expect('chatStream', expected.test(streamError.message), true);
+    },
+  },
+  {
+    name: 'a silent server times out',
+    run: async ({ provider }, expect) => {
+      const chatError = await failure(provider.chat(MESSAGES, { model: 'stall' }));
+      expect('chat', chatError.message, `LLM request timed out after ${TIMEOUT_MS}ms`);
+
+      const deltas = [];
+      const streamError = await failure(provider.chatStream(MESSAGES, (delta) => deltas.push(delta), { model: 'stall' }));
+      expect('chatStream', streamError.message, `LLM request timed out after ${TIMEOUT_MS}ms`);
+      expect('pieces before the stall', deltas, REPLY_PIECES.slice(0, 1));
+    },
+  },
+  {
+    name: 'cancelling a stream stops it with an abort error',
+    run: async ({ provider }, expect) => {
+      const controller = new AbortController();
+      const deltas = [];
+      const streamError = await failure(
+        provider.chatStream(
+          MESSAGES,
+          (delta) => {
+            deltas.push(delta);
+            controller.abort();
+          },
+          { signal: controller.signal }
+        )
+      );
+      expect('abort error', isAbortError(streamError), true);
+      expect('pieces kept', deltas, REPLY_PIECES.slice(0, 1));
+
+      const early = await failure(provider.chatStream(MESSAGES, () => {}, { signal: controller.signal }));
+      expect('already cancelled', isAbortError(early), true);
+    },
+  },
+  {
+    name: 'no server URL is reported before any request',
+    run: async ({ create, stub }, expect) => {
+      const provider = create(stub.url, { baseUrl: undefined });
+      const before = stub.requests.length;
+      expect('configured', provider.isConfigured(), false);
+      const chatError = await failure(provider.chat(MESSAGES));
+      expect('chat', /not configured/.test(chatError.message), true);
+      expect('requests', stub.requests.length, before);
+    },
+  },
+];
+
+const main = async () => {
+  const stub = await startLlmStubServer();
+  let problems = 0;
+
+  for (const target of PROVIDERS) {
+    for (const testCase of cases) {
+      const report = [];
+      const expect = (label, actual, expected) => {
+        if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+          report.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+        }
+      };
+
+      try {
+        await testCase.run(
+          { provider: target.create(stub.url, testCase.extra), create: target.create, stub, ...target },
+          expect
+        );
+      } catch (error) {
+        report.push(`threw ${error && error.stack ? error.stack : error}`);
+      }
+
+      if (report.length === 0) {
+        console.log(`✓ ${target.name}: ${testCase.name}`);
+        continue;
+      }
+
+      problems += report.length;
+      console.log(`✗ ${target.name}: ${testCase.name}`);
+      report.forEach((line) => console.log(`  ${line}`));
+    }
+  }
+
+  await stub.close();
+
+  if (problems > 0) {
+    console.log(`\n${problems} LLM provider problem(s)`);
+    process.exit(1);
+  }
+};
+
+main();
@@ -0,0 +1,305 @@
+#!/usr/bin/env node
+
+/**
+ * Sync engine check
+ * Runs the offline write queue in services/sync/syncEngine.ts against the
+ * in-memory adapter and fails when queue folding, replay, conflict merge or
+ * retry behaves differently than expected.
+ *
+ * The engine is TypeScript; it is transpiled on load with the project's own
+ * TypeScript compiler, so no extra tooling is needed.
+ *
+ * Usage: npm run sync:check
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = process.cwd();
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { SyncEngine } = require(path.join(ROOT, 'services', 'sync', 'syncEngine.ts'));
+const {
+  MemoryConnectivity,
+  memoryCodec,
+  MemoryRemote,
+  MemoryStorage,
+} = require(path.join(ROOT, 'services', 'sync', 'memoryAdapter.ts'));
+
+// The engine logs every queue and replay step; keep the report readable
+const print = console.log.bind(console);
+console.log = console.warn = console.error = () => {};
+
+const COLLECTION = 'tasks';
+const RETRY_DELAY_MS = 10;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const setup = ({ online = true, maxAttempts } = {}) => {
+  const remote = new MemoryRemote();
+  const connectivity = new MemoryConnectivity(online);
+  let clock = 1000;
+  const engine = new SyncEngine({
+    remote,
+    storage: new MemoryStorage(),
+    connectivity,
+    codec: memoryCodec,
+    remoteTimeoutMs: 1000,
+    retryDelayMs: RETRY_DELAY_MS,
+    maxAttempts,
+    now: () => clock,
+  });
+
+  return {
+    remote,
+    connectivity,
+    engine,
+    setClock: (ms) => {
+      clock = ms;
+    },
+    // Put a document on the remote and into the engine's local copy
+    seed: async (docId, data) => {
+      remote.put(COLLECTION, docId, data);
+      await engine.get(COLLECTION, docId, async () => remote.peek(COLLECTION, docId));
+    },
+    // Wait until the replay is blocked on the held remote
+    replayStarted: async () => {
+      const before = remote.calls.length;
+      for (let i = 0; i < 50 && remote.calls.length === before; i++) await sleep(1);
+    },
+  };
+};
+
+const doc = (fields) => ({ userId: 'u1', ...fields });
+
+const cases = [
+  {
+    name: 'offline writes replay on reconnect',
+    run: async ({ engine, remote, connectivity }, expect) => {
+      await engine.set(COLLECTION, 'a', doc({ title: 'A' }));
+      expect('queued while offline', engine.getPendingChanges().length, 1);
+      expect('remote untouched while offline', remote.peek(COLLECTION, 'a'), null);
+
+      connectivity.setOnline(true);
+      await engine.flush();
+      expect('remote after replay', remote.peek(COLLECTION, 'a'), doc({ title: 'A' }));
+      expect('queue after replay', engine.getPendingChanges().length, 0);
+    },
+    options: { online: false },
+  },
+  {
+    name: 'an update folds into a queued set',
+    run: async ({ engine, remote, connectivity }, expect) => {
+      await engine.set(COLLECTION, 'a', doc({ title: 'A', hours: 1 }));
+      await engine.update(COLLECTION, 'a', { hours: 2 });
+      const pending = engine.getPendingChanges();
+      expect('queued changes', pending.map((c) => c.type), ['set']);
+
+      connectivity.setOnline(true);
+      await engine.flush();
+      expect('remote calls', remote.calls, [`set ${COLLECTION}/a`]);
+      expect('remote after replay', remote.peek(COLLECTION, 'a'), doc({ title: 'A', hours: 2 }));
+    },
+    options: { online: false },
+  },
+  {
+    name: 'updates fold together and keep the first base values',
+    run: async ({ engine, connectivity, seed }, expect) => {
+      await seed('a', doc({ title: 'A', hours: 1 }));
+      connectivity.setOnline(false);
+      await engine.update(COLLECTION, 'a', { title: 'B' });
+      await engine.update(COLLECTION, 'a', { title: 'C', hours: 3 });
+
+      const pending = engine.getPendingChanges();
+      expect('queued changes', pending.map((c) => c.type), ['update']);
+      expect('folded data', pending[0].data, { title: 'C', hours: 3 });
+      expect('base values', pending[0].baseValues, { title: 'A', hours: 1 });
+    },
+  },
+  {
+    name: 'a delete supersedes the queued set and update',
+    run: async ({ engine, remote, connectivity }, expect) => {
+      await engine.set(COLLECTION, 'a', doc({ title: 'A' }));
+      await engine.update(COLLECTION, 'a', { title: 'B' });
+      await engine.delete(COLLECTION, 'a');
+      expect('queued changes', engine.getPendingChanges().map((c) => c.type), ['delete']);
+
+      connectivity.setOnline(true);
+      await engine.flush();
+      expect('remote calls', remote.calls, [`get ${COLLECTION}/a`]);
+      expect('remote after replay', remote.peek(COLLECTION, 'a'), null);
+    },
+    options: { online: false },
+  },
+  {
+    name: 'deleteMany supersedes single-document changes',
+    run: async ({ engine, connectivity, seed }, expect) => {
+      await seed('a', doc({ title: 'A' }));
+      await seed('b', doc({ title: 'B' }));
+      connectivity.setOnline(false);
+      await engine.update(COLLECTION, 'a', { title: 'A2' });
+      await engine.update(COLLECTION, 'b', { title: 'B2' });
+      await engine.deleteMany(COLLECTION, ['a', 'b']);
+
+      const pending = engine.getPendingChanges();
+      expect('queued changes', pending.map((c) => c.type), ['deleteMany']);
+      expect('deleted documents', pending[0].docIds, ['a', 'b']);
+    },
+  },
+  {
+    name: 'an update made while its document replays is sent afterwards',
+    run: async ({ engine, remote, connectivity, seed, replayStarted }, expect) => {
+      await seed('a', doc({ title: 'A', notes: '' }));
+      connectivity.setOnline(false);
+      await engine.update(COLLECTION, 'a', { title: 'B' });
+      connectivity.setOnline(true);
+
+      const release = remote.hold();
+      const flushing = engine.flush();
+      await replayStarted();
+      await engine.update(COLLECTION, 'a', { notes: 'N' });
+      expect('queued behind the replaying change', engine.getPendingChanges().length, 2);
+      release();
+      await flushing;
+
+      expect('remote after replay', remote.peek(COLLECTION, 'a'), doc({ title: 'B', notes: 'N' }));
+      expect('queue after replay', engine.getPendingChanges().length, 0);
+    },
+  },
+  {
+    name: 'a set made while its document replays keeps the change queued behind it',
+    run: async ({ engine, remote, connectivity, seed, replayStarted }, expect) => {
+      await seed('a', doc({ title: 'A' }));
+      await seed('b', doc({ title: 'B' }));
+      connectivity.setOnline(false);
+      await engine.update(COLLECTION, 'a', { title: 'A2' });
+      await engine.update(COLLECTION, 'b', { title: 'B2' });
+      connectivity.setOnline(true);
+
+      const release = remote.hold();
+      const flushing = engine.flush();
+      await replayStarted();
+      await engine.set(COLLECTION, 'a', doc({ title: 'A3' }));
+      release();
+      await flushing;
+
+      expect('replaced document', remote.peek(COLLECTION, 'a'), doc({ title: 'A3' }));
+      expect('unrelated document', remote.peek(COLLECTION, 'b'), doc({ title: 'B2' }));
+      expect('queue after replay', engine.getPendingChanges().length, 0);
+    },
+  },
+  {
+    name: 'a concurrent remote edit merges field by field',
+    run: async ({ engine, remote, connectivity, seed, setClock }, expect) => {
+      const base = doc({ title: 'A', notes: 'old', priority: 'low', updatedAt: new Date(1000) });
+      await seed('a', base);
+      connectivity.setOnline(false);
+      setClock(2000);
+      // Forms resend unchanged fields (notes)
+      await engine.update(COLLECTION, 'a', { title: 'B', notes: 'old', priority: 'high', updatedAt: new Date(2000) });
+      remote.put(COLLECTION, 'a', { ...base, title: 'C', notes: 'remote', updatedAt: new Date(3000) });
+
+      connectivity.setOnline(true);
+      await engine.flush();
+      const merged = remote.peek(COLLECTION, 'a');
+      expect('field changed on both sides goes to the newer write', merged.title, 'C');
+      expect('field resent unchanged keeps the remote edit', merged.notes, 'remote');
+      expect('field changed only locally is applied', merged.priority, 'high');
+    },
+  },
+  {
+    name: 'a rejected change is retried after a delay',
+    run: async ({ engine, remote, connectivity }, expect) => {
+      await engine.set(COLLECTION, 'a', doc({ title: 'A' }));
+      connectivity.setOnline(true);
+      remote.failNext(Object.assign(new Error('Missing or insufficient permissions.'), { code: 'permission-denied' }));
+
+      await engine.flush();
+      const pending = engine.getPendingChanges();
+      expect('kept after the first failure', pending.length, 1);
+      expect('attempts', pending[0].attempts, 1);
+
+      await sleep(RETRY_DELAY_MS * 5);
+      expect('remote after retry', remote.peek(COLLECTION, 'a'), doc({ title: 'A' }));
+      expect('queue after retry', engine.getPendingChanges().length, 0);
+    },
+    options: { online: false },
+  },
+  {
+    name: 'a change still rejected after maxAttempts is dropped and the queue moves on',
+    run: async ({ engine, remote, connectivity }, expect) => {
+      await engine.set(COLLECTION, 'a', doc({ title: 'A' }));
+      await engine.set(COLLECTION, 'b', doc({ title: 'B' }));
+      connectivity.setOnline(true);
+      const rejected = () => Object.assign(new Error('Document too large'), { code: 'invalid-argument' });
+      remote.failNext(rejected(), rejected());
+
+      await engine.flush();
+      await sleep(RETRY_DELAY_MS * 5);
+      expect('dropped document', remote.peek(COLLECTION, 'a'), null);
+      expect('document queued behind it', remote.peek(COLLECTION, 'b'), doc({ title: 'B' }));
+      expect('queue after retry', engine.getPendingChanges().length, 0);
+    },
+    options: { online: false, maxAttempts: 2 },
+  },
+  {
+    name: 'a network error keeps the change for the next reconnect',
+    run: async ({ engine, remote, connectivity }, expect) => {
+      await engine.set(COLLECTION, 'a', doc({ title: 'A' }));
+      connectivity.setOnline(true);
+      remote.failNext(Object.assign(new Error('Failed to get document because the client is offline.'), { code: 'unavailable' }));
+
+      await engine.flush();
+      const pending = engine.getPendingChanges();
+      expect('kept', pending.length, 1);
+      expect('attempts', pending[0].attempts, 0);
+    },
+    options: { online: false },
+  },
+];
+
+const main = async () => {
+  let problems = 0;
+
+  for (const testCase of cases) {
+    const context = setup(testCase.options);
+    const report = [];
+    const expect = (label, actual, expected) => {
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        report.push(`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    };
+
+    try {
+      await testCase.run(context, expect);
+    } catch (error) {
+      report.push(`threw ${error && error.stack ? error.stack : error}`);
+    } finally {
+      context.engine.stop();
+    }
+
+    if (report.length === 0) {
+      print(`✓ ${testCase.name}`);
+      continue;
+    }
+
+    problems += report.length;
+    print(`✗ ${testCase.name}`);
+    report.forEach((line) => print(`  ${line}`));
+  }
+
+  if (problems > 0) {
+    print(`\n${problems} sync engine problem(s)`);
+    process.exit(1);
+  }
+};
+
+main();
@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+
+/**
+ * Timetable parser check
+ * Runs parseTimetableText over the sample timetables in
+ * scripts/fixtures/timetables.js and fails when a parsed row differs from
+ * the expected one.
+ *
+ * The parser is TypeScript; it is transpiled on load with the project's
+ * own TypeScript compiler, so no extra tooling is needed.
+ *
+ * Usage: npm run timetable:check
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = process.cwd();
+const PARSER = path.join(ROOT, 'services', 'timetableImport', 'timetableParser.ts');
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { parseTimetableText } = require(PARSER);
+const fixtures = require(path.join(ROOT, 'scripts', 'fixtures', 'timetables.js'));
+
+let problems = 0;
+
+fixtures.forEach((fixture) => {
+  const rows = parseTimetableText(fixture.text, fixture.courses);
+  const report = [];
+
+  if (rows.length !== fixture.expected.length) {
+    report.push(`expected ${fixture.expected.length} row(s), parsed ${rows.length}`);
+  }
+
+  fixture.expected.forEach((expected, index) => {
+    const row = rows[index] || {};
+    Object.entries(expected).forEach(([field, value]) => {
+      if (row[field] !== value) {
+        report.push(`row ${index + 1} ${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(row[field])}`);
+      }
+    });
+  });
+
+  if (report.length === 0) {
+    console.log(`✓ ${fixture.name}: ${rows.length} row(s)`);
+    return;
+  }
+
+  problems += report.length;
+  console.log(`✗ ${fixture.name}`);
+  report.forEach((line) => console.log(`  ${line}`));
+  rows.forEach((row) => console.log(`  parsed: ${row.sourceLine} → ${JSON.stringify({ ...row, sourceLine: undefined })}`));
+});
+
+if (problems > 0) {
+  console.log(`\n${problems} timetable parser problem(s)`);
+  process.exit(1);
+}
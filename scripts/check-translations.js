@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+
+/**
+ * Translation check
+ * Compares every locale catalog in services/i18n/locales with en.json and
+ * fails when a key is missing, left over after an English key was removed,
+ * or a plural entry lacks its "one"/"other" form.
+ *
+ * Usage: npm run i18n:check
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const LOCALES_DIR = path.join(process.cwd(), 'services', 'i18n', 'locales');
+const BASE_LOCALE = 'en';
+
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// Only CLDR categories with string forms; groups that merely contain an
+// "other" message (e.g. tasks.type) are compared key by key
+const isPlural = (value) =>
+  value !== null &&
+  typeof value === 'object' &&
+  Object.keys(value).length > 0 &&
+  Object.entries(value).every(([key, form]) => PLURAL_CATEGORIES.includes(key) && typeof form === 'string');
+
+// Dotted key -> 'string' | 'plural' for every message in a catalog
+const flatten = (node, prefix = '', out = new Map()) => {
+  Object.entries(node).forEach(([key, value]) => {
+    const fullKey = `${prefix}${key}`;
+    if (typeof value === 'string') {
+      out.set(fullKey, 'string');
+    } else if (isPlural(value)) {
+      out.set(fullKey, typeof value.one === 'string' && typeof value.other === 'string' ? 'plural' : 'broken');
+    } else if (value && typeof value === 'object') {
+      flatten(value, `${fullKey}.`, out);
+    }
+  });
+  return out;
+};
+
+const readCatalog = (locale) =>
+  JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, `${locale}.json`), 'utf8'));
+
+const base = flatten(readCatalog(BASE_LOCALE));
+const locales = fs
+  .readdirSync(LOCALES_DIR)
+  .filter((file) => file.endsWith('.json'))
+  .map((file) => path.basename(file, '.json'))
+  .filter((locale) => locale !== BASE_LOCALE);
+
+let problems = 0;
+
+locales.forEach((locale) => {
+  const messages = flatten(readCatalog(locale));
+  const report = [];
+
+  base.forEach((kind, key) => {
+    if (!messages.has(key)) {
+      report.push(`missing     ${key}`);
+    } else if (messages.get(key) !== kind) {
+      report.push(`wrong shape ${key} (expected ${kind === 'plural' ? 'one/other plural' : 'string'})`);
+    }
+  });
+
+  messages.forEach((kind, key) => {
+    if (!base.has(key)) report.push(`unused      ${key}`);
+  });
+
+  if (report.length === 0) {
+    console.log(`✓ ${locale}: ${messages.size} messages`);
+    return;
+  }
+
+  problems += report.length;
+  console.log(`✗ ${locale}: ${report.length} problem(s)`);
+  report.forEach((line) => console.log(`  ${line}`));
+});
+
+if (problems > 0) {
+  console.log(`\n${problems} translation problem(s) against ${BASE_LOCALE}.json`);
+  process.exit(1);
+}
@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+
+/**
+ * Retrieval evaluation
+ * Scores the RAG keyword (BM25) retriever on the labelled queries in
+ * scripts/fixtures/retrievalEval.js and prints recall@k, MRR and nDCG, plus
+ * the queries that found nothing relevant.
+ *
+ * The fixture corpus is loaded into the app's own VectorStore with the text
+ * ragService indexes, so the scores are those of the keyword pass the app
+ * runs. Semantic, hybrid and reranked retrieval need the embedding model;
+ * compare them in a dev build with runRetrievalEval (ragRetrievalEval.ts).
+ *
+ * TypeScript modules are transpiled on load with the project's own compiler.
+ *
+ * Usage: npm run retrieval:eval [-- <k>]   (k defaults to 5)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const ROOT = process.cwd();
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { VectorStore } = require(path.join(ROOT, 'services', 'ai', 'vectorStore.ts'));
+const { evaluateRetriever, formatEvalReport } = require(path.join(ROOT, 'services', 'ai', 'retrievalEval.ts'));
+const { USER_ID, DOCUMENTS, QUERIES } = require(path.join(ROOT, 'scripts', 'fixtures', 'retrievalEval.js'));
+
+const k = Number(process.argv[2]) || 5;
+
+const memoryStorage = () => {
+  const items = new Map();
+  return {
+    getItem: async (key) => (items.has(key) ? items.get(key) : null),
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+const main = async () => {
+  const store = new VectorStore({
+    storage: memoryStorage(),
+    // Same searchable text as ragService's store
+    text: (item) => `${item.metadata.title || ''}\n${item.content}`,
+  });
+
+  // The keyword pass never reads embeddings; every item gets the same placeholder
+  await store.upsert(
+    DOCUMENTS.map(({ id, type, title, content, courseId }, i) => ({
+      id,
+      type,
+      content,
+      embedding: [1],
+      metadata: { userId: USER_ID, title, courseId },
+      timestamp: i,
+    }))
+  );
+
+  const retrievers = {
+    bm25: (query, limit) => store.keywordSearch(USER_ID, query, { limit }),
+  };
+
+  const reports = [];
+  for (const [name, retriever] of Object.entries(retrievers)) {
+    reports.push(await evaluateRetriever(name, QUERIES, retriever, k));
+  }
+
+  console.log(`${QUERIES.length} queries over ${DOCUMENTS.length} documents\n`);
+  console.log(formatEvalReport(reports));
+};
+
+main();
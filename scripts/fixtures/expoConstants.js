@@ -0,0 +1,9 @@
+/**
+ * Stand-in for expo-constants in the Node checks: outside the app there is
+ * no Expo manifest, so config falls back to its defaults
+ */
+
+const Constants = { expoConfig: { extra: {} } };
+
+module.exports = Constants;
+module.exports.default = Constants;
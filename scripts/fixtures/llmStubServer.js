@@ -0,0 +1,122 @@
+/**
+ * Stub LLM server for scripts/check-llm-providers.js
+ * Answers the OpenAI chat completions API under /v1 and the Ollama chat API
+ * under /api, plain or streamed. The requested model picks the behaviour:
+ *
+ *   any model  -> replies REPLY, streamed in REPLY_PIECES
+ *   "error"    -> HTTP 500
+ *   "missing"  -> HTTP 404 (Ollama streams an error line instead when streaming)
+ *   "stall"    -> sends headers and the first piece, then nothing
+ *
+ * Run it on its own to point the app at it:
+ *   node scripts/fixtures/llmStubServer.js   (PORT defaults to 11435)
+ */
+
+const http = require('http');
+
+const REPLY_PIECES = ['Hello', ' from', ' the stub'];
+const REPLY = REPLY_PIECES.join('');
+const PIECE_DELAY_MS = 5;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const openAIChunk = (content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+const ollamaChunk = (content, done = false) =>
+  `${JSON.stringify({ message: { role: 'assistant', content }, done })}\n`;
+
+const streamPieces = async (res, contentType, chunk, { stall, end }) => {
+  res.writeHead(200, { 'Content-Type': contentType });
+  for (const piece of REPLY_PIECES) {
+    res.write(chunk(piece));
+    if (stall) return; // leave the connection open and silent
+    await sleep(PIECE_DELAY_MS);
+  }
+  res.end(end);
+};
+
+const handleOpenAI = async (body, res) => {
+  if (body.model === 'error') return sendJson(res, 500, { error: { message: 'model overloaded' } });
+  if (body.model === 'missing') return sendJson(res, 404, { error: { message: 'model not found' } });
+  if (body.model === 'stall' && !body.stream) return; // never answer
+
+  if (!body.stream) {
+    return sendJson(res, 200, { choices: [{ message: { role: 'assistant', content: REPLY } }] });
+  }
+  return streamPieces(res, 'text/event-stream', openAIChunk, {
+    stall: body.model === 'stall',
+    end: 'data: [DONE]\n\n',
+  });
+};
+
+const handleOllama = async (body, res) => {
+  if (body.model === 'error') return sendJson(res, 500, { error: 'model overloaded' });
+  if (body.model === 'stall' && body.stream === false) return;
+
+  if (body.model === 'missing') {
+    if (body.stream === false) return sendJson(res, 404, { error: `model '${body.model}' not found` });
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    return res.end(`${JSON.stringify({ error: `model '${body.model}' not found` })}\n`);
+  }
+
+  if (body.stream === false) {
+    return sendJson(res, 200, { message: { role: 'assistant', content: REPLY }, done: true });
+  }
+  return streamPieces(res, 'application/x-ndjson', (piece) => ollamaChunk(piece), {
+    stall: body.model === 'stall',
+    end: ollamaChunk('', true),
+  });
+};
+
+/**
+ * Start the stub; `requests` records every request's path, headers and body
+ */
+const startLlmStubServer = (port = 0) =>
+  new Promise((resolve) => {
+    const requests = [];
+
+    const server = http.createServer((req, res) => {
+      let raw = '';
+      req.setEncoding('utf8');
+      req.on('data', (chunk) => {
+        raw += chunk;
+      });
+      req.on('end', () => {
+        let body = {};
+        try {
+          body = raw ? JSON.parse(raw) : {};
+        } catch {
+          return sendJson(res, 400, { error: 'invalid JSON' });
+        }
+        requests.push({ path: req.url, headers: req.headers, body });
+
+        if (req.method === 'POST' && req.url === '/v1/chat/completions') return handleOpenAI(body, res);
+        if (req.method === 'POST' && req.url === '/api/chat') return handleOllama(body, res);
+        return sendJson(res, 404, { error: `no route for ${req.method} ${req.url}` });
+      });
+    });
+
+    server.listen(port, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${server.address().port}`,
+        requests,
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+
+module.exports = { startLlmStubServer, REPLY, REPLY_PIECES };
+
+if (require.main === module) {
+  startLlmStubServer(Number(process.env.PORT) || 11435).then(({ url }) => {
+    console.log(`LLM stub listening on ${url} (OpenAI: ${url}/v1, Ollama: ${url})`);
+  });
+}
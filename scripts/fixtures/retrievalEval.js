@@ -0,0 +1,192 @@
+/**
+ * Retrieval evaluation fixtures for scripts/eval-retrieval.js
+ * A small student corpus (tasks, notes and course material chunks, shaped
+ * like the items ragIndexer stores) and labelled queries: each query lists
+ * the ids a good retriever should return.
+ *
+ * Some queries share words with their documents, others only paraphrase them
+ * ("exam" for "final paper"), so keyword retrieval is not expected to score
+ * perfectly.
+ */
+
+const USER_ID = 'eval_user';
+
+const DOCUMENTS = [
+  // Tasks
+  {
+    id: 'task_networks_assignment',
+    type: 'task',
+    title: 'Computer Networks assignment 2',
+    content: 'Subnetting and routing table exercises. Submit the PDF on Moodle before Friday 5pm.',
+    courseId: 'cs3001',
+  },
+  {
+    id: 'task_dbms_lab',
+    type: 'task',
+    title: 'DBMS lab sheet 4',
+    content: 'Write SQL queries with joins, GROUP BY and HAVING on the university schema.',
+    courseId: 'cs2004',
+  },
+  {
+    id: 'task_maths_tutorial',
+    type: 'task',
+    title: 'Linear algebra tutorial 3',
+    content: 'Eigenvalues and eigenvectors, diagonalisation of 3x3 matrices.',
+    courseId: 'ma2001',
+  },
+  {
+    id: 'task_se_report',
+    type: 'task',
+    title: 'Software engineering group report',
+    content: 'Requirements specification and use case diagrams for the library system project.',
+    courseId: 'cs2010',
+  },
+  {
+    id: 'task_os_quiz',
+    type: 'task',
+    title: 'Operating systems quiz',
+    content: 'Online quiz on process scheduling: round robin, shortest job first and priority scheduling.',
+    courseId: 'cs2008',
+  },
+  {
+    id: 'task_library_books',
+    type: 'task',
+    title: 'Return library books',
+    content: 'Return the algorithms textbook and the statistics reference book to the main library.',
+  },
+
+  // Notes
+  {
+    id: 'note_tcp_handshake',
+    type: 'note',
+    title: 'TCP connection setup',
+    content: 'Three-way handshake: the client sends SYN, the server answers SYN-ACK, the client replies ACK. '
+      + 'Sequence numbers are agreed during the handshake.',
+    courseId: 'cs3001',
+  },
+  {
+    id: 'note_normal_forms',
+    type: 'note',
+    title: 'Normalisation',
+    content: '1NF removes repeating groups, 2NF removes partial dependencies on a composite key, '
+      + '3NF removes transitive dependencies. BCNF: every determinant is a candidate key.',
+    courseId: 'cs2004',
+  },
+  {
+    id: 'note_deadlock',
+    type: 'note',
+    title: 'Deadlock conditions',
+    content: 'Mutual exclusion, hold and wait, no preemption and circular wait must all hold for a deadlock. '
+      + "Banker's algorithm avoids unsafe states.",
+    courseId: 'cs2008',
+  },
+  {
+    id: 'note_final_exam',
+    type: 'note',
+    title: 'Semester final paper timetable',
+    content: 'Networks final paper on 12 December in the main hall. DBMS paper on 15 December, 9am.',
+  },
+  {
+    id: 'note_scholarship',
+    type: 'note',
+    title: 'Mahapola scholarship',
+    content: 'Bring the bank book and student ID to the welfare branch to collect the monthly installment.',
+  },
+
+  // Course material chunks
+  {
+    id: 'material_cs3001_1700000000000_0',
+    type: 'course_material',
+    title: 'Lecture 5 - Transport layer',
+    content: 'UDP is connectionless and offers no delivery guarantee. TCP provides reliable, ordered delivery '
+      + 'using acknowledgements and retransmission.',
+    courseId: 'cs3001',
+  },
+  {
+    id: 'material_cs3001_1700000000000_1',
+    type: 'course_material',
+    title: 'Lecture 5 - Transport layer',
+    content: 'Flow control uses a sliding window advertised by the receiver. Congestion control uses slow start, '
+      + 'congestion avoidance and fast retransmit.',
+    courseId: 'cs3001',
+  },
+  {
+    id: 'material_cs3001_1700000000000_2',
+    type: 'course_material',
+    title: 'Lecture 6 - IP addressing',
+    content: 'An IPv4 address has 32 bits. A subnet mask splits it into network and host parts; '
+      + 'CIDR notation such as /24 gives the prefix length.',
+    courseId: 'cs3001',
+  },
+  {
+    id: 'material_cs2004_1700000000000_0',
+    type: 'course_material',
+    title: 'Chapter 7 - Transactions',
+    content: 'ACID properties: atomicity, consistency, isolation and durability. '
+      + 'Two-phase locking guarantees conflict-serialisable schedules.',
+    courseId: 'cs2004',
+  },
+  {
+    id: 'material_cs2004_1700000000000_1',
+    type: 'course_material',
+    title: 'Chapter 8 - Indexing',
+    content: 'B+ tree indexes keep keys sorted and balanced, so range queries are efficient. '
+      + 'Hash indexes only support equality lookups.',
+    courseId: 'cs2004',
+  },
+  {
+    id: 'material_cs2008_1700000000000_0',
+    type: 'course_material',
+    title: 'Virtual memory',
+    content: 'Paging maps virtual pages to physical frames through a page table. A TLB caches recent translations. '
+      + 'Page replacement policies include FIFO, LRU and the optimal algorithm.',
+    courseId: 'cs2008',
+  },
+  {
+    id: 'material_ma2001_1700000000000_0',
+    type: 'course_material',
+    title: 'Eigenvalues',
+    content: 'A scalar lambda is an eigenvalue of A when det(A - lambda I) = 0. '
+      + 'A matrix with n independent eigenvectors can be diagonalised.',
+    courseId: 'ma2001',
+  },
+  {
+    id: 'material_cs2010_1700000000000_0',
+    type: 'course_material',
+    title: 'Agile methods',
+    content: 'Scrum organises work in sprints with a product backlog, sprint planning, daily stand-ups '
+      + 'and a retrospective at the end of each sprint.',
+    courseId: 'cs2010',
+  },
+];
+
+const QUERIES = [
+  { query: 'when is the networks assignment due', expectedIds: ['task_networks_assignment'] },
+  { query: 'TCP three way handshake', expectedIds: ['note_tcp_handshake'] },
+  {
+    query: 'difference between TCP and UDP',
+    expectedIds: ['material_cs3001_1700000000000_0', 'note_tcp_handshake'],
+  },
+  { query: 'subnet mask and CIDR', expectedIds: ['material_cs3001_1700000000000_2', 'task_networks_assignment'] },
+  { query: 'sliding window congestion control', expectedIds: ['material_cs3001_1700000000000_1'] },
+  { query: 'SQL joins lab', expectedIds: ['task_dbms_lab'] },
+  { query: 'what is third normal form', expectedIds: ['note_normal_forms'] },
+  { query: 'ACID properties of transactions', expectedIds: ['material_cs2004_1700000000000_0'] },
+  { query: 'B+ tree range query', expectedIds: ['material_cs2004_1700000000000_1'] },
+  { query: 'conditions for deadlock', expectedIds: ['note_deadlock'] },
+  { query: 'round robin scheduling quiz', expectedIds: ['task_os_quiz'] },
+  { query: 'LRU page replacement', expectedIds: ['material_cs2008_1700000000000_0'] },
+  {
+    query: 'how to find eigenvalues of a matrix',
+    expectedIds: ['material_ma2001_1700000000000_0', 'task_maths_tutorial'],
+  },
+  { query: 'scrum sprint retrospective', expectedIds: ['material_cs2010_1700000000000_0'] },
+  { query: 'use case diagrams for the group project', expectedIds: ['task_se_report'] },
+  // Paraphrases with little word overlap
+  { query: 'when is my networks exam', expectedIds: ['note_final_exam'] },
+  { query: 'reliable delivery with acks', expectedIds: ['material_cs3001_1700000000000_0'] },
+  { query: 'collect Mahapola money', expectedIds: ['note_scholarship'] },
+  { query: 'give back borrowed textbooks', expectedIds: ['task_library_books'] },
+];
+
+module.exports = { USER_ID, DOCUMENTS, QUERIES };
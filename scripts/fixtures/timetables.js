@@ -0,0 +1,69 @@
+/**
+ * Sample timetables for scripts/check-timetable-parser.js
+ * Each fixture lists the rows the parser must produce, in order. Only the
+ * fields given in `expected` are compared.
+ */
+
+const courses = [
+  { id: 'cs1012', code: 'CS1012', name: 'Programming Fundamentals' },
+  { id: 'it2020', code: 'IT 2020', name: 'Database Systems' },
+  { id: 'ma1013', code: 'MA1013', name: 'Discrete Mathematics' },
+];
+
+module.exports = [
+  {
+    name: 'one class per line',
+    courses,
+    text: `
+Mon 08:00-10:00 CS1012 Lecture Hall A
+Tue 1.00-3.00 IT2020 Lab 3
+Wed 10:00 - 12:00 MA 1013 Tutorial LH 201
+Thu 9am-11am SE3010 Lecture
+`,
+    expected: [
+      { dayOfWeek: 1, startTime: '08:00', endTime: '10:00', courseCode: 'CS1012', courseId: 'cs1012', type: 'lecture', confidence: 'high' },
+      { dayOfWeek: 2, startTime: '13:00', endTime: '15:00', courseCode: 'IT2020', courseId: 'it2020', type: 'lab', location: 'Lab 3' },
+      { dayOfWeek: 3, startTime: '10:00', endTime: '12:00', courseCode: 'MA1013', courseId: 'ma1013', type: 'tutorial', location: 'LH 201' },
+      { dayOfWeek: 4, startTime: '09:00', endTime: '11:00', courseCode: 'SE3010', courseId: undefined, confidence: 'medium' },
+    ],
+  },
+  {
+    name: 'day headings',
+    courses,
+    text: `
+MONDAY
+8.00 - 10.00 IT2020 Lab 3
+2pm-4pm Discrete Mathematics Lecture
+FRIDAY
+14h00 - 16h00 CS 1012 Practical Room 12
+`,
+    expected: [
+      { dayOfWeek: 1, startTime: '08:00', endTime: '10:00', courseCode: 'IT2020', type: 'lab' },
+      { dayOfWeek: 1, startTime: '14:00', endTime: '16:00', courseId: 'ma1013', type: 'lecture', confidence: 'high' },
+      { dayOfWeek: 5, startTime: '14:00', endTime: '16:00', courseCode: 'CS1012', type: 'lab', location: 'Room 12' },
+    ],
+  },
+  {
+    name: 'grid with venue-only cells',
+    courses,
+    text: `
+Time | Monday | Tuesday | Wednesday
+08:00-10:00 | CS1012 | | IT2020 Lab
+10:00-12:00 | LH 201 | MA1013 Tutorial |
+`,
+    expected: [
+      { dayOfWeek: 1, startTime: '08:00', endTime: '10:00', courseCode: 'CS1012' },
+      { dayOfWeek: 3, startTime: '08:00', endTime: '10:00', courseCode: 'IT2020', type: 'lab' },
+      { dayOfWeek: 2, startTime: '10:00', endTime: '12:00', courseCode: 'MA1013', type: 'tutorial' },
+    ],
+  },
+  {
+    name: 'repeated header rows',
+    courses,
+    text: `
+Mon 08:00-10:00 CS1012 Lecture
+Mon 08:00-10:00 CS1012 Lecture
+`,
+    expected: [{ dayOfWeek: 1, startTime: '08:00', endTime: '10:00', courseCode: 'CS1012' }],
+  },
+];
@@ -0,0 +1,293 @@
+/**
+ * Achievement Service
+ * Milestones for study streaks, hours per course, tasks finished before
+ * their due date and burnout-free weeks.
+ *
+ * Unlocks are stored per user so each one is announced once and stays
+ * unlocked even if the underlying numbers later drop (a broken streak, a
+ * deleted session). Evaluation runs after session and task writes.
+ */
+
+import {
+    collection,
+    getDocs,
+    query,
+    Timestamp,
+    where,
+} from 'firebase/firestore';
+import { ACHIEVEMENT_CONFIG } from '../constants/config';
+import { db } from '../firebase/firebaseint';
+import {
+    AchievementDefinition,
+    AchievementProgress,
+    Course,
+    TaskStatus,
+    UnlockedAchievement,
+} from '../types';
+import { getCourses } from './courseServiceFirestore';
+import { t } from './i18n/i18nService';
+import { getStudySessions, getStudyStreaks } from './studyServiceFirestore';
+import { syncedQuery, syncedSet } from './sync/syncService';
+import { getTasks } from './taskServiceFirestore';
+import { getWeeklySummaries } from './weeklySummaryService';
+
+const ACHIEVEMENTS_COLLECTION = 'achievements';
+
+export interface AchievementStats {
+  currentStreak: number;
+  longestStreak: number;
+  courseHours: Record<string, number>;
+  earlyCompletions: number;
+  burnoutFreeWeeks: number;
+}
+
+// Unlocks saved during this app session, in case the synced query
+// hasn't caught up with a write yet
+const savedUnlocks = new Map<string, Set<string>>();
+
+// One evaluation per user at a time, so overlapping writes can't announce twice
+const evaluations = new Map<string, Promise<UnlockedAchievement[]>>();
+
+/**
+ * Every milestone, with course hour milestones for each of the user's courses
+ */
+export const getAchievementDefinitions = (courses: Course[]): AchievementDefinition[] => [
+  ...ACHIEVEMENT_CONFIG.streakDays.map((days) => ({
+    id: `streak_${days}`,
+    category: 'streak' as const,
+    title: t('achievements.definitions.streak.title', { count: days }),
+    description: t('achievements.definitions.streak.description', { count: days }),
+    emoji: '🔥',
+    target: days,
+  })),
+  ...courses.flatMap((course) =>
+    ACHIEVEMENT_CONFIG.courseHours.map((hours) => ({
+      id: `course_hours_${hours}_${course.id}`,
+      category: 'course_hours' as const,
+      title: t('achievements.definitions.courseHours.title', { code: course.code, count: hours }),
+      description: t('achievements.definitions.courseHours.description', { name: course.name, count: hours }),
+      emoji: '📘',
+      target: hours,
+      courseId: course.id,
+    }))
+  ),
+  ...ACHIEVEMENT_CONFIG.earlyCompletions.map((count) => ({
+    id: `early_completion_${count}`,
+    category: 'early_completion' as const,
+    title: t('achievements.definitions.earlyCompletion.title', { count }),
+    description: t('achievements.definitions.earlyCompletion.description', { count }),
+    emoji: '⚡',
+    target: count,
+  })),
+  ...ACHIEVEMENT_CONFIG.burnoutFreeWeeks.map((weeks) => ({
+    id: `burnout_free_${weeks}`,
+    category: 'burnout_free' as const,
+    title: t('achievements.definitions.burnoutFree.title', { count: weeks }),
+    description: t('achievements.definitions.burnoutFree.description', { count: weeks }),
+    emoji: '🌿',
+    target: weeks,
+  })),
+];
+
+/**
+ * Progress value a milestone is measured against
+ */
+const getProgressValue = (definition: AchievementDefinition, stats: AchievementStats): number => {
+  switch (definition.category) {
+    case 'streak':
+      return stats.longestStreak;
+    case 'course_hours':
+      return Math.floor(stats.courseHours[definition.courseId || ''] || 0);
+    case 'early_completion':
+      return stats.earlyCompletions;
+    case 'burnout_free':
+      return stats.burnoutFreeWeeks;
+  }
+};
+
+/**
+ * The numbers every milestone is measured against
+ */
+export const getAchievementStats = async (userId: string): Promise<AchievementStats> => {
+  const [sessions, tasks, summaries] = await Promise.all([
+    getStudySessions(userId),
+    getTasks(userId),
+    getWeeklySummaries(userId, Number.MAX_SAFE_INTEGER),
+  ]);
+
+  const streaks = getStudyStreaks(sessions.map((session) => session.date));
+
+  const courseHours: Record<string, number> = {};
+  sessions.forEach((session) => {
+    courseHours[session.courseId] = (courseHours[session.courseId] || 0) + session.duration / 60;
+  });
+
+  // Tasks completed before completedAt was recorded fall back to their last update
+  const earlyCompletions = tasks.filter(
+    (task) =>
+      task.status === TaskStatus.COMPLETED &&
+      (task.completedAt || task.updatedAt).getTime() <= task.dueDate.getTime()
+  ).length;
+
+  const burnoutFreeWeeks = summaries.filter(
+    (summary) =>
+      summary.totalHours > 0 &&
+      summary.burnoutScore !== null &&
+      summary.burnoutScore < ACHIEVEMENT_CONFIG.burnoutFreeMaxScore
+  ).length;
+
+  return {
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    courseHours,
+    earlyCompletions,
+    burnoutFreeWeeks,
+  };
+};
+
+/**
+ * Stored unlocks, newest first
+ */
+export const getUnlockedAchievements = async (userId: string): Promise<UnlockedAchievement[]> => {
+  const q = query(collection(db, ACHIEVEMENTS_COLLECTION), where('userId', '==', userId));
+  const docs = await syncedQuery(ACHIEVEMENTS_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  });
+
+  return docs
+    .map(({ id, data }) => ({
+      id,
+      userId: data.userId,
+      achievementId: data.achievementId,
+      category: data.category,
+      title: data.title,
+      description: data.description,
+      emoji: data.emoji,
+      unlockedAt: data.unlockedAt.toDate(),
+    }))
+    .sort((a, b) => b.unlockedAt.getTime() - a.unlockedAt.getTime());
+};
+
+/**
+ * Every milestone with its progress, plus unlocks whose milestone no longer
+ * exists (e.g. the course was deleted)
+ */
+export const getAchievementProgress = async (
+  userId: string
+): Promise<{ stats: AchievementStats; progress: AchievementProgress[] }> => {
+  const [stats, courses, unlocked] = await Promise.all([
+    getAchievementStats(userId),
+    getCourses(userId),
+    getUnlockedAchievements(userId),
+  ]);
+
+  const unlockedById = new Map(unlocked.map((achievement) => [achievement.achievementId, achievement]));
+  const definitions = getAchievementDefinitions(courses);
+  const definedIds = new Set(definitions.map((definition) => definition.id));
+
+  const progress: AchievementProgress[] = definitions.map((definition) => {
+    const unlock = unlockedById.get(definition.id);
+    return {
+      definition,
+      current: Math.min(getProgressValue(definition, stats), definition.target),
+      unlocked: !!unlock,
+      unlockedAt: unlock?.unlockedAt,
+    };
+  });
+
+  unlocked
+    .filter((achievement) => !definedIds.has(achievement.achievementId))
+    .forEach((achievement) => {
+      progress.push({
+        definition: {
+          id: achievement.achievementId,
+          category: achievement.category,
+          title: achievement.title,
+          description: achievement.description,
+          emoji: achievement.emoji,
+          target: 1,
+        },
+        current: 1,
+        unlocked: true,
+        unlockedAt: achievement.unlockedAt,
+      });
+    });
+
+  return { stats, progress };
+};
+
+const runEvaluation = async (userId: string): Promise<UnlockedAchievement[]> => {
+  const [stats, courses, unlocked] = await Promise.all([
+    getAchievementStats(userId),
+    getCourses(userId),
+    getUnlockedAchievements(userId),
+  ]);
+
+  const saved = savedUnlocks.get(userId) || new Set<string>();
+  savedUnlocks.set(userId, saved);
+  unlocked.forEach((achievement) => saved.add(achievement.achievementId));
+
+  const now = new Date();
+  const newlyUnlocked: UnlockedAchievement[] = getAchievementDefinitions(courses)
+    .filter((definition) => !saved.has(definition.id) && getProgressValue(definition, stats) >= definition.target)
+    .map((definition) => ({
+      id: `${userId}_${definition.id}`,
+      userId,
+      achievementId: definition.id,
+      category: definition.category,
+      title: definition.title,
+      description: definition.description,
+      emoji: definition.emoji,
+      unlockedAt: now,
+    }));
+
+  await Promise.all(
+    newlyUnlocked.map(async (achievement) => {
+      await syncedSet(ACHIEVEMENTS_COLLECTION, achievement.id, {
+        userId,
+        achievementId: achievement.achievementId,
+        category: achievement.category,
+        title: achievement.title,
+        description: achievement.description,
+        emoji: achievement.emoji,
+        unlockedAt: Timestamp.fromDate(achievement.unlockedAt),
+      });
+      saved.add(achievement.achievementId);
+    })
+  );
+
+  if (newlyUnlocked.length > 0) {
+    console.log('[Achievements] Unlocked', newlyUnlocked.map((achievement) => achievement.achievementId).join(', '));
+  }
+
+  return newlyUnlocked;
+};
+
+/**
+ * Store milestones reached since the last evaluation and return them.
+ * Calls for the same user run one after another.
+ */
+export const evaluateAchievements = (userId: string): Promise<UnlockedAchievement[]> => {
+  const previous = evaluations.get(userId) || Promise.resolve([]);
+  const next = previous.catch(() => []).then(() => runEvaluation(userId));
+
+  evaluations.set(userId, next);
+  next
+    .catch(() => [])
+    .then(() => {
+      if (evaluations.get(userId) === next) {
+        evaluations.delete(userId);
+      }
+    });
+
+  return next;
+};
+
+export default {
+  getAchievementDefinitions,
+  getAchievementStats,
+  getUnlockedAchievements,
+  getAchievementProgress,
+  evaluateAchievements,
+};
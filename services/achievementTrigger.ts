@@ -0,0 +1,34 @@
+/**
+ * Achievement Trigger
+ * Lets the task and study services ask for an achievement check without
+ * importing the notification services, which import them back.
+ *
+ * smartNotificationService registers the checker when it loads; until then
+ * requests are ignored (the check on notification start-up catches up).
+ */
+
+type AchievementChecker = (userId: string) => Promise<void>;
+
+let checker: AchievementChecker | null = null;
+
+/**
+ * Set the function that evaluates and announces achievements
+ */
+export const setAchievementChecker = (check: AchievementChecker | null): void => {
+  checker = check;
+};
+
+/**
+ * Check a user's achievements in the background after progress was made
+ */
+export const requestAchievementCheck = (userId: string): void => {
+  if (!checker) return;
+  checker(userId).catch(err => {
+    console.error('[Achievements] Requested check failed:', err);
+  });
+};
+
+export default {
+  setAchievementChecker,
+  requestAchievementCheck,
+};
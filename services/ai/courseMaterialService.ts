@@ -0,0 +1,325 @@
+/**
+ * Course Material Ingestion
+ * Turns lecture PDFs and markdown/plain-text notes into overlapping chunks
+ * that carry page/section metadata, and indexes them into the RAG store so
+ * answers can cite e.g. "Lecture 5, p. 12".
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File } from 'expo-file-system';
+import { RAG_CONFIG } from '../../constants/config';
+import { t } from '../i18n/i18nService';
+import { extractPdfPages } from '../pdfText';
+import {
+    batchIndexContent,
+    findInVectorStore,
+    getSourceLabel,
+    removeFromVectorStore,
+    VectorizedContent
+} from './ragService';
+
+const MATERIALS_KEY = '@course_materials';
+
+export type CourseMaterialKind = 'pdf' | 'markdown' | 'text';
+
+/**
+ * An ingested file; its chunks live in the vector store under `materialId`
+ */
+export interface CourseMaterial {
+  id: string;
+  userId: string;
+  courseId: string;
+  title: string;
+  fileName: string;
+  kind: CourseMaterialKind;
+  pageCount?: number;
+  chunkCount: number;
+  createdAt: string;
+}
+
+/**
+ * A picked file, as returned in DocumentPicker's `assets`
+ */
+export interface CourseMaterialFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+}
+
+export interface IngestionProgress {
+  indexed: number;
+  total: number;
+}
+
+interface SourceSection {
+  text: string;
+  page?: number;
+  section?: string;
+}
+
+interface MaterialChunk {
+  content: string;
+  page?: number;
+  section?: string;
+}
+
+export const COURSE_MATERIAL_MIME_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/x-markdown',
+];
+
+/**
+ * Work out the file kind from its name, falling back to the MIME type
+ */
+export function getCourseMaterialKind(file: Pick<CourseMaterialFile, 'name' | 'mimeType'>): CourseMaterialKind | null {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'pdf' || file.mimeType === 'application/pdf') return 'pdf';
+  if (extension === 'md' || extension === 'markdown' || file.mimeType?.includes('markdown')) return 'markdown';
+  if (extension === 'txt' || file.mimeType === 'text/plain') return 'text';
+  return null;
+}
+
+const normalizeWhitespace = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Split text into chunks of at most `chunkSize` characters, each starting
+ * `overlap` characters before the previous one ended. Cuts prefer paragraph,
+ * then sentence, then word boundaries.
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number = RAG_CONFIG.chunkSize,
+  overlap: number = RAG_CONFIG.chunkOverlap
+): string[] {
+  const clean = normalizeWhitespace(text);
+  if (clean.length <= chunkSize) return clean ? [clean] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < clean.length) {
+    let end = Math.min(start + chunkSize, clean.length);
+
+    if (end < clean.length) {
+      const window = clean.slice(start, end);
+      const minCut = Math.floor(chunkSize / 2);
+      const paragraph = window.lastIndexOf('\n\n');
+      const sentence = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'), window.lastIndexOf('? '));
+      const word = Math.max(window.lastIndexOf(' '), window.lastIndexOf('\n'));
+
+      if (paragraph > minCut) end = start + paragraph;
+      else if (sentence > minCut) end = start + sentence + 1;
+      else if (word > minCut) end = start + word;
+    }
+
+    const chunk = clean.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= clean.length) break;
+
+    // Begin the overlap at a sentence (or at least word) start
+    let next = end - overlap;
+    const overlapText = clean.slice(next, end);
+    const sentenceStart = overlapText.search(/[.?!]\s/);
+    const wordStart = overlapText.search(/\s/);
+    if (sentenceStart >= 0) next += sentenceStart + 2;
+    else if (wordStart >= 0) next += wordStart + 1;
+    start = Math.max(next, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Split markdown into sections at headings; text before the first heading
+ * has no section
+ */
+export function splitMarkdownSections(markdown: string): SourceSection[] {
+  const sections: SourceSection[] = [];
+  let current: SourceSection = { text: '' };
+
+  markdown.split(/\r?\n/).forEach((line) => {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      if (current.text.trim()) sections.push(current);
+      current = { text: `${heading[1]}\n`, section: heading[1] };
+    } else {
+      current.text += `${line}\n`;
+    }
+  });
+
+  if (current.text.trim()) sections.push(current);
+  return sections;
+}
+
+const readSections = async (file: CourseMaterialFile, kind: CourseMaterialKind): Promise<SourceSection[]> => {
+  if (kind === 'pdf') {
+    // Pages the page tree could not place carry no page number rather than a guessed one
+    const pages = await extractPdfPages(file.uri);
+    return pages.map(({ text, page }) => ({ text, page }));
+  }
+
+  const text = await new File(file.uri).text();
+  return kind === 'markdown' ? splitMarkdownSections(text) : [{ text }];
+};
+
+/**
+ * Chunk each page/section separately so every chunk maps to one citation
+ */
+export function buildMaterialChunks(sections: SourceSection[]): MaterialChunk[] {
+  const chunks: MaterialChunk[] = [];
+
+  sections.forEach(({ text, page, section }) => {
+    chunkText(text)
+      .filter(content => content.length >= RAG_CONFIG.minChunkLength)
+      .forEach(content => chunks.push({ content, page, section }));
+  });
+
+  return chunks;
+}
+
+const titleFromFileName = (fileName: string): string =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[_]+/g, ' ').trim() || fileName;
+
+const loadMaterials = async (): Promise<CourseMaterial[]> => {
+  const data = await AsyncStorage.getItem(MATERIALS_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const saveMaterials = (materials: CourseMaterial[]): Promise<void> =>
+  AsyncStorage.setItem(MATERIALS_KEY, JSON.stringify(materials));
+
+const removeMaterialChunks = (materialId: string, userId?: string): Promise<number> =>
+  removeFromVectorStore(item => item.metadata.materialId === materialId, userId);
+
+/**
+ * Extract, chunk and index a picked file for a course. Re-adding a file with
+ * the same name replaces the earlier copy.
+ */
+export async function ingestCourseMaterial(
+  userId: string,
+  courseId: string,
+  file: CourseMaterialFile,
+  options: {
+    title?: string;
+    onProgress?: (progress: IngestionProgress) => void;
+  } = {}
+): Promise<CourseMaterial> {
+  const kind = getCourseMaterialKind(file);
+  if (!kind) {
+    throw new Error(t('courseMaterials.errors.unsupported'));
+  }
+
+  const sections = await readSections(file, kind);
+  const chunks = buildMaterialChunks(sections);
+  if (chunks.length === 0) {
+    throw new Error(t(kind === 'pdf' ? 'courseMaterials.errors.noPdfText' : 'courseMaterials.errors.noText'));
+  }
+
+  const material: CourseMaterial = {
+    id: `${courseId}_${Date.now()}`,
+    userId,
+    courseId,
+    title: options.title?.trim() || titleFromFileName(file.name),
+    fileName: file.name,
+    kind,
+    pageCount: kind === 'pdf' && sections.every(s => s.page !== undefined) ? sections.length : undefined,
+    chunkCount: chunks.length,
+    createdAt: new Date().toISOString(),
+  };
+
+  const type: VectorizedContent['type'] = kind === 'pdf' ? 'course_material' : 'note';
+  const items = chunks.map((chunk, index) => {
+    const metadata: VectorizedContent['metadata'] = {
+      userId,
+      courseId,
+      title: material.title,
+      date: material.createdAt,
+      materialId: material.id,
+      fileName: file.name,
+      page: chunk.page,
+      section: chunk.section,
+      chunkIndex: index,
+      chunkCount: chunks.length,
+    };
+    return {
+      id: `material_${material.id}_${index}`,
+      content: chunk.content,
+      type,
+      metadata: { ...metadata, sourceLabel: getSourceLabel({ metadata }) },
+    };
+  });
+
+  try {
+    options.onProgress?.({ indexed: 0, total: items.length });
+    for (let i = 0; i < items.length; i += RAG_CONFIG.indexBatchSize) {
+      await batchIndexContent(items.slice(i, i + RAG_CONFIG.indexBatchSize));
+      options.onProgress?.({ indexed: Math.min(i + RAG_CONFIG.indexBatchSize, items.length), total: items.length });
+    }
+  } catch (error) {
+    // Don't leave half a file in the store
+    await removeMaterialChunks(material.id, userId).catch(() => undefined);
+    throw error;
+  }
+
+  const materials = await loadMaterials();
+  const replaced = materials.filter(
+    m => m.userId === userId && m.courseId === courseId && m.fileName === file.name
+  );
+  for (const old of replaced) {
+    await removeMaterialChunks(old.id, userId);
+  }
+  await saveMaterials([...materials.filter(m => !replaced.includes(m)), material]);
+
+  console.log(`[CourseMaterials] Indexed ${items.length} chunks from ${file.name}`);
+  return material;
+}
+
+/**
+ * A user's ingested materials, newest first
+ */
+export async function getCourseMaterials(userId: string, courseId?: string): Promise<CourseMaterial[]> {
+  const materials = await loadMaterials();
+  return materials
+    .filter(m => m.userId === userId && (!courseId || m.courseId === courseId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * A material's indexed chunks in reading order, with their citations
+ */
+export async function getCourseMaterialChunks(
+  material: CourseMaterial
+): Promise<{ content: string; sourceLabel: string }[]> {
+  const items = await findInVectorStore(material.userId, item => item.metadata.materialId === material.id);
+  return items
+    .sort((a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex)
+    .map(item => ({ content: item.content, sourceLabel: item.metadata.sourceLabel || getSourceLabel(item) }));
+}
+
+/**
+ * Remove a material and all of its indexed chunks
+ */
+export async function deleteCourseMaterial(materialId: string): Promise<void> {
+  const materials = await loadMaterials();
+  await removeMaterialChunks(materialId, materials.find(m => m.id === materialId)?.userId);
+  await saveMaterials(materials.filter(m => m.id !== materialId));
+}
+
+export default {
+  getCourseMaterialKind,
+  chunkText,
+  splitMarkdownSections,
+  buildMaterialChunks,
+  ingestCourseMaterial,
+  getCourseMaterials,
+  getCourseMaterialChunks,
+  deleteCourseMaterial,
+};
@@ -0,0 +1,286 @@
+/**
+ * Embedding Providers
+ * One embedding interface over Hugging Face, any OpenAI-compatible endpoint
+ * and an on-device ONNX model.
+ *
+ * Every provider tags its vectors with a model tag. Vectors with different
+ * tags live in different embedding spaces and must never be compared, so the
+ * vector store keeps them apart and RAG search only looks at vectors tagged
+ * like the active provider.
+ *
+ * The active provider comes from EMBEDDING_CONFIG.defaultProvider and can be
+ * switched at runtime with setEmbeddingProvider(); the choice is persisted.
+ * When the chosen provider isn't configured (no API key) it stays active and
+ * its embed() calls fail; the on-device model, which downloads ~23 MB on first
+ * use, only runs when it is chosen explicitly.
+ */
+
+import { HfInference } from '@huggingface/inference';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { EMBEDDING_CONFIG } from '../../constants/config';
+import { WordPieceTokenizer } from './wordPiece';
+
+export type EmbeddingProviderId = keyof typeof EMBEDDING_CONFIG.providers;
+
+/** Settings each provider factory takes */
+export type EmbeddingProviderSettingsMap = typeof EMBEDDING_CONFIG.providers;
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  /** Identifies the embedding space, e.g. "sentence-transformers/all-MiniLM-L6-v2#v1" */
+  modelTag: string;
+  isConfigured: () => boolean;
+  /** Unit-length vectors, one per text */
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+const SETTINGS_KEY = '@embedding_provider';
+const MODEL_DIRECTORY = 'embedding-models';
+
+export const embeddingModelTag = (model: string, version: number): string => `${model}#v${version}`;
+
+const normalize = (vector: number[]): number[] => {
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return magnitude > 0 ? vector.map(value => value / magnitude) : vector;
+};
+
+const notConfiguredMessage = (reason: string): string =>
+  `${reason}. Configure it, or switch to the on-device model with setEmbeddingProvider('local') (~23 MB download).`;
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error(`Embedding request timed out after ${timeoutMs}ms`)), timeoutMs)
+    ),
+  ]);
+
+/**
+ * Hugging Face Inference API (feature extraction)
+ */
+export const createHuggingFaceEmbeddingProvider = (
+  settings: EmbeddingProviderSettingsMap['huggingface']
+): EmbeddingProvider => {
+  const hf = settings.apiKey ? new HfInference(settings.apiKey) : null;
+
+  return {
+    id: 'huggingface',
+    modelTag: embeddingModelTag(settings.model, settings.version),
+    isConfigured: () => Boolean(hf),
+    embed: async (texts) => {
+      if (!hf) throw new Error(notConfiguredMessage('Hugging Face API key is not configured'));
+      const result = await withTimeout(
+        hf.featureExtraction({ model: settings.model, inputs: texts }),
+        settings.timeoutMs
+      );
+
+      // Sentence-transformers models return one pooled vector per input
+      const rows = result as unknown as number[][];
+      if (!Array.isArray(rows) || rows.length !== texts.length || !Array.isArray(rows[0])) {
+        throw new Error('Unexpected feature extraction response');
+      }
+      return rows.map(row => normalize(row as number[]));
+    },
+  };
+};
+
+/**
+ * Any server implementing the OpenAI /embeddings API
+ */
+export const createOpenAIEmbeddingProvider = (
+  settings: EmbeddingProviderSettingsMap['openai']
+): EmbeddingProvider => ({
+  id: 'openai',
+  modelTag: embeddingModelTag(settings.model, settings.version),
+  isConfigured: () => Boolean(settings.baseUrl),
+  embed: async (texts) => {
+    if (!settings.baseUrl) throw new Error(notConfiguredMessage('Embedding endpoint is not configured'));
+    const response = await withTimeout(
+      fetch(`${settings.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+        },
+        body: JSON.stringify({ model: settings.model, input: texts }),
+      }),
+      settings.timeoutMs
+    );
+    if (!response.ok) {
+      throw new Error(`Embedding server responded ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.data as { index: number; embedding: number[] }[])
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalize(item.embedding));
+  },
+});
+
+/**
+ * On-device ONNX model. The model and vocabulary are downloaded into the
+ * app's documents on first use; the ONNX runtime is loaded lazily so builds
+ * without the native module (Expo Go) only fail when this provider is used.
+ */
+export const createLocalEmbeddingProvider = (
+  settings: EmbeddingProviderSettingsMap['local']
+): EmbeddingProvider => {
+  let loading: Promise<{ session: any; ort: any; tokenizer: WordPieceTokenizer }> | null = null;
+
+  const download = async (url: string, name: string): Promise<File> => {
+    const directory = new Directory(Paths.document, MODEL_DIRECTORY);
+    if (!directory.exists) directory.create({ idempotent: true });
+    const file = new File(directory, name);
+    if (!file.exists) {
+      console.log(`[Embeddings] Downloading ${name}...`);
+      await File.downloadFileAsync(url, file);
+    }
+    return file;
+  };
+
+  const load = () => {
+    if (!loading) {
+      loading = (async () => {
+        const prefix = settings.model.replace(/[^a-z0-9]+/gi, '_');
+        const [modelFile, vocabFile] = await Promise.all([
+          download(settings.modelUrl, `${prefix}.onnx`),
+          download(settings.vocabUrl, `${prefix}_vocab.txt`),
+        ]);
+        const ort = await import('onnxruntime-react-native');
+        const session = await ort.InferenceSession.create(modelFile.uri);
+        const tokenizer = new WordPieceTokenizer(await vocabFile.text());
+        console.log(`[Embeddings] Loaded on-device model ${settings.model}`);
+        return { session, ort, tokenizer };
+      })().catch((error) => {
+        loading = null; // retry the download next time
+        throw error;
+      });
+    }
+    return loading;
+  };
+
+  return {
+    id: 'local',
+    modelTag: embeddingModelTag(settings.model, settings.version),
+    isConfigured: () => true,
+    embed: async (texts) => {
+      const { session, ort, tokenizer } = await withTimeout(load(), settings.timeoutMs);
+      const embeddings: number[][] = [];
+
+      for (const text of texts) {
+        const { inputIds, attentionMask } = tokenizer.encode(text, settings.maxTokens);
+        const dims = [1, inputIds.length];
+        const toTensor = (values: number[]) =>
+          new ort.Tensor('int64', BigInt64Array.from(values.map(value => BigInt(value))), dims);
+
+        const feeds: Record<string, any> = {
+          input_ids: toTensor(inputIds),
+          attention_mask: toTensor(attentionMask),
+        };
+        if (session.inputNames.includes('token_type_ids')) {
+          feeds.token_type_ids = toTensor(inputIds.map(() => 0));
+        }
+
+        const output = await session.run(feeds);
+        const hidden = output.last_hidden_state || output[session.outputNames[0]];
+        const [, tokens, size] = hidden.dims as number[];
+        const data = hidden.data as Float32Array;
+
+        // Mean pooling over the (unpadded) tokens, as sentence-transformers does
+        const pooled = new Array(size).fill(0);
+        for (let t = 0; t < tokens; t++) {
+          for (let i = 0; i < size; i++) pooled[i] += data[t * size + i] / tokens;
+        }
+        embeddings.push(normalize(pooled));
+      }
+
+      return embeddings;
+    },
+  };
+};
+
+const PROVIDER_FACTORIES: {
+  [Id in EmbeddingProviderId]: (settings: EmbeddingProviderSettingsMap[Id]) => EmbeddingProvider;
+} = {
+  huggingface: createHuggingFaceEmbeddingProvider,
+  openai: createOpenAIEmbeddingProvider,
+  local: createLocalEmbeddingProvider,
+};
+
+const isProviderId = (id: string): id is EmbeddingProviderId => id in PROVIDER_FACTORIES;
+
+let providerId: EmbeddingProviderId = isProviderId(EMBEDDING_CONFIG.defaultProvider)
+  ? EMBEDDING_CONFIG.defaultProvider
+  : 'huggingface';
+let activeProvider: EmbeddingProvider | null = null;
+let settingsLoaded: Promise<void> | null = null;
+
+const buildProvider = <Id extends EmbeddingProviderId>(id: Id): EmbeddingProvider => {
+  const settings: EmbeddingProviderSettingsMap[Id] = EMBEDDING_CONFIG.providers[id];
+  const provider = PROVIDER_FACTORIES[id](settings);
+  if (!provider.isConfigured()) {
+    console.warn(`[Embeddings] ${id} is not configured; indexing and search will fail until it is`);
+  }
+  return provider;
+};
+
+/**
+ * Restore the provider chosen at runtime on a previous launch
+ */
+export const loadEmbeddingSettings = (): Promise<void> => {
+  if (!settingsLoaded) {
+    settingsLoaded = (async () => {
+      try {
+        const saved = await AsyncStorage.getItem(SETTINGS_KEY);
+        if (saved && isProviderId(saved)) {
+          providerId = saved;
+          activeProvider = null;
+        }
+      } catch (error) {
+        console.error('[Embeddings] Failed to load provider settings:', error);
+      }
+    })();
+  }
+  return settingsLoaded;
+};
+
+/**
+ * The provider new and query embeddings come from
+ */
+export const getEmbeddingProvider = async (): Promise<EmbeddingProvider> => {
+  await loadEmbeddingSettings();
+  if (!activeProvider) {
+    activeProvider = buildProvider(providerId);
+    console.log(`[Embeddings] Using ${activeProvider.id} (${activeProvider.modelTag})`);
+  }
+  return activeProvider;
+};
+
+/**
+ * Switch provider. Vectors from the previous model stop matching searches
+ * and are re-embedded in the background on the next search.
+ */
+export const setEmbeddingProvider = async (id: EmbeddingProviderId): Promise<EmbeddingProvider> => {
+  await loadEmbeddingSettings();
+  providerId = id;
+  activeProvider = buildProvider(id);
+
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, id);
+  } catch (error) {
+    console.error('[Embeddings] Failed to save provider settings:', error);
+  }
+
+  console.log(`[Embeddings] Switched to ${activeProvider.id} (${activeProvider.modelTag})`);
+  return activeProvider;
+};
+
+export default {
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+  loadEmbeddingSettings,
+  createHuggingFaceEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  createLocalEmbeddingProvider,
+};
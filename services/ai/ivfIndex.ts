@@ -0,0 +1,229 @@
+/**
+ * IVF Index
+ * Approximate nearest-neighbour search over unit-length vectors.
+ *
+ * Vectors are bucketed under their nearest k-means centroid (an "inverted
+ * file"); a query ranks the centroids and only scans the closest buckets.
+ * Small indexes are scanned exactly. Training is deferred to the first search
+ * after the index has grown enough, so bulk inserts stay O(1) per vector.
+ */
+
+export interface IvfIndexOptions {
+  exactSearchLimit?: number; // scan everything below this size
+  probes?: number; // buckets scanned per query
+  retrainGrowth?: number; // retrain once the index is this many times its trained size
+  maxTrainSample?: number;
+  iterations?: number;
+}
+
+export interface IvfMatch {
+  id: string;
+  score: number;
+}
+
+export const dot = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const normalize = (vector: Float32Array): Float32Array => {
+  const magnitude = Math.sqrt(dot(vector, vector));
+  if (magnitude > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= magnitude;
+  }
+  return vector;
+};
+
+const sample = <T>(items: T[], size: number): T[] => {
+  if (items.length <= size) return items.slice();
+  const result = items.slice();
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(Math.random() * (result.length - i));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result.slice(0, size);
+};
+
+/**
+ * Spherical k-means: centroids stay unit length so dot product = cosine
+ */
+export function trainCentroids(vectors: Float32Array[], k: number, iterations: number = 8): Float32Array[] {
+  if (vectors.length === 0 || k <= 0) return [];
+  const dimension = vectors[0].length;
+  let centroids: Float32Array[] = sample(vectors, Math.min(k, vectors.length)).map(v => Float32Array.from(v));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centroids.map(() => new Float32Array(dimension));
+    const counts = new Array(centroids.length).fill(0);
+
+    vectors.forEach((vector) => {
+      const nearest = nearestCentroid(centroids, vector);
+      const sum = sums[nearest];
+      for (let i = 0; i < dimension; i++) sum[i] += vector[i];
+      counts[nearest]++;
+    });
+
+    // Re-seed empty clusters from random vectors
+    centroids = sums.map((sum, i) =>
+      counts[i] > 0 ? normalize(sum) : Float32Array.from(vectors[Math.floor(Math.random() * vectors.length)])
+    );
+  }
+
+  return centroids;
+}
+
+export function nearestCentroid(centroids: Float32Array[], vector: ArrayLike<number>): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let i = 0; i < centroids.length; i++) {
+    const score = dot(centroids[i], vector);
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return best;
+}
+
+export class IvfIndex {
+  private exactSearchLimit: number;
+  private probes: number;
+  private retrainGrowth: number;
+  private maxTrainSample: number;
+  private iterations: number;
+
+  private vectors = new Map<string, Float32Array>();
+  private assignments = new Map<string, number>(); // id -> bucket
+  private buckets: Set<string>[] = [];
+  private centroids: Float32Array[] = [];
+  private trainedSize = 0;
+  private version = 0;
+
+  constructor(options: IvfIndexOptions = {}) {
+    this.exactSearchLimit = options.exactSearchLimit ?? 1000;
+    this.probes = options.probes ?? 8;
+    this.retrainGrowth = options.retrainGrowth ?? 2;
+    this.maxTrainSample = options.maxTrainSample ?? 4000;
+    this.iterations = options.iterations ?? 8;
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  /**
+   * Bumped on every (re)training, when all bucket assignments change
+   */
+  get revision(): number {
+    return this.version;
+  }
+
+  get trainedAt(): number {
+    return this.trainedSize;
+  }
+
+  get(id: string): Float32Array | undefined {
+    return this.vectors.get(id);
+  }
+
+  getBucket(id: string): number | undefined {
+    return this.assignments.get(id);
+  }
+
+  getCentroids(): Float32Array[] {
+    return this.centroids;
+  }
+
+  /**
+   * Restore persisted centroids; vectors added afterwards with a stored bucket
+   * skip re-assignment
+   */
+  restore(centroids: Float32Array[], trainedSize: number): void {
+    this.centroids = centroids;
+    this.buckets = centroids.map(() => new Set<string>());
+    this.trainedSize = trainedSize;
+  }
+
+  add(id: string, vector: Float32Array, bucket?: number): void {
+    this.remove(id);
+    this.vectors.set(id, vector);
+    if (this.centroids.length === 0) return;
+
+    const assigned = bucket !== undefined && bucket >= 0 && bucket < this.centroids.length
+      ? bucket
+      : nearestCentroid(this.centroids, vector);
+    this.assignments.set(id, assigned);
+    this.buckets[assigned].add(id);
+  }
+
+  remove(id: string): void {
+    if (!this.vectors.delete(id)) return;
+    const bucket = this.assignments.get(id);
+    if (bucket !== undefined) {
+      this.buckets[bucket]?.delete(id);
+      this.assignments.delete(id);
+    }
+  }
+
+  /**
+   * Top matches for a unit-length query. `accept` filters candidates before
+   * scoring; buckets keep being scanned past `probes` until `limit` accepted
+   * candidates are found.
+   */
+  search(query: ArrayLike<number>, limit: number, accept?: (id: string) => boolean): IvfMatch[] {
+    this.trainIfNeeded();
+
+    const matches: IvfMatch[] = [];
+    const consider = (id: string) => {
+      if (accept && !accept(id)) return;
+      matches.push({ id, score: dot(query, this.vectors.get(id)!) });
+    };
+
+    if (this.centroids.length === 0) {
+      this.vectors.forEach((_, id) => consider(id));
+    } else {
+      const order = this.centroids
+        .map((centroid, bucket) => ({ bucket, score: dot(query, centroid) }))
+        .sort((a, b) => b.score - a.score);
+
+      for (let i = 0; i < order.length; i++) {
+        if (i >= this.probes && matches.length >= limit) break;
+        this.buckets[order[i].bucket].forEach(consider);
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private trainIfNeeded(): void {
+    const size = this.vectors.size;
+    if (size < this.exactSearchLimit) {
+      if (this.centroids.length > 0) this.resetTraining();
+      return;
+    }
+    if (this.centroids.length > 0 && size < this.trainedSize * this.retrainGrowth) return;
+
+    const vectors = Array.from(this.vectors.values());
+    const k = Math.min(256, Math.max(8, Math.round(Math.sqrt(size))));
+    this.centroids = trainCentroids(sample(vectors, this.maxTrainSample), k, this.iterations);
+    this.buckets = this.centroids.map(() => new Set<string>());
+    this.assignments.clear();
+    this.vectors.forEach((vector, id) => {
+      const bucket = nearestCentroid(this.centroids, vector);
+      this.assignments.set(id, bucket);
+      this.buckets[bucket].add(id);
+    });
+    this.trainedSize = size;
+    this.version++;
+  }
+
+  private resetTraining(): void {
+    this.centroids = [];
+    this.buckets = [];
+    this.assignments.clear();
+    this.trainedSize = 0;
+    this.version++;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Keyword Index
+ * Inverted index with BM25 scoring for the RAG keyword pass.
+ *
+ * Text is lower-cased, split on anything that isn't a letter or digit,
+ * stripped of stopwords and stemmed, so "Assignments" matches "assignment"
+ * and "the" matches nothing. Scores use corpus statistics that can be summed
+ * over several indexes (one per vector store shard), so results from
+ * different shards rank on the same scale.
+ */
+
+export interface Bm25Params {
+  k1: number; // term frequency saturation
+  b: number; // document length normalization
+}
+
+export interface KeywordMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * Document counts and frequencies a BM25 score is computed against
+ */
+export interface CorpusStats {
+  documentCount: number;
+  averageLength: number;
+  documentFrequency: (term: string) => number;
+}
+
+const DEFAULT_PARAMS: Bm25Params = { k1: 1.2, b: 0.75 };
+
+export const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own',
+  'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up',
+  'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+  'would', 'you', 'your', 'yours', 'yourself',
+]);
+
+const VOWEL = /[aeiouy]/;
+
+// Longest suffixes first; each needs a stem of at least `min` characters left
+const SUFFIXES: { suffix: string; replacement: string; min: number }[] = [
+  { suffix: 'ations', replacement: 'ate', min: 3 },
+  { suffix: 'ation', replacement: 'ate', min: 3 },
+  { suffix: 'ments', replacement: '', min: 4 },
+  { suffix: 'ment', replacement: '', min: 4 },
+  { suffix: 'ness', replacement: '', min: 3 },
+  { suffix: 'ings', replacement: '', min: 3 },
+  { suffix: 'ing', replacement: '', min: 3 },
+  { suffix: 'ies', replacement: 'y', min: 2 },
+  { suffix: 'ied', replacement: 'y', min: 2 },
+  { suffix: 'ers', replacement: '', min: 3 },
+  { suffix: 'er', replacement: '', min: 3 },
+  { suffix: 'ed', replacement: '', min: 3 },
+  { suffix: 'ly', replacement: '', min: 3 },
+  { suffix: 'es', replacement: '', min: 3 },
+  { suffix: 's', replacement: '', min: 3 },
+];
+
+/**
+ * Light suffix-stripping stemmer (a cut-down Porter). It only needs to map
+ * inflections of a word to the same key, not produce real words:
+ * "evaluate", "evaluated" and "evaluation" all become "evaluat".
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (!word.endsWith('ss')) {
+    for (const { suffix, replacement, min } of SUFFIXES) {
+      if (!word.endsWith(suffix)) continue;
+      const base = word.slice(0, -suffix.length);
+      if (base.length < min || !VOWEL.test(base)) continue;
+      // "es" only marks a plural after s, x, z, ch and sh ("boxes", "classes")
+      if (suffix === 'es' && !/(s|x|z|ch|sh)$/.test(base)) continue;
+
+      result = base + replacement;
+      // "planned" -> "plann" -> "plan"
+      if (!replacement && /([^aeiouslz])\1$/.test(result)) result = result.slice(0, -1);
+      break;
+    }
+  }
+
+  // "lecture" and "lectured" meet at "lectur"
+  return result.length > 4 && result.endsWith('e') ? result.slice(0, -1) : result;
+}
+
+/**
+ * Lower-case, split, drop stopwords and stem
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+export class KeywordIndex {
+  private postings = new Map<string, Map<string, number>>(); // term -> id -> frequency
+  private lengths = new Map<string, number>();
+  private terms = new Map<string, string[]>(); // id -> distinct terms, for removal
+  private totalLength = 0;
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  get stats(): CorpusStats {
+    return {
+      documentCount: this.size,
+      averageLength: this.size > 0 ? this.totalLength / this.size : 0,
+      documentFrequency: term => this.documentFrequency(term),
+    };
+  }
+
+  documentFrequency(term: string): number {
+    return this.postings.get(term)?.size || 0;
+  }
+
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+
+    frequencies.forEach((frequency, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(id, frequency);
+    });
+    this.terms.set(id, Array.from(frequencies.keys()));
+    this.lengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const length = this.lengths.get(id);
+    if (length === undefined) return;
+
+    this.terms.get(id)!.forEach((term) => {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    });
+    this.terms.delete(id);
+    this.lengths.delete(id);
+    this.totalLength -= length;
+  }
+
+  /**
+   * BM25 top matches for already-tokenized query terms. Pass `corpus` to
+   * score against statistics shared with other indexes.
+   */
+  search(
+    queryTerms: string[],
+    limit: number,
+    options: {
+      accept?: (id: string) => boolean;
+      corpus?: CorpusStats;
+      params?: Bm25Params;
+    } = {}
+  ): KeywordMatch[] {
+    const corpus = options.corpus || this.stats;
+    const { k1, b } = options.params || DEFAULT_PARAMS;
+    if (corpus.documentCount === 0) return [];
+
+    const scores = new Map<string, number>();
+    new Set(queryTerms).forEach((term) => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+
+      const df = corpus.documentFrequency(term);
+      const idf = Math.log(1 + (corpus.documentCount - df + 0.5) / (df + 0.5));
+
+      posting.forEach((frequency, id) => {
+        if (options.accept && !options.accept(id)) return;
+        const lengthRatio = corpus.averageLength > 0 ? this.lengths.get(id)! / corpus.averageLength : 1;
+        const termScore = idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * lengthRatio));
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      });
+    });
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((x, y) => y.score - x.score)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Corpus statistics over several indexes, as if they were one
+ */
+export function combineCorpusStats(indexes: KeywordIndex[]): CorpusStats {
+  const documentCount = indexes.reduce((sum, index) => sum + index.size, 0);
+  const totalLength = indexes.reduce((sum, index) => sum + index.stats.averageLength * index.size, 0);
+  return {
+    documentCount,
+    averageLength: documentCount > 0 ? totalLength / documentCount : 0,
+    documentFrequency: term => indexes.reduce((sum, index) => sum + index.documentFrequency(term), 0),
+  };
+}
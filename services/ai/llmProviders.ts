@@ -0,0 +1,563 @@
+/**
+ * LLM Providers
+ * One chat interface over Hugging Face, any OpenAI-compatible endpoint and a
+ * local Ollama-style server.
+ *
+ * The active provider comes from LLM_CONFIG.defaultProvider and can be switched
+ * (and its model, endpoint or timeout overridden) at runtime with
+ * setLLMProvider(). The runtime choice is persisted across launches; API keys
+ * passed at runtime are kept in memory only and never written to storage.
+ */
+
+import { HfInference } from '@huggingface/inference';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LLM_CONFIG } from '../../constants/config';
+
+export type LLMProviderId = keyof typeof LLM_CONFIG.providers;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProviderSettings {
+  baseUrl?: string;
+  apiKey?: string;
+  model: string;
+  fallbackModels: string[];
+  timeoutMs: number;
+}
+
+export interface HuggingFaceProviderSettings extends LLMProviderSettings {
+  summarizationModel?: string;
+  summarizationFallbackModels?: string[];
+}
+
+/** Settings each provider factory takes */
+export interface LLMProviderSettingsMap {
+  huggingface: HuggingFaceProviderSettings;
+  openai: LLMProviderSettings;
+  ollama: LLMProviderSettings;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  settings: LLMProviderSettings;
+  isConfigured: () => boolean;
+  /** Primary model followed by fallbacks, in the order to try them */
+  getModels: () => string[];
+  chat: (messages: ChatMessage[], options?: ChatOptions) => Promise<string>;
+  /** Like chat, calling onDelta with each new piece of text; resolves with everything received */
+  chatStream: (messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatOptions) => Promise<string>;
+  /** Dedicated summarization models, when the backend has them */
+  summarize?: (text: string, maxLength: number, model?: string) => Promise<string>;
+  getSummarizationModels?: () => string[];
+}
+
+const SETTINGS_KEY = '@llm_provider_settings';
+
+/**
+ * fetch that gives up after `timeoutMs`, or when the caller's signal aborts
+ */
+const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error: any) {
+    if (error?.name === 'AbortError' && timedOut) {
+      throw new Error(`LLM request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const postJson = async (
+  url: string,
+  body: unknown,
+  options: { timeoutMs: number; apiKey?: string; signal?: AbortSignal }
+): Promise<any> => {
+  const response = await fetchWithTimeout(
+    url,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+    },
+    options.timeoutMs,
+    options.signal
+  );
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`LLM server responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  return response.json();
+};
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error(`LLM request timed out after ${timeoutMs}ms`)), timeoutMs)
+    ),
+  ]);
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+export class LLMAbortError extends Error {
+  constructor() {
+    super('LLM request was cancelled');
+    this.name = 'AbortError';
+  }
+}
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+/**
+ * POST and read a line-delimited streaming response as it arrives.
+ * Uses XMLHttpRequest because React Native's fetch has no streaming body.
+ */
+const postStream = (
+  url: string,
+  body: unknown,
+  onLine: (line: string) => void,
+  options: { timeoutMs: number; apiKey?: string; signal?: AbortSignal }
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new LLMAbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let buffer = '';
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+
+    const drain = (final: boolean) => {
+      buffer += xhr.responseText.slice(offset);
+      offset = xhr.responseText.length;
+      const lines = buffer.split('\n');
+      buffer = final ? '' : lines.pop() || '';
+      lines.forEach((line) => {
+        if (line.trim()) onLine(line.trim());
+      });
+    };
+
+    const onAbort = () => {
+      xhr.abort();
+      finish(new LLMAbortError());
+    };
+
+    // No data at all for timeoutMs counts as a timeout; a steady stream can run longer
+    let timer = setTimeout(() => onTimeout(), options.timeoutMs);
+    const onTimeout = () => {
+      xhr.abort();
+      finish(new Error(`LLM request timed out after ${options.timeoutMs}ms`));
+    };
+
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    if (options.apiKey) xhr.setRequestHeader('Authorization', `Bearer ${options.apiKey}`);
+
+    xhr.onprogress = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onTimeout(), options.timeoutMs);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        try {
+          drain(false);
+        } catch (error: any) {
+          xhr.abort();
+          finish(error);
+        }
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        finish(new Error(`LLM server responded ${xhr.status}: ${xhr.responseText.slice(0, 200)}`));
+        return;
+      }
+      try {
+        drain(true);
+        finish();
+      } catch (error: any) {
+        finish(error);
+      }
+    };
+    xhr.onerror = () => finish(new Error('Network request to LLM server failed'));
+
+    options.signal?.addEventListener('abort', onAbort);
+    xhr.send(JSON.stringify(body));
+  });
+
+// ========================================
+// PROVIDERS
+// ========================================
+
+/**
+ * Hugging Face Inference API
+ */
+export const createHuggingFaceProvider = (settings: HuggingFaceProviderSettings): LLMProvider => {
+  const hf = settings.apiKey ? new HfInference(settings.apiKey) : null;
+
+  return {
+    id: 'huggingface',
+    settings,
+    isConfigured: () => Boolean(hf),
+    getModels: () => [settings.model, ...settings.fallbackModels],
+    chat: async (messages, options = {}) => {
+      if (!hf) throw new Error('Hugging Face API key is not configured');
+      const response = await withTimeout(
+        hf.chatCompletion(
+          {
+            model: options.model || settings.model,
+            messages: messages.map((message) => ({ ...message })),
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+          },
+          { signal: options.signal }
+        ),
+        settings.timeoutMs
+      );
+      return response.choices[0]?.message?.content || '';
+    },
+    chatStream: async (messages, onDelta, options = {}) => {
+      if (!hf) throw new Error('Hugging Face API key is not configured');
+      if (options.signal?.aborted) throw new LLMAbortError();
+
+      // Same idle timeout as postStream: no chunk for timeoutMs aborts the stream
+      const controller = new AbortController();
+      let timedOut = false;
+      const onTimeout = () => {
+        timedOut = true;
+        controller.abort();
+      };
+      let timer = setTimeout(onTimeout, settings.timeoutMs);
+      const onAbort = () => controller.abort();
+      options.signal?.addEventListener('abort', onAbort);
+
+      let text = '';
+      try {
+        const stream = hf.chatCompletionStream(
+          {
+            model: options.model || settings.model,
+            messages: messages.map((message) => ({ ...message })),
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+          },
+          { signal: controller.signal }
+        );
+
+        for await (const chunk of stream) {
+          clearTimeout(timer);
+          timer = setTimeout(onTimeout, settings.timeoutMs);
+          if (options.signal?.aborted) throw new LLMAbortError();
+          const delta = chunk.choices[0]?.delta?.content || '';
+          if (delta) {
+            text += delta;
+            onDelta(delta);
+          }
+        }
+      } catch (error) {
+        if (timedOut) throw new Error(`LLM request timed out after ${settings.timeoutMs}ms`);
+        if (options.signal?.aborted) throw new LLMAbortError();
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+      }
+      return text;
+    },
+    summarize: async (text, maxLength, model) => {
+      if (!hf) throw new Error('Hugging Face API key is not configured');
+      const response = await withTimeout(
+        hf.summarization({
+          model: model || settings.summarizationModel,
+          inputs: text,
+          parameters: { max_length: maxLength, min_length: 30 },
+        }),
+        settings.timeoutMs
+      );
+      return response.summary_text;
+    },
+    getSummarizationModels: () =>
+      settings.summarizationModel
+        ? [settings.summarizationModel, ...(settings.summarizationFallbackModels || [])]
+        : [],
+  };
+};
+
+/**
+ * Any server implementing the OpenAI chat completions API
+ */
+export const createOpenAICompatibleProvider = (settings: LLMProviderSettings): LLMProvider => ({
+  id: 'openai',
+  settings,
+  isConfigured: () => Boolean(settings.baseUrl),
+  getModels: () => [settings.model, ...settings.fallbackModels],
+  chat: async (messages, options = {}) => {
+    if (!settings.baseUrl) throw new Error('LLM endpoint URL is not configured');
+    const data = await postJson(
+      `${trimSlash(settings.baseUrl)}/chat/completions`,
+      {
+        model: options.model || settings.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+      },
+      { timeoutMs: settings.timeoutMs, apiKey: settings.apiKey, signal: options.signal }
+    );
+    return data?.choices?.[0]?.message?.content || '';
+  },
+  chatStream: async (messages, onDelta, options = {}) => {
+    if (!settings.baseUrl) throw new Error('LLM endpoint URL is not configured');
+    let text = '';
+    // Server-sent events: "data: {json}" lines, ending with "data: [DONE]"
+    await postStream(
+      `${trimSlash(settings.baseUrl)}/chat/completions`,
+      {
+        model: options.model || settings.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream: true,
+      },
+      (line) => {
+        if (!line.startsWith('data:')) return;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content || '';
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      },
+      { timeoutMs: settings.timeoutMs, apiKey: settings.apiKey, signal: options.signal }
+    );
+    return text;
+  },
+});
+
+/**
+ * Local Ollama-style server
+ */
+export const createOllamaProvider = (settings: LLMProviderSettings): LLMProvider => ({
+  id: 'ollama',
+  settings,
+  isConfigured: () => Boolean(settings.baseUrl),
+  getModels: () => [settings.model, ...settings.fallbackModels],
+  chat: async (messages, options = {}) => {
+    if (!settings.baseUrl) throw new Error('Ollama server URL is not configured');
+    const data = await postJson(
+      `${trimSlash(settings.baseUrl)}/api/chat`,
+      {
+        model: options.model || settings.model,
+        messages,
+        stream: false,
+        options: {
+          ...(options.maxTokens !== undefined && { num_predict: options.maxTokens }),
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+        },
+      },
+      { timeoutMs: settings.timeoutMs, apiKey: settings.apiKey, signal: options.signal }
+    );
+    return data?.message?.content || '';
+  },
+  chatStream: async (messages, onDelta, options = {}) => {
+    if (!settings.baseUrl) throw new Error('Ollama server URL is not configured');
+    let text = '';
+    // Newline-delimited JSON objects, the last one with done: true
+    await postStream(
+      `${trimSlash(settings.baseUrl)}/api/chat`,
+      {
+        model: options.model || settings.model,
+        messages,
+        stream: true,
+        options: {
+          ...(options.maxTokens !== undefined && { num_predict: options.maxTokens }),
+          ...(options.temperature !== undefined && { temperature: options.temperature }),
+        },
+      },
+      (line) => {
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(chunk.error);
+        const delta = chunk.message?.content || '';
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      },
+      { timeoutMs: settings.timeoutMs, apiKey: settings.apiKey, signal: options.signal }
+    );
+    return text;
+  },
+});
+
+const PROVIDER_FACTORIES: { [Id in LLMProviderId]: (settings: LLMProviderSettingsMap[Id]) => LLMProvider } = {
+  huggingface: createHuggingFaceProvider,
+  openai: createOpenAICompatibleProvider,
+  ollama: createOllamaProvider,
+};
+
+// ========================================
+// ACTIVE PROVIDER
+// ========================================
+
+interface StoredSettings {
+  providerId: LLMProviderId;
+  overrides: Partial<Record<LLMProviderId, Partial<LLMProviderSettings>>>;
+}
+
+const isProviderId = (id: string): id is LLMProviderId => id in PROVIDER_FACTORIES;
+
+let stored: StoredSettings = {
+  providerId: isProviderId(LLM_CONFIG.defaultProvider) ? LLM_CONFIG.defaultProvider : 'huggingface',
+  overrides: {},
+};
+let activeProvider: LLMProvider | null = null;
+let settingsLoaded: Promise<void> | null = null;
+
+// AsyncStorage is unencrypted, so runtime API keys never leave memory
+const withoutApiKeys = (overrides: StoredSettings['overrides']): StoredSettings['overrides'] => {
+  const result: StoredSettings['overrides'] = {};
+  (Object.keys(overrides) as LLMProviderId[]).forEach((id) => {
+    const { apiKey, ...rest } = overrides[id] || {};
+    result[id] = rest;
+  });
+  return result;
+};
+
+const hasApiKeys = (overrides: StoredSettings['overrides']): boolean =>
+  Object.values(overrides).some((override) => Boolean(override?.apiKey));
+
+const buildProvider = <Id extends LLMProviderId>(id: Id): LLMProvider => {
+  const settings: LLMProviderSettingsMap[Id] = { ...LLM_CONFIG.providers[id], ...stored.overrides[id] };
+  return PROVIDER_FACTORIES[id](settings);
+};
+
+/**
+ * Restore the provider chosen at runtime on a previous launch
+ */
+export const loadLLMSettings = (): Promise<void> => {
+  if (!settingsLoaded) {
+    settingsLoaded = (async () => {
+      try {
+        const saved = await AsyncStorage.getItem(SETTINGS_KEY);
+        if (saved) {
+          const parsed = JSON.parse(saved) as StoredSettings;
+          if (isProviderId(parsed.providerId)) {
+            const overrides = parsed.overrides || {};
+            stored = { providerId: parsed.providerId, overrides: withoutApiKeys(overrides) };
+            activeProvider = null;
+            // Settings saved by older versions could include keys; rewrite them without
+            if (hasApiKeys(overrides)) {
+              await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+            }
+          }
+        }
+      } catch (error) {
+        console.error('[LLM] Failed to load provider settings:', error);
+      }
+    })();
+  }
+  return settingsLoaded;
+};
+
+/**
+ * The provider AI requests go to
+ */
+export const getLLMProvider = async (): Promise<LLMProvider> => {
+  await loadLLMSettings();
+  if (!activeProvider) {
+    activeProvider = buildProvider(stored.providerId);
+    console.log(`[LLM] Using ${activeProvider.id} (${activeProvider.settings.model})`);
+  }
+  return activeProvider;
+};
+
+/**
+ * Switch provider and optionally override its model, endpoint, key or timeout.
+ * A key given here lasts until the app restarts; everything else is persisted.
+ */
+export const setLLMProvider = async (
+  providerId: LLMProviderId,
+  overrides?: Partial<LLMProviderSettings>
+): Promise<LLMProvider> => {
+  await loadLLMSettings();
+  stored = {
+    providerId,
+    overrides: overrides ? { ...stored.overrides, [providerId]: { ...stored.overrides[providerId], ...overrides } } : stored.overrides,
+  };
+  activeProvider = buildProvider(providerId);
+
+  try {
+    await AsyncStorage.setItem(
+      SETTINGS_KEY,
+      JSON.stringify({ ...stored, overrides: withoutApiKeys(stored.overrides) })
+    );
+  } catch (error) {
+    console.error('[LLM] Failed to save provider settings:', error);
+  }
+
+  console.log(`[LLM] Switched to ${providerId} (${activeProvider.settings.model})`);
+  return activeProvider;
+};
+
+/**
+ * Drop runtime overrides and go back to LLM_CONFIG
+ */
+export const resetLLMProvider = async (): Promise<LLMProvider> => {
+  await loadLLMSettings();
+  stored = {
+    providerId: isProviderId(LLM_CONFIG.defaultProvider) ? LLM_CONFIG.defaultProvider : 'huggingface',
+    overrides: {},
+  };
+  activeProvider = null;
+  await AsyncStorage.removeItem(SETTINGS_KEY).catch(() => undefined);
+  return getLLMProvider();
+};
+
+export default {
+  getLLMProvider,
+  setLLMProvider,
+  resetLLMProvider,
+  loadLLMSettings,
+  createHuggingFaceProvider,
+  createOpenAICompatibleProvider,
+  createOllamaProvider,
+};
@@ -0,0 +1,125 @@
+/**
+ * Quiz Grading
+ * Marks practice quiz answers. Multiple choice is a straight comparison;
+ * short answers get partial credit from word overlap with the reference
+ * answer (stemmed, stopwords dropped - so "protocols" matches "protocol").
+ *
+ * When overlap alone doesn't pass, the extractive QA model
+ * (HUGGING_FACE_API.models.qa) gets two more looks:
+ * - it pulls the answer out of the passage the question was written from,
+ *   giving a second reference in the source's own words;
+ * - it pulls the answer out of the student's response, so a long answer
+ *   with the right fact buried in it isn't penalised for its extra words.
+ * The best of these scores counts. Without an API key only overlap is used.
+ */
+
+import { HfInference } from '@huggingface/inference';
+import { HUGGING_FACE_API, QUIZ_CONFIG } from '../../constants/config';
+import { QuizAnswerResult, QuizQuestion } from '../../types';
+import { tokenize } from './keywordIndex';
+
+const qaClient = HUGGING_FACE_API.apiKey ? new HfInference(HUGGING_FACE_API.apiKey) : null;
+
+const normalizeAnswer = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * F1 of the word overlap between two answers (1 = same words)
+ */
+export function answerOverlap(response: string, reference: string): number {
+  const responseTokens = tokenize(response);
+  const referenceTokens = tokenize(reference);
+  if (responseTokens.length === 0 || referenceTokens.length === 0) {
+    // Numbers, symbols and one-letter answers have no indexable words
+    return normalizeAnswer(response) === normalizeAnswer(reference) && normalizeAnswer(reference) !== '' ? 1 : 0;
+  }
+
+  const remaining = new Map<string, number>();
+  referenceTokens.forEach(token => remaining.set(token, (remaining.get(token) || 0) + 1));
+  let common = 0;
+  responseTokens.forEach((token) => {
+    const count = remaining.get(token) || 0;
+    if (count > 0) {
+      common++;
+      remaining.set(token, count - 1);
+    }
+  });
+  if (common === 0) return 0;
+
+  const precision = common / responseTokens.length;
+  const recall = common / referenceTokens.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+/**
+ * The span of `context` that answers `question`, or null when the QA model
+ * is unavailable or unsure
+ */
+export async function extractAnswer(question: string, context: string): Promise<string | null> {
+  if (!qaClient || !context.trim()) return null;
+
+  try {
+    const result = await qaClient.questionAnswering({
+      model: HUGGING_FACE_API.models.qa,
+      inputs: { question, context },
+    });
+    return result.score >= QUIZ_CONFIG.qaMinConfidence && result.answer.trim() ? result.answer.trim() : null;
+  } catch (error: any) {
+    console.log('[QuizGrading] QA model unavailable:', error?.message);
+    return null;
+  }
+}
+
+export function gradeMultipleChoice(question: QuizQuestion, selectedIndex: number): QuizAnswerResult {
+  const correct = selectedIndex === question.answerIndex;
+  return {
+    questionId: question.id,
+    topic: question.topic,
+    response: question.options?.[selectedIndex] ?? '',
+    correct,
+    score: correct ? 1 : 0,
+    expected: question.answer,
+  };
+}
+
+export async function gradeShortAnswer(question: QuizQuestion, response: string): Promise<QuizAnswerResult> {
+  const result = (score: number): QuizAnswerResult => ({
+    questionId: question.id,
+    topic: question.topic,
+    response: response.trim(),
+    correct: score >= QUIZ_CONFIG.shortAnswerPass,
+    score: Math.round(Math.min(1, score) * 100) / 100,
+    expected: question.answer,
+  });
+
+  if (!response.trim()) return result(0);
+
+  let best = answerOverlap(response, question.answer);
+  if (best >= QUIZ_CONFIG.shortAnswerPass) return result(best);
+
+  const [sourceAnswer, responseAnswer] = await Promise.all([
+    question.context ? extractAnswer(question.question, question.context) : Promise.resolve(null),
+    extractAnswer(question.question, response),
+  ]);
+  if (sourceAnswer) best = Math.max(best, answerOverlap(response, sourceAnswer));
+  if (responseAnswer) {
+    best = Math.max(
+      best,
+      answerOverlap(responseAnswer, question.answer),
+      sourceAnswer ? answerOverlap(responseAnswer, sourceAnswer) : 0
+    );
+  }
+
+  return result(best);
+}
+
+export default {
+  answerOverlap,
+  extractAnswer,
+  gradeMultipleChoice,
+  gradeShortAnswer,
+};
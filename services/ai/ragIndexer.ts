@@ -1,23 +1,32 @@
 /**
  * RAG Auto-Indexing Service
- * Automatically indexes user content into vector store
+ * Keeps the vector store in step with tasks, courses and study sessions.
+ *
+ * The Firestore services call `RAGIndexingHooks` after each write. Hook work
+ * runs one item at a time in the background, unchanged items are skipped by
+ * content hash, and deletes remove the matching vectors. Full re-indexing
+ * lives in `ragReindexJob`.
  */
 
-import { Task } from '../../types';
-import { getCourses } from '../courseServiceFirestore';
-import { getStudySessionsByCourse } from '../studyServiceFirestore';
-import { getTasks } from '../taskServiceFirestore';
+import { Course, StudySession, Task } from '../../types';
 import {
-    indexContent
+    indexContent,
+    IndexableContent,
+    removeContent
 } from './ragService';
 
 /**
- * Index a task into vector store
+ * Vector ids per source item
  */
-export async function indexTask(task: Task): Promise<void> {
-  try {
-    // Build searchable content
-    const content = `
+export const taskDocumentId = (taskId: string) => `task_${taskId}`;
+export const courseDocumentId = (courseId: string) => `course_${courseId}`;
+export const studySessionDocumentId = (sessionId: string) => `study_${sessionId}`;
+
+/**
+ * Searchable text and metadata for a task
+ */
+export function buildTaskDocument(task: Task): IndexableContent {
+  const content = `
 Task: ${task.title}
 Type: ${task.type}
 Priority: ${task.priority}
@@ -25,85 +34,110 @@ Status: ${task.status}
 Due Date: ${task.dueDate.toLocaleDateString()}
 ${task.description ? `Description: ${task.description}` : ''}
 ${task.estimatedHours ? `Estimated Hours: ${task.estimatedHours}` : ''}
-    `.trim();
+  `.trim();
 
-    await indexContent(
-      `task_${task.id}`,
-      content,
-      'task',
-      {
-        userId: task.userId,
-        courseId: task.courseId,
-        title: task.title || 'Untitled Task',
-        date: task.dueDate.toISOString(),
-        priority: task.priority,
-        status: task.status,
-        type: task.type,
-        taskType: task.type, // Store as separate field to avoid confusion
-      }
-    );
-  } catch (error) {
-    console.error('Error indexing task:', error);
-    // Log but don't throw - indexing failures shouldn't break task creation
-  }
+  return {
+    id: taskDocumentId(task.id),
+    content,
+    type: 'task',
+    metadata: {
+      userId: task.userId,
+      courseId: task.courseId,
+      title: task.title || 'Untitled Task',
+      date: task.dueDate.toISOString(),
+      priority: task.priority,
+      status: task.status,
+      type: task.type,
+      taskType: task.type, // Store as separate field to avoid confusion
+    },
+  };
 }
 
 /**
- * Index course materials into vector store
+ * Searchable text and metadata for a course
  */
-export async function indexCourse(course: any): Promise<void> {
-  try {
-    const content = `
+export function buildCourseDocument(course: Course): IndexableContent {
+  const content = `
 Course: ${course.code} - ${course.name}
 ${course.instructor ? `Instructor: ${course.instructor}` : ''}
 ${course.credits ? `Credits: ${course.credits}` : ''}
 ${course.difficulty ? `Difficulty: ${course.difficulty}/5` : ''}
-    `.trim();
+  `.trim();
 
-    await indexContent(
-      `course_${course.id}`,
-      content,
-      'course_material',
-      {
-        userId: course.userId,
-        courseId: course.id,
-        title: `${course.code} - ${course.name}`,
-        date: course.createdAt?.toISOString(),
-      }
-    );
-  } catch (error) {
-    console.error('Error indexing course:', error);
-    // Log but don't throw - indexing failures shouldn't break course creation
-  }
+  return {
+    id: courseDocumentId(course.id),
+    content,
+    type: 'course_material',
+    metadata: {
+      userId: course.userId,
+      courseId: course.id,
+      title: `${course.code} - ${course.name}`,
+      date: course.createdAt?.toISOString(),
+    },
+  };
 }
 
 /**
- * Index study session into vector store
+ * Searchable text and metadata for a study session
  */
-export async function indexStudySession(session: any): Promise<void> {
-  try {
-    const content = `
+export function buildStudySessionDocument(session: StudySession): IndexableContent {
+  const content = `
 Study Session
 Date: ${session.date.toLocaleDateString()}
 Duration: ${session.duration} minutes
 ${session.topic ? `Topic: ${session.topic}` : ''}
 ${session.notes ? `Notes: ${session.notes}` : ''}
 ${session.effectiveness ? `Effectiveness: ${session.effectiveness}/5` : ''}
-    `.trim();
+  `.trim();
 
-    await indexContent(
-      `study_${session.id}`,
-      content,
-      'study_session',
-      {
-        userId: session.userId,
-        courseId: session.courseId,
-        title: session.topic || 'Study Session',
-        date: session.date.toISOString(),
-        duration: session.duration,
-        effectiveness: session.effectiveness,
-      }
-    );
+  return {
+    id: studySessionDocumentId(session.id),
+    content,
+    type: 'study_session',
+    metadata: {
+      userId: session.userId,
+      courseId: session.courseId,
+      title: session.topic || 'Study Session',
+      date: session.date.toISOString(),
+      duration: session.duration,
+      effectiveness: session.effectiveness,
+    },
+  };
+}
+
+const indexDocument = ({ id, content, type, metadata }: IndexableContent): Promise<void> =>
+  indexContent(id, content, type, metadata);
+
+/**
+ * Index a task into vector store
+ */
+export async function indexTask(task: Task): Promise<void> {
+  try {
+    await indexDocument(buildTaskDocument(task));
+  } catch (error) {
+    console.error('Error indexing task:', error);
+    // Log but don't throw - indexing failures shouldn't break task creation
+  }
+}
+
+/**
+ * Index course materials into vector store
+ */
+export async function indexCourse(course: Course): Promise<void> {
+  try {
+    await indexDocument(buildCourseDocument(course));
+  } catch (error) {
+    console.error('Error indexing course:', error);
+    // Log but don't throw - indexing failures shouldn't break course creation
+  }
+}
+
+/**
+ * Index study session into vector store
+ */
+export async function indexStudySession(session: StudySession): Promise<void> {
+  try {
+    await indexDocument(buildStudySessionDocument(session));
   } catch (error) {
     console.error('Error indexing study session:', error);
   }
@@ -139,83 +173,69 @@ export async function indexChatMessage(
 }
 
 /**
- * Index all user data (initial setup or refresh)
+ * Remove a deleted task's vector
  */
-export async function indexAllUserData(userId: string): Promise<{
-  success: boolean;
-  indexed: {
-    tasks: number;
-    courses: number;
-    sessions: number;
-  };
-  errors: string[];
-}> {
-  const result = {
-    success: true,
-    indexed: {
-      tasks: 0,
-      courses: 0,
-      sessions: 0,
-    },
-    errors: [] as string[],
-  };
-
+export async function removeTaskFromIndex(taskId: string, userId?: string): Promise<void> {
   try {
-    console.log('Starting full user data indexing...');
-
-    // Index all tasks
-    try {
-      const tasks = await getTasks(userId);
-      for (const task of tasks) {
-        await indexTask(task);
-        result.indexed.tasks++;
-      }
-    } catch (error) {
-      result.errors.push(`Tasks: ${error}`);
-    }
-
-    // Index all courses
-    try {
-      const courses = await getCourses(userId);
-      for (const course of courses) {
-        await indexCourse(course);
-        result.indexed.courses++;
-      }
+    await removeContent([taskDocumentId(taskId)], userId);
+  } catch (error) {
+    console.error('Error removing task from index:', error);
+  }
+}
 
-      // Index study sessions for each course
-      for (const course of courses) {
-        try {
-          const sessions = await getStudySessionsByCourse(course.id);
-          for (const session of sessions) {
-            await indexStudySession(session);
-            result.indexed.sessions++;
-          }
-        } catch (error) {
-          result.errors.push(`Sessions for ${course.code}: ${error}`);
-        }
-      }
-    } catch (error) {
-      result.errors.push(`Courses: ${error}`);
-    }
+/**
+ * Remove a deleted course's vector. Its tasks and uploaded materials are
+ * separate items and stay until they are deleted themselves.
+ */
+export async function removeCourseFromIndex(courseId: string, userId?: string): Promise<void> {
+  try {
+    await removeContent([courseDocumentId(courseId)], userId);
+  } catch (error) {
+    console.error('Error removing course from index:', error);
+  }
+}
 
-    console.log('Indexing complete:', result.indexed);
-    return result;
+/**
+ * Remove a deleted study session's vector
+ */
+export async function removeStudySessionFromIndex(sessionId: string, userId?: string): Promise<void> {
+  try {
+    await removeContent([studySessionDocumentId(sessionId)], userId);
   } catch (error) {
-    console.error('Error indexing all user data:', error);
-    result.success = false;
-    result.errors.push(`General: ${error}`);
-    return result;
+    console.error('Error removing study session from index:', error);
   }
 }
 
+// Hook work runs one item at a time so a batch of writes doesn't fire a
+// burst of parallel embedding requests
+let indexingQueue: Promise<void> = Promise.resolve();
+
+const enqueue = (work: () => Promise<void>): void => {
+  indexingQueue = indexingQueue.then(work).catch((error) => {
+    console.error('[RAGIndexer] Background indexing failed:', error);
+  });
+};
+
+/**
+ * Resolves once all queued hook work has finished
+ */
+export const waitForIndexing = (): Promise<void> => indexingQueue;
+
 /**
- * Auto-index when data changes (call these after CRUD operations)
+ * Auto-index when data changes - called by the Firestore services after
+ * CRUD operations. Fire-and-forget: never blocks or fails the write.
  */
 export const RAGIndexingHooks = {
-  onTaskCreated: indexTask,
-  onTaskUpdated: indexTask,
-  onCourseCreated: indexCourse,
-  onCourseUpdated: indexCourse,
-  onStudySessionCreated: indexStudySession,
-  onChatMessage: indexChatMessage,
+  onTaskCreated: (task: Task) => enqueue(() => indexTask(task)),
+  onTaskUpdated: (task: Task) => enqueue(() => indexTask(task)),
+  onTaskDeleted: (taskId: string, userId?: string) => enqueue(() => removeTaskFromIndex(taskId, userId)),
+  onCourseCreated: (course: Course) => enqueue(() => indexCourse(course)),
+  onCourseUpdated: (course: Course) => enqueue(() => indexCourse(course)),
+  onCourseDeleted: (courseId: string, userId?: string) => enqueue(() => removeCourseFromIndex(courseId, userId)),
+  onStudySessionCreated: (session: StudySession) => enqueue(() => indexStudySession(session)),
+  onStudySessionUpdated: (session: StudySession) => enqueue(() => indexStudySession(session)),
+  onStudySessionDeleted: (sessionId: string, userId?: string) =>
+    enqueue(() => removeStudySessionFromIndex(sessionId, userId)),
+  onChatMessage: (message: string, userId: string, metadata: { messageId: string; timestamp: Date; context?: string }) =>
+    enqueue(() => indexChatMessage(message, userId, metadata)),
 };
@@ -0,0 +1,221 @@
+/**
+ * RAG Reindex Job
+ * Full re-index of a user's tasks, courses and study sessions.
+ *
+ * Items go through `batchIndexContent`, so only changed ones are re-embedded.
+ * Vectors whose source no longer exists (deleted on another device) are
+ * removed. The remaining work is checkpointed after every batch, so a job cut
+ * short by the app closing resumes where it stopped.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RAG_CONFIG } from '../../constants/config';
+import { getCourses } from '../courseServiceFirestore';
+import { getStudySessions } from '../studyServiceFirestore';
+import { getTasks } from '../taskServiceFirestore';
+import {
+    buildCourseDocument,
+    buildStudySessionDocument,
+    buildTaskDocument,
+    waitForIndexing
+} from './ragIndexer';
+import {
+    batchIndexContent,
+    IndexableContent,
+    removeFromVectorStore,
+    VectorizedContent
+} from './ragService';
+
+const CHECKPOINT_KEY = '@rag_reindex_job';
+
+// Vector types rebuilt from Firestore data (uploaded materials are not)
+const SOURCE_TYPES: VectorizedContent['type'][] = ['task', 'course_material', 'study_session'];
+
+export type ReindexStatus = 'idle' | 'running' | 'completed' | 'failed';
+
+export interface ReindexProgress {
+  status: ReindexStatus;
+  userId: string | null;
+  total: number;
+  processed: number;
+  indexed: number; // re-embedded, or metadata refreshed
+  skipped: number; // unchanged since the last run
+  removed: number; // source item was deleted
+  byType: { tasks: number; courses: number; sessions: number };
+  resumed: boolean;
+  error?: string;
+}
+
+interface ReindexCheckpoint {
+  userId: string;
+  remaining: string[];
+  progress: ReindexProgress;
+}
+
+const IDLE: ReindexProgress = {
+  status: 'idle',
+  userId: null,
+  total: 0,
+  processed: 0,
+  indexed: 0,
+  skipped: 0,
+  removed: 0,
+  byType: { tasks: 0, courses: 0, sessions: 0 },
+  resumed: false,
+};
+
+let progress: ReindexProgress = IDLE;
+let running: { userId: string; promise: Promise<ReindexProgress> } | null = null;
+const listeners = new Set<(progress: ReindexProgress) => void>();
+
+const setProgress = (changes: Partial<ReindexProgress>) => {
+  progress = { ...progress, ...changes };
+  listeners.forEach(listener => listener(progress));
+};
+
+export const getReindexProgress = (): ReindexProgress => progress;
+
+export const subscribeToReindexProgress = (listener: (progress: ReindexProgress) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const loadCheckpoint = async (): Promise<ReindexCheckpoint | null> => {
+  const data = await AsyncStorage.getItem(CHECKPOINT_KEY);
+  return data ? JSON.parse(data) : null;
+};
+
+const collectDocuments = async (userId: string): Promise<IndexableContent[]> => {
+  const [tasks, courses, sessions] = await Promise.all([
+    getTasks(userId, false),
+    getCourses(userId, false),
+    getStudySessions(userId),
+  ]);
+  return [
+    ...tasks.map(buildTaskDocument),
+    ...courses.map(buildCourseDocument),
+    ...sessions.map(buildStudySessionDocument),
+  ];
+};
+
+const countByType = (documents: IndexableContent[], byType: ReindexProgress['byType']) => {
+  const counts = { ...byType };
+  documents.forEach((document) => {
+    if (document.type === 'task') counts.tasks++;
+    else if (document.type === 'course_material') counts.courses++;
+    else if (document.type === 'study_session') counts.sessions++;
+  });
+  return counts;
+};
+
+/**
+ * Re-index everything for a user, resuming an interrupted run if there is
+ * one. Calling it while a job runs returns that job.
+ */
+export function runReindexJob(userId: string): Promise<ReindexProgress> {
+  if (running?.userId === userId) return running.promise;
+
+  const promise = (async () => {
+    // Let queued CRUD hook work land first so nothing is embedded twice
+    await waitForIndexing();
+
+    const checkpoint = await loadCheckpoint();
+    const resuming = checkpoint?.userId === userId;
+    setProgress(
+      resuming
+        ? { ...checkpoint!.progress, status: 'running', resumed: true, error: undefined }
+        : { ...IDLE, status: 'running', userId }
+    );
+
+    try {
+      const documents = await collectDocuments(userId);
+      const byId = new Map(documents.map(document => [document.id, document]));
+      let remaining: string[];
+
+      if (resuming) {
+        remaining = checkpoint!.remaining.filter(id => byId.has(id));
+        setProgress({ total: progress.processed + remaining.length });
+      } else {
+        const removed = await removeFromVectorStore(
+          item => SOURCE_TYPES.includes(item.type) && !item.metadata.materialId && !byId.has(item.id),
+          userId
+        );
+        remaining = documents.map(document => document.id);
+        setProgress({ total: remaining.length, removed });
+      }
+
+      while (remaining.length > 0) {
+        const batch = remaining.slice(0, RAG_CONFIG.indexBatchSize).map(id => byId.get(id)!);
+        const { indexed, skipped } = await batchIndexContent(batch);
+        remaining = remaining.slice(batch.length);
+
+        setProgress({
+          processed: progress.processed + batch.length,
+          indexed: progress.indexed + indexed,
+          skipped: progress.skipped + skipped,
+          byType: countByType(batch, progress.byType),
+        });
+        const next: ReindexCheckpoint = { userId, remaining, progress };
+        await AsyncStorage.setItem(CHECKPOINT_KEY, JSON.stringify(next));
+      }
+
+      await AsyncStorage.removeItem(CHECKPOINT_KEY);
+      setProgress({ status: 'completed' });
+      console.log('[RAGReindex] Complete:', progress.indexed, 'indexed,', progress.skipped, 'unchanged,', progress.removed, 'removed');
+      return progress;
+    } catch (error) {
+      // The checkpoint stays, so the next run picks up from the last batch
+      setProgress({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      running = null;
+    }
+  })();
+
+  running = { userId, promise };
+  return promise;
+}
+
+/**
+ * Finish a job that was interrupted for this user, in the background
+ */
+export async function resumeReindexJob(userId: string): Promise<void> {
+  const checkpoint = await loadCheckpoint();
+  if (checkpoint?.userId !== userId || running) return;
+
+  console.log('[RAGReindex] Resuming with', checkpoint.remaining.length, 'items left');
+  runReindexJob(userId).catch((error) => {
+    console.error('[RAGReindex] Resumed job failed:', error);
+  });
+}
+
+/**
+ * Index all user data (initial setup or refresh)
+ */
+export async function indexAllUserData(userId: string): Promise<{
+  success: boolean;
+  indexed: {
+    tasks: number;
+    courses: number;
+    sessions: number;
+  };
+  errors: string[];
+}> {
+  try {
+    const result = await runReindexJob(userId);
+    return { success: true, indexed: result.byType, errors: [] };
+  } catch (error) {
+    console.error('Error indexing all user data:', error);
+    return { success: false, indexed: progress.byType, errors: [`General: ${error}`] };
+  }
+}
+
+export default {
+  runReindexJob,
+  resumeReindexJob,
+  indexAllUserData,
+  getReindexProgress,
+  subscribeToReindexProgress,
+};
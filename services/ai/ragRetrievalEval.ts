@@ -0,0 +1,55 @@
+/**
+ * RAG Retrieval Evaluation
+ * Runs the retrieval metrics in retrievalEval.ts against a user's own store.
+ *
+ * Run it from a dev build or the debugger console:
+ *
+ *   await runRetrievalEval(userId, [
+ *     { query: 'when is the networks assignment due', expectedIds: ['task_abc'] },
+ *     { query: 'TCP handshake', expectedIds: ['material_cs3001_1700000000000_4'] },
+ *   ]);
+ *
+ * Every retriever sees the same queries over the same store, so the printed
+ * table compares semantic, keyword, fused and reranked retrieval directly.
+ */
+
+import { getReranker } from './reranking';
+import { hybridSearch, keywordSearch, semanticSearch } from './ragService';
+import {
+  evaluateRetriever,
+  formatEvalReport,
+  RetrievalEvalCase,
+  RetrievalEvalReport,
+  Retriever,
+} from './retrievalEval';
+
+/**
+ * Compare the RAG retrievers for a user's current store and log the table
+ */
+export async function runRetrievalEval(
+  userId: string,
+  cases: RetrievalEvalCase[],
+  options: { k?: number } = {}
+): Promise<RetrievalEvalReport[]> {
+  const k = options.k ?? 5;
+  const retrievers: Record<string, Retriever> = {
+    semantic: (query, limit) => semanticSearch(query, userId, { limit }),
+    bm25: (query, limit) => keywordSearch(query, userId, { limit }),
+    hybrid: (query, limit) => hybridSearch(query, userId, { limit, rerank: false }),
+  };
+  if (getReranker()) {
+    retrievers['hybrid+rerank'] = (query, limit) => hybridSearch(query, userId, { limit, rerank: true });
+  }
+
+  const reports: RetrievalEvalReport[] = [];
+  for (const [name, retriever] of Object.entries(retrievers)) {
+    reports.push(await evaluateRetriever(name, cases, retriever, k));
+  }
+
+  console.log(`[RetrievalEval] ${cases.length} queries\n${formatEvalReport(reports)}`);
+  return reports;
+}
+
+export default {
+  runRetrievalEval,
+};
@@ -4,26 +4,24 @@
  * 
  * Features:
  * - Semantic search across notes, tasks, and course materials
- * - Vector embeddings using Hugging Face (FREE)
- * - Local vector storage with AsyncStorage
+ * - Vector embeddings from a pluggable provider (Hugging Face, OpenAI-compatible or on-device)
+ * - Sharded local vector store (AsyncStorage) with an ANN index
  * - Context-aware AI responses
  * - No paid APIs required
  */
 
-import { HfInference } from '@huggingface/inference';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import Constants from 'expo-constants';
+import { EMBEDDING_CONFIG, RAG_CONFIG } from '../../constants/config';
 import { errorTracker } from '../../utils/errorTracking';
-import { generateAIResponse } from '../aiServiceEnhanced';
-
-// Initialize Hugging Face
-const HF_API_KEY = Constants.expoConfig?.extra?.EXPO_PUBLIC_HUGGING_FACE_API_KEY || 
-  process.env.EXPO_PUBLIC_HUGGING_FACE_API_KEY || '';
-const hf = HF_API_KEY ? new HfInference(HF_API_KEY) : null;
+import { generateAIResponse, StreamOptions } from '../aiServiceEnhanced';
+import { getEmbeddingProvider } from './embeddingProviders';
+import { getReranker, reciprocalRankFusion } from './reranking';
+import { StoredItem, VectorStore } from './vectorStore';
 
 // Storage keys
 const STORAGE_KEYS = {
-  VECTOR_STORE: '@rag_vector_store',
+  VECTOR_STORE: '@rag_vs',
+  LEGACY_VECTOR_STORE: '@rag_vector_store',
   LAST_INDEXED: '@rag_last_indexed',
 };
 
@@ -34,6 +32,7 @@ export interface VectorizedContent {
   id: string;
   content: string;
   embedding: number[];
+  embeddingModel?: string; // tag of the model that produced `embedding`
   type: 'note' | 'task' | 'course_material' | 'study_session' | 'chat_history';
   metadata: {
     userId: string;
@@ -54,126 +53,55 @@ export interface SearchResult extends VectorizedContent {
   relevanceScore: number;
 }
 
+const vectorStore = new VectorStore<VectorizedContent>({
+  storage: AsyncStorage,
+  keyPrefix: STORAGE_KEYS.VECTOR_STORE,
+  legacyKey: STORAGE_KEYS.LEGACY_VECTOR_STORE,
+  segmentSize: RAG_CONFIG.vectorSegmentSize,
+  index: {
+    exactSearchLimit: RAG_CONFIG.exactSearchLimit,
+    probes: RAG_CONFIG.annProbes,
+  },
+  text: (item: StoredItem<VectorizedContent>) => `${item.metadata.title || ''}\n${item.content}`,
+});
+
 /**
- * Generate embeddings for text using Hugging Face
- * Model: sentence-transformers/all-MiniLM-L6-v2 (FREE, fast, 384 dimensions)
+ * Embed texts with the active embedding provider, in batches. Throws rather
+ * than falling back to another model, which would mix embedding spaces.
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+export async function generateEmbeddings(texts: string[]): Promise<{ embeddings: number[][]; model: string }> {
+  const provider = await getEmbeddingProvider();
   try {
-    if (!hf) {
-      // Fallback: Simple TF-IDF-like embedding
-      return generateSimpleEmbedding(text);
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_CONFIG.batchSize) {
+      embeddings.push(...await provider.embed(texts.slice(i, i + EMBEDDING_CONFIG.batchSize)));
     }
-
-    // Use Hugging Face feature extraction
-    const result = await hf.featureExtraction({
-      model: 'sentence-transformers/all-MiniLM-L6-v2',
-      inputs: text,
-    });
-
-    // Handle different response formats
-    let embedding: number[];
-    if (Array.isArray(result)) {
-      // If result is already an array
-      if (Array.isArray(result[0])) {
-        // If nested array, flatten or take first
-        embedding = result[0] as number[];
-      } else {
-        embedding = result as number[];
-      }
-    } else {
-      // Fallback to simple embedding
-      embedding = generateSimpleEmbedding(text);
-    }
-
-    // Normalize embedding
-    return normalizeVector(embedding);
+    return { embeddings, model: provider.modelTag };
   } catch (error) {
-    console.error('Error generating embedding:', error);
+    console.error('Error generating embeddings:', error);
     errorTracker.captureError(error as Error, {
       metadata: {
-        context: 'generateEmbedding',
-        textLength: text.length,
+        context: 'generateEmbeddings',
+        provider: provider.id,
+        count: texts.length,
       }
     });
-    // Fallback to simple embedding
-    return generateSimpleEmbedding(text);
-  }
-}
-
-/**
- * Simple embedding fallback (TF-IDF-like)
- * Creates a 384-dimensional vector for compatibility
- */
-function generateSimpleEmbedding(text: string): number[] {
-  const words = text.toLowerCase().split(/\s+/);
-  const embedding = new Array(384).fill(0);
-  
-  // Hash words into embedding space
-  words.forEach((word, idx) => {
-    const hash = word.split('').reduce((acc, char) => {
-      return ((acc << 5) - acc) + char.charCodeAt(0);
-    }, 0);
-    
-    const position = Math.abs(hash) % 384;
-    embedding[position] += 1 / (idx + 1); // TF-IDF-like weighting
-  });
-  
-  return normalizeVector(embedding);
-}
-
-/**
- * Normalize vector to unit length
- */
-function normalizeVector(vector: number[]): number[] {
-  const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
-  if (magnitude === 0) return vector;
-  return vector.map(val => val / magnitude);
-}
-
-/**
- * Calculate cosine similarity between two vectors
- */
-function cosineSimilarity(vec1: number[], vec2: number[]): number {
-  if (vec1.length !== vec2.length) return 0;
-  
-  let dotProduct = 0;
-  for (let i = 0; i < vec1.length; i++) {
-    dotProduct += vec1[i] * vec2[i];
+    throw error;
   }
-  
-  return dotProduct; // Vectors are already normalized
 }
 
 /**
  * Add content to vector store
  */
-export async function addToVectorStore(content: VectorizedContent): Promise<void> {
+export async function addToVectorStore(content: VectorizedContent | VectorizedContent[]): Promise<void> {
+  const items = Array.isArray(content) ? content : [content];
   try {
-    // Get existing store
-    const storeData = await AsyncStorage.getItem(STORAGE_KEYS.VECTOR_STORE);
-    const store: VectorizedContent[] = storeData ? JSON.parse(storeData) : [];
-    
-    // Check if already exists (update instead)
-    const existingIndex = store.findIndex(item => item.id === content.id);
-    if (existingIndex >= 0) {
-      store[existingIndex] = content;
-    } else {
-      store.push(content);
-    }
-    
-    // Limit store size (keep last 1000 items)
-    if (store.length > 1000) {
-      store.sort((a, b) => b.timestamp - a.timestamp);
-      store.splice(1000);
-    }
-    
-    // Save back
-    await AsyncStorage.setItem(STORAGE_KEYS.VECTOR_STORE, JSON.stringify(store));
+    // Insert or replace; only the touched shard segments are rewritten
+    await vectorStore.upsert(items);
     
     errorTracker.addBreadcrumb({
       category: 'rag',
-      message: `Added ${content.type} to vector store`,
+      message: `Added ${items.length} item(s) to vector store`,
       level: 'info',
     });
   } catch (error) {
@@ -181,12 +109,77 @@ export async function addToVectorStore(content: VectorizedContent): Promise<void
     errorTracker.captureError(error as Error, {
       metadata: {
         context: 'addToVectorStore',
-        contentType: content.type,
+        contentType: items[0]?.type,
       }
     });
   }
 }
 
+/**
+ * Remove every item matching a predicate, returning how many were removed.
+ * Pass `userId` to only load that user's shards.
+ */
+export async function removeFromVectorStore(
+  predicate: (item: StoredItem<VectorizedContent>) => boolean,
+  userId?: string
+): Promise<number> {
+  try {
+    return await vectorStore.removeWhere(predicate, userId);
+  } catch (error) {
+    console.error('Error removing from vector store:', error);
+    throw error;
+  }
+}
+
+/**
+ * A user's stored items matching a predicate, optionally of some types
+ */
+export async function findInVectorStore(
+  userId: string,
+  predicate: (item: StoredItem<VectorizedContent>) => boolean,
+  types?: VectorizedContent['type'][]
+): Promise<VectorizedContent[]> {
+  try {
+    return await vectorStore.filter(userId, predicate, types);
+  } catch (error) {
+    console.error('Error reading vector store:', error);
+    return [];
+  }
+}
+
+/**
+ * Human-readable citation for a stored item, e.g. "Lecture 5, p. 12"
+ */
+export function getSourceLabel(item: Pick<VectorizedContent, 'metadata'>): string {
+  const title = item.metadata.title || 'Untitled';
+  if (item.metadata.page) return `${title}, p. ${item.metadata.page}`;
+  if (item.metadata.section) return `${title} › ${item.metadata.section}`;
+  return title;
+}
+
+/**
+ * Content to index; `id` is stable per source item (e.g. `task_<id>`)
+ */
+export interface IndexableContent {
+  id: string;
+  content: string;
+  type: VectorizedContent['type'];
+  metadata: VectorizedContent['metadata'];
+}
+
+/**
+ * FNV-1a hash of the embedded text. Stored as `metadata.contentHash` so
+ * unchanged items are not re-embedded.
+ */
+export function hashContent(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
 /**
  * Index content (generate embedding and store)
  */
@@ -197,21 +190,7 @@ export async function indexContent(
   metadata: VectorizedContent['metadata']
 ): Promise<void> {
   try {
-    // Generate embedding
-    const embedding = await generateEmbedding(content);
-    
-    // Create vectorized content
-    const vectorizedContent: VectorizedContent = {
-      id,
-      content,
-      embedding,
-      type,
-      metadata,
-      timestamp: Date.now(),
-    };
-    
-    // Add to store
-    await addToVectorStore(vectorizedContent);
+    await batchIndexContent([{ id, content, type, metadata }]);
   } catch (error) {
     console.error('Error indexing content:', error);
     throw error;
@@ -219,28 +198,130 @@ export async function indexContent(
 }
 
 /**
- * Batch index multiple items
+ * Batch index multiple items. Items whose text and metadata are unchanged
+ * are skipped; a metadata-only change reuses the stored embedding. Stored
+ * embeddings from another model are never reused.
  */
 export async function batchIndexContent(
-  items: Array<{
-    id: string;
-    content: string;
-    type: VectorizedContent['type'];
-    metadata: VectorizedContent['metadata'];
-  }>
-): Promise<void> {
+  items: IndexableContent[]
+): Promise<{ indexed: number; skipped: number }> {
   try {
+    const provider = await getEmbeddingProvider();
+    const vectorized: VectorizedContent[] = [];
+    const toEmbed: IndexableContent[] = [];
+    let skipped = 0;
+
     for (const item of items) {
-      await indexContent(item.id, item.content, item.type, item.metadata);
+      const metadata = { ...item.metadata, contentHash: hashContent(item.content) };
+      const existing = await vectorStore.get(item.metadata.userId, item.id);
+
+      if (
+        existing &&
+        existing.metadata.contentHash === metadata.contentHash &&
+        existing.embeddingModel === provider.modelTag
+      ) {
+        // Round-trip through JSON so dropped `undefined` fields compare equal
+        const sameMetadata = JSON.stringify(existing.metadata) === JSON.stringify(metadata);
+        if (existing.type === item.type && sameMetadata) {
+          skipped++;
+          continue;
+        }
+        vectorized.push({
+          ...item,
+          metadata,
+          embedding: existing.embedding,
+          embeddingModel: existing.embeddingModel,
+          timestamp: Date.now(),
+        });
+        continue;
+      }
+
+      toEmbed.push({ ...item, metadata });
+    }
+
+    if (toEmbed.length > 0) {
+      const { embeddings, model } = await generateEmbeddings(toEmbed.map(item => item.content));
+      toEmbed.forEach((item, i) => {
+        vectorized.push({ ...item, embedding: embeddings[i], embeddingModel: model, timestamp: Date.now() });
+      });
     }
     
+    // One store write for the whole batch
+    if (vectorized.length > 0) {
+      await addToVectorStore(vectorized);
+    }
     await AsyncStorage.setItem(STORAGE_KEYS.LAST_INDEXED, Date.now().toString());
+    return { indexed: vectorized.length, skipped };
   } catch (error) {
     console.error('Error batch indexing:', error);
     throw error;
   }
 }
 
+/**
+ * Remove items by id (e.g. after the task they came from was deleted)
+ */
+export async function removeContent(ids: string[], userId?: string): Promise<number> {
+  if (ids.length === 0) return 0;
+  const idSet = new Set(ids);
+  return removeFromVectorStore(item => idSet.has(item.id), userId);
+}
+
+const reembedding = new Map<string, Promise<number>>(); // userId -> running job
+
+/**
+ * Re-embed a user's vectors that came from another model (or predate model
+ * tags) with the active provider, so they match searches again. One job per
+ * user at a time; resolves with the number of items re-embedded.
+ */
+export function reembedStaleVectors(userId: string): Promise<number> {
+  const running = reembedding.get(userId);
+  if (running) return running;
+
+  const job = (async () => {
+    const { modelTag } = await getEmbeddingProvider();
+    const stale = await vectorStore.filter(userId, item => item.embeddingModel !== modelTag);
+    let reembedded = 0;
+
+    for (let i = 0; i < stale.length; i += RAG_CONFIG.indexBatchSize) {
+      const batch = stale.slice(i, i + RAG_CONFIG.indexBatchSize);
+      const { embeddings, model } = await generateEmbeddings(batch.map(item => item.content));
+
+      // Skip items re-indexed (or deleted) while this batch was embedding
+      const current = await Promise.all(batch.map(item => vectorStore.get(userId, item.id)));
+      const updated = batch
+        .map((item, j) => ({ ...item, embedding: embeddings[j], embeddingModel: model }))
+        .filter((item, j) => current[j]?.timestamp === item.timestamp && current[j]?.embeddingModel !== model);
+
+      await vectorStore.upsert(updated);
+      reembedded += updated.length;
+    }
+
+    if (reembedded > 0) console.log(`[RAG] Re-embedded ${reembedded} items with ${modelTag}`);
+    return reembedded;
+  })().finally(() => {
+    reembedding.delete(userId);
+  });
+
+  reembedding.set(userId, job);
+  return job;
+}
+
+/**
+ * Start re-embedding in the background if any of the user's vectors came
+ * from a model other than `model`
+ */
+const scheduleReembedding = async (userId: string, model: string): Promise<void> => {
+  if (reembedding.has(userId)) return;
+  try {
+    const counts = await vectorStore.countByModel(userId);
+    if (Object.keys(counts).every(tag => tag === model)) return;
+    await reembedStaleVectors(userId);
+  } catch (error) {
+    console.error('[RAG] Re-embedding failed:', error);
+  }
+};
+
 /**
  * Semantic search across vector store
  */
@@ -259,46 +340,42 @@ export async function semanticSearch(
   try {
     const { limit = 5, types, courseId, minSimilarity = 0.3, statusFilter, priorityFilter } = options;
     
-    // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query);
-    
-    // Load vector store
-    const storeData = await AsyncStorage.getItem(STORAGE_KEYS.VECTOR_STORE);
-    if (!storeData) return [];
-    
-    const store: VectorizedContent[] = JSON.parse(storeData);
+    // Query and stored vectors must come from the same model
+    const { embeddings: [queryEmbedding], model } = await generateEmbeddings([query]);
+    scheduleReembedding(userId, model);
     
-    // Filter by userId and optional filters
-    let filtered = store.filter(item => item.metadata.userId === userId);
-    
-    if (types && types.length > 0) {
-      filtered = filtered.filter(item => types.includes(item.type));
-    }
-    
-    if (courseId) {
-      filtered = filtered.filter(item => item.metadata.courseId === courseId);
-    }
-    
-    // NEW: Filter by task status (e.g., only 'todo', exclude 'completed')
-    if (statusFilter && statusFilter.length > 0) {
-      filtered = filtered.filter(item => 
-        item.type === 'task' && 
-        item.metadata.status && 
+    // Metadata filters run inside the index, before candidates are scored
+    const matchesFilters = (item: StoredItem<VectorizedContent>): boolean => {
+      if (courseId && item.metadata.courseId !== courseId) return false;
+      
+      // Filter by task status (e.g., only 'todo', exclude 'completed')
+      if (statusFilter && statusFilter.length > 0 && !(
+        item.type === 'task' &&
+        item.metadata.status &&
         statusFilter.includes(item.metadata.status)
-      );
-    }
-    
-    // NEW: Filter by priority
-    if (priorityFilter && priorityFilter.length > 0) {
-      filtered = filtered.filter(item => 
-        item.metadata.priority && 
+      )) return false;
+      
+      // Filter by priority
+      if (priorityFilter && priorityFilter.length > 0 && !(
+        item.metadata.priority &&
         priorityFilter.includes(item.metadata.priority)
-      );
-    }
+      )) return false;
+      
+      return true;
+    };
+    
+    // Nearest neighbours from the user's shards; over-fetch so recency and
+    // type boosts can still reorder them
+    const candidates = await vectorStore.search(userId, queryEmbedding, {
+      limit: Math.max(limit * 10, 50),
+      types,
+      model,
+      filter: matchesFilters,
+    });
     
-    // Calculate similarities
-    const results: SearchResult[] = filtered.map(item => {
-      const similarity = cosineSimilarity(queryEmbedding, item.embedding);
+    // Calculate relevance
+    const results: SearchResult[] = candidates.map(item => {
+      const similarity = item.similarity;
       
       // Calculate relevance score (similarity + recency + type boost)
       const recencyScore = Math.max(0, 1 - (Date.now() - item.timestamp) / (30 * 24 * 60 * 60 * 1000)); // Decay over 30 days
@@ -407,14 +484,15 @@ export async function answerWithContext(
     includeTypes?: VectorizedContent['type'][];
     courseId?: string;
     maxContextLength?: number;
-  } = {}
+  } & StreamOptions = {}
 ): Promise<{
   answer: string;
   sources: SearchResult[];
   confidence: number;
+  cancelled?: boolean;
 }> {
   try {
-    const { includeTypes, courseId, maxContextLength = 2000 } = options;
+    const { includeTypes, courseId, maxContextLength = 2000, onToken, signal } = options;
     
     // Analyze query to determine intent
     const intent = analyzeQueryIntent(question);
@@ -460,15 +538,17 @@ export async function answerWithContext(
     
     for (const doc of relevantDocs) {
       // Format doc type label
-      const typeLabel = {
-        'task': 'TASK',
-        'course_material': 'COURSE',
-        'study_session': 'STUDY SESSION',
-        'note': 'NOTE',
-        'chat_history': 'CHAT'
-      }[doc.type] || doc.type.toUpperCase();
+      const typeLabel = doc.metadata.materialId
+        ? 'MATERIAL'
+        : {
+            'task': 'TASK',
+            'course_material': 'COURSE',
+            'study_session': 'STUDY SESSION',
+            'note': 'NOTE',
+            'chat_history': 'CHAT'
+          }[doc.type] || doc.type.toUpperCase();
       
-      const title = doc.metadata.title || 'Untitled';
+      const title = getSourceLabel(doc);
       const similarity = ((doc.similarity || 0) * 100).toFixed(0);
       
       const docContext = `[${typeLabel}] ${title} (${similarity}% match)\n${doc.content}\n\n`;
@@ -502,7 +582,8 @@ export async function answerWithContext(
 - Reference specific tasks with their status, priority, and due dates
 - If context shows all tasks are completed, say "All tasks are completed!"
 - Do NOT make up information or use general knowledge
-- Prioritize higher-match sources (they're more relevant)${contextNote}
+- Prioritize higher-match sources (they're more relevant)
+- When using a MATERIAL source, cite it in brackets as given, e.g. (Lecture 5, p. 12)${contextNote}
 
 **User's Personal Data:**
 ${context}
@@ -517,12 +598,15 @@ ${context}
       temperature: 0.7,
       useContext: false,
       userId,
+      onToken,
+      signal,
     });
     
     return {
       answer: aiResponse.text,
       sources: usedDocs,
       confidence: Math.round(confidence),
+      cancelled: aiResponse.cancelled,
     };
   } catch (error) {
     console.error('Error answering with context:', error);
@@ -550,32 +634,20 @@ export async function getSimilarContent(
   limit: number = 5
 ): Promise<SearchResult[]> {
   try {
-    // Load vector store
-    const storeData = await AsyncStorage.getItem(STORAGE_KEYS.VECTOR_STORE);
-    if (!storeData) return [];
-    
-    const store: VectorizedContent[] = JSON.parse(storeData);
-    
     // Find the source content
-    const sourceContent = store.find(item => item.id === contentId);
-    if (!sourceContent) return [];
+    const sourceContent = await vectorStore.get(userId, contentId);
+    if (!sourceContent?.embeddingModel) return [];
+    
+    // Find similar items embedded by the same model
+    const neighbours = await vectorStore.search(userId, sourceContent.embedding, {
+      limit,
+      model: sourceContent.embeddingModel,
+      filter: item => item.id !== contentId,
+    });
     
-    // Find similar items
-    const results: SearchResult[] = store
-      .filter(item => 
-        item.id !== contentId && 
-        item.metadata.userId === userId
-      )
-      .map(item => ({
-        ...item,
-        similarity: cosineSimilarity(sourceContent.embedding, item.embedding),
-        relevanceScore: cosineSimilarity(sourceContent.embedding, item.embedding),
-      }))
+    return neighbours
       .filter(item => item.similarity > 0.5)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
-    
-    return results;
+      .map(item => ({ ...item, relevanceScore: item.similarity }));
   } catch (error) {
     console.error('Error getting similar content:', error);
     return [];
@@ -587,7 +659,7 @@ export async function getSimilarContent(
  */
 export async function clearVectorStore(): Promise<void> {
   try {
-    await AsyncStorage.removeItem(STORAGE_KEYS.VECTOR_STORE);
+    await vectorStore.clear();
     await AsyncStorage.removeItem(STORAGE_KEYS.LAST_INDEXED);
     
     errorTracker.addBreadcrumb({
@@ -610,31 +682,12 @@ export async function getVectorStoreStats(): Promise<{
   storageSize: number;
 }> {
   try {
-    const storeData = await AsyncStorage.getItem(STORAGE_KEYS.VECTOR_STORE);
+    const stats = await vectorStore.getStats();
     const lastIndexed = await AsyncStorage.getItem(STORAGE_KEYS.LAST_INDEXED);
     
-    if (!storeData) {
-      return {
-        totalItems: 0,
-        byType: {},
-        lastIndexed: null,
-        storageSize: 0,
-      };
-    }
-    
-    const store: VectorizedContent[] = JSON.parse(storeData);
-    
-    // Count by type
-    const byType: Record<string, number> = {};
-    store.forEach(item => {
-      byType[item.type] = (byType[item.type] || 0) + 1;
-    });
-    
     return {
-      totalItems: store.length,
-      byType,
+      ...stats,
       lastIndexed: lastIndexed ? new Date(parseInt(lastIndexed)).toISOString() : null,
-      storageSize: new Blob([storeData]).size,
     };
   } catch (error) {
     console.error('Error getting vector store stats:', error);
@@ -648,9 +701,9 @@ export async function getVectorStoreStats(): Promise<{
 }
 
 /**
- * Hybrid search (semantic + keyword)
+ * Keyword search (BM25 over the stemmed, stopword-free text)
  */
-export async function hybridSearch(
+export async function keywordSearch(
   query: string,
   userId: string,
   options: {
@@ -660,60 +713,68 @@ export async function hybridSearch(
   } = {}
 ): Promise<SearchResult[]> {
   try {
-    // Perform semantic search
-    const semanticResults = await semanticSearch(query, userId, options);
-    
-    // Perform keyword search
-    const keywords = query.toLowerCase().split(/\s+/);
-    const storeData = await AsyncStorage.getItem(STORAGE_KEYS.VECTOR_STORE);
-    if (!storeData) return semanticResults;
-    
-    const store: VectorizedContent[] = JSON.parse(storeData);
-    
-    const keywordResults = store
-      .filter(item => item.metadata.userId === userId)
-      .map(item => {
-        const contentLower = item.content.toLowerCase();
-        const titleLower = (item.metadata.title || '').toLowerCase();
-        
-        // Count keyword matches
-        const matches = keywords.filter(kw => 
-          contentLower.includes(kw) || titleLower.includes(kw)
-        ).length;
-        
-        const keywordScore = matches / keywords.length;
-        
-        return {
-          ...item,
-          similarity: keywordScore,
-          relevanceScore: keywordScore,
-        } as SearchResult;
-      })
-      .filter(item => item.similarity > 0);
-    
-    // Merge results (deduplicate and combine scores)
-    const mergedMap = new Map<string, SearchResult>();
-    
-    semanticResults.forEach(result => {
-      mergedMap.set(result.id, result);
+    const { limit = 5, types, courseId } = options;
+    const matches = await vectorStore.keywordSearch(userId, query, {
+      limit,
+      types,
+      filter: courseId ? item => item.metadata.courseId === courseId : undefined,
     });
-    
-    keywordResults.forEach(result => {
-      const existing = mergedMap.get(result.id);
-      if (existing) {
-        // Combine scores
-        existing.relevanceScore = (existing.relevanceScore * 0.7) + (result.relevanceScore * 0.3);
-      } else {
-        mergedMap.set(result.id, result);
+    return matches.map(match => ({ ...match, relevanceScore: match.similarity }));
+  } catch (error) {
+    console.error('Error in keyword search:', error);
+    return [];
+  }
+}
+
+/**
+ * Hybrid search (semantic + BM25 keyword)
+ *
+ * Both lists are merged with reciprocal rank fusion, then the top candidates
+ * go through the configured reranker, if there is one. `similarity` stays the
+ * embedding similarity (0 for keyword-only hits); `relevanceScore` is the
+ * fused score scaled to 0-1, or the reranker's score.
+ */
+export async function hybridSearch(
+  query: string,
+  userId: string,
+  options: {
+    limit?: number;
+    types?: VectorizedContent['type'][];
+    courseId?: string;
+    rerank?: boolean; // default: on when a reranker is configured
+  } = {}
+): Promise<SearchResult[]> {
+  try {
+    const limit = options.limit || 5;
+    const candidates = Math.max(limit, RAG_CONFIG.hybridCandidates);
+
+    const [semanticResults, keywordResults] = await Promise.all([
+      semanticSearch(query, userId, { ...options, limit: candidates }),
+      keywordSearch(query, userId, { ...options, limit: candidates }),
+    ]);
+
+    // Keyword hits carry a BM25 score, not a cosine similarity
+    const keywordOnly = keywordResults.map(result => ({ ...result, similarity: 0 }));
+    const maxScore = 2 / (RAG_CONFIG.rrfK + 1);
+    let merged: SearchResult[] = reciprocalRankFusion<SearchResult>([semanticResults, keywordOnly])
+      .slice(0, candidates)
+      .map(({ item, score }) => ({ ...item, relevanceScore: score / maxScore }));
+
+    const reranker = options.rerank === false ? null : getReranker();
+    if (reranker && merged.length > 1) {
+      try {
+        const scores = await reranker.rerank(query, merged.map(({ id, content }) => ({ id, content })));
+        const byId = new Map(merged.map(result => [result.id, result]));
+        merged = scores
+          .filter(({ id }) => byId.has(id))
+          .map(({ id, score }) => ({ ...byId.get(id)!, relevanceScore: score }));
+      } catch (error) {
+        // Fall back to the fused order
+        console.warn('[RAG] Rerank failed:', error);
       }
-    });
-    
-    // Convert to array and sort
-    const merged = Array.from(mergedMap.values())
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, options.limit || 5);
-    
-    return merged;
+    }
+
+    return merged.slice(0, limit);
   } catch (error) {
     console.error('Error in hybrid search:', error);
     return [];
@@ -0,0 +1,194 @@
+/**
+ * Rank Fusion & Reranking
+ * Combines ranked result lists and optionally re-scores the top candidates
+ * with a cross-encoder.
+ *
+ * Reciprocal rank fusion only looks at positions, so BM25 scores and cosine
+ * similarities can be merged without calibrating one against the other.
+ * Rerankers sit behind one interface: a Hugging Face cross-encoder, any
+ * Cohere/Jina/TEI-style /rerank endpoint, or anything passed to setReranker().
+ */
+
+import { RAG_CONFIG } from '../../constants/config';
+
+export type RerankerId = keyof typeof RAG_CONFIG.rerank.providers;
+
+export interface RerankDocument {
+  id: string;
+  content: string;
+}
+
+export interface RerankResult {
+  id: string;
+  score: number;
+}
+
+export interface Reranker {
+  id: RerankerId | string;
+  isConfigured: () => boolean;
+  /** Scores for the given documents against the query, best first */
+  rerank: (query: string, documents: RerankDocument[], options?: { signal?: AbortSignal }) => Promise<RerankResult[]>;
+}
+
+export interface FusedResult<T> {
+  item: T;
+  score: number;
+  ranks: (number | null)[]; // 1-based position in each input list, null when absent
+}
+
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) per item.
+ * The first occurrence of an item is the one returned.
+ */
+export function reciprocalRankFusion<T extends { id: string }>(
+  lists: T[][],
+  k: number = RAG_CONFIG.rrfK
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+
+  lists.forEach((list, listIndex) => {
+    list.forEach((item, position) => {
+      let entry = fused.get(item.id);
+      if (!entry) {
+        entry = { item, score: 0, ranks: lists.map(() => null) };
+        fused.set(item.id, entry);
+      }
+      entry.score += 1 / (k + position + 1);
+      entry.ranks[listIndex] = position + 1;
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const huggingFaceReranker = (): Reranker => {
+  const settings = RAG_CONFIG.rerank.providers.huggingface;
+  return {
+    id: 'huggingface',
+    isConfigured: () => !!settings.apiKey,
+    rerank: async (query, documents, options = {}) => {
+      const response = await fetchWithTimeout(
+        `https://router.huggingface.co/hf-inference/models/${settings.model}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${settings.apiKey}`,
+          },
+          body: JSON.stringify({
+            inputs: documents.map(document => ({ text: query, text_pair: document.content })),
+          }),
+        },
+        settings.timeoutMs,
+        options.signal
+      );
+      if (!response.ok) {
+        throw new Error(`Rerank request failed (${response.status})`);
+      }
+
+      // One classification per pair: either [{label, score}] or {label, score}
+      const data: any[] = await response.json();
+      return documents
+        .map((document, i) => ({
+          id: document.id,
+          score: Number((Array.isArray(data[i]) ? data[i][0] : data[i])?.score) || 0,
+        }))
+        .sort((a, b) => b.score - a.score);
+    },
+  };
+};
+
+const endpointReranker = (): Reranker => {
+  const settings = RAG_CONFIG.rerank.providers.endpoint;
+  return {
+    id: 'endpoint',
+    isConfigured: () => !!settings.baseUrl,
+    rerank: async (query, documents, options = {}) => {
+      const response = await fetchWithTimeout(
+        `${settings.baseUrl.replace(/\/$/, '')}/rerank`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            query,
+            documents: documents.map(document => document.content),
+            texts: documents.map(document => document.content), // TEI's field name
+            top_n: documents.length,
+          }),
+        },
+        settings.timeoutMs,
+        options.signal
+      );
+      if (!response.ok) {
+        throw new Error(`Rerank request failed (${response.status})`);
+      }
+
+      // Cohere/Jina: {results: [{index, relevance_score}]}; TEI: [{index, score}]
+      const data = await response.json();
+      const results: any[] = Array.isArray(data) ? data : data.results || [];
+      return results
+        .filter(result => documents[result.index])
+        .map(result => ({
+          id: documents[result.index].id,
+          score: Number(result.relevance_score ?? result.score) || 0,
+        }))
+        .sort((a, b) => b.score - a.score);
+    },
+  };
+};
+
+const factories: Record<RerankerId, () => Reranker> = {
+  huggingface: huggingFaceReranker,
+  endpoint: endpointReranker,
+};
+
+let override: Reranker | null | undefined;
+
+/**
+ * Replace the configured reranker at runtime (null turns reranking off,
+ * undefined goes back to RAG_CONFIG)
+ */
+export function setReranker(reranker: Reranker | null | undefined): void {
+  override = reranker;
+}
+
+/**
+ * The active reranker, or null when none is configured
+ */
+export function getReranker(): Reranker | null {
+  if (override !== undefined) return override;
+
+  const factory = factories[RAG_CONFIG.rerank.provider as RerankerId];
+  if (!factory) return null;
+  const reranker = factory();
+  return reranker.isConfigured() ? reranker : null;
+}
+
+export default {
+  reciprocalRankFusion,
+  setReranker,
+  getReranker,
+};
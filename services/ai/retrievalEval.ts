@@ -0,0 +1,130 @@
+/**
+ * Retrieval Evaluation
+ * Metrics for RAG retrieval quality against a labelled set of queries
+ * (query -> ids that should come back): recall@k, MRR and nDCG per retriever.
+ *
+ * No app imports, so it also runs under Node: `npm run retrieval:eval` scores
+ * BM25 over the fixture corpus in scripts/fixtures/retrievalEval.js. The
+ * embedding-based retrievers need the app; see ragRetrievalEval.ts.
+ */
+
+export interface RetrievalEvalCase {
+  query: string;
+  expectedIds: string[];
+}
+
+/**
+ * Anything that returns ranked ids for a query
+ */
+export type Retriever = (query: string, limit: number) => Promise<{ id: string }[]>;
+
+export interface RetrievalCaseResult {
+  query: string;
+  expectedIds: string[];
+  retrievedIds: string[];
+  recall: number; // share of expected ids in the top k
+  reciprocalRank: number; // 1 / position of the first expected id, 0 if none
+  ndcg: number; // rank-discounted gain, 1 = expected ids ranked first
+}
+
+export interface RetrievalEvalReport {
+  name: string;
+  k: number;
+  cases: RetrievalCaseResult[];
+  recallAtK: number;
+  mrr: number;
+  ndcg: number;
+  hitRate: number; // share of queries with at least one expected id in the top k
+  averageLatencyMs: number;
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Metrics for one ranked list against the expected ids
+ */
+export function scoreRetrieval(
+  retrievedIds: string[],
+  expectedIds: string[],
+  k: number
+): Pick<RetrievalCaseResult, 'recall' | 'reciprocalRank' | 'ndcg'> {
+  const expected = new Set(expectedIds);
+  const top = retrievedIds.slice(0, k);
+  if (expected.size === 0) return { recall: 0, reciprocalRank: 0, ndcg: 0 };
+
+  const firstHit = top.findIndex(id => expected.has(id));
+  const dcg = top.reduce((sum, id, i) => sum + (expected.has(id) ? 1 / Math.log2(i + 2) : 0), 0);
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(expected.size, k); i++) idealDcg += 1 / Math.log2(i + 2);
+
+  return {
+    recall: top.filter(id => expected.has(id)).length / expected.size,
+    reciprocalRank: firstHit >= 0 ? 1 / (firstHit + 1) : 0,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+  };
+}
+
+/**
+ * Run every case through one retriever
+ */
+export async function evaluateRetriever(
+  name: string,
+  cases: RetrievalEvalCase[],
+  retriever: Retriever,
+  k: number = 5
+): Promise<RetrievalEvalReport> {
+  const results: RetrievalCaseResult[] = [];
+  const latencies: number[] = [];
+
+  for (const { query, expectedIds } of cases) {
+    const started = Date.now();
+    const retrieved = await retriever(query, k);
+    latencies.push(Date.now() - started);
+
+    const retrievedIds = retrieved.map(result => result.id);
+    results.push({ query, expectedIds, retrievedIds, ...scoreRetrieval(retrievedIds, expectedIds, k) });
+  }
+
+  return {
+    name,
+    k,
+    cases: results,
+    recallAtK: mean(results.map(result => result.recall)),
+    mrr: mean(results.map(result => result.reciprocalRank)),
+    ndcg: mean(results.map(result => result.ndcg)),
+    hitRate: mean(results.map(result => (result.reciprocalRank > 0 ? 1 : 0))),
+    averageLatencyMs: mean(latencies),
+  };
+}
+
+/**
+ * One row per retriever, plus the queries each one missed entirely
+ */
+export function formatEvalReport(reports: RetrievalEvalReport[]): string {
+  const k = reports[0]?.k ?? 0;
+  const pad = (text: string, width: number) => text.padEnd(width);
+  const number = (value: number) => value.toFixed(3).padStart(8);
+
+  const lines = [
+    `${pad('retriever', 16)}${`recall@${k}`.padStart(10)}${'MRR'.padStart(8)}${'nDCG'.padStart(8)}${'hit'.padStart(8)}${'ms'.padStart(8)}`,
+    ...reports.map(report =>
+      `${pad(report.name, 16)}  ${number(report.recallAtK)}${number(report.mrr)}${number(report.ndcg)}${number(report.hitRate)}${report.averageLatencyMs.toFixed(0).padStart(8)}`
+    ),
+  ];
+
+  reports.forEach((report) => {
+    const missed = report.cases.filter(result => result.reciprocalRank === 0);
+    if (missed.length > 0) {
+      lines.push('', `${report.name} missed:`, ...missed.map(result => `  - ${result.query}`));
+    }
+  });
+
+  return lines.join('\n');
+}
+
+export default {
+  scoreRetrieval,
+  evaluateRetriever,
+  formatEvalReport,
+};
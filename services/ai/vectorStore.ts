@@ -0,0 +1,568 @@
+/**
+ * Vector Store
+ * Sharded, incrementally persisted embedding store with an in-memory cache
+ * and an IVF approximate nearest-neighbour index per shard.
+ *
+ * - One shard per user, content type and embedding model. A shard is loaded
+ *   once, on first use, and then served from memory. Vectors from different
+ *   models are never in the same shard, so they are never compared.
+ * - Shards are persisted as fixed-size segments, so a write only rewrites the
+ *   segments it touched (and a small manifest), never the whole store.
+ * - Embeddings are stored as base64 Float32 - about a third of the size of a
+ *   JSON number array.
+ *
+ * Storage is injected, so the store runs the same against AsyncStorage or an
+ * in-memory map. With a `text` option, each shard also keeps a BM25 keyword
+ * index, built in memory as the shard loads.
+ */
+
+import { IvfIndex, IvfIndexOptions } from './ivfIndex';
+import { combineCorpusStats, KeywordIndex, tokenize } from './keywordIndex';
+
+export interface StoredVector {
+  id: string;
+  embedding: number[];
+  type: string;
+  embeddingModel?: string; // model tag; missing on vectors stored before tagging
+  metadata: { userId: string };
+  timestamp: number;
+}
+
+/**
+ * An item as kept in memory - its vector lives in the shard's index
+ */
+export type StoredItem<T extends StoredVector> = Omit<T, 'embedding'>;
+
+export type VectorMatch<T extends StoredVector> = T & { similarity: number };
+
+export interface VectorStoreStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export interface VectorStoreOptions {
+  storage: VectorStoreStorage;
+  keyPrefix?: string;
+  segmentSize?: number; // items per persisted segment
+  legacyKey?: string; // single-array store to migrate on first load
+  index?: IvfIndexOptions;
+  text?: (item: StoredItem<any>) => string; // searchable text for the keyword index
+}
+
+export interface VectorStoreStats {
+  totalItems: number;
+  byType: Record<string, number>;
+  storageSize: number;
+}
+
+interface ShardManifest {
+  userId: string;
+  type: string;
+  model?: string;
+  count: number;
+  segments: Record<string, number>; // segment number -> stored size in characters
+  trainedSize?: number;
+}
+
+interface StoreManifest {
+  version: 1;
+  shards: Record<string, ShardManifest>;
+}
+
+type PersistedItem = Record<string, any> & { vector: string; bucket?: number };
+
+interface Shard<T extends StoredVector> {
+  id: string;
+  userId: string;
+  type: string;
+  model?: string;
+  items: Map<string, StoredItem<T>>;
+  segmentOf: Map<string, number>;
+  segments: Map<number, Set<string>>;
+  dirty: Set<number>;
+  index: IvfIndex;
+  keywords: KeywordIndex;
+  persistedRevision: number;
+}
+
+const encodeVector = (vector: Float32Array): string => {
+  const bytes = new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const decodeVector = (encoded: string): Float32Array => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Float32Array(bytes.buffer);
+};
+
+export class VectorStore<T extends StoredVector> {
+  private storage: VectorStoreStorage;
+  private prefix: string;
+  private segmentSize: number;
+  private legacyKey?: string;
+  private indexOptions: IvfIndexOptions;
+  private text?: (item: StoredItem<T>) => string;
+
+  private manifest: StoreManifest | null = null;
+  private manifestLoading: Promise<StoreManifest> | null = null;
+  private shards = new Map<string, Shard<T>>();
+  private shardLoading = new Map<string, Promise<Shard<T>>>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: VectorStoreOptions) {
+    this.storage = options.storage;
+    this.prefix = options.keyPrefix || '@vector_store';
+    this.segmentSize = options.segmentSize || 200;
+    this.legacyKey = options.legacyKey;
+    this.indexOptions = options.index || {};
+    this.text = options.text;
+  }
+
+  // ========================================
+  // READS
+  // ========================================
+
+  /**
+   * Nearest items to a unit-length query vector, best first
+   */
+  async search(
+    userId: string,
+    query: number[],
+    options: {
+      limit: number;
+      types?: string[];
+      model?: string; // only compare against vectors from this model
+      filter?: (item: StoredItem<T>) => boolean;
+    }
+  ): Promise<VectorMatch<T>[]> {
+    const shards = (await this.loadShards(userId, options.types))
+      .filter(shard => options.model === undefined || shard.model === options.model);
+    const matches: VectorMatch<T>[] = [];
+
+    for (const shard of shards) {
+      const accept = options.filter
+        ? (id: string) => options.filter!(shard.items.get(id)!)
+        : undefined;
+      const found = shard.index.search(query, options.limit, accept);
+      found.forEach(({ id, score }) => {
+        matches.push({ ...this.hydrate(shard, id), similarity: score });
+      });
+
+      if (shard.index.revision !== shard.persistedRevision) {
+        await this.exclusive(() => this.persistShard(shard));
+      }
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit);
+  }
+
+  /**
+   * BM25 matches for a text query, best first. Scores are comparable across
+   * shards. Empty unless the store was created with a `text` option.
+   */
+  async keywordSearch(
+    userId: string,
+    query: string,
+    options: {
+      limit: number;
+      types?: string[];
+      filter?: (item: StoredItem<T>) => boolean;
+    }
+  ): Promise<VectorMatch<T>[]> {
+    const terms = tokenize(query);
+    if (!this.text || terms.length === 0) return [];
+
+    const shards = await this.loadShards(userId, options.types);
+    const corpus = combineCorpusStats(shards.map(shard => shard.keywords));
+    const matches: VectorMatch<T>[] = [];
+
+    shards.forEach((shard) => {
+      const accept = options.filter
+        ? (id: string) => options.filter!(shard.items.get(id)!)
+        : undefined;
+      shard.keywords.search(terms, options.limit, { accept, corpus }).forEach(({ id, score }) => {
+        matches.push({ ...this.hydrate(shard, id), similarity: score });
+      });
+    });
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit);
+  }
+
+  /**
+   * A user's item counts per embedding model, from the manifest ('' for
+   * untagged vectors)
+   */
+  async countByModel(userId: string): Promise<Record<string, number>> {
+    const manifest = await this.loadManifest();
+    const counts: Record<string, number> = {};
+    Object.values(manifest.shards)
+      .filter(shard => shard.userId === userId)
+      .forEach((shard) => {
+        counts[shard.model || ''] = (counts[shard.model || ''] || 0) + shard.count;
+      });
+    return counts;
+  }
+
+  async get(userId: string, id: string): Promise<T | null> {
+    const shards = await this.loadShards(userId);
+    const shard = shards.find(s => s.items.has(id));
+    return shard ? this.hydrate(shard, id) : null;
+  }
+
+  /**
+   * A user's items matching a predicate (checked before embeddings are copied)
+   */
+  async filter(userId: string, predicate: (item: StoredItem<T>) => boolean, types?: string[]): Promise<T[]> {
+    const shards = await this.loadShards(userId, types);
+    const result: T[] = [];
+    shards.forEach((shard) => {
+      shard.items.forEach((item, id) => {
+        if (predicate(item)) result.push(this.hydrate(shard, id));
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Counts come from the manifest, so no shard is loaded
+   */
+  async getStats(): Promise<VectorStoreStats> {
+    const manifest = await this.loadManifest();
+    const stats: VectorStoreStats = { totalItems: 0, byType: {}, storageSize: 0 };
+
+    Object.values(manifest.shards).forEach((shard) => {
+      stats.totalItems += shard.count;
+      stats.byType[shard.type] = (stats.byType[shard.type] || 0) + shard.count;
+      Object.values(shard.segments).forEach((size) => {
+        stats.storageSize += size;
+      });
+    });
+
+    return stats;
+  }
+
+  // ========================================
+  // WRITES
+  // ========================================
+
+  /**
+   * Insert or replace items. Only the touched segments are rewritten.
+   */
+  upsert(items: T[]): Promise<void> {
+    return this.exclusive(async () => {
+      const touched = new Set<Shard<T>>();
+
+      for (const item of items) {
+        // An item that changed type or model moves to another shard
+        const targetId = this.shardId(item.metadata.userId, item.type, item.embeddingModel);
+        const userShards = await this.loadShards(item.metadata.userId);
+        userShards.forEach((shard) => {
+          if (shard.id !== targetId && this.removeFromShard(shard, item.id)) touched.add(shard);
+        });
+
+        const shard = await this.getOrCreateShard(item.metadata.userId, item.type, item.embeddingModel);
+        this.insertIntoShard(shard, item, Float32Array.from(item.embedding));
+        touched.add(shard);
+      }
+
+      for (const shard of touched) {
+        await this.persistShard(shard);
+      }
+    });
+  }
+
+  /**
+   * Remove items matching a predicate - across all users unless `userId` is given
+   */
+  removeWhere(predicate: (item: StoredItem<T>) => boolean, userId?: string): Promise<number> {
+    return this.exclusive(async () => {
+      const manifest = await this.loadManifest();
+      const shardIds = Object.keys(manifest.shards).filter(
+        id => !userId || manifest.shards[id].userId === userId
+      );
+      let removed = 0;
+
+      for (const shardId of shardIds) {
+        const shard = await this.loadShard(shardId);
+        const ids = Array.from(shard.items.entries())
+          .filter(([, item]) => predicate(item))
+          .map(([id]) => id);
+        if (ids.length === 0) continue;
+
+        ids.forEach(id => this.removeFromShard(shard, id));
+        removed += ids.length;
+        await this.persistShard(shard);
+      }
+
+      return removed;
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.exclusive(async () => {
+      const manifest = await this.loadManifest();
+
+      for (const [shardId, shard] of Object.entries(manifest.shards)) {
+        for (const segment of Object.keys(shard.segments)) {
+          await this.storage.removeItem(this.segmentKey(shardId, Number(segment)));
+        }
+        await this.storage.removeItem(this.centroidKey(shardId));
+      }
+
+      manifest.shards = {};
+      this.shards.clear();
+      this.shardLoading.clear();
+      await this.storage.removeItem(this.manifestKey());
+    });
+  }
+
+  // ========================================
+  // SHARDS
+  // ========================================
+
+  private shardId(userId: string, type: string, model?: string): string {
+    return model ? `${userId}_${type}_${model.replace(/[^a-zA-Z0-9.-]+/g, '-')}` : `${userId}_${type}`;
+  }
+
+  private async loadShards(userId: string, types?: string[]): Promise<Shard<T>[]> {
+    const manifest = await this.loadManifest();
+    const ids = Object.keys(manifest.shards).filter((id) => {
+      const shard = manifest.shards[id];
+      return shard.userId === userId && (!types || types.length === 0 || types.includes(shard.type));
+    });
+    return Promise.all(ids.map(id => this.loadShard(id)));
+  }
+
+  private async getOrCreateShard(userId: string, type: string, model?: string): Promise<Shard<T>> {
+    const manifest = await this.loadManifest();
+    const id = this.shardId(userId, type, model);
+    if (!manifest.shards[id]) {
+      manifest.shards[id] = { userId, type, model, count: 0, segments: {} };
+      this.shards.set(id, this.createShard(id, userId, type, model));
+    }
+    return this.loadShard(id);
+  }
+
+  private createShard(id: string, userId: string, type: string, model?: string): Shard<T> {
+    const index = new IvfIndex(this.indexOptions);
+    return {
+      id,
+      userId,
+      type,
+      model,
+      items: new Map(),
+      segmentOf: new Map(),
+      segments: new Map(),
+      dirty: new Set(),
+      index,
+      keywords: new KeywordIndex(),
+      persistedRevision: index.revision,
+    };
+  }
+
+  private loadShard(id: string): Promise<Shard<T>> {
+    const cached = this.shards.get(id);
+    if (cached) return Promise.resolve(cached);
+
+    let loading = this.shardLoading.get(id);
+    if (!loading) {
+      loading = (async () => {
+        const info = this.manifest!.shards[id];
+        const shard = this.createShard(id, info.userId, info.type, info.model);
+
+        const centroidData = await this.storage.getItem(this.centroidKey(id));
+        if (centroidData) {
+          shard.index.restore((JSON.parse(centroidData) as string[]).map(decodeVector), info.trainedSize || 0);
+        }
+
+        for (const segment of Object.keys(info.segments).map(Number)) {
+          const data = await this.storage.getItem(this.segmentKey(id, segment));
+          const persisted: PersistedItem[] = data ? JSON.parse(data) : [];
+          persisted.forEach(({ vector, bucket, ...item }) => {
+            shard.items.set(item.id, item as StoredItem<T>);
+            shard.index.add(item.id, decodeVector(vector), bucket);
+            if (this.text) shard.keywords.add(item.id, this.text(item as StoredItem<T>));
+            this.placeInSegment(shard, item.id, segment);
+          });
+        }
+
+        shard.persistedRevision = shard.index.revision;
+        this.shards.set(id, shard);
+        this.shardLoading.delete(id);
+        return shard;
+      })();
+      this.shardLoading.set(id, loading);
+    }
+    return loading;
+  }
+
+  private insertIntoShard(shard: Shard<T>, item: T, vector: Float32Array): void {
+    const { embedding, ...stored } = item;
+    const existing = shard.segmentOf.get(item.id);
+
+    shard.items.set(item.id, stored);
+    shard.index.add(item.id, vector);
+    if (this.text) shard.keywords.add(item.id, this.text(stored));
+
+    if (existing !== undefined) {
+      shard.dirty.add(existing);
+      return;
+    }
+
+    // Fill the first segment with room before opening a new one
+    let target = 0;
+    while ((shard.segments.get(target)?.size || 0) >= this.segmentSize) target++;
+    this.placeInSegment(shard, item.id, target);
+    shard.dirty.add(target);
+  }
+
+  private placeInSegment(shard: Shard<T>, id: string, segment: number): void {
+    shard.segmentOf.set(id, segment);
+    if (!shard.segments.has(segment)) shard.segments.set(segment, new Set());
+    shard.segments.get(segment)!.add(id);
+  }
+
+  private removeFromShard(shard: Shard<T>, id: string): boolean {
+    const segment = shard.segmentOf.get(id);
+    if (segment === undefined) return false;
+
+    shard.items.delete(id);
+    shard.index.remove(id);
+    shard.keywords.remove(id);
+    shard.segmentOf.delete(id);
+    shard.segments.get(segment)?.delete(id);
+    shard.dirty.add(segment);
+    return true;
+  }
+
+  private hydrate(shard: Shard<T>, id: string): T {
+    return { ...shard.items.get(id)!, embedding: Array.from(shard.index.get(id)!) } as T;
+  }
+
+  // ========================================
+  // PERSISTENCE
+  // ========================================
+
+  /**
+   * Serialize writes so concurrent upserts can't interleave segment rewrites
+   */
+  private exclusive<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.writing.then(task);
+    this.writing = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async persistShard(shard: Shard<T>): Promise<void> {
+    const manifest = await this.loadManifest();
+    const info = manifest.shards[shard.id] || {
+      userId: shard.userId,
+      type: shard.type,
+      model: shard.model,
+      count: 0,
+      segments: {},
+    };
+
+    // A retrain moves every item to a new bucket
+    if (shard.index.revision !== shard.persistedRevision) {
+      shard.segments.forEach((_, segment) => shard.dirty.add(segment));
+      const centroids = shard.index.getCentroids();
+      if (centroids.length > 0) {
+        await this.storage.setItem(this.centroidKey(shard.id), JSON.stringify(centroids.map(encodeVector)));
+      } else {
+        await this.storage.removeItem(this.centroidKey(shard.id));
+      }
+      info.trainedSize = shard.index.trainedAt;
+      shard.persistedRevision = shard.index.revision;
+    }
+
+    for (const segment of shard.dirty) {
+      const ids = shard.segments.get(segment);
+      const key = this.segmentKey(shard.id, segment);
+
+      if (!ids || ids.size === 0) {
+        shard.segments.delete(segment);
+        delete info.segments[segment];
+        await this.storage.removeItem(key);
+        continue;
+      }
+
+      const persisted: PersistedItem[] = Array.from(ids).map(id => ({
+        ...shard.items.get(id)!,
+        vector: encodeVector(shard.index.get(id)!),
+        bucket: shard.index.getBucket(id),
+      }));
+      const data = JSON.stringify(persisted);
+      await this.storage.setItem(key, data);
+      info.segments[segment] = data.length;
+    }
+    shard.dirty.clear();
+
+    info.count = shard.items.size;
+    if (info.count === 0) {
+      delete manifest.shards[shard.id];
+      this.shards.delete(shard.id);
+      await this.storage.removeItem(this.centroidKey(shard.id));
+    } else {
+      manifest.shards[shard.id] = info;
+    }
+    await this.storage.setItem(this.manifestKey(), JSON.stringify(manifest));
+  }
+
+  private loadManifest(): Promise<StoreManifest> {
+    if (this.manifest) return Promise.resolve(this.manifest);
+
+    if (!this.manifestLoading) {
+      this.manifestLoading = (async () => {
+        const data = await this.storage.getItem(this.manifestKey());
+        const manifest: StoreManifest = data ? JSON.parse(data) : { version: 1, shards: {} };
+        this.manifest = manifest;
+        if (!data) await this.migrateLegacyStore();
+        return manifest;
+      })().finally(() => {
+        this.manifestLoading = null;
+      });
+    }
+    return this.manifestLoading;
+  }
+
+  /**
+   * Move items from the old single-array store into shards
+   */
+  private async migrateLegacyStore(): Promise<void> {
+    if (!this.legacyKey) return;
+    const data = await this.storage.getItem(this.legacyKey);
+    if (!data) return;
+
+    const items: T[] = JSON.parse(data);
+    const touched = new Set<Shard<T>>();
+    for (const item of items) {
+      if (!item?.metadata?.userId || !Array.isArray(item.embedding)) continue;
+      const shard = await this.getOrCreateShard(item.metadata.userId, item.type, item.embeddingModel);
+      this.insertIntoShard(shard, item, Float32Array.from(item.embedding));
+      touched.add(shard);
+    }
+
+    for (const shard of touched) {
+      await this.persistShard(shard);
+    }
+    await this.storage.removeItem(this.legacyKey);
+    console.log(`[VectorStore] Migrated ${items.length} items into ${touched.size} shards`);
+  }
+
+  private manifestKey(): string {
+    return `${this.prefix}_manifest`;
+  }
+
+  private segmentKey(shardId: string, segment: number): string {
+    return `${this.prefix}_${shardId}_${segment}`;
+  }
+
+  private centroidKey(shardId: string): string {
+    return `${this.prefix}_${shardId}_ivf`;
+  }
+}
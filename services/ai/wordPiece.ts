@@ -0,0 +1,106 @@
+/**
+ * WordPiece Tokenizer
+ * BERT-style (uncased) tokenization for the on-device embedding model.
+ *
+ * Mirrors Hugging Face's BertTokenizer: clean and lower-case the text, strip
+ * accents, split on whitespace and punctuation, then break each word into
+ * the longest vocabulary pieces ("embeddings" -> "em", "##bed", "##ding",
+ * "##s"). Built from the model's vocab.txt, one token per line.
+ */
+
+export interface EncodedText {
+  inputIds: number[];
+  attentionMask: number[];
+}
+
+const MAX_WORD_LENGTH = 100;
+
+const isPunctuation = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  if ((code >= 33 && code <= 47) || (code >= 58 && code <= 64) || (code >= 91 && code <= 96) || (code >= 123 && code <= 126)) {
+    return true;
+  }
+  return /\p{P}/u.test(char);
+};
+
+const isCjk = (code: number): boolean =>
+  (code >= 0x4e00 && code <= 0x9fff) ||
+  (code >= 0x3400 && code <= 0x4dbf) ||
+  (code >= 0xf900 && code <= 0xfaff) ||
+  (code >= 0x20000 && code <= 0x2fa1f);
+
+export class WordPieceTokenizer {
+  private vocab = new Map<string, number>();
+  private unkId: number;
+  private clsId: number;
+  private sepId: number;
+
+  constructor(vocabText: string) {
+    vocabText.split(/\r?\n/).forEach((token, index) => {
+      if (token) this.vocab.set(token, index);
+    });
+    this.unkId = this.requireToken('[UNK]');
+    this.clsId = this.requireToken('[CLS]');
+    this.sepId = this.requireToken('[SEP]');
+  }
+
+  /**
+   * Split into basic tokens - words and single punctuation marks
+   */
+  basicTokenize(text: string): string[] {
+    let spaced = '';
+    for (const char of text.normalize('NFD')) {
+      const code = char.codePointAt(0)!;
+      if (code === 0 || code === 0xfffd || (/\p{Cc}/u.test(char) && !/\s/.test(char))) continue;
+      if (/\p{Mn}/u.test(char)) continue; // accents, after NFD
+      if (isCjk(code) || isPunctuation(char)) spaced += ` ${char} `;
+      else spaced += /\s/.test(char) ? ' ' : char;
+    }
+    return spaced.toLowerCase().split(' ').filter(Boolean);
+  }
+
+  /**
+   * Greedy longest-match-first split of one word into vocabulary pieces
+   */
+  wordPieces(word: string): number[] {
+    const chars = Array.from(word);
+    if (chars.length > MAX_WORD_LENGTH) return [this.unkId];
+
+    const pieces: number[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let match: number | undefined;
+      while (start < end) {
+        const piece = (start > 0 ? '##' : '') + chars.slice(start, end).join('');
+        match = this.vocab.get(piece);
+        if (match !== undefined) break;
+        end--;
+      }
+      if (match === undefined) return [this.unkId];
+      pieces.push(match);
+      start = end;
+    }
+    return pieces;
+  }
+
+  /**
+   * `[CLS] pieces... [SEP]`, truncated to `maxTokens`
+   */
+  encode(text: string, maxTokens: number): EncodedText {
+    const ids: number[] = [];
+    for (const word of this.basicTokenize(text)) {
+      ids.push(...this.wordPieces(word));
+      if (ids.length >= maxTokens - 2) break;
+    }
+
+    const inputIds = [this.clsId, ...ids.slice(0, maxTokens - 2), this.sepId];
+    return { inputIds, attentionMask: inputIds.map(() => 1) };
+  }
+
+  private requireToken(token: string): number {
+    const id = this.vocab.get(token);
+    if (id === undefined) throw new Error(`Vocabulary is missing ${token}`);
+    return id;
+  }
+}
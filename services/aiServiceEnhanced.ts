@@ -1,53 +1,24 @@
 /**
- * Enhanced AI Service - Hugging Face Integration
- * Provides dynamic AI responses using multiple models
+ * Enhanced AI Service
+ * Provides dynamic AI responses through the configured LLM provider
+ * (Hugging Face, OpenAI-compatible endpoint or local Ollama server)
  * Supports text generation, summarization, and conversation
  */
 
-import { HfInference } from '@huggingface/inference';
-import Constants from 'expo-constants';
+import { FLASHCARD_CONFIG, QUIZ_CONFIG } from '../constants/config';
+import { QuizQuestion } from '../types';
 import { errorTracker } from '../utils/errorTracking';
 import { chatRateLimiter } from '../utils/rateLimiter';
-
-// Configuration - Load from environment variables
-const HF_API_KEY = Constants.expoConfig?.extra?.EXPO_PUBLIC_HUGGING_FACE_API_KEY || 
-  process.env.EXPO_PUBLIC_HUGGING_FACE_API_KEY || 
-  '';
-const USE_FREE_TIER = true; // Set to true to use free inference API
-
-// Initialize Hugging Face client ONLY if API key exists
-const hf = HF_API_KEY ? new HfInference(HF_API_KEY) : null;
-
-// Offline mode flag - true when no API key available
-const isOfflineMode = !HF_API_KEY;
-
-console.log(isOfflineMode ? '⚠️ Running in OFFLINE mode (no API key)' : '✅ AI mode enabled with API key');
+import { ChatMessage, getLLMProvider, isAbortError } from './ai/llmProviders';
+import { getPromptLanguageInstruction } from './i18n/i18nService';
 
 /**
- * Model configurations for different tasks
- * Using models that are GUARANTEED to work on Hugging Face Inference API
- * These are serverless inference API models that don't require manual setup
+ * Streaming and cancellation for a single reply
  */
-const MODELS = {
-  // Chat completion model (works without manual setup)
-  conversation: 'meta-llama/Llama-3.2-1B-Instruct',
-  
-  // Good for summarization
-  summarization: 'facebook/bart-large-cnn',
-  
-  // Fallback models if primary doesn't work
-  fallbacks: {
-    conversation: [
-      'HuggingFaceH4/zephyr-7b-beta',
-      'microsoft/DialoGPT-medium',
-      'facebook/blenderbot-400M-distill',
-    ],
-    summarization: [
-      'sshleifer/distilbart-cnn-12-6',
-      'google/pegasus-xsum',
-    ],
-  }
-};
+export interface StreamOptions {
+  onToken?: (partialText: string) => void;
+  signal?: AbortSignal;
+}
 
 /**
  * Conversation context manager
@@ -79,9 +50,25 @@ Guidelines:
 };
 
 /**
- * Generate AI response using Hugging Face Inference API
+ * A system prompt with the reply-language instruction for the active
+ * language. JSON prompts keep their field names in English so parsing
+ * still works.
+ */
+const withLanguageInstruction = (prompt: string, isJson = false): string => {
+  const instruction = getPromptLanguageInstruction();
+  if (!instruction) return prompt;
+  return isJson
+    ? `${prompt} ${instruction} Keep the JSON field names and "type" values in English.`
+    : `${prompt}\n\n${instruction}`;
+};
+
+/**
+ * Generate AI response using the active LLM provider
  * With automatic fallback to alternative models and offline mode
  * Includes rate limiting protection
+ *
+ * Pass `onToken` to stream the reply (called with the text so far) and `signal`
+ * to stop it; a stopped reply resolves with the partial text and `cancelled: true`.
  */
 export async function generateAIResponse(
   userMessage: string,
@@ -90,14 +77,23 @@ export async function generateAIResponse(
     temperature?: number;
     useContext?: boolean;
     userId?: string;
-  } = {}
-): Promise<{ text: string; success: boolean; error?: string }> {
+  } & StreamOptions = {}
+): Promise<{ text: string; success: boolean; error?: string; cancelled?: boolean }> {
+  // The user turn added to the conversation, removed again if no reply is kept
+  let userTurn: ConversationContext['history'][number] | null = null;
+  const dropUserTurn = () => {
+    const index = userTurn ? conversationContext.history.indexOf(userTurn) : -1;
+    if (index >= 0) conversationContext.history.splice(index, 1);
+  };
+
   try {
     const {
       maxTokens = 500,
       temperature = 0.7,
       useContext = true,
       userId = 'anonymous',
+      onToken,
+      signal,
     } = options;
 
     // Check rate limit
@@ -116,8 +112,10 @@ export async function generateAIResponse(
       };
     }
 
+    const provider = await getLLMProvider();
+
     // If offline mode, use intelligent fallback immediately
-    if (isOfflineMode) {
+    if (!provider.isConfigured()) {
       console.log('🔌 Offline mode: Using intelligent fallback');
       const fallbackText = getEnhancedFallback(userMessage);
       return {
@@ -128,10 +126,11 @@ export async function generateAIResponse(
 
     // Add user message to context
     if (useContext) {
-      conversationContext.history.push({
+      userTurn = {
         role: 'user',
         content: userMessage,
-      });
+      };
+      conversationContext.history.push(userTurn);
 
       // Keep only last 6 messages to manage token limits
       if (conversationContext.history.length > 6) {
@@ -146,21 +145,24 @@ export async function generateAIResponse(
           .join('\n\n')
       : '';
 
+    const systemPrompt = withLanguageInstruction(conversationContext.systemPrompt);
     const fullPrompt = useContext
-      ? `${conversationContext.systemPrompt}\n\n${conversationHistory}\n\nUniMate:`
-      : `${conversationContext.systemPrompt}\n\nStudent: ${userMessage}\n\nUniMate:`;
+      ? `${systemPrompt}\n\n${conversationHistory}\n\nUniMate:`
+      : `${systemPrompt}\n\nStudent: ${userMessage}\n\nUniMate:`;
 
     // Try primary model, then fallbacks
-    const modelsToTry = [MODELS.conversation, ...MODELS.fallbacks.conversation];
+    const modelsToTry = provider.getModels();
     
     for (let i = 0; i < modelsToTry.length; i++) {
+      let streamed = '';
+
       try {
         const model = modelsToTry[i];
-        console.log(`🔍 Trying model: ${model}`);
+        console.log(`🔍 Trying ${provider.id} model: ${model}`);
         
         // Build messages array for chat completion
-        const messages: Array<{ role: string; content: string }> = [
-          { role: 'system', content: conversationContext.systemPrompt }
+        const messages: ChatMessage[] = [
+          { role: 'system', content: systemPrompt }
         ];
         
         // Add conversation history if context is enabled
@@ -177,15 +179,21 @@ export async function generateAIResponse(
         // Add current user message
         messages.push({ role: 'user', content: userMessage });
         
-        // Use Chat Completion API for conversational models
-        const response = await hf!.chatCompletion({
-          model: model,
-          messages: messages,
-          max_tokens: maxTokens,
-          temperature: temperature,
-        });
-
-        let aiText = response.choices[0]?.message?.content || '';
+        let aiText = onToken
+          ? await provider.chatStream(
+              messages,
+              (delta) => {
+                streamed += delta;
+                onToken(streamed.replace(/^(Assistant|AI|UniMate):\s*/i, ''));
+              },
+              { model, maxTokens, temperature, signal }
+            )
+          : await provider.chat(messages, {
+              model,
+              maxTokens,
+              temperature,
+              signal,
+            });
         aiText = aiText.trim();
 
         // Clean up response
@@ -205,10 +213,28 @@ export async function generateAIResponse(
           success: true,
         };
       } catch (modelError: any) {
+        // Stopped by the user: keep whatever already arrived
+        if (isAbortError(modelError) || signal?.aborted) {
+          const partial = streamed.replace(/^(Assistant|AI|UniMate):\s*/i, '').trim();
+          if (useContext) {
+            if (partial) {
+              conversationContext.history.push({ role: 'assistant', content: partial });
+            } else {
+              dropUserTurn();
+            }
+          }
+          console.log(`⏹️ Response cancelled after ${partial.length} characters`);
+          return {
+            text: partial,
+            success: true,
+            cancelled: true,
+          };
+        }
+
         console.log(`❌ Model ${modelsToTry[i]} failed:`, modelError.message);
         
-        // If this is the last model, throw error
-        if (i === modelsToTry.length - 1) {
+        // If this is the last model, or the reply was already partly shown, throw error
+        if (i === modelsToTry.length - 1 || streamed) {
           throw modelError;
         }
         
@@ -222,6 +248,9 @@ export async function generateAIResponse(
     
   } catch (error: any) {
     console.error('AI generation error:', error);
+
+    // The fallback reply isn't a model answer, so don't leave an unanswered turn behind
+    dropUserTurn();
     
     // Track error
     errorTracker.captureError(error, {
@@ -242,7 +271,7 @@ export async function generateAIResponse(
 }
 
 /**
- * Summarize text using Hugging Face
+ * Summarize text using the active LLM provider
  * With automatic fallback to alternative models
  */
 export async function summarizeText(
@@ -257,8 +286,10 @@ export async function summarizeText(
       };
     }
 
+    const provider = await getLLMProvider();
+
     // If offline mode, use manual summarization
-    if (isOfflineMode) {
+    if (!provider.isConfigured()) {
       console.log('🔌 Offline mode: Using manual summarization');
       return {
         text: createManualSummary(text, maxLength),
@@ -266,26 +297,32 @@ export async function summarizeText(
       };
     }
 
-    // Try primary model, then fallbacks
-    const modelsToTry = [MODELS.summarization, ...MODELS.fallbacks.summarization];
+    // Dedicated summarization models where the provider has them, otherwise its chat models
+    const summarizationModels = provider.summarize ? provider.getSummarizationModels?.() || [] : [];
+    const useChat = summarizationModels.length === 0;
+    const modelsToTry = useChat ? provider.getModels() : summarizationModels;
     
     for (let i = 0; i < modelsToTry.length; i++) {
       try {
         const model = modelsToTry[i];
         console.log(`🔍 Trying summarization model: ${model}`);
         
-        const response = await hf!.summarization({
-          model: model,
-          inputs: text,
-          parameters: {
-            max_length: maxLength,
-            min_length: 30,
-          },
-        });
+        const summary = useChat
+          ? await provider.chat(
+              [
+                {
+                  role: 'system',
+                  content: withLanguageInstruction('You summarize study material accurately and concisely.'),
+                },
+                { role: 'user', content: `Summarize the following text in at most ${maxLength} words:\n\n${text}` },
+              ],
+              { model, maxTokens: Math.round(maxLength * 1.5), temperature: 0.3 }
+            )
+          : await provider.summarize!(text, maxLength, model);
 
         console.log(`✅ Summarization success with: ${model}`);
         return {
-          text: response.summary_text,
+          text: summary.trim(),
           success: true,
         };
       } catch (modelError: any) {
@@ -335,13 +372,283 @@ function createManualSummary(text: string, maxLength: number): string {
   return `📝 **Quick Summary:**\n\n${summary.trim()}\n\n💡 This is a basic summary. For AI-powered summaries, please configure your API key.`;
 }
 
+export interface GeneratedFlashcard {
+  front: string;
+  back: string;
+}
+
+/**
+ * Generate question/answer flashcards from notes or course material
+ */
+export async function generateFlashcards(
+  text: string,
+  options: { count?: number; topic?: string } = {}
+): Promise<{ cards: GeneratedFlashcard[]; success: boolean }> {
+  const count = options.count ?? FLASHCARD_CONFIG.generateCount;
+  const source = text.trim().slice(0, FLASHCARD_CONFIG.maxSourceCharacters);
+
+  if (source.length < 50) {
+    return { cards: [], success: false };
+  }
+
+  try {
+    const provider = await getLLMProvider();
+
+    // If offline mode, pick out definitions from the text
+    if (!provider.isConfigured()) {
+      console.log('🔌 Offline mode: Using manual flashcards');
+      return { cards: createManualFlashcards(source, count), success: true };
+    }
+
+    const modelsToTry = provider.getModels();
+    const topicLine = options.topic ? `The topic is "${options.topic}". ` : '';
+
+    for (let i = 0; i < modelsToTry.length; i++) {
+      try {
+        const model = modelsToTry[i];
+        console.log(`🔍 Trying flashcard model: ${model}`);
+
+        const reply = await provider.chat(
+          [
+            {
+              role: 'system',
+              content: withLanguageInstruction(
+                'You write concise study flashcards. Reply with only a JSON array of objects with "front" (a question) and "back" (a short answer) fields.',
+                true
+              ),
+            },
+            {
+              role: 'user',
+              content: `${topicLine}Write up to ${count} flashcards covering the key facts and concepts in this text:\n\n${source}`,
+            },
+          ],
+          { model, maxTokens: count * 80, temperature: 0.3 }
+        );
+
+        const cards = parseFlashcards(reply).slice(0, count);
+        if (cards.length === 0) {
+          throw new Error('No flashcards in response');
+        }
+
+        console.log(`✅ Flashcard generation success with: ${model}`);
+        return { cards, success: true };
+      } catch (modelError: any) {
+        console.log(`❌ Flashcard model ${modelsToTry[i]} failed:`, modelError.message);
+
+        if (i === modelsToTry.length - 1) {
+          throw modelError;
+        }
+        continue;
+      }
+    }
+
+    throw new Error('All flashcard models failed');
+  } catch (error: any) {
+    console.error('Flashcard generation error:', error);
+
+    // Fallback: Use manual flashcards
+    return { cards: createManualFlashcards(source, count), success: false };
+  }
+}
+
+/**
+ * Pull the JSON array of cards out of a model reply
+ */
+function parseFlashcards(reply: string): GeneratedFlashcard[] {
+  const match = reply.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((item) => item && typeof item.front === 'string' && typeof item.back === 'string')
+      .map((item) => ({ front: item.front.trim(), back: item.back.trim() }))
+      .filter((card) => card.front && card.back);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Manual flashcard fallback - "Term: definition" and "X is Y" lines
+ */
+function createManualFlashcards(text: string, count: number): GeneratedFlashcard[] {
+  const cards: GeneratedFlashcard[] = [];
+  const lines = text
+    .split(/\n+|[.!?]\s+/)
+    .map((line) => line.replace(/^[\s\-*•\d.)]+/, '').trim())
+    .filter((line) => line.length > 10 && line.length < 300);
+
+  for (const line of lines) {
+    if (cards.length >= count) break;
+
+    const definition = line.match(/^([^:]{2,60}):\s+(.{5,})$/);
+    if (definition) {
+      cards.push({ front: `What is ${definition[1].trim()}?`, back: definition[2].trim() });
+      continue;
+    }
+
+    const statement = line.match(/^((?:an?|the)\s+)?([A-Za-z][\w\s()/-]{1,50}?)\s+(is|are|means|refers to)\s+(.{5,})$/i);
+    if (statement) {
+      cards.push({ front: `What ${statement[3].toLowerCase() === 'are' ? 'are' : 'is'} ${statement[2].trim()}?`, back: statement[4].trim() });
+    }
+  }
+
+  return cards;
+}
+
+export type GeneratedQuizQuestion = Omit<QuizQuestion, 'id' | 'context' | 'sourceLabel'>;
+
+/**
+ * Generate multiple-choice and short-answer practice questions from notes
+ * or course material. Every question is tagged with the topic it tests.
+ */
+export async function generateQuiz(
+  text: string,
+  options: { count?: number; topic?: string } = {}
+): Promise<{ questions: GeneratedQuizQuestion[]; success: boolean }> {
+  const count = options.count ?? QUIZ_CONFIG.questionCount;
+  const shortAnswers = Math.round(count * QUIZ_CONFIG.shortAnswerShare);
+  const source = text.trim().slice(0, QUIZ_CONFIG.maxSourceCharacters);
+  const fallbackTopic = options.topic || 'General';
+
+  // A topic on its own is enough for the model, not for the offline fallback
+  if (source.length < 50 && !options.topic) {
+    return { questions: [], success: false };
+  }
+
+  try {
+    const provider = await getLLMProvider();
+
+    // If offline mode, build questions from definitions in the text
+    if (!provider.isConfigured()) {
+      console.log('🔌 Offline mode: Using manual quiz');
+      return { questions: createManualQuiz(source, count, fallbackTopic), success: true };
+    }
+
+    const modelsToTry = provider.getModels();
+    const topicLine = options.topic ? `The quiz is about "${options.topic}". ` : '';
+
+    for (let i = 0; i < modelsToTry.length; i++) {
+      try {
+        const model = modelsToTry[i];
+        console.log(`🔍 Trying quiz model: ${model}`);
+
+        const reply = await provider.chat(
+          [
+            {
+              role: 'system',
+              content: withLanguageInstruction(
+                'You write university practice quizzes. Reply with only a JSON array. Each item has "type" ("multiple_choice" or "short_answer"), "question", "answer" (the correct answer, a few words for short answers), "topic" (the specific concept tested, 1-4 words), and for multiple choice "options" (4 strings) and "answerIndex" (0-3).',
+                true
+              ),
+            },
+            {
+              role: 'user',
+              content:
+                source.length < 50
+                  ? `Write ${count} questions (${shortAnswers} short answer, the rest multiple choice) testing a university student's understanding of "${options.topic}".`
+                  : `${topicLine}Write ${count} questions (${shortAnswers} short answer, the rest multiple choice) testing the key concepts in this text:\n\n${source}`,
+            },
+          ],
+          { model, maxTokens: count * 150, temperature: 0.4 }
+        );
+
+        const questions = parseQuizQuestions(reply, fallbackTopic).slice(0, count);
+        if (questions.length === 0) {
+          throw new Error('No questions in response');
+        }
+
+        console.log(`✅ Quiz generation success with: ${model}`);
+        return { questions, success: true };
+      } catch (modelError: any) {
+        console.log(`❌ Quiz model ${modelsToTry[i]} failed:`, modelError.message);
+
+        if (i === modelsToTry.length - 1) {
+          throw modelError;
+        }
+        continue;
+      }
+    }
+
+    throw new Error('All quiz models failed');
+  } catch (error: any) {
+    console.error('Quiz generation error:', error);
+
+    // Fallback: Use manual quiz
+    return { questions: createManualQuiz(source, count, fallbackTopic), success: false };
+  }
+}
+
+/**
+ * Pull well-formed questions out of a model reply, dropping broken ones
+ */
+function parseQuizQuestions(reply: string, fallbackTopic: string): GeneratedQuizQuestion[] {
+  const match = reply.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const questions: GeneratedQuizQuestion[] = [];
+  parsed.forEach((item) => {
+    if (!item || typeof item.question !== 'string' || !item.question.trim()) return;
+    const topic = typeof item.topic === 'string' && item.topic.trim() ? item.topic.trim() : fallbackTopic;
+    const options = Array.isArray(item.options) ? item.options.filter((o: any) => typeof o === 'string' && o.trim()) : [];
+
+    if (item.type === 'multiple_choice' && options.length >= 2) {
+      const answerIndex = Number(item.answerIndex);
+      if (!Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= options.length) return;
+      questions.push({
+        type: 'multiple_choice',
+        question: item.question.trim(),
+        options: options.map((o: string) => o.trim()),
+        answerIndex,
+        answer: options[answerIndex].trim(),
+        topic,
+      });
+    } else if (typeof item.answer === 'string' && item.answer.trim()) {
+      questions.push({ type: 'short_answer', question: item.question.trim(), answer: item.answer.trim(), topic });
+    }
+  });
+  return questions;
+}
+
+/**
+ * Manual quiz fallback - definitions become short-answer questions, and
+ * multiple choice when there are enough other definitions to use as wrong
+ * options
+ */
+function createManualQuiz(text: string, count: number, topic: string): GeneratedQuizQuestion[] {
+  const cards = createManualFlashcards(text, count * 2);
+
+  return cards.slice(0, count).map((card, i) => {
+    const distractors = cards.filter((_, j) => j !== i).map(other => other.back).slice(0, 3);
+    if (i % 3 === 2 || distractors.length < 3) {
+      return { type: 'short_answer' as const, question: card.front, answer: card.back, topic };
+    }
+
+    const answerIndex = i % 4;
+    const options = [...distractors];
+    options.splice(answerIndex, 0, card.back);
+    return { type: 'multiple_choice' as const, question: card.front, options, answerIndex, answer: card.back, topic };
+  });
+}
+
 /**
  * Explain a concept in simple terms
  */
 export async function explainConcept(
   concept: string,
-  level: 'simple' | 'detailed' = 'simple'
-): Promise<{ text: string; success: boolean }> {
+  level: 'simple' | 'detailed' = 'simple',
+  stream: StreamOptions = {}
+): Promise<{ text: string; success: boolean; cancelled?: boolean }> {
   const prompt =
     level === 'simple'
       ? `Explain "${concept}" in simple terms that a university student can understand. Use an example.`
@@ -350,6 +657,7 @@ export async function explainConcept(
   return generateAIResponse(prompt, {
     maxTokens: level === 'simple' ? 300 : 500,
     useContext: false,
+    ...stream,
   });
 }
 
@@ -357,13 +665,15 @@ export async function explainConcept(
  * Get study tips for a specific topic
  */
 export async function getStudyTips(
-  topic: string
-): Promise<{ text: string; success: boolean }> {
+  topic: string,
+  stream: StreamOptions = {}
+): Promise<{ text: string; success: boolean; cancelled?: boolean }> {
   const prompt = `Give me effective study tips and strategies for learning "${topic}". Include specific techniques I can use.`;
 
   return generateAIResponse(prompt, {
     maxTokens: 400,
     useContext: false,
+    ...stream,
   });
 }
 
@@ -387,11 +697,13 @@ export async function createStudyPlan(
  * Answer a specific question
  */
 export async function answerQuestion(
-  question: string
-): Promise<{ text: string; success: boolean }> {
+  question: string,
+  stream: StreamOptions = {}
+): Promise<{ text: string; success: boolean; cancelled?: boolean }> {
   return generateAIResponse(question, {
     maxTokens: 400,
     temperature: 0.6, // Lower temperature for more factual answers
+    ...stream,
   });
 }
 
@@ -463,6 +775,22 @@ export function resetConversation(): void {
   conversationContext.history = [];
 }
 
+/**
+ * Restore conversation context from a persisted chat session
+ * Messages must be in chronological order (oldest first)
+ */
+export function restoreConversation(
+  messages: Array<{ text: string; isUserMessage: boolean }>
+): void {
+  conversationContext.history = messages
+    .filter((msg) => msg.text && msg.text.trim().length > 0)
+    .slice(-6) // Same window generateAIResponse keeps
+    .map((msg) => ({
+      role: msg.isUserMessage ? 'user' : 'assistant',
+      content: msg.text,
+    }));
+}
+
 /**
  * Get conversation history
  */
@@ -475,27 +803,26 @@ export function getConversationHistory() {
  */
 export async function testConnection(): Promise<boolean> {
   try {
-    // Test if API key is configured
-    if (!HF_API_KEY || HF_API_KEY.trim() === '') {
-      console.log('⚠️ No API key configured - running in offline mode');
+    const provider = await getLLMProvider();
+
+    // Test if the provider is configured
+    if (!provider.isConfigured()) {
+      console.log(`⚠️ ${provider.id} is not configured - running in offline mode`);
       return false;
     }
 
-    console.log('🔍 Testing AI connection...');
+    console.log(`🔍 Testing AI connection (${provider.id})...`);
     
     // Try primary model
-    const modelsToTest = [MODELS.conversation, ...MODELS.fallbacks.conversation];
+    const modelsToTest = provider.getModels();
     
     for (const model of modelsToTest) {
       try {
         console.log(`Testing model: ${model}`);
         
-        const response = await hf!.chatCompletion({
-          model: model,
-          messages: [
-            { role: 'user', content: 'Hello' }
-          ],
-          max_tokens: 10,
+        await provider.chat([{ role: 'user', content: 'Hello' }], {
+          model,
+          maxTokens: 10,
         });
         
         console.log(`✅ Connection successful with model: ${model}`);
@@ -1,6 +1,6 @@
 /**
  * Background Notification Scheduler
- * Runs periodic checks for deadline risks and workload alerts
+ * Runs periodic checks for deadline risks, workload alerts, due flashcards and the weekly summary
  * Note: Full background support requires development build (not Expo Go)
  */
 
@@ -9,7 +9,7 @@ import Constants from 'expo-constants';
 import * as Notifications from 'expo-notifications';
 import * as TaskManager from 'expo-task-manager';
 import { getCurrentUser } from './authService';
-import { runPhase1Checks, sendMorningBriefing } from './smartNotificationService';
+import { checkFlashcardsDue, checkWeeklySummary, runPhase1Checks, sendMorningBriefing } from './smartNotificationService';
 
 // Task identifiers
 const PREDICTION_CHECK_TASK = 'PREDICTION_CHECK_TASK';
@@ -33,6 +33,8 @@ TaskManager.defineTask(PREDICTION_CHECK_TASK, async () => {
 
     // Run all Phase 1 checks
     await runPhase1Checks(user.id);
+    await checkFlashcardsDue(user.id);
+    await checkWeeklySummary(user.id);
     
     console.log('[Background] Prediction check complete');
     return BackgroundFetch.BackgroundFetchResult.NewData;
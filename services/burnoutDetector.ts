@@ -5,7 +5,9 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SESSION_MODE_CONFIG } from '../constants/config';
 import { TaskStatus } from '../types';
+import { longestFocusMinutes } from './studyModes';
 import { getStudySessions } from './studyServiceFirestore';
 import { getTasks } from './taskServiceFirestore';
 
@@ -277,14 +279,19 @@ async function checkBreakPattern(userId: string): Promise<BurnoutIndicator | nul
   
   const sessions = await getStudySessions(userId, last3Days, new Date());
   
-  // Check for consecutive long sessions without breaks
-  const longSessions = sessions.filter(s => s.duration >= 120); // 2+ hours
+  // Check for consecutive long sessions without breaks - sessions timed in
+  // intervals only count when they ran too long between breaks
+  const longSessions = sessions.filter(s =>
+    s.intervals && s.intervals.length > 0
+      ? longestFocusMinutes(s) > SESSION_MODE_CONFIG.maxFocusMinutes
+      : s.duration >= 120 // 2+ hours
+  );
   
   if (longSessions.length >= 3) {
     return {
       type: 'no_breaks',
       severity: 'moderate',
-      description: `${longSessions.length} sessions >2 hours without adequate breaks`,
+      description: `${longSessions.length} long sessions without adequate breaks`,
       value: longSessions.length,
       threshold: 3,
     };
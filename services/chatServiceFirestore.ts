@@ -0,0 +1,272 @@
+import {
+    collection,
+    doc,
+    getDoc,
+    getDocs,
+    increment,
+    limit,
+    orderBy,
+    query,
+    setDoc,
+    startAfter,
+    Timestamp,
+    updateDoc,
+    where,
+    writeBatch,
+} from 'firebase/firestore';
+import { db } from '../firebase/firebaseint';
+import { ChatMessage, ChatSession } from '../types';
+
+const CHAT_SESSIONS_COLLECTION = 'chatSessions';
+const CHAT_MESSAGES_COLLECTION = 'chatMessages';
+const MAX_TITLE_LENGTH = 60;
+const BATCH_LIMIT = 450; // Firestore allows 500 writes per batch
+
+/**
+ * Build a session title from the first user message
+ */
+export const buildSessionTitle = (text: string): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= MAX_TITLE_LENGTH) {
+    return singleLine || 'New chat';
+  }
+  return `${singleLine.substring(0, MAX_TITLE_LENGTH - 1).trim()}…`;
+};
+
+function mapSession(id: string, data: any): ChatSession {
+  return {
+    id,
+    userId: data.userId,
+    title: data.title,
+    mode: data.mode || 'normal',
+    lastMessage: data.lastMessage || undefined,
+    messageCount: data.messageCount || 0,
+    createdAt: data.createdAt.toDate(),
+    updatedAt: data.updatedAt.toDate(),
+  };
+}
+
+function mapMessage(id: string, data: any): ChatMessage {
+  return {
+    id,
+    userId: data.userId,
+    sessionId: data.sessionId,
+    text: data.text,
+    isUserMessage: data.isUserMessage,
+    aiModel: data.aiModel || undefined,
+    attachmentUrl: data.attachmentUrl || undefined,
+    timestamp: data.timestamp.toDate(),
+    metadata: data.metadata || undefined,
+  };
+}
+
+/**
+ * Create a new chat session
+ */
+export const createChatSession = async (
+  userId: string,
+  title: string,
+  mode: ChatSession['mode'] = 'normal'
+): Promise<ChatSession> => {
+  const sessionRef = doc(collection(db, CHAT_SESSIONS_COLLECTION));
+  const now = Timestamp.now();
+
+  const newSession: ChatSession = {
+    id: sessionRef.id,
+    userId,
+    title: buildSessionTitle(title),
+    mode,
+    messageCount: 0,
+    createdAt: now.toDate(),
+    updatedAt: now.toDate(),
+  };
+
+  await setDoc(sessionRef, {
+    userId,
+    title: newSession.title,
+    mode,
+    lastMessage: null,
+    messageCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return newSession;
+};
+
+/**
+ * Get chat sessions for a user, most recently active first
+ */
+export const getChatSessions = async (
+  userId: string,
+  mode?: ChatSession['mode']
+): Promise<ChatSession[]> => {
+  const q = mode
+    ? query(
+        collection(db, CHAT_SESSIONS_COLLECTION),
+        where('userId', '==', userId),
+        where('mode', '==', mode),
+        orderBy('updatedAt', 'desc')
+      )
+    : query(
+        collection(db, CHAT_SESSIONS_COLLECTION),
+        where('userId', '==', userId),
+        orderBy('updatedAt', 'desc')
+      );
+
+  const querySnapshot = await getDocs(q);
+  const sessions: ChatSession[] = [];
+
+  querySnapshot.forEach((docSnap) => {
+    sessions.push(mapSession(docSnap.id, docSnap.data()));
+  });
+
+  return sessions;
+};
+
+/**
+ * Get chat session by ID
+ */
+export const getChatSessionById = async (sessionId: string): Promise<ChatSession | null> => {
+  const sessionDoc = await getDoc(doc(db, CHAT_SESSIONS_COLLECTION, sessionId));
+
+  if (!sessionDoc.exists()) {
+    return null;
+  }
+
+  return mapSession(sessionDoc.id, sessionDoc.data());
+};
+
+/**
+ * Rename a chat session, returning the title as stored
+ */
+export const renameChatSession = async (sessionId: string, title: string): Promise<string> => {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error('Chat title cannot be empty');
+  }
+
+  const normalized = buildSessionTitle(trimmed);
+  await updateDoc(doc(db, CHAT_SESSIONS_COLLECTION, sessionId), {
+    title: normalized,
+    updatedAt: Timestamp.now(),
+  });
+
+  return normalized;
+};
+
+/**
+ * Delete a chat session and all of its messages
+ */
+export const deleteChatSession = async (sessionId: string, userId: string): Promise<void> => {
+  const q = query(
+    collection(db, CHAT_MESSAGES_COLLECTION),
+    where('userId', '==', userId),
+    where('sessionId', '==', sessionId)
+  );
+  const querySnapshot = await getDocs(q);
+
+  // Delete messages in chunks to stay under the batch write limit
+  const messageRefs = querySnapshot.docs.map((docSnap) => docSnap.ref);
+  for (let i = 0; i < messageRefs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    messageRefs.slice(i, i + BATCH_LIMIT).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+
+  const batch = writeBatch(db);
+  batch.delete(doc(db, CHAT_SESSIONS_COLLECTION, sessionId));
+  await batch.commit();
+
+  console.log('[ChatService] Deleted session', sessionId, 'with', messageRefs.length, 'messages');
+};
+
+/**
+ * Append a message to a chat session
+ * Also bumps the session's updatedAt, preview and message count
+ */
+export const addChatMessage = async (
+  message: Omit<ChatMessage, 'id' | 'timestamp'>
+): Promise<ChatMessage> => {
+  const messageRef = doc(collection(db, CHAT_MESSAGES_COLLECTION));
+  const now = Timestamp.now();
+
+  const newMessage: ChatMessage = {
+    ...message,
+    id: messageRef.id,
+    timestamp: now.toDate(),
+  };
+
+  const batch = writeBatch(db);
+  batch.set(messageRef, {
+    userId: newMessage.userId,
+    sessionId: newMessage.sessionId,
+    text: newMessage.text,
+    isUserMessage: newMessage.isUserMessage,
+    aiModel: newMessage.aiModel || null,
+    attachmentUrl: newMessage.attachmentUrl || null,
+    timestamp: now,
+    metadata: newMessage.metadata || null,
+  });
+  batch.update(doc(db, CHAT_SESSIONS_COLLECTION, newMessage.sessionId), {
+    lastMessage: newMessage.text.substring(0, 120),
+    messageCount: increment(1),
+    updatedAt: now,
+  });
+  await batch.commit();
+
+  return newMessage;
+};
+
+/**
+ * Get messages of a session with pagination, newest first
+ * (matches the inverted FlatList used by the chat screen)
+ */
+export const getChatMessagesPaginated = async (
+  sessionId: string,
+  userId: string,
+  pageSize: number = 30,
+  lastDoc?: any
+): Promise<{ messages: ChatMessage[]; hasMore: boolean; lastDoc: any }> => {
+  let q = query(
+    collection(db, CHAT_MESSAGES_COLLECTION),
+    where('userId', '==', userId),
+    where('sessionId', '==', sessionId),
+    orderBy('timestamp', 'desc'),
+    limit(pageSize + 1)
+  );
+
+  if (lastDoc) {
+    q = query(q, startAfter(lastDoc));
+  }
+
+  const querySnapshot = await getDocs(q);
+  const messages: ChatMessage[] = [];
+  let lastDocument = null;
+  let index = 0;
+
+  querySnapshot.forEach((docSnap) => {
+    if (index < pageSize) {
+      messages.push(mapMessage(docSnap.id, docSnap.data()));
+      lastDocument = docSnap;
+    }
+    index++;
+  });
+
+  return {
+    messages,
+    hasMore: querySnapshot.size > pageSize,
+    lastDoc: lastDocument,
+  };
+};
+
+export default {
+  createChatSession,
+  getChatSessions,
+  getChatSessionById,
+  renameChatSession,
+  deleteChatSession,
+  addChatMessage,
+  getChatMessagesPaginated,
+  buildSessionTitle,
+};
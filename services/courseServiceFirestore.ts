@@ -1,18 +1,19 @@
 import {
     collection,
-    deleteDoc,
     doc,
     getDoc,
     getDocs,
     orderBy,
     query,
-    setDoc,
     Timestamp,
-    updateDoc,
     where,
 } from 'firebase/firestore';
+import { GRADE_CONFIG } from '../constants/config';
 import { db } from '../firebase/firebaseint';
-import { Course } from '../types';
+import { Course, CourseGradeStats, GradeBand, Task, TaskPriority, TaskStatus, TaskType } from '../types';
+import { RAGIndexingHooks } from './ai/ragIndexer';
+import { calculateCourseGrade } from './gradeCalculator';
+import { syncedDelete, syncedGet, syncedQuery, syncedSet, syncedUpdate } from './sync/syncService';
 
 const COURSES_COLLECTION = 'courses';
 const CACHE_TTL = 30000; // 30 seconds cache
@@ -67,7 +68,7 @@ export const createCourse = async (
     updatedAt: now.toDate(),
   };
 
-  await setDoc(courseRef, {
+  await syncedSet(COURSES_COLLECTION, courseRef.id, {
     userId: newCourse.userId,
     code: newCourse.code,
     name: newCourse.name,
@@ -75,6 +76,8 @@ export const createCourse = async (
     instructor: newCourse.instructor || null,
     color: newCourse.color || null,
     difficulty: newCourse.difficulty || null,
+    semester: newCourse.semester || null,
+    assessmentWeights: newCourse.assessmentWeights || null,
     createdAt: now,
     updatedAt: now,
   });
@@ -83,6 +86,8 @@ export const createCourse = async (
   clearCourseCache(course.userId);
   console.log('[CourseService] Cache cleared after creating course:', newCourse.name);
 
+  RAGIndexingHooks.onCourseCreated(newCourse);
+
   return newCourse;
 };
 
@@ -98,13 +103,15 @@ async function fetchAndCacheCourses(userId: string): Promise<Course[]> {
     orderBy('name', 'asc')
   );
 
-  const querySnapshot = await getDocs(q);
+  const docs = await syncedQuery(COURSES_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  });
   const courses: Course[] = [];
 
-  querySnapshot.forEach((docSnap) => {
-    const data = docSnap.data();
+  docs.forEach(({ id, data }) => {
     courses.push({
-      id: docSnap.id,
+      id,
       userId: data.userId,
       code: data.code,
       name: data.name,
@@ -112,11 +119,15 @@ async function fetchAndCacheCourses(userId: string): Promise<Course[]> {
       instructor: data.instructor,
       color: data.color,
       difficulty: data.difficulty as 1 | 2 | 3 | 4 | 5 | undefined,
+      semester: data.semester || undefined,
+      assessmentWeights: data.assessmentWeights || undefined,
       createdAt: data.createdAt.toDate(),
       updatedAt: data.updatedAt.toDate(),
     });
   });
 
+  courses.sort((a, b) => a.name.localeCompare(b.name));
+
   // Cache the results
   setCachedCourses(userId, courses);
   console.log('[CourseService] Cached', courses.length, 'courses');
@@ -157,15 +168,17 @@ export const getCourses = async (userId: string, useCache: boolean = true): Prom
  * Get course by ID
  */
 export const getCourseById = async (id: string): Promise<Course | null> => {
-  const courseDoc = await getDoc(doc(db, COURSES_COLLECTION, id));
+  const data = await syncedGet(COURSES_COLLECTION, id, async () => {
+    const courseDoc = await getDoc(doc(db, COURSES_COLLECTION, id));
+    return courseDoc.exists() ? courseDoc.data() : null;
+  });
 
-  if (!courseDoc.exists()) {
+  if (!data) {
     return null;
   }
 
-  const data = courseDoc.data();
   return {
-    id: courseDoc.id,
+    id,
     userId: data.userId,
     code: data.code,
     name: data.name,
@@ -173,6 +186,8 @@ export const getCourseById = async (id: string): Promise<Course | null> => {
     instructor: data.instructor,
     color: data.color,
     difficulty: data.difficulty as 1 | 2 | 3 | 4 | 5 | undefined,
+    semester: data.semester || undefined,
+    assessmentWeights: data.assessmentWeights || undefined,
     createdAt: data.createdAt.toDate(),
     updatedAt: data.updatedAt.toDate(),
   };
@@ -185,7 +200,6 @@ export const updateCourse = async (
   id: string,
   updates: Partial<Course>
 ): Promise<void> => {
-  const courseRef = doc(db, COURSES_COLLECTION, id);
   const updateData: any = {
     ...updates,
     updatedAt: Timestamp.now(),
@@ -194,20 +208,25 @@ export const updateCourse = async (
   delete updateData.id;
   delete updateData.createdAt;
 
-  await updateDoc(courseRef, updateData);
+  await syncedUpdate(COURSES_COLLECTION, id, updateData);
   
   // ✅ Clear cache for this user
   if (updates.userId) {
     clearCourseCache(updates.userId);
     console.log('[CourseService] Cache cleared after updating course:', id);
   }
+
+  // Re-index from the stored copy so partial updates index the whole course
+  getCourseById(id)
+    .then(course => course && RAGIndexingHooks.onCourseUpdated(course))
+    .catch(err => console.error('[CourseService] Failed to re-index course:', err));
 };
 
 /**
  * Delete course
  */
 export const deleteCourse = async (id: string, userId?: string): Promise<void> => {
-  await deleteDoc(doc(db, COURSES_COLLECTION, id));
+  await syncedDelete(COURSES_COLLECTION, id);
   
   // ✅ Clear cache after deletion
   if (userId) {
@@ -217,6 +236,8 @@ export const deleteCourse = async (id: string, userId?: string): Promise<void> =
     // Clear all cache if userId not provided
     clearCourseCache();
   }
+
+  RAGIndexingHooks.onCourseDeleted(id, userId);
 };
 
 /**
@@ -276,6 +297,47 @@ export const getCourseStats = async (
   };
 };
 
+/**
+ * Get the running grade for a course from its graded tasks
+ */
+export const getCourseGradeStats = async (
+  courseId: string,
+  scale: GradeBand[] = GRADE_CONFIG.defaultScale
+): Promise<CourseGradeStats | null> => {
+  const course = await getCourseById(courseId);
+  if (!course) {
+    return null;
+  }
+
+  const tasksQuery = query(
+    collection(db, 'tasks'),
+    where('courseId', '==', courseId),
+    where('userId', '==', course.userId)
+  );
+  const tasksSnapshot = await getDocs(tasksQuery);
+
+  const tasks: Task[] = tasksSnapshot.docs.map((taskDoc) => {
+    const data = taskDoc.data();
+    return {
+      id: taskDoc.id,
+      userId: data.userId,
+      courseId: data.courseId,
+      title: data.title,
+      type: data.type as TaskType,
+      priority: data.priority as TaskPriority,
+      status: data.status as TaskStatus,
+      dueDate: data.dueDate.toDate(),
+      score: data.score ?? undefined,
+      maxScore: data.maxScore ?? undefined,
+      weight: data.weight ?? undefined,
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    };
+  });
+
+  return calculateCourseGrade(course, tasks, scale);
+};
+
 export default {
   createCourse,
   getCourses,
@@ -283,4 +345,5 @@ export default {
   updateCourse,
   deleteCourse,
   getCourseStats,
+  getCourseGradeStats,
 };
@@ -0,0 +1,399 @@
+/**
+ * Flashcard Service
+ * Per-course flashcard decks, spaced-repetition reviews, and recording a
+ * review as a study session
+ */
+
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    Timestamp,
+    where,
+} from 'firebase/firestore';
+import { FLASHCARD_CONFIG } from '../constants/config';
+import { db } from '../firebase/firebaseint';
+import { Flashcard, FlashcardDeck, FlashcardRating, StudySession } from '../types';
+import { CourseMaterial, getCourseMaterialChunks } from './ai/courseMaterialService';
+import { generateFlashcards } from './aiServiceEnhanced';
+import { formatDate, t } from './i18n/i18nService';
+import { createSchedule, isDue, scheduleReview } from './spacedRepetition';
+import { createStudySession } from './studyServiceFirestore';
+import { syncedDelete, syncedQuery, syncedSet, syncedUpdate } from './sync/syncService';
+
+const DECKS_COLLECTION = 'flashcardDecks';
+const CARDS_COLLECTION = 'flashcards';
+
+export type NewFlashcard = Pick<Flashcard, 'front' | 'back' | 'source' | 'sourceId' | 'sourceLabel'>;
+
+export interface DeckSummary {
+  deck: FlashcardDeck;
+  total: number;
+  due: number;
+  learned: number; // graduated past the first interval
+}
+
+export interface ReviewTally {
+  reviewed: number;
+  recalled: number; // answered hard, good or easy
+  startedAt: Date;
+  endedAt: Date;
+}
+
+const toDeck = (id: string, data: any): FlashcardDeck => ({
+  id,
+  userId: data.userId,
+  courseId: data.courseId,
+  name: data.name,
+  description: data.description || undefined,
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+const toCard = (id: string, data: any): Flashcard => ({
+  id,
+  userId: data.userId,
+  deckId: data.deckId,
+  courseId: data.courseId,
+  front: data.front,
+  back: data.back,
+  source: data.source,
+  sourceId: data.sourceId || undefined,
+  sourceLabel: data.sourceLabel || undefined,
+  dueAt: data.dueAt.toDate(),
+  interval: data.interval,
+  easeFactor: data.easeFactor,
+  repetitions: data.repetitions,
+  lapses: data.lapses,
+  lastReviewedAt: data.lastReviewedAt ? data.lastReviewedAt.toDate() : undefined,
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+/**
+ * Create a deck for a course
+ */
+export const createDeck = async (
+  deck: Omit<FlashcardDeck, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<FlashcardDeck> => {
+  const name = deck.name.trim();
+  if (!name) {
+    throw new Error('Deck name is required');
+  }
+
+  const deckRef = doc(collection(db, DECKS_COLLECTION));
+  const now = Timestamp.now();
+
+  await syncedSet(DECKS_COLLECTION, deckRef.id, {
+    userId: deck.userId,
+    courseId: deck.courseId,
+    name,
+    description: deck.description?.trim() || null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return {
+    ...deck,
+    name,
+    id: deckRef.id,
+    createdAt: now.toDate(),
+    updatedAt: now.toDate(),
+  };
+};
+
+/**
+ * A user's decks, optionally for one course, by name
+ */
+export const getDecks = async (userId: string, courseId?: string): Promise<FlashcardDeck[]> => {
+  const q = query(collection(db, DECKS_COLLECTION), where('userId', '==', userId));
+  const docs = await syncedQuery(DECKS_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  });
+
+  return docs
+    .map(({ id, data }) => toDeck(id, data))
+    .filter((deck) => !courseId || deck.courseId === courseId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Rename a deck or change its description
+ */
+export const updateDeck = async (
+  id: string,
+  updates: Partial<Pick<FlashcardDeck, 'name' | 'description'>>
+): Promise<void> => {
+  await syncedUpdate(DECKS_COLLECTION, id, {
+    ...(updates.name !== undefined && { name: updates.name.trim() }),
+    ...(updates.description !== undefined && { description: updates.description.trim() || null }),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Delete a deck and all of its cards
+ */
+export const deleteDeck = async (deck: FlashcardDeck): Promise<void> => {
+  const cards = await getFlashcards(deck.userId, deck.id);
+  for (const card of cards) {
+    await syncedDelete(CARDS_COLLECTION, card.id);
+  }
+  await syncedDelete(DECKS_COLLECTION, deck.id);
+  console.log('[FlashcardService] Deleted deck', deck.name, 'with', cards.length, 'cards');
+};
+
+/**
+ * Add cards to a deck; new cards are due immediately
+ */
+export const createFlashcards = async (
+  deck: FlashcardDeck,
+  cards: NewFlashcard[]
+): Promise<Flashcard[]> => {
+  const now = Timestamp.now();
+  const created: Flashcard[] = [];
+
+  for (const card of cards) {
+    const front = card.front.trim();
+    const back = card.back.trim();
+    if (!front || !back) continue;
+
+    const cardRef = doc(collection(db, CARDS_COLLECTION));
+    const schedule = createSchedule(now.toDate());
+
+    await syncedSet(CARDS_COLLECTION, cardRef.id, {
+      userId: deck.userId,
+      deckId: deck.id,
+      courseId: deck.courseId,
+      front,
+      back,
+      source: card.source,
+      sourceId: card.sourceId || null,
+      sourceLabel: card.sourceLabel || null,
+      dueAt: Timestamp.fromDate(schedule.dueAt),
+      interval: schedule.interval,
+      easeFactor: schedule.easeFactor,
+      repetitions: schedule.repetitions,
+      lapses: schedule.lapses,
+      lastReviewedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    created.push({
+      ...schedule,
+      id: cardRef.id,
+      userId: deck.userId,
+      deckId: deck.id,
+      courseId: deck.courseId,
+      front,
+      back,
+      source: card.source,
+      sourceId: card.sourceId,
+      sourceLabel: card.sourceLabel,
+      createdAt: now.toDate(),
+      updatedAt: now.toDate(),
+    });
+  }
+
+  console.log('[FlashcardService] Added', created.length, 'cards to', deck.name);
+  return created;
+};
+
+/**
+ * A user's cards, optionally for one deck, oldest first
+ */
+export const getFlashcards = async (userId: string, deckId?: string): Promise<Flashcard[]> => {
+  const q = query(collection(db, CARDS_COLLECTION), where('userId', '==', userId));
+  const docs = await syncedQuery(CARDS_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  });
+
+  return docs
+    .map(({ id, data }) => toCard(id, data))
+    .filter((card) => !deckId || card.deckId === deckId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+/**
+ * Cards due for review, most overdue first
+ */
+export const getDueFlashcards = async (
+  userId: string,
+  deckId?: string,
+  now: Date = new Date()
+): Promise<Flashcard[]> => {
+  const cards = await getFlashcards(userId, deckId);
+  return cards
+    .filter((card) => isDue(card, now))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+};
+
+/**
+ * Decks with their card and due counts
+ */
+export const getDeckSummaries = async (userId: string, courseId?: string): Promise<DeckSummary[]> => {
+  const [decks, cards] = await Promise.all([getDecks(userId, courseId), getFlashcards(userId)]);
+  const now = new Date();
+
+  return decks.map((deck) => {
+    const deckCards = cards.filter((card) => card.deckId === deck.id);
+    return {
+      deck,
+      total: deckCards.length,
+      due: deckCards.filter((card) => isDue(card, now)).length,
+      learned: deckCards.filter((card) => card.interval >= FLASHCARD_CONFIG.graduatingIntervals[1]).length,
+    };
+  });
+};
+
+/**
+ * Edit a card's text
+ */
+export const updateFlashcard = async (
+  id: string,
+  updates: Partial<Pick<Flashcard, 'front' | 'back'>>
+): Promise<void> => {
+  await syncedUpdate(CARDS_COLLECTION, id, {
+    ...(updates.front !== undefined && { front: updates.front.trim() }),
+    ...(updates.back !== undefined && { back: updates.back.trim() }),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+export const deleteFlashcard = async (id: string): Promise<void> => {
+  await syncedDelete(CARDS_COLLECTION, id);
+};
+
+/**
+ * Apply an answer to a card and save its new schedule
+ */
+export const reviewFlashcard = async (
+  card: Flashcard,
+  rating: FlashcardRating,
+  now: Date = new Date()
+): Promise<Flashcard> => {
+  const schedule = scheduleReview(card, rating, now);
+
+  await syncedUpdate(CARDS_COLLECTION, card.id, {
+    dueAt: Timestamp.fromDate(schedule.dueAt),
+    interval: schedule.interval,
+    easeFactor: schedule.easeFactor,
+    repetitions: schedule.repetitions,
+    lapses: schedule.lapses,
+    lastReviewedAt: Timestamp.fromDate(now),
+    updatedAt: Timestamp.fromDate(now),
+  });
+
+  return { ...card, ...schedule, updatedAt: now };
+};
+
+/**
+ * Generate cards from a study session's topic and notes and add them to a
+ * deck. `success` is false when the offline fallback produced the cards.
+ */
+export const generateFromSession = async (
+  deck: FlashcardDeck,
+  session: StudySession
+): Promise<{ cards: Flashcard[]; success: boolean }> => {
+  const text = [session.topic, session.notes].filter(Boolean).join('\n\n');
+  if (!session.notes?.trim()) {
+    throw new Error('This session has no notes to make flashcards from.');
+  }
+
+  const result = await generateFlashcards(text, { topic: session.topic });
+  const label = `${session.topic || t('flashcardDeck.studySession')} (${formatDate(session.date)})`;
+  const cards = await createFlashcards(
+    deck,
+    result.cards.map((card) => ({ ...card, source: 'session' as const, sourceId: session.id, sourceLabel: label }))
+  );
+  return { cards, success: result.success };
+};
+
+/**
+ * Generate cards from an ingested material and add them to a deck. Long
+ * materials are split into parts that each get a share of the cards, so the
+ * whole file is covered and every card cites the part it came from.
+ */
+export const generateFromMaterial = async (
+  deck: FlashcardDeck,
+  material: CourseMaterial
+): Promise<{ cards: Flashcard[]; success: boolean }> => {
+  const chunks = await getCourseMaterialChunks(material);
+  if (chunks.length === 0) {
+    throw new Error('This material has no indexed text. Try adding it again.');
+  }
+
+  const parts: { text: string; sourceLabel: string }[] = [];
+  chunks.forEach((chunk) => {
+    const last = parts[parts.length - 1];
+    if (last && last.text.length + chunk.content.length <= FLASHCARD_CONFIG.maxSourceCharacters) {
+      last.text += `\n\n${chunk.content}`;
+    } else {
+      parts.push({ text: chunk.content, sourceLabel: chunk.sourceLabel });
+    }
+  });
+
+  // Spread the card budget over evenly spaced parts
+  const partCount = Math.min(parts.length, FLASHCARD_CONFIG.generateCount);
+  const perPart = Math.ceil(FLASHCARD_CONFIG.generateCount / partCount);
+  const picked = Array.from({ length: partCount }, (_, i) => parts[Math.floor((i * parts.length) / partCount)]);
+
+  const drafts: NewFlashcard[] = [];
+  let success = true;
+  for (const part of picked) {
+    const result = await generateFlashcards(part.text, { count: perPart, topic: material.title });
+    success = success && result.success;
+    drafts.push(
+      ...result.cards.map((card) => ({ ...card, source: 'material' as const, sourceId: material.id, sourceLabel: part.sourceLabel }))
+    );
+  }
+
+  const cards = await createFlashcards(deck, drafts.slice(0, FLASHCARD_CONFIG.generateCount));
+  return { cards, success };
+};
+
+/**
+ * Record a finished review as study time for the deck's course. Returns null
+ * when nothing was reviewed.
+ */
+export const recordReviewSession = async (
+  deck: FlashcardDeck,
+  tally: ReviewTally
+): Promise<StudySession | null> => {
+  if (tally.reviewed === 0) return null;
+
+  const minutes = (tally.endedAt.getTime() - tally.startedAt.getTime()) / 60000;
+  const duration = Math.min(FLASHCARD_CONFIG.maxSessionMinutes, Math.max(1, Math.round(minutes)));
+  const recallRate = tally.recalled / tally.reviewed;
+
+  return createStudySession({
+    userId: deck.userId,
+    courseId: deck.courseId,
+    topic: t('flashcardReview.sessionTopic', { name: deck.name }),
+    duration,
+    notes: t('flashcardReview.sessionNotes', { count: tally.reviewed, percent: Math.round(recallRate * 100) }),
+    effectiveness: Math.min(5, Math.max(1, Math.round(recallRate * 4) + 1)) as 1 | 2 | 3 | 4 | 5,
+    date: tally.startedAt,
+  });
+};
+
+export default {
+  createDeck,
+  getDecks,
+  updateDeck,
+  deleteDeck,
+  createFlashcards,
+  getFlashcards,
+  getDueFlashcards,
+  getDeckSummaries,
+  updateFlashcard,
+  deleteFlashcard,
+  reviewFlashcard,
+  generateFromSession,
+  generateFromMaterial,
+  recordReviewSession,
+};
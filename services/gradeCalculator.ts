@@ -0,0 +1,196 @@
+/**
+ * Grade Calculator
+ * Weighted course percentages, letter grades, credit-weighted GPA and the
+ * "what do I need on the final" calculation.
+ *
+ * Weighting rules:
+ * - A task's own `weight` (% of the course grade) always wins
+ * - Otherwise the course's type weight is split evenly between tasks of that type
+ * - Courses without any weights treat every graded task equally
+ *
+ * Pure module (no I/O) so screens can recompute instantly while editing.
+ */
+
+import { GRADE_CONFIG } from '../constants/config';
+import {
+    Course,
+    CourseGradeStats,
+    GpaSummary,
+    GradeBand,
+    GradedTaskType,
+    Task,
+    TaskType,
+} from '../types';
+
+export const GRADED_TASK_TYPES: GradedTaskType[] = [
+  TaskType.EXAM,
+  TaskType.ASSIGNMENT,
+  TaskType.QUIZ,
+  TaskType.PROJECT,
+];
+
+export const isGradedType = (type: TaskType): type is GradedTaskType =>
+  (GRADED_TASK_TYPES as TaskType[]).includes(type);
+
+export const hasScore = (task: Task): boolean =>
+  task.score !== undefined && task.maxScore !== undefined && task.maxScore > 0;
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Sort bands from the highest threshold down and drop invalid rows
+ */
+export const normalizeScale = (scale: GradeBand[]): GradeBand[] =>
+  scale
+    .filter((band) => band.letter.trim() && Number.isFinite(band.minPercentage) && Number.isFinite(band.gradePoint))
+    .sort((a, b) => b.minPercentage - a.minPercentage);
+
+/**
+ * Map a percentage onto the grade scale
+ */
+export const getGradeBand = (
+  percentage: number,
+  scale: GradeBand[] = GRADE_CONFIG.defaultScale
+): GradeBand | null => {
+  const sorted = normalizeScale(scale);
+  return sorted.find((band) => round(percentage) >= band.minPercentage) ?? sorted[sorted.length - 1] ?? null;
+};
+
+/**
+ * Weight of each graded task as a % of the course grade
+ */
+export const getTaskWeights = (course: Course, tasks: Task[]): Map<string, number> => {
+  const courseTasks = tasks.filter((task) => task.courseId === course.id && isGradedType(task.type));
+  const explicit = courseTasks.filter((task) => task.weight !== undefined);
+  const implicit = courseTasks.filter((task) => task.weight === undefined);
+  const typeWeights = course.assessmentWeights || {};
+  const hasTypeWeights = Object.values(typeWeights).some((weight) => (weight || 0) > 0);
+  const weights = new Map<string, number>();
+
+  explicit.forEach((task) => weights.set(task.id, task.weight!));
+
+  if (hasTypeWeights) {
+    GRADED_TASK_TYPES.forEach((type) => {
+      const ofType = implicit.filter((task) => task.type === type);
+      const typeWeight = typeWeights[type] || 0;
+      ofType.forEach((task) => weights.set(task.id, ofType.length > 0 ? typeWeight / ofType.length : 0));
+    });
+  } else {
+    const explicitTotal = explicit.reduce((sum, task) => sum + task.weight!, 0);
+    const share = implicit.length > 0 ? Math.max(0, 100 - explicitTotal) / implicit.length : 0;
+    implicit.forEach((task) => weights.set(task.id, share));
+  }
+
+  return weights;
+};
+
+/**
+ * Running percentage and letter grade for a course from its graded tasks
+ */
+export const calculateCourseGrade = (
+  course: Course,
+  tasks: Task[],
+  scale: GradeBand[] = GRADE_CONFIG.defaultScale
+): CourseGradeStats => {
+  const weights = getTaskWeights(course, tasks);
+  const graded = tasks.filter((task) => weights.has(task.id) && hasScore(task));
+
+  let earnedWeight = 0;
+  let gradedWeight = 0;
+  graded.forEach((task) => {
+    const weight = weights.get(task.id) || 0;
+    earnedWeight += weight * (task.score! / task.maxScore!);
+    gradedWeight += weight;
+  });
+
+  const percentage = gradedWeight > 0 ? round((earnedWeight / gradedWeight) * 100) : null;
+  const band = percentage !== null ? getGradeBand(percentage, scale) : null;
+
+  return {
+    courseId: course.id,
+    percentage,
+    letter: band?.letter ?? null,
+    gradePoint: band?.gradePoint ?? null,
+    earnedWeight: round(earnedWeight),
+    gradedWeight: round(gradedWeight),
+    remainingWeight: round(Math.max(0, 100 - gradedWeight)),
+    gradedCount: graded.length,
+  };
+};
+
+/**
+ * The semester of the most recently added course that has one
+ */
+export const getCurrentSemester = (courses: Course[]): string | null => {
+  const labelled = courses
+    .filter((course) => course.semester)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  return labelled[0]?.semester ?? null;
+};
+
+const creditWeightedAverage = (entries: { credits: number; gradePoint: number }[]): number | null => {
+  const credits = entries.reduce((sum, entry) => sum + entry.credits, 0);
+  if (credits === 0) return null;
+  return round(entries.reduce((sum, entry) => sum + entry.credits * entry.gradePoint, 0) / credits);
+};
+
+/**
+ * Credit-weighted semester and cumulative GPA over courses with graded work
+ */
+export const calculateGpa = (
+  courses: Course[],
+  stats: Map<string, CourseGradeStats>,
+  semester: string | null = getCurrentSemester(courses)
+): GpaSummary => {
+  const entries = courses
+    .filter((course) => stats.get(course.id)?.gradePoint != null)
+    .map((course) => ({
+      semester: course.semester ?? null,
+      credits: course.credits || GRADE_CONFIG.defaultCredits,
+      gradePoint: stats.get(course.id)!.gradePoint!,
+    }));
+
+  const semesterEntries = semester ? entries.filter((entry) => entry.semester === semester) : entries;
+
+  return {
+    semester,
+    semesterGpa: creditWeightedAverage(semesterEntries),
+    cumulativeGpa: creditWeightedAverage(entries),
+    semesterCredits: semesterEntries.reduce((sum, entry) => sum + entry.credits, 0),
+    totalCredits: entries.reduce((sum, entry) => sum + entry.credits, 0),
+  };
+};
+
+/**
+ * Score needed on the final to reach a target course percentage.
+ * Other ungraded work (remaining weight beyond the final) is assumed to
+ * match the current running average.
+ */
+export const calculateRequiredFinalScore = (
+  stats: CourseGradeStats,
+  targetPercentage: number,
+  finalWeight: number = stats.remainingWeight
+): { required: number; status: 'secured' | 'possible' | 'impossible' } | null => {
+  if (finalWeight <= 0) return null;
+
+  const otherRemaining = Math.max(0, stats.remainingWeight - finalWeight);
+  const expectedOther = otherRemaining * ((stats.percentage ?? 0) / 100);
+  const required = round(((targetPercentage - stats.earnedWeight - expectedOther) / finalWeight) * 100, 1);
+
+  return {
+    required,
+    status: required <= 0 ? 'secured' : required > 100 ? 'impossible' : 'possible',
+  };
+};
+
+export default {
+  calculateCourseGrade,
+  calculateGpa,
+  calculateRequiredFinalScore,
+  getGradeBand,
+  getTaskWeights,
+  normalizeScale,
+};
@@ -0,0 +1,97 @@
+/**
+ * Grade Service
+ * Per-user grade scale and the grade / GPA overview shown on the Grades screen
+ */
+
+import { deleteDoc, doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { GRADE_CONFIG } from '../constants/config';
+import { db } from '../firebase/firebaseint';
+import { Course, CourseGradeStats, GpaSummary, GradeBand, Task } from '../types';
+import { getCourses } from './courseServiceFirestore';
+import { calculateCourseGrade, calculateGpa, normalizeScale } from './gradeCalculator';
+import { getTasks } from './taskServiceFirestore';
+
+const GRADE_SCALES_COLLECTION = 'gradeScales'; // one document per user, keyed by userId
+
+export interface GradeOverview {
+  scale: GradeBand[];
+  courses: Course[];
+  tasks: Task[];
+  courseStats: Map<string, CourseGradeStats>;
+  gpa: GpaSummary;
+}
+
+/**
+ * Get the user's grade scale, falling back to the default scale
+ */
+export const getGradeScale = async (userId: string): Promise<GradeBand[]> => {
+  const snapshot = await getDoc(doc(db, GRADE_SCALES_COLLECTION, userId));
+  if (!snapshot.exists()) {
+    return GRADE_CONFIG.defaultScale;
+  }
+
+  const bands = normalizeScale((snapshot.data().bands || []) as GradeBand[]);
+  return bands.length > 0 ? bands : GRADE_CONFIG.defaultScale;
+};
+
+/**
+ * Save a custom grade scale
+ */
+export const saveGradeScale = async (userId: string, bands: GradeBand[]): Promise<GradeBand[]> => {
+  const normalized = normalizeScale(bands).map((band) => ({
+    letter: band.letter.trim(),
+    minPercentage: band.minPercentage,
+    gradePoint: band.gradePoint,
+  }));
+
+  if (normalized.length === 0) {
+    throw new Error('Grade scale needs at least one grade');
+  }
+
+  await setDoc(doc(db, GRADE_SCALES_COLLECTION, userId), {
+    userId,
+    bands: normalized,
+    updatedAt: Timestamp.now(),
+  });
+
+  console.log('[GradeService] Saved grade scale with', normalized.length, 'grades');
+  return normalized;
+};
+
+/**
+ * Go back to the default grade scale
+ */
+export const resetGradeScale = async (userId: string): Promise<GradeBand[]> => {
+  await deleteDoc(doc(db, GRADE_SCALES_COLLECTION, userId));
+  return GRADE_CONFIG.defaultScale;
+};
+
+/**
+ * Load courses, tasks and scale, and compute every course grade plus GPA
+ */
+export const getGradeOverview = async (userId: string): Promise<GradeOverview> => {
+  const [scale, courses, tasks] = await Promise.all([
+    getGradeScale(userId),
+    getCourses(userId),
+    getTasks(userId),
+  ]);
+
+  const courseStats = new Map(
+    courses.map((course) => [course.id, calculateCourseGrade(course, tasks, scale)])
+  );
+
+  return {
+    scale,
+    courses,
+    tasks,
+    courseStats,
+    gpa: calculateGpa(courses, courseStats),
+  };
+};
+
+export default {
+  getGradeScale,
+  saveGradeScale,
+  resetGradeScale,
+  getGradeOverview,
+};
@@ -0,0 +1,155 @@
+/**
+ * i18n Service
+ * Message catalogs, pluralisation and locale-aware dates for English,
+ * Sinhala and Tamil.
+ *
+ * Screens read strings through useTranslation() so they re-render on a
+ * language change; services (notifications, AI prompts) call t() directly
+ * and use whichever language is active when they run.
+ *
+ * Catalogs are nested JSON. A plural entry is an object with `one` and
+ * `other` and is picked by the `count` param; `{{name}}` is replaced with
+ * params.name. Keys missing from a catalog fall back to English.
+ * `npm run i18n:check` (part of `npm test`) flags keys missing from si/ta.
+ */
+
+import { UserSettings } from '../../types';
+import en from './locales/en.json';
+import si from './locales/si.json';
+import ta from './locales/ta.json';
+
+export type Language = UserSettings['language'];
+
+type Catalog = typeof en;
+
+type PluralEntry = { one: string; other: string };
+
+// Dotted paths to every message, e.g. 'dashboard.greeting.morning.title'
+type MessageKey<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | PluralEntry
+    ? `${Prefix}${K}`
+    : MessageKey<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type TranslationKey = MessageKey<Catalog>;
+export type TranslationParams = Record<string, string | number>;
+
+export const SUPPORTED_LANGUAGES: { code: Language; nativeName: string; englishName: string; locale: string }[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English', locale: 'en-US' },
+  { code: 'si', nativeName: 'සිංහල', englishName: 'Sinhala', locale: 'si-LK' },
+  { code: 'ta', nativeName: 'தமிழ்', englishName: 'Tamil', locale: 'ta-LK' },
+];
+
+const CATALOGS: Record<Language, unknown> = { en, si, ta };
+
+// CLDR plural categories used by the catalogs: Sinhala treats 0 and 1 as
+// "one", English and Tamil only 1
+const PLURAL_RULES: Record<Language, (count: number) => keyof PluralEntry> = {
+  en: (count) => (count === 1 ? 'one' : 'other'),
+  si: (count) => (count === 0 || count === 1 ? 'one' : 'other'),
+  ta: (count) => (count === 1 ? 'one' : 'other'),
+};
+
+let currentLanguage: Language = 'en';
+const listeners = new Set<(language: Language) => void>();
+
+export const isSupportedLanguage = (value: unknown): value is Language =>
+  SUPPORTED_LANGUAGES.some((language) => language.code === value);
+
+export const getLanguage = (): Language => currentLanguage;
+
+/**
+ * Switch the active language; subscribers (the language provider) re-render
+ */
+export const setLanguage = (language: Language): void => {
+  if (language === currentLanguage) return;
+  currentLanguage = language;
+  listeners.forEach((listener) => listener(language));
+};
+
+export const onLanguageChange = (listener: (language: Language) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * BCP 47 locale for Intl formatting
+ */
+export const getLocale = (language: Language = currentLanguage): string =>
+  SUPPORTED_LANGUAGES.find((entry) => entry.code === language)?.locale || 'en-US';
+
+const lookup = (catalog: unknown, key: string): string | PluralEntry | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    catalog
+  );
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && 'other' in value) return value as PluralEntry;
+  return undefined;
+};
+
+const interpolate = (template: string, params?: TranslationParams): string =>
+  params ? template.replace(/\{\{(\w+)\}\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+/**
+ * Message for a key in the active language (or `language`), falling back
+ * to English and then to the key itself
+ */
+export const t = (key: TranslationKey, params?: TranslationParams, language: Language = currentLanguage): string => {
+  const entry = lookup(CATALOGS[language], key) ?? lookup(CATALOGS.en, key);
+  if (entry === undefined) {
+    console.warn('[i18n] Missing message:', key);
+    return key;
+  }
+
+  if (typeof entry === 'string') return interpolate(entry, params);
+
+  const count = typeof params?.count === 'number' ? params.count : 0;
+  return interpolate(entry[PLURAL_RULES[language](count)] ?? entry.other, params);
+};
+
+/**
+ * Locale-aware date, e.g. "Monday, 14 October" in the active language
+ */
+export const formatDate = (date: Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string =>
+  date.toLocaleDateString(getLocale(), options);
+
+/**
+ * Locale-aware time of day, e.g. "3:30 PM"
+ */
+export const formatTime = (
+  date: Date,
+  options: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' }
+): string => date.toLocaleTimeString(getLocale(), options);
+
+/**
+ * Locale-aware weekday name for a day index (0 = Sunday)
+ */
+export const formatWeekday = (day: number, width: 'narrow' | 'short' | 'long' = 'short'): string =>
+  formatDate(new Date(2024, 0, 7 + day), { weekday: width }); // 7 January 2024 was a Sunday
+
+/**
+ * Sentence appended to AI prompts so replies come back in the active
+ * language. Empty for English.
+ */
+export const getPromptLanguageInstruction = (): string => {
+  if (currentLanguage === 'en') return '';
+  const language = SUPPORTED_LANGUAGES.find((entry) => entry.code === currentLanguage)!;
+  return `Write your reply in ${language.englishName} (${language.nativeName}).`;
+};
+
+export default {
+  SUPPORTED_LANGUAGES,
+  isSupportedLanguage,
+  getLanguage,
+  setLanguage,
+  onLanguageChange,
+  getLocale,
+  t,
+  formatDate,
+  formatTime,
+  formatWeekday,
+  getPromptLanguageInstruction,
+};
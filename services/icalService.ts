@@ -0,0 +1,725 @@
+/**
+ * iCalendar Service
+ * Export tasks and the weekly timetable as a .ics file, and import a
+ * university-provided .ics into courses, timetable entries and tasks.
+ *
+ * Re-imports are matched by UID (stored as `externalUid`), so changed events
+ * update the existing rows instead of creating duplicates.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Course, Task, TaskPriority, TaskStatus, TaskType, TimetableEntry } from '../types';
+import { createCourse, getCourses } from './courseServiceFirestore';
+import { batchCreateTasks, getTasks, updateTask } from './taskServiceFirestore';
+import {
+    createTimetableEntry,
+    getTimetableEntries,
+    updateTimetableEntry,
+} from './timetableServiceFirestore';
+import {
+    detectType,
+    extractCourseCode,
+    isExistingEntry,
+    matchCourse,
+} from './timetableImport/timetableParser';
+
+const PRODID = '-//UniMate//Student Companion//EN';
+const UID_DOMAIN = 'unimatemobile';
+const OWN_UID = new RegExp(`^(task|class)-([A-Za-z0-9]+)@${UID_DOMAIN}$`);
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const EXPORT_FILE_NAME = 'unimate-calendar.ics';
+const MAX_LINE_OCTETS = 75; // RFC 5545 limit, excluding the CRLF
+
+export interface IcsRecurrence {
+  freq: string;
+  interval: number;
+  byDay: number[]; // 0=Sunday, 6=Saturday
+  until?: Date;
+  count?: number;
+}
+
+export interface IcsEvent {
+  component: 'VEVENT' | 'VTODO';
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  categories: string[];
+  start?: Date;
+  end?: Date;
+  due?: Date;
+  allDay: boolean;
+  rrule?: IcsRecurrence;
+  recurrenceId?: string;
+  status?: string;
+  priority?: number;
+  reminder?: Date;
+}
+
+export interface CalendarExportOptions {
+  includeTasks?: boolean;
+  includeTimetable?: boolean;
+  includeCompleted?: boolean;
+  taskComponent?: 'VEVENT' | 'VTODO'; // VEVENT shows up in every calendar app, VTODO only in task-aware ones
+  termEnd?: Date; // UNTIL for weekly classes; repeats indefinitely when omitted
+}
+
+export interface CalendarImportResult {
+  coursesCreated: number;
+  timetableCreated: number;
+  timetableUpdated: number;
+  tasksCreated: number;
+  tasksUpdated: number;
+  skipped: number;
+}
+
+const TASK_TYPE_PATTERNS: { type: TaskType; pattern: RegExp }[] = [
+  { type: TaskType.EXAM, pattern: /\b(exam|examination|midterm|mid-term|final)\b/i },
+  { type: TaskType.QUIZ, pattern: /\bquiz\b/i },
+  { type: TaskType.PROJECT, pattern: /\bproject\b/i },
+  { type: TaskType.ASSIGNMENT, pattern: /\b(assignment|coursework|submission|due|deadline|report|essay|homework)\b/i },
+  { type: TaskType.STUDY, pattern: /\b(study|revision)\b/i },
+];
+
+const ICS_PRIORITY: Record<TaskPriority, number> = {
+  [TaskPriority.URGENT]: 1,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+// ============================================
+// FORMATTING HELPERS
+// ============================================
+
+const pad = (value: number, length = 2): string => value.toString().padStart(length, '0');
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Fold long content lines onto continuation lines starting with a space.
+ * Counts UTF-8 octets (a Sinhala or Tamil letter is 3) and never splits a
+ * character.
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n');
+};
+
+const formatUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatLocal = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T` +
+  `${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const toTimeString = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Next date (today included) falling on the given weekday at HH:MM
+ */
+const nextWeekdayAt = (dayOfWeek: number, time: string, from: Date): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate(), hours, minutes);
+  date.setDate(date.getDate() + ((dayOfWeek - date.getDay() + 7) % 7));
+  return date;
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+const taskStatusToIcs = (status: TaskStatus): string => {
+  switch (status) {
+    case TaskStatus.COMPLETED:
+      return 'COMPLETED';
+    case TaskStatus.IN_PROGRESS:
+      return 'IN-PROCESS';
+    default:
+      return 'NEEDS-ACTION';
+  }
+};
+
+const buildTaskComponent = (
+  task: Task,
+  course: Course | undefined,
+  component: 'VEVENT' | 'VTODO',
+  stamp: string
+): string[] => {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.externalUid || `task-${task.id}@${UID_DOMAIN}`}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(course ? `${course.code}: ${task.title}` : task.title)}`,
+  ];
+
+  if (component === 'VTODO') {
+    lines.push(`DUE:${formatUtc(task.dueDate)}`, `STATUS:${taskStatusToIcs(task.status)}`);
+  } else {
+    lines.push(`DTSTART:${formatUtc(task.dueDate)}`, `DTEND:${formatUtc(task.dueDate)}`, 'TRANSP:TRANSPARENT');
+  }
+
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  lines.push(`PRIORITY:${ICS_PRIORITY[task.priority] ?? 5}`);
+  lines.push(`CATEGORIES:${[course?.code, task.type].filter(Boolean).map((c) => escapeText(c!)).join(',')}`);
+
+  if (task.reminderDate) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(task.title)}`,
+      `TRIGGER;VALUE=DATE-TIME:${formatUtc(task.reminderDate)}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+const buildClassEvent = (
+  entry: TimetableEntry,
+  course: Course | undefined,
+  stamp: string,
+  from: Date,
+  termEnd?: Date
+): string[] => {
+  const start = nextWeekdayAt(entry.dayOfWeek, entry.startTime, from);
+  const end = nextWeekdayAt(entry.dayOfWeek, entry.endTime, start);
+  const type = entry.type ? entry.type.charAt(0).toUpperCase() + entry.type.slice(1) : 'Class';
+  const title = course ? `${course.code} ${course.name} (${type})` : type;
+  const rrule = `RRULE:FREQ=WEEKLY;BYDAY=${ICS_DAYS[entry.dayOfWeek]}${termEnd ? `;UNTIL=${formatUtc(termEnd)}` : ''}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${entry.externalUid || `class-${entry.id}@${UID_DOMAIN}`}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatLocal(start)}`,
+    `DTEND:${formatLocal(end)}`,
+    rrule,
+    `SUMMARY:${escapeText(title)}`,
+  ];
+
+  if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`);
+  if (course) lines.push(`CATEGORIES:${escapeText(course.code)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Build an iCalendar document. Task deadlines are exported in UTC; classes use
+ * floating local times so they stay at the same wall-clock time every week.
+ */
+export const buildICalendar = (
+  data: { tasks: Task[]; timetable: TimetableEntry[]; courses: Course[] },
+  options: CalendarExportOptions = {},
+  now: Date = new Date()
+): string => {
+  const {
+    includeTasks = true,
+    includeTimetable = true,
+    includeCompleted = false,
+    taskComponent = 'VEVENT',
+    termEnd,
+  } = options;
+
+  const courseById = new Map(data.courses.map((course) => [course.id, course]));
+  const stamp = formatUtc(now);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+
+  if (includeTimetable) {
+    data.timetable.forEach((entry) => {
+      lines.push(...buildClassEvent(entry, courseById.get(entry.courseId), stamp, now, termEnd));
+    });
+  }
+
+  if (includeTasks) {
+    data.tasks
+      .filter((task) => includeCompleted || task.status !== TaskStatus.COMPLETED)
+      .forEach((task) => {
+        lines.push(...buildTaskComponent(task, courseById.get(task.courseId), taskComponent, stamp));
+      });
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Write the user's calendar to a .ics file in the cache directory
+ */
+export const exportCalendarFile = async (
+  userId: string,
+  options: CalendarExportOptions = {}
+): Promise<string> => {
+  const [tasks, timetable, courses] = await Promise.all([
+    getTasks(userId, false),
+    getTimetableEntries(userId),
+    getCourses(userId),
+  ]);
+
+  const file = new File(Paths.cache, EXPORT_FILE_NAME);
+  file.create({ overwrite: true });
+  file.write(buildICalendar({ tasks, timetable, courses }, options));
+
+  console.log('[ICalService] Exported', tasks.length, 'tasks and', timetable.length, 'classes');
+  return file.uri;
+};
+
+/**
+ * Export and open the share sheet so the file can be added to another calendar
+ */
+export const shareCalendarExport = async (
+  userId: string,
+  options: CalendarExportOptions = {}
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = await exportCalendarFile(userId, options);
+  await Sharing.shareAsync(uri, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'Export calendar',
+  });
+};
+
+// ============================================
+// PARSING
+// ============================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseContentLine = (line: string): ContentLine | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, value = ''] = param.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+/**
+ * Parse DATE / DATE-TIME values. UTC values keep their instant; local and
+ * TZID values are read as device-local wall-clock time, which matches the
+ * usual case of a university feed in the student's own timezone.
+ */
+const parseIcsDate = (value: string, params: Record<string, string> = {}): { date: Date; allDay: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (!h || params.VALUE === 'DATE') {
+    return { date: new Date(Number(y), Number(mo) - 1, Number(d)), allDay: true };
+  }
+
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s || 0)] as const;
+  return {
+    date: utc ? new Date(Date.UTC(...parts)) : new Date(...parts),
+    allDay: false,
+  };
+};
+
+/**
+ * Parse an ISO 8601 duration ("-PT15M", "P1DT2H", "-P1W") into milliseconds
+ */
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    (Number(w || 0) * 7 * 24 * 3600 + Number(d || 0) * 24 * 3600 + Number(h || 0) * 3600 + Number(m || 0) * 60 + Number(s || 0)) *
+    1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const parseRecurrence = (value: string): IcsRecurrence => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach((part) => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val;
+  });
+
+  return {
+    freq: parts.FREQ || '',
+    interval: Number(parts.INTERVAL || 1),
+    byDay: (parts.BYDAY || '')
+      .split(',')
+      .map((day) => ICS_DAYS.indexOf(day.replace(/^[+-]?\d+/, '').toUpperCase()))
+      .filter((day) => day >= 0),
+    until: parts.UNTIL ? parseIcsDate(parts.UNTIL)?.date : undefined,
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+  };
+};
+
+/**
+ * Parse VEVENT and VTODO components out of an iCalendar document
+ */
+export const parseICalendar = (text: string): IcsEvent[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+  let alarmTrigger: ContentLine | null = null;
+  let nested: string[] = [];
+
+  lines.forEach((raw) => {
+    const line = parseContentLine(raw.trim());
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      const component = line.value.toUpperCase();
+      if (!current && (component === 'VEVENT' || component === 'VTODO')) {
+        current = { component, uid: '', summary: '', categories: [], allDay: false };
+        alarmTrigger = null;
+      } else if (current) {
+        nested.push(component);
+      }
+      return;
+    }
+
+    if (line.name === 'END') {
+      const component = line.value.toUpperCase();
+      if (current && nested.length > 0) {
+        nested.pop();
+        return;
+      }
+      if (current && component === current.component) {
+        const event: IcsEvent = current;
+        const trigger = alarmTrigger as ContentLine | null;
+        if (trigger) {
+          const anchor = trigger.params.RELATED === 'END' ? event.end || event.due : event.start || event.due;
+          const absolute = parseIcsDate(trigger.value, trigger.params);
+          const offset = parseDuration(trigger.value);
+          event.reminder = absolute ? absolute.date : anchor && offset !== null ? new Date(anchor.getTime() + offset) : undefined;
+        }
+        if (event.uid) events.push(event);
+        current = null;
+        nested = [];
+      }
+      return;
+    }
+
+    if (!current) return;
+
+    if (nested.length > 0) {
+      // Keep the first alarm's trigger as the task reminder
+      if (nested[nested.length - 1] === 'VALARM' && line.name === 'TRIGGER' && !alarmTrigger) {
+        alarmTrigger = line;
+      }
+      return;
+    }
+
+    const event: IcsEvent = current;
+    switch (line.name) {
+      case 'UID':
+        event.uid = line.value.trim();
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(line.value).trim();
+        break;
+      case 'DESCRIPTION':
+        event.description = unescapeText(line.value).trim() || undefined;
+        break;
+      case 'LOCATION':
+        event.location = unescapeText(line.value).trim() || undefined;
+        break;
+      case 'CATEGORIES':
+        event.categories.push(...unescapeText(line.value).split(',').map((c) => c.trim()).filter(Boolean));
+        break;
+      case 'DTSTART': {
+        const parsed = parseIcsDate(line.value, line.params);
+        if (parsed) {
+          event.start = parsed.date;
+          event.allDay = parsed.allDay;
+        }
+        break;
+      }
+      case 'DTEND':
+        event.end = parseIcsDate(line.value, line.params)?.date;
+        break;
+      case 'DUE': {
+        const parsed = parseIcsDate(line.value, line.params);
+        if (parsed?.allDay) parsed.date.setHours(23, 59);
+        event.due = parsed?.date;
+        break;
+      }
+      case 'DURATION': {
+        const duration = parseDuration(line.value);
+        if (event.start && duration !== null) event.end = new Date(event.start.getTime() + duration);
+        break;
+      }
+      case 'RRULE':
+        event.rrule = parseRecurrence(line.value);
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = line.value;
+        break;
+      case 'STATUS':
+        event.status = line.value.toUpperCase();
+        break;
+      case 'PRIORITY':
+        event.priority = Number(line.value) || undefined;
+        break;
+    }
+  });
+
+  return events;
+};
+
+// ============================================
+// IMPORT
+// ============================================
+
+const detectTaskType = (text: string): TaskType | null =>
+  TASK_TYPE_PATTERNS.find(({ pattern }) => pattern.test(text))?.type ?? null;
+
+const priorityFromIcs = (priority: number | undefined, type: TaskType): TaskPriority => {
+  if (!priority) return type === TaskType.EXAM ? TaskPriority.HIGH : TaskPriority.MEDIUM;
+  if (priority <= 2) return TaskPriority.URGENT;
+  if (priority <= 4) return TaskPriority.HIGH;
+  if (priority === 5) return TaskPriority.MEDIUM;
+  return TaskPriority.LOW;
+};
+
+/**
+ * Strip the course code and class-type words from a summary to get a course name
+ */
+const courseNameFromSummary = (summary: string, code: string): string => {
+  const name = summary
+    .replace(new RegExp(code.replace(/(\D)(\d)/, '$1\\s?-?\\s?$2'), 'i'), ' ')
+    .replace(/\b(lecture|lec|lab|laboratory|practical|tutorial|tut|seminar)\b/gi, ' ')
+    .replace(/[()[\]:|]/g, ' ')
+    .replace(/\s+-\s+|\s+/g, ' ')
+    .trim()
+    .replace(/^-\s*|\s*-$/g, '');
+  return name.length >= 3 ? name : code;
+};
+
+/**
+ * Remove a leading "CS1012:" / "CS1012 -" prefix so exported titles round-trip
+ */
+const taskTitleFromSummary = (summary: string, code?: string): string => {
+  if (!code) return summary;
+  const stripped = summary.replace(new RegExp(`^${code.replace(/(\D)(\d)/, '$1\\s?-?\\s?$2')}\\s*[:\\-–]?\\s*`, 'i'), '');
+  return stripped || summary;
+};
+
+const ownId = (uid: string, kind: 'task' | 'class'): string | undefined => {
+  const match = uid.match(OWN_UID);
+  return match && match[1] === kind ? match[2] : undefined;
+};
+
+/**
+ * Import an iCalendar document. Weekly recurring events become timetable
+ * entries (one per BYDAY), one-off deadlines and VTODOs become tasks.
+ */
+export const importICalendar = async (userId: string, text: string): Promise<CalendarImportResult> => {
+  const result: CalendarImportResult = {
+    coursesCreated: 0,
+    timetableCreated: 0,
+    timetableUpdated: 0,
+    tasksCreated: 0,
+    tasksUpdated: 0,
+    skipped: 0,
+  };
+
+  const events = parseICalendar(text);
+  const [courses, tasks, timetable] = await Promise.all([
+    getCourses(userId, false),
+    getTasks(userId, false),
+    getTimetableEntries(userId),
+  ]);
+
+  const tasksByUid = new Map(tasks.filter((t) => t.externalUid).map((t) => [t.externalUid!, t]));
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+  const classesByUid = new Map(timetable.filter((e) => e.externalUid).map((e) => [e.externalUid!, e]));
+  const classesById = new Map(timetable.map((e) => [e.id, e]));
+  const newTasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>[] = [];
+  const now = new Date();
+
+  const resolveCourse = async (event: IcsEvent): Promise<{ course?: Course; code?: string }> => {
+    const searchText = [event.summary, ...event.categories].join(' ');
+    const code = extractCourseCode(searchText);
+    const existing = matchCourse(searchText, code, courses);
+    if (existing || !code) return { course: existing, code };
+
+    const course = await createCourse({ userId, code, name: courseNameFromSummary(event.summary, code) });
+    courses.push(course);
+    result.coursesCreated++;
+    return { course, code };
+  };
+
+  for (const event of events) {
+    // Single-occurrence overrides and cancellations of a series are not modelled
+    if (event.status === 'CANCELLED' || event.recurrenceId) {
+      result.skipped++;
+      continue;
+    }
+
+    if (event.rrule) {
+      if (event.rrule.freq !== 'WEEKLY' || event.rrule.interval !== 1 || !event.start || event.allDay) {
+        result.skipped++;
+        continue;
+      }
+      if (event.rrule.until && event.rrule.until < now) {
+        result.skipped++; // Series from a past term
+        continue;
+      }
+
+      const { course } = await resolveCourse(event);
+      if (!course) {
+        result.skipped++;
+        continue;
+      }
+
+      const days = event.rrule.byDay.length > 0 ? event.rrule.byDay : [event.start.getDay()];
+      const startTime = toTimeString(event.start);
+      const endTime = toTimeString(event.end || new Date(event.start.getTime() + 60 * 60 * 1000));
+
+      for (const dayOfWeek of days) {
+        const externalUid = days.length > 1 ? `${event.uid}#${ICS_DAYS[dayOfWeek]}` : event.uid;
+        const entry = {
+          courseId: course.id,
+          dayOfWeek,
+          startTime,
+          endTime,
+          location: event.location,
+          type: detectType(event.summary).type,
+        };
+
+        const match = classesByUid.get(externalUid) || classesById.get(ownId(event.uid, 'class') || '');
+        if (match) {
+          await updateTimetableEntry(match.id, entry);
+          result.timetableUpdated++;
+        } else if (isExistingEntry(entry, timetable)) {
+          result.skipped++; // Already added by hand
+        } else {
+          await createTimetableEntry({ userId, ...entry, externalUid });
+          result.timetableCreated++;
+        }
+      }
+      continue;
+    }
+
+    let dueDate = event.component === 'VTODO' ? event.due || event.start : event.start;
+    if (dueDate && event.allDay && dueDate === event.start) {
+      dueDate = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate(), 23, 59); // All-day deadline
+    }
+    const taskType = detectTaskType(`${event.summary} ${event.categories.join(' ')}`);
+    // One-off class sessions (e.g. a make-up lecture) are not tasks
+    const isClassSession = event.component === 'VEVENT' && !taskType && detectType(event.summary).matched;
+    if (!dueDate || isClassSession) {
+      result.skipped++;
+      continue;
+    }
+
+    const { course, code } = await resolveCourse(event);
+    if (!course) {
+      result.skipped++;
+      continue;
+    }
+
+    const type = taskType ?? TaskType.OTHER;
+    const title = taskTitleFromSummary(event.summary, code).slice(0, 200);
+    const match = tasksByUid.get(event.uid) || tasksById.get(ownId(event.uid, 'task') || '');
+
+    if (match) {
+      const updates: Partial<Task> = { userId, courseId: course.id, title, type, dueDate };
+      if (event.description) updates.description = event.description;
+      if (event.reminder) updates.reminderDate = event.reminder;
+      if (event.status === 'COMPLETED') updates.status = TaskStatus.COMPLETED;
+      await updateTask(match.id, updates);
+      result.tasksUpdated++;
+    } else {
+      newTasks.push({
+        userId,
+        courseId: course.id,
+        title,
+        description: event.description,
+        type,
+        priority: priorityFromIcs(event.priority, type),
+        status: event.status === 'COMPLETED' ? TaskStatus.COMPLETED : TaskStatus.TODO,
+        dueDate,
+        reminderDate: event.reminder,
+        externalUid: event.uid,
+      });
+    }
+  }
+
+  if (newTasks.length > 0) {
+    await batchCreateTasks(newTasks);
+    result.tasksCreated = newTasks.length;
+  }
+
+  console.log('[ICalService] Import finished:', result);
+  return result;
+};
+
+/**
+ * Read a picked .ics file and import it
+ */
+export const importCalendarFile = async (userId: string, uri: string): Promise<CalendarImportResult> => {
+  const text = await new File(uri).text();
+  if (!text.includes('BEGIN:VCALENDAR')) {
+    throw new Error('This file is not an iCalendar (.ics) file');
+  }
+  return importICalendar(userId, text);
+};
+
+export default {
+  buildICalendar,
+  exportCalendarFile,
+  shareCalendarExport,
+  parseICalendar,
+  importICalendar,
+  importCalendarFile,
+};
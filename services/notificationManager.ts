@@ -37,6 +37,18 @@ const STORAGE_KEYS = {
   HISTORY: '@notification_history'
 };
 
+// Buttons on the ongoing study timer notification
+export const STUDY_TIMER_ACTIONS = {
+  PAUSE: 'STUDY_TIMER_PAUSE',
+  RESUME: 'STUDY_TIMER_RESUME',
+  NEXT_PHASE: 'STUDY_TIMER_NEXT_PHASE',
+};
+
+export const STUDY_TIMER_CATEGORIES = {
+  RUNNING: 'study_timer_running',
+  PAUSED: 'study_timer_paused',
+};
+
 // Configure notification behavior
 Notifications.setNotificationHandler({
   handleNotification: async (notification) => {
@@ -116,6 +128,8 @@ class SmartNotificationManager {
         await this.createNotificationChannels();
       }
 
+      await this.registerActionCategories();
+
       // Load rate limit cache
       await this.loadRateLimitCache();
 
@@ -142,6 +156,21 @@ class SmartNotificationManager {
     }
   }
 
+  /**
+   * Register notification button sets.
+   * Timer buttons don't open the app; if the app has been killed they do
+   * nothing, and the timer simply keeps running from its saved timestamps.
+   */
+  private async registerActionCategories(): Promise<void> {
+    await Notifications.setNotificationCategoryAsync(STUDY_TIMER_CATEGORIES.RUNNING, [
+      { identifier: STUDY_TIMER_ACTIONS.PAUSE, buttonTitle: 'Pause', options: { opensAppToForeground: false } },
+      { identifier: STUDY_TIMER_ACTIONS.NEXT_PHASE, buttonTitle: 'Skip', options: { opensAppToForeground: false } },
+    ]);
+    await Notifications.setNotificationCategoryAsync(STUDY_TIMER_CATEGORIES.PAUSED, [
+      { identifier: STUDY_TIMER_ACTIONS.RESUME, buttonTitle: 'Resume', options: { opensAppToForeground: false } },
+    ]);
+  }
+
   /**
    * Create Android notification channels
    */
@@ -176,6 +205,14 @@ class SmartNotificationManager {
       showBadge: true,
     });
 
+    await Notifications.setNotificationChannelAsync('study_timer', {
+      name: 'Study Timer',
+      importance: Notifications.AndroidImportance.LOW,
+      showBadge: false,
+      enableVibrate: false,
+      sound: null,
+    });
+
     await Notifications.setNotificationChannelAsync('low', {
       name: 'Updates & Tips',
       importance: Notifications.AndroidImportance.LOW,
@@ -197,6 +234,7 @@ class SmartNotificationManager {
         productivity_tip: '💡',
         study_reminder: '📚',
         achievement: '🎉',
+        weekly_summary: '📊',
         reminder: '🔔',
         test: '🧪',
       };
@@ -349,6 +387,118 @@ class SmartNotificationManager {
     return notificationId;
   }
 
+  /**
+   * Schedule a notification for an exact moment, e.g. the end of a study phase.
+   * These are timers the user started, so they skip rate limits and quiet hours
+   * but still respect the user's type toggles.
+   */
+  async scheduleAt(
+    notification: Omit<NotificationPayload, 'id' | 'timestamp'>,
+    date: Date
+  ): Promise<string | null> {
+    try {
+      if (!this.initialized) {
+        await this.initialize();
+      }
+
+      const settings = await this.getSettings(notification.userId);
+      if (!settings.enabled || !this.isTypeEnabled(notification.type, settings)) {
+        console.log(`[NOTIFICATION MANAGER] ⚠️ Notification type ${notification.type} disabled, not scheduling`);
+        return null;
+      }
+
+      const style = this.getNotificationStyle(notification.priority);
+      const notificationId = await Notifications.scheduleNotificationAsync({
+        content: {
+          title: notification.title,
+          body: notification.body,
+          data: {
+            ...notification.actionData,
+            ...notification.data,
+            type: notification.type,
+            priority: notification.priority,
+            action: notification.action,
+          },
+          color: notification.color || style.color,
+          categoryIdentifier: notification.category,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date,
+        },
+      });
+
+      console.log('[NOTIFICATION MANAGER] ⏰ Scheduled', notification.type, 'for', date.toLocaleTimeString());
+      return notificationId;
+    } catch (error) {
+      console.error('[NOTIFICATION MANAGER] ❌ Failed to schedule notification:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Show or replace a silent, non-dismissable notification (the running study
+   * timer). Reusing `identifier` updates the one already showing.
+   */
+  async showOngoing(
+    identifier: string,
+    notification: Omit<NotificationPayload, 'id' | 'timestamp'>
+  ): Promise<void> {
+    try {
+      if (!this.initialized) {
+        await this.initialize();
+      }
+
+      const settings = await this.getSettings(notification.userId);
+      if (!settings.enabled) return;
+
+      await Notifications.scheduleNotificationAsync({
+        identifier,
+        content: {
+          title: notification.title,
+          body: notification.body,
+          data: {
+            ...notification.actionData,
+            ...notification.data,
+            type: notification.type,
+            action: notification.action,
+          },
+          categoryIdentifier: notification.category,
+          sticky: true,
+          autoDismiss: false,
+          sound: false,
+        },
+        trigger: Platform.OS === 'android' ? { channelId: 'study_timer' } : null,
+      });
+    } catch (error) {
+      console.error('[NOTIFICATION MANAGER] ❌ Failed to show ongoing notification:', error);
+    }
+  }
+
+  /**
+   * Remove an ongoing notification from the tray
+   */
+  async dismissOngoing(identifier: string): Promise<void> {
+    try {
+      await Notifications.dismissNotificationAsync(identifier);
+    } catch (error) {
+      console.error('[NOTIFICATION MANAGER] ❌ Failed to dismiss ongoing notification:', error);
+    }
+  }
+
+  /**
+   * Listen for taps on the study timer's buttons. Returns an unsubscribe function.
+   */
+  onStudyTimerAction(handler: (actionIdentifier: string) => void): () => void {
+    const actions = Object.values(STUDY_TIMER_ACTIONS);
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      if (actions.includes(response.actionIdentifier)) {
+        handler(response.actionIdentifier);
+      }
+    });
+    return () => subscription.remove();
+  }
+
   /**
    * Check rate limiting rules
    */
@@ -546,7 +696,8 @@ class SmartNotificationManager {
       const settingsJson = await AsyncStorage.getItem(`${STORAGE_KEYS.SETTINGS}_${userId}`);
       
       if (settingsJson) {
-        return JSON.parse(settingsJson);
+        // Defaults fill in settings added since these were saved
+        return { ...this.getDefaultSettings(userId), ...JSON.parse(settingsJson) };
       }
 
       // Return default settings
@@ -587,6 +738,8 @@ class SmartNotificationManager {
       studyReminders: true,
       breakReminders: false,
       weeklySummary: true,
+      weeklySummaryDay: 0, // Sunday
+      weeklySummaryTime: '18:00',
       quietHoursEnabled: true,
       quietHoursStart: '22:00',
       quietHoursEnd: '07:00',
@@ -677,6 +830,19 @@ class SmartNotificationManager {
     await Notifications.cancelScheduledNotificationAsync(notificationId);
   }
 
+  /**
+   * Cancel scheduled notifications whose data has all the given values
+   */
+  async cancelMatching(match: Record<string, unknown>): Promise<number> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const targets = scheduled.filter(notification =>
+      Object.entries(match).every(([key, value]) => notification.content.data?.[key] === value)
+    );
+
+    await Promise.all(targets.map(notification => Notifications.cancelScheduledNotificationAsync(notification.identifier)));
+    return targets.length;
+  }
+
   /**
    * Load rate limit cache from storage
    */
@@ -0,0 +1,426 @@
+/**
+ * PDF Text
+ * On-device extraction of a PDF's text layer, page by page.
+ *
+ * Pages are read in `/Pages` tree order, including page objects packed into
+ * compressed object streams. Handles uncompressed and FlateDecode content
+ * streams, literal and hex strings, and fonts with a ToUnicode map (the CID
+ * fonts Word and PowerPoint export with). Scanned PDFs have no text layer and
+ * yield empty pages.
+ */
+
+import { inflate } from 'pako';
+
+/**
+ * A page's text; `page` is unset when the page tree could not be read and the
+ * text comes from a content stream of unknown position
+ */
+export interface PdfPage {
+  text: string;
+  page?: number;
+}
+
+interface PdfObject {
+  body: string; // the object itself, or a stream's dictionary
+  stream?: string; // raw (still encoded) stream bytes
+}
+
+interface PdfFont {
+  codeLength: number; // bytes per character code
+  toUnicode: Map<number, string> | null;
+}
+
+const decodeLatin1 = (bytes: Uint8Array): string => {
+  let out = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    out += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunk)));
+  }
+  return out;
+};
+
+const encodeLatin1 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * Decode a PDF literal string: (Mon \(Lab\) 08:00)
+ */
+const decodePdfString = (literal: string): string =>
+  literal
+    .replace(/\\([nrtbf()\\])/g, (_, ch: string) =>
+      ({ n: '\n', r: '\r', t: '\t', b: '', f: '' } as Record<string, string>)[ch] ?? ch
+    )
+    .replace(/\\(\d{1,3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+
+/**
+ * Decode a PDF hex string body: <48656C6C6F> - a missing last digit counts as 0
+ */
+const decodeHexString = (hex: string): string => {
+  const digits = hex.replace(/[^0-9A-Fa-f]/g, '');
+  const padded = digits.length % 2 ? `${digits}0` : digits;
+  let out = '';
+  for (let i = 0; i < padded.length; i += 2) {
+    out += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return out;
+};
+
+/**
+ * UTF-16BE hex from a ToUnicode map to a JS string
+ */
+const decodeUtf16Hex = (hex: string): string => {
+  if (hex.length % 4 !== 0) return decodeHexString(hex);
+  const units: number[] = [];
+  for (let i = 0; i < hex.length; i += 4) {
+    units.push(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return String.fromCharCode(...units);
+};
+
+/**
+ * Character code -> text from a ToUnicode CMap (bfchar and bfrange entries)
+ */
+const parseToUnicode = (cmap: string): { codeLength: number; map: Map<number, string> } => {
+  const map = new Map<number, string>();
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9A-Fa-f]+)>/);
+  let codeLength = codespace ? codespace[1].length / 2 : 0;
+  let block: RegExpExecArray | null;
+
+  const chars = /beginbfchar([\s\S]*?)endbfchar/g;
+  while ((block = chars.exec(cmap)) !== null) {
+    const pairs = block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g);
+    for (const [, source, target] of pairs) {
+      codeLength = codeLength || source.length / 2;
+      map.set(parseInt(source, 16), decodeUtf16Hex(target));
+    }
+  }
+
+  const ranges = /beginbfrange([\s\S]*?)endbfrange/g;
+  while ((block = ranges.exec(cmap)) !== null) {
+    const entries = block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g);
+    for (const [, low, high, target] of entries) {
+      codeLength = codeLength || low.length / 2;
+      const first = parseInt(low, 16);
+      const last = Math.min(parseInt(high, 16), first + 0xffff);
+
+      if (target.startsWith('[')) {
+        const targets = target.match(/<([0-9A-Fa-f]*)>/g) || [];
+        targets.forEach((hex, offset) => map.set(first + offset, decodeUtf16Hex(hex.slice(1, -1))));
+        continue;
+      }
+
+      // Consecutive codes map to consecutive characters
+      const base = decodeUtf16Hex(target.slice(1, -1));
+      const prefix = base.slice(0, -1);
+      const lastUnit = base.charCodeAt(base.length - 1);
+      for (let code = first; code <= last; code++) {
+        map.set(code, prefix + String.fromCharCode(lastUnit + code - first));
+      }
+    }
+  }
+
+  return { codeLength: codeLength || 1, map };
+};
+
+/**
+ * Text of a string operand's bytes in the current font
+ */
+const decodeShownText = (bytes: string, font: PdfFont | undefined): string => {
+  if (!font) return bytes;
+  if (!font.toUnicode) {
+    // Two-byte codes without a ToUnicode map are glyph ids, not characters
+    return font.codeLength === 1 ? bytes : '';
+  }
+
+  let text = '';
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    let code = 0;
+    for (let j = 0; j < font.codeLength; j++) {
+      code = code * 256 + bytes.charCodeAt(i + j);
+    }
+    const mapped = font.toUnicode.get(code);
+    text += mapped ?? (font.codeLength === 1 ? bytes[i] : '');
+  }
+  return text;
+};
+
+const STRING_OPERAND = /\((?:\\.|[^)\\])*\)|<[0-9A-Fa-f\s]*>/;
+
+const operandBytes = (operand: string): string =>
+  operand.startsWith('(') ? decodePdfString(operand.slice(1, -1)) : decodeHexString(operand.slice(1, -1));
+
+/**
+ * Pull text out of a PDF content stream's text operators (Tj, TJ, ', ")
+ * Line-moving operators start a new line; large TJ kerning gaps become column separators.
+ */
+const extractTextOperators = (content: string, fonts: Map<string, PdfFont>): string => {
+  const tokens =
+    content.match(
+      /\/[^\s/[\]()<>]+\s+-?[\d.]+\s+Tf|\[(?:\\.|[^\]\\])*\]\s*TJ|(?:\((?:\\.|[^)\\])*\)|<[0-9A-Fa-f\s]*>)\s*(?:Tj|'|")|-?[\d.]+\s+-?[\d.]+\s+T[dD]|T\*|ET/g
+    ) || [];
+  let font: PdfFont | undefined;
+  let text = '';
+
+  tokens.forEach((token) => {
+    if (token.endsWith('Tf')) {
+      font = fonts.get(token.slice(1).split(/\s+/)[0]);
+      return;
+    }
+
+    if (token === 'ET' || token === 'T*' || /T[dD]$/.test(token)) {
+      const moves = token.match(/^(-?[\d.]+)\s+(-?[\d.]+)/);
+      if (!moves || Math.abs(parseFloat(moves[2])) > 0.01) {
+        text += '\n';
+      } else {
+        text += ' | ';
+      }
+      return;
+    }
+
+    if (token.endsWith('TJ')) {
+      const parts = token.match(/\((?:\\.|[^)\\])*\)|<[0-9A-Fa-f\s]*>|-?[\d.]+/g) || [];
+      parts.forEach((part) => {
+        if (part.startsWith('(') || part.startsWith('<')) {
+          text += decodeShownText(operandBytes(part), font);
+        } else if (parseFloat(part) < -200) {
+          text += ' ';
+        }
+      });
+      return;
+    }
+
+    const operand = token.match(STRING_OPERAND);
+    if (operand) {
+      if (token.endsWith("'") || token.endsWith('"')) text += '\n';
+      text += decodeShownText(operandBytes(operand[0]), font);
+    }
+  });
+
+  return text;
+};
+
+/**
+ * Decoded stream data, or null for filters we cannot read
+ */
+const decodeStream = ({ body, stream }: PdfObject): string | null => {
+  if (stream === undefined) return null;
+  if (/\/FlateDecode/.test(body)) {
+    try {
+      return decodeLatin1(inflate(encodeLatin1(stream)));
+    } catch {
+      return null;
+    }
+  }
+  return /\/Filter/.test(body) ? null : stream;
+};
+
+/**
+ * Decode a content stream's text, or null for images, fonts and filters we cannot read
+ */
+const decodeTextStream = (object: PdfObject, fonts: Map<string, PdfFont>): string | null => {
+  if (/\/Subtype\s*\/Image|\/Type\s*\/XObject/.test(object.body)) return null;
+  const content = decodeStream(object);
+  return content !== null && /\bBT\b/.test(content) ? extractTextOperators(content, fonts) : null;
+};
+
+/**
+ * Raw value of `/Key` in a dictionary: a reference, array, dictionary, name or number
+ */
+const dictValue = (dict: string, key: string): string | null => {
+  const match = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict);
+  if (!match) return null;
+  const rest = dict.slice(match.index + match[0].length);
+
+  const ref = rest.match(/^\d+\s+\d+\s+R\b/);
+  if (ref) return ref[0];
+
+  if (rest.startsWith('<<') || rest.startsWith('[')) {
+    let depth = 0;
+    for (let i = 0; i < rest.length; i++) {
+      if (rest.startsWith('<<', i) || rest[i] === '[') {
+        depth++;
+        if (rest[i] === '<') i++;
+      } else if (rest.startsWith('>>', i) || rest[i] === ']') {
+        depth--;
+        if (rest[i] === '>') i++;
+        if (depth === 0) return rest.slice(0, i + 1);
+      }
+    }
+    return null;
+  }
+
+  const simple = rest.match(/^\/?[^\s/[\]()<>]+/);
+  return simple ? simple[0] : null;
+};
+
+const refNumbers = (value: string | null): string[] =>
+  (value?.match(/\d+\s+\d+\s+R\b/g) || []).map((ref) => ref.split(/\s+/)[0]);
+
+const isRef = (value: string | null): value is string => Boolean(value && /^\d+\s+\d+\s+R$/.test(value));
+
+/**
+ * Every object in the file, including those packed into object streams (PDF 1.5+)
+ */
+const readObjects = (raw: string): Map<string, PdfObject> => {
+  const objects = new Map<string, PdfObject>();
+  const objectPattern = /(\d+)\s+\d+\s+obj\b([\s\S]*?)endobj/g;
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n([\s\S]*?)\r?\n?endstream/;
+  let match: RegExpExecArray | null;
+
+  while ((match = objectPattern.exec(raw)) !== null) {
+    const [, objectNumber, body] = match;
+    const stream = body.match(streamPattern);
+    objects.set(objectNumber, stream ? { body: stream[1], stream: stream[2] } : { body: body.trim() });
+  }
+
+  objects.forEach((object) => {
+    if (!object.stream || !/\/Type\s*\/ObjStm/.test(object.body)) return;
+    const content = decodeStream(object);
+    const count = parseInt(dictValue(object.body, 'N') || '', 10);
+    const first = parseInt(dictValue(object.body, 'First') || '', 10);
+    if (content === null || !count || Number.isNaN(first)) return;
+
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const start = first + header[i * 2 + 1];
+      const end = i + 1 < count ? first + header[i * 2 + 3] : content.length;
+      const objectNumber = String(header[i * 2]);
+      if (!objects.has(objectNumber)) objects.set(objectNumber, { body: content.slice(start, end).trim() });
+    }
+  });
+
+  return objects;
+};
+
+/**
+ * Fonts of a page's resources by resource name (F1, TT2, ...)
+ */
+const readFonts = (
+  resources: string | null,
+  objects: Map<string, PdfObject>,
+  cache: Map<string, PdfFont>
+): Map<string, PdfFont> => {
+  const fonts = new Map<string, PdfFont>();
+  const resolve = (value: string | null) => (isRef(value) ? objects.get(refNumbers(value)[0])?.body ?? null : value);
+  const fontDict = resolve(dictValue(resolve(resources) || '', 'Font'));
+  if (!fontDict) return fonts;
+
+  for (const [, name, objectNumber] of fontDict.matchAll(/\/([^\s/[\]()<>]+)\s+(\d+)\s+\d+\s+R\b/g)) {
+    if (!cache.has(objectNumber)) {
+      const body = objects.get(objectNumber)?.body || '';
+      const cmapObject = objects.get(refNumbers(dictValue(body, 'ToUnicode'))[0] || '');
+      const cmap = cmapObject ? decodeStream(cmapObject) : null;
+      const toUnicode = cmap ? parseToUnicode(cmap) : null;
+      cache.set(objectNumber, {
+        codeLength: toUnicode?.codeLength ?? (/\/Subtype\s*\/Type0/.test(body) ? 2 : 1),
+        toUnicode: toUnicode?.map ?? null,
+      });
+    }
+    fonts.set(name, cache.get(objectNumber)!);
+  }
+  return fonts;
+};
+
+/**
+ * Page objects in `/Pages` tree order with their (possibly inherited)
+ * resources, or null when the tree cannot be followed
+ */
+const readPageTree = (objects: Map<string, PdfObject>): { body: string; resources: string | null }[] | null => {
+  let root: string | undefined;
+  objects.forEach((object) => {
+    if (root) return;
+    if (/\/Type\s*\/Catalog\b/.test(object.body)) root = refNumbers(dictValue(object.body, 'Pages'))[0];
+  });
+  if (!root) return null;
+
+  const pages: { body: string; resources: string | null }[] = [];
+  const seen = new Set<string>();
+
+  const walk = (objectNumber: string, inherited: string | null): boolean => {
+    const body = objects.get(objectNumber)?.body;
+    if (!body || seen.has(objectNumber)) return false;
+    seen.add(objectNumber);
+    const resources = dictValue(body, 'Resources') ?? inherited;
+
+    if (/\/Type\s*\/Pages\b/.test(body)) {
+      const kids = dictValue(body, 'Kids');
+      const list = isRef(kids) ? objects.get(refNumbers(kids)[0])?.body ?? '' : kids;
+      return refNumbers(list).every((kid) => walk(kid, resources));
+    }
+    if (/\/Type\s*\/Page\b/.test(body)) {
+      pages.push({ body, resources });
+      return true;
+    }
+    return false;
+  };
+
+  return walk(root, null) && pages.length > 0 ? pages : null;
+};
+
+/**
+ * Text of every page, in page order (empty string for pages without text).
+ * Falls back to one unnumbered entry per text stream when the page tree
+ * cannot be read.
+ */
+export const extractPdfPagesFromBytes = (bytes: Uint8Array): PdfPage[] => {
+  const objects = readObjects(decodeLatin1(bytes));
+  const fontCache = new Map<string, PdfFont>();
+  const tree = readPageTree(objects);
+
+  if (tree) {
+    const pages = tree.map(({ body, resources }, index) => {
+      const fonts = readFonts(resources, objects, fontCache);
+      const contents = dictValue(body, 'Contents');
+      // /Contents is a stream, an array of streams, or a reference to such an array
+      const target = isRef(contents) ? objects.get(refNumbers(contents)[0]) : undefined;
+      const streams = target && target.stream === undefined ? refNumbers(target.body) : refNumbers(contents);
+      const text = streams
+        .map((ref) => {
+          const object = objects.get(ref);
+          return object ? decodeTextStream(object, fonts) || '' : '';
+        })
+        .filter(Boolean)
+        .join('\n');
+      return { text, page: index + 1 };
+    });
+    if (pages.some((page) => page.text.trim())) return pages;
+  }
+
+  const texts: PdfPage[] = [];
+  objects.forEach((object) => {
+    const text = object.stream !== undefined ? decodeTextStream(object, new Map()) : null;
+    if (text?.trim()) texts.push({ text });
+  });
+  return texts;
+};
+
+/**
+ * Extract the whole text layer of a PDF
+ */
+export const extractTextFromPdfBytes = (bytes: Uint8Array): string =>
+  extractPdfPagesFromBytes(bytes)
+    .map((page) => page.text)
+    .filter((text) => text.trim())
+    .join('\n');
+
+const readBytes = async (uri: string): Promise<Uint8Array> => {
+  const response = await fetch(uri);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Read a local PDF and return its text layer
+ */
+export const extractTextFromPdf = async (uri: string): Promise<string> =>
+  extractTextFromPdfBytes(await readBytes(uri));
+
+/**
+ * Read a local PDF and return the text of each page
+ */
+export const extractPdfPages = async (uri: string): Promise<PdfPage[]> =>
+  extractPdfPagesFromBytes(await readBytes(uri));
@@ -5,6 +5,7 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { mainStudyHour } from './studyModes';
 import { getStudySessions } from './studyServiceFirestore';
 
 const STORAGE_KEY = '@peak_time_analysis';
@@ -84,8 +85,9 @@ export async function analyzePeakTimes(userId: string): Promise<PeakTimeAnalysis
     let totalEffectiveness = 0;
     let effectivenessCount = 0;
     
+    // Sessions timed in intervals count toward the hour most of the work fell in
     sessions.forEach(session => {
-      const hour = session.date.getHours();
+      const hour = mainStudyHour(session);
       const data = hourlyData.get(hour)!;
       
       data.count++;
@@ -1,6 +1,7 @@
 import { STUDY_CONFIG } from '../constants/config';
 import { DeadlinePrediction, Task, TaskStatus } from '../types';
 import { getStudySessionsByCourse } from './studyServiceFirestore';
+import { getTaskProgress } from './subtaskProgress';
 
 /**
  * Predict if a task is at risk of missing deadline
@@ -21,10 +22,8 @@ export const predictDeadlineRisk = async (task: Task): Promise<DeadlinePredictio
     };
   }
 
-  const estimatedHours = task.estimatedHours || 0;
-  const completedHours = task.completedHours || 0;
-  const remainingHours = estimatedHours - completedHours;
-  const completionPercentage = estimatedHours > 0 ? (completedHours / estimatedHours) * 100 : 0;
+  // Subtask checklists override manually entered hours
+  const { remainingHours, completionPercentage } = getTaskProgress(task);
 
   if (daysRemaining === 0) {
     return {
@@ -96,9 +95,7 @@ export const calculateCompletionProbability = async (
   
   if (daysRemaining <= 0) return 0;
 
-  const estimatedHours = task.estimatedHours || 0;
-  const completedHours = task.completedHours || 0;
-  const remainingHours = estimatedHours - completedHours;
+  const { remainingHours } = getTaskProgress(task);
 
   // Get historical study data for this course
   const sessions = await getStudySessionsByCourse(task.courseId);
@@ -171,8 +168,7 @@ export const analyzeWorkload = async (
   earliestDeadline.setFullYear(earliestDeadline.getFullYear() + 1); // Far future
 
   for (const task of incompleteTasks) {
-    const remaining = (task.estimatedHours || 0) - (task.completedHours || 0);
-    totalHoursNeeded += remaining;
+    totalHoursNeeded += getTaskProgress(task).remainingHours;
     
     if (task.dueDate < earliestDeadline) {
       earliestDeadline = task.dueDate;
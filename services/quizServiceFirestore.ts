@@ -0,0 +1,333 @@
+/**
+ * Quiz Service
+ * Practice quizzes generated from a course's indexed material or a chosen
+ * topic, with per-topic mastery tracked across attempts
+ */
+
+import {
+    collection,
+    doc,
+    getDocs,
+    query,
+    Timestamp,
+    where,
+} from 'firebase/firestore';
+import { QUIZ_CONFIG } from '../constants/config';
+import { db } from '../firebase/firebaseint';
+import { QuizAnswerResult, QuizAttempt, QuizQuestion, QuizSource, TopicMastery } from '../types';
+import { findInVectorStore, hybridSearch } from './ai/ragService';
+import { generateQuiz } from './aiServiceEnhanced';
+import { syncedQuery, syncedSet, syncedSetMany } from './sync/syncService';
+
+const QUIZ_ATTEMPTS_COLLECTION = 'quizAttempts';
+const TOPIC_MASTERY_COLLECTION = 'topicMastery';
+
+export interface Quiz {
+  courseId: string;
+  title: string;
+  source: QuizSource;
+  questions: QuizQuestion[];
+  aiGenerated: boolean; // false when the offline fallback wrote the questions
+}
+
+export interface WeakTopic {
+  courseId: string;
+  topic: string;
+  mastery: number;
+  attempts: number;
+}
+
+// Keeps letters, digits, combining marks (Sinhala and Tamil vowel signs) and the
+// zero-width joiners Sinhala conjuncts are written with, in any script
+const topicKey = (topic: string): string =>
+  Array.from(
+    topic
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\u200C\u200D]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+  )
+    .slice(0, 80)
+    .join('') || 'general';
+
+const toMastery = (id: string, data: any): TopicMastery => ({
+  id,
+  userId: data.userId,
+  courseId: data.courseId,
+  topic: data.topic,
+  mastery: data.mastery,
+  attempts: data.attempts,
+  correct: data.correct,
+  lastAttemptAt: data.lastAttemptAt.toDate(),
+});
+
+const toAttempt = (id: string, data: any): QuizAttempt => ({
+  id,
+  userId: data.userId,
+  courseId: data.courseId,
+  title: data.title,
+  source: data.source,
+  questionCount: data.questionCount,
+  score: data.score,
+  topics: data.topics || [],
+  completedAt: data.completedAt.toDate(),
+});
+
+/**
+ * Evenly spaced passages from the source, up to the AI's input budget
+ */
+const samplePassages = (passages: string[]): string => {
+  const total = passages.reduce((sum, passage) => sum + passage.length + 2, 0);
+  const step = Math.max(1, total / QUIZ_CONFIG.maxSourceCharacters);
+  const picked: string[] = [];
+  let length = 0;
+  for (let i = 0; i < passages.length && length < QUIZ_CONFIG.maxSourceCharacters; i += step) {
+    const passage = passages[Math.floor(i)];
+    picked.push(passage);
+    length += passage.length + 2;
+  }
+  return picked.join('\n\n');
+};
+
+const withIds = (
+  questions: Omit<QuizQuestion, 'id'>[],
+  prefix: string
+): QuizQuestion[] => questions.map((question, i) => ({ ...question, id: `${prefix}_${i}` }));
+
+/**
+ * Quiz on a course's ingested material - one file, or all of them
+ */
+export const createMaterialQuiz = async (
+  userId: string,
+  courseId: string,
+  options: { materialId?: string; title?: string } = {}
+): Promise<Quiz> => {
+  const chunks = await findInVectorStore(
+    userId,
+    item =>
+      item.metadata.courseId === courseId &&
+      !!item.metadata.materialId &&
+      (!options.materialId || item.metadata.materialId === options.materialId),
+    ['course_material', 'note']
+  );
+  if (chunks.length === 0) {
+    throw new Error('No course material is indexed yet. Add lecture notes in Materials first.');
+  }
+
+  chunks.sort((a, b) =>
+    a.metadata.materialId === b.metadata.materialId
+      ? a.metadata.chunkIndex - b.metadata.chunkIndex
+      : String(a.metadata.materialId).localeCompare(String(b.metadata.materialId))
+  );
+  const source = samplePassages(chunks.map(chunk => chunk.content));
+  const title = options.title || (options.materialId ? chunks[0].metadata.title || 'Material' : 'Course material');
+
+  const result = await generateQuiz(source, { topic: options.materialId ? title : undefined });
+  if (result.questions.length === 0) {
+    throw new Error('Could not write questions from this material. Try a topic quiz instead.');
+  }
+
+  return {
+    courseId,
+    title,
+    source: 'material',
+    aiGenerated: result.success,
+    questions: withIds(
+      result.questions.map(question => ({ ...question, context: source, sourceLabel: title })),
+      `quiz_${Date.now()}`
+    ),
+  };
+};
+
+/**
+ * Quiz on a topic, grounded in whatever the course has indexed about it
+ */
+export const createTopicQuiz = async (
+  userId: string,
+  courseId: string,
+  topic: string
+): Promise<Quiz> => {
+  const name = topic.trim();
+  if (!name) {
+    throw new Error('Enter a topic to be quizzed on');
+  }
+
+  const related = await hybridSearch(name, userId, {
+    limit: 8,
+    courseId,
+    types: ['course_material', 'note', 'study_session'],
+  });
+  const source = samplePassages(related.map(item => item.content));
+
+  const result = await generateQuiz(source, { topic: name });
+  if (result.questions.length === 0) {
+    throw new Error(
+      result.success
+        ? 'Could not write questions on this topic. Try rewording it.'
+        : 'The AI service is unavailable and no notes mention this topic. Add course material and try again.'
+    );
+  }
+
+  return {
+    courseId,
+    title: name,
+    source: 'topic',
+    aiGenerated: result.success,
+    questions: withIds(
+      result.questions.map(question => ({
+        ...question,
+        context: source || undefined,
+        sourceLabel: related[0]?.metadata.sourceLabel,
+      })),
+      `quiz_${Date.now()}`
+    ),
+  };
+};
+
+/**
+ * A user's topic mastery, optionally for one course
+ */
+export const getTopicMastery = async (userId: string, courseId?: string): Promise<TopicMastery[]> => {
+  const q = query(collection(db, TOPIC_MASTERY_COLLECTION), where('userId', '==', userId));
+  const docs = await syncedQuery(TOPIC_MASTERY_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  });
+
+  return docs
+    .map(({ id, data }) => toMastery(id, data))
+    .filter((mastery) => !courseId || mastery.courseId === courseId)
+    .sort((a, b) => a.mastery - b.mastery);
+};
+
+/**
+ * Topics below QUIZ_CONFIG.weakMastery, weakest first
+ */
+export const getWeakTopics = async (
+  userId: string,
+  options: { courseId?: string; limit?: number } = {}
+): Promise<WeakTopic[]> => {
+  const mastery = await getTopicMastery(userId, options.courseId);
+  return mastery
+    .filter((m) => m.mastery < QUIZ_CONFIG.weakMastery)
+    .slice(0, options.limit ?? QUIZ_CONFIG.weakTopicLimit)
+    .map((m) => ({ courseId: m.courseId, topic: m.topic, mastery: m.mastery, attempts: m.attempts }));
+};
+
+/**
+ * Save a finished quiz and fold its results into each topic's mastery.
+ * Mastery is a moving average, so recent quizzes count most.
+ */
+export const completeQuiz = async (
+  userId: string,
+  quiz: Quiz,
+  results: QuizAnswerResult[]
+): Promise<{ attempt: QuizAttempt; mastery: TopicMastery[] }> => {
+  if (results.length === 0) {
+    throw new Error('Answer at least one question first');
+  }
+
+  const now = Timestamp.now();
+  const score = results.reduce((sum, result) => sum + result.score, 0) / results.length;
+
+  const byTopic = new Map<string, { topic: string; results: QuizAnswerResult[] }>();
+  results.forEach((result) => {
+    const key = topicKey(result.topic);
+    const group = byTopic.get(key) || { topic: result.topic, results: [] };
+    group.results.push(result);
+    byTopic.set(key, group);
+  });
+
+  const attemptRef = doc(collection(db, QUIZ_ATTEMPTS_COLLECTION));
+  const attempt: QuizAttempt = {
+    id: attemptRef.id,
+    userId,
+    courseId: quiz.courseId,
+    title: quiz.title,
+    source: quiz.source,
+    questionCount: results.length,
+    score,
+    topics: Array.from(byTopic.values()).map((group) => group.topic),
+    completedAt: now.toDate(),
+  };
+
+  await syncedSet(QUIZ_ATTEMPTS_COLLECTION, attemptRef.id, {
+    userId,
+    courseId: quiz.courseId,
+    title: quiz.title,
+    source: quiz.source,
+    questionCount: attempt.questionCount,
+    score,
+    topics: attempt.topics,
+    completedAt: now,
+  });
+
+  const existing = new Map((await getTopicMastery(userId, quiz.courseId)).map((m) => [m.id, m]));
+  const updated: TopicMastery[] = [];
+
+  for (const [key, group] of byTopic) {
+    const id = `${userId}_${quiz.courseId}_${key}`;
+    const previous = existing.get(id);
+    const quizScore = group.results.reduce((sum, result) => sum + result.score, 0) / group.results.length;
+    const mastery = previous
+      ? previous.mastery * (1 - QUIZ_CONFIG.masteryWeight) + quizScore * QUIZ_CONFIG.masteryWeight
+      : quizScore;
+
+    const record: TopicMastery = {
+      id,
+      userId,
+      courseId: quiz.courseId,
+      topic: previous?.topic || group.topic,
+      mastery: Math.round(mastery * 1000) / 1000,
+      attempts: (previous?.attempts || 0) + group.results.length,
+      correct: (previous?.correct || 0) + group.results.filter((result) => result.correct).length,
+      lastAttemptAt: now.toDate(),
+    };
+
+    updated.push(record);
+  }
+
+  // Every topic of the quiz is updated together
+  await syncedSetMany(
+    TOPIC_MASTERY_COLLECTION,
+    updated.map((record) => ({
+      id: record.id,
+      data: {
+        userId,
+        courseId: record.courseId,
+        topic: record.topic,
+        mastery: record.mastery,
+        attempts: record.attempts,
+        correct: record.correct,
+        lastAttemptAt: now,
+      },
+    }))
+  );
+
+  return { attempt, mastery: updated };
+};
+
+/**
+ * Past quizzes, newest first
+ */
+export const getQuizAttempts = async (userId: string, courseId?: string): Promise<QuizAttempt[]> => {
+  const q = query(collection(db, QUIZ_ATTEMPTS_COLLECTION), where('userId', '==', userId));
+  const docs = await syncedQuery(QUIZ_ATTEMPTS_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  });
+
+  return docs
+    .map(({ id, data }) => toAttempt(id, data))
+    .filter((attempt) => !courseId || attempt.courseId === courseId)
+    .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime());
+};
+
+export default {
+  createMaterialQuiz,
+  createTopicQuiz,
+  completeQuiz,
+  getTopicMastery,
+  getWeakTopics,
+  getQuizAttempts,
+};
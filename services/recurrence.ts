@@ -0,0 +1,138 @@
+/**
+ * Recurrence
+ * Expands a recurring task's rule into occurrence due dates and describes
+ * rules for display.
+ *
+ * Series without an end date or count run for RECURRENCE_CONFIG.defaultWeeks,
+ * and no series is longer than RECURRENCE_CONFIG.maxOccurrences.
+ *
+ * Pure module (no I/O) so the add screen can preview a series before saving.
+ */
+
+import { RECURRENCE_CONFIG } from '../constants/config';
+import { RecurrenceRule, TimetableEntry } from '../types';
+import { formatDate, formatWeekday, t } from './i18n/i18nService';
+
+const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+const endOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Weekdays a rule repeats on, with a class slot taking precedence
+ */
+export const getRecurrenceDays = (
+  rule: RecurrenceRule,
+  firstDue: Date,
+  anchor?: Pick<TimetableEntry, 'dayOfWeek'>
+): number[] => {
+  if (anchor) return [anchor.dayOfWeek];
+  if (rule.frequency === 'weekly' && rule.daysOfWeek?.length) {
+    return [...new Set(rule.daysOfWeek)].sort((a, b) => a - b);
+  }
+  return [firstDue.getDay()];
+};
+
+/**
+ * Due dates of every occurrence, starting on or after the first due date.
+ * Anchored series take the class slot's start time; others keep the first due time.
+ */
+export const getOccurrenceDates = (
+  firstDue: Date,
+  rule: RecurrenceRule,
+  anchor?: Pick<TimetableEntry, 'dayOfWeek' | 'startTime'>
+): Date[] => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const limit = Math.min(rule.count ?? RECURRENCE_CONFIG.maxOccurrences, RECURRENCE_CONFIG.maxOccurrences);
+  const until = rule.until
+    ? endOfDay(rule.until)
+    : rule.count
+      ? null
+      : endOfDay(addDays(firstDue, RECURRENCE_CONFIG.defaultWeeks * 7));
+  const firstDay = startOfDay(firstDue);
+
+  const withTime = (day: Date): Date => {
+    const result = new Date(day);
+    if (anchor) {
+      const [hours, minutes] = anchor.startTime.split(':').map(Number);
+      result.setHours(hours, minutes, 0, 0);
+    } else {
+      result.setHours(firstDue.getHours(), firstDue.getMinutes(), 0, 0);
+    }
+    return result;
+  };
+
+  const dates: Date[] = [];
+
+  if (rule.frequency === 'daily' && !anchor) {
+    for (let day = firstDay; dates.length < limit; day = addDays(day, interval)) {
+      if (until && day > until) break;
+      dates.push(withTime(day));
+    }
+    return dates;
+  }
+
+  const days = getRecurrenceDays(rule, firstDue, anchor);
+  const firstWeek = addDays(firstDay, -firstDay.getDay());
+
+  for (let week = firstWeek; dates.length < limit; week = addDays(week, interval * 7)) {
+    if (until && week > until) break;
+    for (const dayOfWeek of days) {
+      const day = addDays(week, dayOfWeek);
+      if (day < firstDay) continue;
+      if (until && day > until) break;
+      dates.push(withTime(day));
+      if (dates.length >= limit) break;
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Short human-readable summary, e.g. "Every 2 weeks on Mon, Wed · 10 times"
+ */
+export const describeRecurrence = (
+  rule: RecurrenceRule,
+  firstDue?: Date,
+  anchor?: Pick<TimetableEntry, 'dayOfWeek' | 'startTime'>
+): string => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  let summary: string;
+
+  if (rule.frequency === 'daily' && !anchor) {
+    summary = t('recurrence.daily', { count: interval });
+  } else {
+    const days = getRecurrenceDays(rule, firstDue || new Date(), anchor).map((day) => formatWeekday(day)).join(', ');
+    summary = anchor
+      ? t('recurrence.weeklyAt', { count: interval, days, time: anchor.startTime })
+      : t('recurrence.weekly', { count: interval, days });
+  }
+
+  if (rule.count) {
+    summary += ` · ${t('recurrence.count', { count: rule.count })}`;
+  } else if (rule.until) {
+    summary += ` · ${t('recurrence.until', { date: formatDate(rule.until, { month: 'short', day: 'numeric' }) })}`;
+  }
+
+  return summary;
+};
+
+export default {
+  getOccurrenceDates,
+  getRecurrenceDays,
+  describeRecurrence,
+};
@@ -2,21 +2,30 @@
  * Smart Notification Service
  * AI-powered notification triggers based on predictions
  * Phase 1: Deadline Risk & Workload Alerts
- * Phase 2: Peak Time Reminders, Burnout Detection, Achievements
+ * Phase 2: Peak Time Reminders, Burnout Detection, Flashcard Reviews, Weekly Summary, Achievements
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { TaskStatus } from '../types';
 import { NotificationPriority, NotificationType } from '../types/notification';
+import { evaluateAchievements } from './achievementService';
+import { setAchievementChecker } from './achievementTrigger';
 import { analyzeBurnoutRisk, shouldSendBurnoutAlert } from './burnoutDetector';
+import { getDeckSummaries } from './flashcardServiceFirestore';
+import { t } from './i18n/i18nService';
 import { notificationManager } from './notificationManager';
 import { getPeakTimeRecommendation } from './peakTimeAnalyzer';
 import { analyzeWorkload, predictDeadlineRisks } from './predictionService';
 import { getTasks } from './taskServiceFirestore';
+import { rehydrateTaskReminders } from './taskReminders';
+import { compareWeeks, createDueWeeklySummary, formatWeeklySummary } from './weeklySummaryService';
 
 // Error tracking to prevent console spam
 let lastAuthWarningTime = 0;
 const AUTH_WARNING_COOLDOWN = 60000; // Show warning once per minute
 
+const FLASHCARD_REMINDER_KEY = '@flashcard_reminder_date';
+
 /**
  * PHASE 1: CORE FEATURES
  */
@@ -89,10 +98,13 @@ export async function checkDeadlineRisks(userId: string): Promise<void> {
           userId,
           type: NotificationType.DEADLINE_ALERT,
           priority: NotificationPriority.CRITICAL,
-          title: `🚨 URGENT: ${task.title}`,
+          title: t('notifications.deadline.urgentTitle', { task: task.title }),
           body: prediction.daysRemaining === 0
-            ? `Due TODAY! Need ${prediction.recommendedHoursPerDay.toFixed(1)} more hours.`
-            : `Due in ${prediction.daysRemaining} day${prediction.daysRemaining > 1 ? 's' : ''}! Need ${prediction.recommendedHoursPerDay.toFixed(1)}h/day.`,
+            ? t('notifications.deadline.dueTodayBody', { hours: prediction.recommendedHoursPerDay.toFixed(1) })
+            : t('notifications.deadline.dueSoonBody', {
+                count: prediction.daysRemaining,
+                hours: prediction.recommendedHoursPerDay.toFixed(1),
+              }),
           emoji: '🚨',
           color: '#EF4444',
           sound: 'urgent',
@@ -120,8 +132,11 @@ export async function checkDeadlineRisks(userId: string): Promise<void> {
           userId,
           type: NotificationType.DEADLINE_ALERT,
           priority: NotificationPriority.HIGH,
-          title: `⚠️ High Priority: ${task.title}`,
-          body: `Due in ${prediction.daysRemaining} days. Plan ${Math.ceil(prediction.recommendedHoursPerDay)}h daily to stay on track.`,
+          title: t('notifications.deadline.highTitle', { task: task.title }),
+          body: t('notifications.deadline.highBody', {
+            count: prediction.daysRemaining,
+            hours: Math.ceil(prediction.recommendedHoursPerDay),
+          }),
           emoji: '⚠️',
           color: '#F59E0B',
           badge: '⚠️',
@@ -134,7 +149,9 @@ export async function checkDeadlineRisks(userId: string): Promise<void> {
           },
           data: {
             prediction: prediction,
-            recommendation: `Break into smaller chunks and dedicate ${Math.ceil(prediction.recommendedHoursPerDay)}h daily.`
+            recommendation: t('notifications.deadline.highRecommendation', {
+              hours: Math.ceil(prediction.recommendedHoursPerDay),
+            })
           },
           category: 'deadline_high'
         });
@@ -148,8 +165,11 @@ export async function checkDeadlineRisks(userId: string): Promise<void> {
           userId,
           type: NotificationType.DEADLINE_ALERT,
           priority: NotificationPriority.MEDIUM,
-          title: `📚 Reminder: ${task.title}`,
-          body: `Due in ${prediction.daysRemaining} days. ${Math.ceil(prediction.recommendedHoursPerDay)}h/day recommended.`,
+          title: t('notifications.deadline.reminderTitle', { task: task.title }),
+          body: t('notifications.deadline.reminderBody', {
+            count: prediction.daysRemaining,
+            hours: Math.ceil(prediction.recommendedHoursPerDay),
+          }),
           emoji: '📚',
           color: '#3B82F6',
           sound: 'subtle',
@@ -172,8 +192,8 @@ export async function checkDeadlineRisks(userId: string): Promise<void> {
           userId,
           type: NotificationType.DEADLINE_ALERT,
           priority: NotificationPriority.LOW,
-          title: `📅 Upcoming: ${task.title}`,
-          body: `Due in 1 week. You're on track! Keep up ${Math.ceil(prediction.recommendedHoursPerDay)}h/day.`,
+          title: t('notifications.deadline.upcomingTitle', { task: task.title }),
+          body: t('notifications.deadline.upcomingBody', { hours: Math.ceil(prediction.recommendedHoursPerDay) }),
           emoji: '✅',
           color: '#10B981',
           action: 'OPEN_TASK',
@@ -245,8 +265,8 @@ export async function checkWorkloadAlerts(userId: string): Promise<void> {
         userId,
         type: NotificationType.OVERLOAD_WARNING,
         priority: NotificationPriority.CRITICAL,
-        title: '🚨 Critical Workload Alert!',
-        body: `You need ${workload.averageHoursPerDay.toFixed(1)}h/day - this is unsustainable! Immediate action required.`,
+        title: t('notifications.workload.criticalTitle'),
+        body: t('notifications.workload.criticalBody', { hours: workload.averageHoursPerDay.toFixed(1) }),
         emoji: '🚨',
         color: '#EF4444',
         sound: 'urgent',
@@ -258,10 +278,10 @@ export async function checkWorkloadAlerts(userId: string): Promise<void> {
         data: {
           workload: workload,
           recommendations: [
-            'Request deadline extensions immediately',
-            'Prioritize only critical tasks',
-            'Seek help from professors/tutors',
-            'Consider dropping non-essential commitments',
+            t('notifications.workload.criticalSteps.extensions'),
+            t('notifications.workload.criticalSteps.prioritize'),
+            t('notifications.workload.criticalSteps.help'),
+            t('notifications.workload.criticalSteps.drop'),
           ]
         },
         category: 'workload_critical'
@@ -275,8 +295,11 @@ export async function checkWorkloadAlerts(userId: string): Promise<void> {
         userId,
         type: NotificationType.OVERLOAD_WARNING,
         priority: NotificationPriority.HIGH,
-        title: '⚠️ You\'re Overloaded!',
-        body: `${workload.totalHoursNeeded.toFixed(1)}h of work needs ${workload.averageHoursPerDay.toFixed(1)}h/day. Consider prioritizing or requesting extensions.`,
+        title: t('notifications.workload.overloadedTitle'),
+        body: t('notifications.workload.overloadedBody', {
+          total: workload.totalHoursNeeded.toFixed(1),
+          hours: workload.averageHoursPerDay.toFixed(1),
+        }),
         emoji: '⚠️',
         color: '#F59E0B',
         badge: '⚠️',
@@ -301,8 +324,11 @@ export async function checkWorkloadAlerts(userId: string): Promise<void> {
         userId,
         type: NotificationType.OVERLOAD_WARNING,
         priority: NotificationPriority.MEDIUM,
-        title: '📚 Heavy Workload Ahead',
-        body: `You need ${workload.averageHoursPerDay.toFixed(1)}h/day across ${tasks.filter(t => t.status !== TaskStatus.COMPLETED).length} tasks. Plan your week carefully.`,
+        title: t('notifications.workload.heavyTitle'),
+        body: t('notifications.workload.heavyBody', {
+          count: tasks.filter(task => task.status !== TaskStatus.COMPLETED).length,
+          hours: workload.averageHoursPerDay.toFixed(1),
+        }),
         emoji: '📚',
         color: '#3B82F6',
         sound: 'subtle',
@@ -313,10 +339,10 @@ export async function checkWorkloadAlerts(userId: string): Promise<void> {
         data: {
           workload: workload,
           tips: [
-            'Use time-blocking for better organization',
-            'Start with most challenging tasks',
-            'Schedule regular breaks',
-            'Track progress daily',
+            t('notifications.workload.heavyTips.timeBlocking'),
+            t('notifications.workload.heavyTips.hardestFirst'),
+            t('notifications.workload.heavyTips.breaks'),
+            t('notifications.workload.heavyTips.trackProgress'),
           ]
         },
         category: 'workload_medium'
@@ -330,14 +356,14 @@ export async function checkWorkloadAlerts(userId: string): Promise<void> {
         userId,
         type: NotificationType.PRODUCTIVITY_TIP,
         priority: NotificationPriority.LOW,
-        title: '✅ You\'re In Control!',
-        body: `Light workload: ${workload.averageHoursPerDay.toFixed(1)}h/day. Great job staying organized!`,
+        title: t('notifications.workload.lightTitle'),
+        body: t('notifications.workload.lightBody', { hours: workload.averageHoursPerDay.toFixed(1) }),
         emoji: '✅',
         color: '#10B981',
         action: 'OPEN_PLANNER',
         data: {
           workload: workload,
-          suggestion: 'Use extra time for deep learning or help peers.',
+          suggestion: t('notifications.workload.lightSuggestion'),
         },
         category: 'workload_light'
       });
@@ -371,8 +397,8 @@ export async function sendMorningBriefing(userId: string): Promise<void> {
         userId,
         type: NotificationType.PRODUCTIVITY_TIP,
         priority: NotificationPriority.LOW,
-        title: '☀️ Good Morning!',
-        body: 'No pending tasks today. Great job staying on top of your work! 🎉',
+        title: t('notifications.briefing.goodMorning'),
+        body: t('notifications.briefing.noTasksBody'),
         emoji: '☀️',
         color: '#10B981',
         action: 'NONE',
@@ -391,21 +417,21 @@ export async function sendMorningBriefing(userId: string): Promise<void> {
     // Tasks due today
     const dueToday = predictions.filter(p => p.daysRemaining === 0).length;
     
-    let briefingText = `☀️ Good Morning!\n\n`;
+    let briefingText = `${t('notifications.briefing.goodMorning')}\n\n`;
     
     if (dueToday > 0) {
-      briefingText += `📌 ${dueToday} task${dueToday > 1 ? 's' : ''} due TODAY!\n`;
+      briefingText += `${t('notifications.briefing.dueToday', { count: dueToday })}\n`;
     }
     
     if (highRisk > 0) {
-      briefingText += `🚨 ${highRisk} high-risk task${highRisk > 1 ? 's' : ''}\n`;
+      briefingText += `${t('notifications.briefing.highRisk', { count: highRisk })}\n`;
     }
     
     if (mediumRisk > 0) {
-      briefingText += `⚠️ ${mediumRisk} medium-risk task${mediumRisk > 1 ? 's' : ''}\n`;
+      briefingText += `${t('notifications.briefing.mediumRisk', { count: mediumRisk })}\n`;
     }
     
-    briefingText += `\n📊 Today's workload: ${workload.averageHoursPerDay.toFixed(1)}h recommended`;
+    briefingText += `\n${t('notifications.briefing.workload', { hours: workload.averageHoursPerDay.toFixed(1) })}`;
     
     const priority = dueToday > 0 || highRisk > 0 
       ? NotificationPriority.HIGH 
@@ -415,7 +441,7 @@ export async function sendMorningBriefing(userId: string): Promise<void> {
       userId,
       type: NotificationType.STUDY_REMINDER,
       priority: priority,
-      title: '☀️ Daily Briefing',
+      title: t('notifications.briefing.title'),
       body: briefingText,
       emoji: '☀️',
       color: priority === NotificationPriority.HIGH ? '#F59E0B' : '#3B82F6',
@@ -474,6 +500,18 @@ export async function initializeNotifications(userId: string): Promise<boolean>
     runPhase1Checks(userId).catch(err => {
       console.error('[Smart Notifications] Initial checks failed:', err);
     });
+    checkWeeklySummary(userId).catch(err => {
+      console.error('[Smart Notifications] Weekly summary check failed:', err);
+    });
+
+    checkAchievements(userId).catch(err => {
+      console.error('[Smart Notifications] Achievement check failed:', err);
+    });
+
+    // Scheduled task reminders are lost on reinstall; rebuild them from Firestore
+    getTasks(userId).then(rehydrateTaskReminders).catch(err => {
+      console.error('[Smart Notifications] Task reminder rehydration failed:', err);
+    });
     
     return true;
   } catch (error) {
@@ -495,8 +533,8 @@ export async function sendTestNotification(userId: string): Promise<void> {
       userId,
       type: NotificationType.PRODUCTIVITY_TIP,
       priority: NotificationPriority.MEDIUM,
-      title: '🧪 Test Notification',
-      body: 'Smart notifications are working! Your AI assistant is ready to help.',
+      title: t('notifications.test.title'),
+      body: t('notifications.test.body'),
       emoji: '🧪',
       color: '#3B82F6',
       action: 'OPEN_TASKS',
@@ -570,8 +608,8 @@ export async function checkPeakTimeReminder(userId: string): Promise<void> {
       userId,
       type: NotificationType.PEAK_TIME_REMINDER,
       priority: NotificationPriority.MEDIUM,
-      title: '🌟 Your Peak Time is Now!',
-      body: `You're most productive at this hour. Ready to tackle some tasks?`,
+      title: t('notifications.peakTime.title'),
+      body: t('notifications.peakTime.body'),
       emoji: '🌟',
       color: '#10B981',
       action: 'OPEN_TASKS',
@@ -632,17 +670,17 @@ export async function checkBurnoutRisk(userId: string): Promise<void> {
     
     if (analysis.riskLevel === 'critical') {
       priority = NotificationPriority.CRITICAL;
-      title = '🚨 CRITICAL: Burnout Risk Detected!';
+      title = t('notifications.burnout.criticalTitle');
       emoji = '🚨';
       console.log('🚨 CRITICAL BURNOUT RISK - Sending urgent intervention!');
     } else if (analysis.riskLevel === 'high') {
       priority = NotificationPriority.HIGH;
-      title = '🔥 High Burnout Risk Warning';
+      title = t('notifications.burnout.highTitle');
       emoji = '🔥';
       console.log('⚠️ HIGH BURNOUT RISK - Sending warning!');
     } else {
       priority = NotificationPriority.MEDIUM;
-      title = '😰 Burnout Warning Signs Detected';
+      title = t('notifications.burnout.moderateTitle');
       emoji = '😰';
       console.log('⚠️ MODERATE BURNOUT RISK - Sending advisory!');
     }
@@ -657,7 +695,7 @@ export async function checkBurnoutRisk(userId: string): Promise<void> {
       .map(i => i.description)
       .join('. ');
     
-    const body = `${topIndicators}. ${analysis.recommendations[0] || 'Take a break and prioritize rest.'}`;
+    const body = `${topIndicators}. ${analysis.recommendations[0] || t('notifications.burnout.fallbackAdvice')}`;
     
     await notificationManager.sendSmart({
       userId,
@@ -695,6 +733,185 @@ export async function checkBurnoutRisk(userId: string): Promise<void> {
   }
 }
 
+/**
+ * Remind the user about flashcards due for review, at most once a day
+ */
+export async function checkFlashcardsDue(userId: string): Promise<void> {
+  try {
+    console.log('\n🃏 [FLASHCARD CHECK] Starting check...');
+    
+    // Verify Firebase Auth is ready
+    const { auth } = await import('../firebase/firebaseint');
+    
+    if (!auth.currentUser || auth.currentUser.uid !== userId) {
+      console.log('⚠️ [FLASHCARD CHECK] Firebase Auth not ready or ID mismatch, skipping check');
+      return;
+    }
+    
+    const today = new Date().toDateString();
+    const reminderKey = `${FLASHCARD_REMINDER_KEY}_${userId}`;
+    if ((await AsyncStorage.getItem(reminderKey)) === today) {
+      console.log('✓ [Flashcards] Already reminded today\n');
+      return;
+    }
+    
+    const summaries = (await getDeckSummaries(userId)).filter(s => s.due > 0);
+    const dueCount = summaries.reduce((sum, s) => sum + s.due, 0);
+    
+    console.log('🃏 Cards due:', dueCount, 'across', summaries.length, 'decks');
+    
+    if (dueCount === 0) {
+      console.log('✓ [Flashcards] Nothing due\n');
+      return;
+    }
+    
+    const topDecks = [...summaries].sort((a, b) => b.due - a.due).slice(0, 3);
+    const deckList = topDecks.map(s => `• ${s.deck.name}: ${s.due}`).join('\n');
+    
+    await notificationManager.sendSmart({
+      userId,
+      type: NotificationType.STUDY_REMINDER,
+      priority: dueCount >= 50 ? NotificationPriority.HIGH : NotificationPriority.MEDIUM,
+      title: t('notifications.flashcards.title'),
+      body: `${t('notifications.flashcards.body', { count: dueCount })}\n${deckList}`,
+      emoji: '🃏',
+      color: '#8B5CF6',
+      action: 'OPEN_FLASHCARDS',
+      actionData: {
+        screen: 'flashcards',
+      },
+      data: {
+        dueCount,
+        decks: topDecks.map(s => ({ id: s.deck.id, name: s.deck.name, due: s.due })),
+      },
+      category: 'flashcards',
+    });
+    
+    await AsyncStorage.setItem(reminderKey, today);
+    console.log('✅ [Flashcards] Reminder sent\n');
+    
+  } catch (error) {
+    console.error('❌ [Flashcards] Check failed:', error);
+  }
+}
+
+/**
+ * Save this week's summary and send it once the user's chosen delivery
+ * time has passed. The snapshot is kept even when the notification is off
+ * so the reports screen has every week.
+ */
+export async function checkWeeklySummary(userId: string): Promise<void> {
+  try {
+    console.log('\n📊 [WEEKLY SUMMARY CHECK] Starting check...');
+    
+    // Verify Firebase Auth is ready
+    const { auth } = await import('../firebase/firebaseint');
+    
+    if (!auth.currentUser || auth.currentUser.uid !== userId) {
+      console.log('⚠️ [WEEKLY SUMMARY CHECK] Firebase Auth not ready or ID mismatch, skipping check');
+      return;
+    }
+    
+    const settings = await notificationManager.getSettings(userId);
+    const due = await createDueWeeklySummary(userId, settings);
+    
+    if (!due) {
+      console.log('✓ [Weekly Summary] This week is already summarized\n');
+      return;
+    }
+    
+    const { summary, previous } = due;
+    const comparison = compareWeeks(summary, previous);
+    
+    await notificationManager.sendSmart({
+      userId,
+      type: NotificationType.WEEKLY_SUMMARY,
+      priority: NotificationPriority.LOW,
+      title: t('notifications.weeklySummary.title'),
+      body: formatWeeklySummary(summary, comparison),
+      emoji: '📊',
+      color: '#3B82F6',
+      action: 'VIEW_STATS',
+      actionData: {
+        screen: 'reports',
+        params: { week: summary.weekKey },
+      },
+      data: {
+        weekKey: summary.weekKey,
+        totalHours: summary.totalHours,
+        hoursChange: comparison.hours,
+        tasksOverdue: summary.tasksOverdue,
+        burnoutChange: comparison.burnoutScore,
+      },
+      category: 'weekly_summary',
+    });
+    
+    console.log('✅ [Weekly Summary] Sent summary for week ending', summary.weekKey, '\n');
+
+    // A new snapshot can complete a burnout-free week
+    await checkAchievements(userId);
+    
+  } catch (error) {
+    console.error('❌ [Weekly Summary] Check failed:', error);
+  }
+}
+
+/**
+ * Check for newly reached achievements and announce them.
+ * Unlocks are stored before announcing, so each is announced once.
+ */
+export async function checkAchievements(userId: string): Promise<void> {
+  try {
+    console.log('\n🏆 [ACHIEVEMENT CHECK] Starting check...');
+    
+    // Verify Firebase Auth is ready
+    const { auth } = await import('../firebase/firebaseint');
+    
+    if (!auth.currentUser || auth.currentUser.uid !== userId) {
+      console.log('⚠️ [ACHIEVEMENT CHECK] Firebase Auth not ready or ID mismatch, skipping check');
+      return;
+    }
+    
+    const unlocked = await evaluateAchievements(userId);
+    
+    if (unlocked.length === 0) {
+      console.log('✓ [Achievements] No new achievements\n');
+      return;
+    }
+    
+    const [first] = unlocked;
+    await notificationManager.sendSmart({
+      userId,
+      type: NotificationType.ACHIEVEMENT,
+      priority: NotificationPriority.LOW,
+      title: unlocked.length === 1
+        ? t('notifications.achievements.singleTitle', { emoji: first.emoji, title: first.title })
+        : t('notifications.achievements.multipleTitle', { count: unlocked.length }),
+      body: unlocked.length === 1
+        ? first.description
+        : unlocked.map(achievement => `${achievement.emoji} ${achievement.title}`).join('\n'),
+      emoji: unlocked.length === 1 ? first.emoji : '🏆',
+      color: '#10B981',
+      action: 'VIEW_STATS',
+      actionData: {
+        screen: 'achievements',
+      },
+      data: {
+        achievementIds: unlocked.map(achievement => achievement.achievementId),
+      },
+      category: 'achievement',
+    });
+    
+    console.log('✅ [Achievements] Announced', unlocked.length, 'achievement(s)\n');
+    
+  } catch (error) {
+    console.error('❌ [Achievements] Check failed:', error);
+  }
+}
+
+// Task and study writes request checks through achievementTrigger
+setAchievementChecker(checkAchievements);
+
 /**
  * Run all Phase 2 checks
  */
@@ -704,7 +921,9 @@ export async function runPhase2Checks(userId: string): Promise<void> {
   await Promise.all([
     checkPeakTimeReminder(userId),
     checkBurnoutRisk(userId),
-    // Future: checkAchievements(userId),
+    checkFlashcardsDue(userId),
+    checkWeeklySummary(userId),
+    checkAchievements(userId),
   ]);
   
   console.log('✅ [PHASE 2 CHECKS] Complete\n');
@@ -733,6 +952,9 @@ export default {
   // Phase 2
   checkPeakTimeReminder,
   checkBurnoutRisk,
+  checkFlashcardsDue,
+  checkWeeklySummary,
+  checkAchievements,
   runPhase2Checks,
   runAllChecks,
 };
@@ -0,0 +1,113 @@
+/**
+ * Spaced Repetition
+ * SM-2 style scheduling for flashcards, with Anki's four answer buttons.
+ *
+ * - again: the card was forgotten. It comes back in a few minutes, its ease
+ *   drops and its streak restarts.
+ * - hard / good / easy: the card was recalled. New cards graduate through
+ *   fixed first intervals (1 day, then 6); after that the interval grows by
+ *   the card's ease - less for hard, more for easy.
+ *
+ * Pure module (no I/O) so the review screen can preview the next interval
+ * of every button.
+ */
+
+import { FLASHCARD_CONFIG } from '../constants/config';
+import { FlashcardRating, FlashcardSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FLASHCARD_RATINGS: FlashcardRating[] = ['again', 'hard', 'good', 'easy'];
+
+/**
+ * Schedule for a card that has never been reviewed - due straight away
+ */
+export const createSchedule = (now: Date = new Date()): FlashcardSchedule => ({
+  dueAt: now,
+  interval: 0,
+  easeFactor: FLASHCARD_CONFIG.initialEase,
+  repetitions: 0,
+  lapses: 0,
+});
+
+const clampEase = (ease: number): number => Math.max(FLASHCARD_CONFIG.minEase, Math.round(ease * 100) / 100);
+
+const clampInterval = (days: number): number =>
+  Math.min(FLASHCARD_CONFIG.maxIntervalDays, Math.max(1, Math.round(days)));
+
+/**
+ * Next schedule after answering a card
+ */
+export const scheduleReview = (
+  schedule: FlashcardSchedule,
+  rating: FlashcardRating,
+  now: Date = new Date()
+): FlashcardSchedule => {
+  const [firstInterval, secondInterval] = FLASHCARD_CONFIG.graduatingIntervals;
+
+  if (rating === 'again') {
+    return {
+      dueAt: new Date(now.getTime() + FLASHCARD_CONFIG.relearnMinutes * 60 * 1000),
+      interval: 0,
+      easeFactor: clampEase(schedule.easeFactor - 0.2),
+      repetitions: 0,
+      lapses: schedule.lapses + (schedule.repetitions > 0 ? 1 : 0),
+      lastReviewedAt: now,
+    };
+  }
+
+  const ease = clampEase(
+    schedule.easeFactor + (rating === 'hard' ? -0.15 : rating === 'easy' ? 0.15 : 0)
+  );
+
+  let interval: number;
+  if (schedule.repetitions === 0) {
+    interval = rating === 'easy' ? secondInterval : firstInterval;
+  } else if (schedule.repetitions === 1 && rating !== 'hard') {
+    interval = rating === 'easy' ? secondInterval * FLASHCARD_CONFIG.easyBonus : secondInterval;
+  } else if (rating === 'hard') {
+    interval = Math.max(schedule.interval + 1, schedule.interval * FLASHCARD_CONFIG.hardMultiplier);
+  } else {
+    interval = schedule.interval * ease * (rating === 'easy' ? FLASHCARD_CONFIG.easyBonus : 1);
+  }
+  interval = clampInterval(interval);
+
+  return {
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+    interval,
+    easeFactor: ease,
+    repetitions: schedule.repetitions + 1,
+    lapses: schedule.lapses,
+    lastReviewedAt: now,
+  };
+};
+
+export const isDue = (schedule: Pick<FlashcardSchedule, 'dueAt'>, now: Date = new Date()): boolean =>
+  schedule.dueAt.getTime() <= now.getTime();
+
+/**
+ * Short label for when a card would come back, e.g. "10m", "6d", "2mo"
+ */
+export const formatInterval = (schedule: FlashcardSchedule, now: Date = new Date()): string => {
+  const minutes = Math.max(1, Math.round((schedule.dueAt.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const days = Math.round(minutes / (60 * 24));
+  if (days < 1) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+};
+
+/**
+ * Where each answer button would send the card
+ */
+export const previewIntervals = (
+  schedule: FlashcardSchedule,
+  now: Date = new Date()
+): Record<FlashcardRating, string> => {
+  const preview = {} as Record<FlashcardRating, string>;
+  FLASHCARD_RATINGS.forEach((rating) => {
+    preview[rating] = formatInterval(scheduleReview(schedule, rating, now), now);
+  });
+  return preview;
+};
@@ -0,0 +1,252 @@
+/**
+ * Study Modes
+ * Phase logic for timed study sessions.
+ *
+ * - free: one open-ended work phase, optionally with a goal (the old timer).
+ * - pomodoro: 25 minutes of work, 5 minute breaks, a 15 minute break every 4.
+ * - custom: the user's own work/break lengths (UserSettings.studyPreferences.breakInterval
+ *   is the work length when nothing else is given).
+ * - flow: work for as long as focus lasts; taking a break earns a rest of a
+ *   fifth of the stretch.
+ *
+ * Every finished work phase becomes a StudyInterval on the saved session,
+ * which burnout and peak-time analysis read instead of the session totals.
+ *
+ * Pure module (no I/O) so the session context can replay time spent in the
+ * background.
+ */
+
+import { SESSION_MODE_CONFIG, STUDY_CONFIG } from '../constants/config';
+import { StudyCycle, StudyInterval, StudyMode, StudyPhase, StudySession, UserSettings } from '../types';
+
+export interface PhaseTimer {
+  mode: StudyMode;
+  cycle: StudyCycle;
+  phase: StudyPhase;
+  phaseStartedAt: Date | null;
+  phaseElapsedSeconds: number;
+  phaseTargetSeconds: number; // 0 = open-ended
+  completedWorkIntervals: number;
+  intervals: StudyInterval[];
+  elapsedSeconds: number; // work time only
+}
+
+export interface PhaseChange {
+  from: StudyPhase;
+  to: StudyPhase;
+  at: Date;
+  targetSeconds: number; // length of the phase that starts
+  completedWorkIntervals: number;
+}
+
+const OPEN_CYCLE: StudyCycle = { workMinutes: 0, breakMinutes: 0, longBreakMinutes: 0, longBreakEvery: 0 };
+
+/**
+ * Work/break lengths for a mode
+ */
+export const getStudyCycle = (
+  mode: StudyMode,
+  custom: Partial<StudyCycle> = {},
+  preferences?: UserSettings['studyPreferences']
+): StudyCycle => {
+  switch (mode) {
+    case 'pomodoro':
+      return { ...SESSION_MODE_CONFIG.pomodoro };
+    case 'custom': {
+      const breakMinutes = custom.breakMinutes || STUDY_CONFIG.defaultBreakDuration;
+      return {
+        workMinutes: custom.workMinutes || preferences?.breakInterval || STUDY_CONFIG.defaultSessionDuration,
+        breakMinutes,
+        longBreakMinutes: custom.longBreakMinutes || breakMinutes,
+        longBreakEvery: custom.longBreakEvery ?? 0,
+      };
+    }
+    default:
+      return { ...OPEN_CYCLE };
+  }
+};
+
+export const createPhaseTimer = (mode: StudyMode, cycle: StudyCycle, now: Date = new Date()): PhaseTimer => ({
+  mode,
+  cycle,
+  phase: 'work',
+  phaseStartedAt: now,
+  phaseElapsedSeconds: 0,
+  phaseTargetSeconds: cycle.workMinutes * 60,
+  completedWorkIntervals: 0,
+  intervals: [],
+  elapsedSeconds: 0,
+});
+
+export const isBreak = (phase: StudyPhase): boolean => phase !== 'work';
+
+/**
+ * The rest a flow stretch of `workSeconds` earns
+ */
+export const flowBreakMinutes = (workSeconds: number): number =>
+  Math.min(
+    SESSION_MODE_CONFIG.flowMaxBreakMinutes,
+    Math.max(
+      SESSION_MODE_CONFIG.flowMinBreakMinutes,
+      Math.round((workSeconds / 60) * SESSION_MODE_CONFIG.flowBreakRatio)
+    )
+  );
+
+const recordInterval = (timer: PhaseTimer, now: Date): StudyInterval[] => {
+  if (timer.phase !== 'work' || timer.phaseElapsedSeconds < SESSION_MODE_CONFIG.minIntervalSeconds) {
+    return timer.intervals;
+  }
+  return [
+    ...timer.intervals,
+    {
+      startedAt: timer.phaseStartedAt || new Date(now.getTime() - timer.phaseElapsedSeconds * 1000),
+      endedAt: now,
+      minutes: Math.round(timer.phaseElapsedSeconds / 60),
+    },
+  ];
+};
+
+/**
+ * Finish the current phase early or on time and start the next one.
+ * Free mode has no breaks, so its single work phase never ends here.
+ */
+export const endPhase = (timer: PhaseTimer, now: Date = new Date()): PhaseTimer => {
+  if (timer.mode === 'free') return timer;
+
+  if (timer.phase === 'work') {
+    const completed = timer.completedWorkIntervals + 1;
+    const longBreak = timer.cycle.longBreakEvery > 0 && completed % timer.cycle.longBreakEvery === 0;
+    const breakMinutes =
+      timer.mode === 'flow'
+        ? flowBreakMinutes(timer.phaseElapsedSeconds)
+        : longBreak
+          ? timer.cycle.longBreakMinutes
+          : timer.cycle.breakMinutes;
+
+    return {
+      ...timer,
+      intervals: recordInterval(timer, now),
+      completedWorkIntervals: completed,
+      phase: longBreak ? 'long_break' : 'short_break',
+      phaseStartedAt: now,
+      phaseElapsedSeconds: 0,
+      phaseTargetSeconds: breakMinutes * 60,
+    };
+  }
+
+  return {
+    ...timer,
+    phase: 'work',
+    phaseStartedAt: now,
+    phaseElapsedSeconds: 0,
+    phaseTargetSeconds: timer.cycle.workMinutes * 60,
+  };
+};
+
+/**
+ * Move the timer forward by `seconds` of running time ending at `now`,
+ * crossing as many phase boundaries as that covers
+ */
+export const advancePhases = (
+  timer: PhaseTimer,
+  seconds: number,
+  now: Date = new Date()
+): { timer: PhaseTimer; changes: PhaseChange[] } => {
+  const changes: PhaseChange[] = [];
+  let current = timer;
+  let remaining = Math.max(0, Math.floor(seconds));
+
+  while (remaining > 0) {
+    const untilEnd =
+      current.mode !== 'free' && current.phaseTargetSeconds > 0
+        ? current.phaseTargetSeconds - current.phaseElapsedSeconds
+        : Infinity;
+    const step = Math.min(remaining, Math.max(0, untilEnd));
+    remaining -= step;
+
+    current = {
+      ...current,
+      phaseElapsedSeconds: current.phaseElapsedSeconds + step,
+      elapsedSeconds: current.elapsedSeconds + (current.phase === 'work' ? step : 0),
+    };
+
+    if (current.phaseElapsedSeconds >= current.phaseTargetSeconds && untilEnd !== Infinity) {
+      const at = new Date(now.getTime() - remaining * 1000);
+      const next = endPhase(current, at);
+      changes.push({
+        from: current.phase,
+        to: next.phase,
+        at,
+        targetSeconds: next.phaseTargetSeconds,
+        completedWorkIntervals: next.completedWorkIntervals,
+      });
+      current = next;
+    }
+  }
+
+  return { timer: current, changes };
+};
+
+/**
+ * Phase ends coming up in the next `horizonSeconds` if the timer keeps running
+ */
+export const upcomingPhaseChanges = (
+  timer: PhaseTimer,
+  horizonSeconds: number,
+  now: Date = new Date()
+): PhaseChange[] =>
+  advancePhases(timer, horizonSeconds, new Date(now.getTime() + horizonSeconds * 1000)).changes;
+
+/**
+ * Work intervals for the saved session, including the one still open
+ */
+export const closeIntervals = (timer: PhaseTimer, now: Date = new Date()): StudyInterval[] =>
+  recordInterval(timer, now);
+
+/**
+ * Longest stretch of work without a real break. Intervals separated by less
+ * than SESSION_MODE_CONFIG.breakGapMinutes count as one stretch; sessions
+ * logged without intervals count as one stretch of their full duration.
+ */
+export const longestFocusMinutes = (session: StudySession): number => {
+  if (!session.intervals || session.intervals.length === 0) return session.duration;
+
+  const sorted = [...session.intervals].sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  let longest = 0;
+  let run = 0;
+  let lastEnd: Date | null = null;
+  sorted.forEach(interval => {
+    const gapMinutes = lastEnd ? (interval.startedAt.getTime() - lastEnd.getTime()) / 60000 : Infinity;
+    run = gapMinutes < SESSION_MODE_CONFIG.breakGapMinutes ? run + interval.minutes : interval.minutes;
+    longest = Math.max(longest, run);
+    lastEnd = interval.endedAt;
+  });
+  return longest;
+};
+
+/**
+ * Hour of day (0-23) in which most of a session's work happened
+ */
+export const mainStudyHour = (session: StudySession): number => {
+  if (!session.intervals || session.intervals.length === 0) return session.date.getHours();
+
+  const minutesByHour = new Map<number, number>();
+  session.intervals.forEach(interval => {
+    const hour = interval.startedAt.getHours();
+    minutesByHour.set(hour, (minutesByHour.get(hour) || 0) + interval.minutes);
+  });
+  return Array.from(minutesByHour.entries()).sort((a, b) => b[1] - a[1])[0][0];
+};
+
+export default {
+  getStudyCycle,
+  createPhaseTimer,
+  endPhase,
+  advancePhases,
+  upcomingPhaseChanges,
+  closeIntervals,
+  flowBreakMinutes,
+  isBreak,
+  longestFocusMinutes,
+  mainStudyHour,
+};
@@ -0,0 +1,468 @@
+/**
+ * Study Plan Service
+ * Generates multi-week StudyPlan / StudyPlanEntry schedules from open tasks,
+ * free time between timetable classes and the user's daily study goal
+ */
+
+import {
+    collection,
+    doc,
+    getDocs,
+    orderBy,
+    query,
+    Timestamp,
+    updateDoc,
+    where,
+    writeBatch,
+} from 'firebase/firestore';
+import { QUIZ_CONFIG, STUDY_CONFIG } from '../constants/config';
+import { db } from '../firebase/firebaseint';
+import { Course, StudyPlan, StudyPlanEntry, Task, TaskPriority, TaskStatus, TimetableEntry } from '../types';
+import { getCourses } from './courseServiceFirestore';
+import { getWeakTopics, WeakTopic } from './quizServiceFirestore';
+import { getTaskProgress } from './subtaskProgress';
+import { getTasks } from './taskServiceFirestore';
+import { getTimetableEntries } from './timetableServiceFirestore';
+
+const STUDY_PLANS_COLLECTION = 'studyPlans';
+const STUDY_PLAN_ENTRIES_COLLECTION = 'studyPlanEntries';
+const BATCH_LIMIT = 450; // Firestore allows 500 writes per batch
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StudyPlanOptions {
+  startDate?: Date;
+  weeks?: number;
+  dailyStudyGoal?: number; // hours
+  dayStartTime?: string; // HH:MM
+  dayEndTime?: string; // HH:MM
+  blockMinutes?: number;
+  breakMinutes?: number;
+  weakTopics?: WeakTopic[]; // practice-quiz topics to revise, from getWeakTopics()
+}
+
+export type PlannedBlock = Omit<StudyPlanEntry, 'id' | 'planId' | 'userId'>;
+
+export interface StudyPlanSchedule {
+  entries: PlannedBlock[];
+  unscheduled: { taskId: string; title: string; minutes: number }[];
+}
+
+interface TimeRange {
+  start: number; // minutes since midnight
+  end: number;
+}
+
+interface Workload {
+  task?: Task; // unset for weak-topic revision
+  courseId: string;
+  topic: string;
+  dueDate: Date;
+  priority: TaskPriority;
+  remainingMinutes: number;
+}
+
+/**
+ * Parse HH:MM into minutes since midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Format minutes since midnight as HH:MM
+ */
+const toTimeString = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Local YYYY-MM-DD key (matches react-native-calendars dateString)
+ */
+export const toDateKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Remaining study minutes for a task, scaled by course difficulty
+ */
+const getRemainingMinutes = (task: Task, course?: Course): number => {
+  const { remainingHours } = getTaskProgress(task);
+  const difficulty = (course?.difficulty || 2) as keyof typeof STUDY_CONFIG.difficultyMultipliers;
+  const multiplier = STUDY_CONFIG.difficultyMultipliers[difficulty] || 1;
+  return Math.round(remainingHours * 60 * multiplier);
+};
+
+/**
+ * Free ranges in the study window that do not overlap a class on that weekday
+ */
+const getFreeRanges = (
+  dayOfWeek: number,
+  timetable: TimetableEntry[],
+  windowStart: number,
+  windowEnd: number
+): TimeRange[] => {
+  const busy = timetable
+    .filter((entry) => entry.dayOfWeek === dayOfWeek)
+    .map((entry) => ({
+      start: toMinutes(entry.startTime) - STUDY_CONFIG.classBufferMinutes,
+      end: toMinutes(entry.endTime) + STUDY_CONFIG.classBufferMinutes,
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const free: TimeRange[] = [];
+  let cursor = windowStart;
+
+  busy.forEach((range) => {
+    if (range.start > cursor) {
+      free.push({ start: cursor, end: Math.min(range.start, windowEnd) });
+    }
+    cursor = Math.max(cursor, range.end);
+  });
+
+  if (cursor < windowEnd) {
+    free.push({ start: cursor, end: windowEnd });
+  }
+
+  return free.filter((range) => range.end > range.start);
+};
+
+/**
+ * Urgency = remaining work per day left until the deadline
+ */
+const getUrgency = (workload: Workload, day: Date): number => {
+  const daysLeft = Math.max((startOfDay(workload.dueDate).getTime() - day.getTime()) / DAY_MS, 1);
+  return workload.remainingMinutes / daysLeft;
+};
+
+/**
+ * Build a study schedule (pure - no Firestore access)
+ * Blocks are interleaved across tasks by urgency and never scheduled
+ * on or after a task's due date. Weak quiz topics get revision time, more
+ * the lower their mastery, spread across the whole plan.
+ */
+export const buildStudyPlanSchedule = (
+  tasks: Task[],
+  courses: Course[],
+  timetable: TimetableEntry[],
+  options: StudyPlanOptions = {}
+): StudyPlanSchedule => {
+  const {
+    startDate = new Date(),
+    weeks = STUDY_CONFIG.planHorizonWeeks,
+    dailyStudyGoal = STUDY_CONFIG.defaultDailyStudyGoal,
+    dayStartTime = STUDY_CONFIG.studyDayStart,
+    dayEndTime = STUDY_CONFIG.studyDayEnd,
+    blockMinutes = STUDY_CONFIG.defaultSessionDuration,
+    breakMinutes = STUDY_CONFIG.defaultBreakDuration,
+    weakTopics = [],
+  } = options;
+
+  const courseMap = new Map(courses.map((course) => [course.id, course]));
+  const firstDay = startOfDay(startDate);
+  const lastDay = addDays(firstDay, weeks * 7);
+  const dailyCapacity = Math.min(dailyStudyGoal, STUDY_CONFIG.maxStudyHoursPerDay) * 60;
+  const minBlock = Math.min(STUDY_CONFIG.minBlockMinutes, blockMinutes);
+
+  const taskWorkloads: Workload[] = tasks
+    .filter((task) => task.status !== TaskStatus.COMPLETED && task.dueDate > startDate)
+    .map((task) => {
+      const course = courseMap.get(task.courseId);
+      return {
+        task,
+        courseId: task.courseId,
+        topic: course ? `${course.code}: ${task.title}` : task.title,
+        dueDate: task.dueDate,
+        priority: task.priority,
+        remainingMinutes: getRemainingMinutes(task, course),
+      };
+    });
+
+  // Revision has no deadline; due just after the plan ends keeps it below
+  // tasks with real deadlines while still filling free time
+  const revisionWorkloads: Workload[] = weakTopics
+    .filter((weak) => courseMap.has(weak.courseId))
+    .map((weak) => ({
+      courseId: weak.courseId,
+      topic: `${courseMap.get(weak.courseId)!.code}: Revise ${weak.topic}`,
+      dueDate: addDays(lastDay, 1),
+      priority: TaskPriority.MEDIUM,
+      remainingMinutes: Math.max(
+        minBlock,
+        Math.round((QUIZ_CONFIG.reviewMinutes * (1 - weak.mastery)) / 5) * 5
+      ),
+    }));
+
+  const workloads = [...taskWorkloads, ...revisionWorkloads].filter((workload) => workload.remainingMinutes > 0);
+
+  const entries: PlannedBlock[] = [];
+
+  for (let day = new Date(firstDay); day < lastDay; day = addDays(day, 1)) {
+    // Skip the part of today that has already passed
+    const isToday = day.getTime() === firstDay.getTime();
+    const nowMinutes = startDate.getHours() * 60 + startDate.getMinutes();
+    const windowStart = isToday ? Math.max(toMinutes(dayStartTime), nowMinutes) : toMinutes(dayStartTime);
+    const ranges = getFreeRanges(day.getDay(), timetable, windowStart, toMinutes(dayEndTime));
+
+    let capacity = dailyCapacity;
+
+    for (const range of ranges) {
+      let cursor = range.start;
+
+      while (capacity >= minBlock && range.end - cursor >= minBlock) {
+        const candidates = workloads
+          .filter((w) => w.remainingMinutes > 0 && startOfDay(w.dueDate) > day)
+          .sort((a, b) => getUrgency(b, day) - getUrgency(a, day));
+
+        if (candidates.length === 0) break;
+
+        const workload = candidates[0];
+        const duration = Math.min(blockMinutes, workload.remainingMinutes, capacity, range.end - cursor);
+        if (duration < Math.min(minBlock, workload.remainingMinutes)) break;
+
+        entries.push({
+          courseId: workload.courseId,
+          taskId: workload.task?.id,
+          topic: workload.topic,
+          date: new Date(day),
+          startTime: toTimeString(cursor),
+          duration,
+          priority: workload.priority,
+          completed: false,
+        });
+
+        workload.remainingMinutes -= duration;
+        capacity -= duration;
+        cursor += duration + breakMinutes;
+      }
+
+      if (capacity < minBlock) break;
+    }
+  }
+
+  return {
+    entries,
+    unscheduled: workloads
+      .filter((w) => w.remainingMinutes > 0 && w.task)
+      .map((w) => ({ taskId: w.task!.id, title: w.task!.title, minutes: w.remainingMinutes })),
+  };
+};
+
+/**
+ * Get the user's current plan (latest generated plan that has not ended)
+ */
+export const getActiveStudyPlan = async (userId: string): Promise<StudyPlan | null> => {
+  const q = query(
+    collection(db, STUDY_PLANS_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('generatedAt', 'desc')
+  );
+
+  const querySnapshot = await getDocs(q);
+  const now = startOfDay(new Date());
+
+  for (const docSnap of querySnapshot.docs) {
+    const data = docSnap.data();
+    const plan: StudyPlan = {
+      id: docSnap.id,
+      userId: data.userId,
+      startDate: data.startDate.toDate(),
+      endDate: data.endDate.toDate(),
+      generatedAt: data.generatedAt.toDate(),
+      aiGenerated: data.aiGenerated,
+    };
+    if (plan.endDate >= now) {
+      return plan;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Get all entries of a plan, in chronological order
+ */
+export const getStudyPlanEntries = async (
+  planId: string,
+  userId: string
+): Promise<StudyPlanEntry[]> => {
+  const q = query(
+    collection(db, STUDY_PLAN_ENTRIES_COLLECTION),
+    where('userId', '==', userId),
+    where('planId', '==', planId),
+    orderBy('date', 'asc')
+  );
+
+  const querySnapshot = await getDocs(q);
+  const entries: StudyPlanEntry[] = [];
+
+  querySnapshot.forEach((docSnap) => {
+    const data = docSnap.data();
+    entries.push({
+      id: docSnap.id,
+      planId: data.planId,
+      userId: data.userId,
+      courseId: data.courseId,
+      taskId: data.taskId || undefined,
+      topic: data.topic,
+      date: data.date.toDate(),
+      startTime: data.startTime,
+      duration: data.duration,
+      priority: data.priority,
+      completed: data.completed,
+    });
+  });
+
+  return entries.sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime)
+  );
+};
+
+/**
+ * Delete a plan and all of its entries
+ */
+export const deleteStudyPlan = async (planId: string, userId: string): Promise<void> => {
+  const q = query(
+    collection(db, STUDY_PLAN_ENTRIES_COLLECTION),
+    where('userId', '==', userId),
+    where('planId', '==', planId)
+  );
+  const querySnapshot = await getDocs(q);
+  const refs = [...querySnapshot.docs.map((docSnap) => docSnap.ref), doc(db, STUDY_PLANS_COLLECTION, planId)];
+
+  for (let i = 0; i < refs.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + BATCH_LIMIT).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+};
+
+/**
+ * Generate a new plan from the user's open tasks, timetable and weak quiz
+ * topics and store it
+ * Replaces the currently active plan. The new plan is fully written before
+ * the old one is deleted, so a failed save leaves the old plan in place.
+ */
+export const generateStudyPlan = async (
+  userId: string,
+  options: StudyPlanOptions = {}
+): Promise<{ plan: StudyPlan; entries: StudyPlanEntry[]; unscheduled: StudyPlanSchedule['unscheduled'] }> => {
+  const [tasks, courses, timetable, weakTopics] = await Promise.all([
+    getTasks(userId, false),
+    getCourses(userId),
+    getTimetableEntries(userId),
+    options.weakTopics
+      ? Promise.resolve(options.weakTopics)
+      : getWeakTopics(userId).catch((error) => {
+          console.error('[StudyPlanService] Could not load weak topics:', error);
+          return [];
+        }),
+  ]);
+
+  const startDate = options.startDate || new Date();
+  const weeks = options.weeks || STUDY_CONFIG.planHorizonWeeks;
+  const schedule = buildStudyPlanSchedule(tasks, courses, timetable, { ...options, startDate, weeks, weakTopics });
+
+  const planRef = doc(collection(db, STUDY_PLANS_COLLECTION));
+  const now = Timestamp.now();
+  const endDate = new Date(addDays(startOfDay(startDate), weeks * 7).getTime() - 1);
+
+  const plan: StudyPlan = {
+    id: planRef.id,
+    userId,
+    startDate: startOfDay(startDate),
+    endDate,
+    generatedAt: now.toDate(),
+    aiGenerated: false,
+  };
+
+  const entries: StudyPlanEntry[] = [];
+  const writes: ((batch: ReturnType<typeof writeBatch>) => void)[] = [];
+
+  schedule.entries.forEach((block) => {
+    const entryRef = doc(collection(db, STUDY_PLAN_ENTRIES_COLLECTION));
+    entries.push({ ...block, id: entryRef.id, planId: plan.id, userId });
+    writes.push((batch) =>
+      batch.set(entryRef, {
+        planId: plan.id,
+        userId,
+        courseId: block.courseId,
+        taskId: block.taskId || null,
+        topic: block.topic,
+        date: Timestamp.fromDate(block.date),
+        startTime: block.startTime,
+        duration: block.duration,
+        priority: block.priority,
+        completed: false,
+      })
+    );
+  });
+
+  // The plan document goes last: getActiveStudyPlan only sees the plan
+  // once every entry is stored
+  writes.push((batch) =>
+    batch.set(planRef, {
+      userId,
+      startDate: Timestamp.fromDate(plan.startDate),
+      endDate: Timestamp.fromDate(plan.endDate),
+      generatedAt: now,
+      aiGenerated: plan.aiGenerated,
+    })
+  );
+
+  const previous = await getActiveStudyPlan(userId);
+
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  if (previous) {
+    // The new plan is already active; a leftover old plan is only clutter
+    await deleteStudyPlan(previous.id, userId).catch((error) =>
+      console.error('[StudyPlanService] Could not delete previous plan:', error)
+    );
+  }
+
+  console.log('[StudyPlanService] Generated plan', plan.id, 'with', entries.length, 'blocks');
+
+  return { plan, entries, unscheduled: schedule.unscheduled };
+};
+
+/**
+ * Tick / untick a plan block
+ */
+export const setStudyPlanEntryCompleted = async (
+  entryId: string,
+  completed: boolean
+): Promise<void> => {
+  await updateDoc(doc(db, STUDY_PLAN_ENTRIES_COLLECTION, entryId), { completed });
+};
+
+export default {
+  buildStudyPlanSchedule,
+  generateStudyPlan,
+  getActiveStudyPlan,
+  getStudyPlanEntries,
+  setStudyPlanEntryCompleted,
+  deleteStudyPlan,
+  toDateKey,
+};
@@ -1,24 +1,123 @@
 import {
     collection,
     doc,
+    getDoc,
     getDocs,
     orderBy,
     query,
-    setDoc,
     Timestamp,
     where,
 } from 'firebase/firestore';
 import { db } from '../firebase/firebaseint';
-import { StudySession } from '../types';
+import { StudyInterval, StudySession } from '../types';
+import { validateStudySession } from '../utils/validation';
+import { requestAchievementCheck } from './achievementTrigger';
+import { RAGIndexingHooks } from './ai/ragIndexer';
+import { clearBurnoutAnalysis } from './burnoutDetector';
+import { clearPeakTimeAnalysis } from './peakTimeAnalyzer';
+import { getSubtaskHours } from './subtaskProgress';
+import { syncedDelete, syncedGet, syncedQuery, syncedSet, syncedUpdate } from './sync/syncService';
+import { getTaskById, updateTask } from './taskServiceFirestore';
 
 const STUDY_SESSIONS_COLLECTION = 'studySessions';
 
+/**
+ * Fields that can be changed after a session is logged
+ */
+export type StudySessionUpdates = Partial<
+  Pick<StudySession, 'courseId' | 'taskId' | 'topic' | 'duration' | 'notes' | 'effectiveness' | 'date'>
+>;
+
+const toIntervals = (intervals: any[] | undefined): StudyInterval[] | undefined =>
+  intervals?.map((interval) => ({
+    startedAt: interval.startedAt.toDate(),
+    endedAt: interval.endedAt.toDate(),
+    minutes: interval.minutes,
+  }));
+
+const serializeIntervals = (intervals: StudyInterval[] | undefined) =>
+  intervals?.map((interval) => ({
+    startedAt: Timestamp.fromDate(interval.startedAt),
+    endedAt: Timestamp.fromDate(interval.endedAt),
+    minutes: interval.minutes,
+  })) || null;
+
+const mapStudySession = (id: string, data: any): StudySession => ({
+  id,
+  userId: data.userId,
+  courseId: data.courseId,
+  taskId: data.taskId || undefined,
+  topic: data.topic || undefined,
+  duration: data.duration,
+  notes: data.notes || undefined,
+  effectiveness: (data.effectiveness || undefined) as 1 | 2 | 3 | 4 | 5 | undefined,
+  mode: data.mode || undefined,
+  intervals: toIntervals(data.intervals || undefined),
+  source: data.source || undefined,
+  date: data.date.toDate(),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt ? data.updatedAt.toDate() : undefined,
+});
+
+const assertValidSession = (session: Omit<StudySession, 'id' | 'createdAt'>): void => {
+  const { valid, errors } = validateStudySession({
+    courseId: session.courseId,
+    taskId: session.taskId,
+    topic: session.topic,
+    duration: session.duration,
+    notes: session.notes,
+    effectiveness: session.effectiveness,
+    date: session.date,
+  });
+
+  if (!valid) {
+    throw new Error(errors.join('\n'));
+  }
+};
+
+/**
+ * Add (or with negative minutes, take back) study time on the task a
+ * session was for. Tasks whose checklist carries hour estimates track
+ * progress from the checklist instead, so they are left alone.
+ */
+const adjustTaskHours = async (taskId: string | undefined, minutes: number): Promise<void> => {
+  if (!taskId || minutes === 0) return;
+
+  try {
+    const task = await getTaskById(taskId);
+    if (!task) return;
+
+    if (task.subtasks?.length && getSubtaskHours(task.subtasks, task.estimatedHours).estimatedHours > 0) {
+      return;
+    }
+
+    const completedHours = Math.max(0, Math.round(((task.completedHours || 0) + minutes / 60) * 100) / 100);
+    await updateTask(taskId, { completedHours, userId: task.userId });
+  } catch (error) {
+    console.error('[StudyService] Failed to update task hours:', error);
+  }
+};
+
+/**
+ * Drop cached analyses built from the old session list so the next read
+ * recomputes them
+ */
+const invalidateStudyAnalyses = async (userId: string): Promise<void> => {
+  try {
+    await Promise.all([clearBurnoutAnalysis(userId), clearPeakTimeAnalysis(userId)]);
+  } catch (error) {
+    console.error('[StudyService] Failed to clear cached analyses:', error);
+  }
+};
+
 /**
  * Create a new study session
  */
 export const createStudySession = async (
   session: Omit<StudySession, 'id' | 'createdAt'>
 ): Promise<StudySession> => {
+  assertValidSession(session);
+
   const sessionRef = doc(collection(db, STUDY_SESSIONS_COLLECTION));
   const now = Timestamp.now();
 
@@ -28,7 +127,7 @@ export const createStudySession = async (
     createdAt: now.toDate(),
   };
 
-  await setDoc(sessionRef, {
+  await syncedSet(STUDY_SESSIONS_COLLECTION, sessionRef.id, {
     userId: newSession.userId,
     courseId: newSession.courseId,
     taskId: newSession.taskId || null,
@@ -36,13 +135,92 @@ export const createStudySession = async (
     duration: newSession.duration,
     notes: newSession.notes || null,
     effectiveness: newSession.effectiveness || null,
+    mode: newSession.mode || null,
+    intervals: serializeIntervals(newSession.intervals),
+    source: newSession.source || 'timer',
     date: Timestamp.fromDate(session.date),
     createdAt: now,
   });
 
+  RAGIndexingHooks.onStudySessionCreated(newSession);
+  await adjustTaskHours(newSession.taskId, newSession.duration);
+  await invalidateStudyAnalyses(newSession.userId);
+  requestAchievementCheck(newSession.userId);
+
   return newSession;
 };
 
+/**
+ * Get a single study session
+ */
+export const getStudySessionById = async (sessionId: string): Promise<StudySession | null> => {
+  const data = await syncedGet(STUDY_SESSIONS_COLLECTION, sessionId, async () => {
+    const sessionDoc = await getDoc(doc(db, STUDY_SESSIONS_COLLECTION, sessionId));
+    return sessionDoc.exists() ? sessionDoc.data() : null;
+  });
+
+  return data ? mapStudySession(sessionId, data) : null;
+};
+
+/**
+ * Edit a logged session. Moves its time between tasks when the task or
+ * duration changes. Recorded intervals no longer describe the session once
+ * its date or duration is edited, so they are dropped.
+ */
+export const updateStudySession = async (
+  session: StudySession,
+  updates: StudySessionUpdates
+): Promise<StudySession> => {
+  const now = Timestamp.now();
+  const timingChanged =
+    (updates.date !== undefined && updates.date.getTime() !== session.date.getTime()) ||
+    (updates.duration !== undefined && updates.duration !== session.duration);
+
+  const updated: StudySession = {
+    ...session,
+    ...updates,
+    intervals: timingChanged ? undefined : session.intervals,
+    updatedAt: now.toDate(),
+  };
+  assertValidSession(updated);
+
+  await syncedUpdate(STUDY_SESSIONS_COLLECTION, session.id, {
+    courseId: updated.courseId,
+    taskId: updated.taskId || null,
+    topic: updated.topic || null,
+    duration: updated.duration,
+    notes: updated.notes || null,
+    effectiveness: updated.effectiveness || null,
+    intervals: serializeIntervals(updated.intervals),
+    date: Timestamp.fromDate(updated.date),
+    updatedAt: now,
+  });
+
+  RAGIndexingHooks.onStudySessionUpdated(updated);
+
+  if (session.taskId === updated.taskId) {
+    await adjustTaskHours(updated.taskId, updated.duration - session.duration);
+  } else {
+    await adjustTaskHours(session.taskId, -session.duration);
+    await adjustTaskHours(updated.taskId, updated.duration);
+  }
+  await invalidateStudyAnalyses(session.userId);
+  requestAchievementCheck(session.userId);
+
+  return updated;
+};
+
+/**
+ * Delete a logged session and take its time back off its task
+ */
+export const deleteStudySession = async (session: StudySession): Promise<void> => {
+  await syncedDelete(STUDY_SESSIONS_COLLECTION, session.id);
+
+  RAGIndexingHooks.onStudySessionDeleted(session.id, session.userId);
+  await adjustTaskHours(session.taskId, -session.duration);
+  await invalidateStudyAnalyses(session.userId);
+};
+
 /**
  * Get study sessions for a user
  */
@@ -69,26 +247,26 @@ export const getStudySessions = async (
     );
   }
 
-  const querySnapshot = await getDocs(q);
+  const hasRange = Boolean(startDate && endDate);
+  const docs = await syncedQuery(
+    STUDY_SESSIONS_COLLECTION,
+    userId,
+    async () => {
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+    },
+    { partial: hasRange }
+  );
   const sessions: StudySession[] = [];
 
-  querySnapshot.forEach((docSnap) => {
-    const data = docSnap.data();
-    sessions.push({
-      id: docSnap.id,
-      userId: data.userId,
-      courseId: data.courseId,
-      taskId: data.taskId,
-      topic: data.topic,
-      duration: data.duration,
-      notes: data.notes,
-      effectiveness: data.effectiveness as 1 | 2 | 3 | 4 | 5 | undefined,
-      date: data.date.toDate(),
-      createdAt: data.createdAt.toDate(),
-    });
+  docs.forEach(({ id, data }) => {
+    sessions.push(mapStudySession(id, data));
   });
 
-  return sessions;
+  // Offline reads come from the local copy of every session
+  return sessions
+    .filter((session) => !hasRange || (session.date >= startDate! && session.date <= endDate!))
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
 };
 
 /**
@@ -107,19 +285,7 @@ export const getStudySessionsByCourse = async (
   const sessions: StudySession[]  = [];
 
   querySnapshot.forEach((docSnap) => {
-    const data = docSnap.data();
-    sessions.push({
-      id: docSnap.id,
-      userId: data.userId,
-      courseId: data.courseId,
-      taskId: data.taskId,
-      topic: data.topic,
-      duration: data.duration,
-      notes: data.notes,
-      effectiveness: data.effectiveness as 1 | 2 | 3 | 4 | 5 | undefined,
-      date: data.date.toDate(),
-      createdAt: data.createdAt.toDate(),
-    });
+    sessions.push(mapStudySession(docSnap.id, docSnap.data()));
   });
 
   return sessions;
@@ -190,77 +356,80 @@ export const getStudyStats = async (
 };
 
 /**
- * Calculate consecutive study days (streak)
+ * Current and longest runs of consecutive local calendar days with study.
+ * The current streak still counts when the last session was yesterday.
  */
-const calculateStudyStreak = async (userId: string): Promise<number> => {
-  const q = query(
-    collection(db, STUDY_SESSIONS_COLLECTION),
-    where('userId', '==', userId),
-    orderBy('date', 'desc')
-  );
-
-  const querySnapshot = await getDocs(q);
-
-  // Get unique dates
-  const uniqueDates = new Set<string>();
-  querySnapshot.forEach((docSnap) => {
-    const data = docSnap.data();
-    const date = data.date.toDate();
-    uniqueDates.add(date.toISOString().split('T')[0]);
+export const getStudyStreaks = (
+  dates: Date[],
+  today: Date = new Date()
+): { current: number; longest: number } => {
+  const toDay = (date: Date) =>
+    Math.round(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / 86400000);
+  const days = Array.from(new Set(dates.map(toDay))).sort((a, b) => b - a);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && days[index - 1] - day === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
   });
 
-  const sortedDates = Array.from(uniqueDates).sort().reverse();
-
-  if (sortedDates.length === 0) return 0;
-
-  let streak = 1;
-  for (let i = 0; i < sortedDates.length - 1; i++) {
-    const currentDate = new Date(sortedDates[i]);
-    const nextDate = new Date(sortedDates[i + 1]);
-
-    const diffDays = Math.floor(
-      (currentDate.getTime() - nextDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    if (diffDays === 1) {
-      streak++;
-    } else {
-      break;
+  let current = 0;
+  if (days.length > 0 && toDay(today) - days[0] <= 1) {
+    current = 1;
+    while (current < days.length && days[current - 1] - days[current] === 1) {
+      current++;
     }
   }
 
-  return streak;
+  return { current, longest };
 };
 
 /**
- * Get study hours per day for chart
+ * Calculate consecutive study days (streak)
+ */
+const calculateStudyStreak = async (userId: string): Promise<number> => {
+  const sessions = await getStudySessions(userId);
+  return getStudyStreaks(sessions.map((session) => session.date)).current;
+};
+
+/**
+ * Get study hours per day for chart, with each day's split by course
  */
 export const getStudyHoursPerDay = async (
   userId: string,
-  days: number = 7
-): Promise<{ date: string; hours: number }[]> => {
-  const startDate = new Date();
+  days: number = 7,
+  endDate: Date = new Date()
+): Promise<{ date: string; hours: number; courseHours: Record<string, number> }[]> => {
+  const startDate = new Date(endDate);
   startDate.setDate(startDate.getDate() - days);
 
-  const sessions = await getStudySessions(userId, startDate, new Date());
+  const sessions = await getStudySessions(userId, startDate, endDate);
 
   // Group by date
   const dateHours: Record<string, number> = {};
+  const dateCourseHours: Record<string, Record<string, number>> = {};
   sessions.forEach((session) => {
     const dateKey = session.date.toISOString().split('T')[0];
+    const courseHours = (dateCourseHours[dateKey] = dateCourseHours[dateKey] || {});
     dateHours[dateKey] = (dateHours[dateKey] || 0) + session.duration / 60;
+    courseHours[session.courseId] = (courseHours[session.courseId] || 0) + session.duration / 60;
   });
 
   return Object.entries(dateHours)
-    .map(([date, hours]) => ({ date, hours }))
+    .map(([date, hours]) => ({ date, hours, courseHours: dateCourseHours[date] }))
     .sort((a, b) => a.date.localeCompare(b.date));
 };
 
 export default {
   createStudySession,
+  getStudySessionById,
+  updateStudySession,
+  deleteStudySession,
   getStudySessions,
   getStudySessionsByCourse,
   getTotalStudyHours,
   getStudyStats,
+  getStudyStreaks,
   getStudyHoursPerDay,
 };
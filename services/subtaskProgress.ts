@@ -0,0 +1,124 @@
+/**
+ * Subtask Progress
+ * Rolls a task's ordered subtask checklist up into completed hours and a
+ * completion percentage.
+ *
+ * Hours rules:
+ * - A subtask's own estimate always counts
+ * - Subtasks without an estimate share the part of the task estimate that
+ *   the estimated subtasks don't cover
+ * - With no hours anywhere, progress is the share of subtasks done
+ *
+ * Pure module (no I/O) so checklists update instantly while editing.
+ */
+
+import { Subtask, Task, TaskProgress, TaskStatus } from '../types';
+
+type ProgressSource = Pick<Task, 'status' | 'estimatedHours' | 'completedHours' | 'subtasks'>;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * New, not-yet-done subtask
+ */
+export const createSubtask = (title: string, estimatedHours?: number): Subtask => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`,
+  title: title.trim(),
+  done: false,
+  ...(estimatedHours !== undefined && { estimatedHours }),
+});
+
+/**
+ * Flip a subtask's done flag, stamping when it was completed
+ */
+export const toggleSubtask = (subtasks: Subtask[], subtaskId: string): Subtask[] =>
+  subtasks.map((subtask) => {
+    if (subtask.id !== subtaskId) return subtask;
+    const { completedAt, ...rest } = subtask;
+    return subtask.done ? { ...rest, done: false } : { ...rest, done: true, completedAt: new Date() };
+  });
+
+/**
+ * Estimated and completed hours implied by the checklist
+ */
+export const getSubtaskHours = (
+  subtasks: Subtask[],
+  taskEstimate = 0
+): { estimatedHours: number; completedHours: number } => {
+  const explicitTotal = subtasks.reduce((sum, subtask) => sum + (subtask.estimatedHours ?? 0), 0);
+  const implicitCount = subtasks.filter((subtask) => subtask.estimatedHours === undefined).length;
+  const share = implicitCount > 0 ? Math.max(0, taskEstimate - explicitTotal) / implicitCount : 0;
+  const hoursOf = (subtask: Subtask) => subtask.estimatedHours ?? share;
+
+  return {
+    estimatedHours: round(subtasks.reduce((sum, subtask) => sum + hoursOf(subtask), 0)),
+    completedHours: round(
+      subtasks.filter((subtask) => subtask.done).reduce((sum, subtask) => sum + hoursOf(subtask), 0)
+    ),
+  };
+};
+
+/**
+ * Task fields to save alongside an edited checklist
+ */
+export const rollUpSubtasks = (
+  subtasks: Subtask[],
+  taskEstimate?: number
+): Pick<Task, 'subtasks' | 'estimatedHours' | 'completedHours'> => {
+  const hours = getSubtaskHours(subtasks, taskEstimate);
+
+  if (hours.estimatedHours === 0) {
+    return { subtasks, completedHours: 0 };
+  }
+
+  return {
+    subtasks,
+    estimatedHours: hours.estimatedHours,
+    completedHours: hours.completedHours,
+  };
+};
+
+/**
+ * Hours and completion for a task, preferring the checklist over manual hours
+ */
+export const getTaskProgress = (task: ProgressSource): TaskProgress => {
+  const subtasks = task.subtasks || [];
+  const doneSubtasks = subtasks.filter((subtask) => subtask.done).length;
+  let estimatedHours = task.estimatedHours || 0;
+  let completedHours = task.completedHours || 0;
+
+  if (subtasks.length > 0) {
+    const hours = getSubtaskHours(subtasks, task.estimatedHours);
+    if (hours.estimatedHours > 0) {
+      estimatedHours = hours.estimatedHours;
+      completedHours = hours.completedHours;
+    }
+  }
+
+  let completionPercentage = 0;
+  if (task.status === TaskStatus.COMPLETED) {
+    completionPercentage = 100;
+    completedHours = Math.max(completedHours, estimatedHours);
+  } else if (estimatedHours > 0) {
+    completionPercentage = Math.min(100, (completedHours / estimatedHours) * 100);
+  } else if (subtasks.length > 0) {
+    completionPercentage = (doneSubtasks / subtasks.length) * 100;
+  }
+
+  return {
+    completionPercentage: Math.round(completionPercentage),
+    estimatedHours,
+    completedHours,
+    remainingHours: Math.max(0, round(estimatedHours - completedHours)),
+    doneSubtasks,
+    totalSubtasks: subtasks.length,
+  };
+};
+
+export default {
+  createSubtask,
+  toggleSubtask,
+  getSubtaskHours,
+  rollUpSubtasks,
+  getTaskProgress,
+};
@@ -0,0 +1,96 @@
+/**
+ * Firestore Sync Adapter
+ * Plugs Firestore, NetInfo and Firestore value types into the sync engine
+ */
+
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import {
+    deleteDoc,
+    deleteField,
+    doc,
+    getDoc,
+    setDoc,
+    Timestamp,
+    updateDoc,
+    writeBatch,
+} from 'firebase/firestore';
+import { db } from '../../firebase/firebaseint';
+import { Connectivity, RemoteStore, SyncCodec } from './syncEngine';
+
+const TIMESTAMP_KEY = '__timestamp';
+const DELETE_KEY = '__delete';
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const encode = (value: any): any => {
+  if (value instanceof Timestamp) return { [TIMESTAMP_KEY]: value.toMillis() };
+  if (value instanceof Date) return { [TIMESTAMP_KEY]: value.getTime() };
+  if (Array.isArray(value)) return value.map(encode);
+  if (value && typeof value.isEqual === 'function' && value.isEqual(deleteField())) {
+    return { [DELETE_KEY]: true };
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+      if (value[key] !== undefined) result[key] = encode(value[key]);
+    });
+    return result;
+  }
+  return value;
+};
+
+const decode = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decode);
+  if (isPlainObject(value)) {
+    if (typeof value[TIMESTAMP_KEY] === 'number') return Timestamp.fromMillis(value[TIMESTAMP_KEY]);
+    if (value[DELETE_KEY] === true) return deleteField();
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+      result[key] = decode(value[key]);
+    });
+    return result;
+  }
+  return value;
+};
+
+/**
+ * Timestamps are stored as `{ __timestamp: millis }` and come back as Firestore Timestamps,
+ * so service mappers can keep calling `.toDate()` on offline reads
+ */
+export const firestoreCodec: SyncCodec = {
+  encode,
+  decode,
+  isDeleteMarker: (encoded) => isPlainObject(encoded) && encoded[DELETE_KEY] === true,
+  toMillis: (encoded) =>
+    isPlainObject(encoded) && typeof encoded[TIMESTAMP_KEY] === 'number' ? encoded[TIMESTAMP_KEY] : null,
+};
+
+export const firestoreRemote: RemoteStore = {
+  get: async (collection, docId) => {
+    const snapshot = await getDoc(doc(db, collection, docId));
+    return snapshot.exists() ? snapshot.data() : null;
+  },
+  set: (collection, docId, data) => setDoc(doc(db, collection, docId), data),
+  update: (collection, docId, data) => updateDoc(doc(db, collection, docId), data),
+  delete: (collection, docId) => deleteDoc(doc(db, collection, docId)),
+  setMany: (collection, docs) => {
+    const batch = writeBatch(db);
+    docs.forEach(({ id, data }) => batch.set(doc(db, collection, id), data));
+    return batch.commit();
+  },
+  deleteMany: (collection, docIds) => {
+    const batch = writeBatch(db);
+    docIds.forEach((docId) => batch.delete(doc(db, collection, docId)));
+    return batch.commit();
+  },
+};
+
+// Unknown reachability (null) counts as online; the remote timeout catches the rest
+const isOnlineState = (state: NetInfoState): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+export const netInfoConnectivity: Connectivity = {
+  isOnline: async () => isOnlineState(await NetInfo.fetch()),
+  subscribe: (listener) => NetInfo.addEventListener((state) => listener(isOnlineState(state))),
+};
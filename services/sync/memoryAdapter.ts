@@ -0,0 +1,174 @@
+/**
+ * In-Memory Sync Adapter
+ * A remote store, storage and connectivity that live in memory, for running
+ * the sync engine without Firestore (scripts/check-sync-engine.js).
+ *
+ * The remote can be held (calls wait until released) or told to reject its
+ * next calls, to replay races and failures on demand.
+ */
+
+import { Connectivity, DocData, KeyValueStore, RemoteDoc, RemoteStore, SyncCodec } from './syncEngine';
+
+const TIMESTAMP_KEY = '__timestamp';
+const DELETE_KEY = '__delete';
+
+/**
+ * Field value that removes the field in an update, like Firestore's deleteField()
+ */
+export const MEMORY_DELETE = { [DELETE_KEY]: true };
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const isPlainObject = (value: any): boolean =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const encode = (value: any): any => {
+  if (value instanceof Date) return { [TIMESTAMP_KEY]: value.getTime() };
+  if (Array.isArray(value)) return value.map(encode);
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+      if (value[key] !== undefined) result[key] = encode(value[key]);
+    });
+    return result;
+  }
+  return value;
+};
+
+const decode = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decode);
+  if (isPlainObject(value)) {
+    if (typeof value[TIMESTAMP_KEY] === 'number') return new Date(value[TIMESTAMP_KEY]);
+    if (value[DELETE_KEY] === true) return MEMORY_DELETE;
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach((key) => {
+      result[key] = decode(value[key]);
+    });
+    return result;
+  }
+  return value;
+};
+
+/**
+ * Dates are stored as `{ __timestamp: millis }` and come back as Dates
+ */
+export const memoryCodec: SyncCodec = {
+  encode,
+  decode,
+  isDeleteMarker: (encoded) => isPlainObject(encoded) && encoded[DELETE_KEY] === true,
+  toMillis: (encoded) =>
+    isPlainObject(encoded) && typeof encoded[TIMESTAMP_KEY] === 'number' ? encoded[TIMESTAMP_KEY] : null,
+};
+
+export class MemoryRemote implements RemoteStore {
+  calls: string[] = []; // "set tasks/a", "update tasks/a", ... in call order
+  private docs = new Map<string, DocData>();
+  private failures: Error[] = [];
+  private held: Promise<void> | null = null;
+  private release: (() => void) | null = null;
+
+  /**
+   * Read or write a document directly, bypassing the engine (a "remote" edit)
+   */
+  peek(collection: string, docId: string): DocData | null {
+    const stored = this.docs.get(`${collection}/${docId}`);
+    return stored ? decode(clone(stored)) : null;
+  }
+
+  put(collection: string, docId: string, data: DocData): void {
+    this.docs.set(`${collection}/${docId}`, clone(encode(data)));
+  }
+
+  /**
+   * Reject the next calls, one error per call
+   */
+  failNext(...errors: Error[]): void {
+    this.failures.push(...errors);
+  }
+
+  /**
+   * Make calls wait until the returned function is called
+   */
+  hold(): () => void {
+    this.held = new Promise((resolve) => {
+      this.release = resolve;
+    });
+    return () => {
+      this.held = null;
+      this.release?.();
+    };
+  }
+
+  get = (collection: string, docId: string) =>
+    this.call('get', collection, docId, () => this.peek(collection, docId));
+
+  set = (collection: string, docId: string, data: DocData) =>
+    this.call('set', collection, docId, () => this.put(collection, docId, data));
+
+  update = (collection: string, docId: string, data: DocData) =>
+    this.call('update', collection, docId, () => {
+      const current = this.peek(collection, docId);
+      if (!current) throw Object.assign(new Error(`No document to update: ${docId}`), { code: 'not-found' });
+      Object.keys(data).forEach((key) => {
+        if (memoryCodec.isDeleteMarker(data[key])) {
+          delete current[key];
+        } else {
+          current[key] = data[key];
+        }
+      });
+      this.put(collection, docId, current);
+    });
+
+  delete = (collection: string, docId: string) =>
+    this.call('delete', collection, docId, () => {
+      this.docs.delete(`${collection}/${docId}`);
+    });
+
+  setMany = (collection: string, docs: RemoteDoc[]) =>
+    this.call('setMany', collection, docs.map((d) => d.id).join(','), () => {
+      docs.forEach(({ id, data }) => this.put(collection, id, data));
+    });
+
+  deleteMany = (collection: string, docIds: string[]) =>
+    this.call('deleteMany', collection, docIds.join(','), () => {
+      docIds.forEach((docId) => this.docs.delete(`${collection}/${docId}`));
+    });
+
+  private async call<T>(operation: string, collection: string, target: string, run: () => T): Promise<T> {
+    this.calls.push(`${operation} ${collection}/${target}`);
+    if (this.held) await this.held;
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+    return run();
+  }
+}
+
+export class MemoryStorage implements KeyValueStore {
+  private items = new Map<string, string>();
+
+  getItem = async (key: string) => this.items.get(key) ?? null;
+
+  setItem = async (key: string, value: string) => {
+    this.items.set(key, value);
+  };
+}
+
+export class MemoryConnectivity implements Connectivity {
+  private listeners = new Set<(online: boolean) => void>();
+
+  constructor(private online = true) {}
+
+  setOnline(online: boolean): void {
+    this.online = online;
+    this.listeners.forEach((listener) => listener(online));
+  }
+
+  isOnline = async () => this.online;
+
+  subscribe = (listener: (online: boolean) => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+}
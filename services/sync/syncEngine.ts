@@ -0,0 +1,727 @@
+/**
+ * Sync Engine
+ * Offline-first write-ahead queue for Firestore-style documents.
+ *
+ * - Writes land in a local mirror first, then go to the remote store. When the
+ *   device is offline (or the remote call fails with a network error) they are
+ *   queued and replayed in order on reconnect.
+ * - Reads go to the remote store when online and refresh the mirror. Offline
+ *   they are served from the mirror, with queued changes already applied.
+ * - Replayed updates merge field by field against the remote document:
+ *   fields nobody else touched since the local edit are applied, and fields
+ *   changed on both sides go to the newer write (remote `updatedAt` vs. the
+ *   time of the local edit) - last writer wins.
+ * - A change the remote store rejects is retried with a growing delay and
+ *   dropped after `maxAttempts`.
+ *
+ * The remote store, storage, connectivity and value codec are injected, so the
+ * engine runs the same against Firestore, the Firestore emulator or the
+ * in-memory fake in memoryAdapter.ts.
+ */
+
+import { SyncStatus } from '../../types';
+
+export type DocData = Record<string, any>;
+
+export interface RemoteDoc {
+  id: string;
+  data: DocData;
+}
+
+export interface RemoteStore {
+  get: (collection: string, docId: string) => Promise<DocData | null>;
+  set: (collection: string, docId: string, data: DocData) => Promise<void>;
+  update: (collection: string, docId: string, data: DocData) => Promise<void>;
+  delete: (collection: string, docId: string) => Promise<void>;
+  setMany: (collection: string, docs: RemoteDoc[]) => Promise<void>; // all or nothing
+  deleteMany: (collection: string, docIds: string[]) => Promise<void>; // all or nothing
+}
+
+export interface KeyValueStore {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+}
+
+export interface Connectivity {
+  isOnline: () => Promise<boolean>;
+  subscribe: (listener: (online: boolean) => void) => () => void;
+}
+
+/**
+ * Converts store values (timestamps, field sentinels) to JSON-safe values and back
+ */
+export interface SyncCodec {
+  encode: (value: any) => any;
+  decode: (value: any) => any;
+  isDeleteMarker: (encoded: any) => boolean; // "remove this field" in an update
+  toMillis: (encoded: any) => number | null; // for comparing `updatedAt`
+}
+
+export type PendingChangeType = 'set' | 'update' | 'delete' | 'setMany' | 'deleteMany';
+
+export interface PendingChange {
+  id: string;
+  collection: string;
+  docId: string;
+  docIds?: string[]; // setMany/deleteMany: every document written together (docId is the first)
+  type: PendingChangeType;
+  data?: DocData; // encoded; for setMany, the encoded documents keyed by id
+  baseValues?: DocData; // encoded values of the changed fields before the local edit
+  baseUpdatedAt?: number | null; // `updatedAt` of the local copy the edit was made on
+  changedAt: number;
+  attempts: number;
+}
+
+export interface SyncEngineOptions {
+  remote: RemoteStore;
+  storage: KeyValueStore;
+  connectivity: Connectivity;
+  codec: SyncCodec;
+  storageKeyPrefix?: string;
+  remoteTimeoutMs?: number;
+  maxAttempts?: number;
+  retryDelayMs?: number; // first retry of a rejected change; doubles per attempt
+  now?: () => number;
+}
+
+export class SyncTimeoutError extends Error {
+  constructor() {
+    super('Remote store did not respond in time');
+    this.name = 'SyncTimeoutError';
+  }
+}
+
+const NETWORK_ERROR_CODES = ['unavailable', 'deadline-exceeded', 'network-request-failed'];
+
+/**
+ * Errors worth retrying later rather than surfacing to the caller
+ */
+export const isNetworkError = (error: any): boolean =>
+  error instanceof SyncTimeoutError ||
+  NETWORK_ERROR_CODES.includes(error?.code) ||
+  /offline|network/i.test(error?.message || '');
+
+const isEqual = (a: any, b: any): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export class SyncEngine {
+  private remote: RemoteStore;
+  private storage: KeyValueStore;
+  private connectivity: Connectivity;
+  private codec: SyncCodec;
+  private prefix: string;
+  private remoteTimeoutMs: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private now: () => number;
+
+  private queue: PendingChange[] = [];
+  private mirrors = new Map<string, Record<string, DocData>>(); // collection -> docId -> encoded data
+  private loading: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private inFlightId: string | null = null; // change being replayed; never folded into or superseded
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private status: SyncStatus = { pendingChanges: 0, isSyncing: false, isOnline: true };
+  private sequence = 0;
+
+  constructor(options: SyncEngineOptions) {
+    this.remote = options.remote;
+    this.storage = options.storage;
+    this.connectivity = options.connectivity;
+    this.codec = options.codec;
+    this.prefix = options.storageKeyPrefix || '@sync';
+    this.remoteTimeoutMs = options.remoteTimeoutMs || 10000;
+    this.maxAttempts = options.maxAttempts || 5;
+    this.retryDelayMs = options.retryDelayMs || 5000;
+    this.now = options.now || Date.now;
+  }
+
+  // ========================================
+  // LIFECYCLE & STATUS
+  // ========================================
+
+  /**
+   * Load the queue and replay it whenever connectivity comes back
+   */
+  start(): () => void {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.connectivity.subscribe((online) => {
+        const cameBack = online && !this.status.isOnline;
+        this.setStatus({ isOnline: online });
+        if (cameBack) {
+          this.flush().catch((error) => console.error('[SyncEngine] Replay failed:', error));
+        }
+      });
+      this.flush().catch((error) => console.error('[SyncEngine] Initial replay failed:', error));
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  getStatus(): SyncStatus {
+    return { ...this.status };
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getPendingChanges(): PendingChange[] {
+    return this.queue.map((change) => ({ ...change }));
+  }
+
+  private setStatus(changes: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...changes, pendingChanges: this.queue.length };
+    this.listeners.forEach((listener) => listener(this.getStatus()));
+  }
+
+  // ========================================
+  // WRITES
+  // ========================================
+
+  /**
+   * Create or overwrite a document
+   */
+  async set(collection: string, docId: string, data: DocData): Promise<void> {
+    await this.load();
+    await this.loadMirror(collection);
+    const encoded = this.codec.encode(data);
+    this.getMirror(collection)[docId] = encoded;
+
+    await this.write(
+      { collection, docId, type: 'set', data: encoded, changedAt: this.now() },
+      () => this.remote.set(collection, docId, data)
+    );
+  }
+
+  /**
+   * Update some fields of a document
+   */
+  async update(collection: string, docId: string, data: DocData): Promise<void> {
+    await this.load();
+    await this.loadMirror(collection);
+    const encoded = this.codec.encode(data);
+    const mirror = this.getMirror(collection);
+    const local = mirror[docId];
+
+    const baseValues: DocData = {};
+    Object.keys(encoded).forEach((key) => {
+      baseValues[key] = local?.[key] ?? null;
+    });
+
+    if (local) {
+      mirror[docId] = this.applyFields(local, encoded);
+    }
+
+    await this.write(
+      {
+        collection,
+        docId,
+        type: 'update',
+        data: encoded,
+        baseValues,
+        baseUpdatedAt: local ? this.codec.toMillis(local.updatedAt) : null,
+        changedAt: this.now(),
+      },
+      () => this.remote.update(collection, docId, data)
+    );
+  }
+
+  /**
+   * Delete a document
+   */
+  async delete(collection: string, docId: string): Promise<void> {
+    await this.load();
+    await this.loadMirror(collection);
+    delete this.getMirror(collection)[docId];
+
+    await this.write(
+      { collection, docId, type: 'delete', changedAt: this.now() },
+      () => this.remote.delete(collection, docId)
+    );
+  }
+
+  /**
+   * Create or overwrite several documents of a collection atomically. Offline,
+   * they are queued as one change and replayed in a single batch.
+   */
+  async setMany(collection: string, docs: RemoteDoc[]): Promise<void> {
+    if (docs.length === 0) return;
+    await this.load();
+    await this.loadMirror(collection);
+    const mirror = this.getMirror(collection);
+    const encoded: DocData = {};
+    docs.forEach(({ id, data }) => {
+      encoded[id] = this.codec.encode(data);
+      mirror[id] = encoded[id];
+    });
+
+    const docIds = docs.map((d) => d.id);
+    await this.write(
+      { collection, docId: docIds[0], docIds, type: 'setMany', data: encoded, changedAt: this.now() },
+      () => this.remote.setMany(collection, docs)
+    );
+  }
+
+  /**
+   * Delete several documents of a collection atomically. Offline, they are
+   * queued as one change and replayed in a single batch.
+   */
+  async deleteMany(collection: string, docIds: string[]): Promise<void> {
+    if (docIds.length === 0) return;
+    await this.load();
+    await this.loadMirror(collection);
+    const mirror = this.getMirror(collection);
+    docIds.forEach((docId) => {
+      delete mirror[docId];
+    });
+
+    await this.write(
+      { collection, docId: docIds[0], docIds, type: 'deleteMany', changedAt: this.now() },
+      () => this.remote.deleteMany(collection, docIds)
+    );
+  }
+
+  private async write(
+    change: Omit<PendingChange, 'id' | 'attempts'>,
+    remoteCall: () => Promise<void>
+  ): Promise<void> {
+    await this.persistMirror(change.collection);
+
+    // Keep per-document order: once a document has queued changes, later ones queue behind them
+    const hasQueued = this.docIdsOf(change).some((docId) => this.hasQueued(change.collection, docId));
+
+    if (!hasQueued && (await this.isOnline())) {
+      try {
+        await this.withTimeout(remoteCall());
+        this.setStatus({ lastSyncAt: new Date(this.now()) });
+        return;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.warn('[SyncEngine] Network error, queueing', change.type, change.collection, change.docId);
+      }
+    }
+
+    await this.enqueue(change);
+  }
+
+  /**
+   * Add a change to the queue, folding it into an earlier change to the same document.
+   * The change being replayed is left alone - what it sends is already fixed.
+   */
+  private async enqueue(change: Omit<PendingChange, 'id' | 'attempts'>): Promise<void> {
+    const index = this.findLastIndex(change.collection, change.docId);
+    const previous = index >= 0 && this.queue[index].id !== this.inFlightId ? this.queue[index] : null;
+    const entry: PendingChange = { ...change, id: `${change.changedAt}-${this.sequence++}`, attempts: 0 };
+
+    if (change.docIds) {
+      // Supersedes single-document changes queued for any of its documents
+      const docIds = new Set(change.docIds);
+      this.queue = this.queue.filter(
+        (c) =>
+          c.id === this.inFlightId || c.collection !== change.collection || Boolean(c.docIds) || !docIds.has(c.docId)
+      );
+      this.queue.push(entry);
+    } else if (!previous || previous.docIds) {
+      this.queue.push(entry);
+    } else if (change.type === 'set' || change.type === 'delete') {
+      // A set or delete supersedes anything queued before it for the document
+      this.queue.splice(index, 1);
+      this.queue.push(entry);
+    } else if (previous.type === 'set') {
+      previous.data = this.applyFields(previous.data || {}, change.data || {});
+      previous.changedAt = change.changedAt;
+    } else if (previous.type === 'update') {
+      previous.data = { ...previous.data, ...change.data };
+      previous.baseValues = { ...change.baseValues, ...previous.baseValues };
+      previous.changedAt = change.changedAt;
+    } else {
+      // Updating a document with a queued delete - replay will find nothing to update
+      this.queue.push(entry);
+    }
+
+    await this.persistQueue();
+    this.setStatus({});
+  }
+
+  private findLastIndex(collection: string, docId: string): number {
+    for (let i = this.queue.length - 1; i >= 0; i--) {
+      if (this.queue[i].collection === collection && this.docIdsOf(this.queue[i]).includes(docId)) return i;
+    }
+    return -1;
+  }
+
+  private docIdsOf(change: Pick<PendingChange, 'docId' | 'docIds'>): string[] {
+    return change.docIds || [change.docId];
+  }
+
+  // ========================================
+  // READS
+  // ========================================
+
+  /**
+   * All of a user's documents in a collection.
+   * `partial` fetches (e.g. a date range) refresh the mirror without pruning it.
+   */
+  async query(
+    collection: string,
+    userId: string,
+    fetchRemote: () => Promise<RemoteDoc[]>,
+    options: { partial?: boolean } = {}
+  ): Promise<RemoteDoc[]> {
+    await this.load();
+    await this.loadMirror(collection);
+
+    if (await this.isOnline()) {
+      try {
+        const docs = await this.withTimeout(fetchRemote());
+        this.refreshMirror(collection, userId, docs, !options.partial);
+        await this.persistMirror(collection);
+        this.setStatus({ lastSyncAt: new Date(this.now()) });
+        return this.readMirror(collection, userId, options.partial ? docs.map((d) => d.id) : undefined);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.warn('[SyncEngine] Offline, reading', collection, 'from local mirror');
+      }
+    }
+
+    return this.readMirror(collection, userId);
+  }
+
+  /**
+   * A single document
+   */
+  async get(
+    collection: string,
+    docId: string,
+    fetchRemote: () => Promise<DocData | null>
+  ): Promise<DocData | null> {
+    await this.load();
+    await this.loadMirror(collection);
+    const mirror = this.getMirror(collection);
+
+    if (await this.isOnline()) {
+      try {
+        const data = await this.withTimeout(fetchRemote());
+        if (!this.hasQueued(collection, docId)) {
+          if (data) {
+            mirror[docId] = this.codec.encode(data);
+          } else {
+            delete mirror[docId];
+          }
+          await this.persistMirror(collection);
+        }
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    return mirror[docId] ? this.codec.decode(mirror[docId]) : null;
+  }
+
+  private hasQueued(collection: string, docId: string): boolean {
+    return this.findLastIndex(collection, docId) >= 0;
+  }
+
+  private refreshMirror(collection: string, userId: string, docs: RemoteDoc[], prune: boolean) {
+    const mirror = this.getMirror(collection);
+    const fetched = new Set(docs.map((d) => d.id));
+
+    if (prune) {
+      Object.keys(mirror).forEach((docId) => {
+        if (mirror[docId]?.userId === userId && !fetched.has(docId) && !this.hasQueued(collection, docId)) {
+          delete mirror[docId];
+        }
+      });
+    }
+
+    // Documents with queued changes keep their optimistic local version
+    docs.forEach(({ id, data }) => {
+      if (!this.hasQueued(collection, id)) {
+        mirror[id] = this.codec.encode(data);
+      }
+    });
+  }
+
+  private readMirror(collection: string, userId: string, onlyIds?: string[]): RemoteDoc[] {
+    const mirror = this.getMirror(collection);
+    const ids = onlyIds
+      ? [
+          ...new Set([
+            ...onlyIds,
+            ...this.queue.filter((c) => c.collection === collection).flatMap((c) => this.docIdsOf(c)),
+          ]),
+        ]
+      : Object.keys(mirror);
+
+    return ids
+      .filter((id) => mirror[id] && mirror[id].userId === userId)
+      .map((id) => ({ id, data: this.codec.decode(mirror[id]) }));
+  }
+
+  // ========================================
+  // REPLAY
+  // ========================================
+
+  /**
+   * Replay queued changes in order. Stops at the first network error, or at a
+   * rejected change until its retry is due.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replayQueue().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async replayQueue(): Promise<void> {
+    await this.load();
+    if (this.queue.length === 0 || !(await this.isOnline())) return;
+
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.setStatus({ isSyncing: true });
+    let replayed = 0;
+
+    try {
+      while (this.queue.length > 0) {
+        const change = this.queue[0];
+        this.inFlightId = change.id;
+        try {
+          await this.withTimeout(this.replay(change));
+          this.remove(change.id);
+          replayed++;
+        } catch (error) {
+          if (isNetworkError(error)) break;
+
+          change.attempts++;
+          console.error('[SyncEngine] Replay failed for', change.collection, change.docId, error);
+          if (change.attempts < this.maxAttempts) {
+            this.scheduleRetry(change.attempts);
+            break;
+          }
+
+          console.error('[SyncEngine] Dropping change after', change.attempts, 'attempts:', change.id);
+          this.remove(change.id);
+        } finally {
+          this.inFlightId = null;
+          await this.persistQueue();
+        }
+      }
+    } finally {
+      this.setStatus({
+        isSyncing: false,
+        ...(replayed > 0 && { lastSyncAt: new Date(this.now()) }),
+      });
+    }
+
+    if (replayed > 0) {
+      console.log('[SyncEngine] Replayed', replayed, 'change(s),', this.queue.length, 'left');
+    }
+  }
+
+  private remove(changeId: string) {
+    this.queue = this.queue.filter((c) => c.id !== changeId);
+  }
+
+  private scheduleRetry(attempts: number) {
+    const delay = this.retryDelayMs * 2 ** (attempts - 1);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush().catch((error) => console.error('[SyncEngine] Retry failed:', error));
+    }, delay);
+  }
+
+  private async replay(change: PendingChange): Promise<void> {
+    const { collection, docId } = change;
+    await this.loadMirror(collection);
+
+    if (change.type === 'set') {
+      await this.remote.set(collection, docId, this.codec.decode(change.data));
+      return;
+    }
+
+    if (change.type === 'setMany') {
+      const docs = change.data || {};
+      await this.remote.setMany(
+        collection,
+        this.docIdsOf(change).map((id) => ({ id, data: this.codec.decode(docs[id]) }))
+      );
+      return;
+    }
+
+    if (change.type === 'deleteMany') {
+      await this.remote.deleteMany(collection, this.docIdsOf(change));
+      return;
+    }
+
+    const remoteData = await this.remote.get(collection, docId);
+    const remoteDoc = remoteData ? this.codec.encode(remoteData) : null;
+    const remoteUpdatedAt = remoteDoc ? this.codec.toMillis(remoteDoc.updatedAt) : null;
+
+    if (change.type === 'delete') {
+      // A remote edit made after the local delete wins
+      if (remoteDoc && remoteUpdatedAt !== null && remoteUpdatedAt > change.changedAt) {
+        this.getMirror(collection)[docId] = remoteDoc;
+        await this.persistMirror(collection);
+        return;
+      }
+      if (remoteDoc) await this.remote.delete(collection, docId);
+      return;
+    }
+
+    // Update of a document deleted elsewhere - the delete wins
+    if (!remoteDoc) {
+      delete this.getMirror(collection)[docId];
+      await this.persistMirror(collection);
+      return;
+    }
+
+    const fields = this.resolveFields(change, remoteDoc, remoteUpdatedAt);
+    if (Object.keys(fields).length > 0) {
+      await this.remote.update(collection, docId, this.codec.decode(fields));
+    }
+
+    this.getMirror(collection)[docId] = this.applyFields(remoteDoc, fields);
+    await this.persistMirror(collection);
+  }
+
+  /**
+   * Field-level merge of a queued update with the current remote document
+   */
+  private resolveFields(change: PendingChange, remoteDoc: DocData, remoteUpdatedAt: number | null): DocData {
+    const data = change.data || {};
+    const noConcurrentEdit =
+      change.baseUpdatedAt == null || remoteUpdatedAt === null || remoteUpdatedAt <= change.baseUpdatedAt;
+    if (noConcurrentEdit) return data;
+
+    const localIsNewer = change.changedAt > remoteUpdatedAt;
+    const fields: DocData = {};
+
+    Object.keys(data).forEach((key) => {
+      if (key === 'updatedAt') return;
+      // Forms resend unchanged fields; those must not clobber a concurrent remote edit
+      if (isEqual(data[key], change.baseValues?.[key])) return;
+      const untouchedRemotely = isEqual(remoteDoc[key], change.baseValues?.[key]);
+      if (untouchedRemotely || localIsNewer) {
+        fields[key] = data[key];
+      }
+    });
+
+    if (Object.keys(fields).length > 0 && localIsNewer && data.updatedAt !== undefined) {
+      fields.updatedAt = data.updatedAt;
+    }
+    return fields;
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  private applyFields(doc: DocData, fields: DocData): DocData {
+    const next = { ...doc };
+    Object.keys(fields).forEach((key) => {
+      if (this.codec.isDeleteMarker(fields[key])) {
+        delete next[key];
+      } else {
+        next[key] = fields[key];
+      }
+    });
+    return next;
+  }
+
+  private async isOnline(): Promise<boolean> {
+    let online = true;
+    try {
+      online = await this.connectivity.isOnline();
+    } catch {
+      online = true; // Unknown - let the remote call decide
+    }
+    if (online !== this.status.isOnline) this.setStatus({ isOnline: online });
+    return online;
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new SyncTimeoutError()), this.remoteTimeoutMs);
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private getMirror(collection: string): Record<string, DocData> {
+    let mirror = this.mirrors.get(collection);
+    if (!mirror) {
+      mirror = {};
+      this.mirrors.set(collection, mirror);
+    }
+    return mirror;
+  }
+
+  private mirrorKey(collection: string): string {
+    return `${this.prefix}_docs_${collection}`;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await this.storage.getItem(`${this.prefix}_queue`);
+          this.queue = stored ? JSON.parse(stored) : [];
+          this.setStatus({});
+        } catch (error) {
+          console.error('[SyncEngine] Failed to load pending changes:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private async loadMirror(collection: string): Promise<void> {
+    if (this.mirrors.has(collection)) return;
+    try {
+      const stored = await this.storage.getItem(this.mirrorKey(collection));
+      this.mirrors.set(collection, stored ? JSON.parse(stored) : {});
+    } catch (error) {
+      console.error('[SyncEngine] Failed to load local', collection, error);
+      this.mirrors.set(collection, {});
+    }
+  }
+
+  private async persistQueue(): Promise<void> {
+    try {
+      await this.storage.setItem(`${this.prefix}_queue`, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('[SyncEngine] Failed to save pending changes:', error);
+    }
+  }
+
+  private async persistMirror(collection: string): Promise<void> {
+    try {
+      await this.storage.setItem(this.mirrorKey(collection), JSON.stringify(this.getMirror(collection)));
+    } catch (error) {
+      console.error('[SyncEngine] Failed to save local', collection, error);
+    }
+  }
+}
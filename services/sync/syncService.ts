@@ -0,0 +1,102 @@
+/**
+ * Sync Service
+ * App-wide offline-first sync for the task, course, study session and
+ * timetable services. Writes are applied locally and queued while offline;
+ * reads fall back to the local copy.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SYNC_CONFIG } from '../../constants/config';
+import { SyncStatus } from '../../types';
+import { firestoreCodec, firestoreRemote, netInfoConnectivity } from './firestoreAdapter';
+import { DocData, RemoteDoc, SyncEngine } from './syncEngine';
+
+const syncEngine = new SyncEngine({
+  remote: firestoreRemote,
+  storage: AsyncStorage,
+  connectivity: netInfoConnectivity,
+  codec: firestoreCodec,
+  storageKeyPrefix: '@sync',
+  remoteTimeoutMs: SYNC_CONFIG.remoteTimeoutMs,
+  maxAttempts: SYNC_CONFIG.maxAttempts,
+  retryDelayMs: SYNC_CONFIG.retryDelayMs,
+});
+
+/**
+ * Start replaying queued changes on launch and on every reconnect
+ */
+export const startSync = (): (() => void) => syncEngine.start();
+
+/**
+ * Replay queued changes now (e.g. pull-to-refresh)
+ */
+export const flushPendingChanges = (): Promise<void> => syncEngine.flush();
+
+export const getSyncStatus = (): SyncStatus => syncEngine.getStatus();
+
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) =>
+  syncEngine.subscribe(listener);
+
+/**
+ * Create or overwrite a document
+ */
+export const syncedSet = (collection: string, docId: string, data: DocData): Promise<void> =>
+  syncEngine.set(collection, docId, data);
+
+/**
+ * Update fields of a document
+ */
+export const syncedUpdate = (collection: string, docId: string, data: DocData): Promise<void> =>
+  syncEngine.update(collection, docId, data);
+
+/**
+ * Delete a document
+ */
+export const syncedDelete = (collection: string, docId: string): Promise<void> =>
+  syncEngine.delete(collection, docId);
+
+/**
+ * Create or overwrite several documents together - all of them or none (max 500)
+ */
+export const syncedSetMany = (collection: string, docs: RemoteDoc[]): Promise<void> =>
+  syncEngine.setMany(collection, docs);
+
+/**
+ * Delete several documents together - all of them or none (max 500)
+ */
+export const syncedDeleteMany = (collection: string, docIds: string[]): Promise<void> =>
+  syncEngine.deleteMany(collection, docIds);
+
+/**
+ * A user's documents: fetched when online, from the local copy when offline.
+ * Results are unordered - sort after mapping.
+ */
+export const syncedQuery = (
+  collection: string,
+  userId: string,
+  fetchRemote: () => Promise<RemoteDoc[]>,
+  options?: { partial?: boolean }
+): Promise<RemoteDoc[]> => syncEngine.query(collection, userId, fetchRemote, options);
+
+/**
+ * A single document, from the local copy when offline
+ */
+export const syncedGet = (
+  collection: string,
+  docId: string,
+  fetchRemote: () => Promise<DocData | null>
+): Promise<DocData | null> => syncEngine.get(collection, docId, fetchRemote);
+
+export default {
+  startSync,
+  flushPendingChanges,
+  getSyncStatus,
+  subscribeToSyncStatus,
+  syncedSet,
+  syncedUpdate,
+  syncedDelete,
+  syncedSetMany,
+  syncedDeleteMany,
+  syncedQuery,
+  syncedGet,
+};
@@ -0,0 +1,145 @@
+/**
+ * Task Reminders
+ * Local notifications for a task's own reminders: offsets before the due
+ * date ("1 day before", "2 hours before") plus Task.reminderDate as a
+ * custom time.
+ *
+ * Each scheduled notification carries its task id, so a task's reminders
+ * can be found and replaced without keeping a separate record. Scheduled
+ * notifications don't survive a reinstall; rehydrateTaskReminders rebuilds
+ * them from the tasks stored in Firestore.
+ */
+
+import { TASK_REMINDER_CONFIG } from '../constants/config';
+import { Task, TaskStatus } from '../types';
+import { NotificationPriority, NotificationType } from '../types/notification';
+import { formatDate, formatTime, t } from './i18n/i18nService';
+import { notificationManager } from './notificationManager';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+export interface TaskReminderTime {
+  at: Date;
+  offsetMinutes: number | null; // null for the custom time
+}
+
+/**
+ * "1 day before" style label for an offset in minutes
+ */
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes % MINUTES_PER_WEEK === 0) {
+    return t('taskReminders.offset.weeks', { count: minutes / MINUTES_PER_WEEK });
+  }
+  if (minutes % MINUTES_PER_DAY === 0) {
+    return t('taskReminders.offset.days', { count: minutes / MINUTES_PER_DAY });
+  }
+  if (minutes % 60 === 0) return t('taskReminders.offset.hours', { count: minutes / 60 });
+  return t('taskReminders.offset.minutes', { count: minutes });
+};
+
+/**
+ * Upcoming reminder times for a task, soonest first. Completed tasks have
+ * none, and reminders past the scheduling horizon wait for a later run.
+ */
+export const getTaskReminderTimes = (task: Task, now: Date = new Date()): TaskReminderTime[] => {
+  if (task.status === TaskStatus.COMPLETED) return [];
+
+  const horizon = now.getTime() + TASK_REMINDER_CONFIG.scheduleHorizonDays * MINUTES_PER_DAY * 60000;
+  const candidates: TaskReminderTime[] = [
+    ...(task.reminderOffsets || []).map((offsetMinutes) => ({
+      at: new Date(task.dueDate.getTime() - offsetMinutes * 60000),
+      offsetMinutes,
+    })),
+    ...(task.reminderDate ? [{ at: task.reminderDate, offsetMinutes: null }] : []),
+  ];
+
+  const seen = new Set<number>();
+  return candidates
+    .filter((reminder) => {
+      const time = reminder.at.getTime();
+      if (time <= now.getTime() || time > horizon || seen.has(time)) return false;
+      seen.add(time);
+      return true;
+    })
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+const scheduleReminder = (task: Task, reminder: TaskReminderTime): Promise<string | null> =>
+  notificationManager.scheduleAt(
+    {
+      userId: task.userId,
+      type: NotificationType.DEADLINE_ALERT,
+      priority: NotificationPriority.HIGH,
+      title: `⏰ ${task.title}`,
+      body: t('taskReminders.body', {
+        date: formatDate(task.dueDate, { weekday: 'short', month: 'short', day: 'numeric' }),
+        time: formatTime(task.dueDate),
+      }),
+      emoji: '⏰',
+      action: 'OPEN_TASK',
+      actionData: { taskId: task.id, courseId: task.courseId, screen: 'TaskDetail', params: { taskId: task.id } },
+      data: { reminderFor: 'task', offsetMinutes: reminder.offsetMinutes },
+      category: 'task_reminder',
+    },
+    reminder.at
+  );
+
+/**
+ * Cancel every scheduled reminder of a task
+ */
+export const cancelTaskReminders = async (taskId: string): Promise<void> => {
+  try {
+    await notificationManager.cancelMatching({ reminderFor: 'task', taskId });
+  } catch (error) {
+    console.error('[TaskReminders] Failed to cancel reminders:', error);
+  }
+};
+
+/**
+ * Replace a task's scheduled reminders with ones for its current due date,
+ * offsets and status
+ */
+export const scheduleTaskReminders = async (task: Task): Promise<void> => {
+  try {
+    await cancelTaskReminders(task.id);
+    const reminders = getTaskReminderTimes(task);
+    await Promise.all(reminders.map((reminder) => scheduleReminder(task, reminder)));
+    if (reminders.length > 0) {
+      console.log('[TaskReminders] Scheduled', reminders.length, 'reminder(s) for', task.title);
+    }
+  } catch (error) {
+    console.error('[TaskReminders] Failed to schedule reminders:', error);
+  }
+};
+
+/**
+ * Rebuild all task reminders, e.g. after a reinstall wiped the scheduled
+ * notifications. Only the soonest TASK_REMINDER_CONFIG.maxScheduled are kept.
+ */
+export const rehydrateTaskReminders = async (tasks: Task[]): Promise<number> => {
+  try {
+    await notificationManager.cancelMatching({ reminderFor: 'task' });
+
+    const now = new Date();
+    const upcoming = tasks
+      .flatMap((task) => getTaskReminderTimes(task, now).map((reminder) => ({ task, reminder })))
+      .sort((a, b) => a.reminder.at.getTime() - b.reminder.at.getTime())
+      .slice(0, TASK_REMINDER_CONFIG.maxScheduled);
+
+    await Promise.all(upcoming.map(({ task, reminder }) => scheduleReminder(task, reminder)));
+    console.log('[TaskReminders] Rehydrated', upcoming.length, 'task reminder(s)');
+    return upcoming.length;
+  } catch (error) {
+    console.error('[TaskReminders] Failed to rehydrate reminders:', error);
+    return 0;
+  }
+};
+
+export default {
+  formatReminderOffset,
+  getTaskReminderTimes,
+  scheduleTaskReminders,
+  cancelTaskReminders,
+  rehydrateTaskReminders,
+};
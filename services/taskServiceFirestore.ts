@@ -1,23 +1,44 @@
 import {
     collection,
-    deleteDoc,
+    deleteField,
     doc,
     getDoc,
     getDocs,
     limit,
     orderBy,
     query,
-    setDoc,
     startAfter,
     Timestamp,
-    updateDoc,
     where,
 } from 'firebase/firestore';
 import { auth, db } from '../firebase/firebaseint';
-import { Task, TaskPriority, TaskStatus, TaskType } from '../types';
+import {
+    RecurrenceRule,
+    SeriesEditScope,
+    Subtask,
+    Task,
+    TaskPriority,
+    TaskStatus,
+    TaskType,
+    TimetableEntry,
+} from '../types';
+import { requestAchievementCheck } from './achievementTrigger';
+import { RAGIndexingHooks } from './ai/ragIndexer';
+import { getOccurrenceDates } from './recurrence';
+import {
+    syncedDelete,
+    syncedDeleteMany,
+    syncedGet,
+    syncedQuery,
+    syncedSet,
+    syncedSetMany,
+    syncedUpdate,
+} from './sync/syncService';
 import { checkNewTaskRisk, triggerNotificationCheck } from './taskNotificationIntegration';
+import { cancelTaskReminders, scheduleTaskReminders } from './taskReminders';
 
 const TASKS_COLLECTION = 'tasks';
+const BATCH_LIMIT = 450; // Firestore allows 500 writes per batch
 const CACHE_TTL = 60000; // 1 minute cache
 const MAX_CACHE_SIZE = 100; // ✅ FIXED: Maximum cache entries
 
@@ -57,6 +78,102 @@ export function clearTaskCache() {
   cache.clear();
 }
 
+// Firestore rejects undefined fields, so optional subtask fields are stored as null
+const serializeSubtasks = (subtasks: Subtask[]) =>
+  subtasks.map((subtask) => ({
+    id: subtask.id,
+    title: subtask.title,
+    done: subtask.done,
+    estimatedHours: subtask.estimatedHours ?? null,
+    completedAt: subtask.completedAt ? Timestamp.fromDate(subtask.completedAt) : null,
+  }));
+
+const serializeRecurrence = (rule: RecurrenceRule) => ({
+  frequency: rule.frequency,
+  interval: rule.interval,
+  daysOfWeek: rule.daysOfWeek ?? null,
+  until: rule.until ? Timestamp.fromDate(rule.until) : null,
+  count: rule.count ?? null,
+  timetableEntryId: rule.timetableEntryId ?? null,
+});
+
+const mapRecurrence = (data: any): RecurrenceRule | undefined =>
+  data
+    ? {
+        frequency: data.frequency,
+        interval: data.interval || 1,
+        daysOfWeek: data.daysOfWeek ?? undefined,
+        until: data.until ? data.until.toDate() : undefined,
+        count: data.count ?? undefined,
+        timetableEntryId: data.timetableEntryId ?? undefined,
+      }
+    : undefined;
+
+const mapSubtasks = (data: any[] | undefined): Subtask[] | undefined =>
+  data?.map((subtask) => ({
+    id: subtask.id,
+    title: subtask.title,
+    done: !!subtask.done,
+    estimatedHours: subtask.estimatedHours ?? undefined,
+    completedAt: subtask.completedAt ? subtask.completedAt.toDate() : undefined,
+  }));
+
+/**
+ * Task from a stored document
+ */
+const mapTask = (id: string, data: any): Task => ({
+  id,
+  userId: data.userId,
+  courseId: data.courseId,
+  title: data.title,
+  description: data.description,
+  type: data.type as TaskType,
+  priority: data.priority as TaskPriority,
+  status: data.status as TaskStatus,
+  dueDate: data.dueDate.toDate(),
+  estimatedHours: data.estimatedHours,
+  completedHours: data.completedHours,
+  reminderDate: data.reminderDate ? data.reminderDate.toDate() : undefined,
+  reminderOffsets: data.reminderOffsets || undefined,
+  completedAt: data.completedAt ? data.completedAt.toDate() : undefined,
+  externalUid: data.externalUid || undefined,
+  score: data.score ?? undefined,
+  maxScore: data.maxScore ?? undefined,
+  weight: data.weight ?? undefined,
+  subtasks: mapSubtasks(data.subtasks),
+  seriesId: data.seriesId || undefined,
+  occurrenceIndex: data.occurrenceIndex ?? undefined,
+  recurrence: mapRecurrence(data.recurrence),
+  createdAt: data.createdAt.toDate(),
+  updatedAt: data.updatedAt.toDate(),
+});
+
+/**
+ * Stored document for a new task
+ */
+const serializeNewTask = (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>, now: Timestamp) => ({
+  userId: task.userId,
+  courseId: task.courseId,
+  title: task.title,
+  description: task.description || null,
+  type: task.type,
+  priority: task.priority,
+  status: task.status,
+  dueDate: Timestamp.fromDate(task.dueDate),
+  estimatedHours: task.estimatedHours || null,
+  completedHours: task.completedHours || null,
+  reminderDate: task.reminderDate ? Timestamp.fromDate(task.reminderDate) : null,
+  reminderOffsets: task.reminderOffsets?.length ? task.reminderOffsets : null,
+  completedAt: task.completedAt ? Timestamp.fromDate(task.completedAt) : null,
+  externalUid: task.externalUid || null,
+  subtasks: task.subtasks ? serializeSubtasks(task.subtasks) : null,
+  seriesId: task.seriesId || null,
+  occurrenceIndex: task.occurrenceIndex ?? null,
+  recurrence: task.recurrence ? serializeRecurrence(task.recurrence) : null,
+  createdAt: now,
+  updatedAt: now,
+});
+
 /**
  * Create a new task in Firestore
  */
@@ -73,23 +190,7 @@ export const createTask = async (
     updatedAt: now.toDate(),
   };
 
-  await setDoc(taskRef, {
-    userId: newTask.userId,
-    courseId: newTask.courseId,
-    title: newTask.title,
-    description: newTask.description || null,
-    type: newTask.type,
-    priority: newTask.priority,
-    status: newTask.status,
-    dueDate: Timestamp.fromDate(task.dueDate),
-    estimatedHours: newTask.estimatedHours || null,
-    completedHours: newTask.completedHours || null,
-    reminderDate: task.reminderDate
-      ? Timestamp.fromDate(task.reminderDate)
-      : null,
-    createdAt: now,
-    updatedAt: now,
-  });
+  await syncedSet(TASKS_COLLECTION, taskRef.id, serializeNewTask(task, now));
 
   // ✅ PERFORMANCE: Invalidate cache for fresh data on next fetch
   cache.delete(`tasks_${newTask.userId}`);
@@ -108,6 +209,9 @@ export const createTask = async (
     console.error('[TaskService] Failed to check new task risk:', err);
   });
 
+  RAGIndexingHooks.onTaskCreated(newTask);
+  scheduleTaskReminders(newTask);
+
   return newTask;
 };
 
@@ -123,29 +227,15 @@ async function fetchAndCacheTasks(userId: string, cacheKey: string): Promise<Tas
     orderBy('dueDate', 'asc')
   );
 
-  const querySnapshot = await getDocs(q);
-  console.log('[TaskService] Query successful! Got', querySnapshot.size, 'tasks');
-  const tasks: Task[] = [];
-
-  querySnapshot.forEach((docSnap) => {
-    const data = docSnap.data();
-    tasks.push({
-      id: docSnap.id,
-      userId: data.userId,
-      courseId: data.courseId,
-      title: data.title,
-      description: data.description,
-      type: data.type as TaskType,
-      priority: data.priority as TaskPriority,
-      status: data.status as TaskStatus,
-      dueDate: data.dueDate.toDate(),
-      estimatedHours: data.estimatedHours,
-      completedHours: data.completedHours,
-      reminderDate: data.reminderDate ? data.reminderDate.toDate() : undefined,
-      createdAt: data.createdAt.toDate(),
-      updatedAt: data.updatedAt.toDate(),
-    });
+  const docs = await syncedQuery(TASKS_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
   });
+  console.log('[TaskService] Query successful! Got', docs.length, 'tasks');
+  const tasks = docs.map(({ id, data }) => mapTask(id, data));
+
+  // Offline reads and queued writes come back unordered
+  tasks.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
 
   // Cache the results
   setCache(cacheKey, tasks);
@@ -217,22 +307,7 @@ export const getTasksPaginated = async (
   querySnapshot.forEach((docSnap) => {
     if (index < pageSize) {
       const data = docSnap.data();
-      tasks.push({
-        id: docSnap.id,
-        userId: data.userId,
-        courseId: data.courseId,
-        title: data.title,
-        description: data.description,
-        type: data.type as TaskType,
-        priority: data.priority as TaskPriority,
-        status: data.status as TaskStatus,
-        dueDate: data.dueDate.toDate(),
-        estimatedHours: data.estimatedHours,
-        completedHours: data.completedHours,
-        reminderDate: data.reminderDate ? data.reminderDate.toDate() : undefined,
-        createdAt: data.createdAt.toDate(),
-        updatedAt: data.updatedAt.toDate(),
-      });
+      tasks.push(mapTask(docSnap.id, data));
     }
     lastDocument = docSnap;
     index++;
@@ -249,29 +324,16 @@ export const getTasksPaginated = async (
  * Get task by ID
  */
 export const getTaskById = async (taskId: string): Promise<Task | null> => {
-  const taskDoc = await getDoc(doc(db, TASKS_COLLECTION, taskId));
+  const data = await syncedGet(TASKS_COLLECTION, taskId, async () => {
+    const taskDoc = await getDoc(doc(db, TASKS_COLLECTION, taskId));
+    return taskDoc.exists() ? taskDoc.data() : null;
+  });
 
-  if (!taskDoc.exists()) {
+  if (!data) {
     return null;
   }
 
-  const data = taskDoc.data();
-  return {
-    id: taskDoc.id,
-    userId: data.userId,
-    courseId: data.courseId,
-    title: data.title,
-    description: data.description,
-    type: data.type as TaskType,
-    priority: data.priority as TaskPriority,
-    status: data.status as TaskStatus,
-    dueDate: data.dueDate.toDate(),
-    estimatedHours: data.estimatedHours,
-    completedHours: data.completedHours,
-    reminderDate: data.reminderDate ? data.reminderDate.toDate() : undefined,
-    createdAt: data.createdAt.toDate(),
-    updatedAt: data.updatedAt.toDate(),
-  };
+  return mapTask(taskId, data);
 };
 
 /**
@@ -293,22 +355,7 @@ export const getTasksByStatus = async (
 
   querySnapshot.forEach((docSnap) => {
     const data = docSnap.data();
-    tasks.push({
-      id: docSnap.id,
-      userId: data.userId,
-      courseId: data.courseId,
-      title: data.title,
-      description: data.description,
-      type: data.type as TaskType,
-      priority: data.priority as TaskPriority,
-      status: data.status as TaskStatus,
-      dueDate: data.dueDate.toDate(),
-      estimatedHours: data.estimatedHours,
-      completedHours: data.completedHours,
-      reminderDate: data.reminderDate ? data.reminderDate.toDate() : undefined,
-      createdAt: data.createdAt.toDate(),
-      updatedAt: data.updatedAt.toDate(),
-    });
+    tasks.push(mapTask(docSnap.id, data));
   });
 
   return tasks;
@@ -329,22 +376,7 @@ export const getTasksByCourse = async (courseId: string): Promise<Task[]> => {
 
   querySnapshot.forEach((docSnap) => {
     const data = docSnap.data();
-    tasks.push({
-      id: docSnap.id,
-      userId: data.userId,
-      courseId: data.courseId,
-      title: data.title,
-      description: data.description,
-      type: data.type as TaskType,
-      priority: data.priority as TaskPriority,
-      status: data.status as TaskStatus,
-      dueDate: data.dueDate.toDate(),
-      estimatedHours: data.estimatedHours,
-      completedHours: data.completedHours,
-      reminderDate: data.reminderDate ? data.reminderDate.toDate() : undefined,
-      createdAt: data.createdAt.toDate(),
-      updatedAt: data.updatedAt.toDate(),
-    });
+    tasks.push(mapTask(docSnap.id, data));
   });
 
   return tasks;
@@ -375,24 +407,7 @@ export const getUpcomingTasks = async (
   querySnapshot.forEach((docSnap) => {
     const data = docSnap.data();
     if (data.status !== TaskStatus.COMPLETED) {
-      tasks.push({
-        id: docSnap.id,
-        userId: data.userId,
-        courseId: data.courseId,
-        title: data.title,
-        description: data.description,
-        type: data.type as TaskType,
-        priority: data.priority as TaskPriority,
-        status: data.status as TaskStatus,
-        dueDate: data.dueDate.toDate(),
-        estimatedHours: data.estimatedHours,
-        completedHours: data.completedHours,
-        reminderDate: data.reminderDate
-          ? data.reminderDate.toDate()
-          : undefined,
-        createdAt: data.createdAt.toDate(),
-        updatedAt: data.updatedAt.toDate(),
-      });
+      tasks.push(mapTask(docSnap.id, data));
     }
   });
 
@@ -418,30 +433,16 @@ export const getOverdueTasks = async (userId: string): Promise<Task[]> => {
   querySnapshot.forEach((docSnap) => {
     const data = docSnap.data();
     if (data.status !== TaskStatus.COMPLETED) {
-      tasks.push({
-        id: docSnap.id,
-        userId: data.userId,
-        courseId: data.courseId,
-        title: data.title,
-        description: data.description,
-        type: data.type as TaskType,
-        priority: data.priority as TaskPriority,
-        status: TaskStatus.OVERDUE,
-        dueDate: data.dueDate.toDate(),
-        estimatedHours: data.estimatedHours,
-        completedHours: data.completedHours,
-        reminderDate: data.reminderDate
-          ? data.reminderDate.toDate()
-          : undefined,
-        createdAt: data.createdAt.toDate(),
-        updatedAt: data.updatedAt.toDate(),
-      });
+      tasks.push({ ...mapTask(docSnap.id, data), status: TaskStatus.OVERDUE });
     }
   });
 
   return tasks;
 };
 
+// Fields whose change moves or cancels a task's scheduled reminders
+const REMINDER_FIELDS = ['title', 'dueDate', 'status', 'reminderDate', 'reminderOffsets'] as const;
+
 /**
  * ✅ OPTIMIZED: Update task with cache invalidation
  */
@@ -449,7 +450,6 @@ export const updateTask = async (
   id: string,
   updates: Partial<Task>
 ): Promise<void> => {
-  const taskRef = doc(db, TASKS_COLLECTION, id);
   const updateData: any = {
     ...updates,
     updatedAt: Timestamp.now(),
@@ -462,17 +462,65 @@ export const updateTask = async (
 
   if (updates.reminderDate) {
     updateData.reminderDate = Timestamp.fromDate(updates.reminderDate);
+  } else if ('reminderDate' in updates) {
+    updateData.reminderDate = null;
+  }
+
+  if ('reminderOffsets' in updates) {
+    updateData.reminderOffsets = updates.reminderOffsets?.length ? updates.reminderOffsets : null;
+  }
+
+  // Completion time counts early finishes; reopening a task clears it
+  if (updates.completedAt) {
+    updateData.completedAt = Timestamp.fromDate(updates.completedAt);
+  } else if (updates.status === TaskStatus.COMPLETED) {
+    const existing = await getTaskById(id);
+    if (existing && existing.status !== TaskStatus.COMPLETED) {
+      updateData.completedAt = Timestamp.now();
+    }
+  } else if (updates.status || 'completedAt' in updates) {
+    updateData.completedAt = null;
   }
 
+  if (updates.subtasks) {
+    updateData.subtasks = serializeSubtasks(updates.subtasks);
+  }
+
+  if (updates.recurrence) {
+    updateData.recurrence = serializeRecurrence(updates.recurrence);
+  }
+
+  // Clearing a mark removes it from the grade calculation
+  (['score', 'maxScore', 'weight'] as const).forEach((key) => {
+    if (key in updates && updates[key] === undefined) {
+      updateData[key] = deleteField();
+    }
+  });
+
   // Remove fields that shouldn't be updated
   delete updateData.id;
   delete updateData.createdAt;
 
-  await updateDoc(taskRef, updateData);
+  await syncedUpdate(TASKS_COLLECTION, id, updateData);
 
   // ✅ Invalidate cache after mutation
   clearTaskCache();
 
+  // Re-index and reschedule reminders from the stored copy so partial updates see the whole task
+  const remindersChanged = REMINDER_FIELDS.some((key) => key in updates);
+  getTaskById(id)
+    .then(task => {
+      if (!task) return;
+      RAGIndexingHooks.onTaskUpdated(task);
+      if (remindersChanged) {
+        scheduleTaskReminders(task);
+      }
+      if (updates.status === TaskStatus.COMPLETED) {
+        requestAchievementCheck(task.userId);
+      }
+    })
+    .catch(err => console.error('[TaskService] Failed to re-index task:', err));
+
   // Trigger notification check after update
   if (updates.userId) {
     triggerNotificationCheck(updates.userId).catch(err => {
@@ -499,10 +547,12 @@ export const completeTask = async (id: string, userId?: string): Promise<void> =
  * ✅ OPTIMIZED: Delete task with cache invalidation
  */
 export const deleteTask = async (id: string, userId?: string): Promise<void> => {
-  await deleteDoc(doc(db, TASKS_COLLECTION, id));
+  await syncedDelete(TASKS_COLLECTION, id);
   
   // ✅ Invalidate cache after deletion
   clearTaskCache();
+  RAGIndexingHooks.onTaskDeleted(id, userId);
+  cancelTaskReminders(id);
   
   // Trigger notification check after deletion
   if (userId) {
@@ -568,49 +618,170 @@ export const getTaskStats = async (
 };
 
 /**
- * ✅ NEW: Batch create multiple tasks efficiently
+ * ✅ NEW: Batch create multiple tasks efficiently.
+ * Each batch of up to BATCH_LIMIT tasks is written all or nothing, so a
+ * recurring series is never left half created.
  */
 export const batchCreateTasks = async (
   tasks: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>[]
 ): Promise<Task[]> => {
   const now = Timestamp.now();
-  const createdTasks: Task[] = [];
+  const createdTasks: Task[] = tasks.map((task) => ({
+    ...task,
+    id: doc(collection(db, TASKS_COLLECTION)).id,
+    createdAt: now.toDate(),
+    updatedAt: now.toDate(),
+  }));
+
+  for (let i = 0; i < createdTasks.length; i += BATCH_LIMIT) {
+    await syncedSetMany(
+      TASKS_COLLECTION,
+      createdTasks.slice(i, i + BATCH_LIMIT).map((task) => ({ id: task.id, data: serializeNewTask(task, now) }))
+    );
+  }
+
+  clearTaskCache();
+  createdTasks.forEach((task) => {
+    RAGIndexingHooks.onTaskCreated(task);
+    scheduleTaskReminders(task);
+  });
+  return createdTasks;
+};
+
+// Fields that "this and following" / "whole series" edits copy to other occurrences
+const SERIES_FIELDS = ['title', 'description', 'courseId', 'type', 'priority', 'estimatedHours', 'reminderOffsets'] as const;
+
+/**
+ * Create every occurrence of a recurring task in one go.
+ * Anchored series follow the class slot's weekday and start time.
+ */
+export const createRecurringTask = async (
+  task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>,
+  rule: RecurrenceRule,
+  anchor?: TimetableEntry
+): Promise<Task[]> => {
+  const dates = getOccurrenceDates(task.dueDate, rule, anchor);
+  if (dates.length === 0) {
+    throw new Error('This repeat rule does not produce any occurrences');
+  }
+
+  const seriesId = doc(collection(db, TASKS_COLLECTION)).id;
+  const recurrence: RecurrenceRule = anchor
+    ? { ...rule, frequency: 'weekly', daysOfWeek: [anchor.dayOfWeek], timetableEntryId: anchor.id }
+    : rule;
+  const reminderOffset = task.reminderDate ? task.dueDate.getTime() - task.reminderDate.getTime() : null;
+
+  const created = await batchCreateTasks(
+    dates.map((dueDate, index) => ({
+      ...task,
+      dueDate,
+      reminderDate: reminderOffset !== null ? new Date(dueDate.getTime() - reminderOffset) : undefined,
+      subtasks: task.subtasks?.map((subtask) => ({
+        ...subtask,
+        id: `${subtask.id}-${index}`,
+        done: false,
+        completedAt: undefined,
+      })),
+      completedHours: task.subtasks?.length ? 0 : task.completedHours,
+      seriesId,
+      occurrenceIndex: index,
+      recurrence,
+    }))
+  );
+
+  console.log('[TaskService] Created recurring series', seriesId, 'with', created.length, 'occurrences');
+
+  triggerNotificationCheck(task.userId).catch(err => {
+    console.error('Failed to trigger notification check:', err);
+  });
+
+  return created.sort((a, b) => (a.occurrenceIndex ?? 0) - (b.occurrenceIndex ?? 0));
+};
+
+/**
+ * Occurrences of a series that an edit or delete with the given scope touches
+ */
+const getSeriesTargets = async (task: Task, scope: SeriesEditScope): Promise<Task[]> => {
+  if (scope === 'this' || !task.seriesId) return [task];
+
+  const tasks = await getTasks(task.userId, false);
+  return tasks.filter(
+    (t) =>
+      t.seriesId === task.seriesId &&
+      (scope === 'all' || (t.occurrenceIndex ?? 0) >= (task.occurrenceIndex ?? 0))
+  );
+};
+
+/**
+ * Edit one occurrence, it and the following ones, or the whole series.
+ * Other occurrences get the shared fields; a due date change shifts them by the same amount.
+ */
+export const updateTaskSeries = async (
+  task: Task,
+  updates: Partial<Task>,
+  scope: SeriesEditScope
+): Promise<void> => {
+  const targets = await getSeriesTargets(task, scope);
+  const { userId, ...changes } = updates;
+  const shift = updates.dueDate ? updates.dueDate.getTime() - task.dueDate.getTime() : 0;
+  // A custom reminder keeps the same lead time before each occurrence's due date
+  const reminderLead = 'reminderDate' in changes
+    ? changes.reminderDate
+      ? (changes.dueDate || task.dueDate).getTime() - changes.reminderDate.getTime()
+      : null
+    : undefined;
 
-  // Create all tasks in parallel
   await Promise.all(
-    tasks.map(async (task) => {
-      const taskRef = doc(collection(db, TASKS_COLLECTION));
-      const newTask: Task = {
-        ...task,
-        id: taskRef.id,
-        createdAt: now.toDate(),
-        updatedAt: now.toDate(),
-      };
-
-      await setDoc(taskRef, {
-        userId: newTask.userId,
-        courseId: newTask.courseId,
-        title: newTask.title,
-        description: newTask.description || null,
-        type: newTask.type,
-        priority: newTask.priority,
-        status: newTask.status,
-        dueDate: Timestamp.fromDate(task.dueDate),
-        estimatedHours: newTask.estimatedHours || null,
-        completedHours: newTask.completedHours || null,
-        reminderDate: task.reminderDate
-          ? Timestamp.fromDate(task.reminderDate)
-          : null,
-        createdAt: now,
-        updatedAt: now,
+    targets.map((target) => {
+      if (target.id === task.id) {
+        return updateTask(target.id, changes);
+      }
+
+      const shared: Partial<Task> = {};
+      SERIES_FIELDS.forEach((key) => {
+        if (key in changes && (changes[key] !== undefined || key === 'reminderOffsets')) {
+          (shared as any)[key] = changes[key];
+        }
       });
-
-      createdTasks.push(newTask);
+      if (shift !== 0) {
+        shared.dueDate = new Date(target.dueDate.getTime() + shift);
+      }
+      if (reminderLead !== undefined) {
+        const dueDate = shared.dueDate || target.dueDate;
+        shared.reminderDate = reminderLead !== null ? new Date(dueDate.getTime() - reminderLead) : undefined;
+      } else if (shift !== 0 && target.reminderDate) {
+        shared.reminderDate = new Date(target.reminderDate.getTime() + shift);
+      }
+
+      return Object.keys(shared).length > 0 ? updateTask(target.id, shared) : Promise.resolve();
     })
   );
 
+  console.log('[TaskService] Updated', targets.length, 'occurrence(s) of series', task.seriesId, `(${scope})`);
+
+  triggerNotificationCheck(userId || task.userId).catch(err => {
+    console.error('Failed to trigger notification check:', err);
+  });
+};
+
+/**
+ * Delete one occurrence, it and the following ones, or the whole series
+ */
+export const deleteTaskSeries = async (task: Task, scope: SeriesEditScope): Promise<void> => {
+  const targets = await getSeriesTargets(task, scope);
+
+  await syncedDeleteMany(TASKS_COLLECTION, targets.map((target) => target.id));
+
   clearTaskCache();
-  return createdTasks;
+  targets.forEach((target) => {
+    RAGIndexingHooks.onTaskDeleted(target.id, target.userId);
+    cancelTaskReminders(target.id);
+  });
+  console.log('[TaskService] Deleted', targets.length, 'occurrence(s) of series', task.seriesId, `(${scope})`);
+
+  triggerNotificationCheck(task.userId).catch(err => {
+    console.error('Failed to trigger notification check:', err);
+  });
 };
 
 export default {
@@ -627,5 +798,8 @@ export default {
   deleteTask,
   getTaskStats,
   batchCreateTasks,
+  createRecurringTask,
+  updateTaskSeries,
+  deleteTaskSeries,
   clearTaskCache,
 };
@@ -0,0 +1,110 @@
+/**
+ * Timetable Import Service
+ * On-device pipeline: image (ML Kit OCR) or PDF (text layer) → text → candidate rows → Firestore
+ *
+ * Nothing leaves the device: images are recognised with ML Kit and PDFs are
+ * read locally. Scanned PDFs have no text layer - users are asked to upload a
+ * photo/screenshot of the page instead.
+ */
+
+import TextRecognition, { TextRecognitionResult } from '@react-native-ml-kit/text-recognition';
+import { Course } from '../../types';
+import { extractTextFromPdf } from '../pdfText';
+import { createTimetableEntry, getTimetableEntries } from '../timetableServiceFirestore';
+import { isExistingEntry, parseTimetableText, TimetableImportCandidate } from './timetableParser';
+
+export type TimetableSourceKind = 'image' | 'pdf';
+
+const ROW_TOLERANCE = 0.6; // fraction of line height treated as the same table row
+
+/**
+ * Rebuild table rows from OCR lines using their bounding boxes so that
+ * columns of a grid timetable stay on one line, separated by " | "
+ */
+export const ocrResultToText = (result: TextRecognitionResult): string => {
+  const lines = result.blocks.flatMap((block) => block.lines).filter((line) => line.text.trim());
+  if (lines.length === 0 || lines.some((line) => !line.frame)) {
+    return result.text;
+  }
+
+  const sorted = [...lines].sort((a, b) => a.frame!.top - b.frame!.top);
+  const rows: (typeof lines)[] = [];
+
+  sorted.forEach((line) => {
+    const center = line.frame!.top + line.frame!.height / 2;
+    const row = rows.find((r) => {
+      const ref = r[0].frame!;
+      return Math.abs(ref.top + ref.height / 2 - center) <= ref.height * ROW_TOLERANCE;
+    });
+    if (row) {
+      row.push(line);
+    } else {
+      rows.push([line]);
+    }
+  });
+
+  return rows
+    .map((row) =>
+      row
+        .sort((a, b) => a.frame!.left - b.frame!.left)
+        .map((line) => line.text.trim())
+        .join(' | ')
+    )
+    .join('\n');
+};
+
+/**
+ * Run on-device OCR on a timetable photo/screenshot
+ */
+export const extractTextFromImage = async (uri: string): Promise<string> => {
+  const result = await TextRecognition.recognize(uri);
+  return ocrResultToText(result);
+};
+
+/**
+ * Extract text from a picked file and parse it into candidate rows
+ */
+export const analyzeTimetableFile = async (
+  uri: string,
+  kind: TimetableSourceKind,
+  courses: Course[]
+): Promise<{ text: string; candidates: TimetableImportCandidate[] }> => {
+  const text = kind === 'pdf' ? await extractTextFromPdf(uri) : await extractTextFromImage(uri);
+  console.log('[TimetableImport] Extracted', text.length, 'characters from', kind);
+
+  return { text, candidates: parseTimetableText(text, courses) };
+};
+
+/**
+ * Create the confirmed rows, skipping classes already in the timetable
+ */
+export const importTimetableCandidates = async (
+  userId: string,
+  candidates: TimetableImportCandidate[]
+): Promise<{ created: number; skipped: number }> => {
+  const existing = await getTimetableEntries(userId);
+  const confirmed = candidates.filter((candidate) => candidate.include && candidate.courseId);
+  let created = 0;
+  let skipped = candidates.length - confirmed.length;
+
+  for (const candidate of confirmed) {
+    if (isExistingEntry(candidate, existing)) {
+      skipped++;
+      continue;
+    }
+
+    await createTimetableEntry({
+      userId,
+      courseId: candidate.courseId!,
+      dayOfWeek: candidate.dayOfWeek,
+      startTime: candidate.startTime,
+      endTime: candidate.endTime,
+      location: candidate.location,
+      type: candidate.type,
+    });
+    created++;
+  }
+
+  console.log('[TimetableImport] Created', created, 'entries, skipped', skipped);
+  return { created, skipped };
+};
@@ -0,0 +1,278 @@
+/**
+ * Timetable Text Parser
+ * Turns text extracted from a timetable image/PDF into candidate TimetableEntry rows
+ *
+ * Supports:
+ * - One class per line ("Mon 08:00-10:00 CS1012 Lecture Hall A")
+ * - Day headings followed by class lines ("MONDAY" / "8.00 - 10.00 IT2020 Lab 3")
+ * - Grids with a day header row and column separators (" | ", tabs or wide gaps)
+ *
+ * Pure module (no I/O); `npm test` runs it against the sample timetables in
+ * scripts/fixtures/timetables.js.
+ */
+
+import { Course, TimetableEntry } from '../../types';
+
+export type ClassType = NonNullable<TimetableEntry['type']>;
+
+export interface TimetableImportCandidate {
+  id: string;
+  dayOfWeek: number; // 0=Sunday, 6=Saturday
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  courseCode?: string;
+  courseId?: string;
+  location?: string;
+  type: ClassType;
+  confidence: 'high' | 'medium' | 'low';
+  sourceLine: string;
+  include: boolean;
+}
+
+const DAY_PATTERNS: { day: number; pattern: RegExp }[] = [
+  { day: 0, pattern: /\b(sun(day)?)\b/i },
+  { day: 1, pattern: /\b(mon(day)?)\b/i },
+  { day: 2, pattern: /\b(tue(s|sday)?)\b/i },
+  { day: 3, pattern: /\b(wed(nesday)?)\b/i },
+  { day: 4, pattern: /\b(thu(r|rs|rsday)?)\b/i },
+  { day: 5, pattern: /\b(fri(day)?)\b/i },
+  { day: 6, pattern: /\b(sat(urday)?)\b/i },
+];
+
+// 08:00, 8.00, 8:00am, 8 am, 14h00
+const TIME_TOKEN = String.raw`(\d{1,2})(?:[:.h](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?`;
+const TIME_RANGE = new RegExp(`\\b${TIME_TOKEN}\\s*(?:-|–|—|to)\\s*${TIME_TOKEN}(?!\\d)`, 'i');
+// Venue codes share the letters-and-digits shape ("LH 201", "LAB 305")
+const VENUE_PREFIX = String.raw`(?:LH|LT|LAB|RM|ROOM|HALL|AUD|BLDG|BLOCK)`;
+const COURSE_CODE = new RegExp(String.raw`\b(?!${VENUE_PREFIX}\s?-?\s?\d)([A-Z]{2,5})\s?-?\s?(\d{3,5}[A-Z]?)\b`);
+const TYPE_PATTERNS: { type: ClassType; pattern: RegExp }[] = [
+  { type: 'lab', pattern: /\b(lab|laboratory|practical|prac)\b/i },
+  { type: 'tutorial', pattern: /\b(tutorial|tut|tute|seminar)\b/i },
+  { type: 'lecture', pattern: /\b(lecture|lec|lect)\b/i },
+];
+const COLUMN_SEPARATOR = /\s*\|\s*|\t+|\s{3,}/;
+const LOCATION_PATTERN = /\b((?:lecture hall|lab|room|hall|lh|lt|auditorium|building|bldg)\s*-?\s*[A-Z]?\d+[A-Z]?)\b/i;
+
+/**
+ * Normalize a course code for comparison ("cs 1012" → "CS1012")
+ */
+export const normalizeCourseCode = (code: string): string =>
+  code.toUpperCase().replace(/[\s-]/g, '');
+
+/**
+ * Find a course code in free text ("CS 1012 Lecture" → "CS1012")
+ */
+export const extractCourseCode = (text: string): string | undefined => {
+  const match = text.match(COURSE_CODE);
+  return match ? normalizeCourseCode(`${match[1]}${match[2]}`) : undefined;
+};
+
+const detectDays = (text: string): number[] =>
+  DAY_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ day }) => day);
+
+const to24Hour = (hour: number, minute: number, meridiem?: string): number => {
+  let h = hour;
+  const suffix = meridiem?.toLowerCase().replace(/\./g, '');
+  if (suffix === 'pm' && h < 12) h += 12;
+  if (suffix === 'am' && h === 12) h = 0;
+  return h * 60 + minute;
+};
+
+const formatTime = (minutes: number): string =>
+  `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Parse a time range; afternoon classes written without am/pm ("1.00-3.00")
+ * are shifted to the afternoon since lectures rarely start before 7am
+ */
+const parseTimeRange = (text: string): { startTime: string; endTime: string; match: string } | null => {
+  const match = text.match(TIME_RANGE);
+  if (!match) return null;
+
+  const [full, sh, sm, sMer, eh, em, eMer] = match;
+  const endMeridiem = eMer;
+  const startMeridiem = sMer || (eMer && Number(sh) <= Number(eh) ? eMer : undefined);
+
+  let start = to24Hour(Number(sh), Number(sm || 0), startMeridiem);
+  let end = to24Hour(Number(eh), Number(em || 0), endMeridiem);
+
+  if (!startMeridiem && start < 7 * 60) start += 12 * 60;
+  if (!endMeridiem && end < 7 * 60) end += 12 * 60;
+  if (end <= start || end > 24 * 60) return null;
+
+  return { startTime: formatTime(start), endTime: formatTime(end), match: full };
+};
+
+/**
+ * Detect the class type from keywords, defaulting to a lecture
+ */
+export const detectType = (text: string): { type: ClassType; matched: boolean } => {
+  for (const { type, pattern } of TYPE_PATTERNS) {
+    if (pattern.test(text)) return { type, matched: true };
+  }
+  return { type: 'lecture', matched: false };
+};
+
+/**
+ * Find the course for a code, falling back to the course name appearing in the text
+ */
+export const matchCourse = (
+  text: string,
+  courseCode: string | undefined,
+  courses: Course[]
+): Course | undefined => {
+  if (courseCode) {
+    const normalized = normalizeCourseCode(courseCode);
+    const byCode = courses.find((course) => normalizeCourseCode(course.code) === normalized);
+    if (byCode) return byCode;
+  }
+
+  const lower = text.toLowerCase();
+  return courses.find((course) => course.name.length >= 4 && lower.includes(course.name.toLowerCase()));
+};
+
+/**
+ * Use an explicit "Room 5" / "Lab 3" style venue, otherwise whatever is left
+ * after removing day, time, code and type words is treated as the location
+ */
+const extractLocation = (text: string, removals: string[]): string | undefined => {
+  const explicit = text.match(LOCATION_PATTERN);
+  if (explicit) return explicit[1].replace(/\s+/g, ' ');
+
+  let rest = text;
+  removals.filter(Boolean).forEach((token) => {
+    rest = rest.replace(token, ' ');
+  });
+  DAY_PATTERNS.forEach(({ pattern }) => {
+    rest = rest.replace(pattern, ' ');
+  });
+  TYPE_PATTERNS.forEach(({ pattern }) => {
+    rest = rest.replace(pattern, ' ');
+  });
+
+  const location = rest
+    .replace(/[|()[\],;@]/g, ' ')
+    .replace(/\b(room|venue|at)\b[:\s]*/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return location.length >= 2 ? location : undefined;
+};
+
+const buildCandidate = (
+  dayOfWeek: number,
+  times: { startTime: string; endTime: string; match: string },
+  cellText: string,
+  sourceLine: string,
+  courses: Course[],
+  index: number
+): TimetableImportCandidate => {
+  const codeMatch = cellText.match(COURSE_CODE);
+  const courseCode = codeMatch ? normalizeCourseCode(`${codeMatch[1]}${codeMatch[2]}`) : undefined;
+  const course = matchCourse(cellText, courseCode, courses);
+  const { type, matched: typeMatched } = detectType(cellText);
+  const location = extractLocation(cellText, [times.match, codeMatch?.[0] || '', course?.name || '']);
+
+  const confidence: TimetableImportCandidate['confidence'] =
+    course && typeMatched ? 'high' : course || courseCode ? 'medium' : 'low';
+
+  return {
+    id: `import_${index}`,
+    dayOfWeek,
+    startTime: times.startTime,
+    endTime: times.endTime,
+    courseCode: courseCode || course?.code,
+    courseId: course?.id,
+    location,
+    type,
+    confidence,
+    sourceLine,
+    include: confidence !== 'low',
+  };
+};
+
+/**
+ * Parse extracted timetable text into candidate rows
+ */
+export const parseTimetableText = (
+  text: string,
+  courses: Course[] = []
+): TimetableImportCandidate[] => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const candidates: TimetableImportCandidate[] = [];
+  let currentDay: number | null = null;
+  let gridDays: (number | null)[] | null = null;
+
+  lines.forEach((line) => {
+    const columns = line.split(COLUMN_SEPARATOR).map((col) => col.trim());
+    const lineDays = detectDays(line);
+    const times = parseTimeRange(line);
+
+    // Grid header: several day names in separate columns
+    if (!times && columns.length > 2 && lineDays.length >= 2) {
+      gridDays = columns.map((col) => detectDays(col)[0] ?? null);
+      currentDay = null;
+      return;
+    }
+
+    // Day heading on its own line
+    if (!times && lineDays.length === 1 && line.length <= 20) {
+      currentDay = lineDays[0];
+      gridDays = null;
+      return;
+    }
+
+    if (!times) return;
+
+    // Grid row: time in one column, classes under the day columns
+    if (gridDays && columns.length > 1) {
+      const days = gridDays;
+      columns.forEach((cell, colIndex) => {
+        const day = days[colIndex];
+        if (day === null || day === undefined || !cell || parseTimeRange(cell)) return;
+        if (!COURSE_CODE.test(cell) && !matchCourse(cell, undefined, courses)) return;
+        candidates.push(buildCandidate(day, times, cell, line, courses, candidates.length));
+      });
+      return;
+    }
+
+    // Single-line entry, using the inline day or the last day heading
+    const day = lineDays.length > 0 ? lineDays[0] : currentDay;
+    if (day === null) return;
+
+    candidates.push(buildCandidate(day, times, line, line, courses, candidates.length));
+  });
+
+  return dedupeCandidates(candidates);
+};
+
+/**
+ * Drop rows that describe the same class twice (common with OCR of repeated headers)
+ */
+const dedupeCandidates = (candidates: TimetableImportCandidate[]): TimetableImportCandidate[] => {
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    const key = `${candidate.dayOfWeek}_${candidate.startTime}_${candidate.endTime}_${candidate.courseCode || candidate.sourceLine}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Check whether a candidate already exists in the user's timetable
+ */
+export const isExistingEntry = (
+  candidate: Pick<TimetableImportCandidate, 'dayOfWeek' | 'startTime' | 'courseId'>,
+  existing: TimetableEntry[]
+): boolean =>
+  existing.some(
+    (entry) =>
+      entry.dayOfWeek === candidate.dayOfWeek &&
+      entry.startTime === candidate.startTime &&
+      entry.courseId === candidate.courseId
+  );
@@ -1,15 +1,13 @@
 import {
-    addDoc,
     collection,
-    deleteDoc,
     doc,
     getDocs,
     query,
-    updateDoc,
     where,
 } from 'firebase/firestore';
 import { db } from '../firebase/firebaseint';
 import { TimetableEntry } from '../types';
+import { syncedDelete, syncedQuery, syncedSet, syncedUpdate } from './sync/syncService';
 
 const COLLECTION_NAME = 'timetable';
 
@@ -19,13 +17,15 @@ const COLLECTION_NAME = 'timetable';
 export const getTimetableEntries = async (userId: string): Promise<TimetableEntry[]> => {
   try {
     const q = query(collection(db, COLLECTION_NAME), where('userId', '==', userId));
-    const querySnapshot = await getDocs(q);
+    const docs = await syncedQuery(COLLECTION_NAME, userId, async () => {
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+    });
 
     const entries: TimetableEntry[] = [];
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
+    docs.forEach(({ id, data }) => {
       entries.push({
-        id: doc.id,
+        id,
         userId: data.userId,
         courseId: data.courseId,
         dayOfWeek: data.dayOfWeek,
@@ -33,6 +33,7 @@ export const getTimetableEntries = async (userId: string): Promise<TimetableEntr
         endTime: data.endTime,
         location: data.location,
         type: data.type,
+        externalUid: data.externalUid,
         createdAt: data.createdAt?.toDate() || new Date(),
       });
     });
@@ -59,13 +60,17 @@ export const createTimetableEntry = async (
       startTime: entry.startTime,
       endTime: entry.endTime,
       createdAt: new Date(),
+      updatedAt: new Date(),
     };
     
     // Only add optional fields if they have values
     if (entry.location) cleanEntry.location = entry.location;
     if (entry.type) cleanEntry.type = entry.type;
+    if (entry.externalUid) cleanEntry.externalUid = entry.externalUid;
 
-    const docRef = await addDoc(collection(db, COLLECTION_NAME), cleanEntry);
+    // Generate the ID locally so the entry can be created offline
+    const docRef = doc(collection(db, COLLECTION_NAME));
+    await syncedSet(COLLECTION_NAME, docRef.id, cleanEntry);
     return docRef.id;
   } catch (error) {
     console.error('Error creating timetable entry:', error);
@@ -82,7 +87,7 @@ export const updateTimetableEntry = async (
 ): Promise<void> => {
   try {
     // Remove undefined fields before updating
-    const cleanUpdates: any = {};
+    const cleanUpdates: any = { updatedAt: new Date() };
     if (updates.courseId !== undefined) cleanUpdates.courseId = updates.courseId;
     if (updates.dayOfWeek !== undefined) cleanUpdates.dayOfWeek = updates.dayOfWeek;
     if (updates.startTime !== undefined) cleanUpdates.startTime = updates.startTime;
@@ -90,8 +95,7 @@ export const updateTimetableEntry = async (
     if (updates.location !== undefined) cleanUpdates.location = updates.location;
     if (updates.type !== undefined) cleanUpdates.type = updates.type;
 
-    const docRef = doc(db, COLLECTION_NAME, entryId);
-    await updateDoc(docRef, cleanUpdates);
+    await syncedUpdate(COLLECTION_NAME, entryId, cleanUpdates);
   } catch (error) {
     console.error('Error updating timetable entry:', error);
     throw error;
@@ -103,8 +107,7 @@ export const updateTimetableEntry = async (
  */
 export const deleteTimetableEntry = async (entryId: string): Promise<void> => {
   try {
-    const docRef = doc(db, COLLECTION_NAME, entryId);
-    await deleteDoc(docRef);
+    await syncedDelete(COLLECTION_NAME, entryId);
   } catch (error) {
     console.error('Error deleting timetable entry:', error);
     throw error;
@@ -0,0 +1,112 @@
+/**
+ * User Settings Service
+ * App-wide preferences (theme, language, study preferences) stored per user
+ * in Firestore, so they follow the user to a new device.
+ *
+ * The theme and language are also kept on the device so the app opens in
+ * the right colors and language before anyone has signed in.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc } from 'firebase/firestore';
+import { NOTIFICATION_CONFIG, SESSION_MODE_CONFIG, STUDY_CONFIG } from '../constants/config';
+import { db } from '../firebase/firebaseint';
+import { UserSettings } from '../types';
+import { syncedGet, syncedSet } from './sync/syncService';
+
+const USER_SETTINGS_COLLECTION = 'userSettings';
+const LOCAL_THEME_KEY = '@theme_preference';
+const LOCAL_LANGUAGE_KEY = '@language_preference';
+
+export type ThemePreference = UserSettings['theme'];
+export type LanguagePreference = UserSettings['language'];
+
+export const getDefaultUserSettings = (userId: string): UserSettings => ({
+  userId,
+  notifications: {
+    enabled: true,
+    deadlineReminder: true,
+    studyReminder: true,
+    achievements: NOTIFICATION_CONFIG.achievementNotifications,
+  },
+  studyPreferences: {
+    dailyStudyGoal: STUDY_CONFIG.defaultDailyStudyGoal,
+    preferredStudyTime: 'evening',
+    breakInterval: SESSION_MODE_CONFIG.pomodoro.workMinutes,
+  },
+  theme: 'auto',
+  language: 'en',
+});
+
+/**
+ * A user's settings, with defaults for anything never saved
+ */
+export const getUserSettings = async (userId: string): Promise<UserSettings> => {
+  const data = await syncedGet(USER_SETTINGS_COLLECTION, userId, async () => {
+    const settingsDoc = await getDoc(doc(db, USER_SETTINGS_COLLECTION, userId));
+    return settingsDoc.exists() ? settingsDoc.data() : null;
+  });
+
+  const defaults = getDefaultUserSettings(userId);
+  if (!data) return defaults;
+
+  return {
+    ...defaults,
+    ...data,
+    userId,
+    notifications: { ...defaults.notifications, ...data.notifications },
+    studyPreferences: { ...defaults.studyPreferences, ...data.studyPreferences },
+  };
+};
+
+/**
+ * Save changes to a user's settings
+ */
+export const updateUserSettings = async (
+  userId: string,
+  updates: Partial<Omit<UserSettings, 'userId'>>
+): Promise<UserSettings> => {
+  const settings = { ...(await getUserSettings(userId)), ...updates, userId };
+  await syncedSet(USER_SETTINGS_COLLECTION, userId, settings);
+
+  if (updates.theme) {
+    await saveLocalThemePreference(updates.theme);
+  }
+  if (updates.language) {
+    await saveLocalLanguagePreference(updates.language);
+  }
+
+  return settings;
+};
+
+/**
+ * Theme last used on this device
+ */
+export const getLocalThemePreference = async (): Promise<ThemePreference | null> => {
+  const value = await AsyncStorage.getItem(LOCAL_THEME_KEY);
+  return value === 'light' || value === 'dark' || value === 'auto' ? value : null;
+};
+
+export const saveLocalThemePreference = (theme: ThemePreference): Promise<void> =>
+  AsyncStorage.setItem(LOCAL_THEME_KEY, theme);
+
+/**
+ * Language last used on this device
+ */
+export const getLocalLanguagePreference = async (): Promise<LanguagePreference | null> => {
+  const value = await AsyncStorage.getItem(LOCAL_LANGUAGE_KEY);
+  return value === 'en' || value === 'si' || value === 'ta' ? value : null;
+};
+
+export const saveLocalLanguagePreference = (language: LanguagePreference): Promise<void> =>
+  AsyncStorage.setItem(LOCAL_LANGUAGE_KEY, language);
+
+export default {
+  getDefaultUserSettings,
+  getUserSettings,
+  updateUserSettings,
+  getLocalThemePreference,
+  saveLocalThemePreference,
+  getLocalLanguagePreference,
+  saveLocalLanguagePreference,
+};
@@ -0,0 +1,306 @@
+/**
+ * Weekly Summary Service
+ * Builds the weekly review (study hours per course, tasks completed vs.
+ * overdue, effectiveness, burnout score and peak hours) and keeps each week
+ * as a snapshot so reports can compare one week with the next.
+ *
+ * A week runs up to the delivery time the user picked in notification
+ * settings, so the snapshot a notification describes is the one stored.
+ */
+
+import {
+    collection,
+    getDocs,
+    query,
+    Timestamp,
+    where,
+} from 'firebase/firestore';
+import { WEEKLY_SUMMARY_CONFIG } from '../constants/config';
+import { db } from '../firebase/firebaseint';
+import { WeeklySummary } from '../types';
+import { NotificationSettings } from '../types/notification';
+import { analyzeBurnoutRisk, getCachedBurnoutAnalysis } from './burnoutDetector';
+import { getCourses } from './courseServiceFirestore';
+import { formatTime, t } from './i18n/i18nService';
+import { analyzePeakTimes, getCachedPeakTimeAnalysis } from './peakTimeAnalyzer';
+import { getStudyHoursPerDay, getStudySessions } from './studyServiceFirestore';
+import { syncedQuery, syncedSet } from './sync/syncService';
+import { getTaskStats } from './taskServiceFirestore';
+
+const WEEKLY_SUMMARIES_COLLECTION = 'weeklySummaries';
+
+export interface WeekComparison {
+  hours: number | null;
+  sessions: number | null;
+  tasksCompleted: number | null;
+  tasksOverdue: number | null;
+  effectiveness: number | null;
+  burnoutScore: number | null;
+}
+
+const round = (value: number, places = 1): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+// Local calendar date, so a week ending late on Sunday isn't keyed as Monday
+const toWeekKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const toSummary = (id: string, data: any): WeeklySummary => ({
+  id,
+  userId: data.userId,
+  weekKey: data.weekKey,
+  weekStart: data.weekStart.toDate(),
+  weekEnd: data.weekEnd.toDate(),
+  totalHours: data.totalHours,
+  sessionCount: data.sessionCount,
+  dailyHours: data.dailyHours || [],
+  courseHours: data.courseHours || [],
+  tasksCompleted: data.tasksCompleted ?? null,
+  tasksCompletedTotal: data.tasksCompletedTotal,
+  tasksOverdue: data.tasksOverdue,
+  averageEffectiveness: data.averageEffectiveness ?? null,
+  burnoutScore: data.burnoutScore ?? null,
+  peakHours: data.peakHours || [],
+  createdAt: data.createdAt.toDate(),
+});
+
+/**
+ * The most recent delivery time at or before `now`
+ */
+export const getLastDeliveryTime = (
+  settings: Pick<NotificationSettings, 'weeklySummaryDay' | 'weeklySummaryTime'>,
+  now: Date = new Date()
+): Date => {
+  const [hours, minutes] = settings.weeklySummaryTime.split(':').map(Number);
+  const delivery = new Date(now);
+  delivery.setHours(hours || 0, minutes || 0, 0, 0);
+  delivery.setDate(delivery.getDate() - ((now.getDay() - settings.weeklySummaryDay + 7) % 7));
+  if (delivery > now) {
+    delivery.setDate(delivery.getDate() - 7);
+  }
+  return delivery;
+};
+
+/**
+ * Saved snapshots, newest first
+ */
+export const getWeeklySummaries = async (
+  userId: string,
+  limit: number = WEEKLY_SUMMARY_CONFIG.historyWeeks
+): Promise<WeeklySummary[]> => {
+  const q = query(collection(db, WEEKLY_SUMMARIES_COLLECTION), where('userId', '==', userId));
+  const docs = await syncedQuery(WEEKLY_SUMMARIES_COLLECTION, userId, async () => {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  });
+
+  return docs
+    .map(({ id, data }) => toSummary(id, data))
+    .sort((a, b) => b.weekEnd.getTime() - a.weekEnd.getTime())
+    .slice(0, limit);
+};
+
+/**
+ * Build the summary of the 7 days up to `weekEnd`. `previous` is the
+ * snapshot before it, which weekly task completions are counted from.
+ * Nothing is saved.
+ */
+export const buildWeeklySummary = async (
+  userId: string,
+  weekEnd: Date = new Date(),
+  previous?: WeeklySummary | null
+): Promise<WeeklySummary> => {
+  const weekStart = new Date(weekEnd);
+  weekStart.setDate(weekStart.getDate() - 7);
+
+  const [days, sessions, courses, taskStats, burnout, peakTimes] = await Promise.all([
+    getStudyHoursPerDay(userId, 7, weekEnd),
+    getStudySessions(userId, weekStart, weekEnd),
+    getCourses(userId),
+    getTaskStats(userId),
+    getCachedBurnoutAnalysis(userId)
+      .then((cached) => cached || analyzeBurnoutRisk(userId))
+      .catch((error) => {
+        console.error('[WeeklySummary] Burnout analysis failed:', error);
+        return null;
+      }),
+    getCachedPeakTimeAnalysis(userId)
+      .then((cached) => cached || analyzePeakTimes(userId))
+      .catch((error) => {
+        console.error('[WeeklySummary] Peak time analysis failed:', error);
+        return null;
+      }),
+  ]);
+
+  const hoursByCourse: Record<string, number> = {};
+  days.forEach((day) => {
+    Object.entries(day.courseHours).forEach(([courseId, hours]) => {
+      hoursByCourse[courseId] = (hoursByCourse[courseId] || 0) + hours;
+    });
+  });
+
+  const rated = sessions.filter((session) => session.effectiveness);
+  const averageEffectiveness = rated.length > 0
+    ? round(rated.reduce((sum, session) => sum + (session.effectiveness || 0), 0) / rated.length)
+    : null;
+
+  const weekKey = toWeekKey(weekEnd);
+
+  return {
+    id: `${userId}_${weekKey}`,
+    userId,
+    weekKey,
+    weekStart,
+    weekEnd,
+    totalHours: round(days.reduce((sum, day) => sum + day.hours, 0)),
+    sessionCount: sessions.length,
+    dailyHours: days.map((day) => ({ date: day.date, hours: round(day.hours) })),
+    courseHours: Object.entries(hoursByCourse)
+      .map(([courseId, hours]) => ({
+        courseId,
+        courseName: courses.find((course) => course.id === courseId)?.name || 'Other',
+        hours: round(hours),
+      }))
+      .sort((a, b) => b.hours - a.hours),
+    tasksCompleted: previous ? Math.max(0, taskStats.completed - previous.tasksCompletedTotal) : null,
+    tasksCompletedTotal: taskStats.completed,
+    tasksOverdue: taskStats.overdue,
+    averageEffectiveness,
+    burnoutScore: burnout ? burnout.riskScore : null,
+    peakHours: peakTimes ? peakTimes.peakHours : [],
+    createdAt: new Date(),
+  };
+};
+
+/**
+ * Store a snapshot. Ids are per user and week, so saving twice overwrites.
+ */
+export const saveWeeklySummary = async (summary: WeeklySummary): Promise<void> => {
+  await syncedSet(WEEKLY_SUMMARIES_COLLECTION, summary.id, {
+    userId: summary.userId,
+    weekKey: summary.weekKey,
+    weekStart: Timestamp.fromDate(summary.weekStart),
+    weekEnd: Timestamp.fromDate(summary.weekEnd),
+    totalHours: summary.totalHours,
+    sessionCount: summary.sessionCount,
+    dailyHours: summary.dailyHours,
+    courseHours: summary.courseHours,
+    tasksCompleted: summary.tasksCompleted,
+    tasksCompletedTotal: summary.tasksCompletedTotal,
+    tasksOverdue: summary.tasksOverdue,
+    averageEffectiveness: summary.averageEffectiveness,
+    burnoutScore: summary.burnoutScore,
+    peakHours: summary.peakHours,
+    createdAt: Timestamp.fromDate(summary.createdAt),
+  });
+};
+
+/**
+ * Build and save the snapshot for the latest delivery time if it hasn't
+ * been made yet. Returns it with the week before, or null when there is
+ * nothing new to deliver.
+ */
+export const createDueWeeklySummary = async (
+  userId: string,
+  settings: Pick<NotificationSettings, 'weeklySummaryDay' | 'weeklySummaryTime'>,
+  now: Date = new Date()
+): Promise<{ summary: WeeklySummary; previous: WeeklySummary | null } | null> => {
+  const weekEnd = getLastDeliveryTime(settings, now);
+  const history = await getWeeklySummaries(userId, 1);
+  const previous = history[0] || null;
+
+  if (previous && previous.weekKey === toWeekKey(weekEnd)) {
+    return null;
+  }
+
+  const summary = await buildWeeklySummary(userId, weekEnd, previous);
+  await saveWeeklySummary(summary);
+  console.log('[WeeklySummary] Saved snapshot', summary.weekKey);
+
+  return { summary, previous };
+};
+
+/**
+ * Week-over-week changes; null where either week has no value
+ */
+export const compareWeeks = (
+  current: WeeklySummary,
+  previous?: WeeklySummary | null
+): WeekComparison => {
+  const delta = (a: number | null, b: number | null | undefined) =>
+    a === null || b === null || b === undefined ? null : round(a - b);
+
+  return {
+    hours: delta(current.totalHours, previous?.totalHours),
+    sessions: delta(current.sessionCount, previous?.sessionCount),
+    tasksCompleted: delta(current.tasksCompleted, previous?.tasksCompleted),
+    tasksOverdue: delta(current.tasksOverdue, previous?.tasksOverdue),
+    effectiveness: delta(current.averageEffectiveness, previous?.averageEffectiveness),
+    burnoutScore: delta(current.burnoutScore, previous?.burnoutScore),
+  };
+};
+
+/**
+ * "3 PM" style label for an hour of the day, in the active language
+ */
+export const formatHour = (hour: number): string => {
+  const date = new Date();
+  date.setHours(hour, 0, 0, 0);
+  return formatTime(date, { hour: 'numeric' });
+};
+
+/**
+ * Notification text for a snapshot
+ */
+export const formatWeeklySummary = (summary: WeeklySummary, comparison: WeekComparison): string => {
+  const signed = (value: number, unit = '') => `${value > 0 ? '+' : ''}${value}${unit}`;
+  const lines: string[] = [];
+
+  let hoursLine = t('notifications.weeklySummary.hours', { count: summary.sessionCount, hours: summary.totalHours });
+  if (comparison.hours !== null && comparison.hours !== 0) {
+    hoursLine += ` (${signed(comparison.hours, 'h')})`;
+  }
+  lines.push(hoursLine);
+
+  if (summary.courseHours.length > 0) {
+    lines.push(
+      summary.courseHours
+        .slice(0, WEEKLY_SUMMARY_CONFIG.notificationCourses)
+        .map((course) => `${course.courseName} ${course.hours}h`)
+        .join(' · ')
+    );
+  }
+
+  const completed = summary.tasksCompleted ?? summary.tasksCompletedTotal;
+  lines.push(t('notifications.weeklySummary.tasks', { count: completed, overdue: summary.tasksOverdue }));
+
+  if (summary.averageEffectiveness !== null) {
+    const trend = comparison.effectiveness ? ` (${signed(comparison.effectiveness)})` : '';
+    lines.push(`${t('notifications.weeklySummary.effectiveness', { score: summary.averageEffectiveness })}${trend}`);
+  }
+
+  if (summary.burnoutScore !== null && comparison.burnoutScore) {
+    lines.push(
+      `${t('notifications.weeklySummary.burnout', { score: summary.burnoutScore })} (${signed(comparison.burnoutScore)})`
+    );
+  }
+
+  if (summary.peakHours.length > 0) {
+    lines.push(t('notifications.weeklySummary.peakHours', { hours: summary.peakHours.map(formatHour).join(', ') }));
+  }
+
+  return lines.join('\n');
+};
+
+export default {
+  getLastDeliveryTime,
+  getWeeklySummaries,
+  buildWeeklySummary,
+  saveWeeklySummary,
+  createDueWeeklySummary,
+  compareWeeks,
+  formatHour,
+  formatWeeklySummary,
+};
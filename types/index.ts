@@ -21,6 +21,8 @@ export interface Course {
   instructor?: string;
   color?: string;
   difficulty?: 1 | 2 | 3 | 4 | 5; // 1=Easy, 5=Hard
+  semester?: string; // e.g. "Y2S1", groups courses for the semester GPA
+  assessmentWeights?: AssessmentWeights;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,11 +63,82 @@ export interface Task {
   dueDate: Date;
   estimatedHours?: number;
   completedHours?: number;
-  reminderDate?: Date;
+  reminderDate?: Date; // custom reminder time
+  reminderOffsets?: number[]; // minutes before dueDate, e.g. 1440 = 1 day before
+  completedAt?: Date; // when the status last changed to completed
+  externalUid?: string; // iCalendar UID when imported from a .ics file
+  score?: number; // marks obtained
+  maxScore?: number; // marks available
+  weight?: number; // % of the course grade, overrides the type weight
+  subtasks?: Subtask[]; // ordered checklist, progress rolls up into completedHours
+  seriesId?: string; // shared by every occurrence of a recurring task
+  occurrenceIndex?: number; // 0-based position within the series
+  recurrence?: RecurrenceRule;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Recurring Task Types
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days / weeks
+  daysOfWeek?: number[]; // weekly only, 0=Sunday like TimetableEntry.dayOfWeek
+  until?: Date;
+  count?: number;
+  timetableEntryId?: string; // occurrences follow this class slot's day and start time
+}
+
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+export interface Subtask {
+  id: string;
+  title: string;
+  done: boolean;
+  estimatedHours?: number;
+  completedAt?: Date;
+}
+
+export interface TaskProgress {
+  completionPercentage: number;
+  estimatedHours: number;
+  completedHours: number;
+  remainingHours: number;
+  doneSubtasks: number;
+  totalSubtasks: number;
+}
+
+// Grade Types
+export type GradedTaskType = TaskType.EXAM | TaskType.QUIZ | TaskType.ASSIGNMENT | TaskType.PROJECT;
+
+export type AssessmentWeights = Partial<Record<GradedTaskType, number>>; // % of the final grade per task type
+
+export interface GradeBand {
+  letter: string;
+  minPercentage: number;
+  gradePoint: number;
+}
+
+export interface CourseGradeStats {
+  courseId: string;
+  percentage: number | null; // running average over graded work, null until something is graded
+  letter: string | null;
+  gradePoint: number | null;
+  earnedWeight: number; // weighted points already secured towards the final grade
+  gradedWeight: number; // weight of the assessments graded so far
+  remainingWeight: number;
+  gradedCount: number;
+}
+
+export interface GpaSummary {
+  semester: string | null;
+  semesterGpa: number | null;
+  cumulativeGpa: number | null;
+  semesterCredits: number;
+  totalCredits: number;
+}
+
 // Timetable Types
 export interface TimetableEntry {
   id: string;
@@ -76,10 +149,30 @@ export interface TimetableEntry {
   endTime: string;
   location?: string;
   type?: 'lecture' | 'lab' | 'tutorial';
+  externalUid?: string; // iCalendar UID when imported from a .ics file
   createdAt: Date;
 }
 
 // Study Session Types
+export type StudyMode = 'free' | 'pomodoro' | 'custom' | 'flow';
+
+export type StudySessionSource = 'timer' | 'manual';
+
+export type StudyPhase = 'work' | 'short_break' | 'long_break';
+
+export interface StudyCycle {
+  workMinutes: number; // 0 = open-ended (free and flow modes)
+  breakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // work intervals between long breaks, 0 = never
+}
+
+export interface StudyInterval {
+  startedAt: Date;
+  endedAt: Date;
+  minutes: number; // focused time, excluding pauses
+}
+
 export interface StudySession {
   id: string;
   userId: string;
@@ -89,8 +182,100 @@ export interface StudySession {
   duration: number; // minutes
   notes?: string;
   effectiveness?: 1 | 2 | 3 | 4 | 5; // self-rated
+  mode?: StudyMode;
+  intervals?: StudyInterval[]; // work intervals, breaks excluded
+  source?: StudySessionSource; // 'manual' = logged afterwards without the timer
   date: Date;
   createdAt: Date;
+  updatedAt?: Date; // set once the session is edited
+}
+
+// Flashcard Types
+export type FlashcardRating = 'again' | 'hard' | 'good' | 'easy';
+
+export type FlashcardSource = 'manual' | 'session' | 'material';
+
+export interface FlashcardDeck {
+  id: string;
+  userId: string;
+  courseId: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Spaced-repetition state, updated on every review
+export interface FlashcardSchedule {
+  dueAt: Date;
+  interval: number; // days; 0 while the card is being (re)learned
+  easeFactor: number; // interval multiplier, lowered by hard/again answers
+  repetitions: number; // successful reviews in a row
+  lapses: number; // times forgotten after being learned
+  lastReviewedAt?: Date;
+}
+
+export interface Flashcard extends FlashcardSchedule {
+  id: string;
+  userId: string;
+  deckId: string;
+  courseId: string;
+  front: string;
+  back: string;
+  source: FlashcardSource;
+  sourceId?: string; // study session or course material the card came from
+  sourceLabel?: string; // citation, e.g. "Lecture 5, p. 12"
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Quiz Types
+export type QuizQuestionType = 'multiple_choice' | 'short_answer';
+
+export type QuizSource = 'material' | 'topic';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options?: string[]; // multiple choice only
+  answerIndex?: number; // index into options
+  answer: string; // reference answer
+  topic: string;
+  context?: string; // passage the question was written from
+  sourceLabel?: string;
+}
+
+export interface QuizAnswerResult {
+  questionId: string;
+  topic: string;
+  response: string;
+  correct: boolean;
+  score: number; // 0-1, partial credit for short answers
+  expected: string;
+}
+
+export interface QuizAttempt {
+  id: string;
+  userId: string;
+  courseId: string;
+  title: string;
+  source: QuizSource;
+  questionCount: number;
+  score: number; // 0-1
+  topics: string[];
+  completedAt: Date;
+}
+
+export interface TopicMastery {
+  id: string;
+  userId: string;
+  courseId: string;
+  topic: string;
+  mastery: number; // 0-1, recent answers weigh more
+  attempts: number;
+  correct: number;
+  lastAttemptAt: Date;
 }
 
 // Study Plan Types
@@ -106,6 +291,7 @@ export interface StudyPlan {
 export interface StudyPlanEntry {
   id: string;
   planId: string;
+  userId: string;
   courseId: string;
   taskId?: string;
   topic: string;
@@ -120,6 +306,7 @@ export interface StudyPlanEntry {
 export interface ChatMessage {
   id: string;
   userId: string;
+  sessionId: string;
   text: string;
   isUserMessage: boolean;
   aiModel?: 'summarization' | 'qa' | 'chat';
@@ -132,6 +319,9 @@ export interface ChatSession {
   id: string;
   userId: string;
   title: string;
+  mode: 'normal' | 'rag';
+  lastMessage?: string;
+  messageCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -178,6 +368,63 @@ export interface StudyAnalytics {
   period: 'day' | 'week' | 'month' | 'semester';
 }
 
+export interface CourseStudyHours {
+  courseId: string;
+  courseName: string;
+  hours: number;
+}
+
+// One week's review, kept as a history of snapshots
+export interface WeeklySummary {
+  id: string; // `${userId}_${weekKey}`
+  userId: string;
+  weekKey: string; // local YYYY-MM-DD of weekEnd
+  weekStart: Date;
+  weekEnd: Date; // the delivery time the week runs up to
+  totalHours: number;
+  sessionCount: number;
+  dailyHours: { date: string; hours: number }[];
+  courseHours: CourseStudyHours[]; // most studied first
+  tasksCompleted: number | null; // during the week; null for the first snapshot
+  tasksCompletedTotal: number;
+  tasksOverdue: number;
+  averageEffectiveness: number | null; // 1-5, null when no session was rated
+  burnoutScore: number | null; // 0-100
+  peakHours: number[];
+  createdAt: Date;
+}
+
+// Achievement Types
+export type AchievementCategory = 'streak' | 'course_hours' | 'early_completion' | 'burnout_free';
+
+export interface AchievementDefinition {
+  id: string; // stable, e.g. "streak_7" or "course_hours_25_<courseId>"
+  category: AchievementCategory;
+  title: string;
+  description: string;
+  emoji: string;
+  target: number;
+  courseId?: string;
+}
+
+export interface UnlockedAchievement {
+  id: string; // `${userId}_${achievementId}`
+  userId: string;
+  achievementId: string;
+  category: AchievementCategory;
+  title: string; // kept so badges of deleted courses still show
+  description: string;
+  emoji: string;
+  unlockedAt: Date;
+}
+
+export interface AchievementProgress {
+  definition: AchievementDefinition;
+  current: number;
+  unlocked: boolean;
+  unlockedAt?: Date;
+}
+
 // Deadline Prediction Types
 export interface DeadlinePrediction {
   taskId: string;
@@ -204,7 +451,7 @@ export interface UserSettings {
     breakInterval: number; // minutes
   };
   theme: 'light' | 'dark' | 'auto';
-  language: 'en' | 'si';
+  language: 'en' | 'si' | 'ta';
 }
 
 // API Response Types
@@ -225,4 +472,5 @@ export interface SyncStatus {
   lastSyncAt?: Date;
   pendingChanges: number;
   isSyncing: boolean;
+  isOnline: boolean;
 }
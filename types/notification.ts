@@ -42,7 +42,7 @@ export interface NotificationPayload {
   vibration?: number[] | null;
   
   // Action properties
-  action?: 'OPEN_TASK' | 'OPEN_PLANNER' | 'OPEN_TASKS' | 'VIEW_ANALYTICS' | 'VIEW_STATS' | 'VIEW_RECOMMENDATIONS' | 'NONE';
+  action?: 'OPEN_TASK' | 'OPEN_PLANNER' | 'OPEN_TASKS' | 'OPEN_FLASHCARDS' | 'VIEW_ANALYTICS' | 'VIEW_STATS' | 'VIEW_RECOMMENDATIONS' | 'NONE';
   actionData?: {
     taskId?: string;
     courseId?: string;
@@ -71,6 +71,8 @@ export interface NotificationSettings {
   studyReminders: boolean;
   breakReminders: boolean;
   weeklySummary: boolean;
+  weeklySummaryDay: number;  // 0-6 (Sunday-Saturday)
+  weeklySummaryTime: string; // "18:00"
   
   // Timing preferences
   quietHoursEnabled: boolean;
@@ -15,6 +15,7 @@ export interface StudySessionInput {
   duration: number; // in minutes
   notes?: string;
   effectiveness?: 1 | 2 | 3 | 4 | 5 | null;
+  date?: Date;
 }
 
 export interface TaskInput {
@@ -68,6 +69,15 @@ export const validateStudySession = (data: StudySessionInput): ValidationResult
     errors.push('Effectiveness must be between 1 and 5');
   }
   
+  // Date validation (optional, sessions can only be logged after the fact)
+  if (data.date !== undefined) {
+    if (!(data.date instanceof Date) || isNaN(data.date.getTime())) {
+      errors.push('Session date must be a valid date');
+    } else if (data.date.getTime() > Date.now()) {
+      errors.push('Session date cannot be in the future');
+    }
+  }
+  
   return {
     valid: errors.length === 0,
     errors